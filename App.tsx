@@ -17,6 +17,9 @@ import { useTheme } from './src/theme';
 // Import components
 import BiometricActions from './src/components/BiometricActions';
 import BiometricStatusDisplay from './src/components/BiometricStatusDisplay';
+import KeyDetailsPanel from './src/components/KeyDetailsPanel';
+import PromptProfilesPanel from './src/components/PromptProfilesPanel';
+import VariablesPanel from './src/components/VariablesPanel';
 import EndpointConfiguration from './src/components/EndpointConfiguration';
 import { Header } from './src/components/Header';
 import StatusLog from './src/components/StatusLog';
@@ -26,23 +29,60 @@ import { WebControlDebugPanel } from './src/components/WebControlDebugPanel';
 // Import services
 import { biometricService, biometricAPIService, webServerService } from './src/services';
 import { webControlStateManager } from './src/services/WebControlStateManager';
+import { keyRegistry } from './src/services/KeyRegistry';
+import { variableStore } from './src/services/VariableStore';
+import { webControlBridge } from './src/services/WebControlBridge';
+import { configurationPersistence } from './src/services/ConfigurationPersistence';
+import { getPublicKeyFingerprint } from './src/utils/publicKeyUtils';
 
 // Import utilities
-import { useStatusLogger, webControlLogger, errorHandler, networkResilience } from './src/utils';
+import {
+  useStatusLogger,
+  webControlLogger,
+  errorHandler,
+  networkResilience,
+  describeSignatureVerification,
+  summarizeAssertions,
+  summarizeVariableCapture,
+  describeEndpointAuth,
+  describeHttpExchange,
+  BiometricOperationError,
+} from './src/utils';
 
 // Import types
-import type { BiometricStatus, EndpointConfig, ServerStatus, ErrorDetails } from './src/types';
+import type {
+  AssertionResult,
+  BiometricProviderType,
+  BiometricStatus,
+  EndpointConfig,
+  ServerStatus,
+  ErrorDetails,
+  HttpExchange,
+  KeySlot,
+  OperationType,
+  PromptOperation,
+  PromptProfile,
+  PromptProfiles,
+  SignatureVerification,
+  VariableCapture,
+} from './src/types';
 
 // Import constants
 import {
   DEFAULT_ENROLL_ENDPOINT,
   DEFAULT_VALIDATE_ENDPOINT,
+  DEFAULT_UNENROLL_ENDPOINT,
+  DEFAULT_KEY_ALIAS,
+  DEFAULT_PROMPT_PROFILES,
 } from './src/constants';
 
 // Storage keys for persistence
 const STORAGE_KEYS = {
   ENROLL_ENDPOINT: '@biometrics_playground:enroll_endpoint',
   VALIDATE_ENDPOINT: '@biometrics_playground:validate_endpoint',
+  UNENROLL_ENDPOINT: '@biometrics_playground:unenroll_endpoint',
+  KEY_SLOTS: '@biometrics_playground:key_slots',
+  ACTIVE_KEY_SLOT: '@biometrics_playground:active_key_slot',
 };
 
 function AppContent(): React.JSX.Element {
@@ -54,7 +94,13 @@ function AppContent(): React.JSX.Element {
     biometryType: undefined,
   });
 
+  const [biometricProvider, setBiometricProvider] = useState<BiometricProviderType | undefined>(undefined);
   const [keysExist, setKeysExist] = useState<boolean>(false);
+  const [activeKeyAlias, setActiveKeyAlias] = useState<string>(DEFAULT_KEY_ALIAS);
+  const [keySlots, setKeySlots] = useState<KeySlot[]>([
+    { alias: DEFAULT_KEY_ALIAS, keysExist: false },
+  ]);
+  const [activePublicKey, setActivePublicKey] = useState<string | null>(null);
 
   const [enrollEndpoint, setEnrollEndpoint] = useState<EndpointConfig>(
     DEFAULT_ENROLL_ENDPOINT,
@@ -62,8 +108,13 @@ function AppContent(): React.JSX.Element {
   const [validateEndpoint, setValidateEndpoint] = useState<EndpointConfig>(
     DEFAULT_VALIDATE_ENDPOINT,
   );
+  const [unenrollEndpoint, setUnenrollEndpoint] = useState<EndpointConfig>(
+    DEFAULT_UNENROLL_ENDPOINT,
+  );
 
   // Web control state
+  const [promptProfiles, setPromptProfiles] = useState<PromptProfiles>(DEFAULT_PROMPT_PROFILES);
+  const [capturedVariables, setCapturedVariables] = useState<Record<string, string>>({});
   const [webControlError, setWebControlError] = useState<string | null>(null);
   const [isWebControlInitialized, setIsWebControlInitialized] = useState<boolean>(false);
   const [showDebugPanel, setShowDebugPanel] = useState<boolean>(false);
@@ -76,9 +127,55 @@ function AppContent(): React.JSX.Element {
     logSuccess,
     logError,
     logInfo,
+    addLog,
     executeWithLogging,
   } = useStatusLogger();
 
+  /**
+   * Log the verdicts of a backend call's response assertions, if the endpoint has any
+   */
+  const logAssertions = useCallback(
+    (operation: OperationType, assertions?: AssertionResult[]) => {
+      if (!assertions || assertions.length === 0) {
+        return;
+      }
+
+      const message = `Response assertions: ${summarizeAssertions(assertions)}`;
+      if (assertions.every(result => result.passed)) {
+        logSuccess(operation, message, { assertions });
+      } else {
+        logError(operation, message, { assertions });
+      }
+    },
+    [logSuccess, logError],
+  );
+
+  /**
+   * Log the variables a backend call's capture rules stored, if the endpoint has any
+   */
+  const logCapturedVariables = useCallback(
+    (operation: OperationType, captured?: VariableCapture) => {
+      if (captured) {
+        logInfo(operation, `Captured variables: ${summarizeVariableCapture(captured)}`, { captured });
+      }
+    },
+    [logInfo],
+  );
+
+  /**
+   * Log the HTTP exchanges of a backend call, if it got as far as sending a request
+   */
+  const logExchanges = useCallback(
+    (operation: OperationType, exchanges?: HttpExchange[]) => {
+      if (exchanges && exchanges.length > 0) {
+        logInfo(operation, `HTTP exchanges: ${exchanges.map(describeHttpExchange).join('; ')}`, {
+          exchanges,
+        });
+      }
+    },
+    [logInfo],
+  );
+
   /**
    * Initialize biometrics on app load
    */
@@ -91,8 +188,24 @@ function AppContent(): React.JSX.Element {
       setBiometricStatus(status);
 
       if (status.available) {
-        // Check if keys exist
-        const keysExistResult = await biometricService.checkKeysExist();
+        // Restore known key slots and check which of them hold keys
+        const [storedSlots, storedActiveSlot] = await Promise.all([
+          AsyncStorage.getItem(STORAGE_KEYS.KEY_SLOTS),
+          AsyncStorage.getItem(STORAGE_KEYS.ACTIVE_KEY_SLOT),
+        ]);
+        const aliases: string[] = storedSlots ? JSON.parse(storedSlots) : [DEFAULT_KEY_ALIAS];
+        const activeAlias =
+          storedActiveSlot && aliases.includes(storedActiveSlot) && !biometricService.validateKeyAlias(storedActiveSlot)
+            ? storedActiveSlot
+            : DEFAULT_KEY_ALIAS;
+
+        const slots: KeySlot[] = [];
+        for (const alias of aliases) {
+          slots.push({ alias, keysExist: await biometricService.checkKeysExist(alias) });
+        }
+        const keysExistResult = slots.some(slot => slot.alias === activeAlias && slot.keysExist);
+        setKeySlots(slots);
+        setActiveKeyAlias(activeAlias);
         setKeysExist(keysExistResult);
 
         logSuccess(
@@ -111,6 +224,7 @@ function AppContent(): React.JSX.Element {
         );
       } else {
         const errorMsg = status.error || 'Biometric sensors not available';
+        setKeysExist(false);
         logError('status', errorMsg);
         webControlLogger.logBridge('error', errorMsg);
       }
@@ -120,6 +234,35 @@ function AppContent(): React.JSX.Element {
     }
   }, [logSuccess, logError]);
 
+  /**
+   * Restore the biometric provider selected in a previous session
+   */
+  const initializeBiometricProvider = useCallback(async () => {
+    try {
+      setBiometricProvider(await biometricService.restoreProvider());
+    } catch (error) {
+      webControlLogger.logError('bridge', error, 'Biometric provider restore');
+    }
+  }, []);
+
+  /**
+   * Switch between the device keystore and the simulated provider
+   */
+  const handleSelectProvider = useCallback(
+    async (type: BiometricProviderType) => {
+      const result = await biometricService.selectProvider(type);
+      if (!result.success) {
+        logError('status', result.message);
+        return;
+      }
+
+      setBiometricProvider(type);
+      logInfo('status', result.message);
+      await initializeBiometrics();
+    },
+    [initializeBiometrics, logInfo, logError],
+  );
+
   /**
    * Initialize web control system
    */
@@ -172,9 +315,10 @@ function AppContent(): React.JSX.Element {
    */
   const loadEndpointConfiguration = useCallback(async () => {
     try {
-      const [enrollConfig, validateConfig] = await Promise.all([
+      const [enrollConfig, validateConfig, unenrollConfig] = await Promise.all([
         AsyncStorage.getItem(STORAGE_KEYS.ENROLL_ENDPOINT),
         AsyncStorage.getItem(STORAGE_KEYS.VALIDATE_ENDPOINT),
+        AsyncStorage.getItem(STORAGE_KEYS.UNENROLL_ENDPOINT),
       ]);
 
       if (enrollConfig) {
@@ -183,6 +327,9 @@ function AppContent(): React.JSX.Element {
       if (validateConfig) {
         setValidateEndpoint(JSON.parse(validateConfig));
       }
+      if (unenrollConfig) {
+        setUnenrollEndpoint(JSON.parse(unenrollConfig));
+      }
     } catch (error) {
       logError('status', 'Failed to load endpoint configuration', error);
     }
@@ -192,18 +339,22 @@ function AppContent(): React.JSX.Element {
    * Save endpoint configuration to storage
    */
   const saveEndpointConfiguration = useCallback(
-    async (type: 'enroll' | 'validate', config: EndpointConfig) => {
+    async (type: 'enroll' | 'validate' | 'unenroll', config: EndpointConfig) => {
       try {
         const storageKey =
           type === 'enroll'
             ? STORAGE_KEYS.ENROLL_ENDPOINT
-            : STORAGE_KEYS.VALIDATE_ENDPOINT;
+            : type === 'validate'
+            ? STORAGE_KEYS.VALIDATE_ENDPOINT
+            : STORAGE_KEYS.UNENROLL_ENDPOINT;
         await AsyncStorage.setItem(storageKey, JSON.stringify(config));
 
         if (type === 'enroll') {
           setEnrollEndpoint(config);
-        } else {
+        } else if (type === 'validate') {
           setValidateEndpoint(config);
+        } else {
+          setUnenrollEndpoint(config);
         }
 
         // logInfo('status', `${type} endpoint configuration saved`);
@@ -218,6 +369,119 @@ function AppContent(): React.JSX.Element {
     [logInfo, logError],
   );
 
+  /**
+   * Load the biometric prompt texts shared with the web interface
+   */
+  const loadPromptProfiles = useCallback(async () => {
+    setPromptProfiles(await configurationPersistence.getPromptProfiles());
+  }, []);
+
+  /**
+   * Save the biometric prompt texts for one operation
+   */
+  const handleSavePromptProfile = useCallback(
+    async (operation: PromptOperation, profile: PromptProfile) => {
+      try {
+        setPromptProfiles(await configurationPersistence.savePromptProfiles({ [operation]: profile }));
+        logInfo('status', `${operation} prompt texts saved`);
+      } catch (error) {
+        logError('status', `Failed to save ${operation} prompt texts`, error);
+      }
+    },
+    [logInfo, logError],
+  );
+
+  /**
+   * Restore the default biometric prompt texts
+   */
+  const handleResetPromptProfiles = useCallback(async () => {
+    try {
+      setPromptProfiles(await configurationPersistence.resetPromptProfiles());
+      logInfo('status', 'Prompt texts reset to defaults');
+    } catch (error) {
+      logError('status', 'Failed to reset prompt texts', error);
+    }
+  }, [logInfo, logError]);
+
+  /**
+   * Add or overwrite a captured variable by hand
+   */
+  const handleSaveVariable = useCallback(async (name: string, value: string) => {
+    try {
+      await variableStore.merge({ [name]: value });
+      logInfo('status', `Variable ${name} saved`);
+    } catch (error) {
+      logError('status', `Failed to save variable ${name}`, error);
+    }
+  }, [logInfo, logError]);
+
+  /**
+   * Remove a captured variable
+   */
+  const handleRemoveVariable = useCallback(async (name: string) => {
+    try {
+      await variableStore.remove(name);
+      logInfo('status', `Variable ${name} removed`);
+    } catch (error) {
+      logError('status', `Failed to remove variable ${name}`, error);
+    }
+  }, [logInfo, logError]);
+
+  /**
+   * Remove all captured variables
+   */
+  const handleClearVariables = useCallback(async () => {
+    try {
+      await variableStore.clear();
+      logInfo('status', 'Captured variables cleared');
+    } catch (error) {
+      logError('status', 'Failed to clear captured variables', error);
+    }
+  }, [logInfo, logError]);
+
+  /**
+   * Record whether a key slot holds keys
+   */
+  const updateKeySlot = useCallback((alias: string, exists: boolean) => {
+    setKeySlots(slots =>
+      slots.some(slot => slot.alias === alias)
+        ? slots.map(slot => (slot.alias === alias ? { ...slot, keysExist: exists } : slot))
+        : [...slots, { alias, keysExist: exists }],
+    );
+  }, []);
+
+  /**
+   * Select the key slot used by enroll, validate and delete
+   */
+  const handleSelectKeySlot = useCallback(
+    async (alias: string) => {
+      const aliasError = biometricService.validateKeyAlias(alias);
+      if (aliasError) {
+        logError('status', aliasError);
+        return;
+      }
+
+      const slots = keySlots.some(slot => slot.alias === alias)
+        ? keySlots
+        : [...keySlots, { alias, keysExist: false }];
+
+      setKeySlots(slots);
+      setActiveKeyAlias(alias);
+      setKeysExist(slots.some(slot => slot.alias === alias && slot.keysExist));
+      logInfo('status', `Active key slot set to "${alias}"`);
+
+      try {
+        await Promise.all([
+          AsyncStorage.setItem(STORAGE_KEYS.KEY_SLOTS, JSON.stringify(slots.map(slot => slot.alias))),
+          AsyncStorage.setItem(STORAGE_KEYS.ACTIVE_KEY_SLOT, alias),
+        ]);
+      } catch (error) {
+        logError('status', 'Failed to save key slot selection', error);
+      }
+    },
+    [keySlots, logInfo, logError],
+  );
+
   /**
    * Handle enrollment flow with backend integration
    */
@@ -237,7 +501,7 @@ function AppContent(): React.JSX.Element {
         async () => {
           // Validate biometric availability first
           if (!biometricStatus.available) {
-            const error = new Error(
+            const error = new BiometricOperationError(
               `Biometric sensors not available: ${
                 biometricStatus.error || 'Unknown reason'
               }`,
@@ -247,20 +511,27 @@ function AppContent(): React.JSX.Element {
           }
 
           // Create biometric keys with user authentication
-          logInfo('enroll', 'Creating biometric keys...');
+          logInfo('enroll', `Creating biometric keys in slot "${activeKeyAlias}"...`);
           webControlLogger.logBridge('info', 'Creating biometric keys...', operationId);
           
+          // Read the prompt texts at call time so edits from the web interface apply too
+          const { enroll: prompt } = await configurationPersistence.getPromptProfiles();
           const createKeysResult = await biometricService.createKeys(
-            'Authenticate to create biometric keys for enrollment',
+            prompt,
+            activeKeyAlias,
+            enrollEndpoint.enrollmentPolicy,
           );
 
           if (!createKeysResult.success) {
-            const error = new Error(`Key creation failed: ${createKeysResult.message}`);
+            const error = new BiometricOperationError(
+              `Key creation failed: ${createKeysResult.message}`,
+              createKeysResult.error,
+            );
             webControlLogger.logError('bridge', error, 'Key creation', operationId);
             throw error;
           }
 
-          const publicKey = createKeysResult.data.publicKey;
+          const { publicKey, policy } = createKeysResult.data;
           logSuccess(
             'enroll',
             `Biometric keys created successfully. Public key: ${publicKey.substring(
@@ -279,6 +550,8 @@ function AppContent(): React.JSX.Element {
 
           // Update keys exist status
           setKeysExist(true);
+          updateKeySlot(activeKeyAlias, true);
+          setActivePublicKey(publicKey);
 
           // Send public key to backend if endpoint is configured
           if (enrollEndpoint.url) {
@@ -291,18 +564,27 @@ function AppContent(): React.JSX.Element {
               'info',
               'Sending enrollment request to backend',
               enrollEndpoint.url,
-              { method: enrollEndpoint.method }
+              {
+                method: enrollEndpoint.method,
+                // Only the scheme is logged, never the credentials
+                ...(enrollEndpoint.auth ? { auth: describeEndpointAuth(enrollEndpoint.auth) } : {}),
+              }
             );
 
-            const enrollResult = await networkResilience.executeWithRetry(
-              () => biometricAPIService.enrollPublicKey(enrollEndpoint, publicKey),
-              'Backend enrollment',
-              3
+            const enrollResult = await biometricAPIService.enrollPublicKey(
+              enrollEndpoint,
+              publicKey,
+              policy,
+              activeKeyAlias,
             );
+            logExchanges('enroll', enrollResult.exchanges);
+            logAssertions('enroll', enrollResult.assertions);
+            logCapturedVariables('enroll', enrollResult.captured);
 
             if (!enrollResult.success) {
               // Reset keys exist status on backend failure
               setKeysExist(false);
+              updateKeySlot(activeKeyAlias, false);
               const error = new Error(`Backend enrollment failed: ${enrollResult.message}`);
               webControlLogger.logError('bridge', error, 'Backend enrollment', operationId, {
                 endpoint: enrollEndpoint.url,
@@ -325,9 +607,12 @@ function AppContent(): React.JSX.Element {
 
             const result = {
               publicKey,
+              keyAlias: activeKeyAlias,
               backendResponse: enrollResult.data,
               endpoint: enrollEndpoint.url,
               method: enrollEndpoint.method,
+              ...(enrollResult.assertions ? { assertions: enrollResult.assertions } : {}),
+              ...(enrollResult.exchanges ? { exchanges: enrollResult.exchanges } : {}),
             };
             
             webControlLogger.logOperationComplete('bridge', 'enrollment', operationId, true, startTime, result);
@@ -342,6 +627,7 @@ function AppContent(): React.JSX.Element {
             
             const result = {
               publicKey,
+              keyAlias: activeKeyAlias,
               localOnly: true,
             };
             
@@ -362,8 +648,13 @@ function AppContent(): React.JSX.Element {
     executeWithLogging,
     enrollEndpoint,
     biometricStatus,
+    activeKeyAlias,
+    updateKeySlot,
     logInfo,
     logSuccess,
+    logAssertions,
+    logCapturedVariables,
+    logExchanges,
   ]);
 
   /**
@@ -386,7 +677,7 @@ function AppContent(): React.JSX.Element {
         async () => {
           // Validate prerequisites
           if (!biometricStatus.available) {
-            const error = new Error(
+            const error = new BiometricOperationError(
               `Biometric sensors not available: ${
                 biometricStatus.error || 'Unknown reason'
               }`,
@@ -396,32 +687,76 @@ function AppContent(): React.JSX.Element {
           }
 
           if (!keysExist) {
-            const error = new Error(
+            const error = new BiometricOperationError(
               'No biometric keys found. Please enroll first before attempting validation.',
             );
             webControlLogger.logError('bridge', error, 'Validation prerequisites', operationId);
             throw error;
           }
 
-          // Generate payload for signature (custom or timestamp)
-          logInfo('validate', 'Generating payload for signature...');
-          webControlLogger.logBridge('info', 'Generating payload for signature...', operationId);
-          
-          const payload = biometricService.generatePayload(
-            validateEndpoint.customPayload,
-          );
-          const payloadType = validateEndpoint.customPayload
-            ? 'custom'
-            : 'timestamp';
-          logInfo('validate', `Generated ${payloadType} payload: ${payload}`);
-          
-          webControlLogger.logBridge(
-            'info',
-            `Generated ${payloadType} payload`,
-            operationId,
-            undefined,
-            { payloadType, payloadLength: payload.length }
-          );
+          let payload: string;
+          let challenge: string | undefined;
+
+          if (validateEndpoint.challenge?.url) {
+            // Fetch a server-issued challenge and sign it instead of a local payload
+            logInfo(
+              'validate',
+              `Requesting challenge from: ${validateEndpoint.challenge.url}`,
+            );
+            webControlLogger.logNetwork(
+              'info',
+              'Requesting challenge from backend',
+              validateEndpoint.challenge.url,
+              { method: validateEndpoint.challenge.method }
+            );
+
+            const challengeResult = await biometricAPIService.fetchChallenge(
+              validateEndpoint.challenge,
+            );
+            logExchanges('validate', challengeResult.exchanges);
+            if (!challengeResult.success) {
+              const error = new Error(`Challenge request failed: ${challengeResult.message}`);
+              webControlLogger.logError('bridge', error, 'Challenge request', operationId, {
+                endpoint: validateEndpoint.challenge.url,
+              });
+              throw error;
+            }
+
+            challenge = challengeResult.data.challenge as string;
+            payload = challenge;
+            logSuccess(
+              'validate',
+              `Received challenge from "${validateEndpoint.challenge.challengePath}": ${challenge}`,
+              challengeResult.data.response,
+            );
+          } else {
+            // Generate payload for signature (custom or timestamp)
+            logInfo('validate', 'Generating payload for signature...');
+            webControlLogger.logBridge('info', 'Generating payload for signature...', operationId);
+
+            const keyRecord = await keyRegistry.get(activeKeyAlias);
+            payload = biometricService.generatePayload(
+              validateEndpoint.customPayload,
+              {
+                keyAlias: activeKeyAlias,
+                publicKeyFingerprint: keyRecord?.fingerprint,
+                variables: validateEndpoint.payloadVariables,
+                capturedVariables: await variableStore.getAll(),
+              },
+            );
+            const payloadType = validateEndpoint.customPayload
+              ? 'custom'
+              : 'timestamp';
+            logInfo('validate', `Generated ${payloadType} payload: ${payload}`);
+
+            webControlLogger.logBridge(
+              'info',
+              `Generated ${payloadType} payload`,
+              operationId,
+              undefined,
+              { payloadType, payloadLength: payload.length }
+            );
+          }
 
           // Create signature with biometric authentication
           logInfo(
@@ -430,14 +765,19 @@ function AppContent(): React.JSX.Element {
           );
           webControlLogger.logBridge('info', 'Creating biometric signature...', operationId);
           
+          const { validate: prompt } = await configurationPersistence.getPromptProfiles();
           const signatureResult = await biometricService.createSignature({
-            promptMessage: 'Authenticate to create signature for validation',
+            promptMessage: prompt.promptMessage,
             payload,
-            cancelButtonText: 'Cancel Validation',
+            cancelButtonText: prompt.cancelButtonText,
+            keyAlias: activeKeyAlias,
           });
 
           if (!signatureResult.success) {
-            const error = new Error(`Signature creation failed: ${signatureResult.message}`);
+            const error = new BiometricOperationError(
+              `Signature creation failed: ${signatureResult.message}`,
+              signatureResult.error,
+            );
             webControlLogger.logError('bridge', error, 'Signature creation', operationId);
             throw error;
           }
@@ -456,28 +796,52 @@ function AppContent(): React.JSX.Element {
             { signatureLength: signature.length }
           );
 
+          // Report the on-device check against the enrolled public key
+          const verification: SignatureVerification | undefined = signatureResult.data.verification;
+          if (verification) {
+            const verificationMessage = describeSignatureVerification(verification);
+            if (verification.status === 'verified') {
+              logSuccess('validate', verificationMessage, verification);
+            } else if (verification.status === 'failed') {
+              logError('validate', verificationMessage, verification);
+            } else {
+              logInfo('validate', verificationMessage, verification);
+            }
+          }
+
           // Send signature to backend for validation if endpoint is configured
           if (validateEndpoint.url) {
             logInfo(
               'validate',
-              `Sending signature to validation endpoint: ${validateEndpoint.url}`,
+              challenge
+                ? `Sending signature and challenge to validation endpoint: ${validateEndpoint.url}`
+                : `Sending signature to validation endpoint: ${validateEndpoint.url}`,
             );
             
             webControlLogger.logNetwork(
               'info',
               'Sending validation request to backend',
               validateEndpoint.url,
-              { method: validateEndpoint.method }
+              {
+                method: validateEndpoint.method,
+                ...(validateEndpoint.auth ? { auth: describeEndpointAuth(validateEndpoint.auth) } : {}),
+              }
             );
 
-            const validationResult = await networkResilience.executeWithRetry(
-              () => biometricAPIService.validateSignature(validateEndpoint, signature, payload),
-              'Backend validation',
-              3
+            const validationResult = await biometricAPIService.validateSignature(
+              validateEndpoint,
+              signature,
+              payload,
+              challenge,
+              activeKeyAlias,
             );
+            logExchanges('validate', validationResult.exchanges);
+            logAssertions('validate', validationResult.assertions);
+            logCapturedVariables('validate', validationResult.captured);
 
             if (!validationResult.success) {
-              const error = new Error(`Backend validation failed: ${validationResult.message}`);
+              const verificationNote = verification ? ` (on-device check: ${verification.status})` : '';
+              const error = new Error(`Backend validation failed: ${validationResult.message}${verificationNote}`);
               webControlLogger.logError('bridge', error, 'Backend validation', operationId, {
                 endpoint: validateEndpoint.url,
               });
@@ -499,9 +863,14 @@ function AppContent(): React.JSX.Element {
             const result = {
               signature,
               payload,
+              challenge,
+              keyAlias: activeKeyAlias,
+              verification,
               backendResponse: validationResult.data,
               endpoint: validateEndpoint.url,
               method: validateEndpoint.method,
+              ...(validationResult.assertions ? { assertions: validationResult.assertions } : {}),
+              ...(validationResult.exchanges ? { exchanges: validationResult.exchanges } : {}),
               validationTimestamp: new Date().toISOString(),
             };
             
@@ -518,6 +887,8 @@ function AppContent(): React.JSX.Element {
             const result = {
               signature,
               payload,
+              keyAlias: activeKeyAlias,
+              verification,
               localOnly: true,
               validationTimestamp: new Date().toISOString(),
             };
@@ -540,17 +911,79 @@ function AppContent(): React.JSX.Element {
     validateEndpoint,
     biometricStatus,
     keysExist,
+    activeKeyAlias,
     logInfo,
     logSuccess,
+    logError,
+    logAssertions,
+    logCapturedVariables,
+    logExchanges,
   ]);
 
+  /**
+   * Handle an authenticate-only check: a plain biometric prompt without keys or signatures
+   */
+  const handleAuthenticate = useCallback(async () => {
+    const operationId = webControlStateManager.startOperation('authenticate');
+    const startTime = Date.now();
+
+    webControlLogger.logOperationStart('bridge', 'authentication', operationId, {
+      biometricAvailable: biometricStatus.available,
+    });
+
+    try {
+      await executeWithLogging(
+        'authenticate',
+        'Starting authenticate-only check...',
+        async () => {
+          if (!biometricStatus.available) {
+            const error = new BiometricOperationError(
+              `Biometric sensors not available: ${
+                biometricStatus.error || 'Unknown reason'
+              }`,
+            );
+            webControlLogger.logError('bridge', error, 'Authentication prerequisites', operationId);
+            throw error;
+          }
+
+          const { authenticate: prompt } = await configurationPersistence.getPromptProfiles();
+          const authResult = await biometricService.simplePrompt(prompt);
+          if (!authResult.success) {
+            const error = new BiometricOperationError(
+              `Authentication failed: ${authResult.message}`,
+              authResult.error,
+            );
+            webControlLogger.logError('bridge', error, 'Authentication', operationId);
+            throw error;
+          }
+
+          const result = {
+            authenticated: true,
+            biometryType: biometricStatus.biometryType,
+            authenticationTimestamp: new Date().toISOString(),
+          };
+
+          webControlLogger.logOperationComplete('bridge', 'authentication', operationId, true, startTime, result);
+          await webControlStateManager.completeOperation(operationId, true, result);
+
+          return result;
+        },
+        'User presence confirmed',
+      );
+    } catch (error) {
+      webControlLogger.logOperationComplete('bridge', 'authentication', operationId, false, startTime, { error });
+      await webControlStateManager.completeOperation(operationId, false, { error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }, [executeWithLogging, biometricStatus]);
+
   /**
    * Handle key deletion with confirmation
    */
   const handleDeleteKeys = useCallback(async () => {
     Alert.alert(
       'Delete Biometric Keys',
-      'Are you sure you want to delete the biometric keys? This action cannot be undone.',
+      `Are you sure you want to delete the biometric keys in slot "${activeKeyAlias}"? This action cannot be undone.`,
       [
         {
           text: 'Cancel',
@@ -575,17 +1008,76 @@ function AppContent(): React.JSX.Element {
                 'delete',
                 'Deleting biometric keys...',
                 async () => {
+                  // Remove the backend registration first, the public key is gone once the keys are deleted
+                  let backendUnenrollment;
+                  if (unenrollEndpoint.url) {
+                    logInfo(
+                      'delete',
+                      `Sending unenrollment request to: ${unenrollEndpoint.url}`,
+                    );
+
+                    webControlLogger.logNetwork(
+                      'info',
+                      'Sending unenrollment request to backend',
+                      unenrollEndpoint.url,
+                      {
+                        method: unenrollEndpoint.method,
+                        ...(unenrollEndpoint.auth ? { auth: describeEndpointAuth(unenrollEndpoint.auth) } : {}),
+                      }
+                    );
+
+                    const keyRecord = await keyRegistry.get(activeKeyAlias);
+                    const unenrollResult = await biometricAPIService.unenrollPublicKey(
+                      unenrollEndpoint,
+                      activeKeyAlias,
+                      keyRecord?.publicKey,
+                    );
+                    logExchanges('delete', unenrollResult.exchanges);
+                    logAssertions('delete', unenrollResult.assertions);
+                    logCapturedVariables('delete', unenrollResult.captured);
+
+                    if (!unenrollResult.success && !unenrollEndpoint.deleteLocallyOnFailure) {
+                      const error = new Error(
+                        `Backend unenrollment failed: ${unenrollResult.message}. Local keys were kept.`,
+                      );
+                      webControlLogger.logError('bridge', error, 'Backend unenrollment', operationId, {
+                        endpoint: unenrollEndpoint.url,
+                      });
+                      throw error;
+                    }
+
+                    if (unenrollResult.success) {
+                      logSuccess('delete', 'Public key removed from backend');
+                    } else {
+                      logError(
+                        'delete',
+                        `Backend unenrollment failed: ${unenrollResult.message}. Deleting local keys anyway.`,
+                      );
+                    }
+
+                    backendUnenrollment = {
+                      backendResponse: unenrollResult.data,
+                      backendUnenrolled: unenrollResult.success,
+                      endpoint: unenrollEndpoint.url,
+                      method: unenrollEndpoint.method,
+                      ...(unenrollResult.assertions ? { assertions: unenrollResult.assertions } : {}),
+                      ...(unenrollResult.exchanges ? { exchanges: unenrollResult.exchanges } : {}),
+                    };
+                  }
+
                   webControlLogger.logBridge('info', 'Deleting biometric keys...', operationId);
                   
-                  const deleteResult = await biometricService.deleteKeys();
+                  const deleteResult = await biometricService.deleteKeys(activeKeyAlias);
                   if (!deleteResult.success) {
-                    const error = new Error(deleteResult.message);
+                    const error = new BiometricOperationError(deleteResult.message, deleteResult.error);
                     webControlLogger.logError('bridge', error, 'Key deletion', operationId);
                     throw error;
                   }
 
                   // Update keys exist status
                   setKeysExist(false);
+                  updateKeySlot(activeKeyAlias, false);
+                  setActivePublicKey(null);
                   
                   webControlLogger.logBridge(
                     'info',
@@ -595,7 +1087,9 @@ function AppContent(): React.JSX.Element {
                     { keysExistUpdated: false }
                   );
 
-                  const result = deleteResult.data;
+                  const result = backendUnenrollment
+                    ? { ...deleteResult.data, ...backendUnenrollment }
+                    : deleteResult.data;
                   webControlLogger.logOperationComplete('bridge', 'key deletion', operationId, true, startTime, result);
                   await webControlStateManager.completeOperation(operationId, true, result);
                   
@@ -612,7 +1106,63 @@ function AppContent(): React.JSX.Element {
         },
       ],
     );
-  }, [executeWithLogging, keysExist]);
+  }, [
+    executeWithLogging,
+    keysExist,
+    activeKeyAlias,
+    unenrollEndpoint,
+    updateKeySlot,
+    logInfo,
+    logSuccess,
+    logError,
+    logAssertions,
+    logCapturedVariables,
+    logExchanges,
+  ]);
+
+  // Load the recorded public key whenever the active key slot changes
+  useEffect(() => {
+    let cancelled = false;
+    keyRegistry
+      .get(activeKeyAlias)
+      .then(record => {
+        if (!cancelled) {
+          setActivePublicKey(record ? record.publicKey : null);
+        }
+      })
+      .catch(error => {
+        webControlLogger.logError('state', error, 'Load recorded public key');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeKeyAlias]);
+
+  // Benchmarks run from the web interface report their latency stats in the status log
+  useEffect(() => {
+    const unsubscribe = webControlBridge.onLogUpdate(log => {
+      if (log.operation === 'benchmark') {
+        addLog(log);
+      }
+    });
+    return () => {
+      unsubscribe();
+    };
+  }, [addLog]);
+
+  // Retries of backend requests show up in the status log
+  useEffect(() => {
+    const removeListener = networkResilience.addConnectionListener({
+      onRetry: retry => {
+        const message = `Retrying ${retry.context} (attempt ${retry.attempt} of ${retry.maxAttempts}) in ${retry.delay}ms: ${retry.reason}`;
+        logInfo('status', message, retry);
+        webControlLogger.logNetwork('warn', message, undefined, { ...retry });
+      },
+    });
+    return () => {
+      removeListener();
+    };
+  }, [logInfo]);
 
   // Component lifecycle management - initialize on app load
   useEffect(() => {
@@ -627,6 +1177,8 @@ function AppContent(): React.JSX.Element {
         
         // Then initialize other components
         await loadEndpointConfiguration();
+        await loadPromptProfiles();
+        await initializeBiometricProvider();
         await initializeBiometrics();
         
         webControlLogger.logState('info', 'Application initialization completed successfully');
@@ -651,7 +1203,13 @@ function AppContent(): React.JSX.Element {
       
       webControlLogger.logState('info', 'Application cleanup completed');
     };
-  }, [loadEndpointConfiguration, initializeBiometrics, initializeWebControl]);
+  }, [loadEndpointConfiguration, loadPromptProfiles, initializeBiometricProvider, initializeBiometrics, initializeWebControl]);
+
+  // Follow the variable store, which captures and the web interface change in the background
+  useEffect(() => {
+    variableStore.getAll().then(setCapturedVariables);
+    return variableStore.addListener(setCapturedVariables);
+  }, []);
 
   const styles = createStyles(theme);
 
@@ -693,6 +1251,18 @@ function AppContent(): React.JSX.Element {
           biometryType={biometricStatus.biometryType}
           keysExist={keysExist}
           error={biometricStatus.error}
+          errorCode={biometricStatus.errorCode}
+          keySlots={keySlots}
+          activeKeyAlias={activeKeyAlias}
+          onSelectKeySlot={handleSelectKeySlot}
+          keySlotsSupported={biometricService.supportsKeySlots()}
+          biometricProvider={biometricProvider}
+          onSelectProvider={handleSelectProvider}
+        />
+
+        <KeyDetailsPanel
+          publicKey={keysExist ? activePublicKey : null}
+          keyAlias={activeKeyAlias}
         />
 
         <WebControl />
@@ -700,12 +1270,36 @@ function AppContent(): React.JSX.Element {
         <EndpointConfiguration
           enrollConfig={enrollEndpoint}
           validateConfig={validateEndpoint}
+          unenrollConfig={unenrollEndpoint}
           onConfigChange={saveEndpointConfiguration}
+          keyAlias={activeKeyAlias}
+          publicKeyFingerprint={
+            keysExist && activePublicKey
+              ? getPublicKeyFingerprint(activePublicKey)
+              : undefined
+          }
+          capturedVariables={capturedVariables}
+        />
+
+        <VariablesPanel
+          variables={capturedVariables}
+          onSave={handleSaveVariable}
+          onRemove={handleRemoveVariable}
+          onClear={handleClearVariables}
+          disabled={isLoading}
+        />
+
+        <PromptProfilesPanel
+          profiles={promptProfiles}
+          onSave={handleSavePromptProfile}
+          onReset={handleResetPromptProfiles}
+          disabled={isLoading}
         />
 
         <BiometricActions
           onEnroll={handleEnroll}
           onValidate={handleValidate}
+          onAuthenticate={handleAuthenticate}
           onDeleteKeys={handleDeleteKeys}
           disabled={isLoading}
           keysExist={keysExist}
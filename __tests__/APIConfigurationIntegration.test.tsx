@@ -18,6 +18,7 @@ jest.mock('@react-native-async-storage/async-storage', () => ({
 // Mock biometric services to focus on configuration testing
 jest.mock('../src/services', () => ({
   biometricService: {
+    supportsKeySlots: jest.fn().mockReturnValue(false),
     checkBiometricAvailability: jest.fn().mockResolvedValue({
       available: true,
       biometryType: 'FaceID',
@@ -24,6 +24,7 @@ jest.mock('react-native/Libraries/Utilities/useColorScheme', () => ({
 // Mock biometric services
 jest.mock('../src/services', () => ({
   biometricService: {
+    supportsKeySlots: jest.fn().mockReturnValue(false),
     checkBiometricAvailability: jest.fn().mockResolvedValue({
       available: true,
       biometryType: 'TouchID',
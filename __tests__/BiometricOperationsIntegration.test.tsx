@@ -19,6 +19,7 @@ jest.mock('@react-native-async-storage/async-storage', () => ({
 // Mock biometric services
 jest.mock('../src/services', () => ({
   biometricService: {
+    supportsKeySlots: jest.fn().mockReturnValue(false),
     checkBiometricAvailability: jest.fn(),
     checkKeysExist: jest.fn(),
     createKeys: jest.fn(),
@@ -204,6 +204,29 @@ describe('Configuration Persistence Integration', () => {
       removeListener();
     });
 
+    test('should save prompt profiles and keep defaults for other operations', async () => {
+      await configurationPersistence.initialize();
+      const profiles = await configurationPersistence.savePromptProfiles({
+        validate: { promptMessage: 'Confirm the transfer', cancelButtonText: 'Not now' },
+      });
+
+      expect(profiles.validate).toEqual({ promptMessage: 'Confirm the transfer', cancelButtonText: 'Not now' });
+      expect(profiles.enroll.promptMessage).toBe('Authenticate to create biometric keys for enrollment');
+      expect(mockAsyncStorage.setItem).toHaveBeenCalledWith(
+        '@webcontrol_prompt_profiles',
+        expect.stringContaining('Confirm the transfer')
+      );
+
+      await expect(
+        configurationPersistence.savePromptProfiles({
+          authenticate: { promptMessage: 'Hi', cancelButtonText: '' },
+        })
+      ).rejects.toThrow('Invalid authenticate prompt profile');
+      await expect(
+        configurationPersistence.savePromptProfiles({ unlock: { promptMessage: 'Hi', cancelButtonText: 'No' } } as any)
+      ).rejects.toThrow('Invalid prompt profile operation "unlock"');
+    });
+
     test('should validate imported configurations', async () => {
       await configurationPersistence.initialize();
 
@@ -223,6 +246,48 @@ describe('Configuration Persistence Integration', () => {
         configurationPersistence.importConfiguration(JSON.stringify(invalidConfig))
       ).rejects.toThrow('Invalid enroll endpoint configuration');
     });
+
+    test('should mask endpoint secrets on export and keep them on import', async () => {
+      const storedConfigs = {
+        enroll: {
+          url: 'https://api.example.com/enroll',
+          method: 'POST',
+          auth: { type: 'basic', username: 'alice', password: 'pw' },
+        },
+        validate: {
+          url: 'https://api.example.com/validate',
+          method: 'POST',
+          signing: { secret: 'hmac-key' },
+        },
+        unenroll: { url: '', method: 'DELETE' },
+        lastUpdated: new Date().toISOString(),
+      };
+      mockAsyncStorage.getItem.mockImplementation(key =>
+        Promise.resolve(key === '@webcontrol_endpoint_configs' ? JSON.stringify(storedConfigs) : null)
+      );
+
+      const exported = await configurationPersistence.exportConfiguration();
+      expect(exported).not.toContain('"pw"');
+      expect(exported).not.toContain('hmac-key');
+      expect(JSON.parse(exported).endpointConfigs.enroll.auth).toEqual({
+        type: 'basic',
+        username: 'alice',
+        password: '********',
+      });
+
+      mockAsyncStorage.setItem.mockClear();
+      await configurationPersistence.importConfiguration(exported);
+
+      const saved = mockAsyncStorage.setItem.mock.calls.find(
+        ([key]) => key === '@webcontrol_endpoint_configs'
+      );
+      expect(JSON.parse(saved![1]).enroll.auth).toEqual({
+        type: 'basic',
+        username: 'alice',
+        password: 'pw',
+      });
+      expect(JSON.parse(saved![1]).validate.signing).toEqual({ secret: 'hmac-key' });
+    });
   });
 
   describe('WebControlStateManager', () => {
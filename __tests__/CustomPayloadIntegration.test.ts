@@ -52,9 +52,9 @@ describe('Custom Payload Integration', () => {
     const serviceContent = fs.readFileSync('src/services/BiometricService.ts', 'utf8');
     
     // Check for generatePayload method with template processing
-    expect(serviceContent).toContain('generatePayload(customPayload?: string): string');
+    expect(serviceContent).toContain('generatePayload(customPayload?: string, context: PayloadTemplateContext = {}): string');
     expect(serviceContent).toContain('processPayloadTemplate');
-    expect(serviceContent).toContain('replace(/\\{date\\}/g, currentDate)');
+    expect(serviceContent).toContain('renderPayloadTemplate(template, context)');
     
     console.log('✅ BiometricService generatePayload method implemented with template processing');
   });
@@ -8,6 +8,7 @@ import { biometricService, biometricAPIService } from '../src/services';
 // Mock biometric services
 jest.mock('../src/services', () => ({
   biometricService: {
+    supportsKeySlots: jest.fn().mockReturnValue(false),
     checkBiometricAvailability: jest.fn(),
     checkKeysExist: jest.fn(),
     createKeys: jest.fn(),
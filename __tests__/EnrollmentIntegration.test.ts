@@ -113,7 +113,7 @@ describe('Enrollment Flow Integration', () => {
     expect(apiServiceContent).toContain('Request timeout');
     expect(apiServiceContent).toContain('Invalid endpoint configuration');
     expect(apiServiceContent).toContain('AbortError');
-    expect(apiServiceContent).toContain('DEFAULT_TIMEOUT');
+    expect(apiServiceContent).toContain('timeoutMs');
     
     console.log('✅ Comprehensive error handling implemented');
   });
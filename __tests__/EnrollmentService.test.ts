@@ -51,7 +51,7 @@ describe('Enrollment Service Tests', () => {
         createKeys: mockCreateKeys,
       }));
 
-      const result = await biometricService.createKeys('Test enrollment');
+      const result = await biometricService.createKeys({ promptMessage: 'Test enrollment' });
 
       expect(result.success).toBe(true);
       expect(result.data.publicKey).toBe(mockPublicKey);
@@ -69,7 +69,7 @@ describe('Enrollment Service Tests', () => {
         createKeys: mockCreateKeys,
       }));
 
-      const result = await biometricService.createKeys('Test enrollment');
+      const result = await biometricService.createKeys({ promptMessage: 'Test enrollment' });
 
       expect(result.success).toBe(false);
       expect(result.message).toBe('Failed to create biometric keys');
@@ -307,7 +307,7 @@ describe('Enrollment Service Tests', () => {
       });
 
       // Execute enrollment flow
-      const keyResult = await biometricService.createKeys('Test enrollment');
+      const keyResult = await biometricService.createKeys({ promptMessage: 'Test enrollment' });
       expect(keyResult.success).toBe(true);
 
       const enrollResult = await biometricAPIService.enrollPublicKey(
@@ -355,7 +355,7 @@ describe('Enrollment Service Tests', () => {
       });
 
       // Execute enrollment flow
-      const keyResult = await biometricService.createKeys('Test enrollment');
+      const keyResult = await biometricService.createKeys({ promptMessage: 'Test enrollment' });
       expect(keyResult.success).toBe(true);
 
       const enrollResult = await biometricAPIService.enrollPublicKey(
@@ -49,8 +49,9 @@ describe('Validation Flow Integration', () => {
     
     // Check for signature creation with proper options
     expect(appContent).toContain('createSignature');
-    expect(appContent).toContain('promptMessage: \'Authenticate to create signature for validation\'');
-    expect(appContent).toContain('cancelButtonText: \'Cancel Validation\'');
+    expect(appContent).toContain('const { validate: prompt } = await configurationPersistence.getPromptProfiles()');
+    expect(appContent).toContain('promptMessage: prompt.promptMessage');
+    expect(appContent).toContain('cancelButtonText: prompt.cancelButtonText');
     expect(appContent).toContain('Signature creation failed');
     
     console.log('✅ Signature creation with proper options implemented');
@@ -410,7 +410,10 @@ describe('WebControlBridge', () => {
 
       await bridge.executeValidation(config);
 
-      expect(mockBiometricService.generatePayload).toHaveBeenCalledWith('custom-{date}');
+      expect(mockBiometricService.generatePayload).toHaveBeenCalledWith(
+        'custom-{date}',
+        expect.objectContaining({ keyAlias: 'default' })
+      );
 
       const state = bridge.getAppState();
       const payloadLog = state.logs.find(log => 
@@ -17,4 +17,8 @@ jest.mock('react-native-tcp-socket', () => ({
     }),
     close: jest.fn(),
   })),
-}));
\ No newline at end of file
+}));
+// Mock react-native-reanimated
+jest.mock('react-native-reanimated', () =>
+  require('react-native-reanimated/mock'),
+);
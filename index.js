@@ -2,6 +2,8 @@
  * @format
  */
 
+// Installs crypto.getRandomValues, which Hermes lacks; must load before any key or nonce is generated
+import 'react-native-get-random-values';
 import { AppRegistry } from 'react-native';
 import App from './App';
 import { name as appName } from './app.json';
@@ -5,6 +5,6 @@ module.exports = {
     '<rootDir>/__tests__/setup.js',
   ],
   transformIgnorePatterns: [
-    'node_modules/(?!(react-native|@react-native|react-native-biometrics)/)',
+    'node_modules/(?!(react-native|@react-native|react-native-biometrics|react-native-reanimated)/)',
   ],
 };
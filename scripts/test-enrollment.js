@@ -3,32 +3,14 @@
  * This script tests the enrollment flow logic without UI dependencies
  */
 
-const { biometricService, biometricAPIService } = require('../src/services');
+const {
+  biometricService,
+  biometricAPIService,
+  SimulatedBiometricProvider,
+} = require('../src/services');
 
-// Mock react-native-biometrics for testing
-jest.mock('react-native-biometrics', () => ({
-  __esModule: true,
-  default: jest.fn().mockImplementation(() => ({
-    isSensorAvailable: jest.fn().mockResolvedValue({
-      available: true,
-      biometryType: 'TouchID',
-    }),
-    biometricKeysExist: jest.fn().mockResolvedValue({ keysExist: false }),
-    createKeys: jest.fn().mockResolvedValue({
-      publicKey: 'mock-public-key-12345',
-    }),
-    deleteKeys: jest.fn().mockResolvedValue({ keysDeleted: true }),
-    createSignature: jest.fn().mockResolvedValue({
-      success: true,
-      signature: 'mock-signature',
-    }),
-  })),
-  BiometryTypes: {
-    TouchID: 'TouchID',
-    FaceID: 'FaceID',
-    Biometrics: 'Biometrics',
-  },
-}));
+// Generate keys and sign in JavaScript instead of the device keystore
+biometricService.setProvider(new SimulatedBiometricProvider());
 
 // Mock fetch for API testing
 global.fetch = jest.fn();
@@ -4,8 +4,26 @@
  */
 
 import { BiometricService } from '../services/BiometricService';
+import { KeyRegistry } from '../services/KeyRegistry';
+import { SimulatedBiometricProvider } from '../services/SimulatedBiometricProvider';
+import { SimulatedFaultProfile } from '../services/SimulatedFaultProfile';
 import ReactNativeBiometrics from 'react-native-biometrics';
 
+// RSA key pair output generated with Node's crypto module (SHA256withRSA over 'test-payload')
+const RSA_PUBLIC_KEY =
+  'MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEA4cWSGG9b/dESjfxKFXCCzCJB1jCciy7H' +
+  'xRC50h046bGEagIYW7Qqal5+5Fmfdv2CD4M8+alJmOVhDyZMyyKJtFg9FbprWOENAPr8fmZ6VeLy' +
+  'e/IvBLmD8pdpDFlrOfTM1dfxw1ILI3P4CJGlapHAmNYymohaNxXHojjLTUjM25z85Gtmi/IRjCbz' +
+  'DCKS4CHOq9DkyIdp1CxyaYvNo79JoYEBHcr+kMW86JRt/S3vXaoFZc75uzsyPWb3zH3JrBjhxQw8' +
+  'kLajnS0hk3Od1ESargSQ9z8wXxXIseE1oFArAWMJYtK1vmQ34Nt0ztJtIQJB7H6DhurODPeP7IOn' +
+  'hKqJywIDAQAB';
+const RSA_TEST_PAYLOAD_SIGNATURE =
+  'xmbPclnjKugOHhSWx0ft3eh7sDeRe7PsQG3dyDoMiWJ9mH+LIaNPDoJk/n7QkEx8zEb+W8UgoDoZ' +
+  'yLE3UTXISZkgbPRnPglRelRd5d3g0TAwhHNojin1Ewr3RosCMFUECU1SvgAMB2A7bXsExdczKmHz' +
+  'LBTDRO3g9uWUD/2fFRXXc2OnFtHha8hTdMDJNeJHKOqn9pbPDkGZpPrP68LmH6p5h807wtUfOhW4' +
+  '+2HFYZYf5irkdA5vqjWyO1Z6lmXXDX8QqhKfJ7JSrarOFxG16QEF5RatpInQGc/TlxYxFYe+2XfE' +
+  'GcJ6IKCJTAmec5g4kv2RO6XDMNZUiPl1APSeUw==';
+
 // Mock react-native-biometrics
 jest.mock('react-native-biometrics', () => {
   return jest.fn().mockImplementation(() => ({
@@ -26,11 +44,12 @@ describe('BiometricService', () => {
     // Clear all mocks before each test
     jest.clearAllMocks();
     
-    // Create new service instance
-    biometricService = new BiometricService();
+    // Create new service instance with its own key registry
+    biometricService = new BiometricService(new KeyRegistry());
     
     // Get the mocked instance
-    mockRNBiometrics = (biometricService as any).rnBiometrics;
+    mockRNBiometrics = (biometricService as any).provider.rnBiometrics;
+    mockRNBiometrics.simplePrompt.mockResolvedValue({ success: true });
   });
 
   describe('checkBiometricAvailability', () => {
@@ -72,6 +91,7 @@ describe('BiometricService', () => {
         available: false,
         biometryType: undefined,
         error: 'Biometrics not available',
+        errorCode: 'HW_UNAVAILABLE',
       });
     });
 
@@ -88,6 +108,7 @@ describe('BiometricService', () => {
         available: false,
         biometryType: undefined,
         error: 'Sensor check failed',
+        errorCode: 'UNKNOWN',
       });
     });
   });
@@ -135,12 +156,15 @@ describe('BiometricService', () => {
       mockRNBiometrics.createKeys.mockResolvedValue({ publicKey: mockPublicKey });
 
       // Act
-      const result = await biometricService.createKeys('Test prompt');
+      const result = await biometricService.createKeys({ promptMessage: 'Test prompt' });
 
       // Assert
       expect(result.success).toBe(true);
       expect(result.message).toBe('Biometric keys created successfully');
-      expect(result.data).toEqual({ publicKey: mockPublicKey });
+      expect(result.data).toEqual({
+        publicKey: mockPublicKey,
+        policy: { algorithm: 'RSA-2048', allowDeviceCredentials: false, requireConfirmation: false },
+      });
       expect(result.timestamp).toBeInstanceOf(Date);
       expect(mockRNBiometrics.createKeys).toHaveBeenCalledTimes(1);
     });
@@ -158,6 +182,78 @@ describe('BiometricService', () => {
       expect(result.message).toBe('Key creation failed');
       expect(result.timestamp).toBeInstanceOf(Date);
     });
+
+    it('should show the enroll prompt texts and create no key when the prompt is cancelled', async () => {
+      // Arrange
+      const prompt = {
+        promptMessage: 'Enroll this device',
+        cancelButtonText: 'Not now',
+        fallbackPromptMessage: 'Use passcode',
+      };
+      mockRNBiometrics.simplePrompt.mockResolvedValue({ success: false, error: 'User cancellation' });
+
+      // Act
+      const result = await biometricService.createKeys(prompt);
+
+      // Assert
+      expect(mockRNBiometrics.simplePrompt).toHaveBeenCalledWith(prompt);
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('User cancellation');
+      expect(result.error?.code).toBe('USER_CANCEL');
+      expect(mockRNBiometrics.createKeys).not.toHaveBeenCalled();
+    });
+
+    it('should record the enrollment policy and sign with device credential fallback', async () => {
+      // Arrange
+      const policy = { allowDeviceCredentials: true, requireConfirmation: false };
+      const credentialBiometrics = {
+        createKeys: jest.fn().mockResolvedValue({ publicKey: RSA_PUBLIC_KEY }),
+        createSignature: jest.fn().mockResolvedValue({ success: true, signature: RSA_TEST_PAYLOAD_SIGNATURE }),
+      };
+      (ReactNativeBiometrics as unknown as jest.Mock).mockImplementationOnce(() => credentialBiometrics);
+
+      // Act
+      const result = await biometricService.createKeys({ promptMessage: 'Test prompt' }, 'default', policy);
+      const signatureResult = await biometricService.createSignature({
+        promptMessage: 'Sign',
+        payload: 'test-payload',
+      });
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.data.policy).toEqual({ algorithm: 'RSA-2048', ...policy });
+      expect(ReactNativeBiometrics).toHaveBeenLastCalledWith({ allowDeviceCredentials: true });
+      expect(credentialBiometrics.createKeys).toHaveBeenCalledTimes(1);
+      expect(mockRNBiometrics.createKeys).not.toHaveBeenCalled();
+      mockRNBiometrics.biometricKeysExist.mockResolvedValue({ keysExist: true });
+      expect((await biometricService.getPublicKey()).data.record.policy).toEqual(result.data.policy);
+      expect(signatureResult.success).toBe(true);
+      expect(signatureResult.data.verification.status).toBe('verified');
+      expect(mockRNBiometrics.createSignature).not.toHaveBeenCalled();
+    });
+
+    it('should reject policies the device keystore cannot honour', async () => {
+      // Act
+      const ecResult = await biometricService.createKeys({ promptMessage: 'Test prompt' }, 'default', {
+        algorithm: 'EC-P256',
+        allowDeviceCredentials: false,
+        requireConfirmation: false,
+      });
+      const confirmationResult = await biometricService.createKeys({ promptMessage: 'Test prompt' }, 'default', {
+        allowDeviceCredentials: false,
+        requireConfirmation: true,
+      });
+
+      // Assert
+      expect(ecResult.success).toBe(false);
+      expect(ecResult.message).toBe(
+        'Key algorithm "EC-P256" is not supported by the native provider, which creates RSA-2048 keys'
+      );
+      expect(ecResult.error?.code).toBe('UNSUPPORTED_KEY_POLICY');
+      expect(confirmationResult.success).toBe(false);
+      expect(confirmationResult.error?.code).toBe('UNSUPPORTED_KEY_POLICY');
+      expect(mockRNBiometrics.createKeys).not.toHaveBeenCalled();
+    });
   });
 
   describe('deleteKeys', () => {
@@ -227,6 +323,8 @@ describe('BiometricService', () => {
       expect(result.data).toEqual({
         signature: mockSignature,
         payload,
+        verification: expect.objectContaining({ status: 'skipped' }),
+        timings: { signatureMs: expect.any(Number), verificationMs: expect.any(Number) },
       });
       expect(mockRNBiometrics.createSignature).toHaveBeenCalledWith({
         promptMessage: options.promptMessage,
@@ -235,6 +333,29 @@ describe('BiometricService', () => {
       });
     });
 
+    it('should verify the signature against the enrolled public key', async () => {
+      // Arrange
+      const payload = 'test-payload';
+      mockRNBiometrics.createKeys.mockResolvedValue({ publicKey: RSA_PUBLIC_KEY });
+      mockRNBiometrics.createSignature.mockResolvedValue({
+        success: true,
+        signature: RSA_TEST_PAYLOAD_SIGNATURE,
+      });
+
+      // Act
+      await biometricService.createKeys();
+      const result = await biometricService.createSignature({ promptMessage: 'Sign', payload });
+      const tampered = await biometricService.verifyOwnSignature('default', 'other-payload', result.data.signature);
+
+      // Assert
+      expect(result.data.verification).toEqual({
+        status: 'verified',
+        algorithm: 'RSASSA-PKCS1-v1_5-SHA256',
+        keySize: 2048,
+      });
+      expect(tampered.status).toBe('failed');
+    });
+
     it('should handle signature creation failure', async () => {
       // Arrange
       const options = {
@@ -253,6 +374,24 @@ describe('BiometricService', () => {
       // Assert
       expect(result.success).toBe(false);
       expect(result.message).toBe('User cancelled');
+      expect(result.error?.code).toBe('USER_CANCEL');
+    });
+
+    it('should classify lockout rejections', async () => {
+      // Arrange
+      mockRNBiometrics.createSignature.mockRejectedValue(
+        new Error('Too many attempts. Fingerprint sensor disabled.')
+      );
+
+      // Act
+      const result = await biometricService.createSignature({ promptMessage: 'Sign', payload: 'test-payload' });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.error).toEqual(
+        expect.objectContaining({ code: 'LOCKOUT_PERMANENT', recoverable: false })
+      );
+      expect(result.error?.remediation).toMatch(/PIN, pattern or passcode/);
     });
 
     it('should handle signature creation errors', async () => {
@@ -330,11 +469,11 @@ describe('BiometricService', () => {
   });
 
   describe('getPublicKey', () => {
-    it('should return public key when keys exist', async () => {
+    it('should return the public key recorded at enrollment', async () => {
       // Arrange
-      const mockPublicKey = 'existing-public-key';
+      mockRNBiometrics.createKeys.mockResolvedValue({ publicKey: RSA_PUBLIC_KEY });
+      await biometricService.createKeys();
       mockRNBiometrics.biometricKeysExist.mockResolvedValue({ keysExist: true });
-      mockRNBiometrics.createKeys.mockResolvedValue({ publicKey: mockPublicKey });
 
       // Act
       const result = await biometricService.getPublicKey();
@@ -342,7 +481,14 @@ describe('BiometricService', () => {
       // Assert
       expect(result.success).toBe(true);
       expect(result.message).toBe('Public key retrieved successfully');
-      expect(result.data).toEqual({ publicKey: mockPublicKey });
+      expect(result.data.publicKey).toBe(RSA_PUBLIC_KEY);
+      expect(result.data.record).toMatchObject({
+        alias: 'default',
+        algorithm: 'RSA',
+        keySize: 2048,
+      });
+      expect(result.data.record.fingerprint).toMatch(/^[0-9a-f]{64}$/);
+      expect(mockRNBiometrics.createKeys).toHaveBeenCalledTimes(1);
     });
 
     it('should return error when no keys exist', async () => {
@@ -357,17 +503,146 @@ describe('BiometricService', () => {
       expect(result.message).toBe('No biometric keys found. Please enroll first.');
     });
 
-    it('should handle errors when retrieving public key', async () => {
+    it('should ask for re-enrollment instead of regenerating keys when no record exists', async () => {
       // Arrange
       mockRNBiometrics.biometricKeysExist.mockResolvedValue({ keysExist: true });
-      mockRNBiometrics.createKeys.mockRejectedValue(new Error('Key retrieval failed'));
 
       // Act
       const result = await biometricService.getPublicKey();
 
       // Assert
       expect(result.success).toBe(false);
-      expect(result.message).toBe('Key retrieval failed');
+      expect(result.message).toContain('Please enroll again');
+      expect(mockRNBiometrics.createKeys).not.toHaveBeenCalled();
+    });
+
+    it('should forget the recorded key once keys are deleted', async () => {
+      // Arrange
+      mockRNBiometrics.createKeys.mockResolvedValue({ publicKey: RSA_PUBLIC_KEY });
+      mockRNBiometrics.deleteKeys.mockResolvedValue({ keysDeleted: true });
+      mockRNBiometrics.biometricKeysExist.mockResolvedValue({ keysExist: true });
+      await biometricService.createKeys();
+      await biometricService.deleteKeys();
+
+      // Act
+      const result = await biometricService.getPublicKey();
+
+      // Assert
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('key slots', () => {
+    it('should accept the default key slot', () => {
+      expect(biometricService.validateKeyAlias('default')).toBeNull();
+    });
+
+    it('should only accept named key slots with the simulated provider', () => {
+      // The device keystore holds a single key pair, so named slots are not provider-independent
+      expect(biometricService.supportsKeySlots()).toBe(false);
+      expect(biometricService.validateKeyAlias('secondary')).toContain(
+        'not supported by the device keystore'
+      );
+
+      biometricService.setProvider(new SimulatedBiometricProvider());
+
+      expect(biometricService.supportsKeySlots()).toBe(true);
+      expect(biometricService.validateKeyAlias('secondary')).toBeNull();
+    });
+
+    it('should reject malformed key slot names', () => {
+      expect(biometricService.validateKeyAlias('')).toContain('Invalid key slot');
+      expect(biometricService.validateKeyAlias('has space')).toContain('Invalid key slot');
+    });
+
+    it('should refuse to create keys in a slot the keystore cannot hold', async () => {
+      // Act
+      const result = await biometricService.createKeys({ promptMessage: 'Test prompt' }, 'secondary');
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('Key slot "secondary" is not supported');
+      expect(mockRNBiometrics.createKeys).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to sign or delete with an unsupported slot', async () => {
+      // Act
+      const signatureResult = await biometricService.createSignature({
+        promptMessage: 'Sign',
+        payload: 'payload',
+        keyAlias: 'secondary',
+      });
+      const deleteResult = await biometricService.deleteKeys('secondary');
+
+      // Assert
+      expect(signatureResult.success).toBe(false);
+      expect(deleteResult.success).toBe(false);
+      expect(mockRNBiometrics.createSignature).not.toHaveBeenCalled();
+      expect(mockRNBiometrics.deleteKeys).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('simulated provider', () => {
+    beforeEach(() => {
+      biometricService.setProvider(new SimulatedBiometricProvider());
+    });
+
+    it('should report the active provider type', () => {
+      expect(biometricService.getProviderType()).toBe('simulated');
+    });
+
+    it('should run enroll, sign and delete flows across named slots', async () => {
+      // Act
+      const primary = await biometricService.createKeys({ promptMessage: 'Enroll' }, 'primary');
+      const secondary = await biometricService.createKeys({ promptMessage: 'Enroll' }, 'secondary');
+      const signature = await biometricService.createSignature({
+        promptMessage: 'Sign',
+        payload: 'payload-to-sign',
+        keyAlias: 'secondary',
+      });
+      const deleteResult = await biometricService.deleteKeys('primary');
+
+      // Assert
+      expect(primary.success).toBe(true);
+      expect(secondary.success).toBe(true);
+      expect(primary.data.publicKey).not.toBe(secondary.data.publicKey);
+      expect(signature.success).toBe(true);
+      expect(signature.data.verification.status).toBe('verified');
+      expect(deleteResult.success).toBe(true);
+      expect(await biometricService.checkKeysExist('primary')).toBe(false);
+      expect(await biometricService.checkKeysExist('secondary')).toBe(true);
+      expect(mockRNBiometrics.createKeys).not.toHaveBeenCalled();
+    });
+
+    it('should apply the next prompt fault to the enrollment prompt', async () => {
+      // Arrange
+      const faults = new SimulatedFaultProfile();
+      biometricService.setProvider(new SimulatedBiometricProvider(undefined, faults));
+      faults.addFault({ operation: 'simplePrompt', fault: 'userCancel', remaining: 1 });
+
+      // Act
+      const enrollResult = await biometricService.createKeys({ promptMessage: 'Enroll' });
+      const authenticateResult = await biometricService.simplePrompt({ promptMessage: 'Authenticate' });
+
+      // Assert
+      expect(enrollResult.success).toBe(false);
+      expect(enrollResult.error?.code).toBe('USER_CANCEL');
+      expect(await biometricService.checkKeysExist()).toBe(false);
+      expect(authenticateResult.success).toBe(true);
+      expect(faults.getFaults()).toEqual([]);
+    });
+
+    it('should fail to sign with an empty slot', async () => {
+      // Act
+      const result = await biometricService.createSignature({
+        promptMessage: 'Sign',
+        payload: 'payload',
+        keyAlias: 'empty',
+      });
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('No simulated key exists in slot "empty"');
     });
   });
 
@@ -456,6 +731,24 @@ describe('BiometricService', () => {
       expect(result).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/);
       expect(new Date(result)).toBeInstanceOf(Date);
     });
+
+    it('should render key slot and user variables from the template context', () => {
+      // Act
+      const result = biometricService.generatePayload('login:{keyAlias}:{userId}', {
+        keyAlias: 'work',
+        variables: { userId: 'alice' },
+      });
+
+      // Assert
+      expect(result).toBe('login:work:alice');
+    });
+
+    it('should throw on unknown placeholders', () => {
+      // Act & Assert
+      expect(() => biometricService.generatePayload('{unknown}')).toThrow(
+        'Unknown placeholder {unknown} at position 0'
+      );
+    });
   });
 
   describe('validateConfiguration', () => {
@@ -492,7 +785,7 @@ describe('BiometricService', () => {
       // Assert
       expect(result.success).toBe(false);
       expect(result.message).toBe('Biometrics not available: Hardware not available');
-      expect(result.data).toEqual(mockStatus);
+      expect(result.data).toEqual({ ...mockStatus, errorCode: 'HW_UNAVAILABLE' });
     });
 
     it('should handle validation errors', async () => {
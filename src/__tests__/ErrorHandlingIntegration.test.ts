@@ -152,6 +152,30 @@ describe('Error Handling Integration', () => {
       expect(mockOperation).toHaveBeenCalledTimes(2);
     });
 
+    test('should report retries with the configured backoff', async () => {
+      networkResilience.initialize();
+
+      const retries: any[] = [];
+      const removeListener = networkResilience.addConnectionListener({
+        onRetry: (retry) => retries.push(retry),
+      });
+      const mockOperation = jest.fn(() => Promise.resolve({ status: 503 }));
+
+      const result = await networkResilience.executeWithRetry(mockOperation, 'Test operation', 3, {
+        backoff: 'exponential',
+        baseDelay: 5,
+        retryResult: (response) => (response.status === 503 ? 'HTTP 503' : undefined),
+      });
+      removeListener();
+
+      expect(result).toEqual({ status: 503 });
+      expect(mockOperation).toHaveBeenCalledTimes(3);
+      expect(retries.map((retry) => [retry.attempt, retry.delay, retry.reason])).toEqual([
+        [2, 5, 'HTTP 503'],
+        [3, 10, 'HTTP 503'],
+      ]);
+    });
+
     test('should notify connection listeners', (done) => {
       networkResilience.initialize();
 
@@ -71,7 +71,7 @@ describe('Web Control Integration', () => {
         url: 'https://api.example.com/enroll',
         method: 'POST',
         headers: { 'Authorization': 'Bearer token123' },
-      });
+      }, undefined);
 
       // Verify HTTP response was sent
       expect(mockSocket.write).toHaveBeenCalledWith(
@@ -145,7 +145,7 @@ describe('Web Control Integration', () => {
         url: 'https://api.example.com/validate',
         method: 'POST',
         customPayload: 'custom-validation-data',
-      });
+      }, undefined);
 
       // Verify HTTP response was sent
       expect(mockSocket.write).toHaveBeenCalledWith(
@@ -188,7 +188,7 @@ describe('Web Control Integration', () => {
         ],
         isLoading: false,
       };
-      (webControlBridge.getAppState as jest.Mock).mockReturnValue(mockState);
+      (webControlBridge.getAppStateForWeb as jest.Mock).mockReturnValue(mockState);
 
       // Create mock socket
       const mockSocket = {
@@ -210,7 +210,7 @@ describe('Web Control Integration', () => {
       await routeRequest(mockSocket, request);
 
       // Verify WebControlBridge was called
-      expect(webControlBridge.getAppState).toHaveBeenCalled();
+      expect(webControlBridge.getAppStateForWeb).toHaveBeenCalled();
 
       // Verify HTTP response was sent
       expect(mockSocket.write).toHaveBeenCalledWith(
@@ -1,6 +1,10 @@
 import { WebServerService } from '../services/WebServerService';
 import { webControlBridge } from '../services/WebControlBridge';
 import { webSocketManager } from '../services/WebSocketManager';
+import { keyRegistry } from '../services/KeyRegistry';
+import { simulatedFaultProfile } from '../services/SimulatedFaultProfile';
+import { variableStore } from '../services/VariableStore';
+import { biometricAPIService } from '../services/BiometricAPIService';
 
 // Mock dependencies
 jest.mock('../services/WebControlBridge');
@@ -117,7 +121,7 @@ describe('WebServerService HTTP Routing', () => {
 
       expect(webControlBridge.executeEnrollment).toHaveBeenCalledWith({
         url: 'https://api.example.com',
-      });
+      }, undefined);
       expect(mockSocket.write).toHaveBeenCalledWith(
         expect.stringContaining('HTTP/1.1 200 OK')
       );
@@ -148,7 +152,34 @@ describe('WebServerService HTTP Routing', () => {
 
       expect(webControlBridge.executeValidation).toHaveBeenCalledWith({
         url: 'https://api.example.com',
-      });
+      }, undefined);
+      expect(mockSocket.write).toHaveBeenCalledWith(
+        expect.stringContaining('HTTP/1.1 200 OK')
+      );
+    });
+
+    it('should route POST /api/authenticate to the authenticate-only handler', async () => {
+      const config = { url: 'https://api.example.com/presence', method: 'POST' };
+      const request = {
+        method: 'POST',
+        path: '/api/authenticate',
+        version: 'HTTP/1.1',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ config }),
+      };
+
+      const mockResult = {
+        success: true,
+        message: 'Authentication completed and reported successfully',
+        data: { authenticated: true },
+        timestamp: new Date(),
+      };
+      (webControlBridge.executeAuthentication as jest.Mock).mockResolvedValue(mockResult);
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, request);
+
+      expect(webControlBridge.executeAuthentication).toHaveBeenCalledWith(config);
       expect(mockSocket.write).toHaveBeenCalledWith(
         expect.stringContaining('HTTP/1.1 200 OK')
       );
@@ -180,6 +211,70 @@ describe('WebServerService HTTP Routing', () => {
       );
     });
 
+    it('should pass the unenrollment endpoint on to delete keys', async () => {
+      const config = { url: 'https://api.example.com/enrollments', method: 'DELETE', deleteLocallyOnFailure: true };
+      const request = {
+        method: 'POST',
+        path: '/api/delete-keys',
+        version: 'HTTP/1.1',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ keyAlias: 'work', config }),
+      };
+
+      (webControlBridge.deleteKeys as jest.Mock).mockResolvedValue({
+        success: true,
+        message: 'Keys deleted successfully',
+        timestamp: new Date(),
+      });
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, request);
+
+      expect(webControlBridge.deleteKeys).toHaveBeenCalledWith('work', config);
+    });
+
+    it('should route POST /api/benchmark to the benchmark runner', async () => {
+      const request = {
+        method: 'POST',
+        path: '/api/benchmark',
+        version: 'HTTP/1.1',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ iterations: 5, payloadSizes: [64], keyAlias: 'work' }),
+      };
+
+      const mockResult = {
+        success: true,
+        message: 'Benchmark completed: 5 of 5 signatures succeeded',
+        data: { results: [], samples: [] },
+        timestamp: new Date(),
+      };
+      (webControlBridge.executeBenchmark as jest.Mock).mockResolvedValue(mockResult);
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, request);
+
+      expect(webControlBridge.executeBenchmark).toHaveBeenCalledWith({ iterations: 5, payloadSizes: [64] }, 'work');
+      expect(mockSocket.write).toHaveBeenCalledWith(
+        expect.stringContaining('HTTP/1.1 200 OK')
+      );
+    });
+
+    it('should reject out-of-range benchmark options', async () => {
+      const request = {
+        method: 'POST',
+        path: '/api/benchmark',
+        version: 'HTTP/1.1',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ iterations: 0 }),
+      };
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, request);
+
+      expect(webControlBridge.executeBenchmark).not.toHaveBeenCalled();
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('HTTP/1.1 400'));
+    });
+
     it('should route GET /api/state to state handler', async () => {
       const request = {
         method: 'GET',
@@ -198,17 +293,391 @@ describe('WebServerService HTTP Routing', () => {
         logs: [],
         isLoading: false,
       };
-      (webControlBridge.getAppState as jest.Mock).mockReturnValue(mockState);
+      (webControlBridge.getAppStateForWeb as jest.Mock).mockReturnValue(mockState);
 
       const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
       await routeRequest(mockSocket, request);
 
-      expect(webControlBridge.getAppState).toHaveBeenCalled();
+      expect(webControlBridge.getAppStateForWeb).toHaveBeenCalled();
       expect(mockSocket.write).toHaveBeenCalledWith(
         expect.stringContaining('HTTP/1.1 200 OK')
       );
     });
 
+    it('should route GET /api/keys to the key registry', async () => {
+      const request = {
+        method: 'GET',
+        path: '/api/keys',
+        version: 'HTTP/1.1',
+        headers: {},
+        body: '',
+      };
+
+      const mockKeys = [
+        { alias: 'default', publicKey: 'MIIB', createdAt: '2024-01-01T00:00:00.000Z', algorithm: 'RSA', fingerprint: 'ab' },
+      ];
+      jest.spyOn(keyRegistry, 'list').mockResolvedValue(mockKeys as any);
+      (webControlBridge.getAppState as jest.Mock).mockReturnValue({ activeKeyAlias: 'default' });
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, request);
+
+      expect(keyRegistry.list).toHaveBeenCalled();
+      expect(mockSocket.write).toHaveBeenCalledWith(
+        expect.stringContaining('HTTP/1.1 200 OK')
+      );
+      expect(mockSocket.write).toHaveBeenCalledWith(
+        expect.stringContaining('"activeKeyAlias": "default"')
+      );
+    });
+
+    it('should route POST /api/payload-preview to the template renderer', async () => {
+      const request = {
+        method: 'POST',
+        path: '/api/payload-preview',
+        version: 'HTTP/1.1',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ template: 'login:{keyAlias}:{userId}', variables: { userId: 'alice' } }),
+      };
+
+      jest.spyOn(keyRegistry, 'get').mockResolvedValue(null);
+      (webControlBridge.getAppState as jest.Mock).mockReturnValue({ activeKeyAlias: 'default' });
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, request);
+
+      expect(keyRegistry.get).toHaveBeenCalledWith('default');
+      expect(mockSocket.write).toHaveBeenCalledWith(
+        expect.stringContaining('"payload": "login:default:alice"')
+      );
+    });
+
+    it('should route POST /api/faults to the simulated fault profile', async () => {
+      const request = {
+        method: 'POST',
+        path: '/api/faults',
+        version: 'HTTP/1.1',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ faults: [{ operation: 'createSignature', fault: 'lockout', remaining: 2 }] }),
+      };
+
+      (webControlBridge.getAppState as jest.Mock).mockReturnValue({ biometricProvider: 'simulated' });
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, request);
+
+      expect(simulatedFaultProfile.getFaults()).toEqual([
+        { operation: 'createSignature', fault: 'lockout', remaining: 2 },
+      ]);
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('HTTP/1.1 200 OK'));
+
+      simulatedFaultProfile.clearFaults();
+    });
+
+    it('should reject malformed fault rules on POST /api/faults', async () => {
+      const request = {
+        method: 'POST',
+        path: '/api/faults',
+        version: 'HTTP/1.1',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ faults: [{ operation: 'createSignature', fault: 'meltdown' }] }),
+      };
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, request);
+
+      expect(simulatedFaultProfile.getFaults()).toEqual([]);
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('HTTP/1.1 400'));
+    });
+
+    it('should replace and clear captured variables on POST /api/variables', async () => {
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, {
+        method: 'POST',
+        path: '/api/variables',
+        version: 'HTTP/1.1',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ variables: { sessionId: 's-42' } }),
+      });
+
+      expect(await variableStore.getAll()).toEqual({ sessionId: 's-42' });
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('HTTP/1.1 200 OK'));
+
+      await routeRequest(mockSocket, {
+        method: 'POST',
+        path: '/api/variables',
+        version: 'HTTP/1.1',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ variables: { 'session id': 's-42' } }),
+      });
+
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('HTTP/1.1 400'));
+      expect(mockSocket.write).toHaveBeenCalledWith(
+        expect.stringContaining('is not a valid variable name')
+      );
+
+      await routeRequest(mockSocket, {
+        method: 'POST',
+        path: '/api/variables',
+        version: 'HTTP/1.1',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ clear: true }),
+      });
+
+      expect(await variableStore.getAll()).toEqual({});
+    });
+
+    it('should serve recent HTTP exchanges as a HAR file on GET /api/exchanges.har', async () => {
+      jest.spyOn(biometricAPIService, 'getRecentExchanges').mockReturnValueOnce([
+        {
+          startedDateTime: '2024-01-01T00:00:00.000Z',
+          request: { method: 'GET', url: 'https://api.example.com/challenge', headers: {} },
+          response: { status: 200, statusText: 'OK', headers: {}, body: '{"challenge":"c"}' },
+          timings: { totalMs: 30 },
+        },
+      ]);
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, {
+        method: 'GET',
+        path: '/api/exchanges.har',
+        version: 'HTTP/1.1',
+        headers: {},
+        body: '',
+      });
+
+      const written: string = mockSocket.write.mock.calls[0][0];
+      expect(written).toContain('HTTP/1.1 200 OK');
+      expect(written).toContain('Content-Disposition: attachment; filename="biometric-playground.har"');
+
+      const har = JSON.parse(written.split('\r\n\r\n')[1]);
+      expect(har.log.version).toBe('1.2');
+      expect(har.log.entries[0].request.url).toBe('https://api.example.com/challenge');
+      expect(har.log.entries[0].response.content.text).toBe('{"challenge":"c"}');
+    });
+
+    it('should import a cURL command into an endpoint on POST /api/import/curl', async () => {
+      (webControlBridge.getAppState as jest.Mock).mockReturnValue({
+        validateEndpoint: {
+          url: 'https://old.example.com',
+          method: 'POST',
+          assertions: [{ type: 'status', statusCodes: [200] }],
+        },
+      });
+      (webControlBridge.updateConfiguration as jest.Mock).mockResolvedValue(undefined);
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, {
+        method: 'POST',
+        path: '/api/import/curl',
+        version: 'HTTP/1.1',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          type: 'validate',
+          command: `curl -X PUT https://api.example.com/validate -H 'X-Tenant: acme' -d '{"s":"{{signature}}"}'`,
+        }),
+      });
+
+      expect(webControlBridge.updateConfiguration).toHaveBeenCalledWith('validate', {
+        url: 'https://api.example.com/validate',
+        method: 'PUT',
+        headers: { 'X-Tenant': 'acme' },
+        bodyTemplate: '{"s":"{{signature}}"}',
+        assertions: [{ type: 'status', statusCodes: [200] }],
+      });
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('HTTP/1.1 200 OK'));
+
+      await routeRequest(mockSocket, {
+        method: 'POST',
+        path: '/api/import/curl',
+        version: 'HTTP/1.1',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ type: 'validate', command: 'curl -k -F a=b https://api.example.com' }),
+      });
+
+      expect(webControlBridge.updateConfiguration).toHaveBeenCalledTimes(1);
+      expect(mockSocket.write).toHaveBeenLastCalledWith(expect.stringContaining('HTTP/1.1 400'));
+      expect(mockSocket.write).toHaveBeenLastCalledWith(
+        expect.stringContaining('Option -k is not supported; Option -F is not supported')
+      );
+    });
+
+    it('should mask the kept credentials in the POST /api/import/curl response', async () => {
+      (webControlBridge.getAppState as jest.Mock).mockReturnValue({
+        enrollEndpoint: {
+          url: 'https://old.example.com',
+          method: 'POST',
+          auth: { type: 'bearer', token: 't0k' },
+          signing: { secret: 's3cret' },
+        },
+      });
+      (webControlBridge.updateConfiguration as jest.Mock).mockResolvedValue(undefined);
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, {
+        method: 'POST',
+        path: '/api/import/curl',
+        version: 'HTTP/1.1',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ type: 'enroll', command: 'curl -X POST https://api.example.com/enroll' }),
+      });
+
+      expect(webControlBridge.updateConfiguration).toHaveBeenCalledWith(
+        'enroll',
+        expect.objectContaining({ auth: { type: 'bearer', token: 't0k' }, signing: { secret: 's3cret' } })
+      );
+      const written = (mockSocket.write as jest.Mock).mock.calls[0][0];
+      expect(written).toContain('HTTP/1.1 200 OK');
+      expect(written).toContain('"token": "********"');
+      expect(written).not.toContain('t0k');
+      expect(written).not.toContain('s3cret');
+    });
+
+    it('should list the operations of a fetched OpenAPI document on POST /api/openapi/operations', async () => {
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        text: () => Promise.resolve('openapi: 3.0.0\npaths:\n  /keys:\n    post:\n      operationId: enroll'),
+      });
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, {
+        method: 'POST',
+        path: '/api/openapi/operations',
+        version: 'HTTP/1.1',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ url: 'https://docs.example.com/openapi.yaml' }),
+      });
+
+      expect(globalThis.fetch).toHaveBeenCalledWith('https://docs.example.com/openapi.yaml', expect.any(Object));
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('HTTP/1.1 200 OK'));
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('"key": "POST /keys"'));
+      globalThis.fetch = originalFetch;
+    });
+
+    it('should save the generated endpoints on POST /api/import/openapi', async () => {
+      (webControlBridge.getAppState as jest.Mock).mockReturnValue({
+        enrollEndpoint: { url: 'https://old.example.com/enroll', method: 'POST' },
+        validateEndpoint: { url: 'https://old.example.com/validate', method: 'POST' },
+      });
+      (webControlBridge.updateConfiguration as jest.Mock).mockResolvedValue(undefined);
+      const document = JSON.stringify({
+        openapi: '3.0.3',
+        servers: [{ url: 'https://api.example.com' }],
+        paths: {
+          '/challenge': {
+            get: {
+              responses: {
+                200: { content: { 'application/json': { schema: { properties: { nonce: { type: 'string' } } } } } },
+              },
+            },
+          },
+        },
+      });
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, {
+        method: 'POST',
+        path: '/api/import/openapi',
+        version: 'HTTP/1.1',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ document, challenge: 'GET /challenge' }),
+      });
+
+      expect(webControlBridge.updateConfiguration).toHaveBeenCalledTimes(1);
+      expect(webControlBridge.updateConfiguration).toHaveBeenCalledWith('validate', {
+        url: 'https://old.example.com/validate',
+        method: 'POST',
+        challenge: { url: 'https://api.example.com/challenge', method: 'GET', challengePath: 'nonce' },
+      });
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('HTTP/1.1 200 OK'));
+
+      await routeRequest(mockSocket, {
+        method: 'POST',
+        path: '/api/import/openapi',
+        version: 'HTTP/1.1',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ document, enroll: 'POST /keys' }),
+      });
+
+      expect(webControlBridge.updateConfiguration).toHaveBeenCalledTimes(1);
+      expect(mockSocket.write).toHaveBeenLastCalledWith(expect.stringContaining('HTTP/1.1 400'));
+      expect(mockSocket.write).toHaveBeenLastCalledWith(
+        expect.stringContaining('Operation \\"POST /keys\\" is not in the document')
+      );
+    });
+
+    it('should mask the kept credentials in the POST /api/import/openapi response', async () => {
+      (webControlBridge.getAppState as jest.Mock).mockReturnValue({
+        validateEndpoint: {
+          url: 'https://old.example.com/validate',
+          method: 'POST',
+          auth: { type: 'basic', username: 'alice', password: 'pa55' },
+          signing: { secret: 's3cret' },
+        },
+      });
+      (webControlBridge.updateConfiguration as jest.Mock).mockResolvedValue(undefined);
+      const document = JSON.stringify({
+        openapi: '3.0.3',
+        servers: [{ url: 'https://api.example.com' }],
+        paths: { '/verify': { post: { responses: { 200: { description: 'ok' } } } } },
+      });
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, {
+        method: 'POST',
+        path: '/api/import/openapi',
+        version: 'HTTP/1.1',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ document, validate: 'POST /verify' }),
+      });
+
+      expect(webControlBridge.updateConfiguration).toHaveBeenCalledWith(
+        'validate',
+        expect.objectContaining({ auth: { type: 'basic', username: 'alice', password: 'pa55' } })
+      );
+      const written = (mockSocket.write as jest.Mock).mock.calls[0][0];
+      expect(written).toContain('HTTP/1.1 200 OK');
+      expect(written).toContain('"password": "********"');
+      expect(written).not.toContain('pa55');
+      expect(written).not.toContain('s3cret');
+    });
+
+    it('should route GET /api/prompts to the persisted prompt profiles', async () => {
+      const request = {
+        method: 'GET',
+        path: '/api/prompts',
+        version: 'HTTP/1.1',
+        headers: {},
+        body: '',
+      };
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, request);
+
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('HTTP/1.1 200 OK'));
+      expect(mockSocket.write).toHaveBeenCalledWith(
+        expect.stringContaining('"promptMessage": "Authenticate to create signature for validation"')
+      );
+    });
+
+    it('should reject prompt profiles with empty texts on POST /api/prompts', async () => {
+      const request = {
+        method: 'POST',
+        path: '/api/prompts',
+        version: 'HTTP/1.1',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ profiles: { validate: { promptMessage: ' ', cancelButtonText: 'Cancel' } } }),
+      };
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, request);
+
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('HTTP/1.1 400'));
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('Invalid validate prompt profile'));
+    });
+
     it('should route POST /api/config to config update handler', async () => {
       const request = {
         method: 'POST',
@@ -232,6 +701,220 @@ describe('WebServerService HTTP Routing', () => {
       );
     });
 
+    it('should reject enrollment policies with unknown algorithms', async () => {
+      const request = {
+        method: 'POST',
+        path: '/api/config',
+        version: 'HTTP/1.1',
+        headers: {},
+        body: JSON.stringify({
+          type: 'enroll',
+          config: {
+            url: 'https://api.example.com',
+            method: 'POST',
+            enrollmentPolicy: { algorithm: 'DSA', allowDeviceCredentials: false, requireConfirmation: false },
+          },
+        }),
+      };
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, request);
+
+      expect(webControlBridge.updateConfiguration).not.toHaveBeenCalled();
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('HTTP/1.1 400'));
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('Invalid enrollmentPolicy'));
+    });
+
+    it('should accept unenrollment endpoint configurations', async () => {
+      const config = { url: 'https://api.example.com/enrollments', method: 'DELETE' };
+      const request = {
+        method: 'POST',
+        path: '/api/config',
+        version: 'HTTP/1.1',
+        headers: {},
+        body: JSON.stringify({ type: 'unenroll', config }),
+      };
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, request);
+
+      expect(webControlBridge.updateConfiguration).toHaveBeenCalledWith('unenroll', config);
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('HTTP/1.1 200 OK'));
+    });
+
+    it('should reject body templates that are not JSON', async () => {
+      const request = {
+        method: 'POST',
+        path: '/api/config',
+        version: 'HTTP/1.1',
+        headers: {},
+        body: JSON.stringify({
+          type: 'validate',
+          config: {
+            url: 'https://api.example.com',
+            method: 'POST',
+            bodyTemplate: '{"signature": {{signature}}}',
+          },
+        }),
+      };
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, request);
+
+      expect(webControlBridge.updateConfiguration).not.toHaveBeenCalled();
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('HTTP/1.1 400'));
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('Invalid bodyTemplate'));
+    });
+
+    it('should reject request policies outside the allowed limits', async () => {
+      const request = {
+        method: 'POST',
+        path: '/api/config',
+        version: 'HTTP/1.1',
+        headers: {},
+        body: JSON.stringify({
+          type: 'enroll',
+          config: {
+            url: 'https://api.example.com',
+            method: 'POST',
+            requestPolicy: { timeoutMs: 30000, maxRetries: 50 },
+          },
+        }),
+      };
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, request);
+
+      expect(webControlBridge.updateConfiguration).not.toHaveBeenCalled();
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('HTTP/1.1 400'));
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('Invalid requestPolicy'));
+    });
+
+    it('should reject malformed response assertions', async () => {
+      const request = {
+        method: 'POST',
+        path: '/api/config',
+        version: 'HTTP/1.1',
+        headers: {},
+        body: JSON.stringify({
+          type: 'validate',
+          config: {
+            url: 'https://api.example.com',
+            method: 'POST',
+            assertions: [{ type: 'jsonPathMatches', path: '$.token', pattern: '([' }],
+          },
+        }),
+      };
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, request);
+
+      expect(webControlBridge.updateConfiguration).not.toHaveBeenCalled();
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('HTTP/1.1 400'));
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('Invalid assertions'));
+    });
+
+    it('should reject malformed capture rules', async () => {
+      const request = {
+        method: 'POST',
+        path: '/api/config',
+        version: 'HTTP/1.1',
+        headers: {},
+        body: JSON.stringify({
+          type: 'enroll',
+          config: {
+            url: 'https://api.example.com/sessions/{{sessionId}}',
+            method: 'POST',
+            captures: [{ variable: 'sessionId', source: 'cookie', path: 'sid' }],
+          },
+        }),
+      };
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, request);
+
+      expect(webControlBridge.updateConfiguration).not.toHaveBeenCalled();
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('HTTP/1.1 400'));
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('Invalid captures'));
+    });
+
+    it('should reject incomplete endpoint credentials', async () => {
+      const request = {
+        method: 'POST',
+        path: '/api/config',
+        version: 'HTTP/1.1',
+        headers: {},
+        body: JSON.stringify({
+          type: 'unenroll',
+          config: {
+            url: 'https://api.example.com/keys',
+            method: 'DELETE',
+            auth: { type: 'apiKey', name: 'X-API-Key', value: '', location: 'header' },
+          },
+        }),
+      };
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, request);
+
+      expect(webControlBridge.updateConfiguration).not.toHaveBeenCalled();
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('HTTP/1.1 400'));
+      expect(mockSocket.write).toHaveBeenCalledWith(
+        expect.stringContaining('Invalid auth: API key value is required')
+      );
+    });
+
+    it('should reject request signing without a secret', async () => {
+      const request = {
+        method: 'POST',
+        path: '/api/config',
+        version: 'HTTP/1.1',
+        headers: {},
+        body: JSON.stringify({
+          type: 'validate',
+          config: {
+            url: 'https://api.example.com/validate',
+            method: 'POST',
+            signing: { secret: '', signatureHeader: 'X-Gateway-Signature' },
+          },
+        }),
+      };
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, request);
+
+      expect(webControlBridge.updateConfiguration).not.toHaveBeenCalled();
+      expect(mockSocket.write).toHaveBeenCalledWith(expect.stringContaining('HTTP/1.1 400'));
+      expect(mockSocket.write).toHaveBeenCalledWith(
+        expect.stringContaining('Invalid signing: Signing secret is required')
+      );
+    });
+
+    it('should route POST /api/config with biometricProvider to the provider switch', async () => {
+      const request = {
+        method: 'POST',
+        path: '/api/config',
+        version: 'HTTP/1.1',
+        headers: {},
+        body: '{"biometricProvider":"simulated"}',
+      };
+
+      (webControlBridge.selectBiometricProvider as jest.Mock).mockResolvedValue({
+        success: true,
+        message: 'Using the simulated biometric provider',
+        data: { biometricProvider: 'simulated' },
+        timestamp: new Date(),
+      });
+
+      const routeRequest = (webServerService as any).routeRequest.bind(webServerService);
+      await routeRequest(mockSocket, request);
+
+      expect(webControlBridge.selectBiometricProvider).toHaveBeenCalledWith('simulated');
+      expect(mockSocket.write).toHaveBeenCalledWith(
+        expect.stringContaining('"biometricProvider": "simulated"')
+      );
+    });
+
     it('should return 404 for unknown routes', async () => {
       const request = {
         method: 'GET',
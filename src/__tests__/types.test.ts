@@ -43,7 +43,7 @@ describe('Type Guards', () => {
     expect(isHttpMethod('POST')).toBe(true);
     expect(isHttpMethod('PUT')).toBe(true);
     expect(isHttpMethod('PATCH')).toBe(true);
-    expect(isHttpMethod('DELETE')).toBe(false);
+    expect(isHttpMethod('DELETE')).toBe(true);
     expect(isHttpMethod('INVALID')).toBe(false);
   });
 
@@ -2,7 +2,7 @@
  * BiometricActions Component
  * 
  * Container component that manages biometric action buttons including
- * EnrollButton, ValidateButton, and DeleteKeysButton with modern design system styling.
+ * EnrollButton, ValidateButton, AuthenticateButton, and DeleteKeysButton with modern design system styling.
  */
 
 import React from 'react';
@@ -14,11 +14,13 @@ import { BiometricActionsProps } from '../types';
 import { useTheme } from '../theme';
 import EnrollButton from './EnrollButton';
 import ValidateButton from './ValidateButton';
+import AuthenticateButton from './AuthenticateButton';
 import DeleteKeysButton from './DeleteKeysButton';
 
 const BiometricActions: React.FC<BiometricActionsProps> = ({
   onEnroll,
   onValidate,
+  onAuthenticate,
   onDeleteKeys,
   disabled,
   keysExist,
@@ -44,6 +46,12 @@ const BiometricActions: React.FC<BiometricActionsProps> = ({
           endpointsConfigured={endpointsConfigured}
         />
         
+        <AuthenticateButton
+          onPress={onAuthenticate}
+          disabled={disabled || !biometricAvailable}
+          biometricAvailable={biometricAvailable}
+        />
+        
         <DeleteKeysButton
           onPress={onDeleteKeys}
           disabled={disabled || !keysExist}
@@ -6,13 +6,16 @@
  * Redesigned with modern card styling, improved visual hierarchy, and theme support.
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
+  TextInput,
+  TouchableOpacity,
   StyleSheet,
 } from 'react-native';
-import { BiometryType } from '../types';
+import { BiometricErrorCode, BiometricProviderType, BiometryType, KeySlot } from '../types';
+import { BIOMETRIC_ERROR_CATALOG, BIOMETRIC_PROVIDERS, DEFAULT_KEY_ALIAS } from '../constants/biometrics';
 import { useTheme } from '../theme';
 import { Card } from './Card';
 
@@ -21,6 +24,14 @@ interface BiometricStatusDisplayProps {
   biometryType: BiometryType;
   keysExist: boolean;
   error?: string;
+  errorCode?: BiometricErrorCode;
+  keySlots?: KeySlot[];
+  activeKeyAlias?: string;
+  onSelectKeySlot?: (alias: string) => void;
+  /** False when the provider only holds a key in the default slot */
+  keySlotsSupported?: boolean;
+  biometricProvider?: BiometricProviderType;
+  onSelectProvider?: (type: BiometricProviderType) => void;
 }
 
 const BiometricStatusDisplay: React.FC<BiometricStatusDisplayProps> = ({
@@ -28,9 +39,24 @@ const BiometricStatusDisplay: React.FC<BiometricStatusDisplayProps> = ({
   biometryType,
   keysExist,
   error,
+  errorCode,
+  keySlots,
+  activeKeyAlias,
+  onSelectKeySlot,
+  keySlotsSupported = true,
+  biometricProvider,
+  onSelectProvider,
 }) => {
   const { theme } = useTheme();
   const styles = createStyles(theme);
+  const [newKeyAlias, setNewKeyAlias] = useState('');
+
+  const handleAddKeySlot = () => {
+    const alias = newKeyAlias.trim();
+    if (!alias || !onSelectKeySlot) return;
+    onSelectKeySlot(alias);
+    setNewKeyAlias('');
+  };
 
   const getBiometryTypeDisplayName = (type: BiometryType): string => {
     switch (type) {
@@ -141,6 +167,101 @@ const BiometricStatusDisplay: React.FC<BiometricStatusDisplayProps> = ({
         </View>
       </View>
 
+      {/* Biometric Provider */}
+      {biometricProvider && (
+        <Card variant="outlined" padding="md" style={styles.slotsCard}>
+          <Text style={styles.summaryTitle}>Biometric Provider</Text>
+          <View style={styles.capabilityList}>
+            {BIOMETRIC_PROVIDERS.map(provider => {
+              const isActive = provider.value === biometricProvider;
+              return (
+                <TouchableOpacity
+                  key={provider.value}
+                  style={[styles.slotItem, isActive && styles.activeSlotItem]}
+                  onPress={() => onSelectProvider?.(provider.value)}
+                  disabled={!onSelectProvider || isActive}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: isActive }}
+                  accessibilityLabel={`Biometric provider ${provider.label}`}
+                  testID={`biometric-provider-${provider.value}`}
+                >
+                  <Text style={[styles.slotAlias, isActive && styles.activeSlotAlias]}>
+                    {provider.label}
+                  </Text>
+                  {isActive && (
+                    <Text style={[styles.slotState, styles.successText]}>Active</Text>
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </Card>
+      )}
+
+      {/* Key Slots */}
+      {keySlots && keySlots.length > 0 && (
+        <Card variant="outlined" padding="md" style={styles.slotsCard}>
+          <Text style={styles.summaryTitle}>Key Slots</Text>
+          <View style={styles.capabilityList}>
+            {keySlots.filter(slot => keySlotsSupported || slot.alias === DEFAULT_KEY_ALIAS).map(slot => {
+              const isActive = slot.alias === activeKeyAlias;
+              return (
+                <TouchableOpacity
+                  key={slot.alias}
+                  style={[styles.slotItem, isActive && styles.activeSlotItem]}
+                  onPress={() => onSelectKeySlot?.(slot.alias)}
+                  disabled={!onSelectKeySlot}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: isActive }}
+                  accessibilityLabel={`Key slot ${slot.alias}`}
+                >
+                  <Text style={styles.capabilityIcon}>
+                    {getKeyStatusIcon(slot.keysExist)}
+                  </Text>
+                  <Text style={[styles.slotAlias, isActive && styles.activeSlotAlias]}>
+                    {slot.alias}
+                  </Text>
+                  <Text style={[
+                    styles.slotState,
+                    slot.keysExist ? styles.successText : styles.infoText
+                  ]}>
+                    {slot.keysExist ? 'Keys Exist' : 'Empty'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {!keySlotsSupported && (
+            <Text style={[styles.slotState, styles.infoText, styles.slotNotice]} testID="key-slots-unsupported">
+              This provider holds a single key in the "{DEFAULT_KEY_ALIAS}" slot. Switch to the simulated
+              provider to use more slots.
+            </Text>
+          )}
+          {onSelectKeySlot && keySlotsSupported && (
+            <View style={styles.addSlotRow}>
+              <TextInput
+                style={styles.addSlotInput}
+                value={newKeyAlias}
+                onChangeText={setNewKeyAlias}
+                placeholder="New slot name"
+                placeholderTextColor={theme.colors.textSecondary}
+                autoCapitalize="none"
+                autoCorrect={false}
+                onSubmitEditing={handleAddKeySlot}
+              />
+              <TouchableOpacity
+                style={styles.addSlotButton}
+                onPress={handleAddKeySlot}
+                accessibilityRole="button"
+                accessibilityLabel="Add key slot"
+              >
+                <Text style={styles.addSlotButtonText}>Use</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </Card>
+      )}
+
       {/* Error State Display */}
       {error && (
         <Card variant="outlined" padding="md" style={styles.errorCard}>
@@ -151,6 +272,11 @@ const BiometricStatusDisplay: React.FC<BiometricStatusDisplayProps> = ({
             <Text style={styles.errorTitle}>Error Details</Text>
           </View>
           <Text style={styles.errorMessage}>{error}</Text>
+          {errorCode && (
+            <Text style={styles.errorRemediation} testID="biometric-error-remediation">
+              {BIOMETRIC_ERROR_CATALOG[errorCode].remediation}
+            </Text>
+          )}
         </Card>
       )}
 
@@ -303,6 +429,72 @@ const createStyles = (theme: any) => StyleSheet.create({
     color: theme.colors.error,
     lineHeight: theme.typography.lineHeights.relaxed * theme.typography.sizes.base,
   },
+  errorRemediation: {
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.text,
+    marginTop: theme.spacing.sm,
+  },
+  slotsCard: {
+    marginBottom: theme.spacing.lg,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surfaceSecondary,
+  },
+  slotItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    gap: theme.spacing.sm,
+  },
+  activeSlotItem: {
+    borderColor: theme.colors.primary,
+    backgroundColor: `${theme.colors.primary}10`,
+  },
+  slotAlias: {
+    flex: 1,
+    fontSize: theme.typography.sizes.base,
+    color: theme.colors.text,
+  },
+  activeSlotAlias: {
+    fontWeight: theme.typography.weights.semibold,
+    color: theme.colors.primary,
+  },
+  slotState: {
+    fontSize: theme.typography.sizes.sm,
+    fontWeight: theme.typography.weights.medium,
+  },
+  slotNotice: {
+    marginTop: theme.spacing.md,
+  },
+  addSlotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: theme.spacing.md,
+    gap: theme.spacing.sm,
+  },
+  addSlotInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    fontSize: theme.typography.sizes.base,
+    color: theme.colors.text,
+    backgroundColor: theme.colors.surface,
+  },
+  addSlotButton: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.primary,
+  },
+  addSlotButtonText: {
+    color: '#FFFFFF',
+    fontWeight: theme.typography.weights.semibold,
+  },
   summaryCard: {
     borderColor: theme.colors.info,
     backgroundColor: theme.colors.surfaceSecondary,
@@ -0,0 +1,130 @@
+/**
+ * BodyTemplateEditor Component
+ *
+ * Edits the JSON body sent to the enroll or validate endpoint instead of the default
+ * one. The template is kept as typed; the form leaves an invalid one out of the config.
+ */
+
+import React from 'react';
+import { View, Text, TextInput, StyleSheet } from 'react-native';
+import {
+  BODY_TEMPLATE_PLACEHOLDERS,
+  BodyTemplateType,
+  validateBodyTemplate,
+} from '../utils/bodyTemplate';
+import { useTheme } from '../theme';
+
+interface BodyTemplateEditorProps {
+  template: string;
+  type: BodyTemplateType;
+  /** Problem with the template, empty while it is unset or valid */
+  error: string;
+  onChange: (template: string) => void;
+  testID: string;
+}
+
+const PLACEHOLDER_EXAMPLES: Record<BodyTemplateType, string> = {
+  enroll: '{"key": "{{publicKey}}"}',
+  validate: '{"signature": "{{signature}}"}',
+};
+
+// Helper function to describe a body template problem, empty while the template is unset or valid
+export const getBodyTemplateError = (
+  template: string,
+  type: BodyTemplateType,
+): string =>
+  template.trim() ? validateBodyTemplate(template, type).errors.join(', ') : '';
+
+const BodyTemplateEditor: React.FC<BodyTemplateEditorProps> = ({
+  template,
+  type,
+  error,
+  onChange,
+  testID,
+}) => {
+  const { theme } = useTheme();
+  const styles = createStyles(theme);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Body Template (optional):</Text>
+      <TextInput
+        style={[styles.textInput, error ? styles.inputError : null]}
+        value={template}
+        onChangeText={onChange}
+        placeholder={PLACEHOLDER_EXAMPLES[type]}
+        placeholderTextColor={theme.colors.textSecondary}
+        multiline={true}
+        numberOfLines={4}
+        textAlignVertical="top"
+        autoCapitalize="none"
+        autoCorrect={false}
+        testID={testID}
+      />
+      {error ? (
+        <Text style={styles.errorText} testID={`${testID}-error`}>
+          {error}
+        </Text>
+      ) : null}
+      <Text style={styles.helperText}>
+        JSON sent instead of the default request body. Available:{' '}
+        {BODY_TEMPLATE_PLACEHOLDERS[type]
+          .map(placeholder => `{{${placeholder.name}}}`)
+          .join(', ')}
+        , and any captured {'{{variable}}'}
+      </Text>
+    </View>
+  );
+};
+
+const createStyles = (theme: any) =>
+  StyleSheet.create({
+    container: {
+      marginBottom: theme.spacing.lg,
+    },
+    label: {
+      fontSize: theme.typography.sizes.sm,
+      fontWeight: theme.typography.weights.semibold,
+      color: theme.colors.text,
+      marginBottom: theme.spacing.sm,
+      letterSpacing: 0.5,
+    },
+    textInput: {
+      minHeight: 100,
+      borderWidth: 2,
+      borderColor: theme.colors.border,
+      borderRadius: theme.borderRadius.md,
+      paddingHorizontal: theme.spacing.md,
+      paddingTop: theme.spacing.md,
+      paddingBottom: theme.spacing.sm,
+      fontSize: theme.typography.sizes.base,
+      backgroundColor: theme.colors.surface,
+      color: theme.colors.text,
+      textAlignVertical: 'top',
+      ...theme.shadows.sm,
+    },
+    inputError: {
+      borderColor: theme.colors.error,
+      borderWidth: 2,
+    },
+    errorText: {
+      color: theme.colors.error,
+      fontSize: theme.typography.sizes.xs,
+      marginTop: theme.spacing.xs,
+      fontWeight: theme.typography.weights.medium,
+      paddingHorizontal: theme.spacing.xs,
+    },
+    helperText: {
+      color: theme.colors.textSecondary,
+      fontSize: theme.typography.sizes.xs,
+      marginTop: theme.spacing.sm,
+      fontStyle: 'italic',
+      lineHeight:
+        theme.typography.lineHeights.relaxed * theme.typography.sizes.xs,
+      backgroundColor: theme.colors.surfaceSecondary,
+      padding: theme.spacing.sm,
+      borderRadius: theme.borderRadius.sm,
+    },
+  });
+
+export default BodyTemplateEditor;
@@ -0,0 +1,275 @@
+/**
+ * CaptureRulesEditor Component
+ *
+ * Lists the capture rules of one endpoint and adds new ones. Values they read
+ * from a successful response are stored as variables for later requests.
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { CaptureRule, CaptureSource } from '../types';
+import { CAPTURE_SOURCES } from '../constants';
+import { useTheme } from '../theme';
+import { describeCaptureRule, getCaptureRuleError } from '../utils/capturedVariables';
+
+interface CaptureRulesEditorProps {
+  captures?: CaptureRule[];
+  onChange: (captures: CaptureRule[] | undefined) => void;
+  testID: string;
+}
+
+const PATH_FIELDS: Record<CaptureSource, { label: string; placeholder: string }> = {
+  jsonPath: { label: 'JSON Path:', placeholder: '$.session.id' },
+  header: { label: 'Header:', placeholder: 'x-session-id' },
+};
+
+const CaptureRulesEditor: React.FC<CaptureRulesEditorProps> = ({
+  captures = [],
+  onChange,
+  testID,
+}) => {
+  const { theme } = useTheme();
+  const styles = createStyles(theme);
+
+  const [source, setSource] = useState<CaptureSource>('jsonPath');
+  const [variable, setVariable] = useState('');
+  const [path, setPath] = useState('');
+  const [error, setError] = useState('');
+
+  const selectSource = (nextSource: CaptureSource) => {
+    setSource(nextSource);
+    setError('');
+  };
+
+  const handleAdd = () => {
+    const rule: CaptureRule = { variable: variable.trim(), source, path: path.trim() };
+    const ruleError =
+      getCaptureRuleError(rule) ||
+      (captures.some(capture => capture.variable === rule.variable)
+        ? `Variable ${rule.variable} is already captured`
+        : undefined);
+    setError(ruleError || '');
+    if (ruleError) {
+      return;
+    }
+
+    onChange([...captures, rule]);
+    setVariable('');
+    setPath('');
+  };
+
+  const handleRemove = (index: number) => {
+    const remaining = captures.filter((_, itemIndex) => itemIndex !== index);
+    onChange(remaining.length > 0 ? remaining : undefined);
+  };
+
+  const pathField = PATH_FIELDS[source];
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <Text style={styles.title}>Captured Variables</Text>
+
+      {captures.map((capture, index) => (
+        <View key={`${capture.variable}-${index}`} style={styles.item}>
+          <Text style={styles.itemText} testID={`${testID}-item-${index}`}>
+            {describeCaptureRule(capture)}
+          </Text>
+          <TouchableOpacity
+            style={styles.removeButton}
+            onPress={() => handleRemove(index)}
+            testID={`${testID}-remove-${index}`}
+          >
+            <Text style={styles.removeButtonText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+      {captures.length === 0 && (
+        <Text style={styles.emptyText}>Nothing is captured from the response</Text>
+      )}
+
+      <Text style={styles.label}>Capture From:</Text>
+      <View style={styles.selector}>
+        {CAPTURE_SOURCES.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.option, source === option.value && styles.optionSelected]}
+            onPress={() => selectSource(option.value)}
+            testID={`${testID}-source-${option.value}`}
+          >
+            <Text
+              style={[
+                styles.optionText,
+                source === option.value && styles.optionTextSelected,
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.row}>
+        <View style={styles.field}>
+          <Text style={styles.label}>Variable:</Text>
+          <TextInput
+            style={styles.textInput}
+            value={variable}
+            onChangeText={setVariable}
+            placeholder="sessionId"
+            placeholderTextColor={theme.colors.textSecondary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            testID={`${testID}-variable`}
+          />
+        </View>
+        <View style={styles.field}>
+          <Text style={styles.label}>{pathField.label}</Text>
+          <TextInput
+            style={styles.textInput}
+            value={path}
+            onChangeText={setPath}
+            placeholder={pathField.placeholder}
+            placeholderTextColor={theme.colors.textSecondary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            testID={`${testID}-path`}
+          />
+        </View>
+      </View>
+
+      <TouchableOpacity
+        style={styles.addButton}
+        onPress={handleAdd}
+        testID={`${testID}-add`}
+      >
+        <Text style={styles.addButtonText}>+ Add Capture</Text>
+      </TouchableOpacity>
+
+      {error ? (
+        <Text style={styles.errorText} testID={`${testID}-error`}>
+          {error}
+        </Text>
+      ) : null}
+      <Text style={styles.helperText}>
+        Values are stored after a successful response and can be used as {'{{variable}}'} in
+        URLs, headers, payload templates and body templates.
+      </Text>
+    </View>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    marginBottom: theme.spacing.md,
+  },
+  title: {
+    fontSize: theme.typography.sizes.base,
+    fontWeight: theme.typography.weights.semibold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  itemText: {
+    flex: 1,
+    fontSize: theme.typography.sizes.sm,
+    fontFamily: 'monospace',
+    color: theme.colors.text,
+  },
+  removeButton: {
+    paddingHorizontal: theme.spacing.sm,
+  },
+  removeButtonText: {
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.error,
+  },
+  emptyText: {
+    fontSize: theme.typography.sizes.sm,
+    fontStyle: 'italic',
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+  field: {
+    flex: 1,
+    marginBottom: theme.spacing.sm,
+  },
+  label: {
+    fontSize: theme.typography.sizes.sm,
+    fontWeight: theme.typography.weights.semibold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.xs,
+  },
+  textInput: {
+    height: 44,
+    borderWidth: 2,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.md,
+    fontSize: theme.typography.sizes.base,
+    backgroundColor: theme.colors.surface,
+    color: theme.colors.text,
+  },
+  selector: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  option: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  optionSelected: {
+    borderColor: theme.colors.primary,
+    backgroundColor: theme.colors.primary,
+  },
+  optionText: {
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.text,
+  },
+  optionTextSelected: {
+    color: theme.colors.surface,
+    fontWeight: theme.typography.weights.semibold,
+  },
+  addButton: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.primary,
+    marginBottom: theme.spacing.sm,
+  },
+  addButtonText: {
+    fontSize: theme.typography.sizes.sm,
+    fontWeight: theme.typography.weights.semibold,
+    color: theme.colors.surface,
+  },
+  errorText: {
+    marginBottom: theme.spacing.sm,
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.error,
+  },
+  helperText: {
+    fontSize: theme.typography.sizes.xs,
+    color: theme.colors.textSecondary,
+  },
+});
+
+export default CaptureRulesEditor;
@@ -0,0 +1,173 @@
+/**
+ * ChallengeEditor Component
+ *
+ * Edits the optional server challenge fetched before signing. The method and JSON
+ * path are only shown once a challenge URL is set.
+ */
+
+import React from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { ChallengeConfig, HttpMethod } from '../types';
+import { useTheme } from '../theme';
+
+type ChallengeFields = Pick<ChallengeConfig, 'url' | 'method' | 'challengePath'>;
+
+interface ChallengeEditorProps extends ChallengeFields {
+  onChange: (changes: Partial<ChallengeFields>) => void;
+  testID: string;
+}
+
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Helper function to build the optional challenge step, omitted while no URL is set
+export const buildChallengeConfig = ({
+  url,
+  method,
+  challengePath,
+}: ChallengeFields): ChallengeConfig | undefined =>
+  url.trim()
+    ? { url: url.trim(), method, challengePath: challengePath.trim() }
+    : undefined;
+
+const ChallengeEditor: React.FC<ChallengeEditorProps> = ({
+  url,
+  method,
+  challengePath,
+  onChange,
+  testID,
+}) => {
+  const { theme } = useTheme();
+  const styles = createStyles(theme);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Challenge URL (optional):</Text>
+      <TextInput
+        style={styles.textInput}
+        value={url}
+        onChangeText={text => onChange({ url: text })}
+        placeholder="https://api.example.com/challenge"
+        placeholderTextColor={theme.colors.textSecondary}
+        keyboardType="url"
+        autoCapitalize="none"
+        autoCorrect={false}
+        testID={`${testID}-url`}
+      />
+      {url.trim() !== '' && (
+        <View style={styles.fields}>
+          <View style={styles.methodSelector}>
+            {HTTP_METHODS.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[
+                  styles.methodButton,
+                  method === option && styles.methodButtonSelected,
+                ]}
+                onPress={() => onChange({ method: option })}
+                testID={`${testID}-method-${option}`}
+              >
+                <Text
+                  style={[
+                    styles.methodButtonText,
+                    method === option && styles.methodButtonTextSelected,
+                  ]}
+                >
+                  {option}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TextInput
+            style={styles.textInput}
+            value={challengePath}
+            onChangeText={text => onChange({ challengePath: text })}
+            placeholder="data.nonce"
+            placeholderTextColor={theme.colors.textSecondary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            testID={`${testID}-path`}
+          />
+        </View>
+      )}
+      <Text style={styles.helperText}>
+        When set, the value at the JSON path of the challenge response is signed
+        instead of the payload template and sent back as "challenge".
+      </Text>
+    </View>
+  );
+};
+
+const createStyles = (theme: any) =>
+  StyleSheet.create({
+    container: {
+      marginBottom: theme.spacing.lg,
+    },
+    label: {
+      fontSize: theme.typography.sizes.sm,
+      fontWeight: theme.typography.weights.semibold,
+      color: theme.colors.text,
+      marginBottom: theme.spacing.sm,
+      letterSpacing: 0.5,
+    },
+    textInput: {
+      height: 48,
+      borderWidth: 2,
+      borderColor: theme.colors.border,
+      borderRadius: theme.borderRadius.md,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+      fontSize: theme.typography.sizes.base,
+      backgroundColor: theme.colors.surface,
+      color: theme.colors.text,
+      ...theme.shadows.sm,
+    },
+    fields: {
+      marginTop: theme.spacing.sm,
+      gap: theme.spacing.sm,
+    },
+    methodSelector: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: theme.spacing.sm,
+    },
+    methodButton: {
+      minWidth: 60,
+      height: 40,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+      borderWidth: 2,
+      borderColor: theme.colors.border,
+      borderRadius: theme.borderRadius.md,
+      backgroundColor: theme.colors.surface,
+      justifyContent: 'center',
+      alignItems: 'center',
+      ...theme.shadows.sm,
+    },
+    methodButtonSelected: {
+      backgroundColor: theme.colors.primary,
+      borderColor: theme.colors.primary,
+      ...theme.shadows.md,
+    },
+    methodButtonText: {
+      fontSize: theme.typography.sizes.sm,
+      color: theme.colors.text,
+      fontWeight: theme.typography.weights.semibold,
+    },
+    methodButtonTextSelected: {
+      color: '#FFFFFF',
+      fontWeight: theme.typography.weights.bold,
+    },
+    helperText: {
+      color: theme.colors.textSecondary,
+      fontSize: theme.typography.sizes.xs,
+      marginTop: theme.spacing.sm,
+      fontStyle: 'italic',
+      lineHeight:
+        theme.typography.lineHeights.relaxed * theme.typography.sizes.xs,
+      backgroundColor: theme.colors.surfaceSecondary,
+      padding: theme.spacing.sm,
+      borderRadius: theme.borderRadius.sm,
+    },
+  });
+
+export default ChallengeEditor;
@@ -0,0 +1,224 @@
+/**
+ * CurlImportEditor Component
+ *
+ * Collapsible section taking a pasted cURL command and the endpoint it replaces. The
+ * command is cleared once it is imported and kept, with the problems listed, when it
+ * cannot be.
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import CollapsibleSection from './CollapsibleSection';
+import { useTheme } from '../theme';
+
+type CurlImportTarget = 'enroll' | 'validate' | 'unenroll';
+
+interface CurlImportEditorProps {
+  /** Imports and saves the command into the target endpoint and resolves why it could not, if so */
+  onImport: (target: CurlImportTarget, command: string) => Promise<string[]>;
+  testID: string;
+}
+
+const CURL_IMPORT_TARGETS: { value: CurlImportTarget; label: string }[] = [
+  { value: 'enroll', label: 'Enrollment' },
+  { value: 'validate', label: 'Validation' },
+  { value: 'unenroll', label: 'Unenrollment' },
+];
+
+const CurlImportEditor: React.FC<CurlImportEditorProps> = ({
+  onImport,
+  testID,
+}) => {
+  const { theme } = useTheme();
+  const styles = createStyles(theme);
+
+  const [command, setCommand] = useState('');
+  const [target, setTarget] = useState<CurlImportTarget>('enroll');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleImport = async () => {
+    const importErrors = await onImport(target, command);
+    setErrors(importErrors);
+    if (importErrors.length === 0) {
+      setCommand('');
+    }
+  };
+
+  return (
+    <CollapsibleSection
+      id={testID}
+      title="Import from cURL"
+      defaultExpanded={false}
+      hasErrors={errors.length > 0}
+      testID={`${testID}-section`}
+    >
+      <View style={styles.group}>
+        <Text style={styles.label}>Endpoint:</Text>
+        <View style={styles.optionRow}>
+          {CURL_IMPORT_TARGETS.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.option,
+                target === option.value && styles.optionSelected,
+              ]}
+              onPress={() => setTarget(option.value)}
+              testID={`${testID}-target-${option.value}`}
+            >
+              <Text
+                style={[
+                  styles.optionText,
+                  target === option.value && styles.optionTextSelected,
+                ]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.group}>
+        <Text style={styles.label}>cURL Command:</Text>
+        <TextInput
+          style={[
+            styles.textInput,
+            errors.length > 0 ? styles.inputError : null,
+          ]}
+          value={command}
+          onChangeText={setCommand}
+          placeholder="curl -X POST https://api.example.com/enroll -H 'Content-Type: application/json' -d '{...}'"
+          placeholderTextColor={theme.colors.textSecondary}
+          multiline={true}
+          numberOfLines={4}
+          textAlignVertical="top"
+          autoCapitalize="none"
+          autoCorrect={false}
+          testID={`${testID}-command`}
+        />
+        {errors.length > 0 ? (
+          <Text style={styles.errorText} testID={`${testID}-error`}>
+            {errors.join('\n')}
+          </Text>
+        ) : null}
+        <TouchableOpacity
+          style={styles.importButton}
+          onPress={handleImport}
+          disabled={!command.trim()}
+          testID={`${testID}-button`}
+        >
+          <Text style={styles.importButtonText}>Import</Text>
+        </TouchableOpacity>
+        <Text style={styles.helperText}>
+          Replaces the URL, method, headers and body template; body fields named
+          like the public key or signature get their placeholder. Credentials
+          from -u or an Authorization header replace the saved ones; other
+          settings are kept. Understands -X, -H, -d, --data-raw, --json, -u, -A
+          and -b.
+        </Text>
+      </View>
+    </CollapsibleSection>
+  );
+};
+
+const createStyles = (theme: any) =>
+  StyleSheet.create({
+    group: {
+      marginBottom: theme.spacing.lg,
+    },
+    label: {
+      fontSize: theme.typography.sizes.sm,
+      fontWeight: theme.typography.weights.semibold,
+      color: theme.colors.text,
+      marginBottom: theme.spacing.sm,
+      letterSpacing: 0.5,
+    },
+    optionRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: theme.spacing.sm,
+    },
+    option: {
+      minWidth: 60,
+      height: 40,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+      borderWidth: 2,
+      borderColor: theme.colors.border,
+      borderRadius: theme.borderRadius.md,
+      backgroundColor: theme.colors.surface,
+      justifyContent: 'center',
+      alignItems: 'center',
+      ...theme.shadows.sm,
+    },
+    optionSelected: {
+      backgroundColor: theme.colors.primary,
+      borderColor: theme.colors.primary,
+      ...theme.shadows.md,
+    },
+    optionText: {
+      fontSize: theme.typography.sizes.sm,
+      color: theme.colors.text,
+      fontWeight: theme.typography.weights.semibold,
+    },
+    optionTextSelected: {
+      color: '#FFFFFF',
+      fontWeight: theme.typography.weights.bold,
+    },
+    textInput: {
+      minHeight: 100,
+      borderWidth: 2,
+      borderColor: theme.colors.border,
+      borderRadius: theme.borderRadius.md,
+      paddingHorizontal: theme.spacing.md,
+      paddingTop: theme.spacing.md,
+      paddingBottom: theme.spacing.sm,
+      fontSize: theme.typography.sizes.base,
+      backgroundColor: theme.colors.surface,
+      color: theme.colors.text,
+      textAlignVertical: 'top',
+      ...theme.shadows.sm,
+    },
+    inputError: {
+      borderColor: theme.colors.error,
+      borderWidth: 2,
+    },
+    errorText: {
+      color: theme.colors.error,
+      fontSize: theme.typography.sizes.xs,
+      marginTop: theme.spacing.xs,
+      fontWeight: theme.typography.weights.medium,
+      paddingHorizontal: theme.spacing.xs,
+    },
+    importButton: {
+      alignSelf: 'flex-start',
+      marginTop: theme.spacing.sm,
+      marginBottom: theme.spacing.xs,
+      backgroundColor: theme.colors.primary,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+      borderRadius: theme.borderRadius.md,
+      minHeight: 36,
+      justifyContent: 'center',
+      alignItems: 'center',
+      ...theme.shadows.sm,
+    },
+    importButtonText: {
+      color: '#FFFFFF',
+      fontSize: theme.typography.sizes.sm,
+      fontWeight: theme.typography.weights.semibold,
+    },
+    helperText: {
+      color: theme.colors.textSecondary,
+      fontSize: theme.typography.sizes.xs,
+      marginTop: theme.spacing.sm,
+      fontStyle: 'italic',
+      lineHeight:
+        theme.typography.lineHeights.relaxed * theme.typography.sizes.xs,
+      backgroundColor: theme.colors.surfaceSecondary,
+      padding: theme.spacing.sm,
+      borderRadius: theme.borderRadius.sm,
+    },
+  });
+
+export default CurlImportEditor;
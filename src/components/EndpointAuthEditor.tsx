@@ -0,0 +1,301 @@
+/**
+ * EndpointAuthEditor Component
+ *
+ * Edits the credentials sent with one endpoint's requests. Secret fields are
+ * masked while typing; the credentials are only passed on once they are complete.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { ApiKeyLocation, EndpointAuth, EndpointAuthType } from '../types';
+import { API_KEY_LOCATIONS, ENDPOINT_AUTH_TYPES } from '../constants';
+import { useTheme } from '../theme';
+import { validateEndpointAuth } from '../utils/endpointAuth';
+
+interface EndpointAuthEditorProps {
+  auth?: EndpointAuth;
+  onChange: (auth: EndpointAuth | undefined) => void;
+  testID: string;
+}
+
+interface AuthFields {
+  token: string;
+  username: string;
+  password: string;
+  name: string;
+  value: string;
+  location: ApiKeyLocation;
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope: string;
+  audience: string;
+}
+
+const toFields = (auth?: EndpointAuth): AuthFields => ({
+  token: auth?.type === 'bearer' ? auth.token : '',
+  username: auth?.type === 'basic' ? auth.username : '',
+  password: auth?.type === 'basic' ? auth.password : '',
+  name: auth?.type === 'apiKey' ? auth.name : '',
+  value: auth?.type === 'apiKey' ? auth.value : '',
+  location: auth?.type === 'apiKey' ? auth.location : 'header',
+  tokenUrl: auth?.type === 'oauth2ClientCredentials' ? auth.tokenUrl : '',
+  clientId: auth?.type === 'oauth2ClientCredentials' ? auth.clientId : '',
+  clientSecret: auth?.type === 'oauth2ClientCredentials' ? auth.clientSecret : '',
+  scope: auth?.type === 'oauth2ClientCredentials' ? auth.scope || '' : '',
+  audience: auth?.type === 'oauth2ClientCredentials' ? auth.audience || '' : '',
+});
+
+const toAuth = (type: EndpointAuthType, fields: AuthFields): EndpointAuth => {
+  switch (type) {
+    case 'bearer':
+      return { type, token: fields.token };
+    case 'basic':
+      return { type, username: fields.username, password: fields.password };
+    case 'apiKey':
+      return { type, name: fields.name.trim(), value: fields.value, location: fields.location };
+    case 'oauth2ClientCredentials':
+      return {
+        type,
+        tokenUrl: fields.tokenUrl.trim(),
+        clientId: fields.clientId,
+        clientSecret: fields.clientSecret,
+        ...(fields.scope.trim() ? { scope: fields.scope.trim() } : {}),
+        ...(fields.audience.trim() ? { audience: fields.audience.trim() } : {}),
+      };
+  }
+};
+
+const EndpointAuthEditor: React.FC<EndpointAuthEditorProps> = ({
+  auth,
+  onChange,
+  testID,
+}) => {
+  const { theme } = useTheme();
+  const styles = createStyles(theme);
+
+  const [type, setType] = useState<EndpointAuthType | undefined>(auth?.type);
+  const [fields, setFields] = useState<AuthFields>(toFields(auth));
+  const [error, setError] = useState('');
+  const lastEmitted = useRef(JSON.stringify(auth));
+
+  // Pick up credentials loaded or changed elsewhere, but not the ones this editor just sent
+  useEffect(() => {
+    const serialized = JSON.stringify(auth);
+    if (serialized === lastEmitted.current) {
+      return;
+    }
+    lastEmitted.current = serialized;
+    setType(auth?.type);
+    setFields(toFields(auth));
+    setError('');
+  }, [auth]);
+
+  const emit = (next: EndpointAuth | undefined) => {
+    lastEmitted.current = JSON.stringify(next);
+    onChange(next);
+  };
+
+  const update = (nextType: EndpointAuthType | undefined, changes: Partial<AuthFields> = {}) => {
+    const nextFields = { ...fields, ...changes };
+    setType(nextType);
+    setFields(nextFields);
+
+    if (!nextType) {
+      setError('');
+      emit(undefined);
+      return;
+    }
+
+    const draft = toAuth(nextType, nextFields);
+    const validation = validateEndpointAuth(draft);
+    setError(validation.errors.join(', '));
+    if (validation.isValid) {
+      emit(draft);
+    }
+  };
+
+  const renderInput = (
+    label: string,
+    field: Exclude<keyof AuthFields, 'location'>,
+    options: { placeholder?: string; secret?: boolean } = {},
+  ) => (
+    <View style={styles.field}>
+      <Text style={styles.label}>{label}:</Text>
+      <TextInput
+        style={styles.textInput}
+        value={fields[field]}
+        onChangeText={text => update(type, { [field]: text })}
+        placeholder={options.placeholder}
+        placeholderTextColor={theme.colors.textSecondary}
+        secureTextEntry={options.secret}
+        autoCapitalize="none"
+        autoCorrect={false}
+        testID={`${testID}-${field}`}
+      />
+    </View>
+  );
+
+  const renderOption = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.option, selected && styles.optionSelected]}
+      onPress={onPress}
+      testID={`${testID}-${key}`}
+    >
+      <Text style={[styles.optionText, selected && styles.optionTextSelected]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <Text style={styles.title}>Authentication</Text>
+
+      <View style={styles.selector}>
+        {renderOption('type-none', 'None', !type, () => update(undefined))}
+        {ENDPOINT_AUTH_TYPES.map(option =>
+          renderOption(`type-${option.value}`, option.label, type === option.value, () =>
+            update(option.value),
+          ),
+        )}
+      </View>
+
+      {type === 'bearer' && renderInput('Token', 'token', { secret: true })}
+
+      {type === 'basic' && (
+        <View style={styles.row}>
+          {renderInput('Username', 'username')}
+          {renderInput('Password', 'password', { secret: true })}
+        </View>
+      )}
+
+      {type === 'apiKey' && (
+        <>
+          <View style={styles.selector}>
+            {API_KEY_LOCATIONS.map(option =>
+              renderOption(
+                `location-${option.value}`,
+                option.label,
+                fields.location === option.value,
+                () => update(type, { location: option.value }),
+              ),
+            )}
+          </View>
+          <View style={styles.row}>
+            {renderInput(fields.location === 'query' ? 'Parameter' : 'Header', 'name', {
+              placeholder: fields.location === 'query' ? 'api_key' : 'X-API-Key',
+            })}
+            {renderInput('Value', 'value', { secret: true })}
+          </View>
+        </>
+      )}
+
+      {type === 'oauth2ClientCredentials' && (
+        <>
+          {renderInput('Token URL', 'tokenUrl', {
+            placeholder: 'https://auth.example.com/oauth/token',
+          })}
+          <View style={styles.row}>
+            {renderInput('Client ID', 'clientId')}
+            {renderInput('Client Secret', 'clientSecret', { secret: true })}
+          </View>
+          <View style={styles.row}>
+            {renderInput('Scope', 'scope', { placeholder: 'optional' })}
+            {renderInput('Audience', 'audience', { placeholder: 'optional' })}
+          </View>
+        </>
+      )}
+
+      {error ? (
+        <Text style={styles.errorText} testID={`${testID}-error`}>
+          {error}
+        </Text>
+      ) : null}
+      <Text style={styles.helperText}>
+        {type === 'oauth2ClientCredentials'
+          ? 'Tokens are fetched before the first request and reused until they expire.'
+          : 'Added to every request to this endpoint. Fields may use captured {{variables}}.'}
+      </Text>
+    </View>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    marginBottom: theme.spacing.md,
+  },
+  title: {
+    fontSize: theme.typography.sizes.base,
+    fontWeight: theme.typography.weights.semibold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+  field: {
+    flex: 1,
+    marginBottom: theme.spacing.sm,
+  },
+  label: {
+    fontSize: theme.typography.sizes.sm,
+    fontWeight: theme.typography.weights.semibold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.xs,
+  },
+  textInput: {
+    height: 44,
+    borderWidth: 2,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.md,
+    fontSize: theme.typography.sizes.base,
+    backgroundColor: theme.colors.surface,
+    color: theme.colors.text,
+  },
+  selector: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  option: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  optionSelected: {
+    borderColor: theme.colors.primary,
+    backgroundColor: theme.colors.primary,
+  },
+  optionText: {
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.text,
+  },
+  optionTextSelected: {
+    color: theme.colors.surface,
+    fontWeight: theme.typography.weights.semibold,
+  },
+  errorText: {
+    marginBottom: theme.spacing.sm,
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.error,
+  },
+  helperText: {
+    fontSize: theme.typography.sizes.xs,
+    color: theme.colors.textSecondary,
+  },
+});
+
+export default EndpointAuthEditor;
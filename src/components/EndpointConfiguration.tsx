@@ -6,7 +6,7 @@
  * Now features collapsible sections for better organization.
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -14,17 +14,59 @@ import {
   TouchableOpacity,
   StyleSheet,
   Animated,
+  Alert,
+  Share,
 } from 'react-native';
 // Note: Using a simple button-based method selector instead of Picker for better test compatibility
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { EndpointConfig, HttpMethod, ValidationResult } from '../types';
+import {
+  ChallengeConfig,
+  EndpointConfig,
+  HttpMethod,
+  ValidationResult,
+} from '../types';
+import {
+  PAYLOAD_TEMPLATE_PLACEHOLDERS,
+  formatTemplateVariables,
+} from '../utils/payloadTemplate';
+import { BodyTemplateType } from '../utils/bodyTemplate';
+import { fillVariablePlaceholders } from '../utils/capturedVariables';
+import {
+  getConfiguredRequest,
+  importCurlCommand,
+  toCurlCommand,
+} from '../utils/curlCommand';
+import { biometricAPIService } from '../services/BiometricAPIService';
+import { configurationPersistence } from '../services/ConfigurationPersistence';
 import CollapsibleSection from './CollapsibleSection';
+import CurlImportEditor from './CurlImportEditor';
+import EnrollmentKeyEditor from './EnrollmentKeyEditor';
+import ChallengeEditor, { buildChallengeConfig } from './ChallengeEditor';
+import PayloadVariablesEditor, {
+  parsePayloadVariables,
+} from './PayloadVariablesEditor';
+import BodyTemplateEditor, { getBodyTemplateError } from './BodyTemplateEditor';
+import RequestPolicyEditor from './RequestPolicyEditor';
+import ResponseAssertionsEditor from './ResponseAssertionsEditor';
+import CaptureRulesEditor from './CaptureRulesEditor';
+import EndpointAuthEditor from './EndpointAuthEditor';
+import RequestSigningEditor from './RequestSigningEditor';
 import { useTheme } from '../theme';
 
 interface EndpointConfigurationProps {
   enrollConfig: EndpointConfig;
   validateConfig: EndpointConfig;
-  onConfigChange: (type: 'enroll' | 'validate', config: EndpointConfig) => void;
+  /** Called when keys are deleted; the default keeps unenrollment local */
+  unenrollConfig?: EndpointConfig;
+  onConfigChange: (
+    type: 'enroll' | 'validate' | 'unenroll',
+    config: EndpointConfig,
+  ) => void;
+  /** Key slot and fingerprint used to preview the payload template */
+  keyAlias?: string;
+  publicKeyFingerprint?: string;
+  /** Variables captured from backend responses, used by the payload preview */
+  capturedVariables?: Record<string, string>;
 }
 
 interface HeaderEntry {
@@ -32,12 +74,38 @@ interface HeaderEntry {
   id: string;
 }
 
+type EndpointType = 'enroll' | 'validate' | 'unenroll';
+
+// Settings that the editors below the headers change as a whole
+type EndpointSettings = Pick<
+  EndpointConfig,
+  | 'publicKeyFormat'
+  | 'enrollmentPolicy'
+  | 'deleteLocallyOnFailure'
+  | 'requestPolicy'
+  | 'assertions'
+  | 'captures'
+  | 'auth'
+  | 'signing'
+>;
+
 const STORAGE_KEYS = {
   ENROLL_CONFIG: 'biometric_enroll_config',
   VALIDATE_CONFIG: 'biometric_validate_config',
+  UNENROLL_CONFIG: 'biometric_unenroll_config',
 };
 
-const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH'];
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Helper function to turn configured headers into editable lines
+const toHeaderEntries = (
+  headers: Record<string, string> | undefined,
+  idPrefix: string,
+): HeaderEntry[] =>
+  Object.entries(headers || {}).map(([key, value], index) => ({
+    id: `${idPrefix}-${index}`,
+    headerString: `${key}: ${value}`,
+  }));
 
 // Helper function to parse header string into key-value pairs
 const parseHeadersFromStrings = (
@@ -59,22 +127,72 @@ const parseHeadersFromStrings = (
   }, {} as Record<string, string>);
 };
 
+// Helper function to take the editor settings out of an endpoint configuration
+const pickEndpointSettings = (config: EndpointConfig): EndpointSettings => ({
+  publicKeyFormat: config.publicKeyFormat,
+  enrollmentPolicy: config.enrollmentPolicy,
+  deleteLocallyOnFailure: config.deleteLocallyOnFailure || undefined,
+  requestPolicy: config.requestPolicy,
+  assertions: config.assertions,
+  captures: config.captures,
+  auth: config.auth,
+  signing: config.signing,
+});
+
+// Helper function to build an endpoint configuration, leaving out headers while none are set
+const buildEndpointConfig = (
+  url: string,
+  method: HttpMethod,
+  headerEntries: HeaderEntry[],
+  settings: Partial<EndpointConfig>,
+): EndpointConfig => {
+  const headers = parseHeadersFromStrings(headerEntries);
+  return {
+    url,
+    method,
+    headers: Object.keys(headers).length > 0 ? headers : undefined,
+    ...settings,
+  };
+};
+
 const EndpointConfiguration: React.FC<EndpointConfigurationProps> = ({
   enrollConfig,
   validateConfig,
+  unenrollConfig = { url: '', method: 'DELETE' },
   onConfigChange,
+  keyAlias,
+  publicKeyFingerprint,
+  capturedVariables,
 }) => {
   const { theme } = useTheme();
   const [enrollUrl, setEnrollUrl] = useState(enrollConfig.url);
   const [enrollMethod, setEnrollMethod] = useState<HttpMethod>(
     enrollConfig.method,
   );
+  const [enrollBodyTemplate, setEnrollBodyTemplate] = useState(
+    enrollConfig.bodyTemplate || '',
+  );
   const [validateUrl, setValidateUrl] = useState(validateConfig.url);
   const [validateMethod, setValidateMethod] = useState<HttpMethod>(
     validateConfig.method,
   );
 
+  const [unenrollUrl, setUnenrollUrl] = useState(unenrollConfig.url);
+  const [unenrollMethod, setUnenrollMethod] = useState<HttpMethod>(
+    unenrollConfig.method,
+  );
+
+  // Key, request policy, assertion, capture, credential and signing settings per endpoint
+  const [settings, setSettings] = useState<
+    Record<EndpointType, EndpointSettings>
+  >(() => ({
+    enroll: pickEndpointSettings(enrollConfig),
+    validate: pickEndpointSettings(validateConfig),
+    unenroll: pickEndpointSettings(unenrollConfig),
+  }));
+
   const [enrollUrlError, setEnrollUrlError] = useState<string>('');
+  const [unenrollUrlError, setUnenrollUrlError] = useState<string>('');
   const [validateUrlError, setValidateUrlError] = useState<string>('');
 
   // Focus states for enhanced styling
@@ -91,22 +209,45 @@ const EndpointConfiguration: React.FC<EndpointConfigurationProps> = ({
 
   // Headers state
   const [enrollHeaders, setEnrollHeaders] = useState<HeaderEntry[]>(() =>
-    Object.entries(enrollConfig.headers || {}).map(([key, value], index) => ({
-      id: `enroll-${index}`,
-      headerString: `${key}: ${value}`,
-    })),
+    toHeaderEntries(enrollConfig.headers, 'enroll'),
   );
   const [validateHeaders, setValidateHeaders] = useState<HeaderEntry[]>(() =>
-    Object.entries(validateConfig.headers || {}).map(([key, value], index) => ({
-      id: `validate-${index}`,
-      headerString: `${key}: ${value}`,
-    })),
+    toHeaderEntries(validateConfig.headers, 'validate'),
+  );
+  const [unenrollHeaders, setUnenrollHeaders] = useState<HeaderEntry[]>(() =>
+    toHeaderEntries(unenrollConfig.headers, 'unenroll'),
   );
 
   // Payload customization state (only for validation endpoint)
   const [validateCustomPayload, setValidateCustomPayload] = useState(
     validateConfig.customPayload || '{date}',
   );
+  const [validatePayloadVariables, setValidatePayloadVariables] = useState(
+    formatTemplateVariables(validateConfig.payloadVariables),
+  );
+
+  // Request body mapping, the default body is sent while empty
+  const [validateBodyTemplate, setValidateBodyTemplate] = useState(
+    validateConfig.bodyTemplate || '',
+  );
+
+  // Optional server challenge fetched before signing
+  const [challenge, setChallenge] = useState<
+    Pick<ChallengeConfig, 'url' | 'method' | 'challengePath'>
+  >({
+    url: validateConfig.challenge?.url || '',
+    method: validateConfig.challenge?.method || 'GET',
+    challengePath: validateConfig.challenge?.challengePath || '',
+  });
+
+  const enrollBodyTemplateError = useMemo(
+    () => getBodyTemplateError(enrollBodyTemplate, 'enroll'),
+    [enrollBodyTemplate],
+  );
+  const validateBodyTemplateError = useMemo(
+    () => getBodyTemplateError(validateBodyTemplate, 'validate'),
+    [validateBodyTemplate],
+  );
 
   // Load saved configuration on component mount
   useEffect(() => {
@@ -134,15 +275,21 @@ const EndpointConfiguration: React.FC<EndpointConfigurationProps> = ({
   // Save configuration whenever it changes
   useEffect(() => {
     if (enrollUrl || enrollMethod !== 'POST' || enrollHeaders.length > 0) {
-      const headers = parseHeadersFromStrings(enrollHeaders);
-
-      saveConfiguration('enroll', {
-        url: enrollUrl,
-        method: enrollMethod,
-        headers: Object.keys(headers).length > 0 ? headers : undefined,
-      });
+      saveConfiguration(
+        'enroll',
+        buildEndpointConfig(enrollUrl, enrollMethod, enrollHeaders, {
+          ...settings.enroll,
+          bodyTemplate: enrollBodyTemplate.trim() || undefined,
+        }),
+      );
     }
-  }, [enrollUrl, enrollMethod, enrollHeaders]);
+  }, [
+    enrollUrl,
+    enrollMethod,
+    enrollHeaders,
+    enrollBodyTemplate,
+    settings.enroll,
+  ]);
 
   useEffect(() => {
     if (
@@ -151,38 +298,63 @@ const EndpointConfiguration: React.FC<EndpointConfigurationProps> = ({
       validateHeaders.length > 0 ||
       validateCustomPayload
     ) {
-      const headers = parseHeadersFromStrings(validateHeaders);
+      saveConfiguration(
+        'validate',
+        buildEndpointConfig(validateUrl, validateMethod, validateHeaders, {
+          ...settings.validate,
+          customPayload: validateCustomPayload || undefined,
+          payloadVariables: parsePayloadVariables(validatePayloadVariables),
+          challenge: buildChallengeConfig(challenge),
+          bodyTemplate: validateBodyTemplate.trim() || undefined,
+        }),
+      );
+    }
+  }, [
+    validateUrl,
+    validateMethod,
+    validateHeaders,
+    validateCustomPayload,
+    validatePayloadVariables,
+    challenge,
+    validateBodyTemplate,
+    settings.validate,
+  ]);
 
-      saveConfiguration('validate', {
-        url: validateUrl,
-        method: validateMethod,
-        headers: Object.keys(headers).length > 0 ? headers : undefined,
-        customPayload: validateCustomPayload || undefined,
-      });
+  useEffect(() => {
+    if (unenrollUrl || unenrollMethod !== 'DELETE' || unenrollHeaders.length > 0) {
+      saveConfiguration(
+        'unenroll',
+        buildEndpointConfig(
+          unenrollUrl,
+          unenrollMethod,
+          unenrollHeaders,
+          settings.unenroll,
+        ),
+      );
     }
-  }, [validateUrl, validateMethod, validateHeaders, validateCustomPayload]);
+  }, [unenrollUrl, unenrollMethod, unenrollHeaders, settings.unenroll]);
 
   const loadSavedConfiguration = async () => {
     try {
-      const [savedEnrollConfig, savedValidateConfig] = await Promise.all([
-        AsyncStorage.getItem(STORAGE_KEYS.ENROLL_CONFIG),
-        AsyncStorage.getItem(STORAGE_KEYS.VALIDATE_CONFIG),
-      ]);
+      const [savedEnrollConfig, savedValidateConfig, savedUnenrollConfig] =
+        await Promise.all([
+          AsyncStorage.getItem(STORAGE_KEYS.ENROLL_CONFIG),
+          AsyncStorage.getItem(STORAGE_KEYS.VALIDATE_CONFIG),
+          AsyncStorage.getItem(STORAGE_KEYS.UNENROLL_CONFIG),
+        ]);
+      const loadedSettings: Partial<Record<EndpointType, EndpointSettings>> =
+        {};
 
       if (savedEnrollConfig) {
         const config = JSON.parse(savedEnrollConfig) as EndpointConfig;
         setEnrollUrl(config.url);
         setEnrollMethod(config.method);
+        setEnrollBodyTemplate(config.bodyTemplate || '');
+        loadedSettings.enroll = pickEndpointSettings(config);
 
         // Load headers
         if (config.headers) {
-          const headerEntries = Object.entries(config.headers).map(
-            ([key, value], index) => ({
-              id: `enroll-loaded-${index}`,
-              headerString: `${key}: ${value}`,
-            }),
-          );
-          setEnrollHeaders(headerEntries);
+          setEnrollHeaders(toHeaderEntries(config.headers, 'enroll-loaded'));
         }
 
         onConfigChange('enroll', config);
@@ -193,34 +365,60 @@ const EndpointConfiguration: React.FC<EndpointConfigurationProps> = ({
         setValidateUrl(config.url);
         setValidateMethod(config.method);
         setValidateCustomPayload(config.customPayload || '{date}');
+        setValidatePayloadVariables(
+          formatTemplateVariables(config.payloadVariables),
+        );
+        setChallenge({
+          url: config.challenge?.url || '',
+          method: config.challenge?.method || 'GET',
+          challengePath: config.challenge?.challengePath || '',
+        });
+        setValidateBodyTemplate(config.bodyTemplate || '');
+        loadedSettings.validate = pickEndpointSettings(config);
 
         // Load headers
         if (config.headers) {
-          const headerEntries = Object.entries(config.headers).map(
-            ([key, value], index) => ({
-              id: `validate-loaded-${index}`,
-              headerString: `${key}: ${value}`,
-            }),
+          setValidateHeaders(
+            toHeaderEntries(config.headers, 'validate-loaded'),
           );
-          setValidateHeaders(headerEntries);
         }
 
         onConfigChange('validate', config);
       }
+
+      if (savedUnenrollConfig) {
+        const config = JSON.parse(savedUnenrollConfig) as EndpointConfig;
+        setUnenrollUrl(config.url);
+        setUnenrollMethod(config.method);
+        loadedSettings.unenroll = pickEndpointSettings(config);
+
+        // Load headers
+        if (config.headers) {
+          setUnenrollHeaders(
+            toHeaderEntries(config.headers, 'unenroll-loaded'),
+          );
+        }
+
+        onConfigChange('unenroll', config);
+      }
+
+      setSettings(current => ({ ...current, ...loadedSettings }));
     } catch (error) {
       console.warn('Failed to load saved endpoint configuration:', error);
     }
   };
 
   const saveConfiguration = async (
-    type: 'enroll' | 'validate',
+    type: 'enroll' | 'validate' | 'unenroll',
     config: EndpointConfig,
   ) => {
     try {
       const storageKey =
         type === 'enroll'
           ? STORAGE_KEYS.ENROLL_CONFIG
-          : STORAGE_KEYS.VALIDATE_CONFIG;
+          : type === 'validate'
+          ? STORAGE_KEYS.VALIDATE_CONFIG
+          : STORAGE_KEYS.UNENROLL_CONFIG;
       await AsyncStorage.setItem(storageKey, JSON.stringify(config));
     } catch (error) {
       console.warn(`Failed to save ${type} configuration:`, error);
@@ -238,7 +436,8 @@ const EndpointConfiguration: React.FC<EndpointConfigurationProps> = ({
     const urlRegex =
       /^https?:\/\/(www\.)?[-a-zA-Z0-9@:%._\+~#=]{1,256}\.[a-zA-Z0-9()]{1,6}\b([-a-zA-Z0-9()@:%_\+.~#?&//=]*)$/;
 
-    if (!urlRegex.test(url)) {
+    // {{name}} placeholders are only filled in at request time
+    if (!urlRegex.test(fillVariablePlaceholders(url))) {
       errors.push(
         'Please enter a valid URL (must start with http:// or https://)',
       );
@@ -250,6 +449,128 @@ const EndpointConfiguration: React.FC<EndpointConfigurationProps> = ({
     };
   };
 
+  /**
+   * Share the endpoint's last request as a cURL command; before its first call only the
+   * URL, method and headers are known
+   */
+  const handleShareAsCurl = async (
+    url: string,
+    method: HttpMethod,
+    headers: HeaderEntry[],
+  ) => {
+    const endpoint: EndpointConfig = {
+      url,
+      method,
+      headers: parseHeadersFromStrings(headers),
+    };
+    const lastExchange = biometricAPIService.getLastExchange(endpoint);
+
+    try {
+      await Share.share({
+        message: toCurlCommand(lastExchange?.request || getConfiguredRequest(endpoint)),
+        title: 'cURL command',
+      });
+    } catch (error) {
+      Alert.alert('Share Failed', 'Failed to share the cURL command');
+    }
+  };
+
+  // Helper function to gather an endpoint's settings from the form
+  const getCurrentConfig = (type: EndpointType): EndpointConfig => {
+    if (type === 'enroll') {
+      return buildEndpointConfig(enrollUrl, enrollMethod, enrollHeaders, {
+        ...settings.enroll,
+        bodyTemplate: enrollBodyTemplate.trim() || undefined,
+      });
+    }
+    if (type === 'validate') {
+      return buildEndpointConfig(validateUrl, validateMethod, validateHeaders, {
+        ...settings.validate,
+        customPayload: validateCustomPayload || undefined,
+        payloadVariables: parsePayloadVariables(validatePayloadVariables),
+        challenge: buildChallengeConfig(challenge),
+        bodyTemplate: validateBodyTemplate.trim() || undefined,
+      });
+    }
+    return buildEndpointConfig(
+      unenrollUrl,
+      unenrollMethod,
+      unenrollHeaders,
+      settings.unenroll,
+    );
+  };
+
+  // Pass a changed endpoint on; the unenrollment endpoint is held back while its URL is invalid
+  const handleConfigChange = (
+    type: EndpointType,
+    changes: Partial<EndpointConfig>,
+  ) => {
+    const newConfig: EndpointConfig = { ...getCurrentConfig(type), ...changes };
+    if (type === 'unenroll' && !validateUrlFormat(newConfig.url).isValid) {
+      return;
+    }
+    onConfigChange(type, newConfig);
+  };
+
+  /**
+   * Replace the target endpoint's URL, method, headers and body template with those of the
+   * pasted cURL command and save it where the web server reads it; nothing changes when it
+   * cannot be imported or saved
+   */
+  const handleImportCurl = async (
+    type: EndpointType,
+    command: string,
+  ): Promise<string[]> => {
+    const { config, errors } = importCurlCommand(
+      command,
+      type,
+      getCurrentConfig(type),
+    );
+    if (!config) {
+      return errors;
+    }
+
+    try {
+      await configurationPersistence.updateEndpointConfig(type, config);
+    } catch (error) {
+      return [`Failed to save the ${type} configuration`];
+    }
+
+    const headerEntries = Object.entries(config.headers || {}).map(
+      ([key, value]) => ({
+        id: generateHeaderId(type),
+        headerString: `${key}: ${value}`,
+      }),
+    );
+    const urlError = validateUrlFormat(config.url).errors.join(', ');
+
+    if (type === 'enroll') {
+      setEnrollUrl(config.url);
+      setEnrollUrlError(urlError);
+      setEnrollMethod(config.method);
+      setEnrollHeaders(headerEntries);
+      setEnrollBodyTemplate(config.bodyTemplate || '');
+    } else if (type === 'validate') {
+      setValidateUrl(config.url);
+      setValidateUrlError(urlError);
+      setValidateMethod(config.method);
+      setValidateHeaders(headerEntries);
+      setValidateBodyTemplate(config.bodyTemplate || '');
+    } else {
+      setUnenrollUrl(config.url);
+      setUnenrollUrlError(urlError);
+      setUnenrollMethod(config.method);
+      setUnenrollHeaders(headerEntries);
+    }
+    setSettings(current => ({
+      ...current,
+      [type]: pickEndpointSettings(config),
+    }));
+
+    onConfigChange(type, config);
+    return errors;
+  };
+
   const handleEnrollUrlChange = (url: string) => {
     setEnrollUrl(url);
     const validation = validateUrlFormat(url);
@@ -275,14 +596,7 @@ const EndpointConfiguration: React.FC<EndpointConfigurationProps> = ({
     setEnrollUrlError(newError);
 
     if (validation.isValid) {
-      const headers = parseHeadersFromStrings(enrollHeaders);
-
-      const newConfig: EndpointConfig = {
-        url,
-        method: enrollMethod,
-        headers: Object.keys(headers).length > 0 ? headers : undefined,
-      };
-      onConfigChange('enroll', newConfig);
+      handleConfigChange('enroll', { url });
     }
   };
 
@@ -311,58 +625,28 @@ const EndpointConfiguration: React.FC<EndpointConfigurationProps> = ({
     setValidateUrlError(newError);
 
     if (validation.isValid) {
-      const headers = parseHeadersFromStrings(validateHeaders);
-
-      const newConfig: EndpointConfig = {
-        url,
-        method: validateMethod,
-        headers: Object.keys(headers).length > 0 ? headers : undefined,
-        customPayload: validateCustomPayload || undefined,
-      };
-      onConfigChange('validate', newConfig);
+      handleConfigChange('validate', { url });
     }
   };
 
-  const handleEnrollMethodChange = (method: HttpMethod) => {
-    setEnrollMethod(method);
-    const headers = parseHeadersFromStrings(enrollHeaders);
-
-    const newConfig: EndpointConfig = {
-      url: enrollUrl,
-      method,
-      headers: Object.keys(headers).length > 0 ? headers : undefined,
-    };
-    onConfigChange('enroll', newConfig);
+  const handleUnenrollUrlChange = (url: string) => {
+    setUnenrollUrl(url);
+    setUnenrollUrlError(validateUrlFormat(url).errors.join(', '));
+    handleConfigChange('unenroll', { url });
   };
 
-  const handleValidateMethodChange = (method: HttpMethod) => {
-    setValidateMethod(method);
-    const headers = parseHeadersFromStrings(validateHeaders);
-
-    const newConfig: EndpointConfig = {
-      url: validateUrl,
-      method,
-      headers: Object.keys(headers).length > 0 ? headers : undefined,
-      customPayload: validateCustomPayload || undefined,
-    };
-    onConfigChange('validate', newConfig);
-  };
-
-  const handleValidatePayloadChange = (payload: string) => {
-    setValidateCustomPayload(payload);
-    const headers = parseHeadersFromStrings(validateHeaders);
-
-    const newConfig: EndpointConfig = {
-      url: validateUrl,
-      method: validateMethod,
-      headers: Object.keys(headers).length > 0 ? headers : undefined,
-      customPayload: payload || undefined,
-    };
-    onConfigChange('validate', newConfig);
+  const handleMethodChange = (type: EndpointType, method: HttpMethod) => {
+    const setMethod = {
+      enroll: setEnrollMethod,
+      validate: setValidateMethod,
+      unenroll: setUnenrollMethod,
+    }[type];
+    setMethod(method);
+    handleConfigChange(type, { method });
   };
 
   // Header management functions
-  const generateHeaderId = (type: 'enroll' | 'validate') => {
+  const generateHeaderId = (type: EndpointType) => {
     return `${type}-${Date.now()}-${Math.random()
       .toString(36)
       .substring(2, 11)}`;
@@ -384,39 +668,34 @@ const EndpointConfiguration: React.FC<EndpointConfigurationProps> = ({
     setValidateHeaders([...validateHeaders, newHeader]);
   };
 
-  const updateEnrollHeader = (id: string, headerString: string) => {
-    const updatedHeaders = enrollHeaders.map(header =>
-      header.id === id ? { ...header, headerString } : header,
-    );
-    setEnrollHeaders(updatedHeaders);
-
-    // Update configuration immediately
-    const headers = parseHeadersFromStrings(updatedHeaders);
-
-    const newConfig: EndpointConfig = {
-      url: enrollUrl,
-      method: enrollMethod,
-      headers: Object.keys(headers).length > 0 ? headers : undefined,
+  const addUnenrollHeader = () => {
+    const newHeader: HeaderEntry = {
+      id: generateHeaderId('unenroll'),
+      headerString: '',
     };
-    onConfigChange('enroll', newConfig);
+    setUnenrollHeaders([...unenrollHeaders, newHeader]);
   };
 
-  const updateValidateHeader = (id: string, headerString: string) => {
-    const updatedHeaders = validateHeaders.map(header =>
+  const updateHeader = (
+    type: EndpointType,
+    id: string,
+    headerString: string,
+  ) => {
+    const [currentHeaders, setHeaders] = {
+      enroll: [enrollHeaders, setEnrollHeaders] as const,
+      validate: [validateHeaders, setValidateHeaders] as const,
+      unenroll: [unenrollHeaders, setUnenrollHeaders] as const,
+    }[type];
+    const updatedHeaders = currentHeaders.map(header =>
       header.id === id ? { ...header, headerString } : header,
     );
-    setValidateHeaders(updatedHeaders);
+    setHeaders(updatedHeaders);
 
     // Update configuration immediately
     const headers = parseHeadersFromStrings(updatedHeaders);
-
-    const newConfig: EndpointConfig = {
-      url: validateUrl,
-      method: validateMethod,
+    handleConfigChange(type, {
       headers: Object.keys(headers).length > 0 ? headers : undefined,
-      customPayload: validateCustomPayload || undefined,
-    };
-    onConfigChange('validate', newConfig);
+    });
   };
 
   const removeEnrollHeader = (id: string) => {
@@ -427,21 +706,81 @@ const EndpointConfiguration: React.FC<EndpointConfigurationProps> = ({
     setValidateHeaders(headers => headers.filter(header => header.id !== id));
   };
 
+  const removeUnenrollHeader = (id: string) => {
+    setUnenrollHeaders(headers => headers.filter(header => header.id !== id));
+  };
+
+  const handleSettingsChange = (
+    type: EndpointType,
+    changes: EndpointSettings,
+  ) => {
+    setSettings(current => ({
+      ...current,
+      [type]: { ...current[type], ...changes },
+    }));
+    handleConfigChange(type, changes);
+  };
+
+  // An invalid body template is shown with its error but kept out of the config
+  const handleBodyTemplateChange = (
+    type: BodyTemplateType,
+    template: string,
+  ) => {
+    if (type === 'enroll') {
+      setEnrollBodyTemplate(template);
+    } else {
+      setValidateBodyTemplate(template);
+    }
+
+    if (!getBodyTemplateError(template, type)) {
+      handleConfigChange(type, { bodyTemplate: template.trim() || undefined });
+    }
+  };
+
+  const handleValidatePayloadChange = (payload: string) => {
+    setValidateCustomPayload(payload);
+    handleConfigChange('validate', { customPayload: payload || undefined });
+  };
+
+  const handleValidateVariablesChange = (text: string) => {
+    setValidatePayloadVariables(text);
+    handleConfigChange('validate', {
+      payloadVariables: parsePayloadVariables(text),
+    });
+  };
+
+  const handleChallengeChange = (
+    changes: Partial<Pick<ChallengeConfig, 'url' | 'method' | 'challengePath'>>,
+  ) => {
+    const next = { ...challenge, ...changes };
+    setChallenge(next);
+    handleConfigChange('validate', { challenge: buildChallengeConfig(next) });
+  };
+
   // Helper functions to detect errors in each section
   const hasEnrollmentErrors = () => {
-    return enrollUrlError.length > 0;
+    return enrollUrlError.length > 0 || enrollBodyTemplateError.length > 0;
   };
 
   const hasValidationErrors = () => {
-    return validateUrlError.length > 0;
+    return validateUrlError.length > 0 || validateBodyTemplateError.length > 0;
+  };
+
+  const hasUnenrollmentErrors = () => {
+    return unenrollUrlError.length > 0;
   };
 
+  const deleteLocallyOnFailure =
+    settings.unenroll.deleteLocallyOnFailure || false;
   const styles = createStyles(theme);
 
   return (
     <View style={styles.container}>
       <Text style={styles.title}>API Endpoint Configuration</Text>
 
+      {/* Import from a cURL command */}
+      <CurlImportEditor onImport={handleImportCurl} testID="curl-import" />
+
       {/* Enrollment Endpoint Configuration */}
       <CollapsibleSection
         id="enrollment-config"
@@ -500,7 +839,7 @@ const EndpointConfiguration: React.FC<EndpointConfigurationProps> = ({
                   styles.methodButton,
                   enrollMethod === method && styles.methodButtonSelected,
                 ]}
-                onPress={() => handleEnrollMethodChange(method)}
+                onPress={() => handleMethodChange('enroll', method)}
                 testID={`enroll-method-${method}`}
               >
                 <Text
@@ -536,7 +875,7 @@ const EndpointConfiguration: React.FC<EndpointConfigurationProps> = ({
                   focusedHeaderInputs.has(header.id) && styles.textInputFocused,
                 ]}
                 value={header.headerString}
-                onChangeText={text => updateEnrollHeader(header.id, text)}
+                onChangeText={text => updateHeader('enroll', header.id, text)}
                 onFocus={() =>
                   setFocusedHeaderInputs(prev => new Set(prev).add(header.id))
                 }
@@ -565,6 +904,67 @@ const EndpointConfiguration: React.FC<EndpointConfigurationProps> = ({
             <Text style={styles.noHeadersText}>No headers configured</Text>
           )}
         </View>
+
+        <EnrollmentKeyEditor
+          publicKeyFormat={settings.enroll.publicKeyFormat}
+          enrollmentPolicy={settings.enroll.enrollmentPolicy}
+          onChange={changes => handleSettingsChange('enroll', changes)}
+          testID="enroll"
+        />
+
+        <BodyTemplateEditor
+          template={enrollBodyTemplate}
+          type="enroll"
+          error={enrollBodyTemplateError}
+          onChange={template => handleBodyTemplateChange('enroll', template)}
+          testID="enroll-body-template"
+        />
+
+        <EndpointAuthEditor
+          auth={settings.enroll.auth}
+          onChange={auth => handleSettingsChange('enroll', { auth })}
+          testID="enroll-auth"
+        />
+
+        <RequestSigningEditor
+          signing={settings.enroll.signing}
+          onChange={signing => handleSettingsChange('enroll', { signing })}
+          testID="enroll-signing"
+        />
+
+        <RequestPolicyEditor
+          policy={settings.enroll.requestPolicy}
+          onChange={requestPolicy =>
+            handleSettingsChange('enroll', { requestPolicy })
+          }
+          testID="enroll-request-policy"
+        />
+
+        <ResponseAssertionsEditor
+          assertions={settings.enroll.assertions}
+          onChange={assertions => handleSettingsChange('enroll', { assertions })}
+          testID="enroll-assertions"
+        />
+
+        <CaptureRulesEditor
+          captures={settings.enroll.captures}
+          onChange={captures => handleSettingsChange('enroll', { captures })}
+          testID="enroll-captures"
+        />
+
+        <View style={styles.inputGroup}>
+          <TouchableOpacity
+            style={[styles.addHeaderButton, styles.curlButton]}
+            onPress={() => handleShareAsCurl(enrollUrl, enrollMethod, enrollHeaders)}
+            disabled={!enrollUrl}
+            testID="enroll-copy-curl"
+          >
+            <Text style={styles.addHeaderButtonText}>Copy as cURL</Text>
+          </TouchableOpacity>
+          <Text style={styles.helperText}>
+            Shares the last request exactly as sent, with credentials masked.
+          </Text>
+        </View>
       </CollapsibleSection>
 
       {/* Validation Endpoint Configuration */}
@@ -625,7 +1025,7 @@ const EndpointConfiguration: React.FC<EndpointConfigurationProps> = ({
                   styles.methodButton,
                   validateMethod === method && styles.methodButtonSelected,
                 ]}
-                onPress={() => handleValidateMethodChange(method)}
+                onPress={() => handleMethodChange('validate', method)}
                 testID={`validate-method-${method}`}
               >
                 <Text
@@ -662,7 +1062,7 @@ const EndpointConfiguration: React.FC<EndpointConfigurationProps> = ({
                   focusedHeaderInputs.has(header.id) && styles.textInputFocused,
                 ]}
                 value={header.headerString}
-                onChangeText={text => updateValidateHeader(header.id, text)}
+                onChangeText={text => updateHeader('validate', header.id, text)}
                 onFocus={() =>
                   setFocusedHeaderInputs(prev => new Set(prev).add(header.id))
                 }
@@ -692,6 +1092,14 @@ const EndpointConfiguration: React.FC<EndpointConfigurationProps> = ({
           )}
         </View>
 
+        <ChallengeEditor
+          url={challenge.url}
+          method={challenge.method}
+          challengePath={challenge.challengePath}
+          onChange={handleChallengeChange}
+          testID="validate-challenge"
+        />
+
         <View style={styles.inputGroup}>
           <Text style={styles.label}>Custom Payload Template:</Text>
           <TextInput
@@ -714,7 +1122,256 @@ const EndpointConfiguration: React.FC<EndpointConfigurationProps> = ({
           <Text style={styles.helperText}>
             Use {'{date}'} to insert the current timestamp. Example:
             "user_action_{'{date}'}" will become
-            "user_action_2024-01-15T10:30:00.000Z"
+            "user_action_2024-01-15T10:30:00.000Z". Also available:{' '}
+            {PAYLOAD_TEMPLATE_PLACEHOLDERS.map(
+              placeholder => placeholder.syntax,
+            ).join(', ')}
+          </Text>
+        </View>
+
+        <PayloadVariablesEditor
+          payload={validateCustomPayload}
+          variables={validatePayloadVariables}
+          onChange={handleValidateVariablesChange}
+          keyAlias={keyAlias}
+          publicKeyFingerprint={publicKeyFingerprint}
+          capturedVariables={capturedVariables}
+          testID="validate"
+        />
+
+        <BodyTemplateEditor
+          template={validateBodyTemplate}
+          type="validate"
+          error={validateBodyTemplateError}
+          onChange={template => handleBodyTemplateChange('validate', template)}
+          testID="validate-body-template"
+        />
+
+        <EndpointAuthEditor
+          auth={settings.validate.auth}
+          onChange={auth => handleSettingsChange('validate', { auth })}
+          testID="validate-auth"
+        />
+
+        <RequestSigningEditor
+          signing={settings.validate.signing}
+          onChange={signing => handleSettingsChange('validate', { signing })}
+          testID="validate-signing"
+        />
+
+        <RequestPolicyEditor
+          policy={settings.validate.requestPolicy}
+          onChange={requestPolicy =>
+            handleSettingsChange('validate', { requestPolicy })
+          }
+          testID="validate-request-policy"
+        />
+
+        <ResponseAssertionsEditor
+          assertions={settings.validate.assertions}
+          onChange={assertions =>
+            handleSettingsChange('validate', { assertions })
+          }
+          testID="validate-assertions"
+        />
+
+        <CaptureRulesEditor
+          captures={settings.validate.captures}
+          onChange={captures => handleSettingsChange('validate', { captures })}
+          testID="validate-captures"
+        />
+
+        <View style={styles.inputGroup}>
+          <TouchableOpacity
+            style={[styles.addHeaderButton, styles.curlButton]}
+            onPress={() => handleShareAsCurl(validateUrl, validateMethod, validateHeaders)}
+            disabled={!validateUrl}
+            testID="validate-copy-curl"
+          >
+            <Text style={styles.addHeaderButtonText}>Copy as cURL</Text>
+          </TouchableOpacity>
+          <Text style={styles.helperText}>
+            Shares the last request exactly as sent, with credentials masked.
+          </Text>
+        </View>
+      </CollapsibleSection>
+
+      {/* Unenrollment Endpoint Configuration */}
+      <CollapsibleSection
+        id="unenrollment-config"
+        title="Unenrollment Endpoint"
+        defaultExpanded={false}
+        hasErrors={hasUnenrollmentErrors()}
+        testID="unenrollment-config-section"
+      >
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>URL (optional):</Text>
+          <TextInput
+            style={[
+              styles.textInput,
+              unenrollUrlError ? styles.inputError : null,
+            ]}
+            value={unenrollUrl}
+            onChangeText={handleUnenrollUrlChange}
+            placeholder="https://api.example.com/enrollments"
+            placeholderTextColor={theme.colors.textSecondary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            testID="unenroll-url"
+          />
+          {unenrollUrlError ? (
+            <Text style={styles.errorText}>{unenrollUrlError}</Text>
+          ) : null}
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>HTTP Method:</Text>
+          <View style={styles.methodSelector}>
+            {HTTP_METHODS.map(method => (
+              <TouchableOpacity
+                key={method}
+                style={[
+                  styles.methodButton,
+                  unenrollMethod === method && styles.methodButtonSelected,
+                ]}
+                onPress={() => handleMethodChange('unenroll', method)}
+                testID={`unenroll-method-${method}`}
+              >
+                <Text
+                  style={[
+                    styles.methodButtonText,
+                    unenrollMethod === method &&
+                      styles.methodButtonTextSelected,
+                  ]}
+                >
+                  {method}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.inputGroup}>
+          <View style={styles.headerTitleRow}>
+            <Text style={styles.label}>Headers:</Text>
+            <TouchableOpacity
+              style={styles.addHeaderButton}
+              onPress={addUnenrollHeader}
+              testID="add-unenroll-header"
+            >
+              <Text style={styles.addHeaderButtonText}>+ Add Header</Text>
+            </TouchableOpacity>
+          </View>
+          {unenrollHeaders.map(header => (
+            <View key={header.id} style={styles.headerRow}>
+              <TextInput
+                style={[
+                  styles.headerInput,
+                  styles.headerFullInput,
+                  focusedHeaderInputs.has(header.id) && styles.textInputFocused,
+                ]}
+                value={header.headerString}
+                onChangeText={text => updateHeader('unenroll', header.id, text)}
+                onFocus={() =>
+                  setFocusedHeaderInputs(prev => new Set(prev).add(header.id))
+                }
+                onBlur={() =>
+                  setFocusedHeaderInputs(prev => {
+                    const newSet = new Set(prev);
+                    newSet.delete(header.id);
+                    return newSet;
+                  })
+                }
+                placeholder="Authorization: Bearer token"
+                placeholderTextColor={theme.colors.textSecondary}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <TouchableOpacity
+                style={styles.removeHeaderButton}
+                onPress={() => removeUnenrollHeader(header.id)}
+                testID={`remove-unenroll-header-${header.id}`}
+              >
+                <Text style={styles.removeHeaderButtonText}>×</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+          {unenrollHeaders.length === 0 && (
+            <Text style={styles.noHeadersText}>No headers configured</Text>
+          )}
+        </View>
+
+        <EndpointAuthEditor
+          auth={settings.unenroll.auth}
+          onChange={auth => handleSettingsChange('unenroll', { auth })}
+          testID="unenroll-auth"
+        />
+
+        <RequestSigningEditor
+          signing={settings.unenroll.signing}
+          onChange={signing => handleSettingsChange('unenroll', { signing })}
+          testID="unenroll-signing"
+        />
+
+        <RequestPolicyEditor
+          policy={settings.unenroll.requestPolicy}
+          onChange={requestPolicy =>
+            handleSettingsChange('unenroll', { requestPolicy })
+          }
+          testID="unenroll-request-policy"
+        />
+
+        <ResponseAssertionsEditor
+          assertions={settings.unenroll.assertions}
+          onChange={assertions =>
+            handleSettingsChange('unenroll', { assertions })
+          }
+          testID="unenroll-assertions"
+        />
+
+        <CaptureRulesEditor
+          captures={settings.unenroll.captures}
+          onChange={captures => handleSettingsChange('unenroll', { captures })}
+          testID="unenroll-captures"
+        />
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>When the Backend Call Fails:</Text>
+          <View style={styles.methodSelector}>
+            {[
+              { value: false, label: 'Keep Local Keys' },
+              { value: true, label: 'Delete Locally Anyway' },
+            ].map(option => (
+              <TouchableOpacity
+                key={option.label}
+                style={[
+                  styles.methodButton,
+                  deleteLocallyOnFailure === option.value &&
+                    styles.methodButtonSelected,
+                ]}
+                onPress={() =>
+                  handleSettingsChange('unenroll', {
+                    deleteLocallyOnFailure: option.value || undefined,
+                  })
+                }
+                testID={`unenroll-delete-locally-${option.value}`}
+              >
+                <Text
+                  style={[
+                    styles.methodButtonText,
+                    deleteLocallyOnFailure === option.value &&
+                      styles.methodButtonTextSelected,
+                  ]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.helperText}>
+            Called with the key slot and public key before keys are deleted.
+            Leave the URL empty to delete keys on the device only.
           </Text>
         </View>
       </CollapsibleSection>
@@ -834,12 +1491,6 @@ const createStyles = (theme: any) =>
       textAlign: 'center',
       fontWeight: theme.typography.weights.medium,
     },
-    headerTitleRow: {
-      flexDirection: 'row',
-      justifyContent: 'space-between',
-      alignItems: 'center',
-      marginBottom: theme.spacing.md,
-    },
     addHeaderButton: {
       backgroundColor: theme.colors.primary,
       paddingHorizontal: theme.spacing.md,
@@ -850,11 +1501,21 @@ const createStyles = (theme: any) =>
       alignItems: 'center',
       ...theme.shadows.sm,
     },
+    curlButton: {
+      alignSelf: 'flex-start',
+      marginBottom: theme.spacing.xs,
+    },
     addHeaderButtonText: {
       color: '#FFFFFF',
       fontSize: theme.typography.sizes.sm,
       fontWeight: theme.typography.weights.semibold,
     },
+    headerTitleRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: theme.spacing.md,
+    },
     headerRow: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -0,0 +1,222 @@
+/**
+ * EnrollmentKeyEditor Component
+ *
+ * Edits how keys created on enrollment look: the public key format sent to the
+ * backend, and the key algorithm and authenticator policy. Unset values fall back
+ * to the defaults, which are shown as selected.
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import {
+  EndpointConfig,
+  EnrollmentPolicy,
+  KeyAlgorithm,
+  PublicKeyFormat,
+} from '../types';
+import {
+  DEFAULT_ENROLLMENT_POLICY,
+  DEFAULT_PUBLIC_KEY_FORMAT,
+  KEY_ALGORITHMS,
+  PUBLIC_KEY_FORMATS,
+} from '../constants/biometrics';
+import { useTheme } from '../theme';
+
+type EnrollmentKeySettings = Pick<
+  EndpointConfig,
+  'publicKeyFormat' | 'enrollmentPolicy'
+>;
+
+interface EnrollmentKeyEditorProps {
+  publicKeyFormat?: PublicKeyFormat;
+  enrollmentPolicy?: EnrollmentPolicy;
+  onChange: (changes: EnrollmentKeySettings) => void;
+  /** Prefix of the option test IDs, e.g. "enroll" */
+  testID: string;
+}
+
+const ALGORITHM_OPTIONS: { value: KeyAlgorithm | undefined; label: string }[] =
+  [{ value: undefined, label: 'Provider Default' }, ...KEY_ALGORITHMS];
+
+const POLICY_TOGGLES: {
+  key: 'allowDeviceCredentials' | 'requireConfirmation';
+  label: string;
+}[] = [
+  { key: 'allowDeviceCredentials', label: 'Device Credential Fallback' },
+  { key: 'requireConfirmation', label: 'Require Confirmation' },
+];
+
+const EnrollmentKeyEditor: React.FC<EnrollmentKeyEditorProps> = ({
+  publicKeyFormat,
+  enrollmentPolicy,
+  onChange,
+  testID,
+}) => {
+  const { theme } = useTheme();
+  const styles = createStyles(theme);
+
+  const selectedKeyFormat = publicKeyFormat || DEFAULT_PUBLIC_KEY_FORMAT;
+  const selectedPolicy = enrollmentPolicy || DEFAULT_ENROLLMENT_POLICY;
+
+  const updatePolicy = (changes: Partial<EnrollmentPolicy>) => {
+    onChange({
+      enrollmentPolicy: {
+        ...DEFAULT_ENROLLMENT_POLICY,
+        ...enrollmentPolicy,
+        ...changes,
+      },
+    });
+  };
+
+  return (
+    <View testID={`${testID}-key-settings`}>
+      <View style={styles.group}>
+        <Text style={styles.label}>Public Key Format:</Text>
+        <View style={styles.optionRow}>
+          {PUBLIC_KEY_FORMATS.map(format => (
+            <TouchableOpacity
+              key={format.value}
+              style={[
+                styles.option,
+                selectedKeyFormat === format.value && styles.optionSelected,
+              ]}
+              onPress={() => onChange({ publicKeyFormat: format.value })}
+              testID={`${testID}-key-format-${format.value}`}
+            >
+              <Text
+                style={[
+                  styles.optionText,
+                  selectedKeyFormat === format.value &&
+                    styles.optionTextSelected,
+                ]}
+              >
+                {format.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.helperText}>
+          Encoding of the publicKey field sent to the enrollment endpoint. JWK
+          keys carry their RFC 7638 thumbprint as kid.
+        </Text>
+      </View>
+
+      <View style={styles.group}>
+        <Text style={styles.label}>Key Algorithm:</Text>
+        <View style={styles.optionRow}>
+          {ALGORITHM_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.value || 'default'}
+              style={[
+                styles.option,
+                selectedPolicy.algorithm === option.value &&
+                  styles.optionSelected,
+              ]}
+              onPress={() => updatePolicy({ algorithm: option.value })}
+              testID={`${testID}-key-algorithm-${option.value || 'default'}`}
+            >
+              <Text
+                style={[
+                  styles.optionText,
+                  selectedPolicy.algorithm === option.value &&
+                    styles.optionTextSelected,
+                ]}
+              >
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.label}>Authenticator Policy:</Text>
+        <View style={styles.optionRow}>
+          {POLICY_TOGGLES.map(toggle => (
+            <TouchableOpacity
+              key={toggle.key}
+              style={[
+                styles.option,
+                selectedPolicy[toggle.key] && styles.optionSelected,
+              ]}
+              onPress={() =>
+                updatePolicy({ [toggle.key]: !selectedPolicy[toggle.key] })
+              }
+              testID={`${testID}-policy-${toggle.key}`}
+            >
+              <Text
+                style={[
+                  styles.optionText,
+                  selectedPolicy[toggle.key] && styles.optionTextSelected,
+                ]}
+              >
+                {toggle.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Text style={styles.helperText}>
+          Applied when keys are created and sent as enrollmentPolicy. The device
+          keystore only creates RSA 2048 keys and cannot require confirmation;
+          the simulated provider supports every option.
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const createStyles = (theme: any) =>
+  StyleSheet.create({
+    group: {
+      marginBottom: theme.spacing.lg,
+    },
+    label: {
+      fontSize: theme.typography.sizes.sm,
+      fontWeight: theme.typography.weights.semibold,
+      color: theme.colors.text,
+      marginBottom: theme.spacing.sm,
+      letterSpacing: 0.5,
+    },
+    optionRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: theme.spacing.sm,
+    },
+    option: {
+      minWidth: 60,
+      height: 40,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+      borderWidth: 2,
+      borderColor: theme.colors.border,
+      borderRadius: theme.borderRadius.md,
+      backgroundColor: theme.colors.surface,
+      justifyContent: 'center',
+      alignItems: 'center',
+      ...theme.shadows.sm,
+    },
+    optionSelected: {
+      backgroundColor: theme.colors.primary,
+      borderColor: theme.colors.primary,
+      ...theme.shadows.md,
+    },
+    optionText: {
+      fontSize: theme.typography.sizes.sm,
+      color: theme.colors.text,
+      fontWeight: theme.typography.weights.semibold,
+    },
+    optionTextSelected: {
+      color: '#FFFFFF',
+      fontWeight: theme.typography.weights.bold,
+    },
+    helperText: {
+      color: theme.colors.textSecondary,
+      fontSize: theme.typography.sizes.xs,
+      marginTop: theme.spacing.sm,
+      fontStyle: 'italic',
+      lineHeight:
+        theme.typography.lineHeights.relaxed * theme.typography.sizes.xs,
+      backgroundColor: theme.colors.surfaceSecondary,
+      padding: theme.spacing.sm,
+      borderRadius: theme.borderRadius.sm,
+    },
+  });
+
+export default EnrollmentKeyEditor;
@@ -0,0 +1,166 @@
+/**
+ * KeyDetailsPanel Component
+ *
+ * Shows what the enrolled public key actually is: algorithm OID, RSA modulus
+ * size and exponent or EC curve, DER length and SHA-256 fingerprint.
+ */
+
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { PublicKeyInspection } from '../types';
+import { useTheme } from '../theme';
+import { formatFingerprint, inspectPublicKey } from '../utils/publicKeyUtils';
+import { Card } from './Card';
+
+interface KeyDetailsPanelProps {
+  publicKey?: string | null;
+  keyAlias?: string;
+}
+
+const KeyDetailsPanel: React.FC<KeyDetailsPanelProps> = ({
+  publicKey,
+  keyAlias,
+}) => {
+  const { theme } = useTheme();
+  const styles = createStyles(theme);
+
+  const { inspection, parseError } = useMemo((): {
+    inspection: PublicKeyInspection | null;
+    parseError: string | null;
+  } => {
+    if (!publicKey) {
+      return { inspection: null, parseError: null };
+    }
+    try {
+      return { inspection: inspectPublicKey(publicKey), parseError: null };
+    } catch (error) {
+      return {
+        inspection: null,
+        parseError: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }, [publicKey]);
+
+  const rows: { label: string; value: string }[] = [];
+  if (inspection) {
+    rows.push({
+      label: 'Algorithm',
+      value: `${inspection.algorithmName} (${inspection.algorithmOid})`,
+    });
+    if (inspection.algorithm === 'RSA') {
+      rows.push({ label: 'Modulus', value: `${inspection.keySize} bits` });
+      rows.push({ label: 'Exponent', value: inspection.publicExponent || '-' });
+    } else if (inspection.curve) {
+      rows.push({
+        label: 'Curve',
+        value: inspection.curveOid && inspection.curveOid !== inspection.curve
+          ? `${inspection.curve} (${inspection.curveOid})`
+          : inspection.curve,
+      });
+    }
+    rows.push({ label: 'DER Length', value: `${inspection.derLength} bytes` });
+  }
+
+  return (
+    <Card variant="elevated" padding="lg" style={styles.container}>
+      <Text style={styles.title}>Key Details</Text>
+      {keyAlias && <Text style={styles.subtitle}>Slot "{keyAlias}"</Text>}
+
+      {!publicKey && (
+        <Text style={styles.emptyText} testID="key-details-empty">
+          No public key recorded for this slot. Enroll to capture one.
+        </Text>
+      )}
+
+      {parseError && (
+        <Text style={styles.errorText} testID="key-details-error">
+          Public key could not be decoded: {parseError}
+        </Text>
+      )}
+
+      {inspection && (
+        <View style={styles.detailsList} testID="key-details">
+          {rows.map(row => (
+            <View key={row.label} style={styles.detailRow}>
+              <Text style={styles.detailLabel}>{row.label}</Text>
+              <Text style={styles.detailValue} selectable>
+                {row.value}
+              </Text>
+            </View>
+          ))}
+          <View style={styles.fingerprintContainer}>
+            <Text style={styles.detailLabel}>SHA-256 Fingerprint</Text>
+            <Text style={styles.fingerprint} selectable>
+              {formatFingerprint(inspection.fingerprint)}
+            </Text>
+          </View>
+        </View>
+      )}
+    </Card>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    marginVertical: theme.spacing.sm,
+    borderRadius: 0,
+  },
+  title: {
+    fontSize: theme.typography.sizes.xl,
+    fontWeight: theme.typography.weights.bold,
+    color: theme.colors.text,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: theme.spacing.xs,
+  },
+  emptyText: {
+    marginTop: theme.spacing.md,
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.textSecondary,
+    fontStyle: 'italic',
+    textAlign: 'center',
+  },
+  errorText: {
+    marginTop: theme.spacing.md,
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.error,
+  },
+  detailsList: {
+    marginTop: theme.spacing.md,
+    gap: theme.spacing.sm,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: theme.spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  detailLabel: {
+    fontSize: theme.typography.sizes.sm,
+    fontWeight: theme.typography.weights.medium,
+    color: theme.colors.textSecondary,
+  },
+  detailValue: {
+    flexShrink: 1,
+    marginLeft: theme.spacing.md,
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.text,
+    textAlign: 'right',
+  },
+  fingerprintContainer: {
+    marginTop: theme.spacing.xs,
+  },
+  fingerprint: {
+    marginTop: theme.spacing.xs,
+    fontFamily: 'monospace',
+    fontSize: theme.typography.sizes.xs,
+    color: theme.colors.text,
+  },
+});
+
+export default KeyDetailsPanel;
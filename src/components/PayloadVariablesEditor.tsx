@@ -0,0 +1,166 @@
+/**
+ * PayloadVariablesEditor Component
+ *
+ * Edits the variables the validate endpoint's payload template can use, with a live
+ * preview of the rendered payload.
+ */
+
+import React, { useMemo } from 'react';
+import { View, Text, TextInput, StyleSheet } from 'react-native';
+import {
+  parseTemplateVariables,
+  previewPayloadTemplate,
+} from '../utils/payloadTemplate';
+import { useTheme } from '../theme';
+
+interface PayloadVariablesEditorProps {
+  /** Payload template being previewed */
+  payload: string;
+  /** One name=value per line */
+  variables: string;
+  onChange: (variables: string) => void;
+  /** Key slot and fingerprint used by the preview */
+  keyAlias?: string;
+  publicKeyFingerprint?: string;
+  /** Variables captured from backend responses, used by the preview */
+  capturedVariables?: Record<string, string>;
+  testID: string;
+}
+
+// Helper function to parse "name=value" lines into payload template variables
+export const parsePayloadVariables = (
+  text: string,
+): Record<string, string> | undefined => {
+  const variables = parseTemplateVariables(text);
+  return Object.keys(variables).length > 0 ? variables : undefined;
+};
+
+const PayloadVariablesEditor: React.FC<PayloadVariablesEditorProps> = ({
+  payload,
+  variables,
+  onChange,
+  keyAlias,
+  publicKeyFingerprint,
+  capturedVariables,
+  testID,
+}) => {
+  const { theme } = useTheme();
+  const styles = createStyles(theme);
+
+  const preview = useMemo(
+    () =>
+      previewPayloadTemplate(payload || '{date}', {
+        keyAlias: keyAlias || 'default',
+        publicKeyFingerprint,
+        variables: parseTemplateVariables(variables),
+        capturedVariables,
+      }),
+    [payload, variables, keyAlias, publicKeyFingerprint, capturedVariables],
+  );
+
+  return (
+    <View>
+      <View
+        style={styles.previewContainer}
+        testID={`${testID}-payload-preview`}
+      >
+        <Text style={styles.previewLabel}>Preview:</Text>
+        {preview.error ? (
+          <Text
+            style={styles.previewError}
+            testID={`${testID}-payload-preview-error`}
+          >
+            {preview.error}
+          </Text>
+        ) : (
+          <Text style={styles.previewText} selectable>
+            {preview.payload}
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.group}>
+        <Text style={styles.label}>Template Variables:</Text>
+        <TextInput
+          style={styles.textInput}
+          value={variables}
+          onChangeText={onChange}
+          placeholder="userId=alice"
+          placeholderTextColor={theme.colors.textSecondary}
+          multiline={true}
+          numberOfLines={3}
+          textAlignVertical="top"
+          autoCapitalize="none"
+          autoCorrect={false}
+          testID={`${testID}-payload-variables`}
+        />
+        <Text style={styles.helperText}>
+          One name=value per line, referenced as {'{name}'} in the template.
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const createStyles = (theme: any) =>
+  StyleSheet.create({
+    group: {
+      marginBottom: theme.spacing.lg,
+    },
+    label: {
+      fontSize: theme.typography.sizes.sm,
+      fontWeight: theme.typography.weights.semibold,
+      color: theme.colors.text,
+      marginBottom: theme.spacing.sm,
+      letterSpacing: 0.5,
+    },
+    textInput: {
+      minHeight: 100,
+      borderWidth: 2,
+      borderColor: theme.colors.border,
+      borderRadius: theme.borderRadius.md,
+      paddingHorizontal: theme.spacing.md,
+      paddingTop: theme.spacing.md,
+      paddingBottom: theme.spacing.sm,
+      fontSize: theme.typography.sizes.base,
+      backgroundColor: theme.colors.surface,
+      color: theme.colors.text,
+      textAlignVertical: 'top',
+      ...theme.shadows.sm,
+    },
+    previewContainer: {
+      marginBottom: theme.spacing.lg,
+      padding: theme.spacing.sm,
+      borderRadius: theme.borderRadius.sm,
+      borderWidth: 1,
+      borderColor: theme.colors.border,
+    },
+    previewLabel: {
+      color: theme.colors.textSecondary,
+      fontSize: theme.typography.sizes.xs,
+      fontWeight: theme.typography.weights.medium,
+      marginBottom: theme.spacing.xs,
+    },
+    previewText: {
+      color: theme.colors.text,
+      fontSize: theme.typography.sizes.sm,
+      fontFamily: 'monospace',
+    },
+    previewError: {
+      color: theme.colors.error,
+      fontSize: theme.typography.sizes.sm,
+    },
+    helperText: {
+      color: theme.colors.textSecondary,
+      fontSize: theme.typography.sizes.xs,
+      marginTop: theme.spacing.sm,
+      fontStyle: 'italic',
+      lineHeight:
+        theme.typography.lineHeights.relaxed * theme.typography.sizes.xs,
+      backgroundColor: theme.colors.surfaceSecondary,
+      padding: theme.spacing.sm,
+      borderRadius: theme.borderRadius.sm,
+    },
+  });
+
+export default PayloadVariablesEditor;
@@ -0,0 +1,235 @@
+/**
+ * PromptProfilesPanel Component
+ *
+ * Edits the texts of the system biometric prompt for each operation, so
+ * wording can be tried out on the real enroll, validate, authenticate and
+ * benchmark prompts.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { PromptOperation, PromptProfile, PromptProfiles } from '../types';
+import { FALLBACK_PROMPT_OPERATIONS, MAX_PROMPT_TEXT_LENGTH, PROMPT_OPERATIONS } from '../constants';
+import { useTheme } from '../theme';
+import { isPromptProfile } from '../utils/typeGuards';
+import { Card } from './Card';
+import { Button } from './Button';
+
+interface PromptProfilesPanelProps {
+  profiles: PromptProfiles;
+  onSave: (operation: PromptOperation, profile: PromptProfile) => void | Promise<void>;
+  onReset: () => void | Promise<void>;
+  disabled?: boolean;
+}
+
+const PromptProfilesPanel: React.FC<PromptProfilesPanelProps> = ({
+  profiles,
+  onSave,
+  onReset,
+  disabled = false,
+}) => {
+  const { theme } = useTheme();
+  const styles = createStyles(theme);
+
+  const [operation, setOperation] = useState<PromptOperation>('validate');
+  const [promptMessage, setPromptMessage] = useState('');
+  const [cancelButtonText, setCancelButtonText] = useState('');
+  const [fallbackPromptMessage, setFallbackPromptMessage] = useState('');
+
+  // Start from the saved texts whenever another operation is picked or profiles are reloaded
+  useEffect(() => {
+    const profile = profiles[operation];
+    setPromptMessage(profile.promptMessage);
+    setCancelButtonText(profile.cancelButtonText);
+    setFallbackPromptMessage(profile.fallbackPromptMessage || '');
+  }, [profiles, operation]);
+
+  const showsFallback = FALLBACK_PROMPT_OPERATIONS.includes(operation);
+  const draft: PromptProfile = {
+    promptMessage,
+    cancelButtonText,
+    ...(showsFallback && fallbackPromptMessage
+      ? { fallbackPromptMessage }
+      : {}),
+  };
+  const isValid = isPromptProfile(draft);
+
+  return (
+    <Card variant="elevated" padding="lg" style={styles.container}>
+      <Text style={styles.title}>Prompt Texts</Text>
+      <Text style={styles.subtitle}>Shown by the system biometric prompt</Text>
+
+      <View style={styles.operationSelector}>
+        {PROMPT_OPERATIONS.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[
+              styles.operationButton,
+              operation === option.value && styles.operationButtonSelected,
+            ]}
+            onPress={() => setOperation(option.value)}
+            testID={`prompt-operation-${option.value}`}
+          >
+            <Text
+              style={[
+                styles.operationButtonText,
+                operation === option.value && styles.operationButtonTextSelected,
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>Prompt Message:</Text>
+        <TextInput
+          style={styles.textInput}
+          value={promptMessage}
+          onChangeText={setPromptMessage}
+          maxLength={MAX_PROMPT_TEXT_LENGTH}
+          placeholderTextColor={theme.colors.textSecondary}
+          testID="prompt-message-input"
+        />
+      </View>
+
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>Cancel Button:</Text>
+        <TextInput
+          style={styles.textInput}
+          value={cancelButtonText}
+          onChangeText={setCancelButtonText}
+          maxLength={MAX_PROMPT_TEXT_LENGTH}
+          placeholderTextColor={theme.colors.textSecondary}
+          testID="prompt-cancel-input"
+        />
+      </View>
+
+      {showsFallback ? (
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Fallback Button (iOS):</Text>
+          <TextInput
+            style={styles.textInput}
+            value={fallbackPromptMessage}
+            onChangeText={setFallbackPromptMessage}
+            maxLength={MAX_PROMPT_TEXT_LENGTH}
+            placeholder="System default"
+            placeholderTextColor={theme.colors.textSecondary}
+            testID="prompt-fallback-input"
+          />
+        </View>
+      ) : (
+        <Text style={styles.helpText} testID="prompt-fallback-unsupported">
+          Signing prompts have no fallback button; it is only shown when enrolling and authenticating.
+        </Text>
+      )}
+
+      {!isValid && (
+        <Text style={styles.errorText} testID="prompt-profile-error">
+          Prompt message and cancel button text are required.
+        </Text>
+      )}
+
+      <View style={styles.actions}>
+        <Button
+          title="Reset All"
+          variant="secondary"
+          size="sm"
+          disabled={disabled}
+          onPress={onReset}
+          testID="prompt-profiles-reset"
+        />
+        <Button
+          title="Save"
+          size="sm"
+          disabled={disabled || !isValid}
+          onPress={() => onSave(operation, draft)}
+          testID="prompt-profile-save"
+        />
+      </View>
+    </Card>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    marginVertical: theme.spacing.sm,
+    borderRadius: 0,
+  },
+  title: {
+    fontSize: theme.typography.sizes.xl,
+    fontWeight: theme.typography.weights.bold,
+    color: theme.colors.text,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: theme.spacing.xs,
+    marginBottom: theme.spacing.md,
+  },
+  operationSelector: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.md,
+  },
+  operationButton: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  operationButtonSelected: {
+    borderColor: theme.colors.primary,
+    backgroundColor: theme.colors.primary,
+  },
+  operationButtonText: {
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.text,
+  },
+  operationButtonTextSelected: {
+    color: theme.colors.surface,
+    fontWeight: theme.typography.weights.semibold,
+  },
+  inputGroup: {
+    marginBottom: theme.spacing.md,
+  },
+  label: {
+    fontSize: theme.typography.sizes.sm,
+    fontWeight: theme.typography.weights.semibold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  textInput: {
+    height: 48,
+    borderWidth: 2,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.md,
+    fontSize: theme.typography.sizes.base,
+    backgroundColor: theme.colors.surface,
+    color: theme.colors.text,
+  },
+  helpText: {
+    marginBottom: theme.spacing.md,
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.textSecondary,
+  },
+  errorText: {
+    marginBottom: theme.spacing.md,
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.error,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: theme.spacing.sm,
+  },
+});
+
+export default PromptProfilesPanel;
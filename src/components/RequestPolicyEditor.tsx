@@ -0,0 +1,267 @@
+/**
+ * RequestPolicyEditor Component
+ *
+ * Edits the timeout and retry policy of one endpoint. Empty fields fall
+ * back to the defaults, which are shown as placeholders.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { BackoffStrategy, RequestPolicy } from '../types';
+import { BACKOFF_STRATEGIES, DEFAULT_REQUEST_POLICY } from '../constants';
+import { useTheme } from '../theme';
+import { parseStatusCodes, validateRequestPolicy } from '../utils/requestPolicy';
+
+interface RequestPolicyEditorProps {
+  policy?: Partial<RequestPolicy>;
+  onChange: (policy: Partial<RequestPolicy> | undefined) => void;
+  testID: string;
+}
+
+const toText = (value?: number) => (value === undefined ? '' : String(value));
+
+const RequestPolicyEditor: React.FC<RequestPolicyEditorProps> = ({
+  policy,
+  onChange,
+  testID,
+}) => {
+  const { theme } = useTheme();
+  const styles = createStyles(theme);
+
+  const [timeoutMs, setTimeoutMs] = useState(toText(policy?.timeoutMs));
+  const [maxRetries, setMaxRetries] = useState(toText(policy?.maxRetries));
+  const [backoff, setBackoff] = useState<BackoffStrategy | undefined>(policy?.backoff);
+  const [backoffDelayMs, setBackoffDelayMs] = useState(toText(policy?.backoffDelayMs));
+  const [retryOnStatus, setRetryOnStatus] = useState((policy?.retryOnStatus || []).join(', '));
+  const [error, setError] = useState('');
+  const lastEmitted = useRef(JSON.stringify(policy));
+
+  // Pick up policies loaded or changed elsewhere, but not the ones this editor just sent
+  useEffect(() => {
+    const serialized = JSON.stringify(policy);
+    if (serialized === lastEmitted.current) {
+      return;
+    }
+    lastEmitted.current = serialized;
+    setTimeoutMs(toText(policy?.timeoutMs));
+    setMaxRetries(toText(policy?.maxRetries));
+    setBackoff(policy?.backoff);
+    setBackoffDelayMs(toText(policy?.backoffDelayMs));
+    setRetryOnStatus((policy?.retryOnStatus || []).join(', '));
+    setError('');
+  }, [policy]);
+
+  const update = (
+    changes: Partial<{
+      timeoutMs: string;
+      maxRetries: string;
+      backoff: BackoffStrategy;
+      backoffDelayMs: string;
+      retryOnStatus: string;
+    }>,
+  ) => {
+    const fields = {
+      timeoutMs,
+      maxRetries,
+      backoff,
+      backoffDelayMs,
+      retryOnStatus,
+      ...changes,
+    };
+    setTimeoutMs(fields.timeoutMs);
+    setMaxRetries(fields.maxRetries);
+    setBackoff(fields.backoff);
+    setBackoffDelayMs(fields.backoffDelayMs);
+    setRetryOnStatus(fields.retryOnStatus);
+
+    const draft: Partial<RequestPolicy> = {
+      ...(fields.timeoutMs.trim() ? { timeoutMs: Number(fields.timeoutMs) } : {}),
+      ...(fields.maxRetries.trim() ? { maxRetries: Number(fields.maxRetries) } : {}),
+      ...(fields.backoff ? { backoff: fields.backoff } : {}),
+      ...(fields.backoffDelayMs.trim()
+        ? { backoffDelayMs: Number(fields.backoffDelayMs) }
+        : {}),
+      ...(fields.retryOnStatus.trim()
+        ? { retryOnStatus: parseStatusCodes(fields.retryOnStatus) }
+        : {}),
+    };
+
+    const validation = validateRequestPolicy(draft);
+    setError(validation.errors.join(', '));
+    if (validation.isValid) {
+      const next = Object.keys(draft).length > 0 ? draft : undefined;
+      lastEmitted.current = JSON.stringify(next);
+      onChange(next);
+    }
+  };
+
+  const selectedBackoff = backoff || DEFAULT_REQUEST_POLICY.backoff;
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <Text style={styles.title}>Timeout & Retries</Text>
+
+      <View style={styles.row}>
+        <View style={styles.field}>
+          <Text style={styles.label}>Timeout (ms):</Text>
+          <TextInput
+            style={styles.textInput}
+            value={timeoutMs}
+            onChangeText={text => update({ timeoutMs: text })}
+            placeholder={String(DEFAULT_REQUEST_POLICY.timeoutMs)}
+            placeholderTextColor={theme.colors.textSecondary}
+            keyboardType="number-pad"
+            testID={`${testID}-timeout`}
+          />
+        </View>
+        <View style={styles.field}>
+          <Text style={styles.label}>Max Retries:</Text>
+          <TextInput
+            style={styles.textInput}
+            value={maxRetries}
+            onChangeText={text => update({ maxRetries: text })}
+            placeholder={String(DEFAULT_REQUEST_POLICY.maxRetries)}
+            placeholderTextColor={theme.colors.textSecondary}
+            keyboardType="number-pad"
+            testID={`${testID}-max-retries`}
+          />
+        </View>
+      </View>
+
+      <Text style={styles.label}>Backoff:</Text>
+      <View style={styles.selector}>
+        {BACKOFF_STRATEGIES.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[
+              styles.option,
+              selectedBackoff === option.value && styles.optionSelected,
+            ]}
+            onPress={() => update({ backoff: option.value })}
+            testID={`${testID}-backoff-${option.value}`}
+          >
+            <Text
+              style={[
+                styles.optionText,
+                selectedBackoff === option.value && styles.optionTextSelected,
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.row}>
+        <View style={styles.field}>
+          <Text style={styles.label}>Backoff Delay (ms):</Text>
+          <TextInput
+            style={styles.textInput}
+            value={backoffDelayMs}
+            onChangeText={text => update({ backoffDelayMs: text })}
+            placeholder={String(DEFAULT_REQUEST_POLICY.backoffDelayMs)}
+            placeholderTextColor={theme.colors.textSecondary}
+            keyboardType="number-pad"
+            testID={`${testID}-backoff-delay`}
+          />
+        </View>
+        <View style={styles.field}>
+          <Text style={styles.label}>Retry on Status:</Text>
+          <TextInput
+            style={styles.textInput}
+            value={retryOnStatus}
+            onChangeText={text => update({ retryOnStatus: text })}
+            placeholder="429, 503"
+            placeholderTextColor={theme.colors.textSecondary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            testID={`${testID}-retry-on-status`}
+          />
+        </View>
+      </View>
+
+      {error ? (
+        <Text style={styles.errorText} testID={`${testID}-error`}>
+          {error}
+        </Text>
+      ) : null}
+      <Text style={styles.helperText}>
+        Network errors and timeouts are retried; listed status codes are retried too.
+        Each retry is added to the log.
+      </Text>
+    </View>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    marginBottom: theme.spacing.md,
+  },
+  title: {
+    fontSize: theme.typography.sizes.base,
+    fontWeight: theme.typography.weights.semibold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+  field: {
+    flex: 1,
+    marginBottom: theme.spacing.sm,
+  },
+  label: {
+    fontSize: theme.typography.sizes.sm,
+    fontWeight: theme.typography.weights.semibold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.xs,
+  },
+  textInput: {
+    height: 44,
+    borderWidth: 2,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.md,
+    fontSize: theme.typography.sizes.base,
+    backgroundColor: theme.colors.surface,
+    color: theme.colors.text,
+  },
+  selector: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  option: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  optionSelected: {
+    borderColor: theme.colors.primary,
+    backgroundColor: theme.colors.primary,
+  },
+  optionText: {
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.text,
+  },
+  optionTextSelected: {
+    color: theme.colors.surface,
+    fontWeight: theme.typography.weights.semibold,
+  },
+  errorText: {
+    marginBottom: theme.spacing.sm,
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.error,
+  },
+  helperText: {
+    fontSize: theme.typography.sizes.xs,
+    color: theme.colors.textSecondary,
+  },
+});
+
+export default RequestPolicyEditor;
@@ -0,0 +1,207 @@
+/**
+ * RequestSigningEditor Component
+ *
+ * Edits the HMAC signing of one endpoint's requests. Empty fields fall back to
+ * the defaults, which are shown as placeholders; an empty secret turns signing off.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, TextInput, StyleSheet } from 'react-native';
+import { RequestSigning } from '../types';
+import { DEFAULT_REQUEST_SIGNING, REQUEST_SIGNING_PLACEHOLDERS } from '../constants';
+import { useTheme } from '../theme';
+import { validateRequestSigning } from '../utils/requestSigning';
+
+interface RequestSigningEditorProps {
+  signing?: RequestSigning;
+  onChange: (signing: RequestSigning | undefined) => void;
+  testID: string;
+}
+
+interface SigningFields {
+  secret: string;
+  canonicalTemplate: string;
+  signatureHeader: string;
+  timestampHeader: string;
+}
+
+const toFields = (signing?: RequestSigning): SigningFields => ({
+  secret: signing?.secret || '',
+  canonicalTemplate: signing?.canonicalTemplate || '',
+  signatureHeader: signing?.signatureHeader || '',
+  timestampHeader: signing?.timestampHeader || '',
+});
+
+const RequestSigningEditor: React.FC<RequestSigningEditorProps> = ({
+  signing,
+  onChange,
+  testID,
+}) => {
+  const { theme } = useTheme();
+  const styles = createStyles(theme);
+
+  const [fields, setFields] = useState<SigningFields>(toFields(signing));
+  const [error, setError] = useState('');
+  const lastEmitted = useRef(JSON.stringify(signing));
+
+  // Pick up settings loaded or changed elsewhere, but not the ones this editor just sent
+  useEffect(() => {
+    const serialized = JSON.stringify(signing);
+    if (serialized === lastEmitted.current) {
+      return;
+    }
+    lastEmitted.current = serialized;
+    setFields(toFields(signing));
+    setError('');
+  }, [signing]);
+
+  const update = (changes: Partial<SigningFields>) => {
+    const next = { ...fields, ...changes };
+    setFields(next);
+
+    const isEmpty = Object.values(next).every(value => !value.trim());
+    const draft: RequestSigning | undefined = isEmpty
+      ? undefined
+      : {
+          secret: next.secret,
+          ...(next.canonicalTemplate.trim() ? { canonicalTemplate: next.canonicalTemplate } : {}),
+          ...(next.signatureHeader.trim() ? { signatureHeader: next.signatureHeader.trim() } : {}),
+          ...(next.timestampHeader.trim() ? { timestampHeader: next.timestampHeader.trim() } : {}),
+        };
+
+    const validation = draft ? validateRequestSigning(draft) : { isValid: true, errors: [] };
+    setError(validation.errors.join(', '));
+    if (validation.isValid) {
+      lastEmitted.current = JSON.stringify(draft);
+      onChange(draft);
+    }
+  };
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <Text style={styles.title}>Request Signing</Text>
+
+      <Text style={styles.label}>HMAC-SHA256 Secret:</Text>
+      <TextInput
+        style={[styles.textInput, styles.spaced]}
+        value={fields.secret}
+        onChangeText={text => update({ secret: text })}
+        placeholder="Leave empty to send unsigned requests"
+        placeholderTextColor={theme.colors.textSecondary}
+        secureTextEntry
+        autoCapitalize="none"
+        autoCorrect={false}
+        testID={`${testID}-secret`}
+      />
+
+      <Text style={styles.label}>Canonical String:</Text>
+      <TextInput
+        style={[styles.textInput, styles.multilineInput, styles.spaced]}
+        value={fields.canonicalTemplate}
+        onChangeText={text => update({ canonicalTemplate: text })}
+        placeholder={DEFAULT_REQUEST_SIGNING.canonicalTemplate}
+        placeholderTextColor={theme.colors.textSecondary}
+        multiline
+        numberOfLines={4}
+        textAlignVertical="top"
+        autoCapitalize="none"
+        autoCorrect={false}
+        testID={`${testID}-canonical-template`}
+      />
+
+      <View style={styles.row}>
+        <View style={styles.field}>
+          <Text style={styles.label}>Signature Header:</Text>
+          <TextInput
+            style={styles.textInput}
+            value={fields.signatureHeader}
+            onChangeText={text => update({ signatureHeader: text })}
+            placeholder={DEFAULT_REQUEST_SIGNING.signatureHeader}
+            placeholderTextColor={theme.colors.textSecondary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            testID={`${testID}-signature-header`}
+          />
+        </View>
+        <View style={styles.field}>
+          <Text style={styles.label}>Timestamp Header:</Text>
+          <TextInput
+            style={styles.textInput}
+            value={fields.timestampHeader}
+            onChangeText={text => update({ timestampHeader: text })}
+            placeholder={DEFAULT_REQUEST_SIGNING.timestampHeader}
+            placeholderTextColor={theme.colors.textSecondary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            testID={`${testID}-timestamp-header`}
+          />
+        </View>
+      </View>
+
+      {error ? (
+        <Text style={styles.errorText} testID={`${testID}-error`}>
+          {error}
+        </Text>
+      ) : null}
+      <Text style={styles.helperText}>
+        The hex signature is computed before each attempt. Available:{' '}
+        {REQUEST_SIGNING_PLACEHOLDERS.map(placeholder => `{${placeholder.name}}`).join(', ')}
+      </Text>
+    </View>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    marginBottom: theme.spacing.md,
+  },
+  title: {
+    fontSize: theme.typography.sizes.base,
+    fontWeight: theme.typography.weights.semibold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+  field: {
+    flex: 1,
+    marginBottom: theme.spacing.sm,
+  },
+  spaced: {
+    marginBottom: theme.spacing.sm,
+  },
+  label: {
+    fontSize: theme.typography.sizes.sm,
+    fontWeight: theme.typography.weights.semibold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.xs,
+  },
+  textInput: {
+    height: 44,
+    borderWidth: 2,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.md,
+    fontSize: theme.typography.sizes.base,
+    backgroundColor: theme.colors.surface,
+    color: theme.colors.text,
+  },
+  multilineInput: {
+    height: 96,
+    paddingTop: theme.spacing.sm,
+    fontFamily: 'monospace',
+  },
+  errorText: {
+    marginBottom: theme.spacing.sm,
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.error,
+  },
+  helperText: {
+    fontSize: theme.typography.sizes.xs,
+    color: theme.colors.textSecondary,
+  },
+});
+
+export default RequestSigningEditor;
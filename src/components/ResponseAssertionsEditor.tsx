@@ -0,0 +1,316 @@
+/**
+ * ResponseAssertionsEditor Component
+ *
+ * Lists the response assertions of one endpoint and adds new ones. The call
+ * only succeeds when every assertion passes.
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { ResponseAssertion, ResponseAssertionType } from '../types';
+import { RESPONSE_ASSERTION_TYPES } from '../constants';
+import { useTheme } from '../theme';
+import { describeAssertion, getAssertionError } from '../utils/responseAssertions';
+import { parseStatusCodes } from '../utils/requestPolicy';
+
+interface ResponseAssertionsEditorProps {
+  assertions?: ResponseAssertion[];
+  onChange: (assertions: ResponseAssertion[] | undefined) => void;
+  testID: string;
+}
+
+const TARGET_FIELDS: Record<ResponseAssertionType, { label: string; placeholder: string }> = {
+  status: { label: 'Status Codes:', placeholder: '200, 201' },
+  jsonPathEquals: { label: 'JSON Path:', placeholder: '$.valid' },
+  jsonPathExists: { label: 'JSON Path:', placeholder: '$.token' },
+  jsonPathMatches: { label: 'JSON Path:', placeholder: '$.id' },
+  headerPresent: { label: 'Header:', placeholder: 'x-request-id' },
+  maxLatency: { label: 'Max Latency (ms):', placeholder: '500' },
+};
+
+const VALUE_FIELDS: Partial<Record<ResponseAssertionType, { label: string; placeholder: string }>> = {
+  jsonPathEquals: { label: 'Expected Value (JSON):', placeholder: 'true' },
+  jsonPathMatches: { label: 'Pattern:', placeholder: '^[a-f0-9-]+$' },
+};
+
+// Expected values are read as JSON so true, 1 and null keep their type; anything else is a string
+const parseExpectedValue = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const buildAssertion = (
+  type: ResponseAssertionType,
+  target: string,
+  value: string,
+): ResponseAssertion => {
+  const trimmed = target.trim();
+  switch (type) {
+    case 'status':
+      return { type, statusCodes: parseStatusCodes(trimmed) };
+    case 'jsonPathEquals':
+      return { type, path: trimmed, value: value.trim() ? parseExpectedValue(value.trim()) : undefined };
+    case 'jsonPathExists':
+      return { type, path: trimmed };
+    case 'jsonPathMatches':
+      return { type, path: trimmed, pattern: value };
+    case 'headerPresent':
+      return { type, header: trimmed };
+    case 'maxLatency':
+      return { type, maxMs: /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) : NaN };
+  }
+};
+
+const ResponseAssertionsEditor: React.FC<ResponseAssertionsEditorProps> = ({
+  assertions = [],
+  onChange,
+  testID,
+}) => {
+  const { theme } = useTheme();
+  const styles = createStyles(theme);
+
+  const [type, setType] = useState<ResponseAssertionType>('status');
+  const [target, setTarget] = useState('');
+  const [value, setValue] = useState('');
+  const [error, setError] = useState('');
+
+  const selectType = (nextType: ResponseAssertionType) => {
+    setType(nextType);
+    setValue('');
+    setError('');
+  };
+
+  const handleAdd = () => {
+    const assertion = buildAssertion(type, target, value);
+    const assertionError = getAssertionError(assertion);
+    setError(assertionError || '');
+    if (assertionError) {
+      return;
+    }
+
+    onChange([...assertions, assertion]);
+    setTarget('');
+    setValue('');
+  };
+
+  const handleRemove = (index: number) => {
+    const remaining = assertions.filter((_, itemIndex) => itemIndex !== index);
+    onChange(remaining.length > 0 ? remaining : undefined);
+  };
+
+  const targetField = TARGET_FIELDS[type];
+  const valueField = VALUE_FIELDS[type];
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <Text style={styles.title}>Response Assertions</Text>
+
+      {assertions.map((assertion, index) => (
+        <View key={`${assertion.type}-${index}`} style={styles.item}>
+          <Text style={styles.itemText} testID={`${testID}-item-${index}`}>
+            {describeAssertion(assertion)}
+          </Text>
+          <TouchableOpacity
+            style={styles.removeButton}
+            onPress={() => handleRemove(index)}
+            testID={`${testID}-remove-${index}`}
+          >
+            <Text style={styles.removeButtonText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+      {assertions.length === 0 && (
+        <Text style={styles.emptyText}>No assertions, any 2xx response succeeds</Text>
+      )}
+
+      <Text style={styles.label}>Add Assertion:</Text>
+      <View style={styles.selector}>
+        {RESPONSE_ASSERTION_TYPES.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.option, type === option.value && styles.optionSelected]}
+            onPress={() => selectType(option.value)}
+            testID={`${testID}-type-${option.value}`}
+          >
+            <Text
+              style={[
+                styles.optionText,
+                type === option.value && styles.optionTextSelected,
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.row}>
+        <View style={styles.field}>
+          <Text style={styles.label}>{targetField.label}</Text>
+          <TextInput
+            style={styles.textInput}
+            value={target}
+            onChangeText={setTarget}
+            placeholder={targetField.placeholder}
+            placeholderTextColor={theme.colors.textSecondary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            testID={`${testID}-target`}
+          />
+        </View>
+        {valueField && (
+          <View style={styles.field}>
+            <Text style={styles.label}>{valueField.label}</Text>
+            <TextInput
+              style={styles.textInput}
+              value={value}
+              onChangeText={setValue}
+              placeholder={valueField.placeholder}
+              placeholderTextColor={theme.colors.textSecondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+              testID={`${testID}-value`}
+            />
+          </View>
+        )}
+      </View>
+
+      <TouchableOpacity
+        style={styles.addButton}
+        onPress={handleAdd}
+        testID={`${testID}-add`}
+      >
+        <Text style={styles.addButtonText}>+ Add Assertion</Text>
+      </TouchableOpacity>
+
+      {error ? (
+        <Text style={styles.errorText} testID={`${testID}-error`}>
+          {error}
+        </Text>
+      ) : null}
+      <Text style={styles.helperText}>
+        An expected status replaces the default 2xx check. Every assertion has to pass
+        for the call to succeed.
+      </Text>
+    </View>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    marginBottom: theme.spacing.md,
+  },
+  title: {
+    fontSize: theme.typography.sizes.base,
+    fontWeight: theme.typography.weights.semibold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  itemText: {
+    flex: 1,
+    fontSize: theme.typography.sizes.sm,
+    fontFamily: 'monospace',
+    color: theme.colors.text,
+  },
+  removeButton: {
+    paddingHorizontal: theme.spacing.sm,
+  },
+  removeButtonText: {
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.error,
+  },
+  emptyText: {
+    fontSize: theme.typography.sizes.sm,
+    fontStyle: 'italic',
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+  },
+  field: {
+    flex: 1,
+    marginBottom: theme.spacing.sm,
+  },
+  label: {
+    fontSize: theme.typography.sizes.sm,
+    fontWeight: theme.typography.weights.semibold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.xs,
+  },
+  textInput: {
+    height: 44,
+    borderWidth: 2,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.md,
+    fontSize: theme.typography.sizes.base,
+    backgroundColor: theme.colors.surface,
+    color: theme.colors.text,
+  },
+  selector: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  option: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  optionSelected: {
+    borderColor: theme.colors.primary,
+    backgroundColor: theme.colors.primary,
+  },
+  optionText: {
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.text,
+  },
+  optionTextSelected: {
+    color: theme.colors.surface,
+    fontWeight: theme.typography.weights.semibold,
+  },
+  addButton: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.primary,
+    marginBottom: theme.spacing.sm,
+  },
+  addButtonText: {
+    fontSize: theme.typography.sizes.sm,
+    fontWeight: theme.typography.weights.semibold,
+    color: theme.colors.surface,
+  },
+  errorText: {
+    marginBottom: theme.spacing.sm,
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.error,
+  },
+  helperText: {
+    fontSize: theme.typography.sizes.xs,
+    color: theme.colors.textSecondary,
+  },
+});
+
+export default ResponseAssertionsEditor;
@@ -1,4 +1,4 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -6,9 +6,22 @@ import {
   StyleSheet,
   ActivityIndicator,
   Animated,
+  TouchableOpacity,
+  Alert,
+  Share,
 } from 'react-native';
-import { LogEntry, OperationResult } from '../types';
+import {
+  AssertionResult,
+  BiometricError,
+  HttpExchange,
+  LogEntry,
+  OperationResult,
+} from '../types';
 import { useTheme } from '../theme';
+import { getBiometricError } from '../utils/biometricErrors';
+import { getAssertionResults } from '../utils/responseAssertions';
+import { describeHttpExchange, getHttpExchanges } from '../utils/httpExchange';
+import { toCurlCommand } from '../utils/curlCommand';
 
 export interface StatusLogProps {
   logs: LogEntry[];
@@ -27,6 +40,7 @@ const StatusLog: React.FC<StatusLogProps> = ({
   const scaleAnims = useRef<Map<string, Animated.Value>>(new Map());
   const previousLogsLength = useRef(logs.length);
   const timeoutRefs = useRef<Set<number>>(new Set());
+  const [expandedExchanges, setExpandedExchanges] = useState<Set<string>>(new Set());
 
   const formatTimestamp = (timestamp: Date): string => {
     return (
@@ -177,7 +191,129 @@ const StatusLog: React.FC<StatusLogProps> = ({
     };
   }, []);
 
+  const renderRemediation = (biometricError?: BiometricError) => {
+    if (!biometricError) return null;
+
+    return (
+      <Text
+        style={[styles.remediation, { color: theme.colors.warning }]}
+        testID={`remediation-${biometricError.code}`}
+      >
+        {biometricError.code}: {biometricError.remediation}
+      </Text>
+    );
+  };
+
+  const renderAssertions = (entryId: string, results: AssertionResult[]) => (
+    <View style={styles.assertions}>
+      {results.map((result, index) => (
+        <Text
+          key={`${entryId}-assertion-${index}`}
+          style={[
+            styles.assertion,
+            { color: result.passed ? theme.colors.success : theme.colors.error },
+          ]}
+          testID={`assertion-${entryId}-${index}`}
+        >
+          {getStatusIcon(result.passed ? 'success' : 'error')} {result.message}
+        </Text>
+      ))}
+    </View>
+  );
+
+  const toggleExchange = (key: string) => {
+    setExpandedExchanges(previous => {
+      const next = new Set(previous);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const formatExchangeDetails = (exchange: HttpExchange): string => {
+    const formatHeaders = (headers: Record<string, string>) =>
+      Object.entries(headers)
+        .map(([name, value]) => `${name}: ${value}`)
+        .join('\n');
+    const sections = [
+      `${exchange.request.method} ${exchange.request.url}`,
+      formatHeaders(exchange.request.headers),
+      exchange.request.body,
+      exchange.response
+        ? `HTTP ${exchange.response.status} ${exchange.response.statusText}`.trim()
+        : exchange.error,
+      exchange.response && formatHeaders(exchange.response.headers),
+      exchange.response?.body,
+      exchange.timings.dnsMs !== undefined
+        ? `DNS ${exchange.timings.dnsMs} ms, total ${exchange.timings.totalMs} ms`
+        : `Total ${exchange.timings.totalMs} ms`,
+    ];
+    return sections.filter(section => section).join('\n\n');
+  };
+
+  const shareAsCurl = async (exchange: HttpExchange) => {
+    try {
+      await Share.share({ message: toCurlCommand(exchange.request), title: 'cURL command' });
+    } catch (error) {
+      Alert.alert('Share Failed', 'Failed to share the cURL command');
+    }
+  };
+
+  const renderExchanges = (entryId: string, exchanges: HttpExchange[]) => (
+    <View style={styles.exchanges}>
+      {exchanges.map((exchange, index) => {
+        const key = `${entryId}-exchange-${index}`;
+        const isExpanded = expandedExchanges.has(key);
+        return (
+          <View key={key}>
+            <TouchableOpacity
+              onPress={() => toggleExchange(key)}
+              accessibilityRole="button"
+              accessibilityState={{ expanded: isExpanded }}
+              testID={`exchange-${entryId}-${index}`}
+            >
+              <Text style={[styles.exchangeSummary, { color: theme.colors.info }]}>
+                {isExpanded ? '▾' : '▸'} {describeHttpExchange(exchange)}
+              </Text>
+            </TouchableOpacity>
+            {isExpanded && (
+              <Text
+                style={[
+                  styles.details,
+                  {
+                    color: theme.colors.textSecondary,
+                    backgroundColor: theme.colors.surfaceSecondary,
+                    borderColor: theme.colors.border,
+                  },
+                ]}
+                testID={`exchange-${entryId}-${index}-details`}
+              >
+                {formatExchangeDetails(exchange)}
+              </Text>
+            )}
+            {isExpanded && (
+              <TouchableOpacity
+                onPress={() => shareAsCurl(exchange)}
+                accessibilityRole="button"
+                testID={`exchange-${entryId}-${index}-curl`}
+              >
+                <Text style={[styles.exchangeAction, { color: theme.colors.primary }]}>
+                  Copy as cURL
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+
   const renderLogEntry = (entry: LogEntry) => {
+    const assertionResults = getAssertionResults(entry.details);
+    const exchanges = getHttpExchanges(entry.details);
     const fadeAnim = fadeAnims.current.get(entry.id) || new Animated.Value(1);
     const scaleAnim = scaleAnims.current.get(entry.id) || new Animated.Value(1);
 
@@ -221,9 +357,12 @@ const StatusLog: React.FC<StatusLogProps> = ({
             <Text style={[styles.message, { color: theme.colors.text }]}>
               {entry.message}
             </Text>
+            {renderRemediation(getBiometricError(entry.details))}
+            {assertionResults && renderAssertions(entry.id, assertionResults)}
+            {exchanges && renderExchanges(entry.id, exchanges)}
           </View>
         </View>
-        {entry.details && (
+        {entry.details && !assertionResults && !exchanges && (
           <Text
             style={[
               styles.details,
@@ -289,6 +428,7 @@ const StatusLog: React.FC<StatusLogProps> = ({
             >
               {currentOperation.message}
             </Text>
+            {renderRemediation(currentOperation.error)}
             {currentOperation.data && (
               <Text
                 style={[
@@ -473,6 +613,30 @@ const styles = StyleSheet.create({
     lineHeight: 22,
     fontWeight: '500',
   },
+  remediation: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginTop: 4,
+  },
+  assertions: {
+    marginTop: 8,
+  },
+  assertion: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  exchanges: {
+    marginTop: 8,
+  },
+  exchangeSummary: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  exchangeAction: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 8,
+  },
   details: {
     fontSize: 12,
     marginTop: 12,
@@ -0,0 +1,214 @@
+/**
+ * VariablesPanel Component
+ *
+ * Shows the variables captured from backend responses and lets them be
+ * edited or removed before they are substituted into the next request.
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTheme } from '../theme';
+import { isValidVariableName } from '../utils/capturedVariables';
+import { Card } from './Card';
+import { Button } from './Button';
+
+interface VariablesPanelProps {
+  variables: Record<string, string>;
+  onSave: (name: string, value: string) => void | Promise<void>;
+  onRemove: (name: string) => void | Promise<void>;
+  onClear: () => void | Promise<void>;
+  disabled?: boolean;
+}
+
+const VariablesPanel: React.FC<VariablesPanelProps> = ({
+  variables,
+  onSave,
+  onRemove,
+  onClear,
+  disabled = false,
+}) => {
+  const { theme } = useTheme();
+  const styles = createStyles(theme);
+
+  const [name, setName] = useState('');
+  const [value, setValue] = useState('');
+
+  const entries = Object.entries(variables);
+  const trimmedName = name.trim();
+  const isValid = isValidVariableName(trimmedName);
+
+  const handleSave = async () => {
+    await onSave(trimmedName, value);
+    setName('');
+    setValue('');
+  };
+
+  return (
+    <Card variant="elevated" padding="lg" style={styles.container}>
+      <Text style={styles.title}>Captured Variables</Text>
+      <Text style={styles.subtitle}>Used as {'{{name}}'} in later requests</Text>
+
+      {entries.map(([variableName, variableValue]) => (
+        <View key={variableName} style={styles.item}>
+          <Text
+            style={styles.itemText}
+            numberOfLines={2}
+            onPress={() => {
+              setName(variableName);
+              setValue(variableValue);
+            }}
+            testID={`variable-${variableName}`}
+          >
+            {variableName} = {variableValue}
+          </Text>
+          <TouchableOpacity
+            style={styles.removeButton}
+            disabled={disabled}
+            onPress={() => onRemove(variableName)}
+            testID={`variable-remove-${variableName}`}
+          >
+            <Text style={styles.removeButtonText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+      {entries.length === 0 && (
+        <Text style={styles.emptyText}>
+          No variables yet. Add capture rules to an endpoint to collect them.
+        </Text>
+      )}
+
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>Name:</Text>
+        <TextInput
+          style={styles.textInput}
+          value={name}
+          onChangeText={setName}
+          placeholder="sessionId"
+          placeholderTextColor={theme.colors.textSecondary}
+          autoCapitalize="none"
+          autoCorrect={false}
+          testID="variable-name-input"
+        />
+      </View>
+
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>Value:</Text>
+        <TextInput
+          style={styles.textInput}
+          value={value}
+          onChangeText={setValue}
+          placeholderTextColor={theme.colors.textSecondary}
+          autoCapitalize="none"
+          autoCorrect={false}
+          testID="variable-value-input"
+        />
+      </View>
+
+      {trimmedName && !isValid ? (
+        <Text style={styles.errorText} testID="variable-name-error">
+          Names start with a letter or underscore and contain only letters, digits and underscores.
+        </Text>
+      ) : null}
+
+      <View style={styles.actions}>
+        <Button
+          title="Clear All"
+          variant="secondary"
+          size="sm"
+          disabled={disabled || entries.length === 0}
+          onPress={onClear}
+          testID="variables-clear"
+        />
+        <Button
+          title="Save"
+          size="sm"
+          disabled={disabled || !isValid}
+          onPress={handleSave}
+          testID="variable-save"
+        />
+      </View>
+    </Card>
+  );
+};
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    marginVertical: theme.spacing.sm,
+    borderRadius: 0,
+  },
+  title: {
+    fontSize: theme.typography.sizes.xl,
+    fontWeight: theme.typography.weights.bold,
+    color: theme.colors.text,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: theme.spacing.xs,
+    marginBottom: theme.spacing.md,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  itemText: {
+    flex: 1,
+    fontSize: theme.typography.sizes.sm,
+    fontFamily: 'monospace',
+    color: theme.colors.text,
+  },
+  removeButton: {
+    paddingHorizontal: theme.spacing.sm,
+  },
+  removeButtonText: {
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.error,
+  },
+  emptyText: {
+    fontSize: theme.typography.sizes.sm,
+    fontStyle: 'italic',
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  inputGroup: {
+    marginBottom: theme.spacing.md,
+  },
+  label: {
+    fontSize: theme.typography.sizes.sm,
+    fontWeight: theme.typography.weights.semibold,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.sm,
+  },
+  textInput: {
+    height: 48,
+    borderWidth: 2,
+    borderColor: theme.colors.border,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.md,
+    fontSize: theme.typography.sizes.base,
+    backgroundColor: theme.colors.surface,
+    color: theme.colors.text,
+  },
+  errorText: {
+    marginBottom: theme.spacing.md,
+    fontSize: theme.typography.sizes.sm,
+    color: theme.colors.error,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: theme.spacing.sm,
+  },
+});
+
+export default VariablesPanel;
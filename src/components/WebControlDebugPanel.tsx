@@ -1,6 +1,7 @@
 /**
  * WebControlDebugPanel - Debug panel for web control operations
- * Shows logs, performance metrics, and system status for development
+ * Shows logs, performance metrics, and system status for development,
+ * and scripts faults for the simulated biometric provider
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
@@ -17,7 +18,13 @@ import {
 import { useTheme } from '../theme';
 import { webControlLogger } from '../utils/WebControlLogger';
 import { webControlStateManager } from '../services/WebControlStateManager';
+import { simulatedFaultProfile } from '../services/SimulatedFaultProfile';
+import { SIMULATED_FAULTS, SIMULATED_OPERATIONS } from '../constants/biometrics';
 import type { WebControlLogEntry } from '../utils/WebControlLogger';
+import type { SimulatedFault } from '../types';
+
+// Number of upcoming calls a new fault rule affects; undefined keeps it until cleared
+const FAULT_COUNTS: (number | undefined)[] = [1, 2, 3, undefined];
 
 interface WebControlDebugPanelProps {
   visible: boolean;
@@ -33,6 +40,10 @@ export const WebControlDebugPanel: React.FC<WebControlDebugPanelProps> = ({
   const [selectedComponent, setSelectedComponent] = useState<string>('all');
   const [performanceMetrics, setPerformanceMetrics] = useState<any>(null);
   const [refreshKey, setRefreshKey] = useState(0);
+  const [faults, setFaults] = useState<SimulatedFault[]>(() => simulatedFaultProfile.getFaults());
+  const [faultOperation, setFaultOperation] = useState<SimulatedFault['operation']>('createSignature');
+  const [faultType, setFaultType] = useState<SimulatedFault['fault']>('userCancel');
+  const [faultCount, setFaultCount] = useState<number | undefined>(1);
 
   // Load logs and metrics
   const refreshData = useCallback(() => {
@@ -66,6 +77,52 @@ export const WebControlDebugPanel: React.FC<WebControlDebugPanelProps> = ({
     return removeListener;
   }, [visible, refreshData]);
 
+  // Track simulated provider fault rules as they are added, consumed or cleared
+  useEffect(() => {
+    if (!visible) return;
+
+    setFaults(simulatedFaultProfile.getFaults());
+    return simulatedFaultProfile.addListener(setFaults);
+  }, [visible]);
+
+  const handleAddFault = () => {
+    simulatedFaultProfile.addFault({
+      operation: faultOperation,
+      fault: faultType,
+      remaining: faultCount,
+    });
+  };
+
+  const renderFaultOptions = <T extends string>(
+    options: { value: T; label: string }[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.faultRow}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.value}
+          style={[styles.filterButton, selected === option.value && styles.filterButtonActive]}
+          onPress={() => onSelect(option.value)}
+        >
+          <Text
+            style={[styles.filterButtonText, selected === option.value && styles.filterButtonTextActive]}
+          >
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+
+  const describeFault = (fault: SimulatedFault) => {
+    const operation = SIMULATED_OPERATIONS.find(option => option.value === fault.operation)?.label;
+    const type = SIMULATED_FAULTS.find(option => option.value === fault.fault)?.label;
+    const count = fault.remaining === undefined ? 'every call' : `next ${fault.remaining}`;
+    const delay = fault.delayMs !== undefined ? ` (${fault.delayMs}ms)` : '';
+    return `${operation}: ${type}${delay}, ${count}`;
+  };
+
   const handleExportLogs = async () => {
     try {
       const exportData = webControlLogger.exportLogs();
@@ -168,6 +225,46 @@ export const WebControlDebugPanel: React.FC<WebControlDebugPanelProps> = ({
           </TouchableOpacity>
         </View>
 
+        <View style={styles.faultsContainer}>
+          <Text style={styles.metricsTitle}>Simulated Faults</Text>
+          <Text style={styles.faultsHint}>
+            Applies when the simulated biometric provider is active. Prompt faults also hit the prompt
+            shown before enrollment creates keys.
+          </Text>
+          {renderFaultOptions(SIMULATED_OPERATIONS, faultOperation, setFaultOperation)}
+          {renderFaultOptions(SIMULATED_FAULTS, faultType, setFaultType)}
+          <View style={styles.faultRow}>
+            {FAULT_COUNTS.map(count => (
+              <TouchableOpacity
+                key={String(count)}
+                style={[styles.filterButton, faultCount === count && styles.filterButtonActive]}
+                onPress={() => setFaultCount(count)}
+              >
+                <Text
+                  style={[styles.filterButtonText, faultCount === count && styles.filterButtonTextActive]}
+                >
+                  {count === undefined ? 'Always' : `x${count}`}
+                </Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity onPress={handleAddFault} style={styles.actionButton}>
+              <Text style={styles.actionButtonText}>Add</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => simulatedFaultProfile.clearFaults()}
+              style={styles.actionButton}
+              disabled={faults.length === 0}
+            >
+              <Text style={styles.actionButtonText}>Clear</Text>
+            </TouchableOpacity>
+          </View>
+          {faults.map((fault, index) => (
+            <Text key={`${fault.operation}-${fault.fault}-${index}`} style={styles.faultEntry}>
+              {index + 1}. {describeFault(fault)}
+            </Text>
+          ))}
+        </View>
+
         {performanceMetrics && (
           <View style={styles.metricsContainer}>
             <Text style={styles.metricsTitle}>Performance Metrics</Text>
@@ -311,6 +408,28 @@ const createStyles = (theme: any) =>
       fontSize: theme.typography.sizes.sm,
       color: theme.colors.text,
     },
+    faultsContainer: {
+      padding: theme.spacing.md,
+      backgroundColor: theme.colors.surface,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.colors.border,
+    },
+    faultsHint: {
+      fontSize: theme.typography.sizes.xs,
+      color: theme.colors.text,
+      opacity: 0.6,
+      marginBottom: theme.spacing.sm,
+    },
+    faultRow: {
+      flexDirection: 'row',
+      marginBottom: theme.spacing.sm,
+    },
+    faultEntry: {
+      fontSize: theme.typography.sizes.sm,
+      color: theme.colors.text,
+      fontFamily: 'monospace',
+      marginTop: theme.spacing.xs,
+    },
     metricsContainer: {
       padding: theme.spacing.md,
       backgroundColor: theme.colors.surface,
@@ -0,0 +1,74 @@
+/**
+ * AuthenticateButton Component Tests
+ *
+ * Tests for the AuthenticateButton component including availability
+ * handling, loading state and button interactions.
+ */
+
+import React from 'react';
+import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import AuthenticateButton from '../AuthenticateButton';
+import { ThemeProvider } from '../../theme';
+
+// Mock AsyncStorage
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(() => Promise.resolve(null)),
+  setItem: jest.fn(() => Promise.resolve()),
+}));
+
+// Helper to render AuthenticateButton with ThemeProvider
+const renderWithTheme = (props = {}) => {
+  return render(
+    <ThemeProvider>
+      <AuthenticateButton {...defaultProps} {...props} />
+    </ThemeProvider>
+  );
+};
+
+const mockOnPress = jest.fn();
+
+const defaultProps = {
+  onPress: mockOnPress,
+  disabled: false,
+  biometricAvailable: true,
+};
+
+describe('AuthenticateButton', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockOnPress.mockResolvedValue(undefined);
+  });
+
+  it('renders the authenticate-only action', async () => {
+    const { findByTestId, getByText } = renderWithTheme();
+
+    expect(await findByTestId('authenticate-button')).toBeTruthy();
+    expect(getByText('Authenticate Only')).toBeTruthy();
+  });
+
+  it('explains why it is disabled when biometrics are not available', async () => {
+    const { getByTestId, findByText, getByText } = renderWithTheme({ biometricAvailable: false });
+
+    expect(await findByText('Biometrics Not Available')).toBeTruthy();
+    expect(getByText('Biometric authentication is not available on this device')).toBeTruthy();
+    expect(getByTestId('authenticate-button').props.accessibilityState?.disabled).toBe(true);
+  });
+
+  it('calls onPress when pressed', async () => {
+    const { findByTestId } = renderWithTheme();
+
+    fireEvent.press(await findByTestId('authenticate-button'));
+
+    await waitFor(() => {
+      expect(mockOnPress).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('does not call onPress when disabled', async () => {
+    const { findByTestId } = renderWithTheme({ disabled: true });
+
+    fireEvent.press(await findByTestId('authenticate-button'));
+
+    expect(mockOnPress).not.toHaveBeenCalled();
+  });
+});
@@ -90,6 +90,25 @@ jest.mock('../ValidateButton', () => {
   return MockValidateButton;
 });
 
+jest.mock('../AuthenticateButton', () => {
+  const MockAuthenticateButton = ({ onPress, disabled, biometricAvailable }: any) => {
+    const { TouchableOpacity, Text } = require('react-native');
+    return (
+      <TouchableOpacity
+        testID="mock-authenticate-button"
+        onPress={onPress}
+        disabled={disabled}
+        accessibilityState={{ disabled }}
+      >
+        <Text>
+          Authenticate {disabled ? 'Disabled' : 'Enabled'} {biometricAvailable ? 'Available' : 'Unavailable'}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+  return MockAuthenticateButton;
+});
+
 jest.mock('../DeleteKeysButton', () => {
   const MockDeleteKeysButton = ({ onPress, disabled, keysExist }: any) => {
     const React = require('react');
@@ -113,11 +132,13 @@ jest.mock('../DeleteKeysButton', () => {
 describe('BiometricActions', () => {
   const mockOnEnroll = jest.fn();
   const mockOnValidate = jest.fn();
+  const mockOnAuthenticate = jest.fn();
   const mockOnDeleteKeys = jest.fn();
 
   const defaultProps = {
     onEnroll: mockOnEnroll,
     onValidate: mockOnValidate,
+    onAuthenticate: mockOnAuthenticate,
     onDeleteKeys: mockOnDeleteKeys,
     disabled: false,
     keysExist: false,
@@ -130,11 +151,12 @@ describe('BiometricActions', () => {
   });
 
   describe('Component Rendering', () => {
-    it('renders all three action buttons', () => {
+    it('renders all four action buttons', () => {
       const { getByTestId } = render(<BiometricActions {...defaultProps} />);
 
       expect(getByTestId('mock-enroll-button')).toBeTruthy();
       expect(getByTestId('mock-validate-button')).toBeTruthy();
+      expect(getByTestId('mock-authenticate-button')).toBeTruthy();
       expect(getByTestId('mock-delete-button')).toBeTruthy();
     });
 
@@ -166,6 +188,21 @@ describe('BiometricActions', () => {
       expect(validateButton).toHaveTextContent('Validate Disabled Keys:Yes Endpoints:No');
     });
 
+    it('passes correct props to AuthenticateButton', () => {
+      const { getByTestId } = render(
+        <BiometricActions
+          {...defaultProps}
+          keysExist={false}
+          endpointsConfigured={false}
+        />
+      );
+
+      // Authenticate-only checks need neither keys nor endpoints
+      const authenticateButton = getByTestId('mock-authenticate-button');
+      expect(authenticateButton.props.accessibilityState.disabled).toBe(false);
+      expect(authenticateButton).toHaveTextContent('Authenticate Enabled Available');
+    });
+
     it('passes correct props to DeleteKeysButton', () => {
       const { getByTestId } = render(
         <BiometricActions
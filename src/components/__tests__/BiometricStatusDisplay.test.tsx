@@ -4,7 +4,7 @@
  */
 
 import React from 'react';
-import { render } from '@testing-library/react-native';
+import { fireEvent, render } from '@testing-library/react-native';
 import BiometricStatusDisplay from '../BiometricStatusDisplay';
 import { BiometryType } from '../../types';
 import { ThemeContextProvider, ThemeContextType } from '../../theme/ThemeContext';
@@ -318,6 +318,51 @@ describe('BiometricStatusDisplay', () => {
     });
   });
 
+  describe('Biometric Provider', () => {
+    it('marks the active provider and selects another one', () => {
+      const onSelectProvider = jest.fn();
+      const { getByText, getByTestId } = renderWithTheme(
+        <BiometricStatusDisplay
+          available={true}
+          biometryType="Biometrics"
+          keysExist={false}
+          biometricProvider="native"
+          onSelectProvider={onSelectProvider}
+        />
+      );
+
+      expect(getByText('Biometric Provider')).toBeTruthy();
+      expect(getByText('Active')).toBeTruthy();
+
+      fireEvent.press(getByTestId('biometric-provider-simulated'));
+      expect(onSelectProvider).toHaveBeenCalledWith('simulated');
+    });
+  });
+
+  describe('Key Slots', () => {
+    it('only offers the default slot when the provider cannot hold more', () => {
+      const { queryByText, queryByLabelText, getByTestId } = renderWithTheme(
+        <BiometricStatusDisplay
+          available={true}
+          biometryType="Biometrics"
+          keysExist={true}
+          keySlots={[
+            { alias: 'default', keysExist: true },
+            { alias: 'work', keysExist: false },
+          ]}
+          activeKeyAlias="default"
+          onSelectKeySlot={jest.fn()}
+          keySlotsSupported={false}
+        />
+      );
+
+      expect(queryByText('default')).toBeTruthy();
+      expect(queryByText('work')).toBeNull();
+      expect(queryByLabelText('Add key slot')).toBeNull();
+      expect(getByTestId('key-slots-unsupported')).toBeTruthy();
+    });
+  });
+
   describe('Edge Cases', () => {
     it('handles empty error message', () => {
       const { queryByText } = renderWithTheme(
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for BodyTemplateEditor component
+ */
+
+import React from 'react';
+import { Animated } from 'react-native';
+import { fireEvent, render } from '@testing-library/react-native';
+import BodyTemplateEditor, { getBodyTemplateError } from '../BodyTemplateEditor';
+import { ThemeContextProvider, ThemeContextType } from '../../theme/ThemeContext';
+import { lightTheme } from '../../theme/theme';
+
+const mockThemeContext: ThemeContextType = {
+  theme: lightTheme,
+  isDark: false,
+  themeMode: 'light',
+  toggleTheme: jest.fn(),
+  setTheme: jest.fn(),
+  themeTransition: new Animated.Value(0),
+  isTransitioning: false,
+};
+
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(
+    <ThemeContextProvider value={mockThemeContext}>
+      {component}
+    </ThemeContextProvider>
+  );
+};
+
+describe('BodyTemplateEditor', () => {
+  const mockOnChange = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('passes every edit on and shows the error it is given', () => {
+    const { getByTestId, queryByTestId, rerender } = renderWithTheme(
+      <BodyTemplateEditor template="" type="enroll" error="" onChange={mockOnChange} testID="body" />
+    );
+
+    expect(queryByTestId('body-error')).toBeNull();
+    fireEvent.changeText(getByTestId('body'), '{"key": "{{signature}}"}');
+    expect(mockOnChange).toHaveBeenCalledWith('{"key": "{{signature}}"}');
+
+    rerender(
+      <ThemeContextProvider value={mockThemeContext}>
+        <BodyTemplateEditor
+          template={'{"key": "{{signature}}"}'}
+          type="enroll"
+          error="Unknown placeholder"
+          onChange={mockOnChange}
+          testID="body"
+        />
+      </ThemeContextProvider>
+    );
+    expect(getByTestId('body-error').props.children).toBe('Unknown placeholder');
+  });
+
+  it('only reports problems with a template that is set', () => {
+    expect(getBodyTemplateError('  ', 'validate')).toBe('');
+    expect(getBodyTemplateError('{"sig": "{{signature}}"}', 'validate')).toBe('');
+    expect(getBodyTemplateError('{"key": "{{signature}}"}', 'enroll')).toMatch(/Unknown placeholder \{\{signature\}\}/);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Unit tests for CaptureRulesEditor component
+ */
+
+import React from 'react';
+import { Animated } from 'react-native';
+import { fireEvent, render } from '@testing-library/react-native';
+import CaptureRulesEditor from '../CaptureRulesEditor';
+import { ThemeContextProvider, ThemeContextType } from '../../theme/ThemeContext';
+import { lightTheme } from '../../theme/theme';
+
+const mockThemeContext: ThemeContextType = {
+  theme: lightTheme,
+  isDark: false,
+  themeMode: 'light',
+  toggleTheme: jest.fn(),
+  setTheme: jest.fn(),
+  themeTransition: new Animated.Value(0),
+  isTransitioning: false,
+};
+
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(
+    <ThemeContextProvider value={mockThemeContext}>
+      {component}
+    </ThemeContextProvider>
+  );
+};
+
+describe('CaptureRulesEditor', () => {
+  const mockOnChange = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('lists the saved capture rules and removes them', () => {
+    const { getByTestId } = renderWithTheme(
+      <CaptureRulesEditor
+        captures={[
+          { variable: 'sessionId', source: 'jsonPath', path: '$.session.id' },
+          { variable: 'requestId', source: 'header', path: 'X-Request-Id' },
+        ]}
+        onChange={mockOnChange}
+        testID="captures"
+      />
+    );
+
+    expect(getByTestId('captures-item-0')).toHaveTextContent('sessionId ← $.session.id');
+    expect(getByTestId('captures-item-1')).toHaveTextContent('requestId ← header X-Request-Id');
+
+    fireEvent.press(getByTestId('captures-remove-1'));
+
+    expect(mockOnChange).toHaveBeenCalledWith([
+      { variable: 'sessionId', source: 'jsonPath', path: '$.session.id' },
+    ]);
+  });
+
+  it('adds a capture rule from the selected source', () => {
+    const { getByTestId } = renderWithTheme(
+      <CaptureRulesEditor onChange={mockOnChange} testID="captures" />
+    );
+
+    fireEvent.press(getByTestId('captures-source-header'));
+    fireEvent.changeText(getByTestId('captures-variable'), 'requestId');
+    fireEvent.changeText(getByTestId('captures-path'), 'X-Request-Id');
+    fireEvent.press(getByTestId('captures-add'));
+
+    expect(mockOnChange).toHaveBeenCalledWith([
+      { variable: 'requestId', source: 'header', path: 'X-Request-Id' },
+    ]);
+  });
+
+  it('does not add a rule for a variable that is already captured', () => {
+    const { getByTestId } = renderWithTheme(
+      <CaptureRulesEditor
+        captures={[{ variable: 'sessionId', source: 'jsonPath', path: '$.id' }]}
+        onChange={mockOnChange}
+        testID="captures"
+      />
+    );
+
+    fireEvent.changeText(getByTestId('captures-variable'), 'sessionId');
+    fireEvent.changeText(getByTestId('captures-path'), '$.session.id');
+    fireEvent.press(getByTestId('captures-add'));
+
+    expect(getByTestId('captures-error')).toHaveTextContent('Variable sessionId is already captured');
+    expect(mockOnChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for ChallengeEditor component
+ */
+
+import React from 'react';
+import { Animated } from 'react-native';
+import { fireEvent, render } from '@testing-library/react-native';
+import ChallengeEditor, { buildChallengeConfig } from '../ChallengeEditor';
+import { ThemeContextProvider, ThemeContextType } from '../../theme/ThemeContext';
+import { lightTheme } from '../../theme/theme';
+
+const mockThemeContext: ThemeContextType = {
+  theme: lightTheme,
+  isDark: false,
+  themeMode: 'light',
+  toggleTheme: jest.fn(),
+  setTheme: jest.fn(),
+  themeTransition: new Animated.Value(0),
+  isTransitioning: false,
+};
+
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(
+    <ThemeContextProvider value={mockThemeContext}>
+      {component}
+    </ThemeContextProvider>
+  );
+};
+
+describe('ChallengeEditor', () => {
+  const mockOnChange = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('only shows the method and path once a URL is set', () => {
+    const { getByTestId, queryByTestId, rerender } = renderWithTheme(
+      <ChallengeEditor url="" method="GET" challengePath="" onChange={mockOnChange} testID="challenge" />
+    );
+
+    expect(queryByTestId('challenge-path')).toBeNull();
+    fireEvent.changeText(getByTestId('challenge-url'), 'https://api.example.com/challenge');
+    expect(mockOnChange).toHaveBeenCalledWith({ url: 'https://api.example.com/challenge' });
+
+    rerender(
+      <ThemeContextProvider value={mockThemeContext}>
+        <ChallengeEditor
+          url="https://api.example.com/challenge"
+          method="GET"
+          challengePath=""
+          onChange={mockOnChange}
+          testID="challenge"
+        />
+      </ThemeContextProvider>
+    );
+    fireEvent.press(getByTestId('challenge-method-POST'));
+    fireEvent.changeText(getByTestId('challenge-path'), 'data.nonce');
+
+    expect(mockOnChange).toHaveBeenCalledWith({ method: 'POST' });
+    expect(mockOnChange).toHaveBeenLastCalledWith({ challengePath: 'data.nonce' });
+  });
+
+  it('leaves the challenge out while no URL is set', () => {
+    expect(buildChallengeConfig({ url: ' ', method: 'POST', challengePath: 'nonce' })).toBeUndefined();
+    expect(
+      buildChallengeConfig({ url: ' https://api.example.com/c ', method: 'POST', challengePath: ' nonce ' })
+    ).toEqual({ url: 'https://api.example.com/c', method: 'POST', challengePath: 'nonce' });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for CurlImportEditor component
+ */
+
+import React from 'react';
+import { Animated } from 'react-native';
+import { fireEvent, render, waitFor } from '@testing-library/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import CurlImportEditor from '../CurlImportEditor';
+import { ThemeContextProvider, ThemeContextType } from '../../theme/ThemeContext';
+import { lightTheme } from '../../theme/theme';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+}));
+
+const mockAsyncStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
+
+const mockThemeContext: ThemeContextType = {
+  theme: lightTheme,
+  isDark: false,
+  themeMode: 'light',
+  toggleTheme: jest.fn(),
+  setTheme: jest.fn(),
+  themeTransition: new Animated.Value(0),
+  isTransitioning: false,
+};
+
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(
+    <ThemeContextProvider value={mockThemeContext}>
+      {component}
+    </ThemeContextProvider>
+  );
+};
+
+describe('CurlImportEditor', () => {
+  const mockOnImport = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // The section opens as it was left
+    mockAsyncStorage.getItem.mockResolvedValue(JSON.stringify(true));
+    mockAsyncStorage.setItem.mockResolvedValue();
+  });
+
+  it('keeps a command that cannot be imported and lists why', async () => {
+    mockOnImport.mockResolvedValue(['Option -k is not supported', 'Command must start with curl']);
+    const { getByTestId } = renderWithTheme(
+      <CurlImportEditor onImport={mockOnImport} testID="curl-import" />
+    );
+
+    await waitFor(() => expect(getByTestId('curl-import-command')).toBeTruthy());
+    fireEvent.changeText(getByTestId('curl-import-command'), 'curl -k https://a.example.com');
+    fireEvent.press(getByTestId('curl-import-button'));
+
+    expect(mockOnImport).toHaveBeenCalledWith('enroll', 'curl -k https://a.example.com');
+    await waitFor(() =>
+      expect(getByTestId('curl-import-error').props.children).toBe(
+        'Option -k is not supported\nCommand must start with curl'
+      )
+    );
+    expect(getByTestId('curl-import-command').props.value).toBe('curl -k https://a.example.com');
+  });
+
+  it('clears the command once it is imported into the selected endpoint', async () => {
+    mockOnImport.mockResolvedValue([]);
+    const { getByTestId, queryByTestId } = renderWithTheme(
+      <CurlImportEditor onImport={mockOnImport} testID="curl-import" />
+    );
+
+    await waitFor(() => expect(getByTestId('curl-import-target-unenroll')).toBeTruthy());
+    fireEvent.press(getByTestId('curl-import-target-unenroll'));
+    fireEvent.changeText(getByTestId('curl-import-command'), 'curl -X DELETE https://a.example.com');
+    fireEvent.press(getByTestId('curl-import-button'));
+
+    expect(mockOnImport).toHaveBeenCalledWith('unenroll', 'curl -X DELETE https://a.example.com');
+    await waitFor(() => expect(getByTestId('curl-import-command').props.value).toBe(''));
+    expect(queryByTestId('curl-import-error')).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Unit tests for EndpointAuthEditor component
+ */
+
+import React from 'react';
+import { Animated } from 'react-native';
+import { fireEvent, render } from '@testing-library/react-native';
+import EndpointAuthEditor from '../EndpointAuthEditor';
+import { ThemeContextProvider, ThemeContextType } from '../../theme/ThemeContext';
+import { lightTheme } from '../../theme/theme';
+
+const mockThemeContext: ThemeContextType = {
+  theme: lightTheme,
+  isDark: false,
+  themeMode: 'light',
+  toggleTheme: jest.fn(),
+  setTheme: jest.fn(),
+  themeTransition: new Animated.Value(0),
+  isTransitioning: false,
+};
+
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(
+    <ThemeContextProvider value={mockThemeContext}>
+      {component}
+    </ThemeContextProvider>
+  );
+};
+
+describe('EndpointAuthEditor', () => {
+  const mockOnChange = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows the saved credentials with the secret masked', () => {
+    const { getByTestId, queryByTestId } = renderWithTheme(
+      <EndpointAuthEditor
+        auth={{ type: 'basic', username: 'alice', password: 'pw' }}
+        onChange={mockOnChange}
+        testID="auth"
+      />
+    );
+
+    expect(getByTestId('auth-username').props.value).toBe('alice');
+    expect(getByTestId('auth-username').props.secureTextEntry).toBeFalsy();
+    expect(getByTestId('auth-password').props.value).toBe('pw');
+    expect(getByTestId('auth-password').props.secureTextEntry).toBe(true);
+    expect(queryByTestId('auth-token')).toBeNull();
+  });
+
+  it('passes credentials on once they are complete', () => {
+    const { getByTestId } = renderWithTheme(
+      <EndpointAuthEditor onChange={mockOnChange} testID="auth" />
+    );
+
+    fireEvent.press(getByTestId('auth-type-apiKey'));
+    expect(getByTestId('auth-error').props.children).toBe('API key name is required');
+    expect(mockOnChange).not.toHaveBeenCalled();
+
+    fireEvent.press(getByTestId('auth-location-query'));
+    fireEvent.changeText(getByTestId('auth-name'), 'api_key');
+    fireEvent.changeText(getByTestId('auth-value'), 'k3y');
+
+    expect(getByTestId('auth-value').props.secureTextEntry).toBe(true);
+    expect(mockOnChange).toHaveBeenLastCalledWith({
+      type: 'apiKey',
+      name: 'api_key',
+      value: 'k3y',
+      location: 'query',
+    });
+  });
+
+  it('leaves out empty OAuth2 scope and audience', () => {
+    const { getByTestId } = renderWithTheme(
+      <EndpointAuthEditor onChange={mockOnChange} testID="auth" />
+    );
+
+    fireEvent.press(getByTestId('auth-type-oauth2ClientCredentials'));
+    fireEvent.changeText(getByTestId('auth-tokenUrl'), 'https://auth.example.com/token');
+    fireEvent.changeText(getByTestId('auth-clientId'), 'client');
+    fireEvent.changeText(getByTestId('auth-clientSecret'), 's3cret');
+
+    expect(mockOnChange).toHaveBeenLastCalledWith({
+      type: 'oauth2ClientCredentials',
+      tokenUrl: 'https://auth.example.com/token',
+      clientId: 'client',
+      clientSecret: 's3cret',
+    });
+  });
+
+  it('removes the credentials when None is selected', () => {
+    const { getByTestId, queryByTestId } = renderWithTheme(
+      <EndpointAuthEditor
+        auth={{ type: 'bearer', token: 't0k' }}
+        onChange={mockOnChange}
+        testID="auth"
+      />
+    );
+
+    fireEvent.press(getByTestId('auth-type-none'));
+
+    expect(mockOnChange).toHaveBeenLastCalledWith(undefined);
+    expect(queryByTestId('auth-token')).toBeNull();
+  });
+});
@@ -19,11 +19,11 @@ const EndpointConfigurationDemo: React.FC = () => {
     method: 'POST',
   });
 
-  const handleConfigChange = (type: 'enroll' | 'validate', config: EndpointConfig) => {
+  const handleConfigChange = (type: 'enroll' | 'validate' | 'unenroll', config: EndpointConfig) => {
     console.log(`${type} config changed:`, config);
     if (type === 'enroll') {
       setEnrollConfig(config);
-    } else {
+    } else if (type === 'validate') {
       setValidateConfig(config);
     }
   };
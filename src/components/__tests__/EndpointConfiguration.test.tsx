@@ -3,11 +3,14 @@
  */
 
 import React from 'react';
+import { Share } from 'react-native';
 import { render, fireEvent, waitFor } from '@testing-library/react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import EndpointConfiguration from '../EndpointConfiguration';
 import { EndpointConfig } from '../../types';
 import { ThemeProvider } from '../../theme';
+import { biometricAPIService } from '../../services/BiometricAPIService';
+import { configurationPersistence } from '../../services/ConfigurationPersistence';
 
 // Mock AsyncStorage
 jest.mock('@react-native-async-storage/async-storage', () => ({
@@ -590,4 +593,321 @@ describe('EndpointConfiguration', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  it('passes a valid body template on with the validation endpoint', async () => {
+    const { getByTestId, queryByTestId } = render(
+      <TestWrapper>
+        <EndpointConfiguration
+          enrollConfig={defaultEnrollConfig}
+          validateConfig={defaultValidateConfig}
+          onConfigChange={mockOnConfigChange}
+        />
+      </TestWrapper>
+    );
+
+    await waitFor(() => {
+      fireEvent.changeText(
+        getByTestId('validate-body-template'),
+        '{"sig": "{{signature}}", "data": "{{payload}}"}'
+      );
+
+      expect(mockOnConfigChange).toHaveBeenCalledWith('validate', {
+        url: '',
+        method: 'POST',
+        customPayload: '{date}',
+        bodyTemplate: '{"sig": "{{signature}}", "data": "{{payload}}"}'
+      });
+    });
+    expect(queryByTestId('validate-body-template-error')).toBeNull();
+  });
+
+  it('shows body template errors without passing the template on', async () => {
+    const { getByTestId } = render(
+      <TestWrapper>
+        <EndpointConfiguration
+          enrollConfig={defaultEnrollConfig}
+          validateConfig={defaultValidateConfig}
+          onConfigChange={mockOnConfigChange}
+        />
+      </TestWrapper>
+    );
+
+    await waitFor(() => {
+      fireEvent.changeText(getByTestId('enroll-body-template'), '{"key": "{{signature}}"}');
+    });
+
+    await waitFor(() => {
+      expect(getByTestId('enroll-body-template-error')).toHaveTextContent(
+        /Unknown placeholder \{\{signature\}\}/
+      );
+    });
+    expect(mockOnConfigChange).not.toHaveBeenCalledWith(
+      'enroll',
+      expect.objectContaining({ bodyTemplate: expect.anything() })
+    );
+  });
+
+  it('passes the request policy on with the enrollment endpoint', async () => {
+    const { getByTestId } = render(
+      <TestWrapper>
+        <EndpointConfiguration
+          enrollConfig={defaultEnrollConfig}
+          validateConfig={defaultValidateConfig}
+          onConfigChange={mockOnConfigChange}
+        />
+      </TestWrapper>
+    );
+
+    await waitFor(() => {
+      fireEvent.changeText(getByTestId('enroll-request-policy-max-retries'), '0');
+    });
+
+    await waitFor(() => {
+      expect(mockOnConfigChange).toHaveBeenCalledWith(
+        'enroll',
+        expect.objectContaining({ requestPolicy: { maxRetries: 0 } })
+      );
+    });
+  });
+
+  it('passes response assertions on with the validation endpoint', async () => {
+    const { getByTestId } = render(
+      <TestWrapper>
+        <EndpointConfiguration
+          enrollConfig={defaultEnrollConfig}
+          validateConfig={defaultValidateConfig}
+          onConfigChange={mockOnConfigChange}
+        />
+      </TestWrapper>
+    );
+
+    await waitFor(() => {
+      fireEvent.press(getByTestId('validate-assertions-type-jsonPathEquals'));
+    });
+    fireEvent.changeText(getByTestId('validate-assertions-target'), '$.valid');
+    fireEvent.changeText(getByTestId('validate-assertions-value'), 'true');
+    fireEvent.press(getByTestId('validate-assertions-add'));
+
+    await waitFor(() => {
+      expect(mockOnConfigChange).toHaveBeenCalledWith(
+        'validate',
+        expect.objectContaining({
+          assertions: [{ type: 'jsonPathEquals', path: '$.valid', value: true }],
+        })
+      );
+    });
+  });
+
+  it('passes capture rules on and accepts captured variables in URLs', async () => {
+    const { getByTestId, getByPlaceholderText, queryByText } = render(
+      <TestWrapper>
+        <EndpointConfiguration
+          enrollConfig={defaultEnrollConfig}
+          validateConfig={defaultValidateConfig}
+          onConfigChange={mockOnConfigChange}
+        />
+      </TestWrapper>
+    );
+
+    await waitFor(() => {
+      fireEvent.changeText(getByTestId('enroll-captures-variable'), 'sessionId');
+    });
+    fireEvent.changeText(getByTestId('enroll-captures-path'), '$.session.id');
+    fireEvent.press(getByTestId('enroll-captures-add'));
+
+    await waitFor(() => {
+      expect(mockOnConfigChange).toHaveBeenCalledWith(
+        'enroll',
+        expect.objectContaining({
+          captures: [{ variable: 'sessionId', source: 'jsonPath', path: '$.session.id' }],
+        })
+      );
+    });
+
+    fireEvent.changeText(
+      getByPlaceholderText('https://api.example.com/enroll'),
+      'https://api.example.com/sessions/{{sessionId}}/keys'
+    );
+
+    expect(queryByText(/Please enter a valid URL/)).toBeNull();
+  });
+
+  it('passes endpoint credentials on with the secret masked', async () => {
+    const { getByTestId } = render(
+      <TestWrapper>
+        <EndpointConfiguration
+          enrollConfig={defaultEnrollConfig}
+          validateConfig={defaultValidateConfig}
+          onConfigChange={mockOnConfigChange}
+        />
+      </TestWrapper>
+    );
+
+    await waitFor(() => {
+      fireEvent.press(getByTestId('validate-auth-type-bearer'));
+    });
+    fireEvent.changeText(getByTestId('validate-auth-token'), 't0k');
+
+    expect(getByTestId('validate-auth-token').props.secureTextEntry).toBe(true);
+    await waitFor(() => {
+      expect(mockOnConfigChange).toHaveBeenCalledWith(
+        'validate',
+        expect.objectContaining({ auth: { type: 'bearer', token: 't0k' } })
+      );
+    });
+  });
+
+  it('shares the last request to an endpoint as a cURL command', async () => {
+    const share = jest.spyOn(Share, 'share').mockResolvedValue({ action: Share.sharedAction });
+    const { getByTestId } = render(
+      <TestWrapper>
+        <EndpointConfiguration
+          enrollConfig={{ url: 'https://api.example.com/enroll', method: 'POST' }}
+          validateConfig={defaultValidateConfig}
+          onConfigChange={mockOnConfigChange}
+        />
+      </TestWrapper>
+    );
+
+    await waitFor(() => {
+      fireEvent.press(getByTestId('enroll-copy-curl'));
+    });
+    await waitFor(() => {
+      expect(share).toHaveBeenLastCalledWith({
+        message: expect.stringMatching(/^curl -X POST 'https:\/\/api\.example\.com\/enroll' \\\n {2}-H 'Content-Type: application\/json'/),
+        title: 'cURL command',
+      });
+    });
+
+    jest.spyOn(biometricAPIService, 'getLastExchange').mockReturnValueOnce({
+      startedDateTime: '2024-01-01T00:00:00.000Z',
+      request: {
+        method: 'POST',
+        url: 'https://api.example.com/enroll',
+        headers: { 'X-Signature': 'f00d' },
+        body: '{"publicKey":"abc"}',
+      },
+      timings: { totalMs: 10 },
+    });
+    fireEvent.press(getByTestId('enroll-copy-curl'));
+
+    await waitFor(() => {
+      expect(share).toHaveBeenLastCalledWith({
+        message: expect.stringContaining(`-H 'X-Signature: f00d' \\\n  --data-raw '{"publicKey":"abc"}'`),
+        title: 'cURL command',
+      });
+    });
+  });
+
+  it('imports a pasted cURL command into the selected endpoint', async () => {
+    const updateEndpointConfig = jest
+      .spyOn(configurationPersistence, 'updateEndpointConfig')
+      .mockResolvedValue();
+    const { getByTestId, queryByTestId } = render(
+      <TestWrapper>
+        <EndpointConfiguration
+          enrollConfig={defaultEnrollConfig}
+          validateConfig={defaultValidateConfig}
+          onConfigChange={mockOnConfigChange}
+        />
+      </TestWrapper>
+    );
+
+    await waitFor(() => {
+      fireEvent.press(getByTestId('curl-import-target-validate'));
+    });
+    fireEvent.changeText(getByTestId('curl-import-command'), 'curl -k https://api.example.com/validate');
+    fireEvent.press(getByTestId('curl-import-button'));
+
+    await waitFor(() => {
+      expect(getByTestId('curl-import-error').props.children).toBe('Option -k is not supported');
+    });
+    expect(updateEndpointConfig).not.toHaveBeenCalled();
+    expect(mockOnConfigChange).not.toHaveBeenCalledWith('validate', expect.anything());
+
+    fireEvent.changeText(
+      getByTestId('curl-import-command'),
+      `curl 'https://api.example.com/validate' \\\n  -H 'X-Tenant: acme' \\\n  --data-raw '{"sig":"{{signature}}"}'`
+    );
+    fireEvent.press(getByTestId('curl-import-button'));
+
+    const expectedConfig = expect.objectContaining({
+      url: 'https://api.example.com/validate',
+      method: 'POST',
+      headers: { 'X-Tenant': 'acme' },
+      bodyTemplate: '{"sig":"{{signature}}"}',
+    });
+    await waitFor(() => {
+      expect(mockOnConfigChange).toHaveBeenCalledWith('validate', expectedConfig);
+    });
+    expect(updateEndpointConfig).toHaveBeenCalledWith('validate', expectedConfig);
+    expect(getByTestId('validate-body-template').props.value).toBe('{"sig":"{{signature}}"}');
+    expect(getByTestId('curl-import-command').props.value).toBe('');
+    expect(queryByTestId('curl-import-error')).toBeNull();
+    updateEndpointConfig.mockRestore();
+  });
+
+  it('keeps the form unchanged when an imported cURL command cannot be saved', async () => {
+    const updateEndpointConfig = jest
+      .spyOn(configurationPersistence, 'updateEndpointConfig')
+      .mockRejectedValue(new Error('Storage full'));
+    const { getByTestId } = render(
+      <TestWrapper>
+        <EndpointConfiguration
+          enrollConfig={defaultEnrollConfig}
+          validateConfig={defaultValidateConfig}
+          onConfigChange={mockOnConfigChange}
+        />
+      </TestWrapper>
+    );
+
+    await waitFor(() => {
+      fireEvent.changeText(
+        getByTestId('curl-import-command'),
+        `curl https://api.example.com/keys -d '{"key":"{{publicKey}}"}'`
+      );
+    });
+    fireEvent.press(getByTestId('curl-import-button'));
+
+    await waitFor(() => {
+      expect(getByTestId('curl-import-error').props.children).toBe(
+        'Failed to save the enroll configuration'
+      );
+    });
+    expect(mockOnConfigChange).not.toHaveBeenCalledWith('enroll', expect.anything());
+    expect(getByTestId('enroll-body-template').props.value).toBe('');
+    expect(getByTestId('curl-import-command').props.value).toBe(
+      `curl https://api.example.com/keys -d '{"key":"{{publicKey}}"}'`
+    );
+    updateEndpointConfig.mockRestore();
+  });
+
+  it('passes unenrollment endpoint changes on', async () => {
+    const { getByTestId } = render(
+      <TestWrapper>
+        <EndpointConfiguration
+          enrollConfig={defaultEnrollConfig}
+          validateConfig={defaultValidateConfig}
+          onConfigChange={mockOnConfigChange}
+        />
+      </TestWrapper>
+    );
+
+    await waitFor(() => {
+      fireEvent.press(getByTestId('unenrollment-config-section-header'));
+    });
+    await waitFor(() => {
+      fireEvent.changeText(getByTestId('unenroll-url'), 'https://api.example.com/enrollments');
+    });
+    fireEvent.press(getByTestId('unenroll-delete-locally-true'));
+
+    await waitFor(() => {
+      expect(mockOnConfigChange).toHaveBeenCalledWith('unenroll', {
+        url: 'https://api.example.com/enrollments',
+        method: 'DELETE',
+        headers: undefined,
+        deleteLocallyOnFailure: true
+      });
+    });
+  });
+});
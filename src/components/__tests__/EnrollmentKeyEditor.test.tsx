@@ -0,0 +1,66 @@
+/**
+ * Unit tests for EnrollmentKeyEditor component
+ */
+
+import React from 'react';
+import { Animated } from 'react-native';
+import { fireEvent, render } from '@testing-library/react-native';
+import EnrollmentKeyEditor from '../EnrollmentKeyEditor';
+import { ThemeContextProvider, ThemeContextType } from '../../theme/ThemeContext';
+import { lightTheme } from '../../theme/theme';
+
+const mockThemeContext: ThemeContextType = {
+  theme: lightTheme,
+  isDark: false,
+  themeMode: 'light',
+  toggleTheme: jest.fn(),
+  setTheme: jest.fn(),
+  themeTransition: new Animated.Value(0),
+  isTransitioning: false,
+};
+
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(
+    <ThemeContextProvider value={mockThemeContext}>
+      {component}
+    </ThemeContextProvider>
+  );
+};
+
+describe('EnrollmentKeyEditor', () => {
+  const mockOnChange = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('passes the selected public key format on', () => {
+    const { getByTestId } = renderWithTheme(
+      <EnrollmentKeyEditor onChange={mockOnChange} testID="enroll" />
+    );
+
+    fireEvent.press(getByTestId('enroll-key-format-jwk'));
+
+    expect(mockOnChange).toHaveBeenCalledWith({ publicKeyFormat: 'jwk' });
+  });
+
+  it('changes one policy option and keeps the others', () => {
+    const { getByTestId } = renderWithTheme(
+      <EnrollmentKeyEditor
+        enrollmentPolicy={{ algorithm: 'EC-P256', allowDeviceCredentials: true, requireConfirmation: false }}
+        onChange={mockOnChange}
+        testID="enroll"
+      />
+    );
+
+    fireEvent.press(getByTestId('enroll-policy-allowDeviceCredentials'));
+    expect(mockOnChange).toHaveBeenLastCalledWith({
+      enrollmentPolicy: { algorithm: 'EC-P256', allowDeviceCredentials: false, requireConfirmation: false },
+    });
+
+    fireEvent.press(getByTestId('enroll-key-algorithm-default'));
+    expect(mockOnChange).toHaveBeenLastCalledWith({
+      enrollmentPolicy: { algorithm: undefined, allowDeviceCredentials: true, requireConfirmation: false },
+    });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for KeyDetailsPanel component
+ */
+
+import React from 'react';
+import { Animated } from 'react-native';
+import { render } from '@testing-library/react-native';
+import KeyDetailsPanel from '../KeyDetailsPanel';
+import { ThemeContextProvider, ThemeContextType } from '../../theme/ThemeContext';
+import { lightTheme } from '../../theme/theme';
+
+const RSA_PUBLIC_KEY =
+  'MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEAxlZzShPolQj3ynJ6I1PVRfY2LEAtoU/e' +
+  'n0gudnriEGosyr5mWcl4AKH87fjtHZqEJqM3iR1RDc/vjpKW1LgG3hf+bz1IymRXpwwtdMnV11L8' +
+  '2/gsLl6QfPzJslr2/wB8XQVaVZEFn/GtWGSLzvcEUV0d9tclVkJQg8B9+Qmb742qpxcfdQc9aNT2' +
+  'DbkCmb7wIEIJXrTjZZ6Fo7vS0FVhPQe4aNMRr4D0YDo/j4O9rJd2imWTcR1j3qUZG13wrKNRLOF2' +
+  'UC+N5cT7bB+fzbRFk7tw5pfMWKPLvb8x/5uKIZ8A04mvO2zFXwlOkWfn+6l+NHyxjC6ncU0Hqa94' +
+  '21WzxwIDAQAB';
+const EC_PUBLIC_KEY =
+  'MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEtC9kr/Upk79tjTiZP6aHvrCTlDUDm/JMva96q/SZ' +
+  'VDaBea0HhBM/ffDY0DKG7WZbFtWViP/n6PGLQFOslMtdvg==';
+
+const mockThemeContext: ThemeContextType = {
+  theme: lightTheme,
+  isDark: false,
+  themeMode: 'light',
+  toggleTheme: jest.fn(),
+  setTheme: jest.fn(),
+  themeTransition: new Animated.Value(0),
+  isTransitioning: false,
+};
+
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(
+    <ThemeContextProvider value={mockThemeContext}>
+      {component}
+    </ThemeContextProvider>
+  );
+};
+
+describe('KeyDetailsPanel', () => {
+  it('shows RSA modulus size, exponent and fingerprint', () => {
+    const { getByText } = renderWithTheme(
+      <KeyDetailsPanel publicKey={RSA_PUBLIC_KEY} keyAlias="default" />
+    );
+
+    expect(getByText('rsaEncryption (1.2.840.113549.1.1.1)')).toBeTruthy();
+    expect(getByText('2048 bits')).toBeTruthy();
+    expect(getByText('65537')).toBeTruthy();
+    expect(getByText('294 bytes')).toBeTruthy();
+    expect(getByText(/^([0-9a-f]{2}:){31}[0-9a-f]{2}$/)).toBeTruthy();
+  });
+
+  it('shows the EC curve name and OID', () => {
+    const { getByText } = renderWithTheme(<KeyDetailsPanel publicKey={EC_PUBLIC_KEY} />);
+
+    expect(getByText('id-ecPublicKey (1.2.840.10045.2.1)')).toBeTruthy();
+    expect(getByText('P-256 (1.2.840.10045.3.1.7)')).toBeTruthy();
+  });
+
+  it('explains when no key is recorded', () => {
+    const { getByTestId } = renderWithTheme(<KeyDetailsPanel publicKey={null} />);
+
+    expect(getByTestId('key-details-empty')).toBeTruthy();
+  });
+
+  it('reports keys that cannot be decoded', () => {
+    const { getByTestId } = renderWithTheme(<KeyDetailsPanel publicKey="bm90LWEta2V5" />);
+
+    expect(getByTestId('key-details-error')).toBeTruthy();
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Unit tests for PayloadVariablesEditor component
+ */
+
+import React from 'react';
+import { Animated } from 'react-native';
+import { fireEvent, render } from '@testing-library/react-native';
+import PayloadVariablesEditor from '../PayloadVariablesEditor';
+import { ThemeContextProvider, ThemeContextType } from '../../theme/ThemeContext';
+import { lightTheme } from '../../theme/theme';
+
+const mockThemeContext: ThemeContextType = {
+  theme: lightTheme,
+  isDark: false,
+  themeMode: 'light',
+  toggleTheme: jest.fn(),
+  setTheme: jest.fn(),
+  themeTransition: new Animated.Value(0),
+  isTransitioning: false,
+};
+
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(
+    <ThemeContextProvider value={mockThemeContext}>
+      {component}
+    </ThemeContextProvider>
+  );
+};
+
+describe('PayloadVariablesEditor', () => {
+  const mockOnChange = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('previews the payload with the template variables', () => {
+    const { getByText, getByTestId } = renderWithTheme(
+      <PayloadVariablesEditor
+        payload="login_{userId}"
+        variables={'userId=alice\n'}
+        onChange={mockOnChange}
+        testID="validate"
+      />
+    );
+
+    expect(getByText('login_alice')).toBeTruthy();
+
+    fireEvent.changeText(getByTestId('validate-payload-variables'), 'userId=bob');
+
+    expect(mockOnChange).toHaveBeenCalledWith('userId=bob');
+  });
+
+  it('shows why a template cannot be rendered', () => {
+    const { getByTestId } = renderWithTheme(
+      <PayloadVariablesEditor payload="{unknownVariable}" variables="" onChange={mockOnChange} testID="validate" />
+    );
+
+    expect(getByTestId('validate-payload-preview-error')).toBeTruthy();
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Unit tests for PromptProfilesPanel component
+ */
+
+import React from 'react';
+import { Animated } from 'react-native';
+import { fireEvent, render } from '@testing-library/react-native';
+import PromptProfilesPanel from '../PromptProfilesPanel';
+import { ThemeContextProvider, ThemeContextType } from '../../theme/ThemeContext';
+import { lightTheme } from '../../theme/theme';
+import { DEFAULT_PROMPT_PROFILES } from '../../constants';
+
+const mockThemeContext: ThemeContextType = {
+  theme: lightTheme,
+  isDark: false,
+  themeMode: 'light',
+  toggleTheme: jest.fn(),
+  setTheme: jest.fn(),
+  themeTransition: new Animated.Value(0),
+  isTransitioning: false,
+};
+
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(
+    <ThemeContextProvider value={mockThemeContext}>
+      {component}
+    </ThemeContextProvider>
+  );
+};
+
+describe('PromptProfilesPanel', () => {
+  const mockOnSave = jest.fn();
+  const mockOnReset = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows the saved texts of the selected operation', () => {
+    const { getByTestId, queryByTestId } = renderWithTheme(
+      <PromptProfilesPanel profiles={DEFAULT_PROMPT_PROFILES} onSave={mockOnSave} onReset={mockOnReset} />
+    );
+
+    expect(getByTestId('prompt-message-input').props.value).toBe('Authenticate to create signature for validation');
+    expect(getByTestId('prompt-cancel-input').props.value).toBe('Cancel Validation');
+    expect(queryByTestId('prompt-fallback-input')).toBeNull();
+    expect(getByTestId('prompt-fallback-unsupported')).toBeTruthy();
+
+    fireEvent.press(getByTestId('prompt-operation-authenticate'));
+
+    expect(getByTestId('prompt-message-input').props.value).toBe('Authenticate to confirm your presence');
+    expect(getByTestId('prompt-fallback-input')).toBeTruthy();
+
+    fireEvent.press(getByTestId('prompt-operation-enroll'));
+
+    expect(getByTestId('prompt-fallback-input')).toBeTruthy();
+    expect(queryByTestId('prompt-fallback-unsupported')).toBeNull();
+  });
+
+  it('saves the edited texts for the selected operation', () => {
+    const { getByTestId } = renderWithTheme(
+      <PromptProfilesPanel profiles={DEFAULT_PROMPT_PROFILES} onSave={mockOnSave} onReset={mockOnReset} />
+    );
+
+    fireEvent.press(getByTestId('prompt-operation-authenticate'));
+    fireEvent.changeText(getByTestId('prompt-message-input'), 'Confirm it is you');
+    fireEvent.changeText(getByTestId('prompt-fallback-input'), 'Use Passcode');
+    fireEvent.press(getByTestId('prompt-profile-save'));
+
+    expect(mockOnSave).toHaveBeenCalledWith('authenticate', {
+      promptMessage: 'Confirm it is you',
+      cancelButtonText: 'Cancel Authentication',
+      fallbackPromptMessage: 'Use Passcode',
+    });
+  });
+
+  it('does not save empty texts', () => {
+    const { getByTestId } = renderWithTheme(
+      <PromptProfilesPanel profiles={DEFAULT_PROMPT_PROFILES} onSave={mockOnSave} onReset={mockOnReset} />
+    );
+
+    fireEvent.changeText(getByTestId('prompt-cancel-input'), '');
+    fireEvent.press(getByTestId('prompt-profile-save'));
+
+    expect(getByTestId('prompt-profile-error')).toBeTruthy();
+    expect(mockOnSave).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Unit tests for RequestPolicyEditor component
+ */
+
+import React from 'react';
+import { Animated } from 'react-native';
+import { fireEvent, render } from '@testing-library/react-native';
+import RequestPolicyEditor from '../RequestPolicyEditor';
+import { ThemeContextProvider, ThemeContextType } from '../../theme/ThemeContext';
+import { lightTheme } from '../../theme/theme';
+
+const mockThemeContext: ThemeContextType = {
+  theme: lightTheme,
+  isDark: false,
+  themeMode: 'light',
+  toggleTheme: jest.fn(),
+  setTheme: jest.fn(),
+  themeTransition: new Animated.Value(0),
+  isTransitioning: false,
+};
+
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(
+    <ThemeContextProvider value={mockThemeContext}>
+      {component}
+    </ThemeContextProvider>
+  );
+};
+
+describe('RequestPolicyEditor', () => {
+  const mockOnChange = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows the saved policy', () => {
+    const { getByTestId } = renderWithTheme(
+      <RequestPolicyEditor
+        policy={{ timeoutMs: 30000, retryOnStatus: [429, 503] }}
+        onChange={mockOnChange}
+        testID="policy"
+      />
+    );
+
+    expect(getByTestId('policy-timeout').props.value).toBe('30000');
+    expect(getByTestId('policy-max-retries').props.value).toBe('');
+    expect(getByTestId('policy-retry-on-status').props.value).toBe('429, 503');
+  });
+
+  it('passes the edited policy on', () => {
+    const { getByTestId } = renderWithTheme(
+      <RequestPolicyEditor onChange={mockOnChange} testID="policy" />
+    );
+
+    fireEvent.changeText(getByTestId('policy-max-retries'), '3');
+    fireEvent.press(getByTestId('policy-backoff-exponential'));
+    fireEvent.changeText(getByTestId('policy-retry-on-status'), '502, 503');
+
+    expect(mockOnChange).toHaveBeenLastCalledWith({
+      maxRetries: 3,
+      backoff: 'exponential',
+      retryOnStatus: [502, 503],
+    });
+
+    fireEvent.changeText(getByTestId('policy-max-retries'), '');
+    fireEvent.changeText(getByTestId('policy-retry-on-status'), '');
+    fireEvent.press(getByTestId('policy-backoff-linear'));
+
+    expect(mockOnChange).toHaveBeenLastCalledWith({ backoff: 'linear' });
+  });
+
+  it('does not pass invalid values on', () => {
+    const { getByTestId } = renderWithTheme(
+      <RequestPolicyEditor onChange={mockOnChange} testID="policy" />
+    );
+
+    fireEvent.changeText(getByTestId('policy-max-retries'), '99');
+    fireEvent.changeText(getByTestId('policy-retry-on-status'), '503, soon');
+
+    expect(getByTestId('policy-error')).toHaveTextContent(/Max retries must be/);
+    expect(getByTestId('policy-error')).toHaveTextContent(/Retry-on status codes must be/);
+    expect(mockOnChange).not.toHaveBeenCalled();
+  });
+});
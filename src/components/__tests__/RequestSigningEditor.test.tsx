@@ -0,0 +1,79 @@
+/**
+ * Unit tests for RequestSigningEditor component
+ */
+
+import React from 'react';
+import { Animated } from 'react-native';
+import { fireEvent, render } from '@testing-library/react-native';
+import RequestSigningEditor from '../RequestSigningEditor';
+import { ThemeContextProvider, ThemeContextType } from '../../theme/ThemeContext';
+import { lightTheme } from '../../theme/theme';
+
+const mockThemeContext: ThemeContextType = {
+  theme: lightTheme,
+  isDark: false,
+  themeMode: 'light',
+  toggleTheme: jest.fn(),
+  setTheme: jest.fn(),
+  themeTransition: new Animated.Value(0),
+  isTransitioning: false,
+};
+
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(
+    <ThemeContextProvider value={mockThemeContext}>
+      {component}
+    </ThemeContextProvider>
+  );
+};
+
+describe('RequestSigningEditor', () => {
+  const mockOnChange = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows the saved settings with the secret masked', () => {
+    const { getByTestId } = renderWithTheme(
+      <RequestSigningEditor
+        signing={{ secret: 's3cret', signatureHeader: 'X-Gateway-Signature' }}
+        onChange={mockOnChange}
+        testID="signing"
+      />
+    );
+
+    expect(getByTestId('signing-secret').props.value).toBe('s3cret');
+    expect(getByTestId('signing-secret').props.secureTextEntry).toBe(true);
+    expect(getByTestId('signing-signature-header').props.value).toBe('X-Gateway-Signature');
+    expect(getByTestId('signing-timestamp-header').props.value).toBe('');
+  });
+
+  it('passes valid settings on and holds back invalid ones', () => {
+    const { getByTestId } = renderWithTheme(
+      <RequestSigningEditor onChange={mockOnChange} testID="signing" />
+    );
+
+    fireEvent.changeText(getByTestId('signing-canonical-template'), '{method} {query}');
+    expect(getByTestId('signing-error').props.children).toContain('Signing secret is required');
+    expect(mockOnChange).not.toHaveBeenCalled();
+
+    fireEvent.changeText(getByTestId('signing-secret'), 's3cret');
+    fireEvent.changeText(getByTestId('signing-canonical-template'), '{method} {path}');
+
+    expect(mockOnChange).toHaveBeenLastCalledWith({
+      secret: 's3cret',
+      canonicalTemplate: '{method} {path}',
+    });
+  });
+
+  it('turns signing off when every field is cleared', () => {
+    const { getByTestId } = renderWithTheme(
+      <RequestSigningEditor signing={{ secret: 's3cret' }} onChange={mockOnChange} testID="signing" />
+    );
+
+    fireEvent.changeText(getByTestId('signing-secret'), '');
+
+    expect(mockOnChange).toHaveBeenLastCalledWith(undefined);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Unit tests for ResponseAssertionsEditor component
+ */
+
+import React from 'react';
+import { Animated } from 'react-native';
+import { fireEvent, render } from '@testing-library/react-native';
+import ResponseAssertionsEditor from '../ResponseAssertionsEditor';
+import { ThemeContextProvider, ThemeContextType } from '../../theme/ThemeContext';
+import { lightTheme } from '../../theme/theme';
+
+const mockThemeContext: ThemeContextType = {
+  theme: lightTheme,
+  isDark: false,
+  themeMode: 'light',
+  toggleTheme: jest.fn(),
+  setTheme: jest.fn(),
+  themeTransition: new Animated.Value(0),
+  isTransitioning: false,
+};
+
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(
+    <ThemeContextProvider value={mockThemeContext}>
+      {component}
+    </ThemeContextProvider>
+  );
+};
+
+describe('ResponseAssertionsEditor', () => {
+  const mockOnChange = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('lists the saved assertions and removes them', () => {
+    const { getByTestId } = renderWithTheme(
+      <ResponseAssertionsEditor
+        assertions={[
+          { type: 'status', statusCodes: [200, 201] },
+          { type: 'jsonPathEquals', path: '$.valid', value: true },
+        ]}
+        onChange={mockOnChange}
+        testID="assertions"
+      />
+    );
+
+    expect(getByTestId('assertions-item-0')).toHaveTextContent('Status is 200 or 201');
+    expect(getByTestId('assertions-item-1')).toHaveTextContent('$.valid equals true');
+
+    fireEvent.press(getByTestId('assertions-remove-0'));
+
+    expect(mockOnChange).toHaveBeenCalledWith([
+      { type: 'jsonPathEquals', path: '$.valid', value: true },
+    ]);
+  });
+
+  it('adds an assertion of the selected type', () => {
+    const { getByTestId } = renderWithTheme(
+      <ResponseAssertionsEditor
+        assertions={[{ type: 'status', statusCodes: [200] }]}
+        onChange={mockOnChange}
+        testID="assertions"
+      />
+    );
+
+    fireEvent.press(getByTestId('assertions-type-jsonPathEquals'));
+    fireEvent.changeText(getByTestId('assertions-target'), '$.valid');
+    fireEvent.changeText(getByTestId('assertions-value'), 'true');
+    fireEvent.press(getByTestId('assertions-add'));
+
+    expect(mockOnChange).toHaveBeenCalledWith([
+      { type: 'status', statusCodes: [200] },
+      { type: 'jsonPathEquals', path: '$.valid', value: true },
+    ]);
+  });
+
+  it('does not add invalid assertions', () => {
+    const { getByTestId } = renderWithTheme(
+      <ResponseAssertionsEditor onChange={mockOnChange} testID="assertions" />
+    );
+
+    fireEvent.press(getByTestId('assertions-type-jsonPathMatches'));
+    fireEvent.changeText(getByTestId('assertions-target'), '$.id');
+    fireEvent.changeText(getByTestId('assertions-value'), '([');
+    fireEvent.press(getByTestId('assertions-add'));
+
+    expect(getByTestId('assertions-error')).toHaveTextContent(/is not a valid regular expression/);
+    expect(mockOnChange).not.toHaveBeenCalled();
+  });
+});
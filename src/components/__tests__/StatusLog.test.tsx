@@ -1,5 +1,6 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react-native';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import { Share } from 'react-native';
 import StatusLog from '../StatusLog';
 import { LogEntry, OperationResult } from '../../types';
 
@@ -118,6 +119,113 @@ describe('StatusLog Component', () => {
       expect(screen.getByText(/"publicKey": "mock-public-key-123"/)).toBeTruthy();
     });
 
+    it('should display the remediation hint for biometric errors', () => {
+      const cancelledEntry: LogEntry = {
+        id: '4',
+        timestamp: new Date('2024-01-01T10:03:00.000Z'),
+        operation: 'validate',
+        status: 'error',
+        message: 'Signature creation failed: User cancellation',
+        details: {
+          biometricError: {
+            code: 'USER_CANCEL',
+            message: 'User cancellation',
+            remediation: 'Run the operation again and complete the biometric prompt.',
+            recoverable: true,
+          },
+        },
+      };
+
+      render(<StatusLog logs={[cancelledEntry]} />);
+
+      expect(screen.getByTestId('remediation-USER_CANCEL')).toHaveTextContent(
+        'USER_CANCEL: Run the operation again and complete the biometric prompt.'
+      );
+    });
+
+    it('should list response assertion verdicts', () => {
+      const assertionEntry: LogEntry = {
+        id: '5',
+        timestamp: new Date('2024-01-01T10:04:00.000Z'),
+        operation: 'validate',
+        status: 'error',
+        message: 'Response assertions: 1 of 2 assertions passed',
+        details: {
+          assertions: [
+            {
+              assertion: { type: 'status', statusCodes: [200] },
+              passed: true,
+              message: 'Status is 200',
+              actual: 200,
+            },
+            {
+              assertion: { type: 'jsonPathEquals', path: '$.valid', value: true },
+              passed: false,
+              message: '$.valid equals true (got false)',
+              actual: false,
+            },
+          ],
+        },
+      };
+
+      render(<StatusLog logs={[assertionEntry]} />);
+
+      expect(screen.getByTestId('assertion-5-0')).toHaveTextContent('✓ Status is 200');
+      expect(screen.getByTestId('assertion-5-1')).toHaveTextContent('✗ $.valid equals true (got false)');
+      expect(screen.queryByText(/"statusCodes"/)).toBeNull();
+    });
+
+    it('should list HTTP exchanges and expand one on press', () => {
+      const exchangeEntry: LogEntry = {
+        id: '6',
+        timestamp: new Date('2024-01-01T10:05:00.000Z'),
+        operation: 'enroll',
+        status: 'info',
+        message: 'HTTP exchanges: 1',
+        details: {
+          exchanges: [
+            {
+              startedDateTime: '2024-01-01T10:05:00.000Z',
+              request: {
+                method: 'POST',
+                url: 'https://api.example.com/enroll',
+                headers: { Authorization: 'Bearer ********' },
+                body: '{"publicKey":"abc"}',
+              },
+              response: {
+                status: 409,
+                statusText: 'Conflict',
+                headers: { 'x-request-id': 'r-1' },
+                body: '{"error":"Already enrolled"}',
+              },
+              timings: { totalMs: 42 },
+            },
+          ],
+        },
+      };
+
+      render(<StatusLog logs={[exchangeEntry]} />);
+
+      expect(screen.getByTestId('exchange-6-0')).toHaveTextContent(
+        '▸ POST https://api.example.com/enroll → 409 Conflict (42 ms)'
+      );
+      expect(screen.queryByTestId('exchange-6-0-details')).toBeNull();
+
+      fireEvent.press(screen.getByTestId('exchange-6-0'));
+
+      const details = screen.getByTestId('exchange-6-0-details');
+      expect(details).toHaveTextContent(/Authorization: Bearer \*{8}/);
+      expect(details).toHaveTextContent(/HTTP 409 Conflict/);
+      expect(details).toHaveTextContent(/x-request-id: r-1/);
+
+      const share = jest.spyOn(Share, 'share').mockResolvedValue({ action: Share.sharedAction });
+      fireEvent.press(screen.getByTestId('exchange-6-0-curl'));
+      expect(share).toHaveBeenCalledWith({
+        message: expect.stringContaining("--data-raw '{\"publicKey\":\"abc\"}'"),
+        title: 'cURL command',
+      });
+    });
+
     it('should handle string details correctly', () => {
       const logWithStringDetails: LogEntry = {
         ...mockLogEntries[0],
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for VariablesPanel component
+ */
+
+import React from 'react';
+import { Animated } from 'react-native';
+import { fireEvent, render } from '@testing-library/react-native';
+import VariablesPanel from '../VariablesPanel';
+import { ThemeContextProvider, ThemeContextType } from '../../theme/ThemeContext';
+import { lightTheme } from '../../theme/theme';
+
+const mockThemeContext: ThemeContextType = {
+  theme: lightTheme,
+  isDark: false,
+  themeMode: 'light',
+  toggleTheme: jest.fn(),
+  setTheme: jest.fn(),
+  themeTransition: new Animated.Value(0),
+  isTransitioning: false,
+};
+
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(
+    <ThemeContextProvider value={mockThemeContext}>
+      {component}
+    </ThemeContextProvider>
+  );
+};
+
+describe('VariablesPanel', () => {
+  const mockOnSave = jest.fn();
+  const mockOnRemove = jest.fn();
+  const mockOnClear = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('lists the captured variables and removes them', () => {
+    const { getByTestId } = renderWithTheme(
+      <VariablesPanel
+        variables={{ sessionId: 's-42' }}
+        onSave={mockOnSave}
+        onRemove={mockOnRemove}
+        onClear={mockOnClear}
+      />
+    );
+
+    expect(getByTestId('variable-sessionId')).toHaveTextContent('sessionId = s-42');
+
+    fireEvent.press(getByTestId('variable-remove-sessionId'));
+
+    expect(mockOnRemove).toHaveBeenCalledWith('sessionId');
+  });
+
+  it('edits a variable picked from the list', () => {
+    const { getByTestId } = renderWithTheme(
+      <VariablesPanel
+        variables={{ sessionId: 's-42' }}
+        onSave={mockOnSave}
+        onRemove={mockOnRemove}
+        onClear={mockOnClear}
+      />
+    );
+
+    fireEvent.press(getByTestId('variable-sessionId'));
+    fireEvent.changeText(getByTestId('variable-value-input'), 's-43');
+    fireEvent.press(getByTestId('variable-save'));
+
+    expect(mockOnSave).toHaveBeenCalledWith('sessionId', 's-43');
+  });
+
+  it('does not save variables with invalid names', () => {
+    const { getByTestId } = renderWithTheme(
+      <VariablesPanel variables={{}} onSave={mockOnSave} onRemove={mockOnRemove} onClear={mockOnClear} />
+    );
+
+    fireEvent.changeText(getByTestId('variable-name-input'), 'session id');
+    fireEvent.press(getByTestId('variable-save'));
+
+    expect(getByTestId('variable-name-error')).toBeTruthy();
+    expect(mockOnSave).not.toHaveBeenCalled();
+  });
+});
@@ -12,11 +12,13 @@ import BiometricActions from '../BiometricActions';
 describe('Biometric Actions Integration', () => {
   const mockOnEnroll = jest.fn();
   const mockOnValidate = jest.fn();
+  const mockOnAuthenticate = jest.fn();
   const mockOnDeleteKeys = jest.fn();
 
   const defaultProps = {
     onEnroll: mockOnEnroll,
     onValidate: mockOnValidate,
+    onAuthenticate: mockOnAuthenticate,
     onDeleteKeys: mockOnDeleteKeys,
     disabled: false,
     keysExist: true,
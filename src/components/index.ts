@@ -4,9 +4,23 @@
 
 export { default as EndpointConfiguration } from './EndpointConfiguration';
 export { default as BiometricStatusDisplay } from './BiometricStatusDisplay';
+export { default as KeyDetailsPanel } from './KeyDetailsPanel';
+export { default as PromptProfilesPanel } from './PromptProfilesPanel';
+export { default as VariablesPanel } from './VariablesPanel';
+export { default as RequestPolicyEditor } from './RequestPolicyEditor';
+export { default as ResponseAssertionsEditor } from './ResponseAssertionsEditor';
+export { default as CaptureRulesEditor } from './CaptureRulesEditor';
+export { default as EndpointAuthEditor } from './EndpointAuthEditor';
+export { default as RequestSigningEditor } from './RequestSigningEditor';
+export { default as EnrollmentKeyEditor } from './EnrollmentKeyEditor';
+export { default as BodyTemplateEditor } from './BodyTemplateEditor';
+export { default as ChallengeEditor } from './ChallengeEditor';
+export { default as PayloadVariablesEditor } from './PayloadVariablesEditor';
+export { default as CurlImportEditor } from './CurlImportEditor';
 export { default as BiometricActions } from './BiometricActions';
 export { default as EnrollButton } from './EnrollButton';
 export { default as ValidateButton } from './ValidateButton';
+export { default as AuthenticateButton } from './AuthenticateButton';
 export { default as DeleteKeysButton } from './DeleteKeysButton';
 export { default as StatusLog } from './StatusLog';
 export { CollapsibleSection } from './CollapsibleSection';
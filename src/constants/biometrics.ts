@@ -2,7 +2,16 @@
  * Constants for the Biometrics Playground app
  */
 
-import { EndpointConfig } from '../types';
+import {
+  BenchmarkOptions,
+  BiometricErrorCode,
+  EndpointConfig,
+  EnrollmentPolicy,
+  PromptOperation,
+  PromptProfiles,
+  RequestPolicy,
+  RequestSigning,
+} from '../types';
 
 // Biometry type constants (matching react-native-biometrics)
 export const BIOMETRY_TYPES = {
@@ -17,14 +26,17 @@ export const HTTP_METHODS = {
   POST: 'POST' as const,
   PUT: 'PUT' as const,
   PATCH: 'PATCH' as const,
+  DELETE: 'DELETE' as const,
 } as const;
 
 // Operation types
 export const OPERATION_TYPES = {
   ENROLL: 'enroll' as const,
   VALIDATE: 'validate' as const,
+  AUTHENTICATE: 'authenticate' as const,
   DELETE: 'delete' as const,
   STATUS: 'status' as const,
+  BENCHMARK: 'benchmark' as const,
 } as const;
 
 // Operation status
@@ -34,6 +46,71 @@ export const OPERATION_STATUS = {
   INFO: 'info' as const,
 } as const;
 
+// Key slots; the device keystore only holds the default one, the simulated provider any number
+export const DEFAULT_KEY_ALIAS = 'default';
+export const KEY_ALIAS_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+// Biometric providers
+export const DEFAULT_BIOMETRIC_PROVIDER = 'native' as const;
+export const BIOMETRIC_PROVIDERS = [
+  { value: 'native' as const, label: 'Device Keystore' },
+  { value: 'simulated' as const, label: 'Simulated (JavaScript)' },
+];
+
+// Enrollment policy: key algorithm and authenticator options for newly created key pairs
+export const DEFAULT_ENROLLMENT_POLICY: EnrollmentPolicy = {
+  allowDeviceCredentials: false,
+  requireConfirmation: false,
+};
+export const KEY_ALGORITHMS = [
+  { value: 'EC-P256' as const, label: 'EC P-256' },
+  { value: 'RSA-2048' as const, label: 'RSA 2048' },
+];
+
+// Simulated provider fault injection
+export const DEFAULT_SLOW_PROMPT_DELAY_MS = 5000;
+export const SIMULATED_OPERATIONS = [
+  { value: 'createSignature' as const, label: 'Signature' },
+  { value: 'simplePrompt' as const, label: 'Prompt' },
+  { value: 'createKeys' as const, label: 'Create Keys' },
+  { value: 'deleteKeys' as const, label: 'Delete Keys' },
+  { value: 'isSensorAvailable' as const, label: 'Sensor Check' },
+];
+export const SIMULATED_FAULTS = [
+  { value: 'userCancel' as const, label: 'User Cancel' },
+  { value: 'lockout' as const, label: 'Lockout' },
+  { value: 'lockoutPermanent' as const, label: 'Permanent Lockout' },
+  { value: 'sensorUnavailable' as const, label: 'Sensor Unavailable' },
+  { value: 'keyInvalidated' as const, label: 'Key Invalidated' },
+  { value: 'slowPrompt' as const, label: 'Slow Prompt' },
+];
+
+// Signature latency benchmark
+export const DEFAULT_BENCHMARK_OPTIONS: BenchmarkOptions = {
+  iterations: 10,
+  payloadSizes: [32, 1024],
+};
+export const MAX_BENCHMARK_ITERATIONS = 100;
+export const MAX_BENCHMARK_PAYLOAD_SIZE = 65536;
+export const BENCHMARK_PHASES = ['payload', 'signature', 'verification', 'total'] as const;
+// Failures that end a run instead of being recorded as a failed sample
+export const BENCHMARK_ABORT_ERROR_CODES: BiometricErrorCode[] = [
+  'USER_CANCEL',
+  'USER_FALLBACK',
+  'SYSTEM_CANCEL',
+  'LOCKOUT',
+];
+
+// Public key export formats for enrollment
+export const DEFAULT_PUBLIC_KEY_FORMAT = 'base64' as const;
+export const PUBLIC_KEY_FORMATS = [
+  { value: 'base64' as const, label: 'Base64' },
+  { value: 'pem' as const, label: 'PEM' },
+  { value: 'der-hex' as const, label: 'DER (hex)' },
+  { value: 'jwk' as const, label: 'JWK' },
+  { value: 'ssh' as const, label: 'OpenSSH' },
+];
+
 // Default configurations
 export const DEFAULT_ENROLL_ENDPOINT: EndpointConfig = {
   url: '',
@@ -52,6 +129,14 @@ export const DEFAULT_VALIDATE_ENDPOINT: EndpointConfig = {
   customPayload: undefined,
 };
 
+export const DEFAULT_UNENROLL_ENDPOINT: EndpointConfig = {
+  url: '',
+  method: HTTP_METHODS.DELETE,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+};
+
 // Error messages
 export const ERROR_MESSAGES = {
   BIOMETRICS_NOT_AVAILABLE: 'Biometric authentication is not available on this device',
@@ -65,6 +150,83 @@ export const ERROR_MESSAGES = {
   UNKNOWN_ERROR: 'An unknown error occurred',
 } as const;
 
+// Biometric error catalog: what each error code means and how the user can get past it
+export const BIOMETRIC_ERROR_CATALOG: Record<
+  BiometricErrorCode,
+  { title: string; remediation: string; recoverable: boolean }
+> = {
+  USER_CANCEL: {
+    title: 'Authentication cancelled',
+    remediation: 'Run the operation again and complete the biometric prompt.',
+    recoverable: true,
+  },
+  SYSTEM_CANCEL: {
+    title: 'Authentication interrupted by the system',
+    remediation: 'Keep the app in the foreground and try again.',
+    recoverable: true,
+  },
+  USER_FALLBACK: {
+    title: 'Fallback authentication chosen',
+    remediation: 'Device credentials are not accepted for these keys; authenticate with biometrics instead.',
+    recoverable: true,
+  },
+  LOCKOUT: {
+    title: 'Biometrics temporarily locked',
+    remediation: 'Too many failed attempts. Wait about 30 seconds, then try again.',
+    recoverable: true,
+  },
+  LOCKOUT_PERMANENT: {
+    title: 'Biometrics locked',
+    remediation: 'Unlock the device with its PIN, pattern or passcode to re-enable biometrics.',
+    recoverable: false,
+  },
+  NO_BIOMETRICS_ENROLLED: {
+    title: 'No biometrics enrolled',
+    remediation: 'Add a fingerprint or face in the device security settings.',
+    recoverable: false,
+  },
+  NO_HARDWARE: {
+    title: 'No biometric hardware',
+    remediation: 'This device has no biometric sensor. Switch to the simulated provider to test flows.',
+    recoverable: false,
+  },
+  HW_UNAVAILABLE: {
+    title: 'Biometric sensor unavailable',
+    remediation: 'The sensor is busy or disabled. Wait a moment, check device settings and try again.',
+    recoverable: true,
+  },
+  KEY_INVALIDATED: {
+    title: 'Key invalidated',
+    remediation: 'Biometrics changed since enrollment. Delete the keys and enroll again.',
+    recoverable: false,
+  },
+  KEY_NOT_FOUND: {
+    title: 'No keys in slot',
+    remediation: 'Enroll to create keys in this slot first.',
+    recoverable: false,
+  },
+  INVALID_KEY_SLOT: {
+    title: 'Invalid key slot',
+    remediation: 'Choose a key slot the active provider supports.',
+    recoverable: false,
+  },
+  UNSUPPORTED_KEY_POLICY: {
+    title: 'Enrollment policy not supported',
+    remediation: 'Pick a key algorithm and authenticator options the active provider supports, or switch providers.',
+    recoverable: false,
+  },
+  TIMEOUT: {
+    title: 'Authentication timed out',
+    remediation: 'Respond to the biometric prompt sooner and try again.',
+    recoverable: true,
+  },
+  UNKNOWN: {
+    title: 'Biometric error',
+    remediation: 'Try again; if the problem persists, check the logs for details.',
+    recoverable: true,
+  },
+};
+
 // Success messages
 export const SUCCESS_MESSAGES = {
   KEYS_CREATED: 'Biometric keys created successfully',
@@ -76,11 +238,30 @@ export const SUCCESS_MESSAGES = {
 
 // Prompt messages
 export const PROMPT_MESSAGES = {
-  ENROLL: 'Authenticate to create biometric keys',
-  VALIDATE: 'Authenticate to create signature',
+  ENROLL: 'Authenticate to create biometric keys for enrollment',
+  VALIDATE: 'Authenticate to create signature for validation',
+  AUTHENTICATE: 'Authenticate to confirm your presence',
+  BENCHMARK: 'Authenticate to sign benchmark payload',
   DELETE_KEYS: 'Authenticate to delete biometric keys',
 } as const;
 
+// Prompt texts used until edited in the app or web panel
+export const DEFAULT_PROMPT_PROFILES: PromptProfiles = {
+  enroll: { promptMessage: PROMPT_MESSAGES.ENROLL, cancelButtonText: 'Cancel Enrollment' },
+  validate: { promptMessage: PROMPT_MESSAGES.VALIDATE, cancelButtonText: 'Cancel Validation' },
+  authenticate: { promptMessage: PROMPT_MESSAGES.AUTHENTICATE, cancelButtonText: 'Cancel Authentication' },
+  benchmark: { promptMessage: PROMPT_MESSAGES.BENCHMARK, cancelButtonText: 'Cancel Benchmark' },
+};
+export const PROMPT_OPERATIONS: { value: PromptOperation; label: string }[] = [
+  { value: 'enroll', label: 'Enroll' },
+  { value: 'validate', label: 'Validate' },
+  { value: 'authenticate', label: 'Authenticate' },
+  { value: 'benchmark', label: 'Benchmark' },
+];
+// Signing prompts of react-native-biometrics take no fallback title, so only these operations show one
+export const FALLBACK_PROMPT_OPERATIONS: PromptOperation[] = ['enroll', 'authenticate'];
+export const MAX_PROMPT_TEXT_LENGTH = 200;
+
 // Storage keys for AsyncStorage
 export const STORAGE_KEYS = {
   ENROLL_ENDPOINT: 'biometrics_enroll_endpoint',
@@ -95,6 +276,83 @@ export const API_CONFIG = {
   RETRY_DELAY: 1000, // 1 second
 } as const;
 
+// Per-endpoint request policy; retries stay off unless an endpoint turns them on
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeoutMs: API_CONFIG.TIMEOUT,
+  maxRetries: 0,
+  backoff: 'linear',
+  backoffDelayMs: API_CONFIG.RETRY_DELAY,
+  retryOnStatus: [],
+};
+export const BACKOFF_STRATEGIES = [
+  { value: 'none' as const, label: 'None' },
+  { value: 'fixed' as const, label: 'Fixed' },
+  { value: 'linear' as const, label: 'Linear' },
+  { value: 'exponential' as const, label: 'Exponential' },
+];
+export const MAX_REQUEST_TIMEOUT_MS = 300000;
+export const MAX_REQUEST_RETRIES = 10;
+export const MAX_BACKOFF_DELAY_MS = 60000;
+
+// Response assertions
+export const RESPONSE_ASSERTION_TYPES = [
+  { value: 'status' as const, label: 'Status Code' },
+  { value: 'jsonPathEquals' as const, label: 'JSON Path Equals' },
+  { value: 'jsonPathExists' as const, label: 'JSON Path Exists' },
+  { value: 'jsonPathMatches' as const, label: 'JSON Path Matches' },
+  { value: 'headerPresent' as const, label: 'Header Present' },
+  { value: 'maxLatency' as const, label: 'Max Latency' },
+];
+
+// Captured variables
+export const CAPTURE_SOURCES = [
+  { value: 'jsonPath' as const, label: 'JSON Path' },
+  { value: 'header' as const, label: 'Header' },
+];
+
+// Endpoint authentication
+export const ENDPOINT_AUTH_TYPES = [
+  { value: 'bearer' as const, label: 'Bearer Token' },
+  { value: 'basic' as const, label: 'Basic' },
+  { value: 'apiKey' as const, label: 'API Key' },
+  { value: 'oauth2ClientCredentials' as const, label: 'OAuth2 Client Credentials' },
+];
+
+export const API_KEY_LOCATIONS = [
+  { value: 'header' as const, label: 'Header' },
+  { value: 'query' as const, label: 'Query' },
+];
+
+/** Stands in for secrets in exports and logs; importing it keeps the current secret */
+export const SECRET_MASK = '********';
+
+/** Refresh OAuth2 tokens this long before they expire */
+export const OAUTH2_TOKEN_EXPIRY_SKEW_MS = 30000;
+
+// Request signing
+export const DEFAULT_REQUEST_SIGNING: Required<Omit<RequestSigning, 'secret'>> = {
+  canonicalTemplate: '{method}\n{path}\n{timestamp}\n{bodySha256}',
+  signatureHeader: 'X-Signature',
+  timestampHeader: 'X-Timestamp',
+};
+
+export const REQUEST_SIGNING_PLACEHOLDERS = [
+  { name: 'method', description: 'HTTP method' },
+  { name: 'path', description: 'Path and query string' },
+  { name: 'host', description: 'Host and port' },
+  { name: 'timestamp', description: 'Unix time in seconds' },
+  { name: 'bodySha256', description: 'Hex SHA-256 of the request body' },
+];
+
+/** Sent with every backend request; endpoint headers override them */
+export const DEFAULT_REQUEST_HEADERS: Record<string, string> = {
+  'Content-Type': 'application/json',
+  'Accept': 'application/json',
+};
+
+/** Most recent backend exchanges kept for the HAR export */
+export const MAX_RECORDED_EXCHANGES = 50;
+
 // UI constants
 export const UI_CONSTANTS = {
   MAX_LOG_ENTRIES: 100,
@@ -25,6 +25,7 @@ import {
   OPERATION_TYPES,
   OPERATION_STATUS,
   DEFAULT_ENROLL_ENDPOINT,
+  DEFAULT_UNENROLL_ENDPOINT,
   ERROR_MESSAGES,
   SUCCESS_MESSAGES,
 } from '../constants';
@@ -125,6 +126,7 @@ export function createInitialAppState(): AppState {
     keysExist: false,
     enrollEndpoint: DEFAULT_ENROLL_ENDPOINT,
     validateEndpoint: DEFAULT_ENROLL_ENDPOINT,
+    unenrollEndpoint: DEFAULT_UNENROLL_ENDPOINT,
     operationStatus: null,
     logs: [],
     isLoading: false,
@@ -4,27 +4,69 @@
  */
 
 import {
+  AuthenticationOutcome,
+  ChallengeConfig,
+  EndpointAuth,
   EndpointConfig,
+  EnrollmentPolicy,
+  HttpExchange,
   OperationResult,
   APIResponse,
   NetworkError,
   ValidationResult,
 } from '../types';
+import {
+  DEFAULT_PUBLIC_KEY_FORMAT,
+  DEFAULT_REQUEST_HEADERS,
+  MAX_RECORDED_EXCHANGES,
+  OAUTH2_TOKEN_EXPIRY_SKEW_MS,
+  PUBLIC_KEY_FORMATS,
+} from '../constants/biometrics';
+import { exportPublicKey } from '../utils/keyFormats';
+import { getJsonPathValue } from '../utils/jsonPath';
+import { renderBodyTemplate } from '../utils/bodyTemplate';
+import { resolveRequestPolicy, validateRequestPolicy } from '../utils/requestPolicy';
+import { evaluateAssertions, validateAssertions } from '../utils/responseAssertions';
+import {
+  captureVariables,
+  fillVariablePlaceholders,
+  substituteVariables,
+  validateCaptureRules,
+} from '../utils/capturedVariables';
+import {
+  encodeBasicCredentials,
+  maskQueryApiKey,
+  validateEndpointAuth,
+} from '../utils/endpointAuth';
+import { signRequest, validateRequestSigning } from '../utils/requestSigning';
+import { maskHttpExchange } from '../utils/httpExchange';
+import { webControlLogger } from '../utils/WebControlLogger';
+import { networkResilience } from '../utils/NetworkResilience';
+import { variableStore } from './VariableStore';
 
 export class BiometricAPIService {
-  private readonly DEFAULT_TIMEOUT = 10000; // 10 seconds
-  private readonly DEFAULT_HEADERS = {
-    'Content-Type': 'application/json',
-    'Accept': 'application/json',
-  };
+  /** OAuth2 access tokens by token URL, client, scope and audience */
+  private oauth2Tokens = new Map<string, { accessToken: string; expiresAt?: number }>();
+
+  /** Most recent exchanges of all operations, oldest first */
+  private recentExchanges: HttpExchange[] = [];
+
+  /** Last request sent to each endpoint, by method and configured URL */
+  private lastEndpointExchanges = new Map<string, HttpExchange>();
 
   /**
    * Enroll a public key with the backend service
+   * The key is sent in the endpoint's configured publicKeyFormat (base64 SubjectPublicKeyInfo by default)
+   * @param policy - Policy the key pair was created under, sent along so the backend can record it
+   * @param keyAlias - Key slot of the key pair, only sent when the endpoint's body template uses it
    */
   async enrollPublicKey(
     config: EndpointConfig,
-    publicKey: string
+    publicKey: string,
+    policy?: EnrollmentPolicy,
+    keyAlias?: string
   ): Promise<OperationResult> {
+    const exchanges: HttpExchange[] = [];
     try {
       // Validate configuration
       const validation = this.validateEndpointConfig(config);
@@ -34,41 +76,210 @@ export class BiometricAPIService {
         );
       }
 
+      const publicKeyFormat = config.publicKeyFormat || DEFAULT_PUBLIC_KEY_FORMAT;
+      let exportedKey;
+      try {
+        exportedKey = exportPublicKey(publicKey, publicKeyFormat);
+      } catch (error) {
+        return this.createErrorResult(
+          `Public key could not be exported as ${publicKeyFormat}: ${this.getErrorMessage(error)}`
+        );
+      }
+
       // Prepare request body
-      const requestBody = {
-        publicKey,
-        timestamp: new Date().toISOString(),
-      };
+      const timestamp = new Date().toISOString();
+      let requestBody;
+      try {
+        requestBody = config.bodyTemplate
+          ? renderBodyTemplate(
+              config.bodyTemplate,
+              'enroll',
+              {
+                publicKey: exportedKey,
+                publicKeyFormat,
+                enrollmentPolicy: policy,
+                keyAlias,
+                timestamp,
+              },
+              await variableStore.getAll()
+            )
+          : {
+              publicKey: exportedKey,
+              ...(config.publicKeyFormat ? { publicKeyFormat } : {}),
+              ...(policy ? { enrollmentPolicy: policy } : {}),
+              timestamp,
+            };
+      } catch (error) {
+        return this.createErrorResult(`Invalid body template: ${this.getErrorMessage(error)}`);
+      }
 
       // Make API request
-      const response = await this.makeRequest(config, requestBody);
+      const response = await this.makeRequest(config, requestBody, 'Backend enrollment', exchanges);
 
       if (response.success) {
         return this.createSuccessResult(
           'Enrollment successful',
-          response.data
+          response.data,
+          { ...response, exchanges }
         );
       } else {
         return this.createErrorResult(
           response.error || 'Enrollment failed',
-          response.data
+          response.data,
+          { ...response, exchanges }
         );
       }
     } catch (error) {
       return this.createErrorResult(
-        `Enrollment request failed: ${this.getErrorMessage(error)}`
+        `Enrollment request failed: ${this.getErrorMessage(error)}`,
+        undefined,
+        { exchanges }
+      );
+    }
+  }
+
+  /**
+   * Fetch a server-issued challenge to sign
+   * @returns OperationResult whose data holds the extracted challenge and the raw response
+   */
+  async fetchChallenge(config: ChallengeConfig): Promise<OperationResult> {
+    const exchanges: HttpExchange[] = [];
+    try {
+      // Validate configuration
+      const validation = this.validateEndpointConfig(config);
+      if (!config.challengePath || !config.challengePath.trim()) {
+        validation.errors.push('Challenge JSON path is required');
+      }
+      if (validation.errors.length > 0) {
+        return this.createErrorResult(
+          `Invalid challenge configuration: ${validation.errors.join(', ')}`
+        );
+      }
+
+      // Make API request
+      const response = await this.makeRequest(
+        config,
+        { timestamp: new Date().toISOString() },
+        'Challenge request',
+        exchanges
+      );
+
+      if (!response.success) {
+        return this.createErrorResult(
+          response.error || 'Challenge request failed',
+          response.data,
+          { exchanges }
+        );
+      }
+
+      const value = getJsonPathValue(response.data, config.challengePath);
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        return this.createErrorResult(
+          value === undefined || value === null
+            ? `Challenge response has no value at "${config.challengePath}"`
+            : `Challenge at "${config.challengePath}" must be a string or number`,
+          response.data,
+          { exchanges }
+        );
+      }
+
+      return this.createSuccessResult(
+        'Challenge received',
+        { challenge: String(value), response: response.data },
+        { exchanges }
+      );
+    } catch (error) {
+      return this.createErrorResult(
+        `Challenge request failed: ${this.getErrorMessage(error)}`,
+        undefined,
+        { exchanges }
       );
     }
   }
 
   /**
    * Validate a signature with the backend service
+   * @param challenge - Server-issued challenge that was signed, echoed back when provided
+   * @param keyAlias - Key slot used for signing, only sent when the endpoint's body template uses it
    */
   async validateSignature(
     config: EndpointConfig,
     signature: string,
-    payload: string
+    payload: string,
+    challenge?: string,
+    keyAlias?: string
   ): Promise<OperationResult> {
+    const exchanges: HttpExchange[] = [];
+    try {
+      // Validate configuration
+      const validation = this.validateEndpointConfig(config);
+      if (!validation.isValid) {
+        return this.createErrorResult(
+          `Invalid endpoint configuration: ${validation.errors.join(', ')}`
+        );
+      }
+
+      // Prepare request body
+      const timestamp = new Date().toISOString();
+      let requestBody;
+      try {
+        requestBody = config.bodyTemplate
+          ? renderBodyTemplate(
+              config.bodyTemplate,
+              'validate',
+              {
+                signature,
+                payload,
+                challenge,
+                keyAlias,
+                timestamp,
+              },
+              await variableStore.getAll()
+            )
+          : {
+              signature,
+              payload,
+              ...(challenge !== undefined ? { challenge } : {}),
+              timestamp,
+            };
+      } catch (error) {
+        return this.createErrorResult(`Invalid body template: ${this.getErrorMessage(error)}`);
+      }
+
+      // Make API request
+      const response = await this.makeRequest(config, requestBody, 'Backend validation', exchanges);
+
+      if (response.success) {
+        return this.createSuccessResult(
+          'Validation successful',
+          response.data,
+          { ...response, exchanges }
+        );
+      } else {
+        return this.createErrorResult(
+          response.error || 'Validation failed',
+          response.data,
+          { ...response, exchanges }
+        );
+      }
+    } catch (error) {
+      return this.createErrorResult(
+        `Validation request failed: ${this.getErrorMessage(error)}`,
+        undefined,
+        { exchanges }
+      );
+    }
+  }
+
+  /**
+   * Report the outcome of an authenticate-only (user presence) check to the backend
+   * Failed checks are reported too, with the classified error code
+   */
+  async reportAuthentication(
+    config: EndpointConfig,
+    outcome: AuthenticationOutcome
+  ): Promise<OperationResult> {
+    const exchanges: HttpExchange[] = [];
     try {
       // Validate configuration
       const validation = this.validateEndpointConfig(config);
@@ -80,66 +291,541 @@ export class BiometricAPIService {
 
       // Prepare request body
       const requestBody = {
-        signature,
-        payload,
+        authenticated: outcome.authenticated,
+        ...(outcome.biometryType ? { biometryType: outcome.biometryType } : {}),
+        ...(outcome.errorCode ? { errorCode: outcome.errorCode } : {}),
         timestamp: new Date().toISOString(),
       };
 
       // Make API request
-      const response = await this.makeRequest(config, requestBody);
+      const response = await this.makeRequest(config, requestBody, 'Authentication report', exchanges);
 
       if (response.success) {
         return this.createSuccessResult(
-          'Validation successful',
-          response.data
+          'Authentication report accepted',
+          response.data,
+          { ...response, exchanges }
         );
       } else {
         return this.createErrorResult(
-          response.error || 'Validation failed',
-          response.data
+          response.error || 'Authentication report failed',
+          response.data,
+          { ...response, exchanges }
         );
       }
     } catch (error) {
       return this.createErrorResult(
-        `Validation request failed: ${this.getErrorMessage(error)}`
+        `Authentication report request failed: ${this.getErrorMessage(error)}`,
+        undefined,
+        { exchanges }
       );
     }
   }
 
   /**
-   * Make HTTP request with timeout and error handling
+   * Remove an enrolled public key from the backend service
+   * @param publicKey - Public key of the slot, sent so the backend can match the registration
    */
-  private async makeRequest(
+  async unenrollPublicKey(
     config: EndpointConfig,
-    body?: any
+    keyAlias: string,
+    publicKey?: string
+  ): Promise<OperationResult> {
+    const exchanges: HttpExchange[] = [];
+    try {
+      // Validate configuration
+      const validation = this.validateEndpointConfig(config);
+      if (!validation.isValid) {
+        return this.createErrorResult(
+          `Invalid endpoint configuration: ${validation.errors.join(', ')}`
+        );
+      }
+
+      // Prepare request body
+      const requestBody = {
+        keyAlias,
+        ...(publicKey ? { publicKey } : {}),
+        timestamp: new Date().toISOString(),
+      };
+
+      // Make API request
+      const response = await this.makeRequest(config, requestBody, 'Backend unenrollment', exchanges);
+
+      if (response.success) {
+        return this.createSuccessResult(
+          'Unenrollment successful',
+          response.data,
+          { ...response, exchanges }
+        );
+      } else {
+        return this.createErrorResult(
+          response.error || 'Unenrollment failed',
+          response.data,
+          { ...response, exchanges }
+        );
+      }
+    } catch (error) {
+      return this.createErrorResult(
+        `Unenrollment request failed: ${this.getErrorMessage(error)}`,
+        undefined,
+        { exchanges }
+      );
+    }
+  }
+
+  /**
+   * Most recent HTTP exchanges of all operations, oldest first, with credentials masked
+   */
+  getRecentExchanges(): HttpExchange[] {
+    return [...this.recentExchanges];
+  }
+
+  /**
+   * Last exchange with an endpoint, as sent under its current method and URL
+   * OAuth2 token requests are not included.
+   */
+  getLastExchange(config: EndpointConfig | ChallengeConfig): HttpExchange | undefined {
+    return this.lastEndpointExchanges.get(`${config.method} ${config.url}`);
+  }
+
+  /**
+   * Forget the recorded exchanges
+   */
+  clearRecentExchanges(): void {
+    this.recentExchanges = [];
+    this.lastEndpointExchanges.clear();
+  }
+
+  /**
+   * Make HTTP request under the endpoint's request policy
+   * Network errors, timeouts and the policy's retry-on status codes are retried by
+   * networkResilience, which reports each retry to its connection listeners.
+   * The endpoint's response assertions are checked on the final response, and its capture
+   * rules store values from a successful one for later requests.
+   * Each attempt carries the endpoint's credentials and, when configured, a fresh signature.
+   * @param exchanges - Receives every HTTP exchange of the call, also when it throws
+   * @throws Error if the URL, a header or the credentials use a variable that has not been
+   * captured, or if an OAuth2 token cannot be fetched
+   */
+  private async makeRequest(
+    config: EndpointConfig | ChallengeConfig,
+    body: any,
+    context: string,
+    exchanges: HttpExchange[]
   ): Promise<APIResponse> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.DEFAULT_TIMEOUT);
+    const policy = resolveRequestPolicy('requestPolicy' in config ? config.requestPolicy : undefined);
+    const requestConfig = this.substituteRequestVariables(config, await variableStore.getAll());
 
+    let response: APIResponse;
     try {
-      const requestOptions: RequestInit = {
-        method: config.method,
+      response = await networkResilience.executeWithRetry(
+        () => this.sendAuthorizedRequest(requestConfig, body, policy.timeoutMs, exchanges),
+        context,
+        policy.maxRetries + 1,
+        {
+          backoff: policy.backoff,
+          baseDelay: policy.backoffDelayMs,
+          retryResult: result =>
+            !result.success && result.status !== undefined && policy.retryOnStatus.includes(result.status)
+              ? `HTTP ${result.status}`
+              : undefined,
+        }
+      );
+    } finally {
+      this.rememberLastExchange(config, requestConfig, exchanges);
+    }
+
+    const checked =
+      'assertions' in config && config.assertions?.length
+        ? this.applyAssertions(response, config.assertions)
+        : response;
+
+    return 'captures' in config && config.captures?.length && checked.success
+      ? this.applyCaptures(checked, config.captures)
+      : checked;
+  }
+
+  /**
+   * Fill {{name}} placeholders in the URL, header values, credentials and signing secret from
+   * the variable store
+   */
+  private substituteRequestVariables<T extends EndpointConfig | ChallengeConfig>(
+    config: T,
+    variables: Record<string, string>
+  ): T {
+    const headers = config.headers
+      ? Object.fromEntries(
+          Object.entries(config.headers).map(([name, value]) => [
+            name,
+            substituteVariables(value, variables),
+          ])
+        )
+      : undefined;
+    const auth =
+      'auth' in config && config.auth
+        ? (Object.fromEntries(
+            Object.entries(config.auth).map(([field, value]) => [
+              field,
+              typeof value === 'string' ? substituteVariables(value, variables) : value,
+            ])
+          ) as EndpointAuth)
+        : undefined;
+
+    const signing =
+      'signing' in config && config.signing
+        ? { ...config.signing, secret: substituteVariables(config.signing.secret, variables) }
+        : undefined;
+
+    return {
+      ...config,
+      url: substituteVariables(config.url, variables),
+      ...(headers ? { headers } : {}),
+      ...(auth ? { auth } : {}),
+      ...(signing ? { signing } : {}),
+    };
+  }
+
+  /**
+   * Send a request with the endpoint's credentials
+   * A 401 answered to a cached OAuth2 token drops the token and retries once with a new one;
+   * a token fetched for this request is not fetched again.
+   */
+  private async sendAuthorizedRequest(
+    config: EndpointConfig | ChallengeConfig,
+    body: any,
+    timeoutMs: number,
+    exchanges: HttpExchange[]
+  ): Promise<APIResponse> {
+    const auth = 'auth' in config ? config.auth : undefined;
+    if (!auth) {
+      return this.sendRequest(config, body, timeoutMs, exchanges);
+    }
+    if (auth.type !== 'oauth2ClientCredentials') {
+      return this.sendRequest(this.applyAuth(config, auth), body, timeoutMs, exchanges);
+    }
+
+    const cacheKey = JSON.stringify([auth.tokenUrl, auth.clientId, auth.scope, auth.audience]);
+    const cached = this.oauth2Tokens.get(cacheKey);
+    const token = await this.getOAuth2Token(auth, cacheKey, timeoutMs, exchanges);
+    const response = await this.sendRequest(
+      this.applyAuth(config, auth, token),
+      body,
+      timeoutMs,
+      exchanges
+    );
+    if (response.status !== 401 || token !== cached?.accessToken) {
+      return response;
+    }
+
+    // Another request may already have replaced the rejected token
+    if (this.oauth2Tokens.get(cacheKey)?.accessToken === token) {
+      this.oauth2Tokens.delete(cacheKey);
+    }
+    const freshToken = await this.getOAuth2Token(auth, cacheKey, timeoutMs, exchanges);
+    return this.sendRequest(this.applyAuth(config, auth, freshToken), body, timeoutMs, exchanges);
+  }
+
+  /**
+   * Add credentials to the headers, or to the query string for query API keys
+   * @param accessToken - Token to send for OAuth2 client credentials
+   */
+  private applyAuth<T extends EndpointConfig | ChallengeConfig>(
+    config: T,
+    auth: EndpointAuth,
+    accessToken?: string
+  ): T {
+    const withHeader = (name: string, value: string): T => ({
+      ...config,
+      headers: { ...config.headers, [name]: value },
+    });
+
+    switch (auth.type) {
+      case 'bearer':
+        return withHeader('Authorization', `Bearer ${auth.token}`);
+      case 'basic':
+        return withHeader('Authorization', encodeBasicCredentials(auth.username, auth.password));
+      case 'apiKey': {
+        if (auth.location === 'header') {
+          return withHeader(auth.name, auth.value);
+        }
+        const [path, fragment] = config.url.split('#', 2);
+        const parameter = `${encodeURIComponent(auth.name)}=${encodeURIComponent(auth.value)}`;
+        const url = `${path}${path.includes('?') ? '&' : '?'}${parameter}`;
+        return { ...config, url: fragment === undefined ? url : `${url}#${fragment}` };
+      }
+      case 'oauth2ClientCredentials':
+        return withHeader('Authorization', `Bearer ${accessToken}`);
+    }
+  }
+
+  /**
+   * Get an OAuth2 access token, from the cache while it has not expired
+   */
+  private async getOAuth2Token(
+    auth: Extract<EndpointAuth, { type: 'oauth2ClientCredentials' }>,
+    cacheKey: string,
+    timeoutMs: number,
+    exchanges: HttpExchange[]
+  ): Promise<string> {
+    const cached = this.oauth2Tokens.get(cacheKey);
+    if (cached && (cached.expiresAt === undefined || cached.expiresAt > Date.now())) {
+      return cached.accessToken;
+    }
+
+    const form = [
+      ['grant_type', 'client_credentials'],
+      ...(auth.scope ? [['scope', auth.scope]] : []),
+      ...(auth.audience ? [['audience', auth.audience]] : []),
+    ]
+      .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`)
+      .join('&');
+
+    const response = await this.exchange(
+      auth.tokenUrl,
+      {
+        method: 'POST',
         headers: {
-          ...this.DEFAULT_HEADERS,
-          ...config.headers,
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Accept': 'application/json',
+          'Authorization': encodeBasicCredentials(auth.clientId, auth.clientSecret),
         },
-        signal: controller.signal,
-      };
+        body: form,
+      },
+      timeoutMs,
+      exchanges,
+      auth
+    );
+    if (!response.success) {
+      throw new Error(`OAuth2 token request failed: ${response.error}`);
+    }
 
-      // Add body for methods that support it
-      if (body && ['POST', 'PUT', 'PATCH'].includes(config.method)) {
-        requestOptions.body = JSON.stringify(body);
-      }
+    const accessToken = response.data?.access_token;
+    if (typeof accessToken !== 'string' || accessToken.length === 0) {
+      throw new Error('OAuth2 token request failed: response has no access_token');
+    }
 
-      const response = await fetch(config.url, requestOptions);
-      clearTimeout(timeoutId);
+    // Tokens without expires_in are kept until the endpoint rejects them
+    const expiresIn = Number(response.data.expires_in);
+    const token = {
+      accessToken,
+      ...(expiresIn > 0
+        ? { expiresAt: Date.now() + expiresIn * 1000 - OAUTH2_TOKEN_EXPIRY_SKEW_MS }
+        : {}),
+    };
+    this.oauth2Tokens.set(cacheKey, token);
+    return accessToken;
+  }
+
+  /**
+   * Store the values named by the endpoint's capture rules
+   * Rules whose value is missing from the response leave the stored variable unchanged.
+   */
+  private async applyCaptures(
+    response: APIResponse,
+    captures: NonNullable<EndpointConfig['captures']>
+  ): Promise<APIResponse> {
+    const captured = captureVariables(captures, response);
+    if (Object.keys(captured.values).length > 0) {
+      await variableStore.merge(captured.values);
+    }
+    return { ...response, captured };
+  }
+
+  /**
+   * Decide the response verdict from the endpoint's assertions
+   * An expected-status assertion replaces the 2xx check; every assertion has to pass.
+   */
+  private applyAssertions(
+    response: APIResponse,
+    assertions: NonNullable<EndpointConfig['assertions']>
+  ): APIResponse {
+    const results = evaluateAssertions(assertions, response);
+    const failed = results.filter(result => !result.passed);
+    const statusChecked = assertions.some(assertion => assertion.type === 'status');
+    const statusAccepted = statusChecked || response.success;
+
+    if (statusAccepted && failed.length === 0) {
+      return { ...response, success: true, error: undefined, assertions: results };
+    }
+
+    return {
+      ...response,
+      success: false,
+      error:
+        failed.length > 0
+          ? `Assertion failed: ${failed.map(result => result.message).join('; ')}`
+          : response.error,
+      assertions: results,
+    };
+  }
+
+  /**
+   * Send a single HTTP request with timeout and error handling
+   * Signed endpoints get their signature here, over the final URL and body.
+   */
+  private async sendRequest(
+    config: EndpointConfig | ChallengeConfig,
+    body: any,
+    timeoutMs: number,
+    exchanges: HttpExchange[]
+  ): Promise<APIResponse> {
+    const auth = 'auth' in config ? config.auth : undefined;
+    const requestOptions: RequestInit = {
+      method: config.method,
+      headers: {
+        ...DEFAULT_REQUEST_HEADERS,
+        ...config.headers,
+      },
+    };
+
+    // Add body for methods that support it
+    if (body && ['POST', 'PUT', 'PATCH', 'DELETE'].includes(config.method)) {
+      requestOptions.body = JSON.stringify(body);
+    }
+
+    if ('signing' in config && config.signing) {
+      const signature = signRequest(config.signing, {
+        method: config.method,
+        url: config.url,
+        body: requestOptions.body as string | undefined,
+      });
+      requestOptions.headers = { ...requestOptions.headers, ...signature.headers };
+      webControlLogger.logNetwork('debug', 'Signed request', maskQueryApiKey(config.url, auth), {
+        canonicalString: maskQueryApiKey(signature.canonicalString, auth),
+      });
+    }
+
+    return this.exchange(config.url, requestOptions, timeoutMs, exchanges, auth);
+  }
+
+  /**
+   * Fetch and parse a response, recording the exchange with the credentials masked
+   * @param auth - Credentials of the endpoint, to be masked in the record
+   */
+  private async exchange(
+    url: string,
+    options: RequestInit,
+    timeoutMs: number,
+    exchanges: HttpExchange[],
+    auth?: EndpointAuth
+  ): Promise<APIResponse> {
+    const startTime = Date.now();
+    const request: HttpExchange['request'] = {
+      method: options.method || 'GET',
+      url,
+      headers: { ...(options.headers as Record<string, string>) },
+      ...(typeof options.body === 'string' ? { body: options.body } : {}),
+    };
+
+    let response: Response;
+    try {
+      response = await this.fetchWithTimeout(url, options, timeoutMs);
+    } catch (error) {
+      this.recordExchange(
+        exchanges,
+        {
+          startedDateTime: new Date(startTime).toISOString(),
+          request,
+          error: this.getErrorMessage(error),
+          timings: this.readTimings(url, startTime),
+        },
+        auth
+      );
+      throw error;
+    }
+
+    const result = await this.handleResponse(response);
+    const timings = this.readTimings(url, startTime);
+    this.recordExchange(
+      exchanges,
+      {
+        startedDateTime: new Date(startTime).toISOString(),
+        request,
+        response: {
+          status: response.status,
+          statusText: response.statusText || '',
+          headers: result.headers || {},
+          ...(result.data !== undefined
+            ? { body: typeof result.data === 'string' ? result.data : JSON.stringify(result.data) }
+            : {}),
+        },
+        timings,
+      },
+      auth
+    );
+    return { ...result, latencyMs: timings.totalMs };
+  }
+
+  /**
+   * Time since startTime, with the DNS lookup when the platform keeps resource timing entries
+   */
+  private readTimings(url: string, startTime: number): HttpExchange['timings'] {
+    const totalMs = Date.now() - startTime;
+    const performanceApi = (globalThis as any).performance;
+    if (typeof performanceApi?.getEntriesByName !== 'function') {
+      return { totalMs };
+    }
+
+    const entries = performanceApi.getEntriesByName(url);
+    const entry = Array.isArray(entries) ? entries[entries.length - 1] : undefined;
+    const dnsMs =
+      entry && typeof entry.domainLookupStart === 'number' && typeof entry.domainLookupEnd === 'number'
+        ? Math.round(entry.domainLookupEnd - entry.domainLookupStart)
+        : undefined;
+    return dnsMs !== undefined && dnsMs >= 0 ? { totalMs, dnsMs } : { totalMs };
+  }
+
+  /**
+   * Remember the last exchange that went to the endpoint itself rather than to its token URL
+   * @param config - Endpoint as configured, which keys the exchange
+   * @param requestConfig - Endpoint with its variables filled in, as requested
+   */
+  private rememberLastExchange(
+    config: EndpointConfig | ChallengeConfig,
+    requestConfig: EndpointConfig | ChallengeConfig,
+    exchanges: HttpExchange[]
+  ): void {
+    const auth = 'auth' in requestConfig ? requestConfig.auth : undefined;
+    const tokenUrl = auth?.type === 'oauth2ClientCredentials' ? auth.tokenUrl : undefined;
+    const sent = [...exchanges].reverse().find(exchange => exchange.request.url !== tokenUrl);
+    if (sent) {
+      this.lastEndpointExchanges.set(`${config.method} ${config.url}`, sent);
+    }
+  }
+
+  /**
+   * Add an exchange, masked, to the operation's exchanges and to the recent ones
+   */
+  private recordExchange(
+    exchanges: HttpExchange[],
+    exchange: HttpExchange,
+    auth?: EndpointAuth
+  ): void {
+    const masked = maskHttpExchange(exchange, auth);
+    exchanges.push(masked);
+    this.recentExchanges = [...this.recentExchanges, masked].slice(-MAX_RECORDED_EXCHANGES);
+  }
+
+  /**
+   * Fetch that is aborted after timeoutMs
+   */
+  private async fetchWithTimeout(
+    url: string,
+    options: RequestInit,
+    timeoutMs: number
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
-      return await this.handleResponse(response);
+    try {
+      const response = await fetch(url, { ...options, signal: controller.signal });
+      clearTimeout(timeoutId);
+      return response;
     } catch (error) {
       clearTimeout(timeoutId);
       
       if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error('Request timeout');
+        throw new Error(`Request timeout after ${timeoutMs}ms`);
       }
       
       throw error;
@@ -150,6 +836,8 @@ export class BiometricAPIService {
    * Handle HTTP response and parse JSON
    */
   private async handleResponse(response: Response): Promise<APIResponse> {
+    const headers = this.readHeaders(response);
+
     try {
       const contentType = response.headers.get('content-type');
       let data: any;
@@ -165,6 +853,7 @@ export class BiometricAPIService {
           success: true,
           data,
           status: response.status,
+          headers,
         };
       } else {
         return {
@@ -172,6 +861,7 @@ export class BiometricAPIService {
           error: this.extractErrorMessage(data, response.status),
           data,
           status: response.status,
+          headers,
         };
       }
     } catch (error) {
@@ -179,10 +869,24 @@ export class BiometricAPIService {
         success: false,
         error: `Failed to parse response: ${this.getErrorMessage(error)}`,
         status: response.status,
+        headers,
       };
     }
   }
 
+  /**
+   * Collect response headers with lower-case names
+   */
+  private readHeaders(response: Response): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (response.headers && typeof response.headers.forEach === 'function') {
+      response.headers.forEach((value, name) => {
+        headers[name.toLowerCase()] = value;
+      });
+    }
+    return headers;
+  }
+
   /**
    * Extract error message from response data
    */
@@ -230,7 +934,7 @@ export class BiometricAPIService {
   /**
    * Validate endpoint configuration
    */
-  private validateEndpointConfig(config: EndpointConfig): ValidationResult {
+  private validateEndpointConfig(config: EndpointConfig | ChallengeConfig): ValidationResult {
     const errors: string[] = [];
 
     // Validate URL
@@ -238,14 +942,14 @@ export class BiometricAPIService {
       errors.push('URL is required and must be a string');
     } else {
       try {
-        new URL(config.url);
+        new URL(fillVariablePlaceholders(config.url));
       } catch {
         errors.push('URL must be a valid URL format');
       }
     }
 
     // Validate HTTP method
-    const validMethods = ['GET', 'POST', 'PUT', 'PATCH'];
+    const validMethods = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
     if (!config.method || !validMethods.includes(config.method)) {
       errors.push(`HTTP method must be one of: ${validMethods.join(', ')}`);
     }
@@ -255,6 +959,42 @@ export class BiometricAPIService {
       errors.push('Headers must be an object');
     }
 
+    // Validate request policy if provided
+    if ('requestPolicy' in config && config.requestPolicy !== undefined) {
+      errors.push(...validateRequestPolicy(config.requestPolicy).errors);
+    }
+
+    // Validate response assertions if provided
+    if ('assertions' in config && config.assertions !== undefined) {
+      errors.push(...validateAssertions(config.assertions).errors);
+    }
+
+    // Validate capture rules if provided
+    if ('captures' in config && config.captures !== undefined) {
+      errors.push(...validateCaptureRules(config.captures).errors);
+    }
+
+    // Validate credentials if provided
+    if ('auth' in config && config.auth !== undefined) {
+      errors.push(...validateEndpointAuth(config.auth).errors);
+    }
+
+    // Validate request signing if provided
+    if ('signing' in config && config.signing !== undefined) {
+      errors.push(...validateRequestSigning(config.signing).errors);
+    }
+
+    // Validate public key format if provided
+    if (
+      'publicKeyFormat' in config &&
+      config.publicKeyFormat &&
+      !PUBLIC_KEY_FORMATS.some(format => format.value === config.publicKeyFormat)
+    ) {
+      errors.push(
+        `Public key format must be one of: ${PUBLIC_KEY_FORMATS.map(format => format.value).join(', ')}`
+      );
+    }
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -266,12 +1006,16 @@ export class BiometricAPIService {
    */
   private createSuccessResult(
     message: string,
-    data?: any
+    data?: any,
+    details?: Pick<OperationResult, 'assertions' | 'captured' | 'exchanges'>
   ): OperationResult {
     return {
       success: true,
       message,
       data,
+      ...(details?.assertions ? { assertions: details.assertions } : {}),
+      ...(details?.captured ? { captured: details.captured } : {}),
+      ...(details?.exchanges?.length ? { exchanges: details.exchanges } : {}),
       timestamp: new Date(),
     };
   }
@@ -281,12 +1025,16 @@ export class BiometricAPIService {
    */
   private createErrorResult(
     message: string,
-    data?: any
+    data?: any,
+    details?: Pick<OperationResult, 'assertions' | 'captured' | 'exchanges'>
   ): OperationResult {
     return {
       success: false,
       message,
       data,
+      ...(details?.assertions ? { assertions: details.assertions } : {}),
+      ...(details?.captured ? { captured: details.captured } : {}),
+      ...(details?.exchanges?.length ? { exchanges: details.exchanges } : {}),
       timestamp: new Date(),
     };
   }
@@ -0,0 +1,61 @@
+/**
+ * BiometricProvider - Abstraction over where biometric key pairs live and signatures are made
+ * BiometricService depends on this interface so flows can run against the device keystore
+ * or against a simulation on emulators and CI machines without sensors.
+ */
+
+import {
+  BiometricCreateKeysResult,
+  BiometricDeleteKeysResult,
+  BiometricKeysResult,
+  BiometricProviderType,
+  BiometricSensorResult,
+  BiometricSignatureResult,
+  BiometricSimplePromptOptions,
+  BiometricSimplePromptResult,
+  EnrollmentPolicy,
+  KeyAlgorithm,
+} from '../types/biometrics';
+
+export interface BiometricProviderSignatureOptions {
+  promptMessage: string;
+  payload: string;
+  cancelButtonText: string;
+  keyAlias: string;
+  /** Policy the slot's key pair was enrolled under */
+  policy?: EnrollmentPolicy;
+}
+
+export interface BiometricProvider {
+  readonly type: BiometricProviderType;
+
+  /** Whether key pairs can be held in more than one named slot */
+  readonly supportsKeySlots: boolean;
+
+  /** Key algorithms createKeys can produce; the first is used when a policy names none */
+  readonly keyAlgorithms: KeyAlgorithm[];
+
+  /** Whether the prompt can be made to require a confirmation tap after a passive match */
+  readonly supportsConfirmation: boolean;
+
+  isSensorAvailable(): Promise<BiometricSensorResult>;
+
+  biometricKeysExist(keyAlias: string): Promise<BiometricKeysResult>;
+
+  /**
+   * Create a key pair in the slot, replacing any existing one
+   * @param policy - Policy with its algorithm resolved to one of keyAlgorithms
+   * @returns The base64 SubjectPublicKeyInfo public key
+   */
+  createKeys(keyAlias: string, policy: EnrollmentPolicy): Promise<BiometricCreateKeysResult>;
+
+  deleteKeys(keyAlias: string): Promise<BiometricDeleteKeysResult>;
+
+  /**
+   * Prompt for biometrics and sign the UTF-8 payload with the slot's private key
+   * @returns The base64 signature on success
+   */
+  createSignature(options: BiometricProviderSignatureOptions): Promise<BiometricSignatureResult>;
+
+  simplePrompt(options: BiometricSimplePromptOptions): Promise<BiometricSimplePromptResult>;
+}
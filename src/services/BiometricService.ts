@@ -3,28 +3,100 @@
  * Provides methods for sensor detection, key management, and signature creation
  */
 
-import ReactNativeBiometrics, { BiometryTypes } from 'react-native-biometrics';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import {
   BiometricStatus,
-  BiometricSensorResult,
-  BiometricKeysResult,
-  BiometricCreateKeysResult,
-  BiometricDeleteKeysResult,
-  BiometricSignatureResult,
+  BiometricProviderType,
   BiometricSignatureOptions,
   BiometricSimplePromptOptions,
-  BiometricSimplePromptResult,
+  EnrollmentPolicy,
   OperationResult,
-  BiometricError,
+  SignatureVerification,
 } from '../types/biometrics';
+import {
+  BIOMETRIC_PROVIDERS,
+  DEFAULT_ENROLLMENT_POLICY,
+  DEFAULT_KEY_ALIAS,
+  DEFAULT_PROMPT_PROFILES,
+  KEY_ALIAS_PATTERN,
+} from '../constants/biometrics';
+import { verifySignature } from '../utils/signatureVerifier';
+import { PayloadTemplateContext, renderPayloadTemplate } from '../utils/payloadTemplate';
+import { createBiometricError, mapBiometricError } from '../utils/biometricErrors';
+import { KeyRegistry, keyRegistry } from './KeyRegistry';
+import { BiometricProvider } from './BiometricProvider';
+import { NativeBiometricProvider } from './NativeBiometricProvider';
+import { SimulatedBiometricProvider } from './SimulatedBiometricProvider';
 
 export class BiometricService {
-  private rnBiometrics: ReactNativeBiometrics;
+  private static readonly PROVIDER_STORAGE_KEY = '@biometrics_playground:biometric_provider';
+
+  private provider: BiometricProvider;
+  private keyRegistry: KeyRegistry;
+
+  constructor(registry: KeyRegistry = keyRegistry, provider: BiometricProvider = new NativeBiometricProvider()) {
+    this.keyRegistry = registry;
+    this.provider = provider;
+  }
+
+  /**
+   * Get the type of the provider that holds keys and creates signatures
+   */
+  getProviderType(): BiometricProviderType {
+    return this.provider.type;
+  }
 
-  constructor() {
-    this.rnBiometrics = new ReactNativeBiometrics({
-      allowDeviceCredentials: false,
-    });
+  /**
+   * Whether the active provider can hold keys in slots other than the default one
+   */
+  supportsKeySlots(): boolean {
+    return this.provider.supportsKeySlots;
+  }
+
+  /**
+   * Replace the provider without persisting the choice
+   */
+  setProvider(provider: BiometricProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Switch to a provider by type and remember the choice across restarts
+   * @param type - 'native' for the device keystore, 'simulated' for JavaScript keys
+   * @returns Promise<OperationResult> - Result of the switch
+   */
+  async selectProvider(type: BiometricProviderType): Promise<OperationResult> {
+    try {
+      this.provider = this.createProvider(type);
+      await AsyncStorage.setItem(BiometricService.PROVIDER_STORAGE_KEY, type);
+
+      return {
+        success: true,
+        message: `Using the ${type} biometric provider`,
+        data: { biometricProvider: type },
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return this.handleOperationError(error, 'Failed to select biometric provider');
+    }
+  }
+
+  /**
+   * Restore the provider selected in a previous session
+   * @returns Promise<BiometricProviderType> - Type of the active provider
+   */
+  async restoreProvider(): Promise<BiometricProviderType> {
+    try {
+      const stored = await AsyncStorage.getItem(BiometricService.PROVIDER_STORAGE_KEY);
+      const known = BIOMETRIC_PROVIDERS.find(option => option.value === stored);
+      if (known && known.value !== this.provider.type) {
+        this.provider = this.createProvider(known.value);
+      }
+    } catch (error) {
+      console.error('Error restoring biometric provider:', error);
+    }
+
+    return this.provider.type;
   }
 
   /**
@@ -33,12 +105,13 @@ export class BiometricService {
    */
   async checkBiometricAvailability(): Promise<BiometricStatus> {
     try {
-      const result = await this.rnBiometrics.isSensorAvailable();
+      const result = await this.provider.isSensorAvailable();
       
       return {
         available: result.available,
-        biometryType: result.biometryType as any,
+        biometryType: result.biometryType,
         error: result.error,
+        errorCode: !result.available && result.error ? mapBiometricError(result.error).code : undefined,
       };
     } catch (error) {
       return this.handleBiometricError(error, 'Failed to check biometric availability');
@@ -47,11 +120,16 @@ export class BiometricService {
 
   /**
    * Check if biometric keys exist in the keystore
+   * @param keyAlias - Key slot to check, defaults to the default slot
    * @returns Promise<boolean> - True if keys exist, false otherwise
    */
-  async checkKeysExist(): Promise<boolean> {
+  async checkKeysExist(keyAlias: string = DEFAULT_KEY_ALIAS): Promise<boolean> {
     try {
-      const result = await this.rnBiometrics.biometricKeysExist();
+      if (this.validateKeyAlias(keyAlias)) {
+        return false;
+      }
+
+      const result = await this.provider.biometricKeysExist(keyAlias);
       return result.keysExist;
     } catch (error) {
       console.error('Error checking keys existence:', error);
@@ -60,18 +138,57 @@ export class BiometricService {
   }
 
   /**
-   * Create biometric keys and return the public key
-   * @param promptMessage - Message to display during biometric prompt
-   * @returns Promise<OperationResult> - Result containing public key or error
+   * Confirm the user with a biometric prompt, then create keys and return the public key
+   * Key creation itself shows no prompt, so the enroll texts are shown by a simple prompt first.
+   * @param prompt - Texts of the biometric prompt shown before the key pair is created
+   * @param keyAlias - Key slot to create the key pair in; only the default slot with the device keystore
+   * @param policy - Key algorithm and authenticator policy, defaults to the provider's algorithm without fallback
+   * @returns Promise<OperationResult> - Result containing public key and resolved policy, or error
    */
-  async createKeys(promptMessage: string = 'Authenticate to create biometric keys'): Promise<OperationResult> {
+  async createKeys(
+    prompt: BiometricSimplePromptOptions = DEFAULT_PROMPT_PROFILES.enroll,
+    keyAlias: string = DEFAULT_KEY_ALIAS,
+    policy: EnrollmentPolicy = DEFAULT_ENROLLMENT_POLICY
+  ): Promise<OperationResult> {
     try {
-      const result = await this.rnBiometrics.createKeys();
+      const aliasError = this.validateKeyAlias(keyAlias);
+      if (aliasError) {
+        return this.handleOperationError(aliasError, 'Invalid key slot');
+      }
+
+      const policyError = this.validateEnrollmentPolicy(policy);
+      if (policyError) {
+        return this.handleOperationError(policyError, 'Unsupported enrollment policy');
+      }
+
+      const resolvedPolicy: EnrollmentPolicy = {
+        algorithm: policy.algorithm || this.provider.keyAlgorithms[0],
+        allowDeviceCredentials: policy.allowDeviceCredentials,
+        requireConfirmation: policy.requireConfirmation,
+      };
+
+      const promptResult = await this.provider.simplePrompt({
+        promptMessage: prompt.promptMessage,
+        fallbackPromptMessage: prompt.fallbackPromptMessage,
+        cancelButtonText: prompt.cancelButtonText || 'Cancel',
+      });
+      if (!promptResult.success) {
+        const message = promptResult.error || 'Biometric authentication failed';
+        return {
+          success: false,
+          message,
+          error: mapBiometricError(message),
+          timestamp: new Date(),
+        };
+      }
+
+      const result = await this.provider.createKeys(keyAlias, resolvedPolicy);
+      await this.keyRegistry.register(keyAlias, result.publicKey, resolvedPolicy);
       
       return {
         success: true,
         message: 'Biometric keys created successfully',
-        data: { publicKey: result.publicKey },
+        data: { publicKey: result.publicKey, policy: resolvedPolicy },
         timestamp: new Date(),
       };
     } catch (error) {
@@ -81,16 +198,26 @@ export class BiometricService {
 
   /**
    * Delete existing biometric keys from the keystore
+   * @param keyAlias - Key slot to delete
    * @returns Promise<OperationResult> - Result of the deletion operation
    */
-  async deleteKeys(): Promise<OperationResult> {
+  async deleteKeys(keyAlias: string = DEFAULT_KEY_ALIAS): Promise<OperationResult> {
     try {
-      const result = await this.rnBiometrics.deleteKeys();
+      const aliasError = this.validateKeyAlias(keyAlias);
+      if (aliasError) {
+        return this.handleOperationError(aliasError, 'Invalid key slot');
+      }
+
+      const result = await this.provider.deleteKeys(keyAlias);
+      if (result.keysDeleted) {
+        await this.keyRegistry.remove(keyAlias);
+      }
       
       return {
         success: result.keysDeleted,
         message: result.keysDeleted ? 'Biometric keys deleted successfully' : 'No keys found to delete',
         data: { keysDeleted: result.keysDeleted },
+        error: result.keysDeleted ? undefined : createBiometricError('KEY_NOT_FOUND', 'No keys found to delete'),
         timestamp: new Date(),
       };
     } catch (error) {
@@ -100,31 +227,51 @@ export class BiometricService {
 
   /**
    * Create a biometric signature for the given payload
-   * @param options - Signature options including prompt message and payload
+   * @param options - Signature options including prompt message, payload and key slot
    * @returns Promise<OperationResult> - Result containing signature or error
    */
   async createSignature(options: BiometricSignatureOptions): Promise<OperationResult> {
+    const keyAlias = options.keyAlias || DEFAULT_KEY_ALIAS;
+
     try {
-      const result = await this.rnBiometrics.createSignature({
+      const aliasError = this.validateKeyAlias(keyAlias);
+      if (aliasError) {
+        return this.handleOperationError(aliasError, 'Invalid key slot');
+      }
+
+      const record = await this.keyRegistry.get(keyAlias);
+      const signatureStart = Date.now();
+      const result = await this.provider.createSignature({
         promptMessage: options.promptMessage,
         payload: options.payload,
         cancelButtonText: options.cancelButtonText || 'Cancel',
+        keyAlias,
+        policy: record?.policy,
       });
+      const signatureMs = Date.now() - signatureStart;
 
       if (result.success && result.signature) {
+        const verificationStart = Date.now();
+        const verification = await this.verifyOwnSignature(keyAlias, options.payload, result.signature);
+
         return {
           success: true,
           message: 'Signature created successfully',
           data: { 
             signature: result.signature,
             payload: options.payload,
+            verification,
+            // Prompt plus signing, then the on-device check against the enrolled public key
+            timings: { signatureMs, verificationMs: Date.now() - verificationStart },
           },
           timestamp: new Date(),
         };
       } else {
+        const message = result.error || 'Failed to create signature';
         return {
           success: false,
-          message: result.error || 'Failed to create signature',
+          message,
+          error: mapBiometricError(message),
           timestamp: new Date(),
         };
       }
@@ -140,15 +287,17 @@ export class BiometricService {
    */
   async simplePrompt(options: BiometricSimplePromptOptions): Promise<OperationResult> {
     try {
-      const result = await this.rnBiometrics.simplePrompt({
+      const result = await this.provider.simplePrompt({
         promptMessage: options.promptMessage,
         fallbackPromptMessage: options.fallbackPromptMessage,
         cancelButtonText: options.cancelButtonText || 'Cancel',
       });
 
+      const message = result.success ? 'Authentication successful' : (result.error || 'Authentication failed');
       return {
         success: result.success,
-        message: result.success ? 'Authentication successful' : (result.error || 'Authentication failed'),
+        message,
+        error: result.success ? undefined : mapBiometricError(message),
         timestamp: new Date(),
       };
     } catch (error) {
@@ -157,28 +306,45 @@ export class BiometricService {
   }
 
   /**
-   * Get the public key from existing biometric keys
+   * Get the public key recorded for a key slot at enrollment time
+   * @param keyAlias - Key slot to read the public key from
    * @returns Promise<OperationResult> - Result containing public key or error
    */
-  async getPublicKey(): Promise<OperationResult> {
+  async getPublicKey(keyAlias: string = DEFAULT_KEY_ALIAS): Promise<OperationResult> {
     try {
+      const aliasError = this.validateKeyAlias(keyAlias);
+      if (aliasError) {
+        return this.handleOperationError(aliasError, 'Invalid key slot');
+      }
+
       // First check if keys exist
-      const keysExist = await this.checkKeysExist();
+      const keysExist = await this.checkKeysExist(keyAlias);
       if (!keysExist) {
+        const message = 'No biometric keys found. Please enroll first.';
         return {
           success: false,
-          message: 'No biometric keys found. Please enroll first.',
+          message,
+          error: createBiometricError('KEY_NOT_FOUND', message),
+          timestamp: new Date(),
+        };
+      }
+
+      // Read the key captured at enrollment; creating keys here would replace the enrolled pair
+      const record = await this.keyRegistry.get(keyAlias);
+      if (!record) {
+        const message = 'No public key was recorded for this key slot. Please enroll again to capture it.';
+        return {
+          success: false,
+          message,
+          error: createBiometricError('KEY_NOT_FOUND', message),
           timestamp: new Date(),
         };
       }
 
-      // Get the public key
-      const result = await this.rnBiometrics.createKeys();
-      
       return {
         success: true,
         message: 'Public key retrieved successfully',
-        data: { publicKey: result.publicKey },
+        data: { publicKey: record.publicKey, record },
         timestamp: new Date(),
       };
     } catch (error) {
@@ -197,27 +363,26 @@ export class BiometricService {
   /**
    * Generate payload for signature creation with template processing
    * @param customPayload - Optional custom payload template, if not provided uses timestamp
+   * @param context - Values for {keyAlias}, {publicKeyFingerprint} and user-defined variables
    * @returns string - Payload to be signed with templates processed
+   * @throws Error if the template contains an unknown placeholder or invalid argument
    */
-  generatePayload(customPayload?: string): string {
+  generatePayload(customPayload?: string, context: PayloadTemplateContext = {}): string {
     if (!customPayload) {
       return this.generateTimestampPayload();
     }
 
     // Process template variables
-    return this.processPayloadTemplate(customPayload);
+    return this.processPayloadTemplate(customPayload, context);
   }
 
   /**
-   * Process payload template by replacing template variables
-   * @param template - Template string with variables like {date}
-   * @returns string - Processed template with variables replaced
+   * Process payload template by replacing template placeholders
+   * @param template - Template string with placeholders like {date} or {nonce:16}
+   * @returns string - Processed template with placeholders replaced
    */
-  private processPayloadTemplate(template: string): string {
-    const currentDate = new Date().toISOString();
-    
-    // Replace {date} with current timestamp
-    return template.replace(/\{date\}/g, currentDate);
+  private processPayloadTemplate(template: string, context: PayloadTemplateContext): string {
+    return renderPayloadTemplate(template, context);
   }
 
   /**
@@ -248,6 +413,74 @@ export class BiometricService {
     }
   }
 
+  /**
+   * Check a freshly created signature against the public key enrolled in the same slot
+   * @returns Promise<SignatureVerification> - Outcome of the on-device verification
+   */
+  async verifyOwnSignature(keyAlias: string, payload: string, signature: string): Promise<SignatureVerification> {
+    const record = await this.keyRegistry.get(keyAlias);
+    if (!record) {
+      return {
+        status: 'skipped',
+        reason: `No public key recorded for slot "${keyAlias}"; enroll again to enable self-verification`,
+      };
+    }
+
+    return verifySignature(record.publicKey, payload, signature);
+  }
+
+  /**
+   * Check whether a key slot alias can be used with the active provider
+   * Named slots need a provider that supportsKeySlots: react-native-biometrics keeps one key
+   * pair under a fixed alias, so the device keystore only takes the default slot and named
+   * slots work with the simulated provider alone.
+   * @returns string | null - Error message if the alias cannot be used, null otherwise
+   */
+  validateKeyAlias(keyAlias: string): string | null {
+    if (!KEY_ALIAS_PATTERN.test(keyAlias)) {
+      return `Invalid key slot "${keyAlias}": use 1-64 letters, digits, ".", "_" or "-"`;
+    }
+
+    if (!this.provider.supportsKeySlots && keyAlias !== DEFAULT_KEY_ALIAS) {
+      return `Key slot "${keyAlias}" is not supported by the device keystore, which holds a single key in the "${DEFAULT_KEY_ALIAS}" slot`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Check whether an enrollment policy can be honoured by the active provider
+   * @returns string | null - Error message if the policy cannot be used, null otherwise
+   */
+  validateEnrollmentPolicy(policy: EnrollmentPolicy): string | null {
+    const { type, keyAlgorithms, supportsConfirmation } = this.provider;
+
+    if (policy.algorithm && !keyAlgorithms.includes(policy.algorithm)) {
+      return `Key algorithm "${policy.algorithm}" is not supported by the ${type} provider, which creates ${keyAlgorithms.join(' or ')} keys`;
+    }
+
+    if (policy.requireConfirmation && !supportsConfirmation) {
+      return `Requiring confirmation is not supported by the ${type} provider, which leaves it to the operating system`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Create a provider instance by type
+   * @private
+   */
+  private createProvider(type: BiometricProviderType): BiometricProvider {
+    switch (type) {
+      case 'native':
+        return new NativeBiometricProvider();
+      case 'simulated':
+        return new SimulatedBiometricProvider();
+      default:
+        throw new Error(`Unknown biometric provider "${type}"; expected "native" or "simulated"`);
+    }
+  }
+
   /**
    * Handle biometric-specific errors and return formatted BiometricStatus
    * @private
@@ -259,6 +492,7 @@ export class BiometricService {
       available: false,
       biometryType: undefined,
       error: errorMessage,
+      errorCode: mapBiometricError(error, defaultMessage).code,
     };
   }
 
@@ -272,6 +506,7 @@ export class BiometricService {
     return {
       success: false,
       message: errorMessage,
+      error: mapBiometricError(error, defaultMessage),
       timestamp: new Date(),
     };
   }
@@ -299,18 +534,6 @@ export class BiometricService {
     
     return defaultMessage;
   }
-
-  /**
-   * Create a BiometricError object with standardized format
-   * @private
-   */
-  private createBiometricError(code: string, message: string, details?: any): BiometricError {
-    return {
-      code,
-      message,
-      details,
-    };
-  }
 }
 
 // Export a singleton instance for convenience
@@ -4,8 +4,19 @@
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { EndpointConfig, ServerStatus } from '../types';
+import { EndpointConfig, PromptProfiles, ServerStatus } from '../types';
+import { DEFAULT_PROMPT_PROFILES, MAX_PROMPT_TEXT_LENGTH } from '../constants/biometrics';
 import { errorHandler } from '../utils/ErrorHandler';
+import { isEnrollmentPolicy, isPromptOperation, isPromptProfile } from '../utils/typeGuards';
+import { validateRequestPolicy } from '../utils/requestPolicy';
+import { validateAssertions } from '../utils/responseAssertions';
+import { validateCaptureRules } from '../utils/capturedVariables';
+import {
+  maskEndpointConfig,
+  restoreEndpointConfigSecrets,
+  validateEndpointAuth,
+} from '../utils/endpointAuth';
+import { validateRequestSigning } from '../utils/requestSigning';
 
 export interface PersistedServerSettings {
   preferredPort?: number;
@@ -18,6 +29,7 @@ export interface PersistedServerSettings {
 export interface PersistedEndpointConfigs {
   enroll: EndpointConfig;
   validate: EndpointConfig;
+  unenroll: EndpointConfig;
   lastUpdated: string;
 }
 
@@ -26,11 +38,12 @@ export interface PersistedWebControlState {
   endpointConfigs: PersistedEndpointConfigs;
   operationHistory: OperationHistoryEntry[];
   preferences: WebControlPreferences;
+  promptProfiles: PromptProfiles;
 }
 
 export interface OperationHistoryEntry {
   id: string;
-  type: 'enroll' | 'validate' | 'delete-keys';
+  type: 'enroll' | 'validate' | 'authenticate' | 'delete-keys';
   timestamp: string;
   success: boolean;
   duration: number;
@@ -48,6 +61,7 @@ export interface ConfigurationChangeListener {
   onServerSettingsChanged: (settings: PersistedServerSettings) => void;
   onEndpointConfigsChanged: (configs: PersistedEndpointConfigs) => void;
   onPreferencesChanged: (preferences: WebControlPreferences) => void;
+  onPromptProfilesChanged?: (profiles: PromptProfiles) => void;
 }
 
 export class ConfigurationPersistence {
@@ -56,6 +70,7 @@ export class ConfigurationPersistence {
     ENDPOINT_CONFIGS: '@webcontrol_endpoint_configs',
     OPERATION_HISTORY: '@webcontrol_operation_history',
     PREFERENCES: '@webcontrol_preferences',
+    PROMPT_PROFILES: '@webcontrol_prompt_profiles',
   };
 
   private static readonly DEFAULT_SERVER_SETTINGS: PersistedServerSettings = {
@@ -67,6 +82,7 @@ export class ConfigurationPersistence {
   private static readonly DEFAULT_ENDPOINT_CONFIGS: PersistedEndpointConfigs = {
     enroll: { url: '', method: 'POST' },
     validate: { url: '', method: 'POST' },
+    unenroll: { url: '', method: 'DELETE' },
     lastUpdated: new Date().toISOString(),
   };
 
@@ -192,7 +208,7 @@ export class ConfigurationPersistence {
   /**
    * Update specific endpoint configuration
    */
-  async updateEndpointConfig(type: 'enroll' | 'validate', config: EndpointConfig): Promise<void> {
+  async updateEndpointConfig(type: 'enroll' | 'validate' | 'unenroll', config: EndpointConfig): Promise<void> {
     try {
       const currentConfigs = await this.getEndpointConfigs();
       const updatedConfigs = {
@@ -315,16 +331,83 @@ export class ConfigurationPersistence {
     }
   }
 
+  /**
+   * Get biometric prompt texts per operation
+   */
+  async getPromptProfiles(): Promise<PromptProfiles> {
+    try {
+      const stored = await AsyncStorage.getItem(ConfigurationPersistence.STORAGE_KEYS.PROMPT_PROFILES);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        return {
+          enroll: { ...DEFAULT_PROMPT_PROFILES.enroll, ...parsed.enroll },
+          validate: { ...DEFAULT_PROMPT_PROFILES.validate, ...parsed.validate },
+          authenticate: { ...DEFAULT_PROMPT_PROFILES.authenticate, ...parsed.authenticate },
+          benchmark: { ...DEFAULT_PROMPT_PROFILES.benchmark, ...parsed.benchmark },
+        };
+      }
+      return DEFAULT_PROMPT_PROFILES;
+    } catch (error) {
+      const appError = errorHandler.handleApplicationError(error, 'Get prompt profiles');
+      console.error('Error getting prompt profiles:', appError.message);
+      return DEFAULT_PROMPT_PROFILES;
+    }
+  }
+
+  /**
+   * Save biometric prompt texts for one or more operations
+   * @throws Error if an operation is unknown or a profile has empty or overlong texts
+   */
+  async savePromptProfiles(profiles: Partial<PromptProfiles>): Promise<PromptProfiles> {
+    try {
+      this.validatePromptProfiles(profiles);
+
+      const currentProfiles = await this.getPromptProfiles();
+      const updatedProfiles = { ...currentProfiles, ...profiles };
+
+      await AsyncStorage.setItem(
+        ConfigurationPersistence.STORAGE_KEYS.PROMPT_PROFILES,
+        JSON.stringify(updatedProfiles)
+      );
+
+      // Notify listeners
+      this.notifyPromptProfilesChanged(updatedProfiles);
+
+      console.log('Prompt profiles saved successfully');
+      return updatedProfiles;
+    } catch (error) {
+      const appError = errorHandler.handleApplicationError(error, 'Save prompt profiles');
+      console.error('Error saving prompt profiles:', appError.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Restore the default prompt texts for every operation
+   */
+  async resetPromptProfiles(): Promise<PromptProfiles> {
+    try {
+      await AsyncStorage.removeItem(ConfigurationPersistence.STORAGE_KEYS.PROMPT_PROFILES);
+      this.notifyPromptProfilesChanged(DEFAULT_PROMPT_PROFILES);
+      return DEFAULT_PROMPT_PROFILES;
+    } catch (error) {
+      const appError = errorHandler.handleApplicationError(error, 'Reset prompt profiles');
+      console.error('Error resetting prompt profiles:', appError.message);
+      throw error;
+    }
+  }
+
   /**
    * Get complete persisted state
    */
   async getPersistedState(): Promise<PersistedWebControlState> {
     try {
-      const [serverSettings, endpointConfigs, operationHistory, preferences] = await Promise.all([
+      const [serverSettings, endpointConfigs, operationHistory, preferences, promptProfiles] = await Promise.all([
         this.getServerSettings(),
         this.getEndpointConfigs(),
         this.getOperationHistory(),
         this.getPreferences(),
+        this.getPromptProfiles(),
       ]);
 
       return {
@@ -332,6 +415,7 @@ export class ConfigurationPersistence {
         endpointConfigs,
         operationHistory,
         preferences,
+        promptProfiles,
       };
     } catch (error) {
       const appError = errorHandler.handleApplicationError(error, 'Get persisted state');
@@ -342,11 +426,25 @@ export class ConfigurationPersistence {
 
   /**
    * Export configuration for backup
+   * Endpoint secrets are masked; importing the backup keeps the current ones.
    */
   async exportConfiguration(): Promise<string> {
     try {
       const state = await this.getPersistedState();
-      return JSON.stringify(state, null, 2);
+      const { enroll, validate, unenroll } = state.endpointConfigs;
+      return JSON.stringify(
+        {
+          ...state,
+          endpointConfigs: {
+            ...state.endpointConfigs,
+            enroll: maskEndpointConfig(enroll),
+            validate: maskEndpointConfig(validate),
+            unenroll: maskEndpointConfig(unenroll),
+          },
+        },
+        null,
+        2
+      );
     } catch (error) {
       const appError = errorHandler.handleApplicationError(error, 'Export configuration');
       console.error('Error exporting configuration:', appError.message);
@@ -363,16 +461,20 @@ export class ConfigurationPersistence {
       
       // Validate the configuration structure
       this.validateImportedConfiguration(config);
+
+      const endpointConfigs = await this.restoreEndpointSecrets(config.endpointConfigs);
       
       // Save each part of the configuration
       await Promise.all([
         this.saveServerSettings(config.serverSettings),
-        this.saveEndpointConfigs(config.endpointConfigs),
+        this.saveEndpointConfigs(endpointConfigs),
         this.savePreferences(config.preferences),
         AsyncStorage.setItem(
           ConfigurationPersistence.STORAGE_KEYS.OPERATION_HISTORY,
           JSON.stringify(config.operationHistory || [])
         ),
+        // Backups made before prompt profiles existed keep the current texts
+        ...(config.promptProfiles ? [this.savePromptProfiles(config.promptProfiles)] : []),
       ]);
       
       console.log('Configuration imported successfully');
@@ -393,6 +495,7 @@ export class ConfigurationPersistence {
         AsyncStorage.removeItem(ConfigurationPersistence.STORAGE_KEYS.ENDPOINT_CONFIGS),
         AsyncStorage.removeItem(ConfigurationPersistence.STORAGE_KEYS.OPERATION_HISTORY),
         AsyncStorage.removeItem(ConfigurationPersistence.STORAGE_KEYS.PREFERENCES),
+        AsyncStorage.removeItem(ConfigurationPersistence.STORAGE_KEYS.PROMPT_PROFILES),
       ]);
       
       console.log('All persisted data cleared');
@@ -461,6 +564,10 @@ export class ConfigurationPersistence {
       if (config.endpointConfigs.validate && !this.isValidEndpointConfig(config.endpointConfigs.validate)) {
         throw new Error('Invalid validate endpoint configuration');
       }
+
+      if (config.endpointConfigs.unenroll && !this.isValidEndpointConfig(config.endpointConfigs.unenroll)) {
+        throw new Error('Invalid unenroll endpoint configuration');
+      }
     }
 
     // Validate preferences
@@ -472,6 +579,53 @@ export class ConfigurationPersistence {
     if (config.operationHistory && !Array.isArray(config.operationHistory)) {
       throw new Error('Invalid operation history format');
     }
+
+    // Validate prompt profiles
+    if (config.promptProfiles) {
+      this.validatePromptProfiles(config.promptProfiles);
+    }
+  }
+
+  /**
+   * Private method to validate prompt profiles keyed by operation
+   */
+  private validatePromptProfiles(profiles: any): void {
+    if (!profiles || typeof profiles !== 'object' || Array.isArray(profiles)) {
+      throw new Error('Invalid prompt profiles format');
+    }
+
+    Object.entries(profiles).forEach(([operation, profile]) => {
+      if (!isPromptOperation(operation)) {
+        throw new Error(`Invalid prompt profile operation "${operation}"`);
+      }
+      if (!isPromptProfile(profile)) {
+        throw new Error(
+          `Invalid ${operation} prompt profile. Expected non-empty promptMessage and cancelButtonText ` +
+            `and optional fallbackPromptMessage of at most ${MAX_PROMPT_TEXT_LENGTH} characters`
+        );
+      }
+    });
+  }
+
+  /**
+   * Private method to put back endpoint secrets that were masked on export
+   */
+  private async restoreEndpointSecrets(
+    configs: PersistedEndpointConfigs
+  ): Promise<PersistedEndpointConfigs> {
+    // Backups may leave out the endpoint configs
+    if (!configs) {
+      return configs;
+    }
+
+    const current = await this.getEndpointConfigs();
+    const restored = { ...configs };
+    (['enroll', 'validate', 'unenroll'] as const).forEach(type => {
+      if (configs[type]) {
+        restored[type] = restoreEndpointConfigSecrets(configs[type], current[type]);
+      }
+    });
+    return restored;
   }
 
   /**
@@ -483,7 +637,15 @@ export class ConfigurationPersistence {
       typeof config === 'object' &&
       typeof config.url === 'string' &&
       typeof config.method === 'string' &&
-      ['GET', 'POST', 'PUT', 'PATCH'].includes(config.method)
+      ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].includes(config.method) &&
+      (config.enrollmentPolicy === undefined || isEnrollmentPolicy(config.enrollmentPolicy)) &&
+      (config.bodyTemplate === undefined || typeof config.bodyTemplate === 'string') &&
+      (config.deleteLocallyOnFailure === undefined || typeof config.deleteLocallyOnFailure === 'boolean') &&
+      (config.requestPolicy === undefined || validateRequestPolicy(config.requestPolicy).isValid) &&
+      (config.assertions === undefined || validateAssertions(config.assertions).isValid) &&
+      (config.captures === undefined || validateCaptureRules(config.captures).isValid) &&
+      (config.auth === undefined || validateEndpointAuth(config.auth).isValid) &&
+      (config.signing === undefined || validateRequestSigning(config.signing).isValid)
     );
   }
 
@@ -513,6 +675,19 @@ export class ConfigurationPersistence {
     });
   }
 
+  /**
+   * Private method to notify prompt profile changes
+   */
+  private notifyPromptProfilesChanged(profiles: PromptProfiles): void {
+    this.changeListeners.forEach(listener => {
+      try {
+        listener.onPromptProfilesChanged?.(profiles);
+      } catch (error) {
+        console.error('Error in prompt profiles change listener:', error);
+      }
+    });
+  }
+
   /**
    * Private method to notify preferences changes
    */
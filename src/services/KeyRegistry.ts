@@ -0,0 +1,130 @@
+/**
+ * KeyRegistry - Persistent registry of public keys captured at enrollment time
+ * Lets the app read enrolled public keys without touching the device keystore
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { EnrollmentPolicy, PublicKeyRecord } from '../types';
+import { getPublicKeyFingerprint, inspectPublicKey } from '../utils/publicKeyUtils';
+import { errorHandler } from '../utils/ErrorHandler';
+
+export class KeyRegistry {
+  private static readonly STORAGE_KEY = '@biometrics_playground:public_key_registry';
+
+  private records: Map<string, PublicKeyRecord> | null = null;
+
+  /**
+   * Record the public key created for a key slot, replacing any previous record
+   * @param alias - Key slot the key pair was created in
+   * @param publicKey - Base64 SubjectPublicKeyInfo public key
+   * @param policy - Enrollment policy the key pair was created under
+   * @returns Promise<PublicKeyRecord> - The stored record
+   */
+  async register(alias: string, publicKey: string, policy?: EnrollmentPolicy): Promise<PublicKeyRecord> {
+    const records = await this.load();
+
+    let details: Omit<PublicKeyRecord, 'alias' | 'publicKey' | 'createdAt'> = {
+      algorithm: 'unknown',
+      fingerprint: '',
+    };
+    try {
+      const inspection = inspectPublicKey(publicKey);
+      details = {
+        algorithm: inspection.algorithm,
+        algorithmOid: inspection.algorithmOid,
+        keySize: inspection.keySize,
+        publicExponent: inspection.publicExponent,
+        curve: inspection.curve,
+        curveOid: inspection.curveOid,
+        fingerprint: inspection.fingerprint,
+      };
+    } catch (error) {
+      console.warn(`Public key for slot "${alias}" could not be parsed:`, error);
+      try {
+        details.fingerprint = getPublicKeyFingerprint(publicKey);
+      } catch (fingerprintError) {
+        console.warn(`Public key for slot "${alias}" could not be fingerprinted:`, fingerprintError);
+      }
+    }
+
+    const record: PublicKeyRecord = {
+      alias,
+      publicKey,
+      createdAt: new Date().toISOString(),
+      ...details,
+      ...(policy ? { policy } : {}),
+    };
+
+    records.set(alias, record);
+    await this.save(records);
+
+    return record;
+  }
+
+  /**
+   * Get the public key record for a key slot
+   * @returns Promise<PublicKeyRecord | null> - The record, or null if nothing was enrolled in the slot
+   */
+  async get(alias: string): Promise<PublicKeyRecord | null> {
+    const records = await this.load();
+    return records.get(alias) || null;
+  }
+
+  /**
+   * List all registered public keys, oldest first
+   */
+  async list(): Promise<PublicKeyRecord[]> {
+    const records = await this.load();
+    return Array.from(records.values()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Remove the record for a key slot
+   */
+  async remove(alias: string): Promise<void> {
+    const records = await this.load();
+    if (records.delete(alias)) {
+      await this.save(records);
+    }
+  }
+
+  /**
+   * Private method to load records from storage once per instance
+   */
+  private async load(): Promise<Map<string, PublicKeyRecord>> {
+    if (this.records) {
+      return this.records;
+    }
+
+    const records = new Map<string, PublicKeyRecord>();
+    try {
+      const stored = await AsyncStorage.getItem(KeyRegistry.STORAGE_KEY);
+      if (stored) {
+        const parsed: PublicKeyRecord[] = JSON.parse(stored);
+        parsed.forEach(record => records.set(record.alias, record));
+      }
+    } catch (error) {
+      const appError = errorHandler.handleApplicationError(error, 'Load public key registry');
+      console.error('Error loading public key registry:', appError.message);
+    }
+
+    this.records = records;
+    return records;
+  }
+
+  /**
+   * Private method to persist records
+   */
+  private async save(records: Map<string, PublicKeyRecord>): Promise<void> {
+    try {
+      await AsyncStorage.setItem(KeyRegistry.STORAGE_KEY, JSON.stringify(Array.from(records.values())));
+    } catch (error) {
+      const appError = errorHandler.handleApplicationError(error, 'Save public key registry');
+      console.error('Error saving public key registry:', appError.message);
+      throw error;
+    }
+  }
+}
+
+// Export singleton instance
+export const keyRegistry = new KeyRegistry();
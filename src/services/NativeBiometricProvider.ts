@@ -0,0 +1,95 @@
+/**
+ * NativeBiometricProvider - Device keystore provider backed by react-native-biometrics
+ */
+
+import ReactNativeBiometrics from 'react-native-biometrics';
+import {
+  BiometricCreateKeysResult,
+  BiometricDeleteKeysResult,
+  BiometricKeysResult,
+  BiometricSensorResult,
+  BiometricSignatureResult,
+  BiometricSimplePromptOptions,
+  BiometricSimplePromptResult,
+  BiometryType,
+  EnrollmentPolicy,
+} from '../types/biometrics';
+import { DEFAULT_ENROLLMENT_POLICY } from '../constants/biometrics';
+import { BiometricProvider, BiometricProviderSignatureOptions } from './BiometricProvider';
+
+export class NativeBiometricProvider implements BiometricProvider {
+  readonly type = 'native' as const;
+
+  // react-native-biometrics keeps a single key pair under a fixed keystore alias
+  readonly supportsKeySlots = false;
+
+  // Both platforms create RSA 2048 keys, and the prompt's confirmation behaviour is left to the OS
+  readonly keyAlgorithms = ['RSA-2048' as const];
+  readonly supportsConfirmation = false;
+
+  private rnBiometrics: ReactNativeBiometrics;
+  private credentialBiometrics: ReactNativeBiometrics | null = null;
+
+  constructor() {
+    this.rnBiometrics = new ReactNativeBiometrics({
+      allowDeviceCredentials: false,
+    });
+  }
+
+  async isSensorAvailable(): Promise<BiometricSensorResult> {
+    const result = await this.rnBiometrics.isSensorAvailable();
+    return {
+      available: result.available,
+      biometryType: result.biometryType as BiometryType,
+      error: result.error,
+    };
+  }
+
+  async biometricKeysExist(_keyAlias: string): Promise<BiometricKeysResult> {
+    return this.rnBiometrics.biometricKeysExist();
+  }
+
+  async createKeys(
+    _keyAlias: string,
+    policy: EnrollmentPolicy = DEFAULT_ENROLLMENT_POLICY
+  ): Promise<BiometricCreateKeysResult> {
+    return this.client(policy).createKeys();
+  }
+
+  async deleteKeys(_keyAlias: string): Promise<BiometricDeleteKeysResult> {
+    return this.rnBiometrics.deleteKeys();
+  }
+
+  async createSignature(options: BiometricProviderSignatureOptions): Promise<BiometricSignatureResult> {
+    return this.client(options.policy).createSignature({
+      promptMessage: options.promptMessage,
+      payload: options.payload,
+      cancelButtonText: options.cancelButtonText,
+    });
+  }
+
+  async simplePrompt(options: BiometricSimplePromptOptions): Promise<BiometricSimplePromptResult> {
+    return this.rnBiometrics.simplePrompt({
+      promptMessage: options.promptMessage,
+      fallbackPromptMessage: options.fallbackPromptMessage,
+      cancelButtonText: options.cancelButtonText || 'Cancel',
+    });
+  }
+
+  /**
+   * Private method to pick the library instance for a policy
+   * Device credential fallback is fixed per instance, so keys enrolled with it get their own
+   */
+  private client(policy?: EnrollmentPolicy): ReactNativeBiometrics {
+    if (!policy?.allowDeviceCredentials) {
+      return this.rnBiometrics;
+    }
+
+    if (!this.credentialBiometrics) {
+      this.credentialBiometrics = new ReactNativeBiometrics({
+        allowDeviceCredentials: true,
+      });
+    }
+    return this.credentialBiometrics;
+  }
+}
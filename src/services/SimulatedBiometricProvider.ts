@@ -0,0 +1,223 @@
+/**
+ * SimulatedBiometricProvider - Software provider for emulators, CI machines and Jest
+ * Generates real ECDSA P-256 or RSA 2048 key pairs and signs in JavaScript, so signatures verify
+ * exactly like device ones. Every prompt succeeds without user interaction unless a fault
+ * from the SimulatedFaultProfile is scripted for the operation.
+ * Private keys are kept in AsyncStorage in the clear: never use this provider for real credentials.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  BiometricCreateKeysResult,
+  BiometricDeleteKeysResult,
+  BiometricKeysResult,
+  BiometricSensorResult,
+  BiometricSignatureResult,
+  BiometricSimplePromptResult,
+  EnrollmentPolicy,
+  KeyAlgorithm,
+  SimulatedFault,
+  SimulatedOperation,
+} from '../types/biometrics';
+import { DEFAULT_ENROLLMENT_POLICY } from '../constants/biometrics';
+import { randomBytes as secureRandomBytes } from '../utils/cryptoUtils';
+import { generateP256KeyPair, signP256Sha256 } from '../utils/p256';
+import { generateRsaKeyPair, signRsaPkcs1Sha256 } from '../utils/rsa';
+import { errorHandler } from '../utils/ErrorHandler';
+import { BiometricProvider, BiometricProviderSignatureOptions } from './BiometricProvider';
+import { SimulatedFaultProfile, simulatedFaultProfile } from './SimulatedFaultProfile';
+
+// Errors as reported by react-native-biometrics and the Android BiometricPrompt
+const FAULT_ERRORS: Record<Exclude<SimulatedFault['fault'], 'slowPrompt'>, string> = {
+  userCancel: 'User cancellation',
+  lockout: 'Too many attempts. Try again later.',
+  lockoutPermanent: 'Too many attempts. Fingerprint sensor disabled.',
+  sensorUnavailable: 'Biometric hardware unavailable',
+  keyInvalidated: 'Error generating signature: Key permanently invalidated',
+};
+
+// isSensorAvailable error codes as reported by react-native-biometrics; other faults read as unavailable hardware
+const SENSOR_ERRORS: Partial<Record<SimulatedFault['fault'], string>> = {
+  lockout: 'BIOMETRIC_ERROR_LOCKOUT',
+  lockoutPermanent: 'BIOMETRIC_ERROR_LOCKOUT_PERMANENT',
+};
+
+interface SimulatedKey {
+  algorithm: KeyAlgorithm;
+  /** P-256 private scalar as hex, or RSA prime factors as "p:q" hex */
+  privateKey: string;
+}
+
+export class SimulatedBiometricProvider implements BiometricProvider {
+  private static readonly STORAGE_KEY = '@biometrics_playground:simulated_keys';
+
+  readonly type = 'simulated' as const;
+  readonly supportsKeySlots = true;
+  readonly keyAlgorithms: KeyAlgorithm[] = ['EC-P256', 'RSA-2048'];
+
+  // Prompts succeed without interaction, so a required confirmation is always given
+  readonly supportsConfirmation = true;
+
+  /** Private keys by key slot */
+  private privateKeys: Map<string, SimulatedKey> | null = null;
+
+  constructor(
+    private readonly randomBytes: (length: number) => Uint8Array = secureRandomBytes,
+    private readonly faults: SimulatedFaultProfile = simulatedFaultProfile
+  ) {}
+
+  async isSensorAvailable(): Promise<BiometricSensorResult> {
+    const fault = await this.nextFault('isSensorAvailable');
+    if (fault) {
+      return { available: false, biometryType: undefined, error: SENSOR_ERRORS[fault] || 'BIOMETRIC_ERROR_HW_UNAVAILABLE' };
+    }
+
+    return { available: true, biometryType: 'Biometrics' };
+  }
+
+  async biometricKeysExist(keyAlias: string): Promise<BiometricKeysResult> {
+    const privateKeys = await this.load();
+    return { keysExist: privateKeys.has(keyAlias) };
+  }
+
+  async createKeys(
+    keyAlias: string,
+    policy: EnrollmentPolicy = DEFAULT_ENROLLMENT_POLICY
+  ): Promise<BiometricCreateKeysResult> {
+    const fault = await this.nextFault('createKeys');
+    if (fault) {
+      throw new Error(FAULT_ERRORS[fault]);
+    }
+
+    const privateKeys = await this.load();
+    const algorithm = policy.algorithm || this.keyAlgorithms[0];
+    const keyPair =
+      algorithm === 'RSA-2048' ? generateRsaKeyPair(this.randomBytes) : generateP256KeyPair(this.randomBytes);
+
+    privateKeys.set(keyAlias, { algorithm, privateKey: keyPair.privateKey });
+    await this.save(privateKeys);
+
+    return { publicKey: keyPair.publicKey };
+  }
+
+  async deleteKeys(keyAlias: string): Promise<BiometricDeleteKeysResult> {
+    const fault = await this.nextFault('deleteKeys');
+    if (fault) {
+      throw new Error(FAULT_ERRORS[fault]);
+    }
+
+    const privateKeys = await this.load();
+    const keysDeleted = privateKeys.delete(keyAlias);
+    if (keysDeleted) {
+      await this.save(privateKeys);
+    }
+
+    return { keysDeleted };
+  }
+
+  async createSignature(options: BiometricProviderSignatureOptions): Promise<BiometricSignatureResult> {
+    const fault = await this.nextFault('createSignature');
+    if (fault === 'userCancel') {
+      return { success: false, error: FAULT_ERRORS.userCancel };
+    }
+    if (fault) {
+      throw new Error(FAULT_ERRORS[fault]);
+    }
+
+    const privateKeys = await this.load();
+    const key = privateKeys.get(options.keyAlias);
+    if (!key) {
+      return {
+        success: false,
+        error: `No simulated key exists in slot "${options.keyAlias}"`,
+      };
+    }
+
+    return {
+      success: true,
+      signature:
+        key.algorithm === 'RSA-2048'
+          ? signRsaPkcs1Sha256(key.privateKey, options.payload)
+          : signP256Sha256(key.privateKey, options.payload),
+    };
+  }
+
+  /**
+   * Every simple prompt takes the next simplePrompt fault, including the one BiometricService
+   * shows before enrollment creates keys, so a fault scripted for authenticate-only is used up
+   * by an enrollment made first
+   */
+  async simplePrompt(): Promise<BiometricSimplePromptResult> {
+    const fault = await this.nextFault('simplePrompt');
+    if (fault === 'userCancel') {
+      return { success: false, error: FAULT_ERRORS.userCancel };
+    }
+    if (fault) {
+      throw new Error(FAULT_ERRORS[fault]);
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Private method to apply the next scripted fault for an operation
+   * Slow prompts are waited out here; any other fault is returned for the caller to report
+   * the way the native library would (cancellation resolves, everything else rejects)
+   */
+  private async nextFault(
+    operation: SimulatedOperation
+  ): Promise<Exclude<SimulatedFault['fault'], 'slowPrompt'> | null> {
+    const fault = this.faults.consume(operation);
+    if (!fault) {
+      return null;
+    }
+
+    if (fault.fault === 'slowPrompt') {
+      await new Promise<void>(resolve => setTimeout(resolve, fault.delayMs));
+      return null;
+    }
+
+    return fault.fault;
+  }
+
+  /**
+   * Private method to load simulated keys from storage once per instance
+   */
+  private async load(): Promise<Map<string, SimulatedKey>> {
+    if (this.privateKeys) {
+      return this.privateKeys;
+    }
+
+    const privateKeys = new Map<string, SimulatedKey>();
+    try {
+      const stored = await AsyncStorage.getItem(SimulatedBiometricProvider.STORAGE_KEY);
+      if (stored) {
+        Object.entries(JSON.parse(stored) as Record<string, SimulatedKey>).forEach(([alias, key]) =>
+          privateKeys.set(alias, key)
+        );
+      }
+    } catch (error) {
+      const appError = errorHandler.handleApplicationError(error, 'Load simulated biometric keys');
+      console.error('Error loading simulated biometric keys:', appError.message);
+    }
+
+    this.privateKeys = privateKeys;
+    return privateKeys;
+  }
+
+  /**
+   * Private method to persist simulated keys
+   */
+  private async save(privateKeys: Map<string, SimulatedKey>): Promise<void> {
+    try {
+      await AsyncStorage.setItem(
+        SimulatedBiometricProvider.STORAGE_KEY,
+        JSON.stringify(Object.fromEntries(privateKeys))
+      );
+    } catch (error) {
+      const appError = errorHandler.handleApplicationError(error, 'Save simulated biometric keys');
+      console.error('Error saving simulated biometric keys:', appError.message);
+      throw error;
+    }
+  }
+}
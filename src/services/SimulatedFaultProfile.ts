@@ -0,0 +1,125 @@
+/**
+ * SimulatedFaultProfile - Scripted failures for the simulated biometric provider
+ * Rules such as "fail the next 2 signatures with lockout" are consumed in order,
+ * so backend and UI handling of cancellation, lockout and key invalidation can be tested on demand.
+ */
+
+import { SimulatedFault, SimulatedOperation } from '../types';
+import {
+  DEFAULT_SLOW_PROMPT_DELAY_MS,
+  SIMULATED_FAULTS,
+  SIMULATED_OPERATIONS,
+} from '../constants/biometrics';
+
+export class SimulatedFaultProfile {
+  private faults: SimulatedFault[] = [];
+  private listeners = new Set<(faults: SimulatedFault[]) => void>();
+
+  /**
+   * Get a copy of the active fault rules
+   */
+  getFaults(): SimulatedFault[] {
+    return this.faults.map(fault => ({ ...fault }));
+  }
+
+  /**
+   * Replace the active fault rules; an empty list clears the profile
+   * @throws Error if any rule is malformed
+   */
+  setFaults(faults: unknown): SimulatedFault[] {
+    if (!Array.isArray(faults)) {
+      throw new Error('Faults must be an array of fault rules');
+    }
+
+    this.faults = faults.map((fault, index) => this.validateFault(fault, index));
+    this.notify();
+    return this.getFaults();
+  }
+
+  /**
+   * Append a fault rule after the existing ones
+   * @throws Error if the rule is malformed
+   */
+  addFault(fault: SimulatedFault): SimulatedFault[] {
+    this.faults.push(this.validateFault(fault, this.faults.length));
+    this.notify();
+    return this.getFaults();
+  }
+
+  clearFaults(): void {
+    this.faults = [];
+    this.notify();
+  }
+
+  /**
+   * Take the first rule that applies to an operation, counting down its remaining uses
+   * @returns The fault to inject, or null to run the operation normally
+   */
+  consume(operation: SimulatedOperation): SimulatedFault | null {
+    const index = this.faults.findIndex(fault => fault.operation === operation);
+    if (index === -1) {
+      return null;
+    }
+
+    const fault = this.faults[index];
+    if (fault.remaining !== undefined) {
+      if (fault.remaining <= 1) {
+        this.faults.splice(index, 1);
+      } else {
+        this.faults[index] = { ...fault, remaining: fault.remaining - 1 };
+      }
+      this.notify();
+    }
+
+    return { ...fault };
+  }
+
+  /**
+   * Listen for changes to the active fault rules
+   * @returns Function that removes the listener
+   */
+  addListener(listener: (faults: SimulatedFault[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private validateFault(input: any, index: number): SimulatedFault {
+    const position = `Fault rule ${index + 1}`;
+    if (!input || typeof input !== 'object') {
+      throw new Error(`${position} must be an object`);
+    }
+    if (!SIMULATED_OPERATIONS.some(option => option.value === input.operation)) {
+      throw new Error(
+        `${position} has unknown operation "${input.operation}"; expected one of ${SIMULATED_OPERATIONS.map(option => option.value).join(', ')}`
+      );
+    }
+    if (!SIMULATED_FAULTS.some(option => option.value === input.fault)) {
+      throw new Error(
+        `${position} has unknown fault "${input.fault}"; expected one of ${SIMULATED_FAULTS.map(option => option.value).join(', ')}`
+      );
+    }
+    if (input.remaining !== undefined && (!Number.isInteger(input.remaining) || input.remaining < 1)) {
+      throw new Error(`${position} remaining must be a positive integer`);
+    }
+    if (input.delayMs !== undefined && (!Number.isInteger(input.delayMs) || input.delayMs < 0)) {
+      throw new Error(`${position} delayMs must be a non-negative integer`);
+    }
+
+    const fault: SimulatedFault = { operation: input.operation, fault: input.fault };
+    if (input.remaining !== undefined) {
+      fault.remaining = input.remaining;
+    }
+    if (input.fault === 'slowPrompt') {
+      fault.delayMs = input.delayMs ?? DEFAULT_SLOW_PROMPT_DELAY_MS;
+    }
+    return fault;
+  }
+
+  private notify(): void {
+    const faults = this.getFaults();
+    this.listeners.forEach(listener => listener(faults));
+  }
+}
+
+// Export singleton instance
+export const simulatedFaultProfile = new SimulatedFaultProfile();
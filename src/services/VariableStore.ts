@@ -0,0 +1,122 @@
+/**
+ * VariableStore - Persistent variables captured from backend responses
+ * Values such as a session id returned at enrollment are kept across launches and
+ * substituted as {{name}} into later requests.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { validateVariables } from '../utils/capturedVariables';
+import { errorHandler } from '../utils/ErrorHandler';
+
+export class VariableStore {
+  private static readonly STORAGE_KEY = '@biometrics_playground:captured_variables';
+
+  private variables: Record<string, string> | null = null;
+  private listeners = new Set<(variables: Record<string, string>) => void>();
+
+  /**
+   * Get a copy of all stored variables
+   */
+  async getAll(): Promise<Record<string, string>> {
+    const variables = await this.load();
+    return { ...variables };
+  }
+
+  /**
+   * Replace all stored variables; an empty object clears the store
+   * @throws Error if any name or value is malformed
+   */
+  async setVariables(variables: unknown): Promise<Record<string, string>> {
+    const validation = validateVariables(variables);
+    if (!validation.isValid) {
+      throw new Error(validation.errors.join('; '));
+    }
+
+    await this.load();
+    return this.update({ ...(variables as Record<string, string>) });
+  }
+
+  /**
+   * Add captured values, overwriting variables with the same names
+   */
+  async merge(values: Record<string, string>): Promise<Record<string, string>> {
+    const variables = await this.load();
+    return this.update({ ...variables, ...values });
+  }
+
+  /**
+   * Remove a single variable
+   */
+  async remove(name: string): Promise<Record<string, string>> {
+    const variables = { ...(await this.load()) };
+    delete variables[name];
+    return this.update(variables);
+  }
+
+  async clear(): Promise<void> {
+    await this.update({});
+  }
+
+  /**
+   * Listen for changes to the stored variables
+   * @returns Function that removes the listener
+   */
+  addListener(listener: (variables: Record<string, string>) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async update(variables: Record<string, string>): Promise<Record<string, string>> {
+    this.variables = variables;
+    await this.save(variables);
+    this.notify();
+    return { ...variables };
+  }
+
+  /**
+   * Private method to load variables from storage once per instance
+   */
+  private async load(): Promise<Record<string, string>> {
+    if (this.variables) {
+      return this.variables;
+    }
+
+    let variables: Record<string, string> = {};
+    try {
+      const stored = await AsyncStorage.getItem(VariableStore.STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        if (validateVariables(parsed).isValid) {
+          variables = parsed;
+        }
+      }
+    } catch (error) {
+      const appError = errorHandler.handleApplicationError(error, 'Load captured variables');
+      console.error('Error loading captured variables:', appError.message);
+    }
+
+    this.variables = variables;
+    return variables;
+  }
+
+  /**
+   * Private method to persist variables
+   */
+  private async save(variables: Record<string, string>): Promise<void> {
+    try {
+      await AsyncStorage.setItem(VariableStore.STORAGE_KEY, JSON.stringify(variables));
+    } catch (error) {
+      const appError = errorHandler.handleApplicationError(error, 'Save captured variables');
+      console.error('Error saving captured variables:', appError.message);
+      throw error;
+    }
+  }
+
+  private notify(): void {
+    const variables = { ...(this.variables || {}) };
+    this.listeners.forEach(listener => listener(variables));
+  }
+}
+
+// Export singleton instance
+export const variableStore = new VariableStore();
@@ -8,34 +8,75 @@ import { biometricService } from './BiometricService';
 import { biometricAPIService } from './BiometricAPIService';
 import { webControlStateManager } from './WebControlStateManager';
 import { configurationPersistence } from './ConfigurationPersistence';
+import { keyRegistry } from './KeyRegistry';
+import { variableStore } from './VariableStore';
 import {
+  AssertionResult,
   EndpointConfig,
+  HttpExchange,
   OperationResult,
   BiometricStatus,
+  BiometricProviderType,
+  BiometricErrorCode,
   AppState,
   LogEntry,
   WebSocketMessage,
   WebSocketMessageType,
+  KeySlot,
+  PublicKeyRecord,
+  SignatureVerification,
+  BenchmarkOptions,
+  BenchmarkReport,
+  BenchmarkSample,
+  VariableCapture,
 } from '../types';
+import {
+  BENCHMARK_ABORT_ERROR_CODES,
+  DEFAULT_BIOMETRIC_PROVIDER,
+  DEFAULT_KEY_ALIAS,
+} from '../constants/biometrics';
+import {
+  describeSignatureVerification,
+  getSignatureVerificationLogStatus,
+} from '../utils/signatureVerifier';
+import { summarizeAssertions } from '../utils/responseAssertions';
+import { summarizeVariableCapture } from '../utils/capturedVariables';
+import { describeHttpExchange } from '../utils/httpExchange';
 import { errorHandler } from '../utils/ErrorHandler';
+import { maskEndpointConfig, restoreEndpointConfigSecrets } from '../utils/endpointAuth';
 import { networkResilience } from '../utils/NetworkResilience';
+import { BiometricOperationError, getBiometricError } from '../utils/biometricErrors';
+import {
+  formatTimingStats,
+  generateBenchmarkPayload,
+  summarizeBenchmark,
+  validateBenchmarkOptions,
+} from '../utils/benchmark';
 
 export interface WebControlBridgeState {
   biometricStatus: BiometricStatus;
+  biometricProvider: BiometricProviderType;
+  /** False while the provider holds a single key in the default slot */
+  keySlotsSupported: boolean;
   keysExist: boolean;
+  activeKeyAlias: string;
+  keySlots: KeySlot[];
+  publicKeys: PublicKeyRecord[];
   enrollEndpoint: EndpointConfig;
   validateEndpoint: EndpointConfig;
+  unenrollEndpoint: EndpointConfig;
   operationStatus: OperationResult | null;
   logs: LogEntry[];
   isLoading: boolean;
 }
 
 export interface WebRequest {
-  action: 'enroll' | 'validate' | 'delete-keys' | 'get-state' | 'update-config';
+  action: 'enroll' | 'validate' | 'authenticate' | 'delete-keys' | 'get-state' | 'update-config';
   payload?: {
     endpointConfig?: EndpointConfig;
-    configType?: 'enroll' | 'validate';
+    configType?: 'enroll' | 'validate' | 'unenroll';
     customPayload?: string;
+    keyAlias?: string;
   };
   requestId: string;
 }
@@ -44,6 +85,8 @@ export interface WebResponse {
   success: boolean;
   data?: any;
   error?: string;
+  errorCode?: BiometricErrorCode;
+  remediation?: string;
   requestId: string;
   timestamp: string;
 }
@@ -72,9 +115,15 @@ export class WebControlBridge {
   constructor(initialState?: Partial<WebControlBridgeState>) {
     this.state = {
       biometricStatus: { available: false, biometryType: undefined },
+      biometricProvider: DEFAULT_BIOMETRIC_PROVIDER,
+      keySlotsSupported: false,
       keysExist: false,
+      activeKeyAlias: DEFAULT_KEY_ALIAS,
+      keySlots: [{ alias: DEFAULT_KEY_ALIAS, keysExist: false }],
+      publicKeys: [],
       enrollEndpoint: { url: '', method: 'POST' },
       validateEndpoint: { url: '', method: 'POST' },
+      unenrollEndpoint: { url: '', method: 'DELETE' },
       operationStatus: null,
       logs: [],
       isLoading: false,
@@ -95,11 +144,16 @@ export class WebControlBridge {
       this.updateState({
         enrollEndpoint: persistedConfigs.enroll,
         validateEndpoint: persistedConfigs.validate,
+        unenrollEndpoint: persistedConfigs.unenroll,
       });
 
       // Setup error handling
       this.setupErrorHandling();
 
+      // Restore the biometric provider selected in a previous session
+      const biometricProvider = await biometricService.restoreProvider();
+      this.updateState({ biometricProvider, keySlotsSupported: biometricService.supportsKeySlots() });
+
       // Check biometric availability with retry
       const biometricStatus = await networkResilience.executeWithRetry(
         () => biometricService.checkBiometricAvailability(),
@@ -107,15 +161,24 @@ export class WebControlBridge {
       );
       this.updateState({ biometricStatus });
 
-      // Check if keys exist
+      // Check which key slots hold keys
       if (biometricStatus.available) {
-        const keysExist = await networkResilience.executeWithRetry(
-          () => biometricService.checkKeysExist(),
-          'Keys existence check'
-        );
-        this.updateState({ keysExist });
+        const keySlots: KeySlot[] = [];
+        for (const { alias } of this.state.keySlots) {
+          const keysExist = await networkResilience.executeWithRetry(
+            () => biometricService.checkKeysExist(alias),
+            'Keys existence check'
+          );
+          keySlots.push({ alias, keysExist });
+        }
+        this.updateState({
+          keySlots,
+          keysExist: keySlots.some(slot => slot.alias === this.state.activeKeyAlias && slot.keysExist),
+        });
       }
 
+      await this.refreshPublicKeys();
+
       this.addLog({
         id: this.generateId(),
         timestamp: new Date(),
@@ -140,7 +203,10 @@ export class WebControlBridge {
   /**
    * Execute enrollment operation
    */
-  async executeEnrollment(config?: EndpointConfig): Promise<OperationResult> {
+  async executeEnrollment(
+    config?: EndpointConfig,
+    keyAlias: string = this.state.activeKeyAlias
+  ): Promise<OperationResult> {
     // Check if we can start a new operation (includes cancellation of existing operation)
     if (!this.canStartNewOperation('enrollment')) {
       return {
@@ -158,6 +224,8 @@ export class WebControlBridge {
     const operationId = this.generateId();
     this.currentOperationId = operationId;
     let stateOperationId: string | undefined;
+    let assertions: AssertionResult[] | undefined;
+    let exchanges: HttpExchange[] = [];
 
     try {
       this.updateState({ isLoading: true });
@@ -172,7 +240,7 @@ export class WebControlBridge {
 
       // Validate biometric availability
       if (!this.state.biometricStatus.available) {
-        throw new Error(
+        throw new BiometricOperationError(
           `Biometric sensors not available: ${
             this.state.biometricStatus.error || 'Unknown reason'
           }`
@@ -184,30 +252,37 @@ export class WebControlBridge {
         timestamp: new Date(),
         operation: 'enroll',
         status: 'info',
-        message: 'Creating biometric keys...',
+        message: `Creating biometric keys in slot "${keyAlias}"...`,
       });
 
       // Create biometric keys with retry
+      const { enroll: prompt } = await configurationPersistence.getPromptProfiles();
       const createKeysResult = await networkResilience.executeWithRetry(
         () => biometricService.createKeys(
-          'Authenticate to create biometric keys for enrollment'
+          prompt,
+          keyAlias,
+          enrollConfig.enrollmentPolicy
         ),
         'Biometric key creation'
       );
 
       if (!createKeysResult.success) {
-        throw new Error(`Key creation failed: ${createKeysResult.message}`);
+        throw new BiometricOperationError(
+          `Key creation failed: ${createKeysResult.message}`,
+          createKeysResult.error
+        );
       }
 
-      const publicKey = createKeysResult.data.publicKey;
-      this.updateState({ keysExist: true });
+      const { publicKey, policy } = createKeysResult.data;
+      this.setKeySlotState(keyAlias, true);
+      await this.refreshPublicKeys();
 
       this.addLog({
         id: this.generateId(),
         timestamp: new Date(),
         operation: 'enroll',
         status: 'success',
-        message: `Biometric keys created successfully. Public key: ${publicKey.substring(0, 50)}...`,
+        message: `Biometric keys created successfully in slot "${keyAlias}". Public key: ${publicKey.substring(0, 50)}...`,
       });
 
       let result: OperationResult;
@@ -222,15 +297,17 @@ export class WebControlBridge {
           message: `Sending public key to enrollment endpoint: ${enrollConfig.url}`,
         });
 
-        const enrollResult = await networkResilience.executeWithRetry(
-          () => biometricAPIService.enrollPublicKey(enrollConfig, publicKey),
-          'Backend enrollment',
-          2 // Fewer retries for backend calls
-        );
+        // Retries follow the endpoint's request policy
+        const enrollResult = await biometricAPIService.enrollPublicKey(enrollConfig, publicKey, policy, keyAlias);
+        assertions = enrollResult.assertions;
+        exchanges = enrollResult.exchanges || [];
+        this.logExchanges('enroll', enrollResult.exchanges);
+        this.logAssertions('enroll', assertions);
+        this.logCapturedVariables('enroll', enrollResult.captured);
 
         if (!enrollResult.success) {
           // Reset keys exist status on backend failure
-          this.updateState({ keysExist: false });
+          this.setKeySlotState(keyAlias, false);
           throw new Error(`Backend enrollment failed: ${enrollResult.message}`);
         }
 
@@ -247,9 +324,12 @@ export class WebControlBridge {
           message: 'Enrollment completed successfully',
           data: {
             publicKey,
+            keyAlias,
+            policy,
             backendResponse: enrollResult.data,
             endpoint: enrollConfig.url,
             method: enrollConfig.method,
+            ...this.getBackendCallData(assertions, exchanges),
           },
           timestamp: new Date(),
         };
@@ -267,6 +347,8 @@ export class WebControlBridge {
           message: 'Local enrollment completed successfully',
           data: {
             publicKey,
+            keyAlias,
+            policy,
             localOnly: true,
           },
           timestamp: new Date(),
@@ -288,6 +370,10 @@ export class WebControlBridge {
       const errorResult: OperationResult = {
         success: false,
         message: appError?.userMessage || appError?.message || this.getErrorMessage(error),
+        error: appError?.biometricError,
+        ...(assertions || exchanges.length > 0
+          ? { data: this.getBackendCallData(assertions, exchanges) }
+          : {}),
         timestamp: new Date(),
       };
 
@@ -317,7 +403,10 @@ export class WebControlBridge {
   /**
    * Execute validation operation
    */
-  async executeValidation(config?: EndpointConfig): Promise<OperationResult> {
+  async executeValidation(
+    config?: EndpointConfig,
+    keyAlias: string = this.state.activeKeyAlias
+  ): Promise<OperationResult> {
     // Check if we can start a new operation (includes cancellation of existing operation)
     if (!this.canStartNewOperation('validation')) {
       return {
@@ -334,6 +423,8 @@ export class WebControlBridge {
 
     const operationId = this.generateId();
     this.currentOperationId = operationId;
+    let assertions: AssertionResult[] | undefined;
+    let exchanges: HttpExchange[] = [];
 
     try {
       this.updateState({ isLoading: true });
@@ -345,38 +436,77 @@ export class WebControlBridge {
 
       // Validate prerequisites
       if (!this.state.biometricStatus.available) {
-        throw new Error(
+        throw new BiometricOperationError(
           `Biometric sensors not available: ${
             this.state.biometricStatus.error || 'Unknown reason'
           }`
         );
       }
 
-      if (!this.state.keysExist) {
+      if (!this.hasKeysInSlot(keyAlias)) {
         throw new Error(
           'No biometric keys found. Please enroll first before attempting validation.'
         );
       }
 
-      this.addLog({
-        id: this.generateId(),
-        timestamp: new Date(),
-        operation: 'validate',
-        status: 'info',
-        message: 'Generating payload for signature...',
-      });
+      let payload: string;
+      let challenge: string | undefined;
 
-      // Generate payload for signature
-      const payload = biometricService.generatePayload(validateConfig.customPayload);
-      const payloadType = validateConfig.customPayload ? 'custom' : 'timestamp';
+      if (validateConfig.challenge?.url) {
+        // Fetch a server-issued challenge and sign it instead of a local payload
+        this.addLog({
+          id: this.generateId(),
+          timestamp: new Date(),
+          operation: 'validate',
+          status: 'info',
+          message: `Requesting challenge from: ${validateConfig.challenge.url}`,
+        });
 
-      this.addLog({
-        id: this.generateId(),
-        timestamp: new Date(),
-        operation: 'validate',
-        status: 'info',
-        message: `Generated ${payloadType} payload: ${payload}`,
-      });
+        const challengeResult = await biometricAPIService.fetchChallenge(validateConfig.challenge);
+        exchanges = challengeResult.exchanges || [];
+        this.logExchanges('validate', challengeResult.exchanges);
+        if (!challengeResult.success) {
+          throw new Error(`Challenge request failed: ${challengeResult.message}`);
+        }
+
+        challenge = challengeResult.data.challenge as string;
+        payload = challenge;
+
+        this.addLog({
+          id: this.generateId(),
+          timestamp: new Date(),
+          operation: 'validate',
+          status: 'success',
+          message: `Received challenge from "${validateConfig.challenge.challengePath}": ${challenge}`,
+          details: challengeResult.data.response,
+        });
+      } else {
+        this.addLog({
+          id: this.generateId(),
+          timestamp: new Date(),
+          operation: 'validate',
+          status: 'info',
+          message: 'Generating payload for signature...',
+        });
+
+        // Generate payload for signature
+        const keyRecord = await keyRegistry.get(keyAlias);
+        payload = biometricService.generatePayload(validateConfig.customPayload, {
+          keyAlias,
+          publicKeyFingerprint: keyRecord?.fingerprint,
+          variables: validateConfig.payloadVariables,
+          capturedVariables: await variableStore.getAll(),
+        });
+        const payloadType = validateConfig.customPayload ? 'custom' : 'timestamp';
+
+        this.addLog({
+          id: this.generateId(),
+          timestamp: new Date(),
+          operation: 'validate',
+          status: 'info',
+          message: `Generated ${payloadType} payload: ${payload}`,
+        });
+      }
 
       // Create signature with biometric authentication
       this.addLog({
@@ -387,26 +517,43 @@ export class WebControlBridge {
         message: 'Requesting biometric authentication for signature creation...',
       });
 
+      const { validate: prompt } = await configurationPersistence.getPromptProfiles();
       const signatureResult = await biometricService.createSignature({
-        promptMessage: 'Authenticate to create signature for validation',
+        promptMessage: prompt.promptMessage,
         payload,
-        cancelButtonText: 'Cancel Validation',
+        cancelButtonText: prompt.cancelButtonText,
+        keyAlias,
       });
 
       if (!signatureResult.success) {
-        throw new Error(`Signature creation failed: ${signatureResult.message}`);
+        throw new BiometricOperationError(
+          `Signature creation failed: ${signatureResult.message}`,
+          signatureResult.error
+        );
       }
 
       const signature = signatureResult.data.signature;
+      const verification: SignatureVerification | undefined = signatureResult.data.verification;
 
       this.addLog({
         id: this.generateId(),
         timestamp: new Date(),
         operation: 'validate',
         status: 'success',
-        message: `Signature created successfully. Length: ${signature.length} characters`,
+        message: `Signature created successfully with slot "${keyAlias}". Length: ${signature.length} characters`,
       });
 
+      if (verification) {
+        this.addLog({
+          id: this.generateId(),
+          timestamp: new Date(),
+          operation: 'validate',
+          status: getSignatureVerificationLogStatus(verification),
+          message: describeSignatureVerification(verification),
+          details: verification,
+        });
+      }
+
       let result: OperationResult;
 
       // Send to backend for validation if endpoint is configured
@@ -416,17 +563,27 @@ export class WebControlBridge {
           timestamp: new Date(),
           operation: 'validate',
           status: 'info',
-          message: `Sending signature to validation endpoint: ${validateConfig.url}`,
+          message: challenge
+            ? `Sending signature and challenge to validation endpoint: ${validateConfig.url}`
+            : `Sending signature to validation endpoint: ${validateConfig.url}`,
         });
 
         const validationResult = await biometricAPIService.validateSignature(
           validateConfig,
           signature,
-          payload
+          payload,
+          challenge,
+          keyAlias
         );
+        assertions = validationResult.assertions;
+        exchanges = [...exchanges, ...(validationResult.exchanges || [])];
+        this.logExchanges('validate', validationResult.exchanges);
+        this.logAssertions('validate', assertions);
+        this.logCapturedVariables('validate', validationResult.captured);
 
         if (!validationResult.success) {
-          throw new Error(`Backend validation failed: ${validationResult.message}`);
+          const verificationNote = verification ? ` (on-device check: ${verification.status})` : '';
+          throw new Error(`Backend validation failed: ${validationResult.message}${verificationNote}`);
         }
 
         this.addLog({
@@ -443,9 +600,13 @@ export class WebControlBridge {
           data: {
             signature,
             payload,
+            challenge,
+            keyAlias,
+            verification,
             backendResponse: validationResult.data,
             endpoint: validateConfig.url,
             method: validateConfig.method,
+            ...this.getBackendCallData(assertions, exchanges),
             validationTimestamp: new Date().toISOString(),
           },
           timestamp: new Date(),
@@ -465,6 +626,8 @@ export class WebControlBridge {
           data: {
             signature,
             payload,
+            keyAlias,
+            verification,
             localOnly: true,
             validationTimestamp: new Date().toISOString(),
           },
@@ -480,6 +643,10 @@ export class WebControlBridge {
       const errorResult: OperationResult = {
         success: false,
         message: this.getErrorMessage(error),
+        error: getBiometricError(error),
+        ...(assertions || exchanges.length > 0
+          ? { data: this.getBackendCallData(assertions, exchanges) }
+          : {}),
         timestamp: new Date(),
       };
 
@@ -501,10 +668,380 @@ export class WebControlBridge {
     }
   }
 
+  /**
+   * Execute an authenticate-only operation
+   * Checks user presence with a plain biometric prompt, without keys or signatures,
+   * and reports the outcome to the backend when an endpoint is given
+   */
+  async executeAuthentication(config?: EndpointConfig): Promise<OperationResult> {
+    // Check if we can start a new operation (includes cancellation of existing operation)
+    if (!this.canStartNewOperation('authentication')) {
+      return {
+        success: false,
+        message: 'Cannot start authentication operation at this time',
+        timestamp: new Date(),
+      };
+    }
+
+    // Cancel any existing operation before starting new one
+    if (this.currentOperationId) {
+      this.cancelCurrentOperation();
+    }
+
+    const operationId = this.generateId();
+    this.currentOperationId = operationId;
+    let assertions: AssertionResult[] | undefined;
+    let exchanges: HttpExchange[] = [];
+
+    try {
+      this.updateState({ isLoading: true });
+      this.notifyOperationStart('authenticate', operationId);
+      this.setOperationTimeout(operationId);
+
+      // Validate prerequisites
+      if (!this.state.biometricStatus.available) {
+        throw new BiometricOperationError(
+          `Biometric sensors not available: ${
+            this.state.biometricStatus.error || 'Unknown reason'
+          }`
+        );
+      }
+
+      this.addLog({
+        id: this.generateId(),
+        timestamp: new Date(),
+        operation: 'authenticate',
+        status: 'info',
+        message: 'Requesting biometric authentication (user presence check, no keys involved)...',
+      });
+
+      const { authenticate: prompt } = await configurationPersistence.getPromptProfiles();
+      const authResult = await biometricService.simplePrompt(prompt);
+      const biometryType = this.state.biometricStatus.biometryType;
+
+      this.addLog({
+        id: this.generateId(),
+        timestamp: new Date(),
+        operation: 'authenticate',
+        status: authResult.success ? 'success' : 'error',
+        message: authResult.success
+          ? `User authenticated with ${biometryType || 'biometrics'}`
+          : `Biometric authentication failed: ${authResult.message}`,
+        details: authResult.error,
+      });
+
+      // Failed checks are reported too, so the backend sees cancellations and lockouts
+      let reportResult: OperationResult | undefined;
+      if (config?.url) {
+        this.addLog({
+          id: this.generateId(),
+          timestamp: new Date(),
+          operation: 'authenticate',
+          status: 'info',
+          message: `Reporting authentication outcome to: ${config.url}`,
+        });
+
+        reportResult = await biometricAPIService.reportAuthentication(config, {
+          authenticated: authResult.success,
+          biometryType,
+          errorCode: authResult.error?.code,
+        });
+        assertions = reportResult.assertions;
+        exchanges = reportResult.exchanges || [];
+        this.logExchanges('authenticate', reportResult.exchanges);
+
+        this.addLog({
+          id: this.generateId(),
+          timestamp: new Date(),
+          operation: 'authenticate',
+          status: reportResult.success ? 'success' : 'error',
+          message: reportResult.success
+            ? 'Authentication outcome accepted by backend server'
+            : `Backend report failed: ${reportResult.message}`,
+        });
+        this.logAssertions('authenticate', assertions);
+        this.logCapturedVariables('authenticate', reportResult.captured);
+      }
+
+      if (!authResult.success) {
+        throw new BiometricOperationError(
+          `Authentication failed: ${authResult.message}`,
+          authResult.error
+        );
+      }
+
+      if (reportResult && !reportResult.success) {
+        throw new Error(`Backend report failed: ${reportResult.message}`);
+      }
+
+      const result: OperationResult = {
+        success: true,
+        message: reportResult
+          ? 'Authentication completed and reported successfully'
+          : 'Authentication completed successfully',
+        data: {
+          authenticated: true,
+          biometryType,
+          ...(reportResult
+            ? {
+                backendResponse: reportResult.data,
+                endpoint: config?.url,
+                method: config?.method,
+                ...this.getBackendCallData(assertions, exchanges),
+              }
+            : { localOnly: true }),
+          authenticationTimestamp: new Date().toISOString(),
+        },
+        timestamp: new Date(),
+      };
+
+      this.updateState({ operationStatus: result, isLoading: false });
+      this.notifyOperationComplete('authenticate', operationId, result);
+
+      return result;
+    } catch (error) {
+      const errorResult: OperationResult = {
+        success: false,
+        message: this.getErrorMessage(error),
+        error: getBiometricError(error),
+        ...(assertions || exchanges.length > 0
+          ? { data: this.getBackendCallData(assertions, exchanges) }
+          : {}),
+        timestamp: new Date(),
+      };
+
+      this.addLog({
+        id: this.generateId(),
+        timestamp: new Date(),
+        operation: 'authenticate',
+        status: 'error',
+        message: errorResult.message,
+        details: error,
+      });
+
+      this.updateState({ operationStatus: errorResult, isLoading: false });
+      this.notifyOperationComplete('authenticate', operationId, errorResult);
+
+      return errorResult;
+    } finally {
+      this.cleanupOperation(operationId, 'completed');
+    }
+  }
+
+  /**
+   * Execute a signature latency benchmark
+   * Signs each payload size `iterations` times with the slot's key and reports per-phase timings;
+   * every signature prompts unless the simulated provider is active
+   */
+  async executeBenchmark(
+    options?: Partial<BenchmarkOptions>,
+    keyAlias: string = this.state.activeKeyAlias
+  ): Promise<OperationResult> {
+    // Check if we can start a new operation (includes cancellation of existing operation)
+    if (!this.canStartNewOperation('benchmark')) {
+      return {
+        success: false,
+        message: 'Cannot start benchmark operation at this time',
+        timestamp: new Date(),
+      };
+    }
+
+    // Cancel any existing operation before starting new one
+    if (this.currentOperationId) {
+      this.cancelCurrentOperation();
+    }
+
+    const operationId = this.generateId();
+    this.currentOperationId = operationId;
+
+    try {
+      this.updateState({ isLoading: true });
+      this.notifyOperationStart('benchmark', operationId);
+
+      const benchmarkOptions = validateBenchmarkOptions(options ?? {});
+      const { iterations, payloadSizes } = benchmarkOptions;
+      const runs = payloadSizes.flatMap(payloadSize =>
+        Array.from({ length: iterations }, (_, index) => ({ payloadSize, iteration: index + 1 }))
+      );
+
+      // Each run may wait on a biometric prompt, so the timeout scales with the run count
+      this.setOperationTimeout(operationId, this.OPERATION_TIMEOUT * runs.length);
+
+      // Validate prerequisites
+      if (!this.state.biometricStatus.available) {
+        throw new BiometricOperationError(
+          `Biometric sensors not available: ${
+            this.state.biometricStatus.error || 'Unknown reason'
+          }`
+        );
+      }
+
+      if (!this.hasKeysInSlot(keyAlias)) {
+        throw new Error(
+          'No biometric keys found. Please enroll first before running a benchmark.'
+        );
+      }
+
+      this.addLog({
+        id: this.generateId(),
+        timestamp: new Date(),
+        operation: 'benchmark',
+        status: 'info',
+        message: `Running ${runs.length} signatures with slot "${keyAlias}" on the ${this.state.biometricProvider} provider (${iterations} per payload size: ${payloadSizes.join(', ')} bytes)`,
+      });
+
+      const { benchmark: prompt } = await configurationPersistence.getPromptProfiles();
+      const startedAt = new Date().toISOString();
+      const samples: BenchmarkSample[] = [];
+      let lastFailure: OperationResult | undefined;
+      let abortedReason: string | undefined;
+
+      for (let index = 0; index < runs.length && !abortedReason; index++) {
+        if (this.currentOperationId !== operationId) {
+          abortedReason = 'Benchmark was cancelled';
+          break;
+        }
+
+        const { payloadSize, iteration } = runs[index];
+        const runStart = Date.now();
+        const payload = generateBenchmarkPayload(payloadSize, iteration);
+        const payloadMs = Date.now() - runStart;
+
+        const signatureResult = await biometricService.createSignature({
+          promptMessage: prompt.promptMessage,
+          payload,
+          cancelButtonText: prompt.cancelButtonText,
+          keyAlias,
+        });
+
+        if (signatureResult.success) {
+          const timings = signatureResult.data.timings;
+          samples.push({
+            iteration,
+            payloadSize,
+            success: true,
+            timings: {
+              payload: payloadMs,
+              signature: timings?.signatureMs,
+              verification: timings?.verificationMs,
+              total: Date.now() - runStart,
+            },
+          });
+          continue;
+        }
+
+        lastFailure = signatureResult;
+        samples.push({
+          iteration,
+          payloadSize,
+          success: false,
+          timings: { payload: payloadMs },
+          error: signatureResult.message,
+        });
+
+        this.addLog({
+          id: this.generateId(),
+          timestamp: new Date(),
+          operation: 'benchmark',
+          status: 'error',
+          message: `Signature ${index + 1} of ${runs.length} failed: ${signatureResult.message}`,
+          details: signatureResult.error,
+        });
+
+        // Stop prompting once the user backs out or the sensor cannot recover
+        const error = signatureResult.error;
+        if (error && (BENCHMARK_ABORT_ERROR_CODES.includes(error.code) || !error.recoverable)) {
+          abortedReason = `Stopped after signature ${index + 1} of ${runs.length}: ${signatureResult.message}`;
+        }
+      }
+
+      const succeeded = samples.filter(sample => sample.success).length;
+      if (succeeded === 0) {
+        throw new BiometricOperationError(
+          `Benchmark failed: ${lastFailure?.message || abortedReason || 'no signatures were created'}`,
+          lastFailure?.error
+        );
+      }
+
+      const results = summarizeBenchmark(samples, payloadSizes);
+      results.forEach(summary => {
+        this.addLog({
+          id: this.generateId(),
+          timestamp: new Date(),
+          operation: 'benchmark',
+          status: summary.succeeded > 0 ? 'success' : 'error',
+          message: `${summary.payloadSize}-byte payload (${summary.succeeded}/${summary.succeeded + summary.failed} signed) signature: ${formatTimingStats(summary.phases.signature)}`,
+          details: summary,
+        });
+      });
+
+      const report: BenchmarkReport = {
+        keyAlias,
+        biometricProvider: this.state.biometricProvider,
+        options: benchmarkOptions,
+        startedAt,
+        completedAt: new Date().toISOString(),
+        abortedReason,
+        results,
+        samples,
+      };
+
+      const result: OperationResult = {
+        success: true,
+        message: abortedReason
+          ? `Benchmark stopped early: ${succeeded} of ${runs.length} signatures completed`
+          : `Benchmark completed: ${succeeded} of ${runs.length} signatures succeeded`,
+        data: report,
+        timestamp: new Date(),
+      };
+
+      this.addLog({
+        id: this.generateId(),
+        timestamp: new Date(),
+        operation: 'benchmark',
+        status: 'success',
+        message: result.message,
+      });
+
+      this.updateState({ operationStatus: result, isLoading: false });
+      this.notifyOperationComplete('benchmark', operationId, result);
+
+      return result;
+    } catch (error) {
+      const errorResult: OperationResult = {
+        success: false,
+        message: this.getErrorMessage(error),
+        error: getBiometricError(error),
+        timestamp: new Date(),
+      };
+
+      this.addLog({
+        id: this.generateId(),
+        timestamp: new Date(),
+        operation: 'benchmark',
+        status: 'error',
+        message: errorResult.message,
+        details: error,
+      });
+
+      this.updateState({ operationStatus: errorResult, isLoading: false });
+      this.notifyOperationComplete('benchmark', operationId, errorResult);
+
+      return errorResult;
+    } finally {
+      this.cleanupOperation(operationId, 'completed');
+    }
+  }
+
   /**
    * Execute delete keys operation
+   * When an unenrollment endpoint is configured the backend registration is removed first;
+   * if that fails the local keys are kept unless the endpoint allows deleting them anyway.
    */
-  async deleteKeys(): Promise<OperationResult> {
+  async deleteKeys(
+    keyAlias: string = this.state.activeKeyAlias,
+    config?: EndpointConfig
+  ): Promise<OperationResult> {
     // Check if we can start a new operation (includes cancellation of existing operation)
     if (!this.canStartNewOperation('delete keys')) {
       return {
@@ -521,6 +1058,8 @@ export class WebControlBridge {
 
     const operationId = this.generateId();
     this.currentOperationId = operationId;
+    let assertions: AssertionResult[] | undefined;
+    let exchanges: HttpExchange[] = [];
 
     try {
       this.updateState({ isLoading: true });
@@ -531,30 +1070,79 @@ export class WebControlBridge {
         timestamp: new Date(),
         operation: 'delete',
         status: 'info',
-        message: 'Deleting biometric keys...',
+        message: `Deleting biometric keys in slot "${keyAlias}"...`,
       });
 
-      const deleteResult = await biometricService.deleteKeys();
+      // Use provided config or current state config
+      const unenrollConfig = config || this.state.unenrollEndpoint;
+      let unenrollResult: OperationResult | undefined;
+
+      if (unenrollConfig.url) {
+        this.addLog({
+          id: this.generateId(),
+          timestamp: new Date(),
+          operation: 'delete',
+          status: 'info',
+          message: `Sending unenrollment request to: ${unenrollConfig.url}`,
+        });
+
+        // The public key has to be read before the local keys are deleted
+        const keyRecord = await keyRegistry.get(keyAlias);
+        unenrollResult = await biometricAPIService.unenrollPublicKey(unenrollConfig, keyAlias, keyRecord?.publicKey);
+        assertions = unenrollResult.assertions;
+        exchanges = unenrollResult.exchanges || [];
+        this.logExchanges('delete', unenrollResult.exchanges);
+        this.logAssertions('delete', assertions);
+        this.logCapturedVariables('delete', unenrollResult.captured);
+
+        if (!unenrollResult.success && !unenrollConfig.deleteLocallyOnFailure) {
+          throw new Error(`Backend unenrollment failed: ${unenrollResult.message}. Local keys were kept.`);
+        }
+
+        this.addLog({
+          id: this.generateId(),
+          timestamp: new Date(),
+          operation: 'delete',
+          status: unenrollResult.success ? 'success' : 'error',
+          message: unenrollResult.success
+            ? 'Public key removed from backend'
+            : `Backend unenrollment failed: ${unenrollResult.message}. Deleting local keys anyway.`,
+        });
+      }
+
+      const deleteResult = await biometricService.deleteKeys(keyAlias);
 
       if (!deleteResult.success) {
-        throw new Error(deleteResult.message);
+        throw new BiometricOperationError(deleteResult.message, deleteResult.error);
       }
 
       // Update keys exist status
-      this.updateState({ keysExist: false });
+      this.setKeySlotState(keyAlias, false);
+      await this.refreshPublicKeys();
 
       this.addLog({
         id: this.generateId(),
         timestamp: new Date(),
         operation: 'delete',
         status: 'success',
-        message: 'Biometric keys deleted successfully',
+        message: `Biometric keys deleted successfully from slot "${keyAlias}"`,
       });
 
       const result: OperationResult = {
         success: true,
-        message: 'Keys deleted successfully',
-        data: deleteResult.data,
+        message: unenrollResult && !unenrollResult.success
+          ? `Keys deleted locally, but backend unenrollment failed: ${unenrollResult.message}`
+          : 'Keys deleted successfully',
+        data: unenrollResult
+          ? {
+              ...deleteResult.data,
+              backendResponse: unenrollResult.data,
+              backendUnenrolled: unenrollResult.success,
+              endpoint: unenrollConfig.url,
+              method: unenrollConfig.method,
+              ...this.getBackendCallData(assertions, exchanges),
+            }
+          : deleteResult.data,
         timestamp: new Date(),
       };
 
@@ -566,6 +1154,10 @@ export class WebControlBridge {
       const errorResult: OperationResult = {
         success: false,
         message: this.getErrorMessage(error),
+        error: getBiometricError(error),
+        ...(assertions || exchanges.length > 0
+          ? { data: this.getBackendCallData(assertions, exchanges) }
+          : {}),
         timestamp: new Date(),
       };
 
@@ -594,19 +1186,126 @@ export class WebControlBridge {
     return { ...this.state };
   }
 
+  /**
+   * Get current app state for web clients, with endpoint secrets masked
+   */
+  getAppStateForWeb(): WebControlBridgeState {
+    return {
+      ...this.state,
+      enrollEndpoint: maskEndpointConfig(this.state.enrollEndpoint),
+      validateEndpoint: maskEndpointConfig(this.state.validateEndpoint),
+      unenrollEndpoint: maskEndpointConfig(this.state.unenrollEndpoint),
+    };
+  }
+
+  /**
+   * Select the key slot used by operations that don't name one explicitly
+   */
+  selectKeySlot(keyAlias: string): OperationResult {
+    const aliasError = biometricService.validateKeyAlias(keyAlias);
+    if (aliasError) {
+      return {
+        success: false,
+        message: aliasError,
+        timestamp: new Date(),
+      };
+    }
+
+    const keySlots = this.state.keySlots.some(slot => slot.alias === keyAlias)
+      ? this.state.keySlots
+      : [...this.state.keySlots, { alias: keyAlias, keysExist: false }];
+
+    this.updateState({
+      activeKeyAlias: keyAlias,
+      keySlots,
+      keysExist: this.hasKeysInSlot(keyAlias, keySlots),
+    });
+
+    this.addLog({
+      id: this.generateId(),
+      timestamp: new Date(),
+      operation: 'status',
+      status: 'info',
+      message: `Active key slot set to "${keyAlias}"`,
+    });
+
+    return {
+      success: true,
+      message: `Active key slot set to "${keyAlias}"`,
+      data: { activeKeyAlias: keyAlias, keySlots },
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Switch the biometric provider and re-check availability and keys for every slot
+   */
+  async selectBiometricProvider(type: BiometricProviderType): Promise<OperationResult> {
+    const result = await biometricService.selectProvider(type);
+    if (!result.success) {
+      return result;
+    }
+
+    const biometricStatus = await biometricService.checkBiometricAvailability();
+
+    // Fall back to the default slot when the new provider cannot hold the active one
+    const activeKeyAlias = biometricService.validateKeyAlias(this.state.activeKeyAlias)
+      ? DEFAULT_KEY_ALIAS
+      : this.state.activeKeyAlias;
+
+    const keySlots: KeySlot[] = [];
+    for (const { alias } of this.state.keySlots) {
+      const keysExist = biometricStatus.available && (await biometricService.checkKeysExist(alias));
+      keySlots.push({ alias, keysExist });
+    }
+
+    this.updateState({
+      biometricProvider: type,
+      keySlotsSupported: biometricService.supportsKeySlots(),
+      biometricStatus,
+      activeKeyAlias,
+      keySlots,
+      keysExist: keySlots.some(slot => slot.alias === activeKeyAlias && slot.keysExist),
+    });
+
+    this.addLog({
+      id: this.generateId(),
+      timestamp: new Date(),
+      operation: 'status',
+      status: 'info',
+      message: result.message,
+      details: { biometricProvider: type, biometricStatus },
+    });
+
+    return {
+      ...result,
+      data: { biometricProvider: type, biometricStatus, activeKeyAlias, keySlots },
+    };
+  }
+
   /**
    * Update endpoint configuration
    */
   async updateConfiguration(
-    type: 'enroll' | 'validate',
-    config: EndpointConfig
+    type: 'enroll' | 'validate' | 'unenroll',
+    endpointConfig: EndpointConfig
   ): Promise<void> {
     const updates: Partial<WebControlBridgeState> = {};
+    const current =
+      type === 'enroll'
+        ? this.state.enrollEndpoint
+        : type === 'validate'
+        ? this.state.validateEndpoint
+        : this.state.unenrollEndpoint;
+    // The web interface sends back the masked secrets it was shown
+    const config = restoreEndpointConfigSecrets(endpointConfig, current);
     
     if (type === 'enroll') {
       updates.enrollEndpoint = config;
-    } else {
+    } else if (type === 'validate') {
       updates.validateEndpoint = config;
+    } else {
+      updates.unenrollEndpoint = config;
     }
 
     this.updateState(updates);
@@ -784,6 +1483,41 @@ export class WebControlBridge {
     }
   }
 
+  /**
+   * Private method to record key existence for a slot, keeping keysExist in sync with the active slot
+   */
+  private setKeySlotState(keyAlias: string, keysExist: boolean): void {
+    const known = this.state.keySlots.some(slot => slot.alias === keyAlias);
+    const keySlots = known
+      ? this.state.keySlots.map(slot => (slot.alias === keyAlias ? { ...slot, keysExist } : slot))
+      : [...this.state.keySlots, { alias: keyAlias, keysExist }];
+
+    const updates: Partial<WebControlBridgeState> = { keySlots };
+    if (keyAlias === this.state.activeKeyAlias) {
+      updates.keysExist = keysExist;
+    }
+
+    this.updateState(updates);
+  }
+
+  /**
+   * Private method to reload the enrolled public keys from the key registry
+   */
+  private async refreshPublicKeys(): Promise<void> {
+    const publicKeys = await keyRegistry.list();
+    this.updateState({ publicKeys });
+  }
+
+  /**
+   * Private method to check whether a slot is known to hold keys
+   */
+  private hasKeysInSlot(keyAlias: string, keySlots: KeySlot[] = this.state.keySlots): boolean {
+    if (keyAlias === this.state.activeKeyAlias && keySlots === this.state.keySlots) {
+      return this.state.keysExist;
+    }
+    return keySlots.some(slot => slot.alias === keyAlias && slot.keysExist);
+  }
+
   /**
    * Private method to update state and notify listeners
    */
@@ -800,6 +1534,70 @@ export class WebControlBridge {
     this.logUpdateListeners.forEach(listener => listener(log));
   }
 
+  /**
+   * Log the verdicts of a backend call's response assertions, if the endpoint has any
+   */
+  private logAssertions(operation: LogEntry['operation'], assertions?: AssertionResult[]): void {
+    if (!assertions || assertions.length === 0) {
+      return;
+    }
+
+    this.addLog({
+      id: this.generateId(),
+      timestamp: new Date(),
+      operation,
+      status: assertions.every(result => result.passed) ? 'success' : 'error',
+      message: `Response assertions: ${summarizeAssertions(assertions)}`,
+      details: { assertions },
+    });
+  }
+
+  /**
+   * Log the variables a backend call's capture rules stored, if the endpoint has any
+   */
+  private logCapturedVariables(operation: LogEntry['operation'], captured?: VariableCapture): void {
+    if (!captured) {
+      return;
+    }
+
+    this.addLog({
+      id: this.generateId(),
+      timestamp: new Date(),
+      operation,
+      status: 'info',
+      message: `Captured variables: ${summarizeVariableCapture(captured)}`,
+      details: { captured },
+    });
+  }
+
+  /**
+   * Log the HTTP exchanges of a backend call, if it got as far as sending a request
+   */
+  private logExchanges(operation: LogEntry['operation'], exchanges?: HttpExchange[]): void {
+    if (!exchanges || exchanges.length === 0) {
+      return;
+    }
+
+    this.addLog({
+      id: this.generateId(),
+      timestamp: new Date(),
+      operation,
+      status: 'info',
+      message: `HTTP exchanges: ${exchanges.map(describeHttpExchange).join('; ')}`,
+      details: { exchanges },
+    });
+  }
+
+  /**
+   * Assertion verdicts and HTTP exchanges of an operation's backend calls, for its result data
+   */
+  private getBackendCallData(assertions: AssertionResult[] | undefined, exchanges: HttpExchange[]) {
+    return {
+      ...(assertions ? { assertions } : {}),
+      ...(exchanges.length > 0 ? { exchanges } : {}),
+    };
+  }
+
   /**
    * Private method to notify operation start
    */
@@ -833,7 +1631,7 @@ export class WebControlBridge {
   /**
    * Private method to notify configuration updates
    */
-  private notifyConfigUpdate(type: 'enroll' | 'validate', config: EndpointConfig): void {
+  private notifyConfigUpdate(type: 'enroll' | 'validate' | 'unenroll', config: EndpointConfig): void {
     // This could be extended to notify WebSocket clients
     // For now, state change listeners will handle this
   }
@@ -904,18 +1702,28 @@ export class WebControlBridge {
           message: 'Network connection restored',
         });
       },
+      onRetry: (retry) => {
+        this.addLog({
+          id: this.generateId(),
+          timestamp: new Date(),
+          operation: 'status',
+          status: 'info',
+          message: `Retrying ${retry.context} (attempt ${retry.attempt} of ${retry.maxAttempts}) in ${retry.delay}ms: ${retry.reason}`,
+          details: retry,
+        });
+      },
     });
   }
 
   /**
    * Set operation timeout
    */
-  private setOperationTimeout(operationId: string): void {
+  private setOperationTimeout(operationId: string, timeoutMs: number = this.OPERATION_TIMEOUT): void {
     const timeoutId = setTimeout(() => {
       if (this.currentOperationId === operationId) {
-        this.handleOperationTimeout(operationId);
+        this.handleOperationTimeout(operationId, timeoutMs);
       }
-    }, this.OPERATION_TIMEOUT);
+    }, timeoutMs);
 
     this.operationTimeouts.set(operationId, timeoutId);
   }
@@ -934,7 +1742,7 @@ export class WebControlBridge {
   /**
    * Handle operation timeout
    */
-  private handleOperationTimeout(operationId: string): void {
+  private handleOperationTimeout(operationId: string, timeoutMs: number = this.OPERATION_TIMEOUT): void {
     const timeoutError = new Error('Operation timed out');
     const appError = errorHandler.handleApplicationError(timeoutError, 'Operation timeout');
 
@@ -943,7 +1751,7 @@ export class WebControlBridge {
       timestamp: new Date(),
       operation: 'status',
       status: 'error',
-      message: `Operation ${operationId} timed out after ${this.OPERATION_TIMEOUT / 1000} seconds`,
+      message: `Operation ${operationId} timed out after ${timeoutMs / 1000} seconds`,
       details: appError,
     });
 
@@ -14,6 +14,7 @@ import {
 import { webSocketManager } from './WebSocketManager';
 import { EndpointConfig, ServerStatus, WebSocketMessage, LogEntry } from '../types';
 import { errorHandler } from '../utils/ErrorHandler';
+import { maskEndpointConfig, restoreEndpointConfigSecrets } from '../utils/endpointAuth';
 
 export interface WebControlStateManagerState {
   // Server state
@@ -54,7 +55,7 @@ export interface WebControlStateManagerState {
 
 export interface ActiveOperation {
   id: string;
-  type: 'enroll' | 'validate' | 'delete-keys';
+  type: 'enroll' | 'validate' | 'authenticate' | 'delete-keys';
   status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
   startTime: Date;
   endTime?: Date;
@@ -65,7 +66,7 @@ export interface ActiveOperation {
 
 export interface QueuedOperation {
   id: string;
-  type: 'enroll' | 'validate' | 'delete-keys';
+  type: 'enroll' | 'validate' | 'authenticate' | 'delete-keys';
   config?: EndpointConfig;
   clientId: string;
   queuedAt: Date;
@@ -84,7 +85,7 @@ export interface ConnectionInfo {
 export interface ConfigurationChange {
   id: string;
   type: 'server-settings' | 'endpoint-config' | 'preferences';
-  target: 'enroll' | 'validate' | 'server' | 'preferences';
+  target: 'enroll' | 'validate' | 'unenroll' | 'server' | 'preferences';
   changes: any;
   timestamp: Date;
   source: 'web' | 'mobile';
@@ -219,18 +220,22 @@ export class WebControlStateManager {
    * Update endpoint configuration
    */
   async updateEndpointConfiguration(
-    type: 'enroll' | 'validate', 
+    type: 'enroll' | 'validate' | 'unenroll',
     config: EndpointConfig,
     source: 'web' | 'mobile' = 'mobile'
   ): Promise<void> {
     try {
+      // Configurations synced from the web carry masked secrets; keep the stored ones
+      const updated = restoreEndpointConfigSecrets(config, this.state.configurations.endpoints[type]);
+      const masked = maskEndpointConfig(updated);
+
       // Save to persistence
-      await configurationPersistence.updateEndpointConfig(type, config);
+      await configurationPersistence.updateEndpointConfig(type, updated);
       
       // Update local state
       this.state.configurations.endpoints = {
         ...this.state.configurations.endpoints,
-        [type]: config,
+        [type]: updated,
         lastUpdated: new Date().toISOString(),
       };
       
@@ -239,7 +244,7 @@ export class WebControlStateManager {
         id: this.generateId(),
         type: 'endpoint-config',
         target: type,
-        changes: config,
+        changes: masked,
         timestamp: new Date(),
         source,
         applied: true,
@@ -247,7 +252,7 @@ export class WebControlStateManager {
       
       this.addConfigurationChange(change);
       this.notifyStateChanged();
-      this.broadcastConfigUpdate('endpoint-config', { type, config });
+      this.broadcastConfigUpdate('endpoint-config', { type, config: masked });
     } catch (error) {
       const appError = errorHandler.handleApplicationError(error, `Update ${type} endpoint configuration`);
       console.error(`Error updating ${type} endpoint configuration:`, appError.message);
@@ -296,7 +301,7 @@ export class WebControlStateManager {
    * Start operation
    */
   startOperation(
-    type: 'enroll' | 'validate' | 'delete-keys',
+    type: 'enroll' | 'validate' | 'authenticate' | 'delete-keys',
     clientId?: string,
     endpoint?: string
   ): string {
@@ -454,6 +459,9 @@ export class WebControlStateManager {
         if (changes.endpointConfigs.validate) {
           await this.updateEndpointConfiguration('validate', changes.endpointConfigs.validate, 'web');
         }
+        if (changes.endpointConfigs.unenroll) {
+          await this.updateEndpointConfiguration('unenroll', changes.endpointConfigs.unenroll, 'web');
+        }
       }
       
       if (changes.preferences) {
@@ -470,12 +478,18 @@ export class WebControlStateManager {
   }
 
   /**
-   * Get configuration for web interface
+   * Get configuration for web interface, with endpoint secrets masked
    */
   getConfigurationForWeb(): any {
+    const { endpoints } = this.state.configurations;
     return {
       serverSettings: this.state.server.settings,
-      endpointConfigs: this.state.configurations.endpoints,
+      endpointConfigs: {
+        ...endpoints,
+        enroll: maskEndpointConfig(endpoints.enroll),
+        validate: maskEndpointConfig(endpoints.validate),
+        unenroll: maskEndpointConfig(endpoints.unenroll),
+      },
       preferences: this.state.configurations.preferences,
       serverStatus: this.state.server.status,
       activeOperations: Array.from(this.state.operations.activeOperations.values()),
@@ -516,6 +530,7 @@ export class WebControlStateManager {
         endpoints: {
           enroll: { url: '', method: 'POST' },
           validate: { url: '', method: 'POST' },
+          unenroll: { url: '', method: 'DELETE' },
           lastUpdated: new Date().toISOString(),
         },
         preferences: {
@@ -677,7 +692,10 @@ export class WebControlStateManager {
         await configurationPersistence.saveServerSettings(change.changes);
         break;
       case 'endpoint-config':
-        await configurationPersistence.updateEndpointConfig(change.target as 'enroll' | 'validate', change.changes);
+        await configurationPersistence.updateEndpointConfig(
+          change.target as 'enroll' | 'validate' | 'unenroll',
+          change.changes
+        );
         break;
       case 'preferences':
         await configurationPersistence.savePreferences(change.changes);
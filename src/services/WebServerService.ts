@@ -1,13 +1,35 @@
 import TcpSocket from 'react-native-tcp-socket';
 import { AppState } from 'react-native';
-import { ServerInfo, AuthCredentials, ServerStatus } from '../types';
+import { ServerInfo, AuthCredentials, ServerStatus, BenchmarkOptions } from '../types';
 import { AuthenticationMiddleware } from './AuthenticationMiddleware';
 import { webControlBridge, WebRequest, WebResponse } from './WebControlBridge';
 import { webSocketManager } from './WebSocketManager';
 import { webControlStateManager } from './WebControlStateManager';
 import { configurationPersistence } from './ConfigurationPersistence';
+import { keyRegistry } from './KeyRegistry';
+import { simulatedFaultProfile } from './SimulatedFaultProfile';
+import { variableStore } from './VariableStore';
+import { biometricAPIService } from './BiometricAPIService';
 import { errorHandler, ServerErrorDetails } from '../utils/ErrorHandler';
 import { networkResilience } from '../utils/NetworkResilience';
+import { previewPayloadTemplate } from '../utils/payloadTemplate';
+import { validateBenchmarkOptions } from '../utils/benchmark';
+import { validateBodyTemplate } from '../utils/bodyTemplate';
+import { validateRequestPolicy } from '../utils/requestPolicy';
+import { validateAssertions } from '../utils/responseAssertions';
+import { validateCaptureRules } from '../utils/capturedVariables';
+import { maskEndpointConfig, validateEndpointAuth } from '../utils/endpointAuth';
+import { validateRequestSigning } from '../utils/requestSigning';
+import { toHar } from '../utils/httpExchange';
+import { importCurlCommand } from '../utils/curlCommand';
+import {
+  importOpenApiEndpoints,
+  listOpenApiOperations,
+  OpenApiDocument,
+  parseOpenApiDocument,
+} from '../utils/openApiImport';
+import { API_CONFIG } from '../constants/biometrics';
+import { isEnrollmentPolicy } from '../utils/typeGuards';
 
 /**
  * Parsed HTTP request structure
@@ -442,18 +464,108 @@ export class WebServerService {
         return;
       }
 
+      // POST /api/authenticate - Execute authenticate-only operation
+      if (method === 'POST' && path === '/api/authenticate') {
+        await this.handleAuthenticateOperation(socket, request);
+        return;
+      }
+
       // POST /api/delete-keys - Execute delete keys operation
       if (method === 'POST' && path === '/api/delete-keys') {
         await this.handleDeleteKeysOperation(socket, request);
         return;
       }
 
+      // POST /api/benchmark - Run the signature latency benchmark
+      if (method === 'POST' && path === '/api/benchmark') {
+        await this.handleBenchmarkOperation(socket, request);
+        return;
+      }
+
       // GET /api/state - Get current app state
       if (method === 'GET' && path === '/api/state') {
         await this.handleGetState(socket);
         return;
       }
 
+      // GET /api/keys - List enrolled public keys
+      if (method === 'GET' && path === '/api/keys') {
+        await this.handleGetKeys(socket);
+        return;
+      }
+
+      // POST /api/payload-preview - Render a custom payload template
+      if (method === 'POST' && path === '/api/payload-preview') {
+        await this.handlePayloadPreview(socket, request);
+        return;
+      }
+
+      // GET /api/faults - List simulated provider fault rules
+      if (method === 'GET' && path === '/api/faults') {
+        await this.handleGetFaults(socket);
+        return;
+      }
+
+      // POST /api/faults - Replace simulated provider fault rules
+      if (method === 'POST' && path === '/api/faults') {
+        await this.handleUpdateFaults(socket, request);
+        return;
+      }
+
+      // GET /api/prompts - Get biometric prompt texts per operation
+      if (method === 'GET' && path === '/api/prompts') {
+        await this.handleGetPromptProfiles(socket);
+        return;
+      }
+
+      // POST /api/prompts - Update or reset biometric prompt texts
+      if (method === 'POST' && path === '/api/prompts') {
+        await this.handleUpdatePromptProfiles(socket, request);
+        return;
+      }
+
+      // GET /api/variables - List variables captured from backend responses
+      if (method === 'GET' && path === '/api/variables') {
+        await this.handleGetVariables(socket);
+        return;
+      }
+
+      // POST /api/variables - Replace or clear captured variables
+      if (method === 'POST' && path === '/api/variables') {
+        await this.handleUpdateVariables(socket, request);
+        return;
+      }
+
+      // GET /api/exchanges - List recent HTTP exchanges with the backend
+      if (method === 'GET' && path === '/api/exchanges') {
+        await this.handleGetExchanges(socket);
+        return;
+      }
+
+      // GET /api/exchanges.har - Download recent HTTP exchanges as a HAR 1.2 file
+      if (method === 'GET' && path === '/api/exchanges.har') {
+        await this.handleGetExchangesHar(socket);
+        return;
+      }
+
+      // POST /api/import/curl - Replace an endpoint's request with a cURL command
+      if (method === 'POST' && path === '/api/import/curl') {
+        await this.handleImportCurl(socket, request);
+        return;
+      }
+
+      // POST /api/openapi/operations - List the operations of an OpenAPI document
+      if (method === 'POST' && path === '/api/openapi/operations') {
+        await this.handleListOpenApiOperations(socket, request);
+        return;
+      }
+
+      // POST /api/import/openapi - Generate endpoints from OpenAPI operations
+      if (method === 'POST' && path === '/api/import/openapi') {
+        await this.handleImportOpenApi(socket, request);
+        return;
+      }
+
       // POST /api/config - Update configuration
       if (method === 'POST' && path === '/api/config') {
         await this.handleUpdateConfig(socket, request);
@@ -497,9 +609,24 @@ export class WebServerService {
             <ul>
                 <li>POST /api/enroll - Execute enrollment</li>
                 <li>POST /api/validate - Execute validation</li>
-                <li>POST /api/delete-keys - Delete biometric keys</li>
+                <li>POST /api/authenticate - Check user presence without keys</li>
+                <li>POST /api/delete-keys - Delete biometric keys and unenroll them from the backend</li>
+                <li>POST /api/benchmark - Run the signature latency benchmark</li>
                 <li>GET /api/state - Get current app state</li>
-                <li>POST /api/config - Update configuration</li>
+                <li>GET /api/keys - List enrolled public keys</li>
+                <li>POST /api/payload-preview - Render a custom payload template</li>
+                <li>GET /api/faults - List simulated provider fault rules</li>
+                <li>POST /api/faults - Replace simulated provider fault rules</li>
+                <li>GET /api/prompts - Get biometric prompt texts per operation</li>
+                <li>POST /api/prompts - Update or reset biometric prompt texts</li>
+                <li>GET /api/variables - List variables captured from backend responses</li>
+                <li>POST /api/variables - Replace or clear captured variables</li>
+                <li>GET /api/exchanges - List recent HTTP exchanges with the backend</li>
+                <li>GET /api/exchanges.har - Download recent HTTP exchanges as a HAR 1.2 file</li>
+                <li>POST /api/import/curl - Replace an endpoint's URL, method, headers and body template with a cURL command</li>
+                <li>POST /api/openapi/operations - List the operations of a pasted or fetched OpenAPI 3 document</li>
+                <li>POST /api/import/openapi - Generate the enroll, validate and challenge endpoints from OpenAPI operations</li>
+                <li>POST /api/config - Update configuration, key slot or biometric provider</li>
             </ul>
         </div>
     </div>
@@ -635,18 +762,21 @@ window.ResponseViewer = ResponseViewer;
         action: 'enroll',
         payload: {
           endpointConfig: requestData.config,
+          keyAlias: requestData.keyAlias,
         },
         requestId,
       };
 
       // Execute operation through WebControlBridge
-      const result = await webControlBridge.executeEnrollment(requestData.config);
+      const result = await webControlBridge.executeEnrollment(requestData.config, requestData.keyAlias);
 
       // Create response
       const response: WebResponse = {
         success: result.success,
         data: result.data,
         error: result.success ? undefined : result.message,
+        errorCode: result.error?.code,
+        remediation: result.error?.remediation,
         requestId,
         timestamp: new Date().toISOString(),
       };
@@ -676,18 +806,55 @@ window.ResponseViewer = ResponseViewer;
         action: 'validate',
         payload: {
           endpointConfig: requestData.config,
+          keyAlias: requestData.keyAlias,
         },
         requestId,
       };
 
       // Execute operation through WebControlBridge
-      const result = await webControlBridge.executeValidation(requestData.config);
+      const result = await webControlBridge.executeValidation(requestData.config, requestData.keyAlias);
 
       // Create response
       const response: WebResponse = {
         success: result.success,
         data: result.data,
         error: result.success ? undefined : result.message,
+        errorCode: result.error?.code,
+        remediation: result.error?.remediation,
+        requestId,
+        timestamp: new Date().toISOString(),
+      };
+
+      this.sendJsonResponse(socket, 200, response);
+    } catch (error) {
+      const errorResponse: WebResponse = {
+        success: false,
+        error: this.getErrorMessage(error),
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+      this.sendJsonResponse(socket, 500, errorResponse);
+    }
+  }
+
+  /**
+   * Handle POST /api/authenticate - Execute authenticate-only operation
+   */
+  private async handleAuthenticateOperation(socket: any, request: ParsedHttpRequest): Promise<void> {
+    try {
+      const requestData = this.parseJsonBody(request.body);
+      const requestId = this.generateRequestId();
+
+      // Execute operation through WebControlBridge
+      const result = await webControlBridge.executeAuthentication(requestData.config);
+
+      // Create response
+      const response: WebResponse = {
+        success: result.success,
+        data: result.data,
+        error: result.success ? undefined : result.message,
+        errorCode: result.error?.code,
+        remediation: result.error?.remediation,
         requestId,
         timestamp: new Date().toISOString(),
       };
@@ -709,22 +876,80 @@ window.ResponseViewer = ResponseViewer;
    */
   private async handleDeleteKeysOperation(socket: any, request: ParsedHttpRequest): Promise<void> {
     try {
+      const requestData = this.parseJsonBody(request.body);
       const requestId = this.generateRequestId();
 
       // Create web request
       const webRequest: WebRequest = {
         action: 'delete-keys',
+        payload: {
+          endpointConfig: requestData.config,
+          keyAlias: requestData.keyAlias,
+        },
         requestId,
       };
 
       // Execute operation through WebControlBridge
-      const result = await webControlBridge.deleteKeys();
+      const result = await webControlBridge.deleteKeys(requestData.keyAlias, requestData.config);
 
       // Create response
       const response: WebResponse = {
         success: result.success,
         data: result.data,
         error: result.success ? undefined : result.message,
+        errorCode: result.error?.code,
+        remediation: result.error?.remediation,
+        requestId,
+        timestamp: new Date().toISOString(),
+      };
+
+      this.sendJsonResponse(socket, 200, response);
+    } catch (error) {
+      const errorResponse: WebResponse = {
+        success: false,
+        error: this.getErrorMessage(error),
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+      this.sendJsonResponse(socket, 500, errorResponse);
+    }
+  }
+
+  /**
+   * Handle POST /api/benchmark - Run the signature latency benchmark
+   */
+  private async handleBenchmarkOperation(socket: any, request: ParsedHttpRequest): Promise<void> {
+    try {
+      const requestData = this.parseJsonBody(request.body);
+      const requestId = this.generateRequestId();
+
+      let benchmarkOptions: BenchmarkOptions;
+      try {
+        benchmarkOptions = validateBenchmarkOptions({
+          iterations: requestData.iterations,
+          payloadSizes: requestData.payloadSizes,
+        });
+      } catch (error) {
+        const errorResponse: WebResponse = {
+          success: false,
+          error: this.getErrorMessage(error),
+          requestId,
+          timestamp: new Date().toISOString(),
+        };
+        this.sendJsonResponse(socket, 400, errorResponse);
+        return;
+      }
+
+      // Execute operation through WebControlBridge
+      const result = await webControlBridge.executeBenchmark(benchmarkOptions, requestData.keyAlias);
+
+      // Create response
+      const response: WebResponse = {
+        success: result.success,
+        data: result.data,
+        error: result.success ? undefined : result.message,
+        errorCode: result.error?.code,
+        remediation: result.error?.remediation,
         requestId,
         timestamp: new Date().toISOString(),
       };
@@ -749,7 +974,7 @@ window.ResponseViewer = ResponseViewer;
       const requestId = this.generateRequestId();
 
       // Get current state from WebControlBridge and StateManager
-      const bridgeState = webControlBridge.getAppState();
+      const bridgeState = webControlBridge.getAppStateForWeb();
       const configurationState = webControlStateManager.getConfigurationForWeb();
 
       // Combine states
@@ -779,6 +1004,494 @@ window.ResponseViewer = ResponseViewer;
     }
   }
 
+  /**
+   * Handle GET /api/keys - List enrolled public keys
+   */
+  private async handleGetKeys(socket: any): Promise<void> {
+    try {
+      const keys = await keyRegistry.list();
+
+      const response: WebResponse = {
+        success: true,
+        data: {
+          keys,
+          activeKeyAlias: webControlBridge.getAppState().activeKeyAlias,
+        },
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+
+      this.sendJsonResponse(socket, 200, response);
+    } catch (error) {
+      const errorResponse: WebResponse = {
+        success: false,
+        error: this.getErrorMessage(error),
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+      this.sendJsonResponse(socket, 500, errorResponse);
+    }
+  }
+
+  /**
+   * Handle POST /api/payload-preview - Render a custom payload template
+   * Template errors are reported in the preview rather than as a failed request
+   */
+  private async handlePayloadPreview(socket: any, request: ParsedHttpRequest): Promise<void> {
+    try {
+      const requestData = this.parseJsonBody(request.body);
+      if (typeof requestData.template !== 'string') {
+        throw new Error('Missing required field: template');
+      }
+
+      const keyAlias = webControlBridge.getAppState().activeKeyAlias;
+      const keyRecord = await keyRegistry.get(keyAlias);
+      const preview = previewPayloadTemplate(requestData.template, {
+        keyAlias,
+        publicKeyFingerprint: keyRecord?.fingerprint,
+        variables: requestData.variables,
+        capturedVariables: await variableStore.getAll(),
+      });
+
+      const response: WebResponse = {
+        success: true,
+        data: preview,
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+
+      this.sendJsonResponse(socket, 200, response);
+    } catch (error) {
+      const errorResponse: WebResponse = {
+        success: false,
+        error: this.getErrorMessage(error),
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+      this.sendJsonResponse(socket, 400, errorResponse);
+    }
+  }
+
+  /**
+   * Handle GET /api/faults - List simulated provider fault rules
+   */
+  private async handleGetFaults(socket: any): Promise<void> {
+    try {
+      const response: WebResponse = {
+        success: true,
+        data: {
+          faults: simulatedFaultProfile.getFaults(),
+          biometricProvider: webControlBridge.getAppState().biometricProvider,
+        },
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+
+      this.sendJsonResponse(socket, 200, response);
+    } catch (error) {
+      const errorResponse: WebResponse = {
+        success: false,
+        error: this.getErrorMessage(error),
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+      this.sendJsonResponse(socket, 500, errorResponse);
+    }
+  }
+
+  /**
+   * Handle POST /api/faults - Replace simulated provider fault rules
+   * Body: { faults: [{ operation, fault, remaining?, delayMs? }] }; an empty list clears them
+   */
+  private async handleUpdateFaults(socket: any, request: ParsedHttpRequest): Promise<void> {
+    try {
+      const requestData = this.parseJsonBody(request.body);
+      const faults = simulatedFaultProfile.setFaults(requestData.faults);
+
+      const response: WebResponse = {
+        success: true,
+        data: {
+          faults,
+          biometricProvider: webControlBridge.getAppState().biometricProvider,
+        },
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+
+      this.sendJsonResponse(socket, 200, response);
+    } catch (error) {
+      const errorResponse: WebResponse = {
+        success: false,
+        error: this.getErrorMessage(error),
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+      this.sendJsonResponse(socket, 400, errorResponse);
+    }
+  }
+
+  /**
+   * Handle GET /api/prompts - Get biometric prompt texts per operation
+   */
+  private async handleGetPromptProfiles(socket: any): Promise<void> {
+    try {
+      const response: WebResponse = {
+        success: true,
+        data: { profiles: await configurationPersistence.getPromptProfiles() },
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+
+      this.sendJsonResponse(socket, 200, response);
+    } catch (error) {
+      const errorResponse: WebResponse = {
+        success: false,
+        error: this.getErrorMessage(error),
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+      this.sendJsonResponse(socket, 500, errorResponse);
+    }
+  }
+
+  /**
+   * Handle POST /api/prompts - Update or reset biometric prompt texts
+   * Body: { profiles: { [operation]: { promptMessage, cancelButtonText, fallbackPromptMessage? } } } or { reset: true }
+   */
+  private async handleUpdatePromptProfiles(socket: any, request: ParsedHttpRequest): Promise<void> {
+    try {
+      const requestData = this.parseJsonBody(request.body);
+
+      let profiles;
+      if (requestData.reset === true) {
+        profiles = await configurationPersistence.resetPromptProfiles();
+      } else if (requestData.profiles) {
+        profiles = await configurationPersistence.savePromptProfiles(requestData.profiles);
+      } else {
+        throw new Error('Missing required field: profiles or reset');
+      }
+
+      const response: WebResponse = {
+        success: true,
+        data: { profiles },
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+
+      this.sendJsonResponse(socket, 200, response);
+    } catch (error) {
+      const errorResponse: WebResponse = {
+        success: false,
+        error: this.getErrorMessage(error),
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+      this.sendJsonResponse(socket, 400, errorResponse);
+    }
+  }
+
+  /**
+   * Handle GET /api/variables - List variables captured from backend responses
+   */
+  private async handleGetVariables(socket: any): Promise<void> {
+    try {
+      const response: WebResponse = {
+        success: true,
+        data: { variables: await variableStore.getAll() },
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+
+      this.sendJsonResponse(socket, 200, response);
+    } catch (error) {
+      const errorResponse: WebResponse = {
+        success: false,
+        error: this.getErrorMessage(error),
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+      this.sendJsonResponse(socket, 500, errorResponse);
+    }
+  }
+
+  /**
+   * Handle GET /api/exchanges - List recent HTTP exchanges with the backend, credentials masked
+   */
+  private async handleGetExchanges(socket: any): Promise<void> {
+    try {
+      const response: WebResponse = {
+        success: true,
+        data: { exchanges: biometricAPIService.getRecentExchanges() },
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+
+      this.sendJsonResponse(socket, 200, response);
+    } catch (error) {
+      const errorResponse: WebResponse = {
+        success: false,
+        error: this.getErrorMessage(error),
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+      this.sendJsonResponse(socket, 500, errorResponse);
+    }
+  }
+
+  /**
+   * Handle GET /api/exchanges.har - Download recent HTTP exchanges as a HAR 1.2 file
+   */
+  private async handleGetExchangesHar(socket: any): Promise<void> {
+    try {
+      const har = toHar(biometricAPIService.getRecentExchanges());
+      this.sendHttpResponse(socket, 200, JSON.stringify(har, null, 2), {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="biometric-playground.har"',
+      });
+    } catch (error) {
+      const errorResponse: WebResponse = {
+        success: false,
+        error: this.getErrorMessage(error),
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+      this.sendJsonResponse(socket, 500, errorResponse);
+    }
+  }
+
+  /**
+   * Handle POST /api/import/curl - Replace an endpoint's request with a cURL command
+   * Body: { type: "enroll" | "validate" | "unenroll", command: string }
+   * Every unsupported option is listed in data.errors; the endpoint only changes when there are none.
+   */
+  private async handleImportCurl(socket: any, request: ParsedHttpRequest): Promise<void> {
+    try {
+      const requestData = this.parseJsonBody(request.body);
+      if (!['enroll', 'validate', 'unenroll'].includes(requestData.type)) {
+        throw new Error('Invalid type. Must be "enroll", "validate" or "unenroll"');
+      }
+      if (typeof requestData.command !== 'string') {
+        throw new Error('Missing required field: command');
+      }
+
+      const type: 'enroll' | 'validate' | 'unenroll' = requestData.type;
+      const appState = webControlBridge.getAppState();
+      const current =
+        type === 'enroll'
+          ? appState.enrollEndpoint
+          : type === 'validate'
+          ? appState.validateEndpoint
+          : appState.unenrollEndpoint;
+
+      const { config, errors } = importCurlCommand(requestData.command, type, current);
+      if (!config) {
+        const errorResponse: WebResponse = {
+          success: false,
+          data: { errors },
+          error: `Cannot import the cURL command: ${errors.join('; ')}`,
+          requestId: this.generateRequestId(),
+          timestamp: new Date().toISOString(),
+        };
+        this.sendJsonResponse(socket, 400, errorResponse);
+        return;
+      }
+
+      // Persisted through WebControlBridge like other configuration updates
+      await webControlBridge.updateConfiguration(type, config);
+
+      // The imported config keeps the stored credentials, which web clients only see masked
+      const response: WebResponse = {
+        success: true,
+        data: { type, config: maskEndpointConfig(config) },
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+
+      this.sendJsonResponse(socket, 200, response);
+    } catch (error) {
+      const errorResponse: WebResponse = {
+        success: false,
+        error: this.getErrorMessage(error),
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+      this.sendJsonResponse(socket, 400, errorResponse);
+    }
+  }
+
+  /**
+   * Handle POST /api/openapi/operations - List the operations of an OpenAPI document
+   * Body: { document: string } or { url: string }
+   */
+  private async handleListOpenApiOperations(socket: any, request: ParsedHttpRequest): Promise<void> {
+    try {
+      const { document } = await this.loadOpenApiDocument(this.parseJsonBody(request.body));
+
+      const response: WebResponse = {
+        success: true,
+        data: { operations: listOpenApiOperations(document) },
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+
+      this.sendJsonResponse(socket, 200, response);
+    } catch (error) {
+      const errorResponse: WebResponse = {
+        success: false,
+        error: this.getErrorMessage(error),
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+      this.sendJsonResponse(socket, 400, errorResponse);
+    }
+  }
+
+  /**
+   * Handle POST /api/import/openapi - Generate endpoints from OpenAPI operations
+   * Body: { document: string } or { url: string }, plus the "METHOD /path" keys of the
+   * enroll, validate and challenge operations. Nothing is saved unless every operation imports.
+   */
+  private async handleImportOpenApi(socket: any, request: ParsedHttpRequest): Promise<void> {
+    try {
+      const requestData = this.parseJsonBody(request.body);
+      const selection = {
+        enroll: requestData.enroll || undefined,
+        validate: requestData.validate || undefined,
+        challenge: requestData.challenge || undefined,
+      };
+      if (Object.values(selection).some(key => key !== undefined && typeof key !== 'string')) {
+        throw new Error('Operations must be given as "METHOD /path" strings');
+      }
+      if (!selection.enroll && !selection.validate && !selection.challenge) {
+        throw new Error('Pick at least one operation for enroll, validate or challenge');
+      }
+
+      const { document, baseUrl } = await this.loadOpenApiDocument(requestData);
+      const appState = webControlBridge.getAppState();
+      const { configs, errors } = importOpenApiEndpoints(
+        document,
+        selection,
+        { enroll: appState.enrollEndpoint, validate: appState.validateEndpoint },
+        baseUrl
+      );
+      if (errors.length > 0) {
+        const errorResponse: WebResponse = {
+          success: false,
+          data: { errors },
+          error: `Cannot import the OpenAPI operations: ${errors.join('; ')}`,
+          requestId: this.generateRequestId(),
+          timestamp: new Date().toISOString(),
+        };
+        this.sendJsonResponse(socket, 400, errorResponse);
+        return;
+      }
+
+      if (configs.enroll) {
+        await webControlBridge.updateConfiguration('enroll', configs.enroll);
+      }
+      if (configs.validate) {
+        await webControlBridge.updateConfiguration('validate', configs.validate);
+      }
+
+      const response: WebResponse = {
+        success: true,
+        data: {
+          configs: {
+            enroll: configs.enroll && maskEndpointConfig(configs.enroll),
+            validate: configs.validate && maskEndpointConfig(configs.validate),
+          },
+        },
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+
+      this.sendJsonResponse(socket, 200, response);
+    } catch (error) {
+      const errorResponse: WebResponse = {
+        success: false,
+        error: this.getErrorMessage(error),
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+      this.sendJsonResponse(socket, 400, errorResponse);
+    }
+  }
+
+  /**
+   * Read the OpenAPI document pasted into the request, or fetch it from its URL
+   * A fetched document's URL is returned as the base for relative server URLs.
+   */
+  private async loadOpenApiDocument(
+    requestData: any
+  ): Promise<{ document: OpenApiDocument; baseUrl?: string }> {
+    if (typeof requestData.document === 'string' && requestData.document.trim()) {
+      return { document: parseOpenApiDocument(requestData.document) };
+    }
+    if (typeof requestData.url !== 'string' || !/^https?:\/\//i.test(requestData.url)) {
+      throw new Error('Missing required field: document or an http(s) url');
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), API_CONFIG.TIMEOUT);
+    let text: string;
+    try {
+      const response = await fetch(requestData.url, {
+        headers: { Accept: 'application/json, application/yaml, text/yaml, */*' },
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`Fetching the OpenAPI document failed with HTTP ${response.status}`);
+      }
+      text = await response.text();
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`Fetching the OpenAPI document timed out after ${API_CONFIG.TIMEOUT}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    return { document: parseOpenApiDocument(text), baseUrl: requestData.url };
+  }
+
+  /**
+   * Handle POST /api/variables - Replace or clear captured variables
+   * Body: { variables: { [name]: value } } or { clear: true }
+   */
+  private async handleUpdateVariables(socket: any, request: ParsedHttpRequest): Promise<void> {
+    try {
+      const requestData = this.parseJsonBody(request.body);
+
+      let variables;
+      if (requestData.clear === true) {
+        await variableStore.clear();
+        variables = {};
+      } else if (requestData.variables !== undefined) {
+        variables = await variableStore.setVariables(requestData.variables);
+      } else {
+        throw new Error('Missing required field: variables or clear');
+      }
+
+      const response: WebResponse = {
+        success: true,
+        data: { variables },
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+
+      this.sendJsonResponse(socket, 200, response);
+    } catch (error) {
+      const errorResponse: WebResponse = {
+        success: false,
+        error: this.getErrorMessage(error),
+        requestId: this.generateRequestId(),
+        timestamp: new Date().toISOString(),
+      };
+      this.sendJsonResponse(socket, 400, errorResponse);
+    }
+  }
+
   /**
    * Handle POST /api/config - Update configuration
    */
@@ -790,8 +1503,73 @@ window.ResponseViewer = ResponseViewer;
       // Handle different types of configuration updates
       if (requestData.type && requestData.config) {
         // Single endpoint configuration update
-        if (!['enroll', 'validate'].includes(requestData.type)) {
-          throw new Error('Invalid config type. Must be "enroll" or "validate"');
+        if (!['enroll', 'validate', 'unenroll'].includes(requestData.type)) {
+          throw new Error('Invalid config type. Must be "enroll", "validate" or "unenroll"');
+        }
+
+        const { enrollmentPolicy } = requestData.config;
+        if (enrollmentPolicy !== undefined && !isEnrollmentPolicy(enrollmentPolicy)) {
+          throw new Error(
+            'Invalid enrollmentPolicy. Expected { algorithm?: "EC-P256" | "RSA-2048", allowDeviceCredentials: boolean, requireConfirmation: boolean }'
+          );
+        }
+
+        const {
+          bodyTemplate,
+          deleteLocallyOnFailure,
+          requestPolicy,
+          assertions,
+          captures,
+          auth,
+          signing,
+        } = requestData.config;
+        if (bodyTemplate !== undefined && requestData.type !== 'unenroll') {
+          if (typeof bodyTemplate !== 'string') {
+            throw new Error('Invalid bodyTemplate. Expected a JSON string');
+          }
+          const templateValidation = validateBodyTemplate(bodyTemplate, requestData.type);
+          if (!templateValidation.isValid) {
+            throw new Error(`Invalid bodyTemplate: ${templateValidation.errors.join(', ')}`);
+          }
+        }
+
+        if (deleteLocallyOnFailure !== undefined && typeof deleteLocallyOnFailure !== 'boolean') {
+          throw new Error('Invalid deleteLocallyOnFailure. Expected a boolean');
+        }
+
+        if (requestPolicy !== undefined) {
+          const policyValidation = validateRequestPolicy(requestPolicy);
+          if (!policyValidation.isValid) {
+            throw new Error(`Invalid requestPolicy: ${policyValidation.errors.join(', ')}`);
+          }
+        }
+
+        if (assertions !== undefined) {
+          const assertionValidation = validateAssertions(assertions);
+          if (!assertionValidation.isValid) {
+            throw new Error(`Invalid assertions: ${assertionValidation.errors.join(', ')}`);
+          }
+        }
+
+        if (captures !== undefined) {
+          const captureValidation = validateCaptureRules(captures);
+          if (!captureValidation.isValid) {
+            throw new Error(`Invalid captures: ${captureValidation.errors.join(', ')}`);
+          }
+        }
+
+        if (auth !== undefined) {
+          const authValidation = validateEndpointAuth(auth);
+          if (!authValidation.isValid) {
+            throw new Error(`Invalid auth: ${authValidation.errors.join(', ')}`);
+          }
+        }
+
+        if (signing !== undefined) {
+          const signingValidation = validateRequestSigning(signing);
+          if (!signingValidation.isValid) {
+            throw new Error(`Invalid signing: ${signingValidation.errors.join(', ')}`);
+          }
         }
 
         // Update configuration through WebControlBridge (which will persist it)
@@ -805,6 +1583,38 @@ window.ResponseViewer = ResponseViewer;
           timestamp: new Date().toISOString(),
         };
 
+        this.sendJsonResponse(socket, 200, response);
+      } else if (requestData.activeKeyAlias) {
+        // Key slot selection
+        const result = webControlBridge.selectKeySlot(requestData.activeKeyAlias);
+        if (!result.success) {
+          throw new Error(result.message);
+        }
+
+        // Create response
+        const response: WebResponse = {
+          success: true,
+          data: result.data,
+          requestId,
+          timestamp: new Date().toISOString(),
+        };
+
+        this.sendJsonResponse(socket, 200, response);
+      } else if (requestData.biometricProvider) {
+        // Biometric provider selection
+        const result = await webControlBridge.selectBiometricProvider(requestData.biometricProvider);
+        if (!result.success) {
+          throw new Error(result.message);
+        }
+
+        // Create response
+        const response: WebResponse = {
+          success: true,
+          data: result.data,
+          requestId,
+          timestamp: new Date().toISOString(),
+        };
+
         this.sendJsonResponse(socket, 200, response);
       } else if (requestData.configurations) {
         // Bulk configuration update from web interface
@@ -820,7 +1630,7 @@ window.ResponseViewer = ResponseViewer;
 
         this.sendJsonResponse(socket, 200, response);
       } else {
-        throw new Error('Missing required fields: type and config, or configurations');
+        throw new Error('Missing required fields: type and config, activeKeyAlias, biometricProvider, or configurations');
       }
     } catch (error) {
       const errorResponse: WebResponse = {
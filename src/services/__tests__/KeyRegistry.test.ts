@@ -0,0 +1,63 @@
+/**
+ * KeyRegistry Tests
+ * Verifies public key records are described, persisted and removed per key slot
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { KeyRegistry } from '../KeyRegistry';
+
+const RSA_PUBLIC_KEY =
+  'MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEAxlZzShPolQj3ynJ6I1PVRfY2LEAtoU/e' +
+  'n0gudnriEGosyr5mWcl4AKH87fjtHZqEJqM3iR1RDc/vjpKW1LgG3hf+bz1IymRXpwwtdMnV11L8' +
+  '2/gsLl6QfPzJslr2/wB8XQVaVZEFn/GtWGSLzvcEUV0d9tclVkJQg8B9+Qmb742qpxcfdQc9aNT2' +
+  'DbkCmb7wIEIJXrTjZZ6Fo7vS0FVhPQe4aNMRr4D0YDo/j4O9rJd2imWTcR1j3qUZG13wrKNRLOF2' +
+  'UC+N5cT7bB+fzbRFk7tw5pfMWKPLvb8x/5uKIZ8A04mvO2zFXwlOkWfn+6l+NHyxjC6ncU0Hqa94' +
+  '21WzxwIDAQAB';
+const EC_PUBLIC_KEY =
+  'MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEtC9kr/Upk79tjTiZP6aHvrCTlDUDm/JMva96q/SZ' +
+  'VDaBea0HhBM/ffDY0DKG7WZbFtWViP/n6PGLQFOslMtdvg==';
+
+describe('KeyRegistry', () => {
+  let registry: KeyRegistry;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+    registry = new KeyRegistry();
+  });
+
+  it('should describe and fingerprint registered keys', async () => {
+    const rsaRecord = await registry.register('default', RSA_PUBLIC_KEY);
+    const ecRecord = await registry.register('ec', EC_PUBLIC_KEY);
+
+    expect(rsaRecord).toMatchObject({ alias: 'default', algorithm: 'RSA', keySize: 2048 });
+    expect(rsaRecord.fingerprint).toMatch(/^[0-9a-f]{64}$/);
+    expect(ecRecord).toMatchObject({ alias: 'ec', algorithm: 'EC', keySize: 256, curve: 'P-256' });
+    expect(AsyncStorage.setItem).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep unparseable keys with an unknown algorithm', async () => {
+    const record = await registry.register('default', 'not-a-key');
+
+    expect(record.algorithm).toBe('unknown');
+    expect(record.publicKey).toBe('not-a-key');
+  });
+
+  it('should load records persisted by a previous session', async () => {
+    const stored = [
+      { alias: 'default', publicKey: RSA_PUBLIC_KEY, createdAt: '2024-01-01T00:00:00.000Z', algorithm: 'RSA', fingerprint: 'ab' },
+    ];
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify(stored));
+
+    expect(await registry.get('default')).toEqual(stored[0]);
+    expect(await registry.list()).toEqual(stored);
+  });
+
+  it('should remove records for deleted key slots', async () => {
+    await registry.register('default', RSA_PUBLIC_KEY);
+    await registry.remove('default');
+
+    expect(await registry.get('default')).toBeNull();
+    expect(await registry.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * SimulatedBiometricProvider Tests
+ * Verifies software key pairs are created, persisted, used for signing and deleted per key slot
+ */
+
+import { NativeModules } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SimulatedBiometricProvider } from '../SimulatedBiometricProvider';
+import { SimulatedFaultProfile } from '../SimulatedFaultProfile';
+import { bytesToBase64 } from '../../utils/cryptoUtils';
+import { verifySignature } from '../../utils/signatureVerifier';
+
+describe('SimulatedBiometricProvider', () => {
+  let provider: SimulatedBiometricProvider;
+  let faults: SimulatedFaultProfile;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+    faults = new SimulatedFaultProfile();
+    provider = new SimulatedBiometricProvider(undefined, faults);
+  });
+
+  it('should always report an available sensor', async () => {
+    expect(await provider.isSensorAvailable()).toEqual({ available: true, biometryType: 'Biometrics' });
+  });
+
+  it('should create keys whose signatures verify against the public key', async () => {
+    const { publicKey } = await provider.createKeys('default');
+    const result = await provider.createSignature({
+      promptMessage: 'Sign',
+      payload: 'payload-to-sign',
+      cancelButtonText: 'Cancel',
+      keyAlias: 'default',
+    });
+
+    expect(result.success).toBe(true);
+    expect(verifySignature(publicKey, 'payload-to-sign', result.signature!).status).toBe('verified');
+    expect(await provider.biometricKeysExist('default')).toEqual({ keysExist: true });
+    expect(AsyncStorage.setItem).toHaveBeenCalledWith(
+      '@biometrics_playground:simulated_keys',
+      expect.stringContaining('"default"')
+    );
+  });
+
+  it('should create RSA 2048 keys when the policy asks for them', async () => {
+    const { publicKey } = await provider.createKeys('rsa', {
+      algorithm: 'RSA-2048',
+      allowDeviceCredentials: false,
+      requireConfirmation: false,
+    });
+    const result = await provider.createSignature({
+      promptMessage: 'Sign',
+      payload: 'payload-to-sign',
+      cancelButtonText: 'Cancel',
+      keyAlias: 'rsa',
+    });
+
+    expect(verifySignature(publicKey, 'payload-to-sign', result.signature!)).toEqual({
+      status: 'verified',
+      algorithm: 'RSASSA-PKCS1-v1_5-SHA256',
+      keySize: 2048,
+      reason: undefined,
+    });
+  });
+
+  it('should create keys from the native random source when the global crypto is missing', async () => {
+    // React Native has no Web Crypto; index.js installs crypto.getRandomValues from the native module
+    const cryptoApi = Object.getOwnPropertyDescriptor(globalThis, 'crypto');
+    const getRandomBase64 = jest.fn((length: number) =>
+      bytesToBase64(Uint8Array.from({ length }, () => Math.floor(Math.random() * 256)))
+    );
+    Object.defineProperty(globalThis, 'crypto', { value: undefined, configurable: true, writable: true });
+    NativeModules.RNGetRandomValues = { getRandomBase64 };
+    (globalThis as any).RN$Bridgeless = true;
+    try {
+      jest.isolateModules(() => {
+        require('react-native-get-random-values');
+      });
+
+      const { publicKey } = await provider.createKeys('default');
+      const result = await provider.createSignature({
+        promptMessage: 'Sign',
+        payload: 'payload-to-sign',
+        cancelButtonText: 'Cancel',
+        keyAlias: 'default',
+      });
+
+      expect(getRandomBase64).toHaveBeenCalledWith(32);
+      expect(verifySignature(publicKey, 'payload-to-sign', result.signature!).status).toBe('verified');
+    } finally {
+      Object.defineProperty(globalThis, 'crypto', cryptoApi as PropertyDescriptor);
+      delete NativeModules.RNGetRandomValues;
+      delete (globalThis as any).RN$Bridgeless;
+    }
+  });
+
+  it('should restore persisted keys', async () => {
+    const privateKey = 'c9afa9d845ba75166b5c215767b1d6934e50c3db36e89b127b8a622b120f6721';
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(
+      JSON.stringify({ restored: { algorithm: 'EC-P256', privateKey } })
+    );
+
+    expect(await provider.biometricKeysExist('restored')).toEqual({ keysExist: true });
+    expect(
+      (await provider.createSignature({ promptMessage: 'Sign', payload: 'p', cancelButtonText: 'Cancel', keyAlias: 'restored' }))
+        .success
+    ).toBe(true);
+  });
+
+  it('should delete keys per slot', async () => {
+    await provider.createKeys('first');
+    await provider.createKeys('second');
+
+    expect(await provider.deleteKeys('first')).toEqual({ keysDeleted: true });
+    expect(await provider.deleteKeys('first')).toEqual({ keysDeleted: false });
+    expect(await provider.biometricKeysExist('second')).toEqual({ keysExist: true });
+  });
+
+  it('should fail to sign when the slot has no key', async () => {
+    const result = await provider.createSignature({
+      promptMessage: 'Sign',
+      payload: 'payload',
+      cancelButtonText: 'Cancel',
+      keyAlias: 'missing',
+    });
+
+    expect(result).toEqual({ success: false, error: 'No simulated key exists in slot "missing"' });
+  });
+
+  describe('fault injection', () => {
+    const signatureOptions = {
+      promptMessage: 'Sign',
+      payload: 'payload',
+      cancelButtonText: 'Cancel',
+      keyAlias: 'default',
+    };
+
+    beforeEach(async () => {
+      await provider.createKeys('default');
+    });
+
+    it('should fail only the next signatures with lockout', async () => {
+      faults.setFaults([{ operation: 'createSignature', fault: 'lockout', remaining: 2 }]);
+
+      await expect(provider.createSignature(signatureOptions)).rejects.toThrow('Too many attempts. Try again later.');
+      await expect(provider.createSignature(signatureOptions)).rejects.toThrow('Too many attempts. Try again later.');
+      expect((await provider.createSignature(signatureOptions)).success).toBe(true);
+      expect(faults.getFaults()).toEqual([]);
+    });
+
+    it('should resolve user cancellation like the native library', async () => {
+      faults.addFault({ operation: 'simplePrompt', fault: 'userCancel', remaining: 1 });
+
+      expect(await provider.simplePrompt()).toEqual({ success: false, error: 'User cancellation' });
+      expect(await provider.simplePrompt()).toEqual({ success: true });
+    });
+
+    it('should report the sensor as unavailable until cleared', async () => {
+      faults.addFault({ operation: 'isSensorAvailable', fault: 'sensorUnavailable' });
+
+      expect(await provider.isSensorAvailable()).toEqual({
+        available: false,
+        biometryType: undefined,
+        error: 'BIOMETRIC_ERROR_HW_UNAVAILABLE',
+      });
+      expect((await provider.isSensorAvailable()).available).toBe(false);
+
+      faults.clearFaults();
+      expect((await provider.isSensorAvailable()).available).toBe(true);
+    });
+
+    it('should hold a slow prompt open before signing', async () => {
+      jest.useFakeTimers();
+      faults.addFault({ operation: 'createSignature', fault: 'slowPrompt', delayMs: 3000, remaining: 1 });
+
+      let settled = false;
+      const signing = provider.createSignature(signatureOptions).then(result => {
+        settled = true;
+        return result;
+      });
+
+      await jest.advanceTimersByTimeAsync(2999);
+      expect(settled).toBe(false);
+      await jest.advanceTimersByTimeAsync(1);
+      expect((await signing).success).toBe(true);
+
+      jest.useRealTimers();
+    });
+
+    it('should reject malformed fault rules', () => {
+      expect(() => faults.setFaults([{ operation: 'createSignature', fault: 'lockout', remaining: 0 }])).toThrow(
+        'Fault rule 1 remaining must be a positive integer'
+      );
+      expect(() => faults.setFaults([{ operation: 'unlock', fault: 'lockout' }])).toThrow('unknown operation "unlock"');
+    });
+  });
+});
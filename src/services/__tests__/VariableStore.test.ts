@@ -0,0 +1,59 @@
+/**
+ * VariableStore Tests
+ * Verifies captured variables are merged, validated, persisted and announced
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { VariableStore } from '../VariableStore';
+
+describe('VariableStore', () => {
+  let store: VariableStore;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(null);
+    store = new VariableStore();
+  });
+
+  it('should merge captured values over existing ones and persist them', async () => {
+    await store.merge({ sessionId: 's-1', userId: 'u-1' });
+    await store.merge({ sessionId: 's-2' });
+
+    expect(await store.getAll()).toEqual({ sessionId: 's-2', userId: 'u-1' });
+    expect(AsyncStorage.setItem).toHaveBeenLastCalledWith(
+      '@biometrics_playground:captured_variables',
+      JSON.stringify({ sessionId: 's-2', userId: 'u-1' })
+    );
+  });
+
+  it('should load variables persisted by a previous session', async () => {
+    (AsyncStorage.getItem as jest.Mock).mockResolvedValue(JSON.stringify({ sessionId: 's-1' }));
+
+    expect(await store.getAll()).toEqual({ sessionId: 's-1' });
+  });
+
+  it('should reject malformed variables and keep the stored ones', async () => {
+    await store.merge({ sessionId: 's-1' });
+
+    await expect(store.setVariables({ 'session id': 's-2' })).rejects.toThrow(
+      '"session id" is not a valid variable name'
+    );
+    expect(await store.getAll()).toEqual({ sessionId: 's-1' });
+  });
+
+  it('should notify listeners when variables change', async () => {
+    const listener = jest.fn();
+    const unsubscribe = store.addListener(listener);
+
+    await store.setVariables({ sessionId: 's-1', token: 't' });
+    await store.remove('token');
+    unsubscribe();
+    await store.clear();
+
+    expect(listener.mock.calls).toEqual([
+      [{ sessionId: 's-1', token: 't' }],
+      [{ sessionId: 's-1' }],
+    ]);
+    expect(await store.getAll()).toEqual({});
+  });
+});
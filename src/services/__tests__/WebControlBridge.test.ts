@@ -6,7 +6,11 @@
 import { WebControlBridge } from '../WebControlBridge';
 import { biometricService } from '../BiometricService';
 import { biometricAPIService } from '../BiometricAPIService';
+import { webControlStateManager } from '../WebControlStateManager';
 import { EndpointConfig, OperationResult, BiometricStatus } from '../../types';
+import { DEFAULT_PROMPT_PROFILES, SECRET_MASK } from '../../constants';
+import { createBiometricError } from '../../utils/biometricErrors';
+import { networkResilience } from '../../utils/NetworkResilience';
 
 // Mock the services
 jest.mock('../BiometricService');
@@ -74,6 +78,20 @@ describe('WebControlBridge', () => {
       expect(state.logs[0].message).toContain('initialized successfully');
     });
 
+    it('should log each retry of a backend request', async () => {
+      mockBiometricService.checkBiometricAvailability.mockResolvedValue({ available: false, biometryType: undefined });
+      await bridge.initialize();
+
+      await networkResilience.executeWithRetry(() => Promise.resolve(503), 'Backend enrollment', 3, {
+        backoff: 'none',
+        retryResult: status => (status === 503 ? 'HTTP 503' : undefined),
+      });
+
+      const messages = bridge.getAppState().logs.map(log => log.message);
+      expect(messages).toContain('Retrying Backend enrollment (attempt 2 of 3) in 0ms: HTTP 503');
+      expect(messages).toContain('Retrying Backend enrollment (attempt 3 of 3) in 0ms: HTTP 503');
+    });
+
     it('should handle initialization errors gracefully', async () => {
       mockBiometricService.checkBiometricAvailability.mockRejectedValue(
         new Error('Sensor not available')
@@ -156,11 +174,15 @@ describe('WebControlBridge', () => {
       expect(result.data.publicKey).toBe(mockPublicKey);
       expect(result.data.backendResponse).toEqual(mockEnrollResult.data);
       expect(mockBiometricService.createKeys).toHaveBeenCalledWith(
-        'Authenticate to create biometric keys for enrollment'
+        DEFAULT_PROMPT_PROFILES.enroll,
+        'default',
+        undefined
       );
       expect(mockBiometricAPIService.enrollPublicKey).toHaveBeenCalledWith(
         mockEnrollConfig,
-        mockPublicKey
+        mockPublicKey,
+        undefined,
+        'default'
       );
 
       const state = bridge.getAppState();
@@ -290,17 +312,21 @@ describe('WebControlBridge', () => {
       expect(result.data.payload).toBe(mockPayload);
       expect(result.data.backendResponse).toEqual(mockValidationResult.data);
       expect(mockBiometricService.generatePayload).toHaveBeenCalledWith(
-        mockValidateConfig.customPayload
+        mockValidateConfig.customPayload,
+        expect.objectContaining({ keyAlias: 'default' })
       );
       expect(mockBiometricService.createSignature).toHaveBeenCalledWith({
         promptMessage: 'Authenticate to create signature for validation',
         payload: mockPayload,
         cancelButtonText: 'Cancel Validation',
+        keyAlias: 'default',
       });
       expect(mockBiometricAPIService.validateSignature).toHaveBeenCalledWith(
         mockValidateConfig,
         mockSignature,
-        mockPayload
+        mockPayload,
+        undefined,
+        'default'
       );
 
       const state = bridge.getAppState();
@@ -308,6 +334,74 @@ describe('WebControlBridge', () => {
       expect(state.operationStatus).toEqual(result);
     });
 
+    it('should sign and echo a server-issued challenge when configured', async () => {
+      const challengeConfig: EndpointConfig = {
+        ...mockValidateConfig,
+        challenge: {
+          url: 'https://api.example.com/challenge',
+          method: 'GET',
+          challengePath: 'data.nonce',
+        },
+      };
+
+      mockBiometricAPIService.fetchChallenge.mockResolvedValue({
+        success: true,
+        message: 'Challenge received',
+        data: { challenge: 'server-nonce', response: { data: { nonce: 'server-nonce' } } },
+        timestamp: new Date(),
+      });
+      mockBiometricService.createSignature.mockResolvedValue({
+        success: true,
+        message: 'Signature created',
+        data: { signature: 'mock-signature' },
+        timestamp: new Date(),
+      });
+      mockBiometricAPIService.validateSignature.mockResolvedValue({
+        success: true,
+        message: 'Validation successful',
+        data: { valid: true },
+        timestamp: new Date(),
+      });
+
+      const result = await bridge.executeValidation(challengeConfig);
+
+      expect(result.success).toBe(true);
+      expect(result.data.challenge).toBe('server-nonce');
+      expect(mockBiometricAPIService.fetchChallenge).toHaveBeenCalledWith(challengeConfig.challenge);
+      expect(mockBiometricService.generatePayload).not.toHaveBeenCalled();
+      expect(mockBiometricService.createSignature).toHaveBeenCalledWith(
+        expect.objectContaining({ payload: 'server-nonce' })
+      );
+      expect(mockBiometricAPIService.validateSignature).toHaveBeenCalledWith(
+        challengeConfig,
+        'mock-signature',
+        'server-nonce',
+        'server-nonce',
+        'default'
+      );
+
+      const messages = bridge.getAppState().logs.map(log => log.message);
+      expect(messages).toContain('Requesting challenge from: https://api.example.com/challenge');
+      expect(messages).toContain('Received challenge from "data.nonce": server-nonce');
+    });
+
+    it('should fail validation when the challenge cannot be fetched', async () => {
+      mockBiometricAPIService.fetchChallenge.mockResolvedValue({
+        success: false,
+        message: 'HTTP 503: Service Unavailable',
+        timestamp: new Date(),
+      });
+
+      const result = await bridge.executeValidation({
+        ...mockValidateConfig,
+        challenge: { url: 'https://api.example.com/challenge', method: 'GET', challengePath: 'nonce' },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Challenge request failed: HTTP 503: Service Unavailable');
+      expect(mockBiometricService.createSignature).not.toHaveBeenCalled();
+    });
+
     it('should execute validation locally when no endpoint configured', async () => {
       const mockPayload = 'timestamp-payload';
       const mockSignature = 'mock-signature-abcdef';
@@ -391,6 +485,242 @@ describe('WebControlBridge', () => {
       expect(result.success).toBe(false);
       expect(result.message).toContain('Backend validation failed');
     });
+
+    it('should list failed response assertions in the result and the log', async () => {
+      const assertions = [
+        {
+          assertion: { type: 'status' as const, statusCodes: [200] },
+          passed: true,
+          message: 'Status is 200',
+          actual: 200,
+        },
+        {
+          assertion: { type: 'jsonPathEquals' as const, path: '$.valid', value: true },
+          passed: false,
+          message: '$.valid equals true (got false)',
+          actual: false,
+        },
+      ];
+
+      mockBiometricService.generatePayload.mockReturnValue('test-payload');
+      mockBiometricService.createSignature.mockResolvedValue({
+        success: true,
+        message: 'Signature created',
+        data: { signature: 'mock-signature' },
+        timestamp: new Date(),
+      });
+      mockBiometricAPIService.validateSignature.mockResolvedValue({
+        success: false,
+        message: 'Assertion failed: $.valid equals true (got false)',
+        data: { valid: false },
+        assertions,
+        timestamp: new Date(),
+      });
+
+      const result = await bridge.executeValidation(mockValidateConfig);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('Assertion failed: $.valid equals true (got false)');
+      expect(result.data).toEqual({ assertions });
+
+      const assertionLog = bridge
+        .getAppState()
+        .logs.find(log => log.message === 'Response assertions: 1 of 2 assertions passed');
+      expect(assertionLog?.status).toBe('error');
+      expect(assertionLog?.details).toEqual({ assertions });
+    });
+
+    it('should log variables captured from the validation response', async () => {
+      const captured = { values: { sessionId: 's-42' }, missing: ['token'] };
+
+      mockBiometricService.generatePayload.mockReturnValue('test-payload');
+      mockBiometricService.createSignature.mockResolvedValue({
+        success: true,
+        message: 'Signature created',
+        data: { signature: 'mock-signature' },
+        timestamp: new Date(),
+      });
+      mockBiometricAPIService.validateSignature.mockResolvedValue({
+        success: true,
+        message: 'Validation successful',
+        data: { session: { id: 's-42' } },
+        captured,
+        timestamp: new Date(),
+      });
+
+      await bridge.executeValidation(mockValidateConfig);
+
+      const captureLog = bridge
+        .getAppState()
+        .logs.find(log => log.message === 'Captured variables: sessionId (not in response: token)');
+      expect(captureLog?.status).toBe('info');
+      expect(captureLog?.details).toEqual({ captured });
+    });
+  });
+
+  describe('authentication operations', () => {
+    beforeEach(() => {
+      bridge.syncFromMobileApp({ biometricStatus: { available: true, biometryType: 'FaceID' } });
+    });
+
+    it('should check user presence without keys', async () => {
+      mockBiometricService.simplePrompt.mockResolvedValue({
+        success: true,
+        message: 'Authentication successful',
+        timestamp: new Date(),
+      });
+
+      const result = await bridge.executeAuthentication();
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(
+        expect.objectContaining({ authenticated: true, biometryType: 'FaceID', localOnly: true })
+      );
+      expect(mockBiometricService.simplePrompt).toHaveBeenCalledWith({
+        promptMessage: 'Authenticate to confirm your presence',
+        cancelButtonText: 'Cancel Authentication',
+      });
+      expect(mockBiometricService.createSignature).not.toHaveBeenCalled();
+      expect(mockBiometricAPIService.reportAuthentication).not.toHaveBeenCalled();
+    });
+
+    it('should report the outcome when an endpoint is configured', async () => {
+      const reportConfig: EndpointConfig = { url: 'https://api.example.com/presence', method: 'POST' };
+      mockBiometricService.simplePrompt.mockResolvedValue({
+        success: true,
+        message: 'Authentication successful',
+        timestamp: new Date(),
+      });
+      mockBiometricAPIService.reportAuthentication.mockResolvedValue({
+        success: true,
+        message: 'Authentication report accepted',
+        data: { recorded: true },
+        timestamp: new Date(),
+      });
+
+      const result = await bridge.executeAuthentication(reportConfig);
+
+      expect(result.success).toBe(true);
+      expect(result.data.backendResponse).toEqual({ recorded: true });
+      expect(mockBiometricAPIService.reportAuthentication).toHaveBeenCalledWith(reportConfig, {
+        authenticated: true,
+        biometryType: 'FaceID',
+        errorCode: undefined,
+      });
+    });
+
+    it('should report and fail when the user cancels', async () => {
+      const reportConfig: EndpointConfig = { url: 'https://api.example.com/presence', method: 'POST' };
+      mockBiometricService.simplePrompt.mockResolvedValue({
+        success: false,
+        message: 'User cancellation',
+        error: createBiometricError('USER_CANCEL', 'User cancellation'),
+        timestamp: new Date(),
+      });
+      mockBiometricAPIService.reportAuthentication.mockResolvedValue({
+        success: true,
+        message: 'Authentication report accepted',
+        timestamp: new Date(),
+      });
+
+      const result = await bridge.executeAuthentication(reportConfig);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Authentication failed: User cancellation');
+      expect(result.error?.code).toBe('USER_CANCEL');
+      expect(mockBiometricAPIService.reportAuthentication).toHaveBeenCalledWith(
+        reportConfig,
+        expect.objectContaining({ authenticated: false, errorCode: 'USER_CANCEL' })
+      );
+    });
+  });
+
+  describe('benchmark operations', () => {
+    beforeEach(() => {
+      bridge.syncFromMobileApp({
+        biometricStatus: { available: true, biometryType: 'FaceID' },
+        keysExist: true,
+      });
+    });
+
+    it('should sign every payload size and report per-phase stats', async () => {
+      mockBiometricService.createSignature.mockResolvedValue({
+        success: true,
+        message: 'Signature created successfully',
+        data: { signature: 'sig', timings: { signatureMs: 40, verificationMs: 2 } },
+        timestamp: new Date(),
+      });
+      bridge.onLogUpdate(mockLogUpdateListener);
+
+      const result = await bridge.executeBenchmark({ iterations: 3, payloadSizes: [16, 256] });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe('Benchmark completed: 6 of 6 signatures succeeded');
+      expect(mockBiometricService.createSignature).toHaveBeenCalledTimes(6);
+      const payloads = mockBiometricService.createSignature.mock.calls.map(([options]) => options.payload);
+      expect(payloads.map(payload => payload.length)).toEqual([16, 16, 16, 256, 256, 256]);
+      expect(new Set(payloads).size).toBe(6);
+
+      expect(result.data.samples).toHaveLength(6);
+      expect(result.data.results.map((summary: any) => summary.payloadSize)).toEqual([16, 256]);
+      expect(result.data.results[0]).toEqual(expect.objectContaining({ succeeded: 3, failed: 0 }));
+      expect(result.data.results[0].phases.signature).toEqual({ count: 3, min: 40, median: 40, p95: 40, max: 40 });
+      expect(result.data.results[0].phases.verification).toEqual(expect.objectContaining({ median: 2 }));
+      expect(mockLogUpdateListener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          operation: 'benchmark',
+          status: 'success',
+          message: expect.stringContaining('16-byte payload (3/3 signed) signature: min 40 ms'),
+        })
+      );
+    });
+
+    it('should stop prompting when the user cancels', async () => {
+      mockBiometricService.createSignature
+        .mockResolvedValueOnce({
+          success: true,
+          message: 'Signature created successfully',
+          data: { signature: 'sig', timings: { signatureMs: 30, verificationMs: 1 } },
+          timestamp: new Date(),
+        })
+        .mockResolvedValueOnce({
+          success: false,
+          message: 'User cancellation',
+          error: createBiometricError('USER_CANCEL', 'User cancellation'),
+          timestamp: new Date(),
+        });
+
+      const result = await bridge.executeBenchmark({ iterations: 5, payloadSizes: [32] });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe('Benchmark stopped early: 1 of 5 signatures completed');
+      expect(mockBiometricService.createSignature).toHaveBeenCalledTimes(2);
+      expect(result.data.abortedReason).toBe('Stopped after signature 2 of 5: User cancellation');
+      expect(result.data.results[0]).toEqual(expect.objectContaining({ succeeded: 1, failed: 1 }));
+    });
+
+    it('should fail when no signature succeeds', async () => {
+      mockBiometricService.createSignature.mockResolvedValue({
+        success: false,
+        message: 'Too many attempts. Try again later.',
+        error: createBiometricError('LOCKOUT', 'Too many attempts. Try again later.'),
+        timestamp: new Date(),
+      });
+
+      const result = await bridge.executeBenchmark({ iterations: 2, payloadSizes: [32] });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Benchmark failed: Too many attempts. Try again later.');
+      expect(result.error?.code).toBe('LOCKOUT');
+    });
+
+    it('should reject invalid options before prompting', async () => {
+      const result = await bridge.executeBenchmark({ iterations: 0 });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('Benchmark iterations must be an integer');
+      expect(mockBiometricService.createSignature).not.toHaveBeenCalled();
+    });
   });
 
   describe('delete keys operations', () => {
@@ -433,6 +763,160 @@ describe('WebControlBridge', () => {
       const state = bridge.getAppState();
       expect(state.isLoading).toBe(false);
     });
+
+    describe('with an unenrollment endpoint', () => {
+      const mockUnenrollConfig: EndpointConfig = {
+        url: 'https://api.example.com/enrollments',
+        method: 'DELETE',
+      };
+
+      beforeEach(() => {
+        mockBiometricService.deleteKeys.mockResolvedValue({
+          success: true,
+          message: 'Keys deleted',
+          data: { keysDeleted: true },
+          timestamp: new Date(),
+        });
+      });
+
+      it('should remove the backend registration before deleting keys', async () => {
+        mockBiometricAPIService.unenrollPublicKey.mockResolvedValue({
+          success: true,
+          message: 'Unenrollment successful',
+          data: { removed: true },
+          timestamp: new Date(),
+        });
+
+        const result = await bridge.deleteKeys('default', mockUnenrollConfig);
+
+        expect(mockBiometricAPIService.unenrollPublicKey).toHaveBeenCalledWith(
+          mockUnenrollConfig,
+          'default',
+          undefined
+        );
+        expect(mockBiometricService.deleteKeys).toHaveBeenCalledWith('default');
+        expect(result.success).toBe(true);
+        expect(result.data).toEqual(
+          expect.objectContaining({ keysDeleted: true, backendUnenrolled: true, backendResponse: { removed: true } })
+        );
+      });
+
+      it('should keep the local keys when the backend call fails', async () => {
+        mockBiometricAPIService.unenrollPublicKey.mockResolvedValue({
+          success: false,
+          message: 'Unknown key',
+          timestamp: new Date(),
+        });
+
+        const result = await bridge.deleteKeys('default', mockUnenrollConfig);
+
+        expect(result.success).toBe(false);
+        expect(result.message).toBe('Backend unenrollment failed: Unknown key. Local keys were kept.');
+        expect(mockBiometricService.deleteKeys).not.toHaveBeenCalled();
+      });
+
+      it('should delete the local keys anyway when the endpoint allows it', async () => {
+        mockBiometricAPIService.unenrollPublicKey.mockResolvedValue({
+          success: false,
+          message: 'Unknown key',
+          timestamp: new Date(),
+        });
+
+        const result = await bridge.deleteKeys('default', {
+          ...mockUnenrollConfig,
+          deleteLocallyOnFailure: true,
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.message).toContain('backend unenrollment failed: Unknown key');
+        expect(result.data).toEqual(expect.objectContaining({ backendUnenrolled: false }));
+        expect(mockBiometricService.deleteKeys).toHaveBeenCalledWith('default');
+      });
+    });
+  });
+
+  describe('key slot selection', () => {
+    it('should start with the default key slot active', () => {
+      const state = bridge.getAppState();
+
+      expect(state.activeKeyAlias).toBe('default');
+      expect(state.keySlots).toEqual([{ alias: 'default', keysExist: false }]);
+    });
+
+    it('should switch the active key slot', () => {
+      mockBiometricService.validateKeyAlias.mockReturnValue(null);
+
+      const result = bridge.selectKeySlot('secondary');
+
+      expect(result.success).toBe(true);
+      const state = bridge.getAppState();
+      expect(state.activeKeyAlias).toBe('secondary');
+      expect(state.keySlots).toContainEqual({ alias: 'secondary', keysExist: false });
+      expect(state.keysExist).toBe(false);
+    });
+
+    it('should reject a key slot the keystore cannot use', () => {
+      mockBiometricService.validateKeyAlias.mockReturnValue('Key slot "secondary" is not supported');
+
+      const result = bridge.selectKeySlot('secondary');
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('not supported');
+      expect(bridge.getAppState().activeKeyAlias).toBe('default');
+    });
+
+    it('should delete keys from the requested slot', async () => {
+      mockBiometricService.deleteKeys.mockResolvedValue({
+        success: true,
+        message: 'Keys deleted',
+        data: { keysDeleted: true },
+        timestamp: new Date(),
+      });
+
+      await bridge.deleteKeys('default');
+
+      expect(mockBiometricService.deleteKeys).toHaveBeenCalledWith('default');
+    });
+  });
+
+  describe('biometric provider', () => {
+    it('should switch provider and re-check keys for every slot', async () => {
+      mockBiometricService.selectProvider.mockResolvedValue({
+        success: true,
+        message: 'Using the simulated biometric provider',
+        data: { biometricProvider: 'simulated' },
+        timestamp: new Date(),
+      });
+      mockBiometricService.checkBiometricAvailability.mockResolvedValue({
+        available: true,
+        biometryType: 'Biometrics',
+      });
+      mockBiometricService.validateKeyAlias.mockReturnValue(null);
+      mockBiometricService.checkKeysExist.mockResolvedValue(true);
+
+      const result = await bridge.selectBiometricProvider('simulated');
+
+      expect(result.success).toBe(true);
+      expect(mockBiometricService.selectProvider).toHaveBeenCalledWith('simulated');
+      const state = bridge.getAppState();
+      expect(state.biometricProvider).toBe('simulated');
+      expect(state.biometricStatus.available).toBe(true);
+      expect(state.keysExist).toBe(true);
+    });
+
+    it('should keep the current provider when the switch fails', async () => {
+      mockBiometricService.selectProvider.mockResolvedValue({
+        success: false,
+        message: 'Unknown biometric provider "other"',
+        timestamp: new Date(),
+      });
+
+      const result = await bridge.selectBiometricProvider('other' as any);
+
+      expect(result.success).toBe(false);
+      expect(bridge.getAppState().biometricProvider).toBe('native');
+      expect(mockBiometricService.checkBiometricAvailability).not.toHaveBeenCalled();
+    });
   });
 
   describe('configuration management', () => {
@@ -465,6 +949,33 @@ describe('WebControlBridge', () => {
       expect(state.logs).toHaveLength(1);
       expect(state.logs[0].message).toContain('validate endpoint configuration updated');
     });
+
+    it('should mask endpoint secrets for web clients and keep them when saved back masked', async () => {
+      await bridge.updateConfiguration('enroll', {
+        url: 'https://api.example.com/enroll',
+        method: 'POST',
+        auth: { type: 'bearer', token: 't0k' },
+      });
+
+      const webState = bridge.getAppStateForWeb();
+      expect(webState.enrollEndpoint.auth).toEqual({ type: 'bearer', token: SECRET_MASK });
+      expect(webControlStateManager.getConfigurationForWeb().endpointConfigs.enroll.auth).toEqual({
+        type: 'bearer',
+        token: SECRET_MASK,
+      });
+
+      await bridge.updateConfiguration('enroll', { ...webState.enrollEndpoint, method: 'PUT' });
+
+      expect(bridge.getAppState().enrollEndpoint).toEqual({
+        url: 'https://api.example.com/enroll',
+        method: 'PUT',
+        auth: { type: 'bearer', token: 't0k' },
+      });
+      const [change] = webControlStateManager.getState().synchronization.pendingConfigChanges.slice(-1);
+      expect(change.changes).toEqual(
+        expect.objectContaining({ auth: { type: 'bearer', token: SECRET_MASK } })
+      );
+    });
   });
 
   describe('state synchronization', () => {
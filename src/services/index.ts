@@ -4,6 +4,12 @@
 
 export { BiometricService, biometricService } from './BiometricService';
 export { BiometricAPIService, biometricAPIService } from './BiometricAPIService';
+export { KeyRegistry, keyRegistry } from './KeyRegistry';
+export type { BiometricProvider, BiometricProviderSignatureOptions } from './BiometricProvider';
+export { NativeBiometricProvider } from './NativeBiometricProvider';
+export { SimulatedBiometricProvider } from './SimulatedBiometricProvider';
+export { SimulatedFaultProfile, simulatedFaultProfile } from './SimulatedFaultProfile';
+export { VariableStore, variableStore } from './VariableStore';
 export { WebServerService } from './WebServerService';
 export { AuthenticationMiddleware } from './AuthenticationMiddleware';
 export { WebSocketManager, webSocketManager } from './WebSocketManager';
@@ -27,6 +27,7 @@ export interface BiometricSignatureOptions {
   promptMessage: string;
   payload: string;
   cancelButtonText?: string;
+  keyAlias?: string;
 }
 
 export interface BiometricSignatureResult {
@@ -46,41 +47,350 @@ export interface BiometricSimplePromptResult {
   error?: string;
 }
 
+// Operations that show the system biometric prompt
+export type PromptOperation = 'enroll' | 'validate' | 'authenticate' | 'benchmark';
+
+export interface PromptProfile {
+  promptMessage: string;
+  cancelButtonText: string;
+  /** iOS passcode fallback button title; only shown by the enroll and authenticate-only prompts */
+  fallbackPromptMessage?: string;
+}
+
+export type PromptProfiles = Record<PromptOperation, PromptProfile>;
+
+// Where key pairs live and signatures are made: the device keystore or a JavaScript simulation
+export type BiometricProviderType = 'native' | 'simulated';
+
+// Key pair algorithms a provider can create
+export type KeyAlgorithm = 'EC-P256' | 'RSA-2048';
+
+export interface EnrollmentPolicy {
+  /** Key pair algorithm; omitted to use the provider's default */
+  algorithm?: KeyAlgorithm;
+  /** Let the device PIN, pattern or passcode stand in for biometrics */
+  allowDeviceCredentials: boolean;
+  /** Require an explicit confirmation tap after a passive biometric match such as face unlock */
+  requireConfirmation: boolean;
+}
+
+// Fault injection for the simulated provider; simplePrompt also covers the enrollment prompt
+export type SimulatedOperation =
+  | 'isSensorAvailable'
+  | 'createKeys'
+  | 'deleteKeys'
+  | 'createSignature'
+  | 'simplePrompt';
+
+export type SimulatedFaultType =
+  | 'userCancel'
+  | 'lockout'
+  | 'lockoutPermanent'
+  | 'sensorUnavailable'
+  | 'keyInvalidated'
+  | 'slowPrompt';
+
+export interface SimulatedFault {
+  operation: SimulatedOperation;
+  fault: SimulatedFaultType;
+  /** Number of upcoming calls to affect; omitted to affect every call until cleared */
+  remaining?: number;
+  /** How long a slowPrompt fault holds the prompt open before it succeeds */
+  delayMs?: number;
+}
+
 // Application-specific interfaces
+export interface KeySlot {
+  alias: string;
+  keysExist: boolean;
+}
+
+export type PublicKeyAlgorithm = 'RSA' | 'EC' | 'unknown';
+
+export interface PublicKeyInspection {
+  algorithm: PublicKeyAlgorithm;
+  algorithmOid: string;
+  algorithmName: string;
+  keySize?: number;
+  /** RSA public exponent as a decimal string */
+  publicExponent?: string;
+  curve?: string;
+  curveOid?: string;
+  derLength: number;
+  /** Lowercase hex SHA-256 of the DER encoding */
+  fingerprint: string;
+}
+
+export interface PublicKeyRecord {
+  alias: string;
+  publicKey: string;
+  createdAt: string;
+  algorithm: PublicKeyAlgorithm;
+  algorithmOid?: string;
+  keySize?: number;
+  publicExponent?: string;
+  curve?: string;
+  curveOid?: string;
+  fingerprint: string;
+  /** Policy the key pair was created under, with the algorithm resolved */
+  policy?: EnrollmentPolicy;
+}
+
+export type PublicKeyFormat = 'base64' | 'pem' | 'der-hex' | 'jwk' | 'ssh';
+
+export interface PublicKeyJwk {
+  kty: 'RSA' | 'EC';
+  kid: string;
+  n?: string;
+  e?: string;
+  crv?: string;
+  x?: string;
+  y?: string;
+}
+
 export interface BiometricStatus {
   available: boolean;
   biometryType: BiometryType;
   error?: string;
+  errorCode?: BiometricErrorCode;
 }
 
 export interface EndpointConfig {
   url: string;
-  method: 'GET' | 'POST' | 'PUT' | 'PATCH';
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
   headers?: Record<string, string>;
   customPayload?: string;
+  /** User-defined variables available to the custom payload template */
+  payloadVariables?: Record<string, string>;
+  publicKeyFormat?: PublicKeyFormat;
+  /** Key algorithm and authenticator policy for keys created on enrollment (enroll endpoint only) */
+  enrollmentPolicy?: EnrollmentPolicy;
+  /** Optional server challenge fetched before signing (validate endpoint only) */
+  challenge?: ChallengeConfig;
+  /** JSON request body with {{placeholder}} values, sent instead of the default enroll or validate body */
+  bodyTemplate?: string;
+  /** Delete the local key even when the backend call fails (unenroll endpoint only) */
+  deleteLocallyOnFailure?: boolean;
+  /** Timeout and retry behaviour; omitted fields fall back to DEFAULT_REQUEST_POLICY */
+  requestPolicy?: Partial<RequestPolicy>;
+  /** Checks on the backend response; all of them have to pass for the call to succeed */
+  assertions?: ResponseAssertion[];
+  /** Values copied from successful responses into the variable store, for {{name}} placeholders */
+  captures?: CaptureRule[];
+  /** Credentials added to every request; masked in exports */
+  auth?: EndpointAuth;
+  /** HMAC signature added to every request; the secret is masked in exports */
+  signing?: RequestSigning;
+}
+
+export type BackoffStrategy = 'none' | 'fixed' | 'linear' | 'exponential';
+
+export interface RequestPolicy {
+  /** Abort each attempt after this many milliseconds */
+  timeoutMs: number;
+  /** Attempts after the first one; 0 turns retries off */
+  maxRetries: number;
+  /** How the wait grows between retries */
+  backoff: BackoffStrategy;
+  /** Wait before the first retry in milliseconds */
+  backoffDelayMs: number;
+  /** HTTP status codes that are retried; network errors and timeouts always are */
+  retryOnStatus: number[];
+}
+
+// Response assertions; an expected-status assertion replaces the default 2xx check
+export type ResponseAssertion =
+  | { type: 'status'; statusCodes: number[] }
+  | { type: 'jsonPathEquals'; path: string; value: unknown }
+  | { type: 'jsonPathExists'; path: string }
+  | { type: 'jsonPathMatches'; path: string; pattern: string }
+  | { type: 'headerPresent'; header: string }
+  | { type: 'maxLatency'; maxMs: number };
+
+export type ResponseAssertionType = ResponseAssertion['type'];
+
+export interface AssertionResult {
+  assertion: ResponseAssertion;
+  passed: boolean;
+  /** Readable verdict, e.g. "$.valid equals true (got false)" */
+  message: string;
+  actual?: unknown;
+}
+
+// Response values kept as variables for later requests
+export type CaptureSource = 'jsonPath' | 'header';
+
+export interface CaptureRule {
+  /** Variable name, used as {{name}} in URLs, headers, payload templates and bodies */
+  variable: string;
+  source: CaptureSource;
+  /** JSON path into the response body, or the response header name */
+  path: string;
+}
+
+export interface VariableCapture {
+  /** Values captured from the response, by variable name */
+  values: Record<string, string>;
+  /** Variables whose path or header was not in the response */
+  missing: string[];
+}
+
+// HMAC-SHA256 request signing; omitted fields fall back to DEFAULT_REQUEST_SIGNING
+export interface RequestSigning {
+  /** HMAC key; may use {{name}} variables */
+  secret: string;
+  /** Text that is signed, with {method}, {path}, {host}, {timestamp} and {bodySha256} placeholders */
+  canonicalTemplate?: string;
+  /** Header that carries the hex signature */
+  signatureHeader?: string;
+  /** Header that carries the Unix timestamp in seconds */
+  timestampHeader?: string;
+}
+
+// One backend request and its response as sent and received; credentials are masked
+export interface HttpExchange {
+  /** When the request was sent, ISO 8601 */
+  startedDateTime: string;
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+  };
+  /** Missing when no response arrived, e.g. after a timeout */
+  response?: {
+    status: number;
+    statusText: string;
+    /** Header names in lower case */
+    headers: Record<string, string>;
+    body?: string;
+  };
+  /** Why no response arrived */
+  error?: string;
+  timings: {
+    /** Time from sending the request to the parsed response or the failure */
+    totalMs: number;
+    /** DNS lookup, when the platform reports resource timing for the request */
+    dnsMs?: number;
+  };
+}
+
+// Outgoing request authentication; secret fields may use {{name}} variables
+export type EndpointAuthType = EndpointAuth['type'];
+
+export type ApiKeyLocation = 'header' | 'query';
+
+export type EndpointAuth =
+  | { type: 'bearer'; token: string }
+  | { type: 'basic'; username: string; password: string }
+  | {
+      type: 'apiKey';
+      /** Header or query parameter name */
+      name: string;
+      value: string;
+      location: ApiKeyLocation;
+    }
+  | {
+      type: 'oauth2ClientCredentials';
+      tokenUrl: string;
+      clientId: string;
+      clientSecret: string;
+      /** Space-separated scopes to request */
+      scope?: string;
+      audience?: string;
+    };
+
+export interface ChallengeConfig {
+  url: string;
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  headers?: Record<string, string>;
+  /** JSON path to the challenge in the response body, e.g. "data.nonce" */
+  challengePath: string;
+}
+
+export type SignatureAlgorithm = 'RSASSA-PKCS1-v1_5-SHA256' | 'ECDSA-P256-SHA256';
+
+export interface SignatureVerification {
+  status: 'verified' | 'failed' | 'skipped';
+  algorithm?: SignatureAlgorithm;
+  keySize?: number;
+  reason?: string;
 }
 
 export interface OperationResult {
   success: boolean;
   message: string;
   data?: any;
+  error?: BiometricError;
+  /** Verdicts of the endpoint's response assertions, when it has any */
+  assertions?: AssertionResult[];
+  /** Variables captured from the backend response, when the endpoint has capture rules */
+  captured?: VariableCapture;
+  /** Every HTTP exchange with the backend, including token requests and retries */
+  exchanges?: HttpExchange[];
   timestamp: Date;
 }
 
+// Signature latency benchmark
+export type BenchmarkPhase = 'payload' | 'signature' | 'verification' | 'total';
+
+export interface BenchmarkOptions {
+  iterations: number;
+  /** Payload sizes in bytes; every size is signed `iterations` times */
+  payloadSizes: number[];
+}
+
+export interface BenchmarkSample {
+  iteration: number;
+  payloadSize: number;
+  success: boolean;
+  /** Milliseconds per phase; phases that did not run are omitted */
+  timings: Partial<Record<BenchmarkPhase, number>>;
+  error?: string;
+}
+
+export interface TimingStats {
+  count: number;
+  min: number;
+  median: number;
+  p95: number;
+  max: number;
+}
+
+export interface BenchmarkResult {
+  payloadSize: number;
+  succeeded: number;
+  failed: number;
+  /** Stats over successful samples; null when none succeeded */
+  phases: Record<BenchmarkPhase, TimingStats | null>;
+}
+
+export interface BenchmarkReport {
+  keyAlias: string;
+  biometricProvider: BiometricProviderType;
+  options: BenchmarkOptions;
+  startedAt: string;
+  completedAt: string;
+  /** Set when the run stopped before every iteration completed */
+  abortedReason?: string;
+  results: BenchmarkResult[];
+  samples: BenchmarkSample[];
+}
+
 export interface LogEntry {
   id: string;
   timestamp: Date;
-  operation: 'enroll' | 'validate' | 'delete' | 'status';
+  operation: 'enroll' | 'validate' | 'authenticate' | 'delete' | 'status' | 'benchmark';
   status: 'success' | 'error' | 'info';
   message: string;
   details?: any;
 }
 
 // HTTP method types for endpoint configuration
-export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH';
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
 
 // Operation status types
-export type OperationType = 'enroll' | 'validate' | 'delete' | 'status';
+export type OperationType = 'enroll' | 'validate' | 'authenticate' | 'delete' | 'status' | 'benchmark';
 export type OperationStatus = 'success' | 'error' | 'info';
 
 // App state interfaces
@@ -89,6 +399,7 @@ export interface AppState {
   keysExist: boolean;
   enrollEndpoint: EndpointConfig;
   validateEndpoint: EndpointConfig;
+  unenrollEndpoint: EndpointConfig;
   operationStatus: OperationResult | null;
   logs: LogEntry[];
   isLoading: boolean;
@@ -100,17 +411,23 @@ export interface BiometricStatusDisplayProps {
   biometryType: BiometryType;
   keysExist: boolean;
   error?: string;
+  errorCode?: BiometricErrorCode;
+  keySlots?: KeySlot[];
+  activeKeyAlias?: string;
+  onSelectKeySlot?: (alias: string) => void;
 }
 
 export interface EndpointConfigurationProps {
   enrollConfig: EndpointConfig;
   validateConfig: EndpointConfig;
-  onConfigChange: (type: 'enroll' | 'validate', config: EndpointConfig) => void;
+  unenrollConfig: EndpointConfig;
+  onConfigChange: (type: 'enroll' | 'validate' | 'unenroll', config: EndpointConfig) => void;
 }
 
 export interface BiometricActionsProps {
   onEnroll: () => Promise<void>;
   onValidate: () => Promise<void>;
+  onAuthenticate: () => Promise<void>;
   onDeleteKeys: () => Promise<void>;
   disabled: boolean;
   keysExist: boolean;
@@ -136,12 +453,45 @@ export interface APIResponse<T = any> {
   data?: T;
   error?: string;
   status: number;
+  /** Response headers with lower-case names */
+  headers?: Record<string, string>;
+  /** Time from sending the request to the parsed response */
+  latencyMs?: number;
+  assertions?: AssertionResult[];
+  captured?: VariableCapture;
+}
+
+// Outcome of an authenticate-only check, as reported to the backend
+export interface AuthenticationOutcome {
+  authenticated: boolean;
+  biometryType?: BiometryType;
+  errorCode?: BiometricErrorCode;
 }
 
 // Error types
+export type BiometricErrorCode =
+  | 'USER_CANCEL'
+  | 'SYSTEM_CANCEL'
+  | 'USER_FALLBACK'
+  | 'LOCKOUT'
+  | 'LOCKOUT_PERMANENT'
+  | 'NO_BIOMETRICS_ENROLLED'
+  | 'NO_HARDWARE'
+  | 'HW_UNAVAILABLE'
+  | 'KEY_INVALIDATED'
+  | 'KEY_NOT_FOUND'
+  | 'INVALID_KEY_SLOT'
+  | 'UNSUPPORTED_KEY_POLICY'
+  | 'TIMEOUT'
+  | 'UNKNOWN';
+
 export interface BiometricError {
-  code: string;
+  code: BiometricErrorCode;
   message: string;
+  /** What the user can do to get past the error */
+  remediation: string;
+  /** Whether retrying can succeed without changing device settings or re-enrolling */
+  recoverable: boolean;
   details?: any;
 }
 
@@ -8,8 +8,38 @@ export * from './webserver';
 // Re-export commonly used types for convenience
 export type {
   BiometricStatus,
+  BiometricProviderType,
+  KeyAlgorithm,
+  EnrollmentPolicy,
+  PromptOperation,
+  PromptProfile,
+  PromptProfiles,
+  SimulatedFault,
+  KeySlot,
+  PublicKeyRecord,
+  PublicKeyFormat,
+  PublicKeyInspection,
+  SignatureVerification,
   EndpointConfig,
+  ChallengeConfig,
+  RequestPolicy,
+  BackoffStrategy,
+  ResponseAssertion,
+  ResponseAssertionType,
+  AssertionResult,
+  CaptureSource,
+  CaptureRule,
+  VariableCapture,
+  EndpointAuth,
+  EndpointAuthType,
+  ApiKeyLocation,
+  RequestSigning,
+  HttpExchange,
   OperationResult,
+  BenchmarkOptions,
+  BenchmarkReport,
+  BiometricError,
+  BiometricErrorCode,
   LogEntry,
   AppState,
   BiometryType,
@@ -86,11 +86,12 @@ export interface WebSocketManagerState {
 
 // Additional interfaces for web control integration
 export interface WebRequest {
-  action: 'enroll' | 'validate' | 'delete-keys' | 'get-state' | 'update-config';
+  action: 'enroll' | 'validate' | 'authenticate' | 'delete-keys' | 'get-state' | 'update-config';
   payload?: {
     endpointConfig?: any;
-    configType?: 'enroll' | 'validate';
+    configType?: 'enroll' | 'validate' | 'unenroll';
     customPayload?: string;
+    keyAlias?: string;
   };
   requestId: string;
 }
@@ -106,8 +107,12 @@ export interface WebResponse {
 export interface WebControlBridgeState {
   biometricStatus: any;
   keysExist: boolean;
+  activeKeyAlias: string;
+  keySlots: any[];
+  publicKeys: any[];
   enrollEndpoint: any;
   validateEndpoint: any;
+  unenrollEndpoint: any;
   operationStatus: any;
   logs: any[];
   isLoading: boolean;
@@ -115,7 +120,7 @@ export interface WebControlBridgeState {
 
 export interface ActiveOperation {
   id: string;
-  type: 'enroll' | 'validate' | 'delete-keys';
+  type: 'enroll' | 'validate' | 'authenticate' | 'delete-keys';
   status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
   startTime: Date;
   endTime?: Date;
@@ -126,7 +131,7 @@ export interface ActiveOperation {
 
 export interface QueuedOperation {
   id: string;
-  type: 'enroll' | 'validate' | 'delete-keys';
+  type: 'enroll' | 'validate' | 'authenticate' | 'delete-keys';
   config?: any;
   clientId: string;
   queuedAt: Date;
@@ -198,10 +203,20 @@ export interface ReconnectionOptions {
   jitter?: boolean;
 }
 
+export interface RetryAttempt {
+  context: string;
+  /** Attempt that is about to run, starting at 2 for the first retry */
+  attempt: number;
+  maxAttempts: number;
+  delay: number;
+  reason: string;
+}
+
 export interface ConnectionListener {
   onConnected?: () => void;
   onDisconnected?: (error?: any) => void;
   onReconnecting?: (attempt: number) => void;
   onReconnected?: () => void;
   onReconnectionFailed?: (error: any) => void;
+  onRetry?: (retry: RetryAttempt) => void;
 }
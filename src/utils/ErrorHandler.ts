@@ -3,6 +3,10 @@
  * Provides standardized error handling, logging, and user-friendly error messages
  */
 
+import { BiometricError } from '../types';
+import { BIOMETRIC_ERROR_CATALOG } from '../constants/biometrics';
+import { getBiometricError } from './biometricErrors';
+
 export interface ErrorDetails {
   code: string;
   message: string;
@@ -11,6 +15,7 @@ export interface ErrorDetails {
   context?: string;
   recoverable?: boolean;
   userMessage?: string;
+  biometricError?: BiometricError;
 }
 
 export interface NetworkErrorDetails extends ErrorDetails {
@@ -112,6 +117,7 @@ export class ErrorHandler {
       context,
       recoverable: this.isApplicationErrorRecoverable(error),
       userMessage: this.getApplicationUserMessage(error, context),
+      biometricError: getBiometricError(error),
     };
 
     this.notifyErrorListeners(errorDetails);
@@ -139,6 +145,7 @@ export class ErrorHandler {
       timestamp: error.timestamp.toISOString(),
       requestId,
       recoverable: error.recoverable,
+      remediation: error.biometricError?.remediation,
       details: __DEV__ ? {
         originalMessage: error.message,
         context: error.context,
@@ -264,6 +271,11 @@ export class ErrorHandler {
    * Get application error code
    */
   private getApplicationErrorCode(error: any): string {
+    const biometricError = getBiometricError(error);
+    if (biometricError) {
+      return `BIOMETRIC_${biometricError.code}`;
+    }
+
     const message = this.extractErrorMessage(error).toLowerCase();
     
     if (message.includes('biometric')) {
@@ -301,13 +313,18 @@ export class ErrorHandler {
   private isNetworkErrorRetryable(error: any): boolean {
     const statusCode = this.extractStatusCode(error);
     
-    // 5xx errors and timeouts are generally retryable
+    // 5xx errors, timeouts and requests that never reached the server are generally retryable
     if (statusCode && statusCode >= 500) {
       return true;
     }
     
     const message = this.extractErrorMessage(error).toLowerCase();
-    return message.includes('timeout') || message.includes('connection');
+    return (
+      message.includes('timeout') ||
+      message.includes('connection') ||
+      message.includes('network request failed') ||
+      message.includes('failed to fetch')
+    );
   }
 
   /**
@@ -326,6 +343,11 @@ export class ErrorHandler {
    * Check if application error is recoverable
    */
   private isApplicationErrorRecoverable(error: any): boolean {
+    const biometricError = getBiometricError(error);
+    if (biometricError) {
+      return biometricError.recoverable;
+    }
+
     const code = this.getApplicationErrorCode(error);
     
     // Most application errors are recoverable
@@ -415,6 +437,11 @@ export class ErrorHandler {
    * Get user-friendly application error message
    */
   private getApplicationUserMessage(error: any, context: string): string {
+    const biometricError = getBiometricError(error);
+    if (biometricError) {
+      return `${BIOMETRIC_ERROR_CATALOG[biometricError.code].title}. ${biometricError.remediation}`;
+    }
+
     const code = this.getApplicationErrorCode(error);
     
     switch (code) {
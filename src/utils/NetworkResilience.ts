@@ -4,6 +4,7 @@
  */
 
 import { errorHandler, NetworkErrorDetails } from './ErrorHandler';
+import { BackoffStrategy } from '../types';
 
 export interface ConnectionState {
   isConnected: boolean;
@@ -22,12 +23,30 @@ export interface ReconnectionOptions {
   jitter?: boolean;
 }
 
+export interface RetryAttempt {
+  context: string;
+  /** Attempt that is about to run, starting at 2 for the first retry */
+  attempt: number;
+  maxAttempts: number;
+  delay: number;
+  reason: string;
+}
+
 export interface ConnectionListener {
   onConnected?: () => void;
   onDisconnected?: (error?: any) => void;
   onReconnecting?: (attempt: number) => void;
   onReconnected?: () => void;
   onReconnectionFailed?: (error: any) => void;
+  onRetry?: (retry: RetryAttempt) => void;
+}
+
+export interface RetryOptions<T> {
+  backoff?: BackoffStrategy;
+  /** Wait before the first retry in milliseconds */
+  baseDelay?: number;
+  /** Reason to retry a resolved result, such as a retryable HTTP status; undefined accepts it */
+  retryResult?: (result: T) => string | undefined;
 }
 
 export class NetworkResilience {
@@ -45,6 +64,7 @@ export class NetworkResilience {
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
   private readonly DEFAULT_HEARTBEAT_INTERVAL = 30000; // 30 seconds
+  private readonly MAX_RETRY_DELAY = 30000; // 30 seconds
 
   static getInstance(): NetworkResilience {
     if (!NetworkResilience.instance) {
@@ -155,17 +175,27 @@ export class NetworkResilience {
 
   /**
    * Execute operation with automatic retry on network failure
+   * Each retry is announced to connection listeners through onRetry before the wait starts.
+   * @param maxRetries - Total number of attempts, including the first one
    */
   async executeWithRetry<T>(
     operation: () => Promise<T>,
     context: string,
-    maxRetries: number = 3
+    maxRetries: number = 3,
+    options: RetryOptions<T> = {}
   ): Promise<T> {
     let lastError: any;
     
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      let reason: string | undefined;
+
       try {
-        return await operation();
+        const result = await operation();
+
+        reason = options.retryResult?.(result);
+        if (!reason || attempt === maxRetries) {
+          return result;
+        }
       } catch (error) {
         lastError = error;
         
@@ -176,10 +206,19 @@ export class NetworkResilience {
           throw error;
         }
 
-        // Wait before retrying
-        const delay = this.calculateRetryDelay(attempt);
-        await this.delay(delay);
+        reason = networkError.message;
       }
+
+      // Wait before retrying
+      const delay = this.calculateRetryDelay(attempt, options.backoff, options.baseDelay);
+      this.notifyListeners('onRetry', {
+        context,
+        attempt: attempt + 1,
+        maxAttempts: maxRetries,
+        delay,
+        reason,
+      });
+      await this.delay(delay);
     }
 
     throw lastError;
@@ -315,16 +354,29 @@ export class NetworkResilience {
   }
 
   /**
-   * Calculate retry delay
+   * Calculate retry delay for the given backoff strategy
    */
-  private calculateRetryDelay(attempt: number): number {
-    const baseDelay = 1000; // 1 second
-    const maxDelay = 5000; // 5 seconds max
-    
-    let delay = baseDelay * attempt;
-    delay = Math.min(delay, maxDelay);
+  private calculateRetryDelay(
+    attempt: number,
+    backoff: BackoffStrategy = 'linear',
+    baseDelay: number = 1000
+  ): number {
+    let delay: number;
+    switch (backoff) {
+      case 'none':
+        delay = 0;
+        break;
+      case 'fixed':
+        delay = baseDelay;
+        break;
+      case 'exponential':
+        delay = baseDelay * Math.pow(2, attempt - 1);
+        break;
+      default:
+        delay = baseDelay * attempt;
+    }
     
-    return delay;
+    return Math.min(delay, this.MAX_RETRY_DELAY);
   }
 
   /**
@@ -0,0 +1,71 @@
+/**
+ * Benchmark Tests
+ */
+
+import {
+  formatTimingStats,
+  generateBenchmarkPayload,
+  summarizeBenchmark,
+  summarizeTimings,
+  validateBenchmarkOptions,
+} from '../benchmark';
+import { BenchmarkSample } from '../../types';
+
+const fixedRandom = (length: number) => new Uint8Array(length).fill(0xab);
+
+describe('benchmark', () => {
+  it('should compute min, median, p95 and max', () => {
+    const timings = Array.from({ length: 20 }, (_, index) => 20 - index);
+
+    expect(summarizeTimings(timings)).toEqual({ count: 20, min: 1, median: 10.5, p95: 19, max: 20 });
+    expect(summarizeTimings([7, 3, 5])).toEqual({ count: 3, min: 3, median: 5, p95: 7, max: 7 });
+    expect(summarizeTimings([])).toBeNull();
+  });
+
+  it('should generate payloads of the exact requested size', () => {
+    expect(generateBenchmarkPayload(8, 1, fixedRandom)).toBe('bench-1-');
+    expect(generateBenchmarkPayload(40, 2, fixedRandom)).toBe('bench-2-abababababababab-bench-2-abababa');
+    expect(generateBenchmarkPayload(4096, 3)).toHaveLength(4096);
+    expect(generateBenchmarkPayload(64, 1)).not.toBe(generateBenchmarkPayload(64, 1));
+  });
+
+  it('should fill in default options', () => {
+    expect(validateBenchmarkOptions({})).toEqual({ iterations: 10, payloadSizes: [32, 1024] });
+    expect(validateBenchmarkOptions({ iterations: 3, payloadSizes: [1, 65536] })).toEqual({
+      iterations: 3,
+      payloadSizes: [1, 65536],
+    });
+  });
+
+  it('should reject out-of-range options', () => {
+    expect(() => validateBenchmarkOptions({ iterations: 0 })).toThrow('iterations must be an integer between 1 and 100');
+    expect(() => validateBenchmarkOptions({ iterations: 2.5 })).toThrow('iterations');
+    expect(() => validateBenchmarkOptions({ payloadSizes: [] })).toThrow('non-empty array');
+    expect(() => validateBenchmarkOptions({ payloadSizes: [0] })).toThrow('payload size 0');
+    expect(() => validateBenchmarkOptions({ payloadSizes: [70000] })).toThrow('payload size 70000');
+    expect(() => validateBenchmarkOptions('fast')).toThrow('must be an object');
+  });
+
+  it('should summarize successful samples per payload size', () => {
+    const samples: BenchmarkSample[] = [
+      { iteration: 1, payloadSize: 32, success: true, timings: { payload: 0, signature: 10, verification: 2, total: 12 } },
+      { iteration: 2, payloadSize: 32, success: false, timings: { payload: 0 }, error: 'Lockout' },
+      { iteration: 3, payloadSize: 32, success: true, timings: { payload: 1, signature: 20, verification: 4, total: 25 } },
+    ];
+
+    const [result, empty] = summarizeBenchmark(samples, [32, 64]);
+
+    expect(result).toEqual(expect.objectContaining({ payloadSize: 32, succeeded: 2, failed: 1 }));
+    expect(result.phases.signature).toEqual({ count: 2, min: 10, median: 15, p95: 20, max: 20 });
+    expect(result.phases.payload).toEqual(expect.objectContaining({ count: 2, max: 1 }));
+    expect(empty).toEqual(expect.objectContaining({ payloadSize: 64, succeeded: 0, failed: 0 }));
+    expect(empty.phases.total).toBeNull();
+  });
+
+  it('should describe stats on one line', () => {
+    expect(formatTimingStats({ count: 3, min: 3, median: 5, p95: 7, max: 7 })).toBe(
+      'min 3 ms · median 5 ms · p95 7 ms · max 7 ms'
+    );
+    expect(formatTimingStats(null)).toBe('no successful samples');
+  });
+});
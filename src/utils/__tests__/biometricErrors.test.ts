@@ -0,0 +1,73 @@
+/**
+ * Biometric Errors Tests
+ */
+
+import {
+  BiometricOperationError,
+  createBiometricError,
+  getBiometricError,
+  mapBiometricError,
+} from '../biometricErrors';
+import { errorHandler } from '../ErrorHandler';
+
+describe('mapBiometricError', () => {
+  it.each([
+    ['User cancellation', 'USER_CANCEL'],
+    ['BIOMETRIC_ERROR_USER_CANCELED', 'USER_CANCEL'],
+    ['Too many attempts. Try again later.', 'LOCKOUT'],
+    ['Too many attempts. Fingerprint sensor disabled.', 'LOCKOUT_PERMANENT'],
+    ['BIOMETRIC_ERROR_NONE_ENROLLED', 'NO_BIOMETRICS_ENROLLED'],
+    ['BIOMETRIC_ERROR_NO_HARDWARE', 'NO_HARDWARE'],
+    ['Biometric sensors not available: BIOMETRIC_ERROR_HW_UNAVAILABLE', 'HW_UNAVAILABLE'],
+    ['Error generating signature: Key permanently invalidated', 'KEY_INVALIDATED'],
+    ['No biometric keys found. Please enroll first.', 'KEY_NOT_FOUND'],
+    ['Invalid key slot "a b": use 1-64 letters, digits, ".", "_" or "-"', 'INVALID_KEY_SLOT'],
+    ['Something odd happened', 'UNKNOWN'],
+  ])('should classify "%s" as %s', (message, code) => {
+    expect(mapBiometricError(message).code).toBe(code);
+  });
+
+  it('should read native error codes alongside the message', () => {
+    const error = Object.assign(new Error('Authentication failed'), { code: 'LAErrorUserFallback' });
+
+    expect(mapBiometricError(error)).toEqual({
+      code: 'USER_FALLBACK',
+      message: 'Authentication failed',
+      remediation: expect.any(String),
+      recoverable: true,
+    });
+  });
+
+  it('should fall back to the default message', () => {
+    expect(mapBiometricError({}, 'Failed to create keys').message).toBe('Failed to create keys');
+  });
+});
+
+describe('BiometricOperationError', () => {
+  it('should keep the classified error through rethrows', () => {
+    const original = createBiometricError('LOCKOUT', 'Too many attempts. Try again later.');
+    const error = new BiometricOperationError('Signature creation failed: Too many attempts.', original);
+
+    expect(getBiometricError(error)).toBe(original);
+    expect(mapBiometricError(error)).toBe(original);
+  });
+
+  it('should classify its own message when no error is given', () => {
+    expect(new BiometricOperationError('Key creation failed: User cancellation').biometricError.code).toBe(
+      'USER_CANCEL'
+    );
+  });
+
+  it('should carry the code and remediation through the ErrorHandler', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const details = errorHandler.handleApplicationError(
+      new BiometricOperationError('Signature creation failed: Key permanently invalidated'),
+      'Validation operation'
+    );
+
+    expect(details.code).toBe('BIOMETRIC_KEY_INVALIDATED');
+    expect(details.recoverable).toBe(false);
+    expect(details.biometricError?.code).toBe('KEY_INVALIDATED');
+    expect(details.userMessage).toBe('Key invalidated. Biometrics changed since enrollment. Delete the keys and enroll again.');
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Body Template Tests
+ */
+
+import { renderBodyTemplate, validateBodyTemplate } from '../bodyTemplate';
+
+describe('bodyTemplate', () => {
+  it('should accept JSON with known placeholders', () => {
+    expect(validateBodyTemplate('{"key": "{{publicKey}}", "at": "{{ timestamp }}"}', 'enroll')).toEqual({
+      isValid: true,
+      errors: [],
+    });
+    expect(validateBodyTemplate('["{{signature}}", "{{payload}}"]', 'validate').isValid).toBe(true);
+  });
+
+  it('should reject invalid JSON', () => {
+    const result = validateBodyTemplate('{"key": {{publicKey}}}', 'enroll');
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors[0]).toContain('Body template is not valid JSON');
+  });
+
+  it('should reject placeholders of the other request type', () => {
+    const result = validateBodyTemplate('{"{{signature}}": "{{publicKey}}"}', 'enroll');
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toContain('Unknown placeholder {{signature}}');
+  });
+
+  it('should keep the type of values that fill a whole string', () => {
+    const policy = { algorithm: 'EC-P256', allowDeviceCredentials: false };
+
+    expect(
+      renderBodyTemplate('{"key": "{{publicKey}}", "policy": "{{enrollmentPolicy}}", "alias": "{{keyAlias}}"}', 'enroll', {
+        publicKey: 'MFkw',
+        enrollmentPolicy: policy,
+      })
+    ).toEqual({ key: 'MFkw', policy, alias: null });
+  });
+
+  it('should substitute placeholders inside longer strings and keys', () => {
+    expect(
+      renderBodyTemplate('{"sig-{{keyAlias}}": "{{signature}}.{{payload}}", "n": 1, "ok": true}', 'validate', {
+        signature: 'c2ln',
+        payload: 'data',
+        keyAlias: 'work',
+      })
+    ).toEqual({ 'sig-work': 'c2ln.data', n: 1, ok: true });
+  });
+
+  it('should throw on templates that do not validate', () => {
+    expect(() => renderBodyTemplate('{"a": "{{nope}}"}', 'validate', {})).toThrow('Unknown placeholder {{nope}}');
+  });
+
+  it('should fill other placeholders from captured variables', () => {
+    expect(validateBodyTemplate('{"session": "{{sessionId}}"}', 'enroll').isValid).toBe(true);
+    expect(
+      renderBodyTemplate(
+        '{"session": "{{sessionId}}", "ref": "key-{{sessionId}}", "key": "{{publicKey}}"}',
+        'enroll',
+        { publicKey: 'MFkw' },
+        { sessionId: 's-42', publicKey: 'ignored' }
+      )
+    ).toEqual({ session: 's-42', ref: 'key-s-42', key: 'MFkw' });
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Captured Variables Tests
+ */
+
+import {
+  captureVariables,
+  fillVariablePlaceholders,
+  substituteVariables,
+  summarizeVariableCapture,
+  validateCaptureRules,
+  validateVariables,
+} from '../capturedVariables';
+
+describe('capturedVariables', () => {
+  it('should accept well-formed capture rules', () => {
+    expect(
+      validateCaptureRules([
+        { variable: 'sessionId', source: 'jsonPath', path: '$.session.id' },
+        { variable: 'request_id', source: 'header', path: 'X-Request-Id' },
+      ])
+    ).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('should report each malformed capture rule by position', () => {
+    const result = validateCaptureRules([
+      { variable: '1st', source: 'jsonPath', path: '$.id' },
+      { variable: 'token', source: 'cookie', path: 'token' },
+      { variable: 'requestId', source: 'header', path: ' ' },
+      { variable: 'sessionId', source: 'jsonPath', path: '$.a' },
+      { variable: 'sessionId', source: 'jsonPath', path: '$.b' },
+    ]);
+
+    expect(result.errors).toEqual([
+      expect.stringMatching(/^Capture 1: Variable name must start with a letter/),
+      'Capture 2: Capture source must be one of: jsonPath, header',
+      'Capture 3: Header name is required',
+      'Capture 5: Variable sessionId is already captured by an earlier rule',
+    ]);
+    expect(validateCaptureRules({}).errors).toEqual(['Captures must be a list']);
+  });
+
+  it('should capture values from the body and headers', () => {
+    const captured = captureVariables(
+      [
+        { variable: 'sessionId', source: 'jsonPath', path: '$.session.id' },
+        { variable: 'roles', source: 'jsonPath', path: '$.roles' },
+        { variable: 'count', source: 'jsonPath', path: '$.count' },
+        { variable: 'requestId', source: 'header', path: 'X-Request-Id' },
+        { variable: 'token', source: 'jsonPath', path: '$.token' },
+      ],
+      {
+        headers: { 'x-request-id': 'abc' },
+        data: { session: { id: 's-42' }, roles: ['admin'], count: 3, token: null },
+      }
+    );
+
+    expect(captured).toEqual({
+      values: { sessionId: 's-42', roles: '["admin"]', count: '3', requestId: 'abc' },
+      missing: ['token'],
+    });
+    expect(summarizeVariableCapture(captured)).toBe(
+      'sessionId, roles, count, requestId (not in response: token)'
+    );
+  });
+
+  it('should substitute {{name}} placeholders', () => {
+    const variables = { sessionId: 's-42', token: '' };
+
+    expect(substituteVariables('/sessions/{{sessionId}}?t={{ token }}', variables)).toBe('/sessions/s-42?t=');
+    expect(() => substituteVariables('{{userId}}', variables)).toThrow(
+      'Variable {{userId}} has not been captured yet'
+    );
+    expect(fillVariablePlaceholders('https://{{host}}/keys')).toBe('https://host/keys');
+  });
+
+  it('should validate stored variables', () => {
+    expect(validateVariables({ sessionId: 's-42' }).isValid).toBe(true);
+    expect(validateVariables({ 'not valid': 'x', count: 3 }).errors).toEqual([
+      '"not valid" is not a valid variable name',
+      'Variable count must be a string',
+    ]);
+    expect(validateVariables(['x']).isValid).toBe(false);
+  });
+});
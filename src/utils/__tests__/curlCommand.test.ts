@@ -0,0 +1,205 @@
+/**
+ * cURL Command Tests
+ */
+
+import {
+  getConfiguredRequest,
+  importCurlCommand,
+  parseCurlCommand,
+  quoteShellArgument,
+  splitShellWords,
+  toCurlCommand,
+} from '../curlCommand';
+
+describe('curlCommand', () => {
+  it('should build a command with the method, headers and body as sent', () => {
+    expect(
+      toCurlCommand({
+        method: 'POST',
+        url: 'https://api.example.com/validate?tag=a&b=1',
+        headers: { 'Content-Type': 'application/json', 'X-Signature': 'f00d' },
+        body: '{"signature":"abc","payload":"it\'s me"}',
+      })
+    ).toBe(
+      [
+        "curl -X POST 'https://api.example.com/validate?tag=a&b=1'",
+        "-H 'Content-Type: application/json'",
+        "-H 'X-Signature: f00d'",
+        `--data-raw '{"signature":"abc","payload":"it'\\''s me"}'`,
+      ].join(' \\\n  ')
+    );
+  });
+
+  it('should leave out -X for a GET without a body', () => {
+    expect(
+      toCurlCommand({ method: 'GET', url: 'https://api.example.com/challenge', headers: {} })
+    ).toBe("curl 'https://api.example.com/challenge'");
+  });
+
+  it('should quote every shell metacharacter', () => {
+    expect(quoteShellArgument('$HOME `id` "x" \'y\'')).toBe(`'$HOME \`id\` "x" '\\''y'\\'''`);
+  });
+
+  it('should fall back to the configured URL, method and headers', () => {
+    expect(
+      getConfiguredRequest({
+        url: 'https://api.example.com/enroll',
+        method: 'PUT',
+        headers: { Accept: 'application/vnd.api+json', 'X-Tenant': '{{tenant}}' },
+      })
+    ).toEqual({
+      method: 'PUT',
+      url: 'https://api.example.com/enroll',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/vnd.api+json',
+        'X-Tenant': '{{tenant}}',
+      },
+    });
+  });
+
+  it('should split shell words like a POSIX shell', () => {
+    expect(
+      splitShellWords(`curl 'a b' "c \\"d\\" $HOME" e\\ f \\\n  $'x\\ny\\'z\\x41' ''`)
+    ).toEqual(['curl', 'a b', 'c "d" $HOME', 'e f', "x\ny'zA", '']);
+    expect(() => splitShellWords("curl 'open")).toThrow('Unterminated \' quote');
+  });
+
+  it('should import a command copied from dev tools', () => {
+    const command = [
+      "curl 'https://api.example.com/validate'",
+      "-H 'Content-Type: application/json'",
+      "-H 'X-Tenant: {{tenant}}'",
+      "--data-raw $'{\"signature\":\"{{signature}}\",\"note\":\"it\\'s\"}'",
+      '--compressed -sS',
+    ].join(' \\\n  ');
+
+    expect(parseCurlCommand(command)).toEqual({
+      config: {
+        url: 'https://api.example.com/validate',
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Tenant': '{{tenant}}' },
+        bodyTemplate: '{"signature":"{{signature}}","note":"it\'s"}',
+      },
+      errors: [],
+    });
+  });
+
+  it('should import the commands it builds', () => {
+    const request = {
+      method: 'PUT',
+      url: 'https://api.example.com/keys?tag=a&b=1',
+      headers: { 'X-Note': "it's $HOME" },
+      body: '{"publicKey":"{{publicKey}}"}',
+    };
+
+    expect(parseCurlCommand(toCurlCommand(request)).config).toEqual({
+      url: request.url,
+      method: 'PUT',
+      headers: request.headers,
+      bodyTemplate: request.body,
+    });
+  });
+
+  it('should read grouped and attached short options and basic credentials', () => {
+    expect(parseCurlCommand('curl -sXDELETE -u alice:s3:cret api.example.com/keys/1').config).toEqual({
+      url: 'http://api.example.com/keys/1',
+      method: 'DELETE',
+      auth: { type: 'basic', username: 'alice', password: 's3:cret' },
+    });
+    expect(parseCurlCommand("curl --json '{\"a\":1}' https://api.example.com").config?.headers).toEqual({
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    });
+  });
+
+  it('should report every unsupported option and problem', () => {
+    expect(
+      parseCurlCommand('curl -k -F file=@key.pem -d @body.json --cert c.pem -H Broken https://a.example.com https://b.example.com')
+    ).toEqual({
+      errors: [
+        'Option -k is not supported',
+        'Option -F is not supported',
+        'Reading the request body from a file (-d @body.json) is not supported',
+        'Option --cert is not supported',
+        'Header "Broken" must be in the form "Name: value"',
+        'Only one URL can be imported, found 4',
+      ],
+    });
+    expect(parseCurlCommand('wget https://a.example.com').errors).toEqual(['Command must start with curl']);
+    expect(parseCurlCommand('curl -X HEAD https://a.example.com').errors).toEqual([
+      'Method HEAD is not supported. Use one of: GET, POST, PUT, PATCH, DELETE',
+    ]);
+    expect(parseCurlCommand('curl -G -d a=1 https://a.example.com').errors).toEqual([
+      'Option -G is not supported',
+    ]);
+  });
+
+  it('should keep the other endpoint settings when importing', () => {
+    const current = {
+      url: 'https://old.example.com',
+      method: 'PUT' as const,
+      headers: { Old: 'yes' },
+      bodyTemplate: '{"old":true}',
+      assertions: [{ type: 'status' as const, statusCodes: [200] }],
+      auth: { type: 'bearer' as const, token: 't' },
+    };
+
+    expect(importCurlCommand('curl https://new.example.com/enroll', 'enroll', current)).toEqual({
+      config: {
+        url: 'https://new.example.com/enroll',
+        method: 'GET',
+        headers: undefined,
+        bodyTemplate: undefined,
+        assertions: [{ type: 'status', statusCodes: [200] }],
+        auth: { type: 'bearer', token: 't' },
+      },
+      errors: [],
+    });
+    expect(importCurlCommand("curl -d 'a=1' https://new.example.com", 'enroll', current).errors[0]).toMatch(
+      /^Body template is not valid JSON/
+    );
+    expect(importCurlCommand(`curl -d '{"s":"{{signature}}"}' https://new.example.com`, 'enroll', current).errors[0])
+      .toMatch(/^Unknown placeholder \{\{signature\}\}/);
+    expect(importCurlCommand("curl -X DELETE -d '{}' https://new.example.com", 'unenroll', current).errors).toEqual([
+      'The unenroll endpoint does not use a body template; remove the request body',
+    ]);
+  });
+
+  it('should put request value placeholders into the body fields named after them', () => {
+    const current = { url: 'https://old.example.com', method: 'POST' as const };
+    const { config } = importCurlCommand(
+      `curl https://api.example.com/verify -d '{"sig":"MEUCIQ==","signed_data":"login:42","device":{"model":"Pixel"}}'`,
+      'validate',
+      current
+    );
+
+    expect(JSON.parse(config?.bodyTemplate as string)).toEqual({
+      sig: '{{signature}}',
+      signed_data: '{{payload}}',
+      device: { model: 'Pixel' },
+    });
+    expect(
+      importCurlCommand(`curl https://api.example.com/enroll -d '{"user":"alice"}'`, 'enroll', current).errors
+    ).toEqual([
+      'Request body has no field for {{publicKey}}; name a field "publicKey" or put {{publicKey}} where the value goes',
+    ]);
+  });
+
+  it('should take credentials from the command only', () => {
+    const current = {
+      url: 'https://old.example.com',
+      method: 'DELETE' as const,
+      auth: { type: 'bearer' as const, token: 't' },
+    };
+
+    const { config } = importCurlCommand(
+      `curl -X DELETE -u alice:pw -H 'Authorization: Bearer new' https://api.example.com/keys`,
+      'unenroll',
+      current
+    );
+
+    expect(config?.headers).toEqual({ Authorization: 'Bearer new' });
+    expect(config).not.toHaveProperty('auth');
+  });
+});
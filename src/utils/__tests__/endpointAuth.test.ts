@@ -0,0 +1,120 @@
+/**
+ * Endpoint Authentication Tests
+ */
+
+import {
+  describeEndpointAuth,
+  encodeBasicCredentials,
+  maskEndpointAuth,
+  maskEndpointConfig,
+  restoreMaskedSecrets,
+  validateEndpointAuth,
+} from '../endpointAuth';
+import { SECRET_MASK } from '../../constants/biometrics';
+
+describe('endpointAuth', () => {
+  it('should accept complete credentials of every scheme', () => {
+    [
+      { type: 'bearer', token: 't0k' },
+      { type: 'basic', username: 'alice', password: '' },
+      { type: 'apiKey', name: 'X-API-Key', value: 'k3y', location: 'query' },
+      {
+        type: 'oauth2ClientCredentials',
+        tokenUrl: 'https://auth.example.com/{{tenant}}/token',
+        clientId: 'client',
+        clientSecret: 's3cret',
+        scope: 'enroll validate',
+      },
+    ].forEach(auth => {
+      expect(validateEndpointAuth(auth)).toEqual({ isValid: true, errors: [] });
+    });
+  });
+
+  it('should report missing or malformed fields', () => {
+    expect(validateEndpointAuth({ type: 'bearer', token: ' ' }).errors).toEqual([
+      'Bearer token is required',
+    ]);
+    expect(validateEndpointAuth({ type: 'basic', username: 'a:b', password: 'x' }).errors).toEqual([
+      'Basic auth username cannot contain ":"',
+    ]);
+    expect(
+      validateEndpointAuth({ type: 'apiKey', name: 'key', value: 'v', location: 'cookie' }).errors
+    ).toEqual(['API key location must be one of: header, query']);
+    expect(
+      validateEndpointAuth({
+        type: 'oauth2ClientCredentials',
+        tokenUrl: 'not a url',
+        clientId: 'client',
+        clientSecret: 's3cret',
+      }).errors
+    ).toEqual(['OAuth2 token URL must be a valid URL format']);
+    expect(validateEndpointAuth({ type: 'digest' }).errors).toEqual([
+      'Auth type must be one of: bearer, basic, apiKey, oauth2ClientCredentials',
+    ]);
+    expect(validateEndpointAuth('Bearer t0k').errors).toEqual(['Auth must be an object']);
+  });
+
+  it('should describe credentials without their secrets', () => {
+    expect(describeEndpointAuth({ type: 'bearer', token: 't0k' })).toBe('Bearer token');
+    expect(describeEndpointAuth({ type: 'basic', username: 'alice', password: 'pw' })).toBe(
+      'Basic auth as alice'
+    );
+    expect(
+      describeEndpointAuth({ type: 'apiKey', name: 'api_key', value: 'k3y', location: 'query' })
+    ).toBe('API key api_key in query');
+    expect(
+      describeEndpointAuth({
+        type: 'oauth2ClientCredentials',
+        tokenUrl: 'https://auth.example.com/token',
+        clientId: 'client',
+        clientSecret: 's3cret',
+      })
+    ).toBe('OAuth2 client credentials for client');
+  });
+
+  it('should encode Basic credentials as UTF-8', () => {
+    expect(encodeBasicCredentials('alice', 'pässword')).toBe('Basic YWxpY2U6cMOkc3N3b3Jk');
+  });
+
+  it('should mask secrets and leave the other fields', () => {
+    expect(maskEndpointAuth({ type: 'basic', username: 'alice', password: 'pw' })).toEqual({
+      type: 'basic',
+      username: 'alice',
+      password: SECRET_MASK,
+    });
+    expect(maskEndpointAuth({ type: 'basic', username: 'alice', password: '' })).toEqual({
+      type: 'basic',
+      username: 'alice',
+      password: '',
+    });
+
+    const config = { url: 'https://api.example.com', method: 'POST' as const };
+    expect(maskEndpointConfig(config)).toBe(config);
+    expect(
+      maskEndpointConfig({ ...config, auth: { type: 'bearer', token: 't0k' } }).auth
+    ).toEqual({ type: 'bearer', token: SECRET_MASK });
+    expect(
+      maskEndpointConfig({ ...config, signing: { secret: 'k', signatureHeader: 'X-Sig' } }).signing
+    ).toEqual({ secret: SECRET_MASK, signatureHeader: 'X-Sig' });
+  });
+
+  it('should restore masked secrets from credentials of the same scheme', () => {
+    const current = {
+      type: 'apiKey' as const,
+      name: 'X-API-Key',
+      value: 'k3y',
+      location: 'header' as const,
+    };
+
+    expect(
+      restoreMaskedSecrets({ ...current, name: 'X-Key', value: SECRET_MASK }, current)
+    ).toEqual({ ...current, name: 'X-Key' });
+    expect(restoreMaskedSecrets({ ...current, value: 'n3w' }, current)).toEqual({
+      ...current,
+      value: 'n3w',
+    });
+    expect(
+      restoreMaskedSecrets({ type: 'bearer', token: SECRET_MASK }, current)
+    ).toEqual({ type: 'bearer', token: SECRET_MASK });
+  });
+});
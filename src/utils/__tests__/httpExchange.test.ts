@@ -0,0 +1,151 @@
+/**
+ * HTTP Exchange Tests
+ */
+
+import { HttpExchange } from '../../types';
+import {
+  describeHttpExchange,
+  getHttpExchanges,
+  maskHttpExchange,
+  toHar,
+} from '../httpExchange';
+
+describe('httpExchange', () => {
+  const exchange: HttpExchange = {
+    startedDateTime: '2024-01-01T00:00:00.000Z',
+    request: {
+      method: 'POST',
+      url: 'https://api.example.com/enroll?key=k3y&tag=a%20b',
+      headers: { 'Content-Type': 'application/json', 'X-Api-Key': 'k3y' },
+      body: '{"publicKey":"é"}',
+    },
+    response: {
+      status: 201,
+      statusText: 'Created',
+      headers: { 'content-type': 'application/json', location: '/keys/1' },
+      body: '{"id":1}',
+    },
+    timings: { totalMs: 84, dnsMs: 4 },
+  };
+
+  it('should mask credentials sent in headers or the query string', () => {
+    const masked = maskHttpExchange(
+      {
+        ...exchange,
+        request: {
+          ...exchange.request,
+          headers: { ...exchange.request.headers, Authorization: 'Bearer abc' },
+        },
+      },
+      { type: 'apiKey', name: 'x-api-key', value: 'k3y', location: 'query' }
+    );
+
+    expect(masked.request.url).toBe('https://api.example.com/enroll?key=********&tag=a%20b');
+    expect(masked.request.headers.Authorization).toBe('Bearer ********');
+    expect(masked.request.headers['X-Api-Key']).toBe('k3y');
+    expect(masked.response).toEqual(exchange.response);
+  });
+
+  it('should mask the tokens of an OAuth2 token response only', () => {
+    const auth = {
+      type: 'oauth2ClientCredentials' as const,
+      tokenUrl: 'https://auth.example.com/token',
+      clientId: 'app',
+      clientSecret: 'shh',
+    };
+    const tokenExchange: HttpExchange = {
+      ...exchange,
+      request: { method: 'POST', url: auth.tokenUrl, headers: {} },
+      response: { ...exchange.response!, body: '{"access_token":"t","token_type":"Bearer"}' },
+    };
+
+    expect(maskHttpExchange(tokenExchange, auth).response?.body).toBe(
+      '{"access_token":"********","token_type":"Bearer"}'
+    );
+    expect(maskHttpExchange(exchange, auth).response?.body).toBe('{"id":1}');
+  });
+
+  it('should describe an exchange in one line', () => {
+    expect(describeHttpExchange(exchange)).toBe(
+      'POST https://api.example.com/enroll?key=k3y&tag=a%20b → 201 Created (84 ms)'
+    );
+    expect(
+      describeHttpExchange({
+        ...exchange,
+        response: undefined,
+        error: 'Request timeout after 5000ms',
+        timings: { totalMs: 5000 },
+      })
+    ).toBe(
+      'POST https://api.example.com/enroll?key=k3y&tag=a%20b → Request timeout after 5000ms (5000 ms)'
+    );
+  });
+
+  it('should find exchanges in log entry details', () => {
+    expect(getHttpExchanges({ exchanges: [exchange] })).toEqual([exchange]);
+    expect(getHttpExchanges({ exchanges: [] })).toBeUndefined();
+    expect(getHttpExchanges({ exchanges: [{ url: 'x' }] })).toBeUndefined();
+    expect(getHttpExchanges('text')).toBeUndefined();
+  });
+
+  it('should build a HAR 1.2 log', () => {
+    const har = toHar([exchange]);
+
+    expect(har.log.version).toBe('1.2');
+    expect(har.log.entries[0]).toEqual({
+      startedDateTime: '2024-01-01T00:00:00.000Z',
+      time: 84,
+      request: {
+        method: 'POST',
+        url: 'https://api.example.com/enroll?key=k3y&tag=a%20b',
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: [
+          { name: 'Content-Type', value: 'application/json' },
+          { name: 'X-Api-Key', value: 'k3y' },
+        ],
+        queryString: [
+          { name: 'key', value: 'k3y' },
+          { name: 'tag', value: 'a b' },
+        ],
+        postData: { mimeType: 'application/json', text: '{"publicKey":"é"}' },
+        headersSize: -1,
+        bodySize: 18,
+      },
+      response: {
+        status: 201,
+        statusText: 'Created',
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: [
+          { name: 'content-type', value: 'application/json' },
+          { name: 'location', value: '/keys/1' },
+        ],
+        content: { size: 8, mimeType: 'application/json', text: '{"id":1}' },
+        redirectURL: '/keys/1',
+        headersSize: -1,
+        bodySize: 8,
+      },
+      cache: {},
+      timings: { blocked: -1, dns: 4, connect: -1, send: 0, wait: 80, receive: 0 },
+    });
+  });
+
+  it('should export failed requests with status 0 and the error as comment', () => {
+    const [entry] = toHar([
+      {
+        ...exchange,
+        request: { method: 'GET', url: 'https://api.example.com/challenge', headers: {} },
+        response: undefined,
+        error: 'Network request failed',
+        timings: { totalMs: 12 },
+      },
+    ]).log.entries;
+
+    expect(entry.response.status).toBe(0);
+    expect(entry.request.bodySize).toBe(0);
+    expect(entry.request.postData).toBeUndefined();
+    expect(entry.timings).toEqual({ blocked: -1, dns: -1, connect: -1, send: 0, wait: 12, receive: 0 });
+    expect(entry.comment).toBe('Network request failed');
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * JSON Path Tests
+ */
+
+import { getJsonPathValue, parseJsonPath } from '../jsonPath';
+
+describe('jsonPath', () => {
+  const data = {
+    data: {
+      nonce: 'abc123',
+      items: [{ id: 7 }, { id: 8 }],
+      'x-request-id': 'req-1',
+    },
+  };
+
+  it('should parse dot, index and quoted segments', () => {
+    expect(parseJsonPath('$.data.items[1].id')).toEqual(['data', 'items', 1, 'id']);
+    expect(parseJsonPath('data["x-request-id"]')).toEqual(['data', 'x-request-id']);
+  });
+
+  it('should read values with or without the leading $', () => {
+    expect(getJsonPathValue(data, '$.data.nonce')).toBe('abc123');
+    expect(getJsonPathValue(data, 'data.items[0].id')).toBe(7);
+    expect(getJsonPathValue(data, "$.data['x-request-id']")).toBe('req-1');
+  });
+
+  it('should return undefined for missing values', () => {
+    expect(getJsonPathValue(data, 'data.missing.nonce')).toBeUndefined();
+    expect(getJsonPathValue(data, 'data.items[5].id')).toBeUndefined();
+    expect(getJsonPathValue('plain text', 'data')).toBeUndefined();
+  });
+
+  it('should reject empty and malformed paths', () => {
+    expect(() => parseJsonPath('$')).toThrow('at least one property');
+    expect(() => parseJsonPath('data..nonce')).toThrow('Invalid JSON path');
+    expect(() => parseJsonPath('data[abc]')).toThrow('Invalid JSON path');
+  });
+});
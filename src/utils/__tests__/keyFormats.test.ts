@@ -0,0 +1,73 @@
+/**
+ * Public Key Format Tests
+ * Compares exported keys against Node crypto and ssh-keygen output for the same keys
+ */
+
+import { exportPublicKey, toDerHex, toJwk, toOpenSsh, toPem } from '../keyFormats';
+
+const RSA_PUBLIC_KEY =
+  'MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEAxlZzShPolQj3ynJ6I1PVRfY2LEAtoU/e' +
+  'n0gudnriEGosyr5mWcl4AKH87fjtHZqEJqM3iR1RDc/vjpKW1LgG3hf+bz1IymRXpwwtdMnV11L8' +
+  '2/gsLl6QfPzJslr2/wB8XQVaVZEFn/GtWGSLzvcEUV0d9tclVkJQg8B9+Qmb742qpxcfdQc9aNT2' +
+  'DbkCmb7wIEIJXrTjZZ6Fo7vS0FVhPQe4aNMRr4D0YDo/j4O9rJd2imWTcR1j3qUZG13wrKNRLOF2' +
+  'UC+N5cT7bB+fzbRFk7tw5pfMWKPLvb8x/5uKIZ8A04mvO2zFXwlOkWfn+6l+NHyxjC6ncU0Hqa94' +
+  '21WzxwIDAQAB';
+const EC_PUBLIC_KEY =
+  'MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEtC9kr/Upk79tjTiZP6aHvrCTlDUDm/JMva96q/SZ' +
+  'VDaBea0HhBM/ffDY0DKG7WZbFtWViP/n6PGLQFOslMtdvg==';
+const RSA_SSH_BLOB =
+  'AAAAB3NzaC1yc2EAAAADAQABAAABAQDGVnNKE+iVCPfKcnojU9VF9jYsQC2hT96fSC52euIQaizK' +
+  'vmZZyXgAofzt+O0dmoQmozeJHVENz++OkpbUuAbeF/5vPUjKZFenDC10ydXXUvzb+CwuXpB8/Mmy' +
+  'Wvb/AHxdBVpVkQWf8a1YZIvO9wRRXR321yVWQlCDwH35CZvvjaqnFx91Bz1o1PYNuQKZvvAgQgle' +
+  'tONlnoWju9LQVWE9B7ho0xGvgPRgOj+Pg72sl3aKZZNxHWPepRkbXfCso1Es4XZQL43lxPtsH5/N' +
+  'tEWTu3Dml8xYo8u9vzH/m4ohnwDTia87bMVfCU6RZ+f7qX40fLGMLqdxTQepr3jbVbPH';
+const EC_SSH_BLOB =
+  'AAAAE2VjZHNhLXNoYTItbmlzdHAyNTYAAAAIbmlzdHAyNTYAAABBBLQvZK/1KZO/bY04mT+mh76w' +
+  'k5Q1A5vyTL2veqv0mVQ2gXmtB4QTP33w2NAyhu1mWxbVlYj/5+jxi0BTrJTLXb4=';
+
+describe('keyFormats', () => {
+  it('should wrap the key in a 64-column PEM block', () => {
+    const pem = toPem(RSA_PUBLIC_KEY);
+    const lines = pem.split('\n');
+
+    expect(lines[0]).toBe('-----BEGIN PUBLIC KEY-----');
+    expect(lines[lines.length - 1]).toBe('-----END PUBLIC KEY-----');
+    expect(lines.slice(1, -1).every(line => line.length <= 64)).toBe(true);
+    expect(lines.slice(1, -1).join('')).toBe(RSA_PUBLIC_KEY);
+  });
+
+  it('should encode DER bytes as hex', () => {
+    expect(toDerHex(EC_PUBLIC_KEY)).toMatch(/^3059301306072a8648ce3d0201/);
+    expect(toDerHex(EC_PUBLIC_KEY)).toHaveLength(91 * 2);
+  });
+
+  it('should export RSA keys as JWK with an RFC 7638 thumbprint', () => {
+    const jwk = toJwk(RSA_PUBLIC_KEY);
+
+    expect(jwk.kty).toBe('RSA');
+    expect(jwk.e).toBe('AQAB');
+    expect(jwk.n).toMatch(/^xlZzShPolQj3ynJ6I1PVRfY2LEAtoU_en0gudnriEGosyr5mWcl4/);
+    expect(jwk.n).toMatch(/Hqa9421Wzxw$/);
+    expect(jwk.kid).toBe('fj9zI4b28f4SrDxs-PLXAfgqJPVZWGvxutWVjtx5kbQ');
+  });
+
+  it('should export P-256 keys as JWK', () => {
+    expect(toJwk(EC_PUBLIC_KEY)).toEqual({
+      kty: 'EC',
+      crv: 'P-256',
+      x: 'tC9kr_Upk79tjTiZP6aHvrCTlDUDm_JMva96q_SZVDY',
+      y: 'gXmtB4QTP33w2NAyhu1mWxbVlYj_5-jxi0BTrJTLXb4',
+      kid: 's7d3AIe8xs0swiRxU8HRGj7vqH-P9TtTAdx56wq6uRA',
+    });
+  });
+
+  it('should match ssh-keygen output for RSA and EC keys', () => {
+    expect(toOpenSsh(RSA_PUBLIC_KEY)).toBe(`ssh-rsa ${RSA_SSH_BLOB}`);
+    expect(toOpenSsh(EC_PUBLIC_KEY, 'playground')).toBe(`ecdsa-sha2-nistp256 ${EC_SSH_BLOB} playground`);
+  });
+
+  it('should pass base64 keys through unchanged and reject malformed keys for parsed formats', () => {
+    expect(exportPublicKey('not-a-key', 'base64')).toBe('not-a-key');
+    expect(() => exportPublicKey('bm90LWEta2V5', 'jwk')).toThrow();
+  });
+});
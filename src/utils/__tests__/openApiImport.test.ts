@@ -0,0 +1,247 @@
+/**
+ * OpenAPI Import Tests
+ */
+
+import { EndpointConfig } from '../../types';
+import { importOpenApiEndpoints, listOpenApiOperations, parseOpenApiDocument } from '../openApiImport';
+
+const KEYS_API = `
+openapi: 3.0.3
+info:
+  title: Keys API
+  version: 1.0.0
+servers:
+  - url: https://{env}.example.com/v1
+    variables:
+      env:
+        default: api
+paths:
+  /tenants/{tenantId}/keys:
+    parameters:
+      - name: tenantId
+        in: path
+        required: true
+        schema: {type: string}
+    post:
+      operationId: enrollKey
+      summary: Enroll a device key
+      parameters:
+        - name: X-Api-Version
+          in: header
+          required: true
+          schema: {type: string, enum: ["2"]}
+        - name: verbose
+          in: query
+          schema: {type: boolean}
+      requestBody:
+        content:
+          application/json:
+            schema:
+              $ref: '#/components/schemas/EnrollRequest'
+      responses:
+        '201':
+          description: Enrolled
+          headers:
+            Location:
+              required: true
+              schema: {type: string}
+          content:
+            application/json:
+              schema:
+                type: object
+                required: [status, keyId]
+                properties:
+                  status: {type: string, enum: [enrolled]}
+                  keyId: {type: string, pattern: '^k-[0-9]+$'}
+                  createdAt: {type: string, format: date-time}
+  /challenges:
+    get:
+      responses:
+        '200':
+          description: Challenge
+          content:
+            application/json:
+              schema:
+                type: object
+                properties:
+                  data:
+                    type: object
+                    properties:
+                      nonce: {type: string}
+  /signatures/verify:
+    post:
+      requestBody:
+        content:
+          application/vnd.api+json:
+            schema:
+              type: object
+              required: [signature, signedData, nonce, device]
+              properties:
+                signature: {type: string}
+                signedData: {type: string}
+                nonce: {type: string}
+                device:
+                  type: object
+                  properties:
+                    model: {type: string}
+      responses:
+        '200':
+          description: Valid
+        '204':
+          description: Valid, nothing to return
+  /upload:
+    put:
+      requestBody:
+        content:
+          multipart/form-data:
+            schema: {type: object}
+      responses:
+        '200': {description: Uploaded}
+components:
+  schemas:
+    EnrollRequest:
+      allOf:
+        - type: object
+          required: [publicKey, policy]
+          properties:
+            publicKey: {type: string}
+            policy:
+              type: object
+              properties:
+                algorithm: {type: string}
+        - type: object
+          required: [format, sentAt, region]
+          properties:
+            format: {type: string, enum: [pem, jwk]}
+            sentAt: {type: string, format: date-time}
+            region: {type: string, default: eu}
+`;
+
+const current: { enroll: EndpointConfig; validate: EndpointConfig } = {
+  enroll: {
+    url: 'https://old.example.com/enroll',
+    method: 'POST',
+    auth: { type: 'bearer', token: 't' },
+  },
+  validate: {
+    url: 'https://old.example.com/validate',
+    method: 'POST',
+    requestPolicy: { maxRetries: 2 },
+  },
+};
+
+describe('openApiImport', () => {
+  it('should read YAML and JSON documents and list their operations', () => {
+    const document = parseOpenApiDocument(KEYS_API);
+
+    expect(listOpenApiOperations(document)).toEqual([
+      {
+        key: 'POST /tenants/{tenantId}/keys',
+        method: 'POST',
+        path: '/tenants/{tenantId}/keys',
+        operationId: 'enrollKey',
+        summary: 'Enroll a device key',
+      },
+      { key: 'GET /challenges', method: 'GET', path: '/challenges' },
+      { key: 'POST /signatures/verify', method: 'POST', path: '/signatures/verify' },
+      { key: 'PUT /upload', method: 'PUT', path: '/upload' },
+    ]);
+    expect(parseOpenApiDocument(JSON.stringify(document))).toEqual(document);
+  });
+
+  it('should reject documents that are not OpenAPI 3', () => {
+    expect(() => parseOpenApiDocument('  ')).toThrow('OpenAPI document is empty');
+    expect(() => parseOpenApiDocument('{"openapi": ')).toThrow(/^OpenAPI document is not valid JSON/);
+    expect(() => parseOpenApiDocument('swagger: "2.0"\npaths: {}')).toThrow(/^Swagger 2.0 documents are not supported/);
+    expect(() => parseOpenApiDocument('openapi: 3.1.0')).toThrow('OpenAPI document has no paths');
+    expect(() => parseOpenApiDocument('- a')).toThrow('OpenAPI document must be an object');
+  });
+
+  it('should generate the enroll endpoint from the request and response schemas', () => {
+    const { configs, errors } = importOpenApiEndpoints(
+      parseOpenApiDocument(KEYS_API),
+      { enroll: 'POST /tenants/{tenantId}/keys' },
+      current
+    );
+
+    expect(errors).toEqual([]);
+    expect(configs.validate).toBeUndefined();
+    expect(configs.enroll).toEqual({
+      url: 'https://api.example.com/v1/tenants/{{tenantId}}/keys',
+      method: 'POST',
+      headers: { 'X-Api-Version': '2' },
+      bodyTemplate: expect.any(String),
+      assertions: [
+        { type: 'status', statusCodes: [201] },
+        { type: 'headerPresent', header: 'Location' },
+        { type: 'jsonPathEquals', path: '$.status', value: 'enrolled' },
+        { type: 'jsonPathMatches', path: '$.keyId', pattern: '^k-[0-9]+$' },
+      ],
+      auth: { type: 'bearer', token: 't' },
+    });
+    expect(JSON.parse(configs.enroll?.bodyTemplate as string)).toEqual({
+      publicKey: '{{publicKey}}',
+      policy: '{{enrollmentPolicy}}',
+      format: '{{publicKeyFormat}}',
+      sentAt: '{{timestamp}}',
+      region: 'eu',
+    });
+  });
+
+  it('should attach the challenge operation to the validate endpoint', () => {
+    const { configs, errors } = importOpenApiEndpoints(
+      parseOpenApiDocument(KEYS_API),
+      { validate: 'POST /signatures/verify', challenge: 'GET /challenges' },
+      current
+    );
+
+    expect(errors).toEqual([]);
+    expect(configs.validate).toMatchObject({
+      url: 'https://api.example.com/v1/signatures/verify',
+      method: 'POST',
+      requestPolicy: { maxRetries: 2 },
+      assertions: [{ type: 'status', statusCodes: [200, 204] }],
+      challenge: { url: 'https://api.example.com/v1/challenges', method: 'GET', challengePath: 'data.nonce' },
+    });
+    expect(JSON.parse(configs.validate?.bodyTemplate as string)).toEqual({
+      signature: '{{signature}}',
+      signedData: '{{payload}}',
+      nonce: '{{challenge}}',
+      device: { model: '{{model}}' },
+    });
+  });
+
+  it('should resolve relative server URLs against the document address', () => {
+    const document = parseOpenApiDocument(
+      'openapi: 3.0.0\nservers: [{url: /api}]\npaths: {/challenge: {get: {responses: {}}}}'
+    );
+
+    expect(
+      importOpenApiEndpoints(document, { validate: 'GET /challenge' }, current, 'https://docs.example.com/specs/keys.yaml')
+        .configs.validate?.url
+    ).toBe('https://docs.example.com/api/challenge');
+    expect(importOpenApiEndpoints(document, { validate: 'GET /challenge' }, current)).toEqual({
+      configs: {},
+      errors: [
+        'GET /challenge: server URL "/api" is relative; load the document from its URL or add an absolute server URL',
+      ],
+    });
+  });
+
+  it('should report every operation that cannot be imported', () => {
+    expect(
+      importOpenApiEndpoints(
+        parseOpenApiDocument(KEYS_API),
+        { enroll: 'PUT /upload', validate: 'DELETE /keys', challenge: 'POST /signatures/verify' },
+        current
+      )
+    ).toEqual({
+      configs: {},
+      errors: [
+        'PUT /upload: request body is not JSON, so no body template can be generated',
+        'Operation "DELETE /keys" is not in the document',
+        'POST /signatures/verify: no "challenge" or "nonce" property found in the JSON response schema',
+      ],
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * P-256 Tests
+ * Uses the RFC 6979 (A.2.5) and RFC 4231 test vectors
+ */
+
+import { bytesToHex, hmacSha256, randomBytes } from '../cryptoUtils';
+import { generateP256KeyPair, getP256PublicKey, signP256Sha256 } from '../p256';
+import { verifySignature } from '../signatureVerifier';
+
+const RFC6979_PRIVATE_KEY = 'c9afa9d845ba75166b5c215767b1d6934e50c3db36e89b127b8a622b120f6721';
+const RFC6979_PUBLIC_KEY =
+  'MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEYP7UuiVanTHJYet0xjVtaMBJuJI7Yfps5mliLmDyn7Z5A/4QCLi8maQa6elWKLxk' +
+  '8vGyDC1+n1F3o8KU1EYimQ==';
+const RFC6979_SAMPLE_SIGNATURE =
+  'MEYCIQDv1IsqrLao/RFA3ZzUXoHWnSyHe1aq+ZHDTQ6oTq83FgIhAPfLHJQtZXxB1DbHobbin2Xz6QDbua/0Bk3Eqy+EOs2o';
+
+describe('hmacSha256', () => {
+  it('should match RFC 4231 test case 2', () => {
+    expect(bytesToHex(hmacSha256('Jefe', 'what do ya want for nothing?'))).toBe(
+      '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+    );
+  });
+});
+
+describe('randomBytes', () => {
+  it('should refuse to generate bytes without a secure random source', () => {
+    expect(randomBytes(32)).toHaveLength(32);
+
+    const cryptoApi = Object.getOwnPropertyDescriptor(globalThis, 'crypto');
+    Object.defineProperty(globalThis, 'crypto', { value: undefined, configurable: true });
+    try {
+      expect(() => randomBytes(32)).toThrow(/^No secure random number generator is available/);
+    } finally {
+      Object.defineProperty(globalThis, 'crypto', cryptoApi as PropertyDescriptor);
+    }
+  });
+});
+
+describe('p256', () => {
+  it('should derive the SubjectPublicKeyInfo public key', () => {
+    expect(getP256PublicKey(RFC6979_PRIVATE_KEY)).toBe(RFC6979_PUBLIC_KEY);
+  });
+
+  it('should produce the deterministic RFC 6979 signature', () => {
+    expect(signP256Sha256(RFC6979_PRIVATE_KEY, 'sample')).toBe(RFC6979_SAMPLE_SIGNATURE);
+  });
+
+  it('should generate key pairs whose signatures verify', () => {
+    const keyPair = generateP256KeyPair(length => new Uint8Array(length).fill(0x42));
+    const signature = signP256Sha256(keyPair.privateKey, 'payload-to-sign');
+
+    expect(keyPair.privateKey).toMatch(/^[0-9a-f]{64}$/);
+    expect(verifySignature(keyPair.publicKey, 'payload-to-sign', signature)).toEqual({
+      status: 'verified',
+      algorithm: 'ECDSA-P256-SHA256',
+      keySize: 256,
+      reason: undefined,
+    });
+  });
+
+  it('should reject invalid private keys', () => {
+    expect(() => signP256Sha256('00'.repeat(32), 'sample')).toThrow('Invalid P-256 private key');
+    expect(() => signP256Sha256('not-hex', 'sample')).toThrow('Invalid P-256 private key');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Payload Template Tests
+ * Digests were computed with Node crypto for the same inputs
+ */
+
+import {
+  formatTemplateVariables,
+  parseTemplateVariables,
+  previewPayloadTemplate,
+  renderPayloadTemplate,
+} from '../payloadTemplate';
+
+const NOW = new Date('2023-11-14T22:13:20.000Z'); // epoch 1700000000
+
+const context = {
+  keyAlias: 'default',
+  publicKeyFingerprint: 'ab12cd34',
+  variables: { userId: 'alice' },
+  now: NOW,
+  randomBytes: (length: number) => new Uint8Array(length).fill(0xab),
+};
+
+describe('payloadTemplate', () => {
+  it('should render time placeholders from the supplied clock', () => {
+    expect(renderPayloadTemplate('{date}|{epoch}|{epochMs}', context)).toBe(
+      '2023-11-14T22:13:20.000Z|1700000000|1700000000000'
+    );
+  });
+
+  it('should render key and user variables', () => {
+    expect(renderPayloadTemplate('{keyAlias}:{publicKeyFingerprint}:{userId}', context)).toBe(
+      'default:ab12cd34:alice'
+    );
+  });
+
+  it('should render nonces with the requested byte count', () => {
+    expect(renderPayloadTemplate('{nonce}', context)).toBe('ab'.repeat(16));
+    expect(renderPayloadTemplate('{nonce:4}', context)).toBe('abababab');
+  });
+
+  it('should render version 4 UUIDs', () => {
+    expect(renderPayloadTemplate('{uuid}', context)).toBe('abababab-abab-4bab-abab-abababababab');
+    expect(renderPayloadTemplate('{uuid}', { now: NOW })).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+    );
+  });
+
+  it('should encode and hash arguments, including nested placeholders', () => {
+    expect(renderPayloadTemplate('{base64:hello world}', context)).toBe('aGVsbG8gd29ybGQ=');
+    expect(renderPayloadTemplate('{sha256:{keyAlias}:{epoch}}', context)).toBe(
+      '4784aa9e5768375159785c1c25ff4bb8cc646a4c44de7bd8e001094b3f887a92'
+    );
+  });
+
+  it('should leave JSON braces untouched', () => {
+    expect(renderPayloadTemplate('{"user": "{userId}", "at": {epoch}}', context)).toBe(
+      '{"user": "alice", "at": 1700000000}'
+    );
+  });
+
+  it('should substitute captured variables written as {{name}}', () => {
+    const withCaptured = { ...context, capturedVariables: { sessionId: 's-42' } };
+
+    expect(renderPayloadTemplate('login:{{sessionId}}:{epoch}', withCaptured)).toBe(
+      'login:s-42:1700000000'
+    );
+    expect(renderPayloadTemplate('{{epoch}}', withCaptured)).toBe('{1700000000}');
+    expect(renderPayloadTemplate('{{userId}}', withCaptured)).toBe('{alice}');
+  });
+
+  it('should report captured variables that are not set with their position', () => {
+    expect(() => renderPayloadTemplate('login:{{sessionId}}', context)).toThrow(
+      'Captured variable "sessionId" at position 6 is not set'
+    );
+  });
+
+  it('should report unknown placeholders with their position', () => {
+    expect(() => renderPayloadTemplate('login:{sessionId}', context)).toThrow(
+      'Unknown placeholder {sessionId} at position 6'
+    );
+  });
+
+  it('should reject invalid nonce lengths and unexpected arguments', () => {
+    expect(() => renderPayloadTemplate('{nonce:0}', context)).toThrow('needs a byte count');
+    expect(() => renderPayloadTemplate('{nonce:abc}', context)).toThrow('needs a byte count');
+    expect(() => renderPayloadTemplate('{epoch:1}', context)).toThrow('does not take an argument');
+    expect(() => renderPayloadTemplate('{sha256:abc', context)).toThrow('Unterminated');
+  });
+
+  it('should require an enrolled key for {publicKeyFingerprint}', () => {
+    expect(() => renderPayloadTemplate('{publicKeyFingerprint}', { now: NOW })).toThrow(
+      'needs an enrolled public key'
+    );
+  });
+
+  it('should report preview errors instead of throwing', () => {
+    expect(previewPayloadTemplate('{epoch}', context)).toEqual({ payload: '1700000000', error: null });
+    expect(previewPayloadTemplate('{missing}', context)).toEqual({
+      payload: null,
+      error: 'Unknown placeholder {missing} at position 0',
+    });
+  });
+
+  it('should round-trip name=value variable lines', () => {
+    const variables = parseTemplateVariables('userId = alice\n\ninvalid\nscope=read=write');
+    expect(variables).toEqual({ userId: 'alice', scope: 'read=write' });
+    expect(formatTemplateVariables(variables)).toBe('userId=alice\nscope=read=write');
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Request Policy Tests
+ */
+
+import { parseStatusCodes, resolveRequestPolicy, validateRequestPolicy } from '../requestPolicy';
+import { DEFAULT_REQUEST_POLICY } from '../../constants/biometrics';
+
+describe('requestPolicy', () => {
+  it('should accept partial policies', () => {
+    expect(validateRequestPolicy({})).toEqual({ isValid: true, errors: [] });
+    expect(
+      validateRequestPolicy({ timeoutMs: 30000, maxRetries: 0, backoff: 'fixed', retryOnStatus: [429] }).isValid
+    ).toBe(true);
+  });
+
+  it('should report every invalid field', () => {
+    const result = validateRequestPolicy({
+      timeoutMs: 0,
+      maxRetries: 1.5,
+      backoff: 'random',
+      backoffDelayMs: -1,
+      retryOnStatus: [503, 42],
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toHaveLength(5);
+    expect(validateRequestPolicy([]).errors).toEqual(['Request policy must be an object']);
+  });
+
+  it('should fill omitted fields with the defaults', () => {
+    expect(resolveRequestPolicy()).toEqual(DEFAULT_REQUEST_POLICY);
+    expect(resolveRequestPolicy({ maxRetries: 2, backoff: undefined })).toEqual({
+      ...DEFAULT_REQUEST_POLICY,
+      maxRetries: 2,
+    });
+  });
+
+  it('should parse comma separated status codes', () => {
+    expect(parseStatusCodes(' 429, 503 ,')).toEqual([429, 503]);
+    expect(parseStatusCodes('5xx')).toEqual([NaN]);
+    expect(parseStatusCodes('')).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Request Signing Tests
+ */
+
+import {
+  buildCanonicalString,
+  resolveRequestSigning,
+  signRequest,
+  validateRequestSigning,
+} from '../requestSigning';
+
+describe('requestSigning', () => {
+  const request = {
+    method: 'post',
+    url: 'https://api.example.com/v1/keys?x=1#section',
+    body: '{"a":1}',
+  };
+
+  it('should sign the default canonical string with HMAC-SHA256', () => {
+    const signature = signRequest({ secret: 's3cret' }, request, 1700000000999);
+
+    expect(signature.canonicalString).toBe(
+      'POST\n/v1/keys?x=1\n1700000000\n015abd7f5cc57a2dd94b7590f04ad8084273905ee33ec5cebeae62276a97f862'
+    );
+    expect(signature.headers).toEqual({
+      'X-Timestamp': '1700000000',
+      'X-Signature': 'dafb4bf113dc87d2dc5fda31d809f4b3a0ab99764a008c90e4360206b17d60d2',
+    });
+  });
+
+  it('should use a custom canonical string and header names', () => {
+    const signature = signRequest(
+      {
+        secret: 's3cret',
+        canonicalTemplate: '{method} {host} {path}',
+        signatureHeader: 'X-Gateway-Signature',
+        timestampHeader: 'X-Gateway-Time',
+      },
+      { method: 'GET', url: 'https://api.example.com:8443' },
+      0
+    );
+
+    expect(signature.canonicalString).toBe('GET api.example.com:8443 /');
+    expect(signature.headers).toEqual({
+      'X-Gateway-Time': '0',
+      'X-Gateway-Signature': '45ea37f23d043c8533e9b3f3e3d8234ca5ebe29ac9ace0a9a1264e47cf20f7a2',
+    });
+  });
+
+  it('should hash an empty body when there is none', () => {
+    expect(
+      buildCanonicalString('{bodySha256}', { method: 'DELETE', url: 'https://api.example.com/keys' }, '0')
+    ).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+  });
+
+  it('should fill omitted fields with the defaults', () => {
+    expect(resolveRequestSigning({ secret: 'k', signatureHeader: '' })).toEqual({
+      secret: 'k',
+      canonicalTemplate: '{method}\n{path}\n{timestamp}\n{bodySha256}',
+      signatureHeader: 'X-Signature',
+      timestampHeader: 'X-Timestamp',
+    });
+  });
+
+  it('should report malformed settings', () => {
+    expect(validateRequestSigning({ secret: 'k' })).toEqual({ isValid: true, errors: [] });
+    expect(
+      validateRequestSigning({
+        secret: '',
+        canonicalTemplate: '{method}\n{query}',
+        signatureHeader: 'X Signature',
+        timestampHeader: 'X-Signature',
+      }).errors
+    ).toEqual([
+      'Signing secret is required',
+      'Unknown canonical string placeholder {query}; available: {method}, {path}, {host}, {timestamp}, {bodySha256}',
+      'Signature header must be a valid header name',
+    ]);
+    expect(
+      validateRequestSigning({ secret: 'k', timestampHeader: 'x-signature' }).errors
+    ).toEqual(['Signature and timestamp headers must differ']);
+    expect(validateRequestSigning('k').errors).toEqual(['Request signing must be an object']);
+  });
+});
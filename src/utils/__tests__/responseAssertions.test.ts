@@ -0,0 +1,79 @@
+/**
+ * Response Assertions Tests
+ */
+
+import {
+  evaluateAssertions,
+  getAssertionResults,
+  summarizeAssertions,
+  validateAssertions,
+} from '../responseAssertions';
+
+describe('responseAssertions', () => {
+  const response = {
+    status: 200,
+    headers: { 'x-request-id': 'abc-123' },
+    data: { valid: false, user: { id: 'a1b2', roles: ['admin'] } },
+    latencyMs: 120,
+  };
+
+  it('should accept well-formed assertions', () => {
+    expect(
+      validateAssertions([
+        { type: 'status', statusCodes: [200, 201] },
+        { type: 'jsonPathEquals', path: '$.valid', value: true },
+        { type: 'jsonPathExists', path: 'user.id' },
+        { type: 'jsonPathMatches', path: '$.user.id', pattern: '^[a-z0-9]+$' },
+        { type: 'headerPresent', header: 'X-Request-Id' },
+        { type: 'maxLatency', maxMs: 500 },
+      ])
+    ).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('should report each malformed assertion by position', () => {
+    const result = validateAssertions([
+      { type: 'status', statusCodes: [] },
+      { type: 'jsonPathMatches', path: '$.id', pattern: '([' },
+      { type: 'maxLatency', maxMs: 0 },
+      { type: 'bodyContains' },
+    ]);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toHaveLength(4);
+    expect(result.errors[0]).toMatch(/^Assertion 1: Expected status codes/);
+    expect(result.errors[1]).toMatch(/^Assertion 2: Pattern "\(\[" is not a valid regular expression/);
+    expect(result.errors[2]).toMatch(/^Assertion 3: Max latency must be/);
+    expect(result.errors[3]).toMatch(/^Assertion 4: Assertion type must be one of/);
+    expect(validateAssertions({ type: 'status' }).errors).toEqual(['Assertions must be a list']);
+  });
+
+  it('should give a verdict per assertion', () => {
+    const results = evaluateAssertions(
+      [
+        { type: 'status', statusCodes: [200] },
+        { type: 'jsonPathEquals', path: '$.valid', value: true },
+        { type: 'jsonPathEquals', path: '$.user.roles', value: ['admin'] },
+        { type: 'jsonPathExists', path: '$.token' },
+        { type: 'jsonPathMatches', path: '$.user.id', pattern: '^[a-z0-9]+$' },
+        { type: 'headerPresent', header: 'X-Request-Id' },
+        { type: 'maxLatency', maxMs: 100 },
+      ],
+      response
+    );
+
+    expect(results.map(result => result.passed)).toEqual([true, false, true, false, true, true, false]);
+    expect(results[1].message).toBe('$.valid equals true (got false)');
+    expect(results[3].message).toBe('$.token exists (got nothing)');
+    expect(results[5].actual).toBe('abc-123');
+    expect(results[6].message).toBe('Latency is at most 100ms (got 120)');
+    expect(summarizeAssertions(results)).toBe('4 of 7 assertions passed');
+  });
+
+  it('should find assertion results in log details', () => {
+    const results = evaluateAssertions([{ type: 'status', statusCodes: [204] }], response);
+
+    expect(getAssertionResults({ assertions: results })).toBe(results);
+    expect(getAssertionResults({ assertions: [{ type: 'status' }] })).toBeUndefined();
+    expect(getAssertionResults('plain details')).toBeUndefined();
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * RSA Tests
+ * Generated keys are checked against the signature verifier and the public key inspector
+ */
+
+import { randomBytes } from '../cryptoUtils';
+import { generateRsaKeyPair, getRsaPublicKey, signRsaPkcs1Sha256 } from '../rsa';
+import { verifySignature } from '../signatureVerifier';
+import { inspectPublicKey } from '../publicKeyUtils';
+
+describe('rsa', () => {
+  it('should generate 2048-bit key pairs whose signatures verify', () => {
+    const keyPair = generateRsaKeyPair(randomBytes);
+    const signature = signRsaPkcs1Sha256(keyPair.privateKey, 'payload-to-sign');
+
+    expect(keyPair.privateKey).toMatch(/^[0-9a-f]+:[0-9a-f]+$/);
+    expect(inspectPublicKey(keyPair.publicKey)).toMatchObject({
+      algorithm: 'RSA',
+      keySize: 2048,
+      publicExponent: '65537',
+    });
+    expect(verifySignature(keyPair.publicKey, 'payload-to-sign', signature)).toEqual({
+      status: 'verified',
+      algorithm: 'RSASSA-PKCS1-v1_5-SHA256',
+      keySize: 2048,
+      reason: undefined,
+    });
+    expect(verifySignature(keyPair.publicKey, 'tampered-payload', signature).status).toBe('failed');
+  });
+
+  it('should derive the same public key from the private key', () => {
+    const keyPair = generateRsaKeyPair(randomBytes, 1024);
+
+    expect(getRsaPublicKey(keyPair.privateKey)).toBe(keyPair.publicKey);
+  });
+
+  it('should reject invalid private keys and key sizes', () => {
+    expect(() => signRsaPkcs1Sha256('not-a-key', 'payload')).toThrow('Invalid RSA private key');
+    expect(() => signRsaPkcs1Sha256('01:01', 'payload')).toThrow('Invalid RSA private key');
+    expect(() => generateRsaKeyPair(randomBytes, 1000)).toThrow('Unsupported RSA key size 1000');
+  });
+});
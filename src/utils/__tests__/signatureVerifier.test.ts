@@ -0,0 +1,114 @@
+/**
+ * Signature Verifier Tests
+ * Verifies signatures against known-good RSA and ECDSA vectors
+ */
+
+import { verifySignature } from '../signatureVerifier';
+import { sha256, bytesToHex, utf8Encode, base64ToBytes, bytesToBase64 } from '../cryptoUtils';
+
+// Fixtures generated with Node's crypto module, which matches the native keystore output formats
+const PAYLOAD = 'validation-payload-2024-01-01T00:00:00.000Z';
+const RSA_PUBLIC_KEY =
+  'MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEAxlZzShPolQj3ynJ6I1PVRfY2LEAtoU/e' +
+  'n0gudnriEGosyr5mWcl4AKH87fjtHZqEJqM3iR1RDc/vjpKW1LgG3hf+bz1IymRXpwwtdMnV11L8' +
+  '2/gsLl6QfPzJslr2/wB8XQVaVZEFn/GtWGSLzvcEUV0d9tclVkJQg8B9+Qmb742qpxcfdQc9aNT2' +
+  'DbkCmb7wIEIJXrTjZZ6Fo7vS0FVhPQe4aNMRr4D0YDo/j4O9rJd2imWTcR1j3qUZG13wrKNRLOF2' +
+  'UC+N5cT7bB+fzbRFk7tw5pfMWKPLvb8x/5uKIZ8A04mvO2zFXwlOkWfn+6l+NHyxjC6ncU0Hqa94' +
+  '21WzxwIDAQAB';
+const RSA_SIGNATURE =
+  'aFJbjm8MgaNd5u43WKWZ2BQletFQ18TSKhTXlHIdVAMQ8c8xT6MH4uJeMA3+y3Xtfs6LYj3RUDkG' +
+  'Cd4heazIlotzRG1Kzabb/u0Sf3+lK8DOtwE38WLU3RKvP6xU8ZOhib3MRZuwCk3aZ2ZwW52D8xkL' +
+  '2R3yEZJvrwCCEm/dwqD2Oyg3P2C86URwkcpIZ/Sv/8Xo65CiPiqN4xxZpCahiPOmxAJVE/oPvgvb' +
+  'kFqH3+ekyl/KHIGrBBmPapKNvaS30KRrze1HvBVn6s8Ggha4FuETM62VWE49l3AJKoYigFthtPNL' +
+  '60qLXChCRK6yvrZeMg79ZpEIH+nGVzUF7b04jw==';
+const RSA_OTHER_KEY_SIGNATURE =
+  'RzsqizW5Gp/K/I4KpAMX1H2lEvUEQM8X3DLmbhdHio+SBgBXl38fEDVESV/pg3F8WJmziDAAdKD7' +
+  'j9T7/fNwZCfEJxB7KaZPlUQmedUUGFLOOQ2VOcJ22ldN6uLdrNL8XOHL8eK7FcT0pu1+WqqufTkF' +
+  'AzEU0h7rs+YXN5/UCsxZ3xfoP5r+sCf7aRaokCyCVnoz7aPTBROt9hDTO5xK10hzBKX0mKLp1zfR' +
+  'OGFmpUcxNq6ILHSOzphseLcXjyJ9m9JPWXV89imWyBfhI7zPiTuKgqpd+ixkhr1YYvx4R9B8nPF/' +
+  'EDjsN22z0Vlq/1hXjJ49r9PUrd5K8NUNqNCnrQ==';
+const EC_PUBLIC_KEY =
+  'MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEtC9kr/Upk79tjTiZP6aHvrCTlDUDm/JMva96q/SZ' +
+  'VDaBea0HhBM/ffDY0DKG7WZbFtWViP/n6PGLQFOslMtdvg==';
+const EC_DER_SIGNATURE =
+  'MEYCIQCy+FdcTLxkMIK7mm3//7Bssy08w2UPXSur2n2JgEXxFAIhAKHBsktR+Zu9+JMf8Bsbvcic' +
+  'UrihFiTsFTCQ6OlA4D8i';
+const EC_RAW_SIGNATURE =
+  'ZDUDuezC+Eg5IzDdlVBAv6KySr8r5SJE8tCfubeB1JnUH4+O3tBEYQ32SBAONsIMlvDxHW5uDvHU' +
+  '1kFXTVGoNg==';
+const P384_PUBLIC_KEY =
+  'MHYwEAYHKoZIzj0CAQYFK4EEACIDYgAEXN9VIg77LmbWsWgISXMVpa7FGrVNEUdg7783FgYsnQCL' +
+  'qkKD3k33J//t+n7/YkPQfg5U44caAUw7PBGQgZARuyR4uAxkUE+vg52GKBl2fXGR25AZJFODHURr' +
+  'qW7r3b6L';
+const P384_SIGNATURE =
+  'MGUCMQChOzX/as8YfV8ms1F9AiBfuuxP43t+MCEfph+BKt738TqNYQstSkLjkVAFBjVng9QCMER+' +
+  'NUsqVwHDdQMje/YK/15oqRA7DIAYqtmvY9gcyZmpTP11LmVf5PnQiwBiV7xRqA==';
+
+describe('cryptoUtils', () => {
+  it('should match reference SHA-256 digests', () => {
+    expect(bytesToHex(sha256(''))).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(bytesToHex(sha256('abc'))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(bytesToHex(sha256('payload-ü-😀'))).toBe('eb8ee12b39d2742bc09a82ba2544f6e2a3d52ab47514054b261d39fdc00e9e3f');
+    expect(bytesToHex(sha256('x'.repeat(1000)))).toBe('44f8354494a5ba03ba1792a8d3e9c534c47a9181980fde7a3f44b06ef2ae7c7f');
+  });
+
+  it('should encode multi-byte characters as UTF-8', () => {
+    expect(Array.from(utf8Encode('héllo 😀'))).toEqual([104, 195, 169, 108, 108, 111, 32, 240, 159, 152, 128]);
+  });
+
+  it('should round-trip base64 and tolerate line breaks', () => {
+    const bytes = new Uint8Array([0, 1, 2, 250, 251, 252, 253]);
+    const encoded = bytesToBase64(bytes);
+
+    expect(encoded).toBe('AAEC+vv8/Q==');
+    expect(Array.from(base64ToBytes(`${encoded.slice(0, 4)}\n${encoded.slice(4)}`))).toEqual(Array.from(bytes));
+  });
+});
+
+describe('verifySignature', () => {
+  describe('RSA', () => {
+    it('should verify a valid SHA256withRSA signature', () => {
+      const result = verifySignature(RSA_PUBLIC_KEY, PAYLOAD, RSA_SIGNATURE);
+
+      expect(result.status).toBe('verified');
+      expect(result.algorithm).toBe('RSASSA-PKCS1-v1_5-SHA256');
+      expect(result.keySize).toBe(2048);
+    });
+
+    it('should fail when the payload differs', () => {
+      const result = verifySignature(RSA_PUBLIC_KEY, `${PAYLOAD}x`, RSA_SIGNATURE);
+
+      expect(result.status).toBe('failed');
+      expect(result.reason).toContain('does not match');
+    });
+
+    it('should fail for a signature made by another key', () => {
+      expect(verifySignature(RSA_PUBLIC_KEY, PAYLOAD, RSA_OTHER_KEY_SIGNATURE).status).toBe('failed');
+    });
+  });
+
+  describe('ECDSA', () => {
+    it('should verify DER and raw P-256 signatures', () => {
+      expect(verifySignature(EC_PUBLIC_KEY, PAYLOAD, EC_DER_SIGNATURE).status).toBe('verified');
+      expect(verifySignature(EC_PUBLIC_KEY, PAYLOAD, EC_RAW_SIGNATURE)).toMatchObject({
+        status: 'verified',
+        algorithm: 'ECDSA-P256-SHA256',
+      });
+    });
+
+    it('should fail when the payload differs', () => {
+      expect(verifySignature(EC_PUBLIC_KEY, 'tampered', EC_DER_SIGNATURE).status).toBe('failed');
+    });
+
+    it('should skip curves it cannot verify', () => {
+      expect(verifySignature(P384_PUBLIC_KEY, PAYLOAD, P384_SIGNATURE).status).toBe('skipped');
+    });
+  });
+
+  it('should report malformed public keys as failed', () => {
+    const result = verifySignature('bm90LWEta2V5', PAYLOAD, 'c2lnbmF0dXJl');
+
+    expect(result.status).toBe('failed');
+    expect(result.reason).toContain('Public key could not be parsed');
+  });
+});
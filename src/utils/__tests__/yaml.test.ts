@@ -0,0 +1,70 @@
+/**
+ * YAML Parser Tests
+ */
+
+import { parseYaml } from '../yaml';
+
+describe('yaml', () => {
+  it('should read nested mappings, sequences and scalars', () => {
+    expect(
+      parseYaml(
+        [
+          '---',
+          'openapi: 3.0.3 # comment',
+          'info:',
+          '  title: "Keys API"',
+          "  note: 'it''s #1'",
+          'servers:',
+          '- url: https://api.example.com/v1',
+          '  variables: {env: {default: api, enum: [api, "staging"]}}',
+          'paths:',
+          "  '/keys/{id}':",
+          '    delete:',
+          '      responses:',
+          '        204: {description: Deleted}',
+          'tags: [a, b]',
+          'count: 3',
+          'ratio: 0.5',
+          'enabled: true',
+          'empty:',
+          'multi: folded',
+          '  plain text',
+        ].join('\n')
+      )
+    ).toEqual({
+      openapi: '3.0.3',
+      info: { title: 'Keys API', note: "it's #1" },
+      servers: [
+        { url: 'https://api.example.com/v1', variables: { env: { default: 'api', enum: ['api', 'staging'] } } },
+      ],
+      paths: { '/keys/{id}': { delete: { responses: { '204': { description: 'Deleted' } } } } },
+      tags: ['a', 'b'],
+      count: 3,
+      ratio: 0.5,
+      enabled: true,
+      empty: null,
+      multi: 'folded plain text',
+    });
+  });
+
+  it('should read literal and folded block scalars', () => {
+    expect(
+      parseYaml(['literal: |', '  line one', '    indented', 'folded: >-', '  one', '  two', '', '  three'].join('\n'))
+    ).toEqual({
+      literal: 'line one\n  indented\n',
+      folded: 'one two\nthree',
+    });
+  });
+
+  it('should read double quoted escapes and sequences of sequences', () => {
+    expect(parseYaml('- "tab\\there \\u00e9"\n- - 1\n  - 2')).toEqual(['tab\there é', [1, 2]]);
+  });
+
+  it('should name the line of unsupported constructs', () => {
+    expect(() => parseYaml('a: 1\nb: &anchor 2')).toThrow('YAML line 2: anchors, aliases and tags are not supported');
+    expect(() => parseYaml('a: 1\na: 2')).toThrow('YAML line 2: duplicate key "a"');
+    expect(() => parseYaml('a: 1\n---\nb: 2')).toThrow('YAML line 2: multiple documents are not supported');
+    expect(() => parseYaml('a: "open')).toThrow('YAML line 1: unterminated " string');
+    expect(() => parseYaml('a:\n\tb: 1')).toThrow('YAML line 2: tabs cannot be used for indentation');
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * ASN.1 DER Utilities
+ * Minimal DER decoder and encoder for the structures used by biometric public keys and signatures
+ */
+
+/* eslint-disable no-bitwise */
+
+export const ASN1_TAGS = {
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OBJECT_IDENTIFIER: 0x06,
+  SEQUENCE: 0x30,
+} as const;
+
+export const OIDS = {
+  RSA_ENCRYPTION: '1.2.840.113549.1.1.1',
+  EC_PUBLIC_KEY: '1.2.840.10045.2.1',
+  PRIME256V1: '1.2.840.10045.3.1.7',
+  SECP384R1: '1.3.132.0.34',
+  SECP521R1: '1.3.132.0.35',
+} as const;
+
+/**
+ * A decoded DER element
+ */
+export interface Asn1Node {
+  tag: number;
+  /** Offset of the element's first header byte within the decoded buffer */
+  offset: number;
+  headerLength: number;
+  length: number;
+  value: Uint8Array;
+  children?: Asn1Node[];
+}
+
+/**
+ * Decoded SubjectPublicKeyInfo
+ */
+export interface SubjectPublicKeyInfo {
+  algorithmOid: string;
+  parametersOid?: string;
+  /** Contents of the subjectPublicKey BIT STRING, without the unused-bits byte */
+  publicKey: Uint8Array;
+  rsa?: {
+    modulus: Uint8Array;
+    publicExponent: Uint8Array;
+  };
+}
+
+/**
+ * Decode a single DER element (and its children, for constructed types)
+ * @throws Error if the buffer is not well-formed DER
+ */
+export function parseDer(bytes: Uint8Array, offset: number = 0, end: number = bytes.length): Asn1Node {
+  if (offset + 2 > end) {
+    throw new Error(`Truncated DER element at offset ${offset}`);
+  }
+
+  const tag = bytes[offset];
+  if ((tag & 0x1f) === 0x1f) {
+    throw new Error(`High-tag-number form is not supported (offset ${offset})`);
+  }
+
+  let length = bytes[offset + 1];
+  let headerLength = 2;
+
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    if (lengthBytes === 0 || lengthBytes > 4) {
+      throw new Error(`Unsupported DER length encoding at offset ${offset}`);
+    }
+    if (offset + 2 + lengthBytes > end) {
+      throw new Error(`Truncated DER length at offset ${offset}`);
+    }
+
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + bytes[offset + 2 + i];
+    }
+    headerLength += lengthBytes;
+  }
+
+  const valueStart = offset + headerLength;
+  if (valueStart + length > end) {
+    throw new Error(`DER element at offset ${offset} overruns its container`);
+  }
+
+  const node: Asn1Node = {
+    tag,
+    offset,
+    headerLength,
+    length,
+    value: bytes.subarray(valueStart, valueStart + length),
+  };
+
+  // Bit 6 marks constructed encodings (SEQUENCE, SET, constructed context tags)
+  if (tag & 0x20) {
+    node.children = [];
+    let childOffset = valueStart;
+    while (childOffset < valueStart + length) {
+      const child = parseDer(bytes, childOffset, valueStart + length);
+      node.children.push(child);
+      childOffset += child.headerLength + child.length;
+    }
+  }
+
+  return node;
+}
+
+/**
+ * Decode an OBJECT IDENTIFIER value into dotted notation
+ */
+export function decodeOid(value: Uint8Array): string {
+  if (value.length === 0) {
+    throw new Error('Empty OBJECT IDENTIFIER');
+  }
+
+  const first = Math.min(Math.floor(value[0] / 40), 2);
+  const parts: number[] = [first, value[0] - first * 40];
+  let current = 0;
+
+  for (let i = 1; i < value.length; i++) {
+    current = current * 128 + (value[i] & 0x7f);
+    if (!(value[i] & 0x80)) {
+      parts.push(current);
+      current = 0;
+    }
+  }
+
+  return parts.join('.');
+}
+
+/**
+ * Strip the sign-padding zero bytes DER adds to positive INTEGERs
+ */
+export function unsignedIntegerBytes(value: Uint8Array): Uint8Array {
+  let start = 0;
+  while (start < value.length - 1 && value[start] === 0) {
+    start++;
+  }
+  return value.subarray(start);
+}
+
+/**
+ * Encode a DER element from its tag and contents
+ */
+export function encodeDer(tag: number, ...contents: Uint8Array[]): Uint8Array {
+  const length = contents.reduce((total, part) => total + part.length, 0);
+
+  const lengthBytes: number[] = [];
+  for (let remaining = length; remaining > 0; remaining = Math.floor(remaining / 256)) {
+    lengthBytes.unshift(remaining & 0xff);
+  }
+  const header = length < 0x80 ? [tag, length] : [tag, 0x80 | lengthBytes.length, ...lengthBytes];
+
+  const result = new Uint8Array(header.length + length);
+  result.set(header);
+  let offset = header.length;
+  for (const part of contents) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Encode unsigned big-endian bytes as a positive DER INTEGER
+ */
+export function encodeDerInteger(value: Uint8Array): Uint8Array {
+  const stripped = unsignedIntegerBytes(value);
+  return stripped[0] & 0x80
+    ? encodeDer(ASN1_TAGS.INTEGER, new Uint8Array([0x00]), stripped)
+    : encodeDer(ASN1_TAGS.INTEGER, stripped);
+}
+
+/**
+ * Decode a DER SubjectPublicKeyInfo structure
+ * @throws Error if the structure is not a valid SubjectPublicKeyInfo
+ */
+export function parseSubjectPublicKeyInfo(der: Uint8Array): SubjectPublicKeyInfo {
+  const root = parseDer(der);
+  const [algorithm, subjectPublicKey] = root.children || [];
+
+  if (
+    root.tag !== ASN1_TAGS.SEQUENCE ||
+    algorithm?.tag !== ASN1_TAGS.SEQUENCE ||
+    subjectPublicKey?.tag !== ASN1_TAGS.BIT_STRING
+  ) {
+    throw new Error('Not a SubjectPublicKeyInfo structure');
+  }
+
+  const [oidNode, parametersNode] = algorithm.children || [];
+  if (oidNode?.tag !== ASN1_TAGS.OBJECT_IDENTIFIER) {
+    throw new Error('SubjectPublicKeyInfo is missing its algorithm identifier');
+  }
+
+  const info: SubjectPublicKeyInfo = {
+    algorithmOid: decodeOid(oidNode.value),
+    publicKey: subjectPublicKey.value.subarray(1),
+  };
+
+  if (parametersNode?.tag === ASN1_TAGS.OBJECT_IDENTIFIER) {
+    info.parametersOid = decodeOid(parametersNode.value);
+  }
+
+  if (info.algorithmOid === OIDS.RSA_ENCRYPTION) {
+    const rsaKey = parseDer(info.publicKey);
+    const [modulus, publicExponent] = rsaKey.children || [];
+    if (modulus?.tag !== ASN1_TAGS.INTEGER || publicExponent?.tag !== ASN1_TAGS.INTEGER) {
+      throw new Error('Malformed RSA public key');
+    }
+    info.rsa = {
+      modulus: unsignedIntegerBytes(modulus.value),
+      publicExponent: unsignedIntegerBytes(publicExponent.value),
+    };
+  }
+
+  return info;
+}
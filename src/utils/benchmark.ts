@@ -0,0 +1,116 @@
+/**
+ * Benchmark
+ * Payload generation, option validation and timing statistics for the signature latency benchmark.
+ */
+
+import {
+  BenchmarkOptions,
+  BenchmarkPhase,
+  BenchmarkResult,
+  BenchmarkSample,
+  TimingStats,
+} from '../types';
+import {
+  BENCHMARK_PHASES,
+  DEFAULT_BENCHMARK_OPTIONS,
+  MAX_BENCHMARK_ITERATIONS,
+  MAX_BENCHMARK_PAYLOAD_SIZE,
+} from '../constants/biometrics';
+import { bytesToHex, randomBytes } from './cryptoUtils';
+
+/**
+ * Fill in defaults and check benchmark options from a request
+ * @throws Error if iterations or payload sizes are out of range
+ */
+export function validateBenchmarkOptions(input: unknown = {}): BenchmarkOptions {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Benchmark options must be an object');
+  }
+
+  const { iterations = DEFAULT_BENCHMARK_OPTIONS.iterations, payloadSizes = DEFAULT_BENCHMARK_OPTIONS.payloadSizes } =
+    input as Partial<BenchmarkOptions>;
+
+  if (!Number.isInteger(iterations) || iterations < 1 || iterations > MAX_BENCHMARK_ITERATIONS) {
+    throw new Error(`Benchmark iterations must be an integer between 1 and ${MAX_BENCHMARK_ITERATIONS}`);
+  }
+  if (!Array.isArray(payloadSizes) || payloadSizes.length === 0) {
+    throw new Error('Benchmark payloadSizes must be a non-empty array of byte counts');
+  }
+  payloadSizes.forEach(size => {
+    if (!Number.isInteger(size) || size < 1 || size > MAX_BENCHMARK_PAYLOAD_SIZE) {
+      throw new Error(`Benchmark payload size ${size} must be an integer between 1 and ${MAX_BENCHMARK_PAYLOAD_SIZE} bytes`);
+    }
+  });
+
+  return { iterations, payloadSizes: [...payloadSizes] };
+}
+
+/**
+ * Create an ASCII payload of exactly `size` bytes, unique per call so no two signatures share input
+ */
+export function generateBenchmarkPayload(
+  size: number,
+  iteration: number,
+  random: (length: number) => Uint8Array = randomBytes
+): string {
+  const seed = `bench-${iteration}-${bytesToHex(random(8))}-`;
+  return seed.repeat(Math.ceil(size / seed.length)).slice(0, size);
+}
+
+/**
+ * Min, median, 95th percentile (nearest rank) and max of a set of timings
+ * @returns null when there are no timings
+ */
+export function summarizeTimings(timings: number[]): TimingStats | null {
+  if (timings.length === 0) {
+    return null;
+  }
+
+  const sorted = [...timings].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    median,
+    p95: sorted[Math.ceil(sorted.length * 0.95) - 1],
+    max: sorted[sorted.length - 1],
+  };
+}
+
+/**
+ * Group samples by payload size and compute per-phase stats over the successful ones
+ */
+export function summarizeBenchmark(samples: BenchmarkSample[], payloadSizes: number[]): BenchmarkResult[] {
+  return payloadSizes.map(payloadSize => {
+    const group = samples.filter(sample => sample.payloadSize === payloadSize);
+    const succeeded = group.filter(sample => sample.success);
+
+    const phases = {} as Record<BenchmarkPhase, TimingStats | null>;
+    BENCHMARK_PHASES.forEach(phase => {
+      phases[phase] = summarizeTimings(
+        succeeded
+          .map(sample => sample.timings[phase])
+          .filter((timing): timing is number => timing !== undefined)
+      );
+    });
+
+    return {
+      payloadSize,
+      succeeded: succeeded.length,
+      failed: group.length - succeeded.length,
+      phases,
+    };
+  });
+}
+
+/**
+ * Describe stats on one line, e.g. "min 12 ms · median 14 ms · p95 19 ms · max 21 ms"
+ */
+export function formatTimingStats(stats: TimingStats | null): string {
+  if (!stats) {
+    return 'no successful samples';
+  }
+  return `min ${stats.min} ms · median ${stats.median} ms · p95 ${stats.p95} ms · max ${stats.max} ms`;
+}
@@ -0,0 +1,107 @@
+/**
+ * Biometric Errors
+ * Maps react-native-biometrics, Android BiometricPrompt and iOS LocalAuthentication failures
+ * onto the BiometricErrorCode catalog so callers can tell cancellation from lockout or key invalidation.
+ */
+
+import { BiometricError, BiometricErrorCode } from '../types';
+import { BIOMETRIC_ERROR_CATALOG } from '../constants/biometrics';
+
+/**
+ * Error thrown by an operation that failed for a biometric reason
+ * Carries the classified BiometricError so it survives being rethrown and logged
+ */
+export class BiometricOperationError extends Error {
+  readonly biometricError: BiometricError;
+
+  constructor(message: string, biometricError?: BiometricError) {
+    super(message);
+    this.name = 'BiometricOperationError';
+    this.biometricError = biometricError || mapBiometricError(message);
+  }
+}
+
+// Checked in order: specific codes before the generic "unavailable" and "not found" wording
+const ERROR_PATTERNS: [BiometricErrorCode, RegExp][] = [
+  ['USER_CANCEL', /user[ _]?cancel|ERROR_NEGATIVE_BUTTON|cancell?ed by (the )?user|LAErrorUserCancel/i],
+  ['USER_FALLBACK', /user[ _]?fallback|LAErrorUserFallback/i],
+  ['SYSTEM_CANCEL', /system[ _]?cancel|app[ _]?cancel|ERROR_CANCELED|LAErrorSystemCancel|LAErrorAppCancel/i],
+  ['LOCKOUT_PERMANENT', /LOCKOUT_PERMANENT|sensor disabled|permanently locked|LAErrorBiometryLockout|LAErrorTouchIDLockout/i],
+  ['LOCKOUT', /LOCKOUT|too many attempts|locked out/i],
+  ['KEY_INVALIDATED', /invalidated/i],
+  ['NO_BIOMETRICS_ENROLLED', /NONE_ENROLLED|not enrolled|no (fingerprints|biometrics|identities)|LAErrorBiometryNotEnrolled|LAErrorTouchIDNotEnrolled/i],
+  ['NO_HARDWARE', /NO_HARDWARE|no biometric hardware/i],
+  ['HW_UNAVAILABLE', /HW_UNAVAILABLE|(hardware|biometrics?|sensors?) (is |are )?(unavailable|not available)|BiometryNotAvailable|TouchIDNotAvailable/i],
+  ['INVALID_KEY_SLOT', /invalid key slot|key slot .* is not supported/i],
+  ['UNSUPPORTED_KEY_POLICY', /not supported by the \w+ (biometric )?provider|unsupported (key algorithm|enrollment policy)/i],
+  ['KEY_NOT_FOUND', /keys? (were )?not found|no (biometric |simulated )?keys? (found|exists?)|key does not exist/i],
+  ['TIMEOUT', /timed? ?out|ERROR_TIMEOUT/i],
+];
+
+/**
+ * Create a BiometricError for a code from the catalog
+ */
+export function createBiometricError(
+  code: BiometricErrorCode,
+  message: string = BIOMETRIC_ERROR_CATALOG[code].title,
+  details?: any
+): BiometricError {
+  const { remediation, recoverable } = BIOMETRIC_ERROR_CATALOG[code];
+  return details === undefined
+    ? { code, message, remediation, recoverable }
+    : { code, message, remediation, recoverable, details };
+}
+
+/**
+ * Classify a library error, rejection reason or error string
+ * @param error - Thrown value, `{ error }` result or message string
+ * @param defaultMessage - Message used when the error carries none
+ */
+export function mapBiometricError(error: unknown, defaultMessage: string = 'Biometric operation failed'): BiometricError {
+  const carried = getBiometricError(error);
+  if (carried) {
+    return carried;
+  }
+
+  const message = extractMessage(error) || defaultMessage;
+  const nativeCode = (error as any)?.code;
+  const haystack = typeof nativeCode === 'string' ? `${nativeCode} ${message}` : message;
+
+  const match = ERROR_PATTERNS.find(([, pattern]) => pattern.test(haystack));
+  return createBiometricError(match ? match[0] : 'UNKNOWN', message);
+}
+
+/**
+ * Get the BiometricError carried by a thrown value, if any
+ */
+export function getBiometricError(error: unknown): BiometricError | undefined {
+  if (error instanceof BiometricOperationError) {
+    return error.biometricError;
+  }
+
+  const candidate = (error as any)?.biometricError ?? error;
+  if (
+    candidate &&
+    typeof candidate === 'object' &&
+    typeof candidate.code === 'string' &&
+    candidate.code in BIOMETRIC_ERROR_CATALOG &&
+    typeof candidate.remediation === 'string'
+  ) {
+    return candidate as BiometricError;
+  }
+
+  return undefined;
+}
+
+function extractMessage(error: unknown): string | undefined {
+  if (typeof error === 'string') {
+    return error;
+  }
+  if (typeof (error as any)?.message === 'string') {
+    return (error as any).message;
+  }
+  if (typeof (error as any)?.error === 'string') {
+    return (error as any).error;
+  }
+  return undefined;
+}
@@ -0,0 +1,184 @@
+/**
+ * Body Template
+ * Maps enrollment and validation request bodies onto backend-specific JSON shapes such as
+ * {"device": {"key": "{{publicKey}}"}, "sentAt": "{{timestamp}}"}
+ * Placeholders that are not request values refer to variables captured from earlier responses.
+ */
+
+import { ValidationResult } from '../types';
+
+export type BodyTemplateType = 'enroll' | 'validate';
+
+export interface BodyTemplatePlaceholder {
+  name: string;
+  description: string;
+}
+
+export const BODY_TEMPLATE_PLACEHOLDERS: Record<BodyTemplateType, BodyTemplatePlaceholder[]> = {
+  enroll: [
+    { name: 'publicKey', description: 'Public key in the configured format' },
+    { name: 'publicKeyFormat', description: 'Configured public key format' },
+    { name: 'enrollmentPolicy', description: 'Key algorithm and authenticator policy object' },
+    { name: 'keyAlias', description: 'Key slot the key pair belongs to' },
+    { name: 'timestamp', description: 'Request time as an ISO 8601 string' },
+  ],
+  validate: [
+    { name: 'signature', description: 'Base64 signature of the payload' },
+    { name: 'payload', description: 'Signed payload' },
+    { name: 'challenge', description: 'Server challenge, when one was fetched' },
+    { name: 'keyAlias', description: 'Key slot used for signing' },
+    { name: 'timestamp', description: 'Request time as an ISO 8601 string' },
+  ],
+};
+
+// Property names, lower-cased without separators, that receive each request value
+const PLACEHOLDER_PROPERTIES: Record<string, string[]> = {
+  publicKey: ['publickey', 'pubkey', 'key'],
+  publicKeyFormat: ['publickeyformat', 'keyformat', 'format'],
+  enrollmentPolicy: ['enrollmentpolicy', 'policy'],
+  keyAlias: ['keyalias', 'alias', 'keyid'],
+  timestamp: ['timestamp', 'time', 'sentat', 'signedat', 'createdat', 'requestedat'],
+  signature: ['signature', 'sig'],
+  payload: ['payload', 'data', 'message', 'signeddata'],
+  challenge: ['challenge', 'nonce'],
+};
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}$/;
+
+/**
+ * Check that a body template is JSON and does not use the other request type's placeholders
+ * Other unknown names are captured variables, which are only resolved when rendering.
+ */
+export function validateBodyTemplate(template: string, type: BodyTemplateType): ValidationResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(template);
+  } catch (error) {
+    return {
+      isValid: false,
+      errors: [`Body template is not valid JSON: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  const known = getPlaceholderNames(type);
+  const otherType: BodyTemplateType = type === 'enroll' ? 'validate' : 'enroll';
+  const unavailable = getPlaceholderNames(otherType).filter(name => !known.includes(name));
+  const errors = collectPlaceholders(parsed)
+    .filter(name => unavailable.includes(name))
+    .map(name => `Unknown placeholder {{${name}}}. Available: ${known.map(item => `{{${item}}}`).join(', ')}`);
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Render a body template with the request values and captured variables
+ * A string that is exactly one placeholder takes the value as is, so objects stay objects and
+ * missing values become null; placeholders inside longer strings are replaced by the value's text.
+ * @throws Error if the template is not valid JSON or uses an unknown placeholder
+ */
+export function renderBodyTemplate(
+  template: string,
+  type: BodyTemplateType,
+  values: Record<string, unknown>,
+  variables: Record<string, string> = {}
+): unknown {
+  const validation = validateBodyTemplate(template, type);
+  if (!validation.isValid) {
+    throw new Error(validation.errors[0]);
+  }
+
+  const parsed = JSON.parse(template);
+  const known = getPlaceholderNames(type);
+  const missing = collectPlaceholders(parsed).find(
+    name => !known.includes(name) && !Object.prototype.hasOwnProperty.call(variables, name)
+  );
+  if (missing) {
+    throw new Error(`Unknown placeholder {{${missing}}}: no captured variable has that name`);
+  }
+
+  const resolved: Record<string, unknown> = {};
+  known.forEach(name => {
+    resolved[name] = values[name];
+  });
+  return renderValue(parsed, { ...variables, ...resolved });
+}
+
+/**
+ * Request value a body property is named after, such as publicKey for "public_key"
+ */
+export function findBodyTemplatePlaceholder(propertyName: string, type: BodyTemplateType): string | undefined {
+  const normalized = normalizePropertyName(propertyName);
+  return getPlaceholderNames(type).find(placeholder =>
+    (PLACEHOLDER_PROPERTIES[placeholder] || []).includes(normalized)
+  );
+}
+
+/**
+ * Whether a property name is one of the names that receive a server challenge
+ */
+export function isChallengePropertyName(propertyName: string): boolean {
+  return PLACEHOLDER_PROPERTIES.challenge.includes(normalizePropertyName(propertyName));
+}
+
+function normalizePropertyName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function getPlaceholderNames(type: BodyTemplateType): string[] {
+  return BODY_TEMPLATE_PLACEHOLDERS[type].map(placeholder => placeholder.name);
+}
+
+function renderValue(value: unknown, values: Record<string, unknown>): unknown {
+  if (typeof value === 'string') {
+    const whole = WHOLE_PLACEHOLDER.exec(value);
+    if (whole) {
+      return values[whole[1]] === undefined ? null : values[whole[1]];
+    }
+    return value.replace(PLACEHOLDER, (_match, name: string) => toText(values[name]));
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => renderValue(item, values));
+  }
+
+  if (value && typeof value === 'object') {
+    const rendered: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, item]) => {
+      rendered[key.replace(PLACEHOLDER, (_match, name: string) => toText(values[name]))] = renderValue(item, values);
+    });
+    return rendered;
+  }
+
+  return value;
+}
+
+function collectPlaceholders(value: unknown, names: string[] = []): string[] {
+  const collect = (text: string) => {
+    for (const match of text.matchAll(PLACEHOLDER)) {
+      if (!names.includes(match[1])) {
+        names.push(match[1]);
+      }
+    }
+  };
+
+  if (typeof value === 'string') {
+    collect(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectPlaceholders(item, names));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, item]) => {
+      collect(key);
+      collectPlaceholders(item, names);
+    });
+  }
+
+  return names;
+}
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
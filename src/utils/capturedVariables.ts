@@ -0,0 +1,177 @@
+/**
+ * Captured Variables
+ * Copies values out of backend responses (e.g. a session id) so later requests can
+ * reference them as {{name}} in URLs, headers, payload templates and bodies
+ */
+
+import { CaptureRule, ValidationResult, VariableCapture } from '../types';
+import { CAPTURE_SOURCES } from '../constants/biometrics';
+import { getJsonPathValue, parseJsonPath } from './jsonPath';
+
+export interface CapturedResponse {
+  /** Response headers with lower-case names */
+  headers?: Record<string, string>;
+  data?: unknown;
+}
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const VARIABLE_PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+/**
+ * Check whether a string can be used as a variable name
+ */
+export function isValidVariableName(name: unknown): name is string {
+  return typeof name === 'string' && VARIABLE_NAME_PATTERN.test(name);
+}
+
+/**
+ * Check a list of capture rules
+ */
+export function validateCaptureRules(rules: unknown): ValidationResult {
+  if (!Array.isArray(rules)) {
+    return { isValid: false, errors: ['Captures must be a list'] };
+  }
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  rules.forEach((rule, index) => {
+    const error = getCaptureRuleError(rule);
+    if (error) {
+      errors.push(`Capture ${index + 1}: ${error}`);
+      return;
+    }
+    const { variable } = rule as CaptureRule;
+    if (seen.has(variable)) {
+      errors.push(`Capture ${index + 1}: Variable ${variable} is already captured by an earlier rule`);
+    }
+    seen.add(variable);
+  });
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Check a single capture rule
+ * @returns The problem with the rule, or undefined if it is valid
+ */
+export function getCaptureRuleError(rule: unknown): string | undefined {
+  if (rule === null || typeof rule !== 'object' || Array.isArray(rule)) {
+    return 'Capture must be an object';
+  }
+
+  const candidate = rule as Record<string, unknown>;
+  if (!isValidVariableName(candidate.variable)) {
+    return 'Variable name must start with a letter or underscore and contain only letters, digits and underscores';
+  }
+  if (typeof candidate.path !== 'string' || candidate.path.trim().length === 0) {
+    return candidate.source === 'header' ? 'Header name is required' : 'JSON path is required';
+  }
+
+  switch (candidate.source) {
+    case 'jsonPath':
+      try {
+        parseJsonPath(candidate.path);
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+      return undefined;
+    case 'header':
+      return undefined;
+    default:
+      return `Capture source must be one of: ${CAPTURE_SOURCES.map(source => source.value).join(', ')}`;
+  }
+}
+
+/**
+ * Describe where a rule reads its value, e.g. "sessionId ← $.session.id"
+ */
+export function describeCaptureRule(rule: CaptureRule): string {
+  return rule.source === 'header'
+    ? `${rule.variable} ← header ${rule.path}`
+    : `${rule.variable} ← ${rule.path}`;
+}
+
+/**
+ * Read the values named by capture rules out of a response
+ * Objects and arrays are kept as JSON text so they can be substituted into bodies
+ */
+export function captureVariables(rules: CaptureRule[], response: CapturedResponse): VariableCapture {
+  const values: Record<string, string> = {};
+  const missing: string[] = [];
+
+  rules.forEach(rule => {
+    const value =
+      rule.source === 'header'
+        ? response.headers?.[rule.path.trim().toLowerCase()]
+        : readJsonPath(response.data, rule.path);
+
+    if (value === undefined || value === null) {
+      missing.push(rule.variable);
+    } else {
+      values[rule.variable] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+  });
+
+  return { values, missing };
+}
+
+function readJsonPath(data: unknown, path: string): unknown {
+  try {
+    return getJsonPathValue(data, path);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Replace {{name}} placeholders with captured variable values
+ * @throws Error naming the first placeholder with no captured value
+ */
+export function substituteVariables(text: string, variables: Record<string, string>): string {
+  return text.replace(VARIABLE_PLACEHOLDER_PATTERN, (_placeholder, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(variables, name)) {
+      throw new Error(`Variable {{${name}}} has not been captured yet`);
+    }
+    return variables[name];
+  });
+}
+
+/**
+ * Replace every {{name}} placeholder with a stand-in value, so text that will only
+ * be complete at request time can still be checked, e.g. as a URL
+ */
+export function fillVariablePlaceholders(text: string): string {
+  return text.replace(VARIABLE_PLACEHOLDER_PATTERN, (_placeholder, name: string) => name);
+}
+
+/**
+ * Check a set of stored variables
+ */
+export function validateVariables(variables: unknown): ValidationResult {
+  if (variables === null || typeof variables !== 'object' || Array.isArray(variables)) {
+    return { isValid: false, errors: ['Variables must be an object of names to values'] };
+  }
+
+  const errors: string[] = [];
+  Object.entries(variables).forEach(([name, value]) => {
+    if (!isValidVariableName(name)) {
+      errors.push(`"${name}" is not a valid variable name`);
+    } else if (typeof value !== 'string') {
+      errors.push(`Variable ${name} must be a string`);
+    }
+  });
+
+  return { isValid: errors.length === 0, errors };
+}
+
+
+/**
+ * Summarize a capture, e.g. "sessionId, userId (not in response: token)"
+ */
+export function summarizeVariableCapture(captured: VariableCapture): string {
+  const names = Object.keys(captured.values);
+  const stored = names.length > 0 ? names.join(', ') : 'none';
+  return captured.missing.length > 0
+    ? `${stored} (not in response: ${captured.missing.join(', ')})`
+    : stored;
+}
@@ -0,0 +1,325 @@
+/**
+ * Crypto Utilities
+ * Pure TypeScript byte encoding and hashing helpers that work without native crypto modules
+ */
+
+/* eslint-disable no-bitwise */
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/**
+ * Encode a string as UTF-8 bytes
+ */
+export function utf8Encode(text: string): Uint8Array {
+  const bytes: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    let codePoint = text.charCodeAt(i);
+
+    // Combine surrogate pairs into a single code point
+    if (codePoint >= 0xd800 && codePoint <= 0xdbff && i + 1 < text.length) {
+      const low = text.charCodeAt(i + 1);
+      if (low >= 0xdc00 && low <= 0xdfff) {
+        codePoint = 0x10000 + ((codePoint - 0xd800) << 10) + (low - 0xdc00);
+        i++;
+      }
+    }
+
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f));
+    } else if (codePoint < 0x10000) {
+      bytes.push(
+        0xe0 | (codePoint >> 12),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f)
+      );
+    } else {
+      bytes.push(
+        0xf0 | (codePoint >> 18),
+        0x80 | ((codePoint >> 12) & 0x3f),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f)
+      );
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Decode base64 (standard or URL-safe, whitespace and missing padding tolerated) into bytes
+ * @throws Error if the input contains characters outside the base64 alphabet
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const normalized = base64
+    .replace(/\s+/g, '')
+    .replace(/-/g, '+')
+    .replace(/_/g, '/')
+    .replace(/[=]+$/, '');
+
+  if (normalized.length % 4 === 1) {
+    throw new Error('Invalid base64 length');
+  }
+
+  const bytes = new Uint8Array(Math.floor((normalized.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+
+  for (let i = 0; i < normalized.length; i++) {
+    const value = BASE64_ALPHABET.indexOf(normalized[i]);
+    if (value === -1) {
+      throw new Error(`Invalid base64 character "${normalized[i]}"`);
+    }
+
+    buffer = (buffer << 6) | value;
+    bits += 6;
+
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >> bits) & 0xff;
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Encode bytes as standard padded base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let result = '';
+
+  for (let i = 0; i < bytes.length; i += 3) {
+    const b0 = bytes[i];
+    const b1 = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const b2 = i + 2 < bytes.length ? bytes[i + 2] : 0;
+
+    result += BASE64_ALPHABET[b0 >> 2];
+    result += BASE64_ALPHABET[((b0 & 0x03) << 4) | (b1 >> 4)];
+    result += i + 1 < bytes.length ? BASE64_ALPHABET[((b1 & 0x0f) << 2) | (b2 >> 6)] : '=';
+    result += i + 2 < bytes.length ? BASE64_ALPHABET[b2 & 0x3f] : '=';
+  }
+
+  return result;
+}
+
+/**
+ * Encode bytes as unpadded URL-safe base64 (RFC 4648 section 5)
+ */
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/[=]+$/, '');
+}
+
+/**
+ * Encode bytes as lowercase hex
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes[i].toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+/**
+ * Decode a hex string into bytes
+ * @throws Error if the string is not an even-length hex string
+ */
+export function hexToBytes(hex: string): Uint8Array {
+  if (!/^([0-9a-fA-F]{2})*$/.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Interpret bytes as an unsigned big-endian integer
+ */
+export function bytesToBigInt(bytes: Uint8Array): bigint {
+  const hex = bytesToHex(bytes);
+  return hex ? BigInt(`0x${hex}`) : BigInt(0);
+}
+
+/**
+ * Encode an unsigned integer as big-endian bytes, left-padded to the given length
+ */
+export function bigIntToBytes(value: bigint, length: number): Uint8Array {
+  let hex = value.toString(16);
+  if (hex.length % 2) {
+    hex = `0${hex}`;
+  }
+
+  const byteLength = hex.length / 2;
+  if (byteLength > length) {
+    throw new Error(`Integer does not fit in ${length} bytes`);
+  }
+
+  const bytes = new Uint8Array(length);
+  const offset = length - byteLength;
+  for (let i = 0; i < byteLength; i++) {
+    bytes[offset + i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Compare two byte arrays for equality
+ */
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+/**
+ * Concatenate byte arrays
+ */
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Compute the SHA-256 digest of the given bytes or UTF-8 string
+ */
+export function sha256(input: Uint8Array | string): Uint8Array {
+  const message = typeof input === 'string' ? utf8Encode(input) : input;
+
+  // Pad to a multiple of 64 bytes: 0x80, zeros, then the 64-bit message bit length
+  const paddedLength = Math.ceil((message.length + 9) / 64) * 64;
+  const padded = new Uint8Array(paddedLength);
+  padded.set(message);
+  padded[message.length] = 0x80;
+
+  const bitLength = message.length * 8;
+  const view = new DataView(padded.buffer);
+  view.setUint32(paddedLength - 8, Math.floor(bitLength / 0x100000000));
+  view.setUint32(paddedLength - 4, bitLength >>> 0);
+
+  const hash = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a,
+    0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const w = new Uint32Array(64);
+
+  for (let chunk = 0; chunk < paddedLength; chunk += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(chunk + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + ch + SHA256_K[i] + w[i]) >>> 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + maj) >>> 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) >>> 0;
+    }
+
+    hash[0] = (hash[0] + a) >>> 0;
+    hash[1] = (hash[1] + b) >>> 0;
+    hash[2] = (hash[2] + c) >>> 0;
+    hash[3] = (hash[3] + d) >>> 0;
+    hash[4] = (hash[4] + e) >>> 0;
+    hash[5] = (hash[5] + f) >>> 0;
+    hash[6] = (hash[6] + g) >>> 0;
+    hash[7] = (hash[7] + h) >>> 0;
+  }
+
+  const digest = new Uint8Array(32);
+  const digestView = new DataView(digest.buffer);
+  for (let i = 0; i < 8; i++) {
+    digestView.setUint32(i * 4, hash[i]);
+  }
+  return digest;
+}
+
+/**
+ * Generate random bytes with the platform CSPRNG; on React Native, index.js installs
+ * crypto.getRandomValues from react-native-get-random-values
+ * @throws Error if crypto.getRandomValues is not available; private keys and nonces must not
+ * come from a predictable source
+ */
+export function randomBytes(length: number): Uint8Array {
+  const cryptoApi = (globalThis as any).crypto;
+  if (!cryptoApi || typeof cryptoApi.getRandomValues !== 'function') {
+    throw new Error(
+      'No secure random number generator is available (crypto.getRandomValues is missing), so keys and nonces cannot be generated'
+    );
+  }
+
+  const bytes = new Uint8Array(length);
+  cryptoApi.getRandomValues(bytes);
+  return bytes;
+}
+
+/**
+ * Compute the HMAC-SHA256 (RFC 2104) of a message with the given key
+ */
+export function hmacSha256(key: Uint8Array | string, message: Uint8Array | string): Uint8Array {
+  const blockSize = 64;
+  let keyBytes = typeof key === 'string' ? utf8Encode(key) : key;
+  if (keyBytes.length > blockSize) {
+    keyBytes = sha256(keyBytes);
+  }
+
+  const innerPad = new Uint8Array(blockSize).fill(0x36);
+  const outerPad = new Uint8Array(blockSize).fill(0x5c);
+  for (let i = 0; i < keyBytes.length; i++) {
+    innerPad[i] ^= keyBytes[i];
+    outerPad[i] ^= keyBytes[i];
+  }
+
+  const messageBytes = typeof message === 'string' ? utf8Encode(message) : message;
+  return sha256(concatBytes(outerPad, sha256(concatBytes(innerPad, messageBytes))));
+}
+
+function rotr(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits));
+}
@@ -0,0 +1,451 @@
+/**
+ * cURL Commands
+ * Turns backend requests into cURL commands so they can be replayed from a terminal.
+ * Recorded requests carry the body and signature as sent, with credentials masked.
+ * Commands copied from browser dev tools or API docs can be imported as endpoint configurations.
+ */
+
+import { ChallengeConfig, EndpointConfig, HttpExchange } from '../types';
+import { DEFAULT_REQUEST_HEADERS } from '../constants/biometrics';
+import { BodyTemplateType, findBodyTemplatePlaceholder, validateBodyTemplate } from './bodyTemplate';
+import { isHttpMethod } from './typeGuards';
+
+export type CurlRequest = HttpExchange['request'];
+
+/**
+ * Quote a value for a POSIX shell
+ */
+export function quoteShellArgument(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Build a cURL command with one option per line
+ */
+export function toCurlCommand(request: CurlRequest): string {
+  const method = request.method.toUpperCase();
+  const hasBody = request.body !== undefined && request.body !== '';
+
+  const parts = [
+    `curl${method === 'GET' && !hasBody ? '' : ` -X ${method}`} ${quoteShellArgument(request.url)}`,
+    ...Object.entries(request.headers).map(
+      ([name, value]) => `-H ${quoteShellArgument(`${name}: ${value}`)}`
+    ),
+    ...(hasBody ? [`--data-raw ${quoteShellArgument(request.body as string)}`] : []),
+  ];
+  return parts.join(' \\\n  ');
+}
+
+/**
+ * Request an endpoint would get from its configuration alone: URL, method and headers,
+ * without the body and credentials that are only known once it has been called
+ */
+export function getConfiguredRequest(config: EndpointConfig | ChallengeConfig): CurlRequest {
+  return {
+    method: config.method,
+    url: config.url,
+    headers: { ...DEFAULT_REQUEST_HEADERS, ...config.headers },
+  };
+}
+
+export type CurlImportedConfig = Pick<EndpointConfig, 'url' | 'method' | 'headers' | 'bodyTemplate' | 'auth'>;
+
+export interface CurlImportResult {
+  /** Request described by the command; undefined when it cannot be imported */
+  config?: CurlImportedConfig;
+  errors: string[];
+}
+
+type CurlOption = 'request' | 'header' | 'data' | 'dataRaw' | 'json' | 'url' | 'user' | 'userAgent' | 'cookie';
+
+// Options that take a value; --data-raw is the only data option that does not read @file
+const VALUE_OPTIONS: Record<string, CurlOption> = {
+  '-X': 'request',
+  '--request': 'request',
+  '-H': 'header',
+  '--header': 'header',
+  '-d': 'data',
+  '--data': 'data',
+  '--data-ascii': 'data',
+  '--data-binary': 'data',
+  '--data-raw': 'dataRaw',
+  '--json': 'json',
+  '--url': 'url',
+  '-u': 'user',
+  '--user': 'user',
+  '-A': 'userAgent',
+  '--user-agent': 'userAgent',
+  '-b': 'cookie',
+  '--cookie': 'cookie',
+};
+
+// Request value each imported body has to carry for the backend to check it
+const REQUIRED_BODY_PLACEHOLDERS: Record<BodyTemplateType, string> = {
+  enroll: 'publicKey',
+  validate: 'signature',
+};
+
+// Options that only change how curl prints or transfers the response
+const IGNORED_FLAGS = [
+  '-s',
+  '--silent',
+  '-S',
+  '--show-error',
+  '-v',
+  '--verbose',
+  '-i',
+  '--include',
+  '-L',
+  '--location',
+  '--compressed',
+  '-g',
+  '--globoff',
+];
+
+/**
+ * Parse a cURL command into the URL, method, headers and body template of an endpoint
+ * Every option that would change the request but has no equivalent is reported as an error.
+ */
+export function parseCurlCommand(command: string): CurlImportResult {
+  let words: string[];
+  try {
+    words = splitShellWords(command);
+  } catch (error) {
+    return { errors: [error instanceof Error ? error.message : String(error)] };
+  }
+
+  if (words[0] !== 'curl') {
+    return { errors: ['Command must start with curl'] };
+  }
+
+  const errors: string[] = [];
+  const urls: string[] = [];
+  const headers: Record<string, string> = {};
+  const data: string[] = [];
+  let method: string | undefined;
+  let isJson = false;
+  let auth: EndpointConfig['auth'];
+
+  const applyOption = (flag: string, option: CurlOption, value: string) => {
+    switch (option) {
+      case 'request':
+        method = value.toUpperCase();
+        break;
+      case 'header': {
+        const colonIndex = value.indexOf(':');
+        if (colonIndex <= 0) {
+          errors.push(`Header "${value}" must be in the form "Name: value"`);
+        } else if (value.substring(colonIndex + 1).trim()) {
+          headers[value.substring(0, colonIndex).trim()] = value.substring(colonIndex + 1).trim();
+        }
+        break;
+      }
+      case 'data':
+      case 'json':
+        if (value.startsWith('@')) {
+          errors.push(`Reading the request body from a file (${flag} ${value}) is not supported`);
+        } else {
+          data.push(value);
+        }
+        isJson = isJson || option === 'json';
+        break;
+      case 'dataRaw':
+        data.push(value);
+        break;
+      case 'url':
+        urls.push(value);
+        break;
+      case 'user': {
+        const colonIndex = value.indexOf(':');
+        auth =
+          colonIndex >= 0
+            ? { type: 'basic', username: value.substring(0, colonIndex), password: value.substring(colonIndex + 1) }
+            : { type: 'basic', username: value, password: '' };
+        break;
+      }
+      case 'userAgent':
+        headers['User-Agent'] = value;
+        break;
+      case 'cookie':
+        if (value.includes('=')) {
+          headers.Cookie = value;
+        } else {
+          errors.push(`Reading cookies from a file (${flag} ${value}) is not supported`);
+        }
+        break;
+    }
+  };
+
+  for (let index = 1; index < words.length; index++) {
+    const word = words[index];
+
+    if (!word.startsWith('-') || word === '-') {
+      urls.push(word);
+      continue;
+    }
+
+    const readValue = (flag: string, option: CurlOption, attached?: string) => {
+      const value = attached || words[++index];
+      if (value === undefined) {
+        errors.push(`Option ${flag} needs a value`);
+      } else {
+        applyOption(flag, option, value);
+      }
+    };
+
+    if (word.startsWith('--')) {
+      if (VALUE_OPTIONS[word]) {
+        readValue(word, VALUE_OPTIONS[word]);
+      } else if (!IGNORED_FLAGS.includes(word)) {
+        errors.push(`Option ${word} is not supported`);
+      }
+      continue;
+    }
+
+    // Short options may be grouped, e.g. -sSL, and carry their value, e.g. -XPOST
+    for (let position = 1; position < word.length; position++) {
+      const flag = `-${word[position]}`;
+      if (VALUE_OPTIONS[flag]) {
+        readValue(flag, VALUE_OPTIONS[flag], word.substring(position + 1));
+        break;
+      }
+      if (!IGNORED_FLAGS.includes(flag)) {
+        errors.push(`Option ${flag} is not supported`);
+      }
+    }
+  }
+
+  if (urls.length === 0) {
+    errors.push('Command has no URL');
+  } else if (urls.length > 1) {
+    errors.push(`Only one URL can be imported, found ${urls.length}`);
+  }
+
+  const body = data.length > 0 ? data.join('&') : undefined;
+  const resolvedMethod = method || (body !== undefined ? 'POST' : 'GET');
+  if (!isHttpMethod(resolvedMethod)) {
+    errors.push(`Method ${resolvedMethod} is not supported. Use one of: GET, POST, PUT, PATCH, DELETE`);
+  } else if (resolvedMethod === 'GET' && body !== undefined) {
+    errors.push('GET requests cannot have a body');
+  }
+
+  if (errors.length > 0 || !isHttpMethod(resolvedMethod)) {
+    return { errors };
+  }
+
+  if (isJson) {
+    // --json sets both headers unless the command sets them itself
+    ['Content-Type', 'Accept'].forEach(name => {
+      if (!Object.keys(headers).some(header => header.toLowerCase() === name.toLowerCase())) {
+        headers[name] = 'application/json';
+      }
+    });
+  }
+
+  // curl assumes http:// for URLs without a scheme
+  const url = /^[a-z][a-z0-9+.-]*:\/\//i.test(urls[0]) ? urls[0] : `http://${urls[0]}`;
+  // As in curl, an Authorization header replaces the credentials given with -u
+  const credentials = hasAuthorizationHeader(headers) ? undefined : auth;
+
+  return {
+    config: {
+      url,
+      method: resolvedMethod,
+      ...(Object.keys(headers).length > 0 ? { headers } : {}),
+      ...(body !== undefined ? { bodyTemplate: body } : {}),
+      ...(credentials ? { auth: credentials } : {}),
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Replace an endpoint's URL, method, headers and body template with those of a cURL command,
+ * keeping its other settings
+ * Body fields named after a request value get its placeholder, and the body has to carry the
+ * public key or signature. Credentials are replaced when the command has -u or an Authorization
+ * header, so they are never sent twice. The unenroll endpoint sends a fixed body, so a command
+ * with a body cannot be imported for it.
+ */
+export function importCurlCommand(
+  command: string,
+  type: 'enroll' | 'validate' | 'unenroll',
+  current: EndpointConfig
+): { config?: EndpointConfig; errors: string[] } {
+  const { config: imported, errors } = parseCurlCommand(command);
+  if (!imported) {
+    return { errors };
+  }
+
+  let bodyTemplate = imported.bodyTemplate;
+  if (bodyTemplate !== undefined) {
+    if (type === 'unenroll') {
+      return { errors: ['The unenroll endpoint does not use a body template; remove the request body'] };
+    }
+    const validation = validateBodyTemplate(bodyTemplate, type);
+    if (!validation.isValid) {
+      return { errors: validation.errors };
+    }
+
+    // The body is only reformatted when fields were given placeholders
+    const parsed = JSON.parse(bodyTemplate);
+    const filled = fillBodyPlaceholders(parsed, type);
+    if (JSON.stringify(filled) !== JSON.stringify(parsed)) {
+      bodyTemplate = JSON.stringify(filled, null, 2);
+    }
+    const required = REQUIRED_BODY_PLACEHOLDERS[type];
+    if (!new RegExp(`\\{\\{\\s*${required}\\s*\\}\\}`).test(bodyTemplate)) {
+      return {
+        errors: [
+          `Request body has no field for {{${required}}}; name a field "${required}" or put {{${required}}} where the value goes`,
+        ],
+      };
+    }
+  }
+
+  const { auth: currentAuth, ...settings } = current;
+  const auth =
+    imported.auth || (hasAuthorizationHeader(imported.headers || {}) ? undefined : currentAuth);
+
+  return {
+    config: {
+      ...settings,
+      url: imported.url,
+      method: imported.method,
+      headers: imported.headers,
+      bodyTemplate,
+      ...(auth ? { auth } : {}),
+    },
+    errors: [],
+  };
+}
+
+/**
+ * Replace the values of body fields named after a request value, such as "sig", with its
+ * placeholder; objects are filled in field by field, except for the enrollment policy
+ */
+function fillBodyPlaceholders(value: unknown, type: BodyTemplateType, name?: string): unknown {
+  const placeholder = name === undefined ? undefined : findBodyTemplatePlaceholder(name, type);
+  const isStructured = value !== null && typeof value === 'object';
+  const isTemplated = typeof value === 'string' && value.includes('{{');
+  if (placeholder && !isTemplated && (!isStructured || placeholder === 'enrollmentPolicy')) {
+    return `{{${placeholder}}}`;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => fillBodyPlaceholders(item, type));
+  }
+  if (isStructured) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+        key,
+        fillBodyPlaceholders(item, type, key),
+      ])
+    );
+  }
+  return value;
+}
+
+function hasAuthorizationHeader(headers: Record<string, string>): boolean {
+  return Object.keys(headers).some(name => name.toLowerCase() === 'authorization');
+}
+
+/**
+ * Split a POSIX shell command into words, handling quotes, $'...' strings, escapes and
+ * line continuations; variables are kept as written
+ * @throws Error if a quote is not closed
+ */
+export function splitShellWords(command: string): string[] {
+  const words: string[] = [];
+  let word = '';
+  let inWord = false;
+  let index = 0;
+
+  const readUntil = (quote: string, readEscape: () => string) => {
+    const start = index;
+    let text = '';
+    while (index < command.length && command[index] !== quote) {
+      text += command[index] === '\\' ? readEscape() : command[index++];
+    }
+    if (index >= command.length) {
+      throw new Error(`Unterminated ${quote} quote starting at position ${start}`);
+    }
+    index++;
+    return text;
+  };
+
+  while (index < command.length) {
+    const char = command[index];
+
+    if (/\s/.test(char)) {
+      if (inWord) {
+        words.push(word);
+        word = '';
+        inWord = false;
+      }
+      index++;
+    } else if (char === '\\') {
+      const next = command[index + 1];
+      // A backslash before a newline continues the command on the next line
+      if (next === '\n' || (next === '\r' && command[index + 2] === '\n')) {
+        index += next === '\r' ? 3 : 2;
+      } else {
+        word += next ?? '';
+        inWord = true;
+        index += 2;
+      }
+    } else if (char === "'") {
+      index++;
+      word += readUntil("'", () => command[index++]);
+      inWord = true;
+    } else if (char === '$' && command[index + 1] === "'") {
+      index += 2;
+      word += readUntil("'", () => readAnsiCEscape(command, index, length => (index += length)));
+      inWord = true;
+    } else if (char === '"') {
+      index++;
+      word += readUntil('"', () => {
+        const next = command[index + 1];
+        index += 2;
+        if (next === '\n') {
+          return '';
+        }
+        return '$`"\\'.includes(next) ? next : `\\${next}`;
+      });
+      inWord = true;
+    } else {
+      word += char;
+      inWord = true;
+      index++;
+    }
+  }
+
+  if (inWord) {
+    words.push(word);
+  }
+  return words;
+}
+
+const ANSI_C_ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  '0': '\0',
+  '\\': '\\',
+  "'": "'",
+  '"': '"',
+};
+
+// Escape inside $'...', as written by browser dev tools for bodies with quotes or newlines
+function readAnsiCEscape(command: string, index: number, advance: (length: number) => void): string {
+  const next = command[index + 1];
+  const hex = next === 'x' ? /^[0-9a-fA-F]{1,2}/ : next === 'u' ? /^[0-9a-fA-F]{1,4}/ : undefined;
+  const digits = hex ? command.substring(index + 2).match(hex)?.[0] : undefined;
+
+  if (digits) {
+    advance(2 + digits.length);
+    return String.fromCharCode(parseInt(digits, 16));
+  }
+  advance(2);
+  return ANSI_C_ESCAPES[next] ?? `\\${next}`;
+}
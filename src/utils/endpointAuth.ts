@@ -0,0 +1,185 @@
+/**
+ * Endpoint Authentication
+ * Checks, describes and masks the credentials configured for an endpoint. The
+ * credentials are applied to requests by BiometricAPIService; masking also covers the
+ * request signing secret.
+ */
+
+import { EndpointAuth, EndpointConfig, ValidationResult } from '../types';
+import { API_KEY_LOCATIONS, ENDPOINT_AUTH_TYPES, SECRET_MASK } from '../constants/biometrics';
+import { bytesToBase64, utf8Encode } from './cryptoUtils';
+import { fillVariablePlaceholders } from './capturedVariables';
+import { validateUrl } from './typeGuards';
+
+/** Fields of each scheme that hold secrets */
+const SECRET_FIELDS: Record<EndpointAuth['type'], string[]> = {
+  bearer: ['token'],
+  basic: ['password'],
+  apiKey: ['value'],
+  oauth2ClientCredentials: ['clientSecret'],
+};
+
+/**
+ * Check endpoint credentials
+ */
+export function validateEndpointAuth(auth: unknown): ValidationResult {
+  const error = getEndpointAuthError(auth);
+  return error ? { isValid: false, errors: [error] } : { isValid: true, errors: [] };
+}
+
+function getEndpointAuthError(auth: unknown): string | undefined {
+  if (auth === null || typeof auth !== 'object' || Array.isArray(auth)) {
+    return 'Auth must be an object';
+  }
+
+  const candidate = auth as Record<string, unknown>;
+  const isFilled = (field: string) =>
+    typeof candidate[field] === 'string' && (candidate[field] as string).trim().length > 0;
+
+  switch (candidate.type) {
+    case 'bearer':
+      return isFilled('token') ? undefined : 'Bearer token is required';
+    case 'basic':
+      if (!isFilled('username')) {
+        return 'Basic auth username is required';
+      }
+      if (typeof candidate.password !== 'string') {
+        return 'Basic auth password must be a string';
+      }
+      return (candidate.username as string).includes(':')
+        ? 'Basic auth username cannot contain ":"'
+        : undefined;
+    case 'apiKey':
+      if (!isFilled('name')) {
+        return 'API key name is required';
+      }
+      if (!isFilled('value')) {
+        return 'API key value is required';
+      }
+      return API_KEY_LOCATIONS.some(location => location.value === candidate.location)
+        ? undefined
+        : `API key location must be one of: ${API_KEY_LOCATIONS.map(location => location.value).join(', ')}`;
+    case 'oauth2ClientCredentials':
+      if (!isFilled('tokenUrl')) {
+        return 'OAuth2 token URL is required';
+      }
+      if (!validateUrl(fillVariablePlaceholders(candidate.tokenUrl as string))) {
+        return 'OAuth2 token URL must be a valid URL format';
+      }
+      if (!isFilled('clientId')) {
+        return 'OAuth2 client ID is required';
+      }
+      if (!isFilled('clientSecret')) {
+        return 'OAuth2 client secret is required';
+      }
+      if (
+        (candidate.scope !== undefined && typeof candidate.scope !== 'string') ||
+        (candidate.audience !== undefined && typeof candidate.audience !== 'string')
+      ) {
+        return 'OAuth2 scope and audience must be strings';
+      }
+      return undefined;
+    default:
+      return `Auth type must be one of: ${ENDPOINT_AUTH_TYPES.map(type => type.value).join(', ')}`;
+  }
+}
+
+/**
+ * Describe credentials without their secrets, e.g. "API key X-Api-Key in header"
+ */
+export function describeEndpointAuth(auth: EndpointAuth): string {
+  switch (auth.type) {
+    case 'bearer':
+      return 'Bearer token';
+    case 'basic':
+      return `Basic auth as ${auth.username}`;
+    case 'apiKey':
+      return `API key ${auth.name} in ${auth.location}`;
+    case 'oauth2ClientCredentials':
+      return `OAuth2 client credentials for ${auth.clientId}`;
+  }
+}
+
+/**
+ * Build the value of a Basic Authorization header
+ */
+export function encodeBasicCredentials(username: string, password: string): string {
+  return `Basic ${bytesToBase64(utf8Encode(`${username}:${password}`))}`;
+}
+
+/**
+ * Replace the secrets in credentials with SECRET_MASK; empty secrets stay empty
+ */
+export function maskEndpointAuth(auth: EndpointAuth): EndpointAuth {
+  const masked: Record<string, unknown> = { ...auth };
+  SECRET_FIELDS[auth.type].forEach(field => {
+    if (masked[field]) {
+      masked[field] = SECRET_MASK;
+    }
+  });
+  return masked as EndpointAuth;
+}
+
+/**
+ * Hide an API key sent in the query string from logged text such as a URL
+ */
+export function maskQueryApiKey(text: string, auth?: EndpointAuth): string {
+  if (auth?.type !== 'apiKey' || auth.location !== 'query' || !auth.value) {
+    return text;
+  }
+  return text.split(encodeURIComponent(auth.value)).join(SECRET_MASK);
+}
+
+/**
+ * Copy of an endpoint configuration whose credentials and signing secret are masked
+ */
+export function maskEndpointConfig(config: EndpointConfig): EndpointConfig {
+  if (!config.auth && !config.signing?.secret) {
+    return config;
+  }
+
+  return {
+    ...config,
+    ...(config.auth ? { auth: maskEndpointAuth(config.auth) } : {}),
+    ...(config.signing?.secret ? { signing: { ...config.signing, secret: SECRET_MASK } } : {}),
+  };
+}
+
+/**
+ * Put back secrets that arrive as SECRET_MASK, e.g. from an export, using the current
+ * credentials of the same scheme
+ */
+export function restoreMaskedSecrets(auth: EndpointAuth, current?: EndpointAuth): EndpointAuth {
+  if (!current || current.type !== auth.type) {
+    return auth;
+  }
+
+  const restored: Record<string, unknown> = { ...auth };
+  SECRET_FIELDS[auth.type].forEach(field => {
+    if (restored[field] === SECRET_MASK) {
+      restored[field] = (current as unknown as Record<string, unknown>)[field];
+    }
+  });
+  return restored as EndpointAuth;
+}
+
+/**
+ * Put back the credentials and signing secret of an endpoint configuration that arrive
+ * as SECRET_MASK, using the current configuration
+ */
+export function restoreEndpointConfigSecrets(
+  config: EndpointConfig,
+  current?: EndpointConfig
+): EndpointConfig {
+  const auth = config.auth ? restoreMaskedSecrets(config.auth, current?.auth) : undefined;
+  const signing =
+    config.signing?.secret === SECRET_MASK && current?.signing
+      ? { ...config.signing, secret: current.signing.secret }
+      : config.signing;
+
+  return {
+    ...config,
+    ...(auth ? { auth } : {}),
+    ...(signing ? { signing } : {}),
+  };
+}
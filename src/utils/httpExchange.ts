@@ -0,0 +1,242 @@
+/**
+ * HTTP Exchanges
+ * Masks, describes and exports the backend requests recorded by BiometricAPIService.
+ * The export follows the HAR 1.2 format read by browser dev tools and HTTP debuggers.
+ */
+
+import { EndpointAuth, HttpExchange } from '../types';
+import { SECRET_MASK } from '../constants/biometrics';
+import { utf8Encode } from './cryptoUtils';
+import { maskQueryApiKey } from './endpointAuth';
+
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    content: { size: number; mimeType: string; text?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { blocked: number; dns: number; connect: number; send: number; wait: number; receive: number };
+  comment?: string;
+}
+
+export interface HarLog {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+const HAR_CREATOR = { name: 'Biometric Playground', version: '0.0.1' };
+const AUTHORIZATION_HEADERS = ['authorization', 'proxy-authorization'];
+const TOKEN_FIELDS = ['access_token', 'refresh_token', 'id_token'];
+
+/**
+ * Copy of an exchange with the credentials it sent replaced by SECRET_MASK, and the tokens
+ * it received when it is the OAuth2 token request of the credentials
+ */
+export function maskHttpExchange(exchange: HttpExchange, auth?: EndpointAuth): HttpExchange {
+  const headers = Object.fromEntries(
+    Object.entries(exchange.request.headers).map(([name, value]) => {
+      const lowerName = name.toLowerCase();
+      if (AUTHORIZATION_HEADERS.includes(lowerName)) {
+        // Keep the scheme, e.g. "Bearer ********"
+        const scheme = value.includes(' ') ? `${value.split(' ')[0]} ` : '';
+        return [name, `${scheme}${SECRET_MASK}`];
+      }
+      if (auth?.type === 'apiKey' && auth.location === 'header' && lowerName === auth.name.toLowerCase()) {
+        return [name, SECRET_MASK];
+      }
+      return [name, value];
+    })
+  );
+
+  const isTokenRequest =
+    auth?.type === 'oauth2ClientCredentials' && exchange.request.url === auth.tokenUrl;
+
+  return {
+    ...exchange,
+    request: { ...exchange.request, url: maskQueryApiKey(exchange.request.url, auth), headers },
+    ...(isTokenRequest && exchange.response?.body !== undefined
+      ? { response: { ...exchange.response, body: maskTokenFields(exchange.response.body) } }
+      : {}),
+  };
+}
+
+function maskTokenFields(body: string): string {
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return body;
+    }
+    TOKEN_FIELDS.forEach(field => {
+      if (typeof parsed[field] === 'string') {
+        parsed[field] = SECRET_MASK;
+      }
+    });
+    return JSON.stringify(parsed);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * One-line summary, e.g. "POST https://api.example.com/enroll → 201 Created (84 ms)"
+ */
+export function describeHttpExchange(exchange: HttpExchange): string {
+  const outcome = exchange.response
+    ? `${exchange.response.status}${exchange.response.statusText ? ` ${exchange.response.statusText}` : ''}`
+    : exchange.error || 'no response';
+  return `${exchange.request.method} ${exchange.request.url} → ${outcome} (${exchange.timings.totalMs} ms)`;
+}
+
+/**
+ * Pull recorded exchanges out of log entry details, if they carry any
+ */
+export function getHttpExchanges(details: unknown): HttpExchange[] | undefined {
+  if (details === null || typeof details !== 'object') {
+    return undefined;
+  }
+  const { exchanges } = details as { exchanges?: unknown };
+  return Array.isArray(exchanges) &&
+    exchanges.length > 0 &&
+    exchanges.every(
+      exchange => exchange && typeof exchange === 'object' && 'request' in exchange && 'timings' in exchange
+    )
+    ? (exchanges as HttpExchange[])
+    : undefined;
+}
+
+/**
+ * Build a HAR 1.2 log; exchanges without a response get status 0 and the error as comment
+ */
+export function toHar(exchanges: HttpExchange[]): HarLog {
+  return {
+    log: {
+      version: '1.2',
+      creator: HAR_CREATOR,
+      entries: exchanges.map(toHarEntry),
+    },
+  };
+}
+
+function toHarEntry(exchange: HttpExchange): HarEntry {
+  const { request, response, timings } = exchange;
+  const dns = timings.dnsMs ?? -1;
+
+  return {
+    startedDateTime: exchange.startedDateTime,
+    time: timings.totalMs,
+    request: {
+      method: request.method,
+      url: request.url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toNameValues(request.headers),
+      queryString: parseQueryString(request.url),
+      ...(request.body !== undefined
+        ? { postData: { mimeType: findHeader(request.headers, 'content-type'), text: request.body } }
+        : {}),
+      headersSize: -1,
+      bodySize: request.body !== undefined ? byteLength(request.body) : 0,
+    },
+    response: response
+      ? {
+          status: response.status,
+          statusText: response.statusText,
+          httpVersion: 'HTTP/1.1',
+          cookies: [],
+          headers: toNameValues(response.headers),
+          content: {
+            size: response.body !== undefined ? byteLength(response.body) : 0,
+            mimeType: findHeader(response.headers, 'content-type'),
+            ...(response.body !== undefined ? { text: response.body } : {}),
+          },
+          redirectURL: findHeader(response.headers, 'location'),
+          headersSize: -1,
+          bodySize: response.body !== undefined ? byteLength(response.body) : -1,
+        }
+      : {
+          status: 0,
+          statusText: '',
+          httpVersion: '',
+          cookies: [],
+          headers: [],
+          content: { size: 0, mimeType: '' },
+          redirectURL: '',
+          headersSize: -1,
+          bodySize: -1,
+        },
+    cache: {},
+    // fetch only reports the whole duration, which is counted as waiting time
+    timings: {
+      blocked: -1,
+      dns,
+      connect: -1,
+      send: 0,
+      wait: Math.max(timings.totalMs - Math.max(dns, 0), 0),
+      receive: 0,
+    },
+    ...(exchange.error ? { comment: exchange.error } : {}),
+  };
+}
+
+function toNameValues(headers: Record<string, string>): HarNameValue[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+function findHeader(headers: Record<string, string>, name: string): string {
+  const match = Object.keys(headers).find(header => header.toLowerCase() === name);
+  return match ? headers[match] : '';
+}
+
+function parseQueryString(url: string): HarNameValue[] {
+  const query = url.split('#')[0].split('?').slice(1).join('?');
+  if (!query) {
+    return [];
+  }
+
+  const decode = (text: string) => {
+    try {
+      return decodeURIComponent(text.replace(/\+/g, ' '));
+    } catch {
+      return text;
+    }
+  };
+  return query
+    .split('&')
+    .filter(parameter => parameter.length > 0)
+    .map(parameter => {
+      const [name, ...value] = parameter.split('=');
+      return { name: decode(name), value: decode(value.join('=')) };
+    });
+}
+
+function byteLength(text: string): number {
+  return utf8Encode(text).length;
+}
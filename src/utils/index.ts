@@ -7,4 +7,37 @@ export * from './logUtils';
 export { useStatusLogger } from './useStatusLogger';
 export { errorHandler } from './ErrorHandler';
 export { networkResilience } from './NetworkResilience';
-export { webControlLogger } from './WebControlLogger';
\ No newline at end of file
+export { webControlLogger } from './WebControlLogger';
+export { verifySignature, describeSignatureVerification } from './signatureVerifier';
+export { exportPublicKey, toJwk, toOpenSsh, toPem } from './keyFormats';
+export { previewPayloadTemplate, renderPayloadTemplate } from './payloadTemplate';
+export { getJsonPathValue } from './jsonPath';
+export { evaluateAssertions, summarizeAssertions, validateAssertions } from './responseAssertions';
+export {
+  captureVariables,
+  substituteVariables,
+  summarizeVariableCapture,
+  validateCaptureRules,
+} from './capturedVariables';
+export {
+  describeEndpointAuth,
+  maskEndpointAuth,
+  maskEndpointConfig,
+  validateEndpointAuth,
+} from './endpointAuth';
+export { signRequest, validateRequestSigning } from './requestSigning';
+export { describeHttpExchange, maskHttpExchange, toHar } from './httpExchange';
+export {
+  getConfiguredRequest,
+  importCurlCommand,
+  parseCurlCommand,
+  toCurlCommand,
+} from './curlCommand';
+export { importOpenApiEndpoints, listOpenApiOperations, parseOpenApiDocument } from './openApiImport';
+export { formatTimingStats, summarizeTimings, validateBenchmarkOptions } from './benchmark';
+export {
+  BiometricOperationError,
+  createBiometricError,
+  getBiometricError,
+  mapBiometricError,
+} from './biometricErrors';
@@ -0,0 +1,55 @@
+/**
+ * JSON Path Utilities
+ * Minimal JSON path lookup for values in API responses, e.g. "$.data.items[0].nonce"
+ */
+
+export type JsonPathSegment = string | number;
+
+/**
+ * Split a JSON path into property names and array indexes
+ * Accepts an optional leading "$", dot notation and [index] / ["name"] brackets.
+ * @throws Error if the path is empty or malformed
+ */
+export function parseJsonPath(path: string): JsonPathSegment[] {
+  const trimmed = path.trim();
+  if (!trimmed || trimmed === '$') {
+    throw new Error('JSON path must name at least one property');
+  }
+
+  const segments: JsonPathSegment[] = [];
+  const pattern = /\.?([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[["']([^"']*)["']\]/y;
+  let position = trimmed.startsWith('$') ? 1 : 0;
+
+  while (position < trimmed.length) {
+    pattern.lastIndex = position;
+    const match = pattern.exec(trimmed);
+    if (!match) {
+      throw new Error(`Invalid JSON path "${path}" at position ${position}`);
+    }
+
+    if (match[1] !== undefined) {
+      segments.push(match[1]);
+    } else if (match[2] !== undefined) {
+      segments.push(Number(match[2]));
+    } else {
+      segments.push(match[3]);
+    }
+    position = pattern.lastIndex;
+  }
+
+  return segments;
+}
+
+/**
+ * Read the value at a JSON path
+ * @returns The value, or undefined if any segment along the path is missing
+ * @throws Error if the path is malformed
+ */
+export function getJsonPathValue(data: unknown, path: string): unknown {
+  return parseJsonPath(path).reduce<unknown>((value, segment) => {
+    if (value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    return (value as Record<string, unknown>)[segment];
+  }, data);
+}
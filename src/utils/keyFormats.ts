@@ -0,0 +1,175 @@
+/**
+ * Public Key Formats
+ * Converts base64 SubjectPublicKeyInfo public keys into the encodings backends expect
+ */
+
+/* eslint-disable no-bitwise */
+
+import { PublicKeyFormat, PublicKeyJwk } from '../types';
+import { OIDS, SubjectPublicKeyInfo, parseSubjectPublicKeyInfo } from './asn1';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  bytesToBase64Url,
+  bytesToHex,
+  concatBytes,
+  sha256,
+  utf8Encode,
+} from './cryptoUtils';
+
+const EC_CURVES: Record<string, { jwkName: string; sshName: string }> = {
+  [OIDS.PRIME256V1]: { jwkName: 'P-256', sshName: 'nistp256' },
+  [OIDS.SECP384R1]: { jwkName: 'P-384', sshName: 'nistp384' },
+  [OIDS.SECP521R1]: { jwkName: 'P-521', sshName: 'nistp521' },
+};
+
+/**
+ * Encode a public key as a SubjectPublicKeyInfo PEM block
+ */
+export function toPem(publicKeyBase64: string): string {
+  const body = bytesToBase64(base64ToBytes(publicKeyBase64));
+  const lines = body.match(/.{1,64}/g) || [];
+  return ['-----BEGIN PUBLIC KEY-----', ...lines, '-----END PUBLIC KEY-----'].join('\n');
+}
+
+/**
+ * Encode a public key's DER bytes as lowercase hex
+ */
+export function toDerHex(publicKeyBase64: string): string {
+  return bytesToHex(base64ToBytes(publicKeyBase64));
+}
+
+/**
+ * Compute the RFC 7638 JWK thumbprint (base64url SHA-256 of the required members)
+ */
+export function computeJwkThumbprint(jwk: Omit<PublicKeyJwk, 'kid'>): string {
+  // Required members only, in lexicographic order, without whitespace
+  const canonical =
+    jwk.kty === 'RSA'
+      ? JSON.stringify({ e: jwk.e, kty: jwk.kty, n: jwk.n })
+      : JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y });
+
+  return bytesToBase64Url(sha256(canonical));
+}
+
+/**
+ * Convert a public key into a JSON Web Key whose kid is its thumbprint
+ * @throws Error if the key is not an RSA or supported EC key
+ */
+export function toJwk(publicKeyBase64: string): PublicKeyJwk {
+  const info = parseSubjectPublicKeyInfo(base64ToBytes(publicKeyBase64));
+
+  let jwk: Omit<PublicKeyJwk, 'kid'>;
+  if (info.rsa) {
+    jwk = {
+      kty: 'RSA',
+      n: bytesToBase64Url(info.rsa.modulus),
+      e: bytesToBase64Url(info.rsa.publicExponent),
+    };
+  } else {
+    const { curve, x, y } = getEcPoint(info);
+    jwk = {
+      kty: 'EC',
+      crv: curve.jwkName,
+      x: bytesToBase64Url(x),
+      y: bytesToBase64Url(y),
+    };
+  }
+
+  return { ...jwk, kid: computeJwkThumbprint(jwk) };
+}
+
+/**
+ * Convert a public key into an OpenSSH authorized_keys line
+ * @throws Error if the key is not an RSA or supported EC key
+ */
+export function toOpenSsh(publicKeyBase64: string, comment?: string): string {
+  const info = parseSubjectPublicKeyInfo(base64ToBytes(publicKeyBase64));
+
+  let keyType: string;
+  let blob: Uint8Array;
+  if (info.rsa) {
+    keyType = 'ssh-rsa';
+    blob = concatBytes(
+      sshString(utf8Encode(keyType)),
+      sshMpint(info.rsa.publicExponent),
+      sshMpint(info.rsa.modulus)
+    );
+  } else {
+    const { curve } = getEcPoint(info);
+    keyType = `ecdsa-sha2-${curve.sshName}`;
+    blob = concatBytes(
+      sshString(utf8Encode(keyType)),
+      sshString(utf8Encode(curve.sshName)),
+      sshString(info.publicKey)
+    );
+  }
+
+  const line = `${keyType} ${bytesToBase64(blob)}`;
+  return comment ? `${line} ${comment}` : line;
+}
+
+/**
+ * Export a public key in the requested format
+ * @returns string for text formats, PublicKeyJwk object for 'jwk'
+ * @throws Error if the key cannot be represented in the requested format
+ */
+export function exportPublicKey(
+  publicKeyBase64: string,
+  format: PublicKeyFormat
+): string | PublicKeyJwk {
+  switch (format) {
+    case 'pem':
+      return toPem(publicKeyBase64);
+    case 'der-hex':
+      return toDerHex(publicKeyBase64);
+    case 'jwk':
+      return toJwk(publicKeyBase64);
+    case 'ssh':
+      return toOpenSsh(publicKeyBase64);
+    case 'base64':
+    default:
+      return publicKeyBase64;
+  }
+}
+
+/**
+ * Split an uncompressed EC point into its coordinates
+ */
+function getEcPoint(info: SubjectPublicKeyInfo) {
+  const curve = info.parametersOid ? EC_CURVES[info.parametersOid] : undefined;
+  if (info.algorithmOid !== OIDS.EC_PUBLIC_KEY || !curve) {
+    throw new Error(`Unsupported public key algorithm ${info.algorithmOid}`);
+  }
+
+  const point = info.publicKey;
+  if (point[0] !== 0x04 || point.length % 2 !== 1) {
+    throw new Error('Only uncompressed EC points are supported');
+  }
+
+  const coordinateLength = (point.length - 1) / 2;
+  return {
+    curve,
+    x: point.subarray(1, 1 + coordinateLength),
+    y: point.subarray(1 + coordinateLength),
+  };
+}
+
+/**
+ * Encode bytes as an SSH wire-format string (uint32 length prefix)
+ */
+function sshString(value: Uint8Array): Uint8Array {
+  const length = value.length;
+  return concatBytes(
+    new Uint8Array([(length >>> 24) & 0xff, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff]),
+    value
+  );
+}
+
+/**
+ * Encode an unsigned big-endian integer as an SSH mpint
+ */
+function sshMpint(value: Uint8Array): Uint8Array {
+  // A set high bit would read as negative, so prefix a zero byte
+  return sshString(value[0] & 0x80 ? concatBytes(new Uint8Array([0]), value) : value);
+}
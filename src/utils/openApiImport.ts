@@ -0,0 +1,496 @@
+/**
+ * OpenAPI Import
+ * Generates enroll, validate and challenge endpoint configurations from operations of an
+ * OpenAPI 3 document: URL, method, required headers, a body template built from the request
+ * schema and response assertions built from the response schema.
+ */
+
+import { ChallengeConfig, EndpointConfig, HttpMethod, ResponseAssertion } from '../types';
+import {
+  BODY_TEMPLATE_PLACEHOLDERS,
+  BodyTemplateType,
+  findBodyTemplatePlaceholder,
+  isChallengePropertyName,
+  validateBodyTemplate,
+} from './bodyTemplate';
+import { parseYaml } from './yaml';
+
+type OpenApiObject = Record<string, any>;
+
+export interface OpenApiDocument {
+  openapi: string;
+  paths: Record<string, OpenApiObject>;
+  servers?: OpenApiObject[];
+  components?: OpenApiObject;
+  [field: string]: unknown;
+}
+
+export interface OpenApiOperation {
+  /** "METHOD /path", used to pick the operation */
+  key: string;
+  method: HttpMethod;
+  path: string;
+  operationId?: string;
+  summary?: string;
+}
+
+/** Operation keys picked for each endpoint; the challenge is attached to the validate endpoint */
+export interface OpenApiSelection {
+  enroll?: string;
+  validate?: string;
+  challenge?: string;
+}
+
+export interface OpenApiImportResult {
+  configs: { enroll?: EndpointConfig; validate?: EndpointConfig };
+  errors: string[];
+}
+
+const OPERATION_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const MAX_SCHEMA_DEPTH = 8;
+
+/**
+ * Read an OpenAPI 3 document written as JSON or YAML
+ * @throws Error if the text cannot be parsed or is not an OpenAPI 3 document
+ */
+export function parseOpenApiDocument(text: string): OpenApiDocument {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error('OpenAPI document is empty');
+  }
+
+  let parsed: unknown;
+  if (trimmed.startsWith('{')) {
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch (error) {
+      throw new Error(`OpenAPI document is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  } else {
+    parsed = parseYaml(trimmed);
+  }
+
+  if (!isObject(parsed)) {
+    throw new Error('OpenAPI document must be an object');
+  }
+  if (parsed.swagger !== undefined) {
+    throw new Error('Swagger 2.0 documents are not supported; convert the document to OpenAPI 3 first');
+  }
+  if (!String(parsed.openapi ?? '').startsWith('3.')) {
+    throw new Error('Only OpenAPI 3 documents are supported; the "openapi" field is missing or not 3.x');
+  }
+  if (!isObject(parsed.paths)) {
+    throw new Error('OpenAPI document has no paths');
+  }
+
+  return { ...parsed, openapi: String(parsed.openapi), paths: parsed.paths };
+}
+
+/**
+ * List the operations of a document in path order
+ */
+export function listOpenApiOperations(document: OpenApiDocument): OpenApiOperation[] {
+  return Object.entries(document.paths).flatMap(([path, pathItem]) =>
+    isObject(pathItem)
+      ? OPERATION_METHODS.filter(method => isObject(pathItem[method.toLowerCase()])).map(method => {
+          const operation = pathItem[method.toLowerCase()];
+          return {
+            key: `${method} ${path}`,
+            method,
+            path,
+            ...(typeof operation.operationId === 'string' ? { operationId: operation.operationId } : {}),
+            ...(typeof operation.summary === 'string' ? { summary: operation.summary } : {}),
+          };
+        })
+      : []
+  );
+}
+
+/**
+ * Generate the enroll and validate endpoints for the picked operations
+ * Settings without an OpenAPI equivalent, such as credentials and retries, are kept from the
+ * current configurations. Relative server URLs are resolved against baseUrl, the address the
+ * document was loaded from.
+ */
+export function importOpenApiEndpoints(
+  document: OpenApiDocument,
+  selection: OpenApiSelection,
+  current: { enroll: EndpointConfig; validate: EndpointConfig },
+  baseUrl?: string
+): OpenApiImportResult {
+  const configs: OpenApiImportResult['configs'] = {};
+  const errors: string[] = [];
+  const operations = listOpenApiOperations(document);
+
+  const generate = <T>(key: string | undefined, build: (operation: OpenApiOperation) => T): T | undefined => {
+    if (!key) {
+      return undefined;
+    }
+    const operation = operations.find(item => item.key === key);
+    if (!operation) {
+      errors.push(`Operation "${key}" is not in the document`);
+      return undefined;
+    }
+    try {
+      return build(operation);
+    } catch (error) {
+      errors.push(`${key}: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  };
+
+  const request = (operation: OpenApiOperation) =>
+    buildRequest(document, operation, baseUrl);
+
+  configs.enroll = generate(selection.enroll, operation => ({
+    ...current.enroll,
+    ...request(operation),
+    ...buildBodyAndAssertions(document, operation, 'enroll'),
+  }));
+
+  const validate = generate(selection.validate, operation => ({
+    ...current.validate,
+    ...request(operation),
+    ...buildBodyAndAssertions(document, operation, 'validate'),
+  }));
+  const challenge = generate(selection.challenge, operation => buildChallenge(document, operation, baseUrl));
+  if (validate || challenge) {
+    configs.validate = { ...(validate || current.validate), ...(challenge ? { challenge } : {}) };
+  }
+
+  return errors.length > 0 ? { configs: {}, errors } : { configs, errors };
+}
+
+// URL with required query parameters, method and required headers of an operation
+function buildRequest(
+  document: OpenApiDocument,
+  operation: OpenApiOperation,
+  baseUrl?: string
+): Pick<EndpointConfig, 'url' | 'method' | 'headers'> {
+  const pathItem = document.paths[operation.path];
+  const definition = pathItem[operation.method.toLowerCase()];
+  const parameters = getParameters(document, pathItem, definition).filter(
+    parameter => parameter.required === true
+  );
+
+  const query = parameters
+    .filter(parameter => parameter.in === 'query')
+    .map(parameter => `${encodeURIComponent(parameter.name)}=${getParameterValue(parameter)}`);
+  const headers = Object.fromEntries(
+    parameters
+      .filter(parameter => parameter.in === 'header')
+      .map(parameter => [parameter.name, getParameterValue(parameter)])
+  );
+
+  // Path parameters become {{name}} placeholders, filled from captured variables
+  const path = operation.path.replace(/\{([^}]+)\}/g, (_match, name: string) => `{{${toVariableName(name)}}}`);
+  const url = `${resolveServerUrl(document, pathItem, definition, baseUrl)}${path}`;
+
+  return {
+    url: query.length > 0 ? `${url}?${query.join('&')}` : url,
+    method: operation.method,
+    headers: Object.keys(headers).length > 0 ? headers : undefined,
+  };
+}
+
+function buildBodyAndAssertions(
+  document: OpenApiDocument,
+  operation: OpenApiOperation,
+  type: BodyTemplateType
+): Pick<EndpointConfig, 'bodyTemplate' | 'assertions'> {
+  const definition = document.paths[operation.path][operation.method.toLowerCase()];
+  const requestBody = resolveRef(document, definition.requestBody);
+
+  let bodyTemplate: string | undefined;
+  if (isObject(requestBody) && isObject(requestBody.content)) {
+    const schema = getJsonSchema(document, requestBody.content);
+    if (schema === undefined) {
+      throw new Error('request body is not JSON, so no body template can be generated');
+    }
+    bodyTemplate = JSON.stringify(sampleSchema(document, schema, type, undefined, 0), null, 2);
+
+    const validation = validateBodyTemplate(bodyTemplate, type);
+    if (!validation.isValid) {
+      throw new Error(validation.errors.join(', '));
+    }
+  }
+
+  const assertions = buildAssertions(document, definition);
+  return { bodyTemplate, assertions: assertions.length > 0 ? assertions : undefined };
+}
+
+/**
+ * Status codes of the documented success responses, required response headers, and each
+ * required property of the first success response body
+ */
+function buildAssertions(document: OpenApiDocument, definition: OpenApiObject): ResponseAssertion[] {
+  const responses = isObject(definition.responses) ? definition.responses : {};
+  const successCodes = Object.keys(responses)
+    .filter(code => /^2\d\d$/.test(code))
+    .map(Number)
+    .sort((a, b) => a - b);
+  const successKey =
+    successCodes.length > 0
+      ? String(successCodes[0])
+      : Object.keys(responses).find(code => /^2XX$/i.test(code));
+  const response = successKey ? resolveRef(document, responses[successKey]) : undefined;
+
+  const assertions: ResponseAssertion[] = successCodes.length > 0 ? [{ type: 'status', statusCodes: successCodes }] : [];
+  if (!isObject(response)) {
+    return assertions;
+  }
+
+  if (isObject(response.headers)) {
+    Object.entries(response.headers).forEach(([header, value]) => {
+      if (resolveRef(document, value)?.required === true) {
+        assertions.push({ type: 'headerPresent', header });
+      }
+    });
+  }
+
+  const schema = isObject(response.content) ? getJsonSchema(document, response.content) : undefined;
+  const object = schema === undefined ? undefined : flattenObjectSchema(document, schema, 0);
+  (object?.required || []).forEach(name => {
+    const property = resolveRef(document, object?.properties[name]) || {};
+    const path = /^[A-Za-z_$][\w$-]*$/.test(name) ? `$.${name}` : `$["${name}"]`;
+    const fixedValue = property.const !== undefined ? property.const : Array.isArray(property.enum) && property.enum.length === 1 ? property.enum[0] : undefined;
+
+    if (fixedValue !== undefined) {
+      assertions.push({ type: 'jsonPathEquals', path, value: fixedValue });
+    } else if (typeof property.pattern === 'string') {
+      assertions.push({ type: 'jsonPathMatches', path, pattern: property.pattern });
+    } else {
+      assertions.push({ type: 'jsonPathExists', path });
+    }
+  });
+
+  return assertions;
+}
+
+function buildChallenge(document: OpenApiDocument, operation: OpenApiOperation, baseUrl?: string): ChallengeConfig {
+  const { url, method, headers } = buildRequest(document, operation, baseUrl);
+  const definition = document.paths[operation.path][operation.method.toLowerCase()];
+  const responses = isObject(definition.responses) ? definition.responses : {};
+  const successKey = Object.keys(responses).find(code => /^2(\d\d|XX)$/i.test(code));
+  const response = successKey ? resolveRef(document, responses[successKey]) : undefined;
+  const schema = isObject(response) && isObject(response.content) ? getJsonSchema(document, response.content) : undefined;
+
+  const challengePath = schema === undefined ? undefined : findChallengePath(document, schema, [], 0);
+  if (!challengePath) {
+    throw new Error('no "challenge" or "nonce" property found in the JSON response schema');
+  }
+
+  return { url, method, ...(headers ? { headers } : {}), challengePath };
+}
+
+function findChallengePath(document: OpenApiDocument, schema: unknown, path: string[], depth: number): string | undefined {
+  const object = flattenObjectSchema(document, schema, depth);
+  if (!object || depth > MAX_SCHEMA_DEPTH) {
+    return undefined;
+  }
+
+  const names = Object.keys(object.properties);
+  const direct = names.find(isChallengePropertyName);
+  if (direct) {
+    return [...path, direct].join('.');
+  }
+  for (const name of names) {
+    const nested = findChallengePath(document, object.properties[name], [...path, name], depth + 1);
+    if (nested) {
+      return nested;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Example value for a schema; properties named after a request value get its placeholder,
+ * other strings a {{name}} captured variable placeholder
+ */
+function sampleSchema(
+  document: OpenApiDocument,
+  rawSchema: unknown,
+  type: BodyTemplateType,
+  name: string | undefined,
+  depth: number
+): unknown {
+  const schema = resolveRef(document, rawSchema);
+  const placeholder = name === undefined ? undefined : findBodyTemplatePlaceholder(name, type);
+  // Only the enrollment policy is an object; other structured properties are filled in field by field
+  const isStructured =
+    isObject(schema) && (schema.type === 'object' || schema.type === 'array' || 'properties' in schema || 'allOf' in schema);
+  if (placeholder && (!isStructured || placeholder === 'enrollmentPolicy')) {
+    return `{{${placeholder}}}`;
+  }
+  if (!isObject(schema) || depth > MAX_SCHEMA_DEPTH) {
+    return null;
+  }
+
+  for (const field of ['example', 'const', 'default']) {
+    if (schema[field] !== undefined) {
+      return schema[field];
+    }
+  }
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum[0];
+  }
+  if (Array.isArray(schema.oneOf) || Array.isArray(schema.anyOf)) {
+    return sampleSchema(document, (schema.oneOf || schema.anyOf)[0], type, name, depth + 1);
+  }
+
+  const object = flattenObjectSchema(document, schema, depth);
+  if (object) {
+    const names = object.required.length > 0 ? object.required : Object.keys(object.properties);
+    return Object.fromEntries(
+      names.map(property => [property, sampleSchema(document, object.properties[property], type, property, depth + 1)])
+    );
+  }
+
+  switch (schema.type) {
+    case 'array':
+      return [sampleSchema(document, schema.items, type, undefined, depth + 1)];
+    case 'integer':
+    case 'number':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'string':
+      if (schema.format === 'date-time' && BODY_TEMPLATE_PLACEHOLDERS[type].some(item => item.name === 'timestamp')) {
+        return '{{timestamp}}';
+      }
+      return name && !isReservedPlaceholder(toVariableName(name), type) ? `{{${toVariableName(name)}}}` : '';
+    default:
+      return null;
+  }
+}
+
+// Properties and required names of an object schema, with allOf parts merged
+function flattenObjectSchema(
+  document: OpenApiDocument,
+  rawSchema: unknown,
+  depth: number
+): { properties: Record<string, unknown>; required: string[] } | undefined {
+  const schema = resolveRef(document, rawSchema);
+  if (!isObject(schema) || depth > MAX_SCHEMA_DEPTH) {
+    return undefined;
+  }
+
+  const parts = Array.isArray(schema.allOf)
+    ? schema.allOf.map((part: unknown) => flattenObjectSchema(document, part, depth + 1))
+    : [];
+  const own = isObject(schema.properties)
+    ? {
+        properties: schema.properties as Record<string, unknown>,
+        required: Array.isArray(schema.required) ? schema.required.filter((item: unknown) => typeof item === 'string') : [],
+      }
+    : undefined;
+
+  const merged = [...parts, own].filter(
+    (part): part is { properties: Record<string, unknown>; required: string[] } => part !== undefined
+  );
+  if (merged.length === 0) {
+    return undefined;
+  }
+  return {
+    properties: Object.assign({}, ...merged.map(part => part.properties)),
+    required: Array.from(new Set(merged.flatMap(part => part.required))),
+  };
+}
+
+// Names of the other request type's values would be rejected by the body template check
+function isReservedPlaceholder(name: string, type: BodyTemplateType): boolean {
+  return Object.values(BODY_TEMPLATE_PLACEHOLDERS)
+    .flat()
+    .some(placeholder => placeholder.name === name) &&
+    !BODY_TEMPLATE_PLACEHOLDERS[type].some(placeholder => placeholder.name === name);
+}
+
+function getParameters(document: OpenApiDocument, pathItem: OpenApiObject, definition: OpenApiObject): OpenApiObject[] {
+  const read = (list: unknown) =>
+    (Array.isArray(list) ? list : [])
+      .map(parameter => resolveRef(document, parameter))
+      .filter((parameter): parameter is OpenApiObject => isObject(parameter) && typeof parameter.name === 'string');
+
+  // Operation parameters override path parameters with the same name and location
+  const operationParameters = read(definition.parameters);
+  return [
+    ...read(pathItem.parameters).filter(
+      parameter => !operationParameters.some(item => item.name === parameter.name && item.in === parameter.in)
+    ),
+    ...operationParameters,
+  ];
+}
+
+function getParameterValue(parameter: OpenApiObject): string {
+  const schema = isObject(parameter.schema) ? parameter.schema : {};
+  const example = [parameter.example, schema.example, schema.default, Array.isArray(schema.enum) ? schema.enum[0] : undefined].find(
+    value => value !== undefined && value !== null && typeof value !== 'object'
+  );
+  return example !== undefined ? String(example) : `{{${toVariableName(parameter.name)}}}`;
+}
+
+function resolveServerUrl(
+  document: OpenApiDocument,
+  pathItem: OpenApiObject,
+  definition: OpenApiObject,
+  baseUrl?: string
+): string {
+  const servers = [definition.servers, pathItem.servers, document.servers].find(
+    list => Array.isArray(list) && list.length > 0
+  );
+  const server = servers ? servers[0] : { url: '/' };
+  const variables = isObject(server.variables) ? server.variables : {};
+  const url = String(server.url || '/')
+    .replace(/\{([^}]+)\}/g, (match, name: string) =>
+      isObject(variables[name]) && variables[name].default !== undefined ? String(variables[name].default) : match
+    )
+    .replace(/\/+$/, '');
+
+  if (/^https?:\/\//i.test(url)) {
+    return url;
+  }
+  if (!baseUrl) {
+    throw new Error(`server URL "${server.url}" is relative; load the document from its URL or add an absolute server URL`);
+  }
+
+  const origin = baseUrl.match(/^https?:\/\/[^/?#]+/i)?.[0];
+  if (!origin) {
+    throw new Error(`cannot resolve server URL "${server.url}" against ${baseUrl}`);
+  }
+  if (url.startsWith('/') || !url) {
+    return `${origin}${url}`;
+  }
+  const directory = baseUrl.split(/[?#]/)[0].replace(/\/[^/]*$/, '');
+  return `${directory.length >= origin.length ? directory : origin}/${url.replace(/^\.\//, '')}`;
+}
+
+function getJsonSchema(document: OpenApiDocument, content: OpenApiObject): unknown {
+  const mediaType = Object.keys(content).find(type => /^application\/([\w.-]+\+)?json\b/i.test(type));
+  return mediaType ? resolveRef(document, content[mediaType])?.schema ?? {} : undefined;
+}
+
+// Follow a local "#/components/..." reference; other references resolve to undefined
+function resolveRef(document: OpenApiDocument, value: unknown, depth = 0): any {
+  if (!isObject(value) || typeof value.$ref !== 'string') {
+    return value;
+  }
+  if (!value.$ref.startsWith('#/') || depth > MAX_SCHEMA_DEPTH) {
+    return undefined;
+  }
+
+  const target = value.$ref
+    .substring(2)
+    .split('/')
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>((node, segment) => (isObject(node) ? node[segment] : undefined), document);
+  return resolveRef(document, target, depth + 1);
+}
+
+function toVariableName(name: string): string {
+  const variable = name.replace(/[^A-Za-z0-9_]/g, '_');
+  return /^[A-Za-z_]/.test(variable) ? variable : `_${variable}`;
+}
+
+function isObject(value: unknown): value is OpenApiObject {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,261 @@
+/**
+ * P-256 Elliptic Curve
+ * Pure TypeScript NIST P-256 arithmetic, key generation and ECDSA signing with SHA-256.
+ * Used by the signature verifier and the simulated biometric provider.
+ */
+
+/* eslint-disable no-bitwise */
+
+import {
+  bigIntToBytes,
+  bytesToBase64,
+  bytesToBigInt,
+  bytesToHex,
+  concatBytes,
+  hexToBytes,
+  hmacSha256,
+  sha256,
+} from './cryptoUtils';
+
+export interface Point {
+  x: bigint;
+  y: bigint;
+}
+
+export interface P256KeyPair {
+  /** Private scalar as 64 lowercase hex characters */
+  privateKey: string;
+  /** Base64 SubjectPublicKeyInfo public key */
+  publicKey: string;
+}
+
+export const ZERO = BigInt(0);
+export const ONE = BigInt(1);
+const TWO = BigInt(2);
+const THREE = BigInt(3);
+const FOUR = BigInt(4);
+
+// NIST P-256 domain parameters (FIPS 186-4, D.1.2.3)
+export const P256 = {
+  p: BigInt('0xffffffff00000001000000000000000000000000ffffffffffffffffffffffff'),
+  a: BigInt('0xffffffff00000001000000000000000000000000fffffffffffffffffffffffc'),
+  b: BigInt('0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604b'),
+  n: BigInt('0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551'),
+  g: {
+    x: BigInt('0x6b17d1f2e12c4247f8bce6e563a440f277037d812deb33a0f4a13945d898c296'),
+    y: BigInt('0x4fe342e2fe1a7f9b8ee7eb4a7c0f9e162bce33576b315ececbb6406837bf51f5'),
+  },
+};
+
+// SubjectPublicKeyInfo header for an uncompressed P-256 point (id-ecPublicKey, prime256v1)
+const P256_SPKI_PREFIX = hexToBytes('3059301306072a8648ce3d020106082a8648ce3d030107034200');
+
+/**
+ * Create a P-256 key pair from 32 bytes of randomness
+ */
+export function generateP256KeyPair(randomBytes: (length: number) => Uint8Array): P256KeyPair {
+  const { n, g } = P256;
+
+  // Reduce into [1, n - 1]; the bias from a 256-bit source is negligible
+  const d = (bytesToBigInt(randomBytes(32)) % (n - ONE)) + ONE;
+  const q = scalarMultiply(g, d);
+  if (!q) {
+    throw new Error('Generated an invalid P-256 key pair');
+  }
+
+  return {
+    privateKey: bytesToHex(bigIntToBytes(d, 32)),
+    publicKey: bytesToBase64(concatBytes(P256_SPKI_PREFIX, encodeP256Point(q))),
+  };
+}
+
+/**
+ * Derive the base64 SubjectPublicKeyInfo public key for a private key
+ */
+export function getP256PublicKey(privateKeyHex: string): string {
+  const q = scalarMultiply(P256.g, parsePrivateKey(privateKeyHex));
+  if (!q) {
+    throw new Error('Invalid P-256 private key');
+  }
+  return bytesToBase64(concatBytes(P256_SPKI_PREFIX, encodeP256Point(q)));
+}
+
+/**
+ * Sign a message with ECDSA P-256 and SHA-256 using a deterministic nonce (RFC 6979)
+ * @returns Base64 DER-encoded ECDSA-Sig-Value, as produced by the Android and iOS keystores
+ */
+export function signP256Sha256(privateKeyHex: string, message: Uint8Array | string): string {
+  const { n, g } = P256;
+  const d = parsePrivateKey(privateKeyHex);
+  const digest = sha256(message);
+  const e = bytesToBigInt(digest) % n;
+
+  for (const k of rfc6979Nonces(d, e)) {
+    const point = scalarMultiply(g, k);
+    const r = point ? point.x % n : ZERO;
+    const s = (modInverse(k, n) * (e + r * d)) % n;
+    if (r !== ZERO && s !== ZERO) {
+      return bytesToBase64(encodeEcdsaSignature(r, s));
+    }
+  }
+
+  throw new Error('Could not produce a P-256 signature');
+}
+
+export function decodeP256Point(bytes: Uint8Array): Point {
+  const { p, a, b } = P256;
+
+  if (bytes.length === 65 && bytes[0] === 0x04) {
+    const point = {
+      x: bytesToBigInt(bytes.subarray(1, 33)),
+      y: bytesToBigInt(bytes.subarray(33)),
+    };
+    if (mod(point.y * point.y - (point.x * point.x * point.x + a * point.x + b), p) !== ZERO) {
+      throw new Error('Public key point is not on the P-256 curve');
+    }
+    return point;
+  }
+
+  if (bytes.length === 33 && (bytes[0] === 0x02 || bytes[0] === 0x03)) {
+    const x = bytesToBigInt(bytes.subarray(1));
+    const ySquared = mod(x * x * x + a * x + b, p);
+    // p ≡ 3 (mod 4), so the square root is ySquared^((p + 1) / 4)
+    let y = modPow(ySquared, (p + ONE) / FOUR, p);
+    if (mod(y * y, p) !== ySquared) {
+      throw new Error('Public key point is not on the P-256 curve');
+    }
+    if ((y & ONE) !== BigInt(bytes[0] & 1)) {
+      y = p - y;
+    }
+    return { x, y };
+  }
+
+  throw new Error('Unsupported EC public key point encoding');
+}
+
+export function pointAdd(left: Point | null, right: Point | null): Point | null {
+  if (!left) return right;
+  if (!right) return left;
+
+  const { p, a } = P256;
+  let slope: bigint;
+
+  if (left.x === right.x) {
+    if (mod(left.y + right.y, p) === ZERO) {
+      return null;
+    }
+    slope = mod((THREE * left.x * left.x + a) * modInverse(TWO * left.y, p), p);
+  } else {
+    slope = mod((right.y - left.y) * modInverse(right.x - left.x, p), p);
+  }
+
+  const x = mod(slope * slope - left.x - right.x, p);
+  return { x, y: mod(slope * (left.x - x) - left.y, p) };
+}
+
+export function scalarMultiply(point: Point, scalar: bigint): Point | null {
+  let result: Point | null = null;
+  let addend: Point | null = point;
+  let k = scalar;
+
+  while (k > ZERO) {
+    if (k & ONE) {
+      result = pointAdd(result, addend);
+    }
+    addend = pointAdd(addend, addend);
+    k >>= ONE;
+  }
+
+  return result;
+}
+
+export function mod(value: bigint, modulus: bigint): bigint {
+  const result = value % modulus;
+  return result < ZERO ? result + modulus : result;
+}
+
+export function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = ONE;
+  let b = mod(base, modulus);
+  let e = exponent;
+
+  while (e > ZERO) {
+    if (e & ONE) {
+      result = (result * b) % modulus;
+    }
+    b = (b * b) % modulus;
+    e >>= ONE;
+  }
+
+  return result;
+}
+
+export function modInverse(value: bigint, modulus: bigint): bigint {
+  let [oldR, r] = [mod(value, modulus), modulus];
+  let [oldS, s] = [ONE, ZERO];
+
+  while (r !== ZERO) {
+    const quotient = oldR / r;
+    [oldR, r] = [r, oldR - quotient * r];
+    [oldS, s] = [s, oldS - quotient * s];
+  }
+
+  return mod(oldS, modulus);
+}
+
+function parsePrivateKey(privateKeyHex: string): bigint {
+  const d = /^[0-9a-f]{64}$/i.test(privateKeyHex) ? BigInt(`0x${privateKeyHex}`) : ZERO;
+  if (d < ONE || d >= P256.n) {
+    throw new Error('Invalid P-256 private key');
+  }
+  return d;
+}
+
+function encodeP256Point(point: Point): Uint8Array {
+  return concatBytes(new Uint8Array([0x04]), bigIntToBytes(point.x, 32), bigIntToBytes(point.y, 32));
+}
+
+/**
+ * Candidate nonces for a private key and message digest (RFC 6979, section 3.2)
+ */
+function* rfc6979Nonces(d: bigint, e: bigint): Generator<bigint> {
+  const { n } = P256;
+  const x = bigIntToBytes(d, 32);
+  const h1 = bigIntToBytes(e, 32);
+  let v: Uint8Array = new Uint8Array(32).fill(0x01);
+  let k: Uint8Array = new Uint8Array(32);
+
+  k = hmacSha256(k, concatBytes(v, new Uint8Array([0x00]), x, h1));
+  v = hmacSha256(k, v);
+  k = hmacSha256(k, concatBytes(v, new Uint8Array([0x01]), x, h1));
+  v = hmacSha256(k, v);
+
+  while (true) {
+    v = hmacSha256(k, v);
+    const candidate = bytesToBigInt(v);
+    if (candidate >= ONE && candidate < n) {
+      yield candidate;
+    }
+    k = hmacSha256(k, concatBytes(v, new Uint8Array([0x00])));
+    v = hmacSha256(k, v);
+  }
+}
+
+function encodeEcdsaSignature(r: bigint, s: bigint): Uint8Array {
+  const integer = (value: bigint) => {
+    let bytes = bigIntToBytes(value, 32);
+    // Strip leading zeros, then keep the integer positive
+    let start = 0;
+    while (start < bytes.length - 1 && bytes[start] === 0) {
+      start++;
+    }
+    bytes = bytes.subarray(start);
+    if (bytes[0] & 0x80) {
+      bytes = concatBytes(new Uint8Array([0x00]), bytes);
+    }
+    return concatBytes(new Uint8Array([0x02, bytes.length]), bytes);
+  };
+
+  const body = concatBytes(integer(r), integer(s));
+  return concatBytes(new Uint8Array([0x30, body.length]), body);
+}
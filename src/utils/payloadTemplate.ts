@@ -0,0 +1,292 @@
+/**
+ * Payload Template Engine
+ * Renders custom signature payloads from templates such as "login:{keyAlias}:{nonce:16}:{epoch}"
+ */
+
+import { bytesToBase64, bytesToHex, randomBytes, sha256, utf8Encode } from './cryptoUtils';
+
+export interface PayloadTemplateContext {
+  keyAlias?: string;
+  publicKeyFingerprint?: string;
+  /** User-defined variables, referenced as {name} */
+  variables?: Record<string, string>;
+  /** Variables captured from backend responses, referenced as {{name}} */
+  capturedVariables?: Record<string, string>;
+  /** Clock override, mainly for previews and tests */
+  now?: Date;
+  /** Random source override, mainly for tests */
+  randomBytes?: (length: number) => Uint8Array;
+}
+
+export interface PayloadTemplatePreview {
+  payload: string | null;
+  error: string | null;
+}
+
+export interface PayloadTemplatePlaceholder {
+  syntax: string;
+  description: string;
+}
+
+export const PAYLOAD_TEMPLATE_PLACEHOLDERS: PayloadTemplatePlaceholder[] = [
+  { syntax: '{date}', description: 'Current time as an ISO 8601 string' },
+  { syntax: '{epoch}', description: 'Current Unix time in seconds' },
+  { syntax: '{epochMs}', description: 'Current Unix time in milliseconds' },
+  { syntax: '{uuid}', description: 'Random version 4 UUID' },
+  { syntax: '{nonce:N}', description: 'N random bytes as hex (default 16)' },
+  { syntax: '{base64:text}', description: 'Base64 of the rendered text' },
+  { syntax: '{sha256:text}', description: 'SHA-256 hex digest of the rendered text' },
+  { syntax: '{publicKeyFingerprint}', description: 'SHA-256 fingerprint of the enrolled public key' },
+  { syntax: '{keyAlias}', description: 'Key slot used for signing' },
+  { syntax: '{name}', description: 'User-defined variable' },
+  { syntax: '{{name}}', description: 'Variable captured from a backend response' },
+];
+
+const PLACEHOLDER_NAME = /[A-Za-z_][A-Za-z0-9_]*/y;
+const MAX_NONCE_BYTES = 1024;
+const BUILT_IN_PLACEHOLDERS = new Set([
+  'date',
+  'epoch',
+  'epochMs',
+  'uuid',
+  'nonce',
+  'base64',
+  'sha256',
+  'keyAlias',
+  'publicKeyFingerprint',
+]);
+
+/**
+ * Render a payload template
+ * Text that does not look like a placeholder (e.g. JSON braces) is left untouched.
+ * @throws Error describing the first unknown placeholder or invalid argument
+ */
+export function renderPayloadTemplate(
+  template: string,
+  context: PayloadTemplateContext = {}
+): string {
+  const renderer = new TemplateRenderer(template, {
+    ...context,
+    now: context.now || new Date(),
+  });
+  return renderer.render();
+}
+
+/**
+ * Render a payload template for display, reporting errors instead of throwing
+ */
+export function previewPayloadTemplate(
+  template: string,
+  context: PayloadTemplateContext = {}
+): PayloadTemplatePreview {
+  try {
+    return { payload: renderPayloadTemplate(template, context), error: null };
+  } catch (error) {
+    return { payload: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Parse "name=value" lines into template variables, ignoring blank lines
+ */
+export function parseTemplateVariables(text: string): Record<string, string> {
+  return text.split('\n').reduce((variables, line) => {
+    const separator = line.indexOf('=');
+    if (separator > 0) {
+      const name = line.substring(0, separator).trim();
+      if (name) {
+        variables[name] = line.substring(separator + 1).trim();
+      }
+    }
+    return variables;
+  }, {} as Record<string, string>);
+}
+
+/**
+ * Format template variables as "name=value" lines
+ */
+export function formatTemplateVariables(variables?: Record<string, string>): string {
+  return Object.entries(variables || {})
+    .map(([name, value]) => `${name}=${value}`)
+    .join('\n');
+}
+
+/**
+ * Recursive descent renderer; a placeholder argument may itself contain placeholders
+ */
+class TemplateRenderer {
+  private position = 0;
+
+  constructor(
+    private readonly template: string,
+    private readonly context: PayloadTemplateContext & { now: Date }
+  ) {}
+
+  render(): string {
+    return this.renderUntil(false);
+  }
+
+  /**
+   * Render text until the end of the template, or until the closing brace of an argument
+   */
+  private renderUntil(insideArgument: boolean): string {
+    let output = '';
+
+    while (this.position < this.template.length) {
+      const char = this.template[this.position];
+
+      if (insideArgument && char === '}') {
+        return output;
+      }
+
+      if (char === '{') {
+        const captured = this.matchCapturedVariable();
+        if (captured !== null) {
+          output += captured;
+          continue;
+        }
+
+        const name = this.matchName(this.position + 1);
+        if (name) {
+          output += this.renderPlaceholder(name);
+          continue;
+        }
+      }
+
+      output += char;
+      this.position++;
+    }
+
+    if (insideArgument) {
+      throw new Error('Unterminated placeholder argument: missing "}"');
+    }
+    return output;
+  }
+
+  private renderPlaceholder(name: string): string {
+    const start = this.position;
+    this.position += 1 + name.length;
+
+    let argument: string | undefined;
+    if (this.template[this.position] === ':') {
+      this.position++;
+      argument = this.renderUntil(true);
+    } else if (this.template[this.position] !== '}') {
+      // "{name" followed by something else is literal text, e.g. "{abc def}"
+      this.position = start + 1;
+      return '{';
+    }
+    this.position++; // closing brace
+
+    return this.resolve(name, argument, start);
+  }
+
+  private resolve(name: string, argument: string | undefined, start: number): string {
+    const { context } = this;
+    const expectNoArgument = () => {
+      if (argument !== undefined) {
+        throw new Error(`Placeholder {${name}} at position ${start} does not take an argument`);
+      }
+    };
+
+    switch (name) {
+      case 'date':
+        expectNoArgument();
+        return context.now.toISOString();
+      case 'epoch':
+        expectNoArgument();
+        return String(Math.floor(context.now.getTime() / 1000));
+      case 'epochMs':
+        expectNoArgument();
+        return String(context.now.getTime());
+      case 'uuid':
+        expectNoArgument();
+        return this.uuid();
+      case 'nonce': {
+        const length = argument === undefined ? 16 : Number(argument);
+        if (!Number.isInteger(length) || length < 1 || length > MAX_NONCE_BYTES) {
+          throw new Error(
+            `Placeholder {nonce:${argument}} at position ${start} needs a byte count between 1 and ${MAX_NONCE_BYTES}`
+          );
+        }
+        return bytesToHex(this.randomBytes(length));
+      }
+      case 'base64':
+        return bytesToBase64(utf8Encode(argument || ''));
+      case 'sha256':
+        return bytesToHex(sha256(argument || ''));
+      case 'keyAlias':
+        expectNoArgument();
+        if (!context.keyAlias) {
+          throw new Error(`Placeholder {keyAlias} at position ${start} has no key slot to refer to`);
+        }
+        return context.keyAlias;
+      case 'publicKeyFingerprint':
+        expectNoArgument();
+        if (!context.publicKeyFingerprint) {
+          throw new Error(
+            `Placeholder {publicKeyFingerprint} at position ${start} needs an enrolled public key`
+          );
+        }
+        return context.publicKeyFingerprint;
+    }
+
+    const variables = context.variables || {};
+    if (Object.prototype.hasOwnProperty.call(variables, name)) {
+      expectNoArgument();
+      return variables[name];
+    }
+
+    throw new Error(`Unknown placeholder {${name}} at position ${start}`);
+  }
+
+  /**
+   * Substitute "{{name}}" when name is a captured variable; built-in and user-defined names
+   * are left to the single-brace rules, so "{{nonce}}" still renders a nonce inside literal braces
+   * @throws Error if name is neither captured nor a single-brace placeholder
+   */
+  private matchCapturedVariable(): string | null {
+    if (this.template[this.position + 1] !== '{') {
+      return null;
+    }
+
+    const name = this.matchName(this.position + 2);
+    const end = this.position + 2 + (name ? name.length : 0);
+    if (!name || this.template.substring(end, end + 2) !== '}}') {
+      return null;
+    }
+
+    const captured = this.context.capturedVariables || {};
+    if (!Object.prototype.hasOwnProperty.call(captured, name)) {
+      if (
+        BUILT_IN_PLACEHOLDERS.has(name) ||
+        Object.prototype.hasOwnProperty.call(this.context.variables || {}, name)
+      ) {
+        return null;
+      }
+      throw new Error(`Captured variable "${name}" at position ${this.position} is not set`);
+    }
+
+    this.position = end + 2;
+    return captured[name];
+  }
+
+  private matchName(index: number): string | null {
+    PLACEHOLDER_NAME.lastIndex = index;
+    const match = PLACEHOLDER_NAME.exec(this.template);
+    return match ? match[0] : null;
+  }
+
+  private randomBytes(length: number): Uint8Array {
+    return (this.context.randomBytes || randomBytes)(length);
+  }
+
+  private uuid(): string {
+    const bytes = this.randomBytes(16);
+    // Set the version (4) and RFC 4122 variant bits
+    bytes[6] = (bytes[6] % 16) + 0x40;
+    bytes[8] = (bytes[8] % 64) + 0x80;
+    const hex = bytesToHex(bytes);
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Public Key Utilities
+ * Helpers for describing and fingerprinting base64 SubjectPublicKeyInfo public keys
+ */
+
+import { PublicKeyAlgorithm, PublicKeyInspection } from '../types';
+import { OIDS, parseSubjectPublicKeyInfo } from './asn1';
+import { base64ToBytes, bytesToBigInt, bytesToHex, sha256 } from './cryptoUtils';
+
+const CURVE_NAMES: Record<string, { name: string; keySize: number }> = {
+  [OIDS.PRIME256V1]: { name: 'P-256', keySize: 256 },
+  [OIDS.SECP384R1]: { name: 'P-384', keySize: 384 },
+  [OIDS.SECP521R1]: { name: 'P-521', keySize: 521 },
+};
+
+const ALGORITHM_NAMES: Record<string, string> = {
+  [OIDS.RSA_ENCRYPTION]: 'rsaEncryption',
+  [OIDS.EC_PUBLIC_KEY]: 'id-ecPublicKey',
+};
+
+export interface PublicKeyDescription {
+  algorithm: PublicKeyAlgorithm;
+  keySize?: number;
+  curve?: string;
+}
+
+/**
+ * Identify the algorithm and size of a base64 SubjectPublicKeyInfo public key
+ * @throws Error if the key is not a valid SubjectPublicKeyInfo
+ */
+export function describePublicKey(publicKeyBase64: string): PublicKeyDescription {
+  const info = parseSubjectPublicKeyInfo(base64ToBytes(publicKeyBase64));
+
+  if (info.rsa) {
+    return { algorithm: 'RSA', keySize: info.rsa.modulus.length * 8 };
+  }
+
+  if (info.algorithmOid === OIDS.EC_PUBLIC_KEY) {
+    const curve = info.parametersOid ? CURVE_NAMES[info.parametersOid] : undefined;
+    return {
+      algorithm: 'EC',
+      keySize: curve?.keySize,
+      curve: curve?.name || info.parametersOid,
+    };
+  }
+
+  return { algorithm: 'unknown' };
+}
+
+/**
+ * Compute the SHA-256 fingerprint (lowercase hex) of the DER-encoded public key
+ */
+export function getPublicKeyFingerprint(publicKeyBase64: string): string {
+  return bytesToHex(sha256(base64ToBytes(publicKeyBase64)));
+}
+
+/**
+ * Decode a base64 SubjectPublicKeyInfo public key into its reportable details
+ * @throws Error if the key is not a valid SubjectPublicKeyInfo
+ */
+export function inspectPublicKey(publicKeyBase64: string): PublicKeyInspection {
+  const der = base64ToBytes(publicKeyBase64);
+  const info = parseSubjectPublicKeyInfo(der);
+  const description = describePublicKey(publicKeyBase64);
+
+  const inspection: PublicKeyInspection = {
+    ...description,
+    algorithmOid: info.algorithmOid,
+    algorithmName: ALGORITHM_NAMES[info.algorithmOid] || info.algorithmOid,
+    derLength: der.length,
+    fingerprint: bytesToHex(sha256(der)),
+  };
+
+  if (info.rsa) {
+    inspection.publicExponent = bytesToBigInt(info.rsa.publicExponent).toString();
+  }
+  if (info.algorithmOid === OIDS.EC_PUBLIC_KEY && info.parametersOid) {
+    inspection.curveOid = info.parametersOid;
+  }
+
+  return inspection;
+}
+
+/**
+ * Format a hex fingerprint as colon-separated byte pairs
+ */
+export function formatFingerprint(fingerprint: string): string {
+  return (fingerprint.match(/.{2}/g) || []).join(':');
+}
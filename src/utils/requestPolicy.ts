@@ -0,0 +1,74 @@
+/**
+ * Request Policy
+ * Checks and resolves the per-endpoint timeout and retry settings
+ */
+
+import { RequestPolicy, ValidationResult } from '../types';
+import {
+  BACKOFF_STRATEGIES,
+  DEFAULT_REQUEST_POLICY,
+  MAX_BACKOFF_DELAY_MS,
+  MAX_REQUEST_RETRIES,
+  MAX_REQUEST_TIMEOUT_MS,
+} from '../constants/biometrics';
+
+const isWholeNumber = (value: unknown, min: number, max: number): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+/**
+ * Check the fields of a request policy; omitted fields are valid and take their defaults
+ */
+export function validateRequestPolicy(policy: unknown): ValidationResult {
+  if (policy === null || typeof policy !== 'object' || Array.isArray(policy)) {
+    return { isValid: false, errors: ['Request policy must be an object'] };
+  }
+
+  const { timeoutMs, maxRetries, backoff, backoffDelayMs, retryOnStatus } =
+    policy as Partial<Record<keyof RequestPolicy, unknown>>;
+  const errors: string[] = [];
+
+  if (timeoutMs !== undefined && !isWholeNumber(timeoutMs, 1, MAX_REQUEST_TIMEOUT_MS)) {
+    errors.push(`Timeout must be a whole number of milliseconds between 1 and ${MAX_REQUEST_TIMEOUT_MS}`);
+  }
+  if (maxRetries !== undefined && !isWholeNumber(maxRetries, 0, MAX_REQUEST_RETRIES)) {
+    errors.push(`Max retries must be a whole number between 0 and ${MAX_REQUEST_RETRIES}`);
+  }
+  if (backoff !== undefined && !BACKOFF_STRATEGIES.some(strategy => strategy.value === backoff)) {
+    errors.push(`Backoff must be one of: ${BACKOFF_STRATEGIES.map(strategy => strategy.value).join(', ')}`);
+  }
+  if (backoffDelayMs !== undefined && !isWholeNumber(backoffDelayMs, 0, MAX_BACKOFF_DELAY_MS)) {
+    errors.push(`Backoff delay must be a whole number of milliseconds between 0 and ${MAX_BACKOFF_DELAY_MS}`);
+  }
+  if (
+    retryOnStatus !== undefined &&
+    (!Array.isArray(retryOnStatus) || !retryOnStatus.every(status => isWholeNumber(status, 100, 599)))
+  ) {
+    errors.push('Retry-on status codes must be a list of HTTP status codes between 100 and 599');
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Fill in the omitted fields of an endpoint's request policy with the defaults
+ */
+export function resolveRequestPolicy(policy?: Partial<RequestPolicy>): RequestPolicy {
+  return {
+    ...DEFAULT_REQUEST_POLICY,
+    ...Object.fromEntries(
+      Object.entries(policy || {}).filter(([, value]) => value !== undefined)
+    ),
+  };
+}
+
+/**
+ * Parse a comma separated list of status codes such as "429, 503"
+ * Entries that are not numbers are kept as NaN so validation reports them.
+ */
+export function parseStatusCodes(text: string): number[] {
+  return text
+    .split(',')
+    .map(code => code.trim())
+    .filter(code => code.length > 0)
+    .map(code => (/^\d+$/.test(code) ? parseInt(code, 10) : NaN));
+}
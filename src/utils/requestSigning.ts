@@ -0,0 +1,130 @@
+/**
+ * Request Signing
+ * Computes the HMAC-SHA256 signature some gateways require over the method, path,
+ * timestamp and body hash of every request
+ */
+
+import { RequestSigning, ValidationResult } from '../types';
+import { DEFAULT_REQUEST_SIGNING, REQUEST_SIGNING_PLACEHOLDERS } from '../constants/biometrics';
+import { bytesToHex, hmacSha256, sha256 } from './cryptoUtils';
+
+export interface SignableRequest {
+  method: string;
+  url: string;
+  /** Body exactly as it is sent */
+  body?: string;
+}
+
+export interface RequestSignature {
+  /** Signature and timestamp headers to add to the request */
+  headers: Record<string, string>;
+  canonicalString: string;
+}
+
+const PLACEHOLDER_PATTERN = /\{([A-Za-z0-9_]+)\}/g;
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/**
+ * Check request signing settings; omitted fields are valid and take their defaults
+ */
+export function validateRequestSigning(signing: unknown): ValidationResult {
+  if (signing === null || typeof signing !== 'object' || Array.isArray(signing)) {
+    return { isValid: false, errors: ['Request signing must be an object'] };
+  }
+
+  const { secret, canonicalTemplate, signatureHeader, timestampHeader } =
+    signing as Partial<Record<keyof RequestSigning, unknown>>;
+  const errors: string[] = [];
+
+  if (typeof secret !== 'string' || secret.length === 0) {
+    errors.push('Signing secret is required');
+  }
+
+  if (canonicalTemplate !== undefined) {
+    if (typeof canonicalTemplate !== 'string' || canonicalTemplate.trim().length === 0) {
+      errors.push('Canonical string template must be a non-empty string');
+    } else {
+      const known = REQUEST_SIGNING_PLACEHOLDERS.map(placeholder => placeholder.name);
+      const unknown = Array.from(canonicalTemplate.matchAll(PLACEHOLDER_PATTERN))
+        .map(match => match[1])
+        .filter(name => !known.includes(name));
+      if (unknown.length > 0) {
+        errors.push(
+          `Unknown canonical string placeholder {${unknown[0]}}; available: ${known.map(name => `{${name}}`).join(', ')}`
+        );
+      }
+    }
+  }
+
+  [
+    ['Signature header', signatureHeader],
+    ['Timestamp header', timestampHeader],
+  ].forEach(([label, name]) => {
+    if (name !== undefined && (typeof name !== 'string' || !HEADER_NAME_PATTERN.test(name))) {
+      errors.push(`${label} must be a valid header name`);
+    }
+  });
+
+  const resolved = resolveRequestSigning(signing as RequestSigning);
+  if (resolved.signatureHeader.toLowerCase() === resolved.timestampHeader.toLowerCase()) {
+    errors.push('Signature and timestamp headers must differ');
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Fill in the omitted fields of request signing settings with the defaults
+ */
+export function resolveRequestSigning(signing: RequestSigning): Required<RequestSigning> {
+  return {
+    ...DEFAULT_REQUEST_SIGNING,
+    ...Object.fromEntries(
+      Object.entries(signing).filter(([, value]) => value !== undefined && value !== '')
+    ),
+  } as Required<RequestSigning>;
+}
+
+/**
+ * Fill the placeholders of a canonical string template from a request
+ */
+export function buildCanonicalString(
+  template: string,
+  request: SignableRequest,
+  timestamp: string
+): string {
+  const match = request.url.match(/^[A-Za-z][A-Za-z0-9+.-]*:\/\/([^/?#]*)([^#]*)/);
+  const values: Record<string, string> = {
+    method: request.method.toUpperCase(),
+    path: match?.[2] ? (match[2].startsWith('/') ? match[2] : `/${match[2]}`) : '/',
+    host: match?.[1] || '',
+    timestamp,
+    bodySha256: bytesToHex(sha256(request.body || '')),
+  };
+
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder
+  );
+}
+
+/**
+ * Sign a request with HMAC-SHA256
+ * @param now - Signing time in milliseconds, sent as Unix seconds
+ */
+export function signRequest(
+  signing: RequestSigning,
+  request: SignableRequest,
+  now: number = Date.now()
+): RequestSignature {
+  const resolved = resolveRequestSigning(signing);
+  const timestamp = String(Math.floor(now / 1000));
+  const canonicalString = buildCanonicalString(resolved.canonicalTemplate, request, timestamp);
+
+  return {
+    headers: {
+      [resolved.timestampHeader]: timestamp,
+      [resolved.signatureHeader]: bytesToHex(hmacSha256(resolved.secret, canonicalString)),
+    },
+    canonicalString,
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * Response Assertions
+ * Checks backend responses beyond the status code, e.g. a 200 carrying {"valid": false}
+ */
+
+import { AssertionResult, ResponseAssertion, ValidationResult } from '../types';
+import { RESPONSE_ASSERTION_TYPES, MAX_REQUEST_TIMEOUT_MS } from '../constants/biometrics';
+import { getJsonPathValue, parseJsonPath } from './jsonPath';
+
+export interface AssertedResponse {
+  status: number;
+  /** Response headers with lower-case names */
+  headers?: Record<string, string>;
+  data?: unknown;
+  latencyMs?: number;
+}
+
+const isStatusCode = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 100 && value <= 599;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isValidPattern = (pattern: string): boolean => {
+  try {
+    return Boolean(new RegExp(pattern));
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check a list of response assertions
+ */
+export function validateAssertions(assertions: unknown): ValidationResult {
+  if (!Array.isArray(assertions)) {
+    return { isValid: false, errors: ['Assertions must be a list'] };
+  }
+
+  const errors: string[] = [];
+  assertions.forEach((assertion, index) => {
+    const error = getAssertionError(assertion);
+    if (error) {
+      errors.push(`Assertion ${index + 1}: ${error}`);
+    }
+  });
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Check a single response assertion
+ * @returns The problem with the assertion, or undefined if it is valid
+ */
+export function getAssertionError(assertion: unknown): string | undefined {
+  if (assertion === null || typeof assertion !== 'object' || Array.isArray(assertion)) {
+    return 'Assertion must be an object';
+  }
+
+  const candidate = assertion as Record<string, unknown>;
+  switch (candidate.type) {
+    case 'status':
+      return Array.isArray(candidate.statusCodes) &&
+        candidate.statusCodes.length > 0 &&
+        candidate.statusCodes.every(isStatusCode)
+        ? undefined
+        : 'Expected status codes must be a list of HTTP status codes between 100 and 599';
+    case 'jsonPathEquals':
+    case 'jsonPathExists':
+    case 'jsonPathMatches': {
+      if (!isNonEmptyString(candidate.path)) {
+        return 'JSON path is required';
+      }
+      try {
+        parseJsonPath(candidate.path);
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+      if (candidate.type === 'jsonPathEquals' && candidate.value === undefined) {
+        return 'Expected value is required';
+      }
+      if (candidate.type === 'jsonPathMatches') {
+        if (!isNonEmptyString(candidate.pattern)) {
+          return 'Pattern is required';
+        }
+        if (!isValidPattern(candidate.pattern)) {
+          return `Pattern "${candidate.pattern}" is not a valid regular expression`;
+        }
+      }
+      return undefined;
+    }
+    case 'headerPresent':
+      return isNonEmptyString(candidate.header) ? undefined : 'Header name is required';
+    case 'maxLatency':
+      return typeof candidate.maxMs === 'number' &&
+        Number.isInteger(candidate.maxMs) &&
+        candidate.maxMs >= 1 &&
+        candidate.maxMs <= MAX_REQUEST_TIMEOUT_MS
+        ? undefined
+        : `Max latency must be a whole number of milliseconds between 1 and ${MAX_REQUEST_TIMEOUT_MS}`;
+    default:
+      return `Assertion type must be one of: ${RESPONSE_ASSERTION_TYPES.map(type => type.value).join(', ')}`;
+  }
+}
+
+/**
+ * Describe what an assertion expects, e.g. "$.valid equals true"
+ */
+export function describeAssertion(assertion: ResponseAssertion): string {
+  switch (assertion.type) {
+    case 'status':
+      return `Status is ${assertion.statusCodes.join(' or ')}`;
+    case 'jsonPathEquals':
+      return `${assertion.path} equals ${JSON.stringify(assertion.value)}`;
+    case 'jsonPathExists':
+      return `${assertion.path} exists`;
+    case 'jsonPathMatches':
+      return `${assertion.path} matches /${assertion.pattern}/`;
+    case 'headerPresent':
+      return `Header ${assertion.header} is present`;
+    case 'maxLatency':
+      return `Latency is at most ${assertion.maxMs}ms`;
+  }
+}
+
+/**
+ * Evaluate assertions against a response
+ * @returns One result per assertion, in the configured order
+ */
+export function evaluateAssertions(
+  assertions: ResponseAssertion[],
+  response: AssertedResponse
+): AssertionResult[] {
+  return assertions.map(assertion => {
+    const { passed, actual } = checkAssertion(assertion, response);
+    const description = describeAssertion(assertion);
+    return {
+      assertion,
+      passed,
+      message: passed ? description : `${description} (got ${formatActual(actual)})`,
+      actual,
+    };
+  });
+}
+
+function checkAssertion(
+  assertion: ResponseAssertion,
+  response: AssertedResponse
+): { passed: boolean; actual?: unknown } {
+  switch (assertion.type) {
+    case 'status':
+      return {
+        passed: assertion.statusCodes.includes(response.status),
+        actual: response.status,
+      };
+    case 'jsonPathEquals': {
+      const actual = readJsonPath(response.data, assertion.path);
+      return { passed: isDeepEqual(actual, assertion.value), actual };
+    }
+    case 'jsonPathExists': {
+      const actual = readJsonPath(response.data, assertion.path);
+      return { passed: actual !== undefined, actual };
+    }
+    case 'jsonPathMatches': {
+      const actual = readJsonPath(response.data, assertion.path);
+      const text =
+        typeof actual === 'string' || typeof actual === 'number' || typeof actual === 'boolean'
+          ? String(actual)
+          : undefined;
+      return { passed: text !== undefined && new RegExp(assertion.pattern).test(text), actual };
+    }
+    case 'headerPresent': {
+      const actual = response.headers?.[assertion.header.trim().toLowerCase()];
+      return { passed: actual !== undefined, actual };
+    }
+    case 'maxLatency':
+      return {
+        passed: response.latencyMs !== undefined && response.latencyMs <= assertion.maxMs,
+        actual: response.latencyMs,
+      };
+  }
+}
+
+function readJsonPath(data: unknown, path: string): unknown {
+  try {
+    return getJsonPathValue(data, path);
+  } catch {
+    return undefined;
+  }
+}
+
+function isDeepEqual(left: unknown, right: unknown): boolean {
+  if (left === right) {
+    return true;
+  }
+  if (left === null || right === null || typeof left !== 'object' || typeof right !== 'object') {
+    return false;
+  }
+  if (Array.isArray(left) !== Array.isArray(right)) {
+    return false;
+  }
+
+  const leftKeys = Object.keys(left);
+  const rightKeys = Object.keys(right);
+  return (
+    leftKeys.length === rightKeys.length &&
+    leftKeys.every(key =>
+      isDeepEqual((left as Record<string, unknown>)[key], (right as Record<string, unknown>)[key])
+    )
+  );
+}
+
+function formatActual(actual: unknown): string {
+  if (actual === undefined) {
+    return 'nothing';
+  }
+  return typeof actual === 'number' && Number.isFinite(actual) ? String(actual) : JSON.stringify(actual);
+}
+
+/**
+ * Summarize assertion results, e.g. "2 of 3 assertions passed"
+ */
+export function summarizeAssertions(results: AssertionResult[]): string {
+  const passed = results.filter(result => result.passed).length;
+  return `${passed} of ${results.length} assertion${results.length === 1 ? '' : 's'} passed`;
+}
+
+/**
+ * Pull assertion results out of log entry details, if they carry any
+ */
+export function getAssertionResults(details: unknown): AssertionResult[] | undefined {
+  if (details === null || typeof details !== 'object') {
+    return undefined;
+  }
+  const { assertions } = details as { assertions?: unknown };
+  return Array.isArray(assertions) &&
+    assertions.every(
+      result => result && typeof result === 'object' && 'passed' in result && 'message' in result
+    )
+    ? (assertions as AssertionResult[])
+    : undefined;
+}
@@ -0,0 +1,170 @@
+/**
+ * RSA
+ * Pure TypeScript RSA key generation and RSASSA-PKCS1-v1_5 signing with SHA-256.
+ * Used by the simulated biometric provider to produce keys like the device keystore's.
+ */
+
+/* eslint-disable no-bitwise */
+
+import { ASN1_TAGS, encodeDer, encodeDerInteger } from './asn1';
+import { bigIntToBytes, bytesToBase64, bytesToBigInt, concatBytes, hexToBytes, sha256 } from './cryptoUtils';
+import { ONE, ZERO, modInverse, modPow } from './p256';
+
+export interface RsaKeyPair {
+  /** Prime factors as lowercase hex, "p:q" */
+  privateKey: string;
+  /** Base64 SubjectPublicKeyInfo public key */
+  publicKey: string;
+}
+
+// Public exponent used by the Android and iOS keystores (F4)
+export const RSA_PUBLIC_EXPONENT = BigInt(65537);
+
+// DER-encoded DigestInfo prefix for SHA-256 (RFC 8017, section 9.2)
+export const SHA256_DIGEST_INFO_PREFIX = new Uint8Array([
+  0x30, 0x31, 0x30, 0x0d, 0x06, 0x09, 0x60, 0x86, 0x48, 0x01,
+  0x65, 0x03, 0x04, 0x02, 0x01, 0x05, 0x00, 0x04, 0x20,
+]);
+
+// AlgorithmIdentifier for rsaEncryption with NULL parameters
+const RSA_ALGORITHM_IDENTIFIER = hexToBytes('300d06092a864886f70d0101010500');
+
+const TWO = BigInt(2);
+const SMALL_PRIMES = [
+  3, 5, 7, 11, 13, 17, 19, 23, 29, 31, 37, 41, 43, 47, 53, 59, 61, 67, 71, 73, 79, 83, 89, 97,
+  101, 103, 107, 109, 113, 127, 131, 137, 139, 149, 151, 157, 163, 167, 173, 179, 181, 191, 193, 197, 199,
+].map(prime => BigInt(prime));
+const MILLER_RABIN_BASES = [2, 3, 5, 7, 11, 13, 17, 19, 23, 29, 31, 37].map(base => BigInt(base));
+
+/**
+ * Create an RSA key pair with public exponent 65537
+ * @param randomBytes - Source of randomness for the prime search
+ * @param bits - Modulus size; must be a multiple of 16
+ */
+export function generateRsaKeyPair(randomBytes: (length: number) => Uint8Array, bits: number = 2048): RsaKeyPair {
+  if (bits < 512 || bits % 16 !== 0) {
+    throw new Error(`Unsupported RSA key size ${bits}`);
+  }
+
+  const p = generatePrime(bits / 2, randomBytes);
+  let q = generatePrime(bits / 2, randomBytes);
+  while (q === p) {
+    q = generatePrime(bits / 2, randomBytes);
+  }
+
+  return {
+    privateKey: `${p.toString(16)}:${q.toString(16)}`,
+    publicKey: encodeRsaPublicKey(p * q, bits / 8),
+  };
+}
+
+/**
+ * Derive the base64 SubjectPublicKeyInfo public key for a private key
+ */
+export function getRsaPublicKey(privateKey: string): string {
+  const { n, length } = parsePrivateKey(privateKey);
+  return encodeRsaPublicKey(n, length);
+}
+
+/**
+ * Sign a message with RSASSA-PKCS1-v1_5 and SHA-256
+ * @returns Base64 signature, as produced by the Android and iOS keystores
+ */
+export function signRsaPkcs1Sha256(privateKey: string, message: Uint8Array | string): string {
+  const { p, q, n, length } = parsePrivateKey(privateKey);
+
+  const digestInfo = concatBytes(SHA256_DIGEST_INFO_PREFIX, sha256(message));
+  const padding = new Uint8Array(length - digestInfo.length - 3).fill(0xff);
+  const encoded = concatBytes(new Uint8Array([0x00, 0x01]), padding, new Uint8Array([0x00]), digestInfo);
+
+  // Chinese remainder theorem form of encoded^d mod n
+  const d = modInverse(RSA_PUBLIC_EXPONENT, lcm(p - ONE, q - ONE));
+  const m = bytesToBigInt(encoded);
+  const m1 = modPow(m, d % (p - ONE), p);
+  const m2 = modPow(m, d % (q - ONE), q);
+  const h = (modInverse(q, p) * (m1 - m2 + p)) % p;
+  const signature = (m2 + h * q) % n;
+
+  return bytesToBase64(bigIntToBytes(signature, length));
+}
+
+/**
+ * Find a random prime of exactly the given size that is usable with exponent 65537
+ */
+function generatePrime(bits: number, randomBytes: (length: number) => Uint8Array): bigint {
+  while (true) {
+    const bytes = randomBytes(bits / 8);
+    // Set the top two bits so the product of two primes has the full modulus size, and make it odd
+    bytes[0] |= 0xc0;
+    bytes[bytes.length - 1] |= 0x01;
+
+    const candidate = bytesToBigInt(bytes);
+    if (candidate % RSA_PUBLIC_EXPONENT !== ONE && isProbablePrime(candidate)) {
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Trial division followed by Miller-Rabin rounds, enough for randomly chosen candidates
+ */
+function isProbablePrime(candidate: bigint): boolean {
+  if (SMALL_PRIMES.some(prime => candidate % prime === ZERO)) {
+    return false;
+  }
+
+  let d = candidate - ONE;
+  let s = 0;
+  while ((d & ONE) === ZERO) {
+    d >>= ONE;
+    s++;
+  }
+
+  return MILLER_RABIN_BASES.every(base => {
+    let x = modPow(base, d, candidate);
+    if (x === ONE || x === candidate - ONE) {
+      return true;
+    }
+    for (let i = 1; i < s; i++) {
+      x = (x * x) % candidate;
+      if (x === candidate - ONE) {
+        return true;
+      }
+    }
+    return false;
+  });
+}
+
+function encodeRsaPublicKey(n: bigint, length: number): string {
+  const rsaPublicKey = encodeDer(
+    ASN1_TAGS.SEQUENCE,
+    encodeDerInteger(bigIntToBytes(n, length)),
+    encodeDerInteger(bigIntToBytes(RSA_PUBLIC_EXPONENT, 3))
+  );
+  const subjectPublicKey = encodeDer(ASN1_TAGS.BIT_STRING, new Uint8Array([0x00]), rsaPublicKey);
+  return bytesToBase64(encodeDer(ASN1_TAGS.SEQUENCE, RSA_ALGORITHM_IDENTIFIER, subjectPublicKey));
+}
+
+function parsePrivateKey(privateKey: string): { p: bigint; q: bigint; n: bigint; length: number } {
+  const match = /^([0-9a-f]+):([0-9a-f]+)$/i.exec(privateKey);
+  if (!match) {
+    throw new Error('Invalid RSA private key');
+  }
+
+  const p = BigInt(`0x${match[1]}`);
+  const q = BigInt(`0x${match[2]}`);
+  if (p < TWO || q < TWO || p === q) {
+    throw new Error('Invalid RSA private key');
+  }
+
+  const n = p * q;
+  return { p, q, n, length: Math.ceil(n.toString(16).length / 2) };
+}
+
+function lcm(a: bigint, b: bigint): bigint {
+  let [x, y] = [a, b];
+  while (y !== ZERO) {
+    [x, y] = [y, x % y];
+  }
+  return (a / x) * b;
+}
@@ -0,0 +1,212 @@
+/**
+ * Signature Verifier
+ * Pure TypeScript verification of biometric signatures against their SubjectPublicKeyInfo public key.
+ * Supports RSASSA-PKCS1-v1_5 with SHA-256 (react-native-biometrics on Android and iOS)
+ * and ECDSA P-256 with SHA-256.
+ */
+
+import { SignatureVerification } from '../types';
+import { ASN1_TAGS, OIDS, parseDer, parseSubjectPublicKeyInfo, unsignedIntegerBytes } from './asn1';
+import {
+  base64ToBytes,
+  bigIntToBytes,
+  bytesEqual,
+  bytesToBigInt,
+  concatBytes,
+  sha256,
+  utf8Encode,
+} from './cryptoUtils';
+import { ONE, P256, Point, decodeP256Point, modInverse, modPow, pointAdd, scalarMultiply } from './p256';
+import { SHA256_DIGEST_INFO_PREFIX } from './rsa';
+
+/**
+ * Verify a base64 signature over a UTF-8 payload using a base64 SubjectPublicKeyInfo public key.
+ * Never throws: malformed input is reported as a failed verification.
+ */
+export function verifySignature(
+  publicKeyBase64: string,
+  payload: string,
+  signatureBase64: string
+): SignatureVerification {
+  let keyInfo;
+  try {
+    keyInfo = parseSubjectPublicKeyInfo(base64ToBytes(publicKeyBase64));
+  } catch (error) {
+    return {
+      status: 'failed',
+      reason: `Public key could not be parsed: ${getErrorMessage(error)}`,
+    };
+  }
+
+  let signature: Uint8Array;
+  try {
+    signature = base64ToBytes(signatureBase64);
+  } catch (error) {
+    return {
+      status: 'failed',
+      reason: `Signature is not valid base64: ${getErrorMessage(error)}`,
+    };
+  }
+
+  const digest = sha256(utf8Encode(payload));
+
+  if (keyInfo.rsa) {
+    const keySize = unsignedIntegerBytes(keyInfo.rsa.modulus).length * 8;
+    const result = verifyRsaPkcs1Sha256(keyInfo.rsa.modulus, keyInfo.rsa.publicExponent, digest, signature);
+    return {
+      status: result === null ? 'verified' : 'failed',
+      algorithm: 'RSASSA-PKCS1-v1_5-SHA256',
+      keySize,
+      reason: result || undefined,
+    };
+  }
+
+  if (keyInfo.algorithmOid === OIDS.EC_PUBLIC_KEY) {
+    if (keyInfo.parametersOid !== OIDS.PRIME256V1) {
+      return {
+        status: 'skipped',
+        reason: `Unsupported elliptic curve ${keyInfo.parametersOid || '(none)'}; only P-256 can be verified`,
+      };
+    }
+
+    const result = verifyEcdsaP256Sha256(keyInfo.publicKey, digest, signature);
+    return {
+      status: result === null ? 'verified' : 'failed',
+      algorithm: 'ECDSA-P256-SHA256',
+      keySize: 256,
+      reason: result || undefined,
+    };
+  }
+
+  return {
+    status: 'skipped',
+    reason: `Unsupported public key algorithm ${keyInfo.algorithmOid}`,
+  };
+}
+
+/**
+ * Summarize a verification outcome for logs
+ */
+export function describeSignatureVerification(verification: SignatureVerification): string {
+  switch (verification.status) {
+    case 'verified':
+      return `On-device signature check passed (${verification.algorithm}, ${verification.keySize}-bit key)`;
+    case 'failed':
+      return `On-device signature check FAILED: ${verification.reason}`;
+    default:
+      return `On-device signature check skipped: ${verification.reason}`;
+  }
+}
+
+/**
+ * Map a verification outcome to the log status used by StatusLog
+ */
+export function getSignatureVerificationLogStatus(
+  verification: SignatureVerification
+): 'success' | 'error' | 'info' {
+  switch (verification.status) {
+    case 'verified':
+      return 'success';
+    case 'failed':
+      return 'error';
+    default:
+      return 'info';
+  }
+}
+
+/**
+ * RSASSA-PKCS1-v1_5 verification (RFC 8017, section 8.2.2)
+ * @returns null when the signature is valid, otherwise the reason it is not
+ */
+function verifyRsaPkcs1Sha256(
+  modulusBytes: Uint8Array,
+  exponentBytes: Uint8Array,
+  digest: Uint8Array,
+  signature: Uint8Array
+): string | null {
+  const modulus = bytesToBigInt(modulusBytes);
+  const exponent = bytesToBigInt(exponentBytes);
+  const k = unsignedIntegerBytes(modulusBytes).length;
+
+  if (signature.length !== k) {
+    return `Signature is ${signature.length} bytes, expected ${k} for this key`;
+  }
+
+  const s = bytesToBigInt(signature);
+  if (s >= modulus) {
+    return 'Signature representative is out of range';
+  }
+
+  const encoded = bigIntToBytes(modPow(s, exponent, modulus), k);
+  const digestInfo = concatBytes(SHA256_DIGEST_INFO_PREFIX, digest);
+  const paddingLength = k - digestInfo.length - 3;
+  if (paddingLength < 8) {
+    return 'RSA key is too small for a SHA-256 signature';
+  }
+
+  const expected = new Uint8Array(k);
+  expected[1] = 0x01;
+  expected.fill(0xff, 2, 2 + paddingLength);
+  expected.set(digestInfo, 3 + paddingLength);
+
+  return bytesEqual(encoded, expected)
+    ? null
+    : 'Signature does not match the payload for this public key';
+}
+
+/**
+ * ECDSA verification over P-256 (SEC 1, section 4.1.4)
+ * @returns null when the signature is valid, otherwise the reason it is not
+ */
+function verifyEcdsaP256Sha256(
+  publicKeyBytes: Uint8Array,
+  digest: Uint8Array,
+  signature: Uint8Array
+): string | null {
+  let q: Point;
+  let r: bigint;
+  let s: bigint;
+
+  try {
+    q = decodeP256Point(publicKeyBytes);
+    [r, s] = decodeEcdsaSignature(signature);
+  } catch (error) {
+    return getErrorMessage(error);
+  }
+
+  const { n, g } = P256;
+  if (r < ONE || r >= n || s < ONE || s >= n) {
+    return 'Signature values are out of range';
+  }
+
+  const e = bytesToBigInt(digest) % n;
+  const w = modInverse(s, n);
+  const point = pointAdd(
+    scalarMultiply(g, (e * w) % n),
+    scalarMultiply(q, (r * w) % n)
+  );
+
+  if (!point || point.x % n !== r) {
+    return 'Signature does not match the payload for this public key';
+  }
+
+  return null;
+}
+
+function decodeEcdsaSignature(signature: Uint8Array): [bigint, bigint] {
+  // Raw r || s encoding (as produced by WebCrypto)
+  if (signature.length === 64 && signature[0] !== ASN1_TAGS.SEQUENCE) {
+    return [bytesToBigInt(signature.subarray(0, 32)), bytesToBigInt(signature.subarray(32))];
+  }
+
+  const sequence = parseDer(signature);
+  const [r, s] = sequence.children || [];
+  if (sequence.tag !== ASN1_TAGS.SEQUENCE || r?.tag !== ASN1_TAGS.INTEGER || s?.tag !== ASN1_TAGS.INTEGER) {
+    throw new Error('Malformed ECDSA signature');
+  }
+  return [bytesToBigInt(r.value), bytesToBigInt(s.value)];
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
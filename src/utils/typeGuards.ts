@@ -8,11 +8,15 @@ import {
   OperationType,
   OperationStatus,
   EndpointConfig,
+  EnrollmentPolicy,
+  PromptOperation,
+  PromptProfile,
   ValidationResult,
   BiometricStatus,
   OperationResult,
   LogEntry,
 } from '../types';
+import { MAX_PROMPT_TEXT_LENGTH } from '../constants/biometrics';
 
 // Type guards for biometry types
 export function isBiometryType(value: any): value is BiometryType {
@@ -20,17 +24,44 @@ export function isBiometryType(value: any): value is BiometryType {
 }
 
 export function isHttpMethod(value: any): value is HttpMethod {
-  return ['GET', 'POST', 'PUT', 'PATCH'].includes(value);
+  return ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].includes(value);
 }
 
 export function isOperationType(value: any): value is OperationType {
-  return ['enroll', 'validate', 'delete', 'status'].includes(value);
+  return ['enroll', 'validate', 'authenticate', 'delete', 'status', 'benchmark'].includes(value);
 }
 
 export function isOperationStatus(value: any): value is OperationStatus {
   return ['success', 'error', 'info'].includes(value);
 }
 
+export function isEnrollmentPolicy(value: any): value is EnrollmentPolicy {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    (value.algorithm === undefined || ['EC-P256', 'RSA-2048'].includes(value.algorithm)) &&
+    typeof value.allowDeviceCredentials === 'boolean' &&
+    typeof value.requireConfirmation === 'boolean'
+  );
+}
+
+export function isPromptOperation(value: any): value is PromptOperation {
+  return ['enroll', 'validate', 'authenticate', 'benchmark'].includes(value);
+}
+
+export function isPromptProfile(value: any): value is PromptProfile {
+  const isPromptText = (text: any) =>
+    typeof text === 'string' && text.trim().length > 0 && text.length <= MAX_PROMPT_TEXT_LENGTH;
+
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    isPromptText(value.promptMessage) &&
+    isPromptText(value.cancelButtonText) &&
+    (value.fallbackPromptMessage === undefined || isPromptText(value.fallbackPromptMessage))
+  );
+}
+
 // Validation functions
 export function validateUrl(url: string): boolean {
   try {
@@ -51,7 +82,7 @@ export function validateEndpointConfig(config: EndpointConfig): ValidationResult
   }
 
   if (!isHttpMethod(config.method)) {
-    errors.push('HTTP method must be GET, POST, PUT, or PATCH');
+    errors.push('HTTP method must be GET, POST, PUT, PATCH, or DELETE');
   }
 
   return {
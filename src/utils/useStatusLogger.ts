@@ -8,6 +8,7 @@ import {
   truncateLogs,
   formatErrorMessage,
 } from './logUtils';
+import { getBiometricError } from './biometricErrors';
 
 /**
  * Custom hook for managing status logging and real-time feedback
@@ -57,6 +58,7 @@ export const useStatusLogger = (maxLogs: number = 100) => {
       success: false,
       message,
       data: details,
+      error: getBiometricError(details?.biometricError ?? error),
       timestamp: entry.timestamp,
     });
   }, [addLog]);
@@ -134,7 +136,7 @@ export const useStatusLogger = (maxLogs: number = 100) => {
       logError(
         operation,
         errorMessage || error,
-        { originalError: error }
+        { originalError: error, biometricError: getBiometricError(error) }
       );
       throw error;
     } finally {
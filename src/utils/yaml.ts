@@ -0,0 +1,477 @@
+/**
+ * YAML Parser
+ * Minimal YAML reader for API descriptions such as OpenAPI documents: block and flow
+ * mappings and sequences, quoted and plain scalars, block scalars and comments.
+ * Anchors, aliases, tags and multiple documents are reported as unsupported.
+ */
+
+interface YamlLine {
+  /** 1-based line number, for error messages */
+  number: number;
+  indent: number;
+  /** Content after the indentation, without a trailing comment */
+  text: string;
+  /** Line as written, kept for block scalars */
+  raw: string;
+}
+
+const MAPPING_KEY = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"\-?:,[\]{}&*!|>%@`][^#]*?|[-?:][^\s#][^#]*?)\s*:(?:\s+|$)/;
+const INTEGER = /^[-+]?[0-9]+$/;
+const FLOAT = /^[-+]?(\.[0-9]+|[0-9]+(\.[0-9]*)?)([eE][-+]?[0-9]+)?$/;
+
+/**
+ * Parse a YAML document into plain objects, arrays and scalars
+ * @throws Error naming the line of the first construct that cannot be read
+ */
+export function parseYaml(text: string): unknown {
+  return new YamlReader(text).read();
+}
+
+class YamlReader {
+  private lines: YamlLine[];
+  private position = 0;
+
+  constructor(text: string) {
+    this.lines = text.split(/\r?\n/).map((raw, index) => {
+      const indent = raw.length - raw.trimStart().length;
+      if (raw.substring(0, indent).includes('\t')) {
+        throw yamlError(index + 1, 'tabs cannot be used for indentation');
+      }
+      return { number: index + 1, indent, text: stripComment(raw.trim()).trimEnd(), raw };
+    });
+  }
+
+  read(): unknown {
+    this.skipBlankLines();
+    if (this.peek()?.text === '---') {
+      this.position++;
+    }
+
+    const value = this.readNode(0);
+    this.skipBlankLines();
+
+    const next = this.peek();
+    if (next && !(isDocumentMarker(next) && next.text === '...')) {
+      throw yamlError(
+        next.number,
+        next.text === '---' ? 'multiple documents are not supported' : 'unexpected indentation'
+      );
+    }
+    return value;
+  }
+
+  private peek(): YamlLine | undefined {
+    return this.lines[this.position];
+  }
+
+  private skipBlankLines() {
+    while (this.position < this.lines.length && !this.lines[this.position].text) {
+      this.position++;
+    }
+  }
+
+  // Block node whose lines are indented at least minIndent; null when there is none
+  private readNode(minIndent: number): unknown {
+    this.skipBlankLines();
+    const line = this.peek();
+    if (!line || line.indent < minIndent) {
+      return null;
+    }
+
+    if (isSequenceEntry(line.text)) {
+      return this.readSequence(line.indent);
+    }
+    if (MAPPING_KEY.test(line.text)) {
+      return this.readMapping(line.indent);
+    }
+
+    this.position++;
+    return this.readInlineValue(line.text, line, line.indent - 1);
+  }
+
+  private readMapping(indent: number): Record<string, unknown> {
+    const mapping: Record<string, unknown> = {};
+
+    for (this.skipBlankLines(); this.peek()?.indent === indent; this.skipBlankLines()) {
+      const line = this.peek() as YamlLine;
+      if (isDocumentMarker(line)) {
+        break;
+      }
+      const match = line.text.match(MAPPING_KEY);
+      if (!match || isSequenceEntry(line.text)) {
+        throw yamlError(line.number, `expected "key: value", found "${line.text}"`);
+      }
+
+      const key = readKeyText(match[1], line.number);
+      if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+        throw yamlError(line.number, `duplicate key "${key}"`);
+      }
+
+      this.position++;
+      const rest = line.text.substring(match[0].length);
+      if (rest) {
+        mapping[key] = this.readInlineValue(rest, line, indent);
+      } else {
+        // A sequence may sit at the same indentation as its key
+        this.skipBlankLines();
+        const next = this.peek();
+        mapping[key] =
+          next && next.indent === indent && isSequenceEntry(next.text)
+            ? this.readSequence(indent)
+            : this.readNode(indent + 1);
+      }
+    }
+
+    return mapping;
+  }
+
+  private readSequence(indent: number): unknown[] {
+    const sequence: unknown[] = [];
+
+    for (this.skipBlankLines(); this.peek()?.indent === indent; this.skipBlankLines()) {
+      const line = this.peek() as YamlLine;
+      if (!isSequenceEntry(line.text)) {
+        break;
+      }
+
+      const rest = line.text.substring(1).trimStart();
+      if (!rest) {
+        this.position++;
+        sequence.push(this.readNode(indent + 1));
+      } else if (isSequenceEntry(rest) || MAPPING_KEY.test(rest)) {
+        // "- key: value" starts a mapping indented to the key; read it as if on its own line
+        const offset = line.text.length - rest.length;
+        this.lines[this.position] = { ...line, indent: indent + offset, text: rest };
+        sequence.push(this.readNode(indent + offset));
+      } else {
+        this.position++;
+        sequence.push(this.readInlineValue(rest, line, indent));
+      }
+    }
+
+    return sequence;
+  }
+
+  // Value written after "key:" or "- ", possibly continued on more indented lines
+  private readInlineValue(text: string, line: YamlLine, parentIndent: number): unknown {
+    if (/^[&*!]/.test(text)) {
+      throw yamlError(line.number, 'anchors, aliases and tags are not supported');
+    }
+    if (/^[|>]/.test(text)) {
+      return this.readBlockScalar(text, line, parentIndent);
+    }
+
+    let value = text;
+    if (/^[[{]/.test(text) || /^["']/.test(text)) {
+      // Flow collections and quoted strings may continue on the next lines
+      while (!isComplete(value) && this.peek() && (this.peek() as YamlLine).indent > parentIndent) {
+        value += `\n${(this.peek() as YamlLine).raw.trim()}`;
+        this.position++;
+      }
+      const flow = new FlowReader(value.replace(/\n/g, ' '), line.number);
+      return /^["']/.test(text) ? flow.readQuoted() : flow.read();
+    }
+
+    // Plain scalars are folded with their continuation lines
+    for (this.skipBlankLines(); this.peek() && (this.peek() as YamlLine).indent > parentIndent; ) {
+      const next = this.peek() as YamlLine;
+      if (MAPPING_KEY.test(next.text) || isSequenceEntry(next.text)) {
+        throw yamlError(next.number, 'unexpected indentation');
+      }
+      value += ` ${next.text}`;
+      this.position++;
+      this.skipBlankLines();
+    }
+    return resolvePlainScalar(value);
+  }
+
+  private readBlockScalar(header: string, line: YamlLine, parentIndent: number): string {
+    const match = header.match(/^([|>])([-+]?)([1-9]?)([-+]?)$/);
+    if (!match) {
+      throw yamlError(line.number, `invalid block scalar header "${header}"`);
+    }
+    const folded = match[1] === '>';
+    const chomping = match[2] || match[4];
+
+    const contentLines: string[] = [];
+    let contentIndent = match[3] ? parentIndent + Number(match[3]) : -1;
+    while (this.position < this.lines.length) {
+      const next = this.lines[this.position];
+      const isBlank = !next.raw.trim();
+      if (!isBlank && next.indent <= parentIndent) {
+        break;
+      }
+      if (!isBlank && contentIndent < 0) {
+        contentIndent = next.indent;
+      }
+      if (!isBlank && next.indent < contentIndent) {
+        break;
+      }
+      contentLines.push(isBlank ? '' : next.raw.substring(contentIndent));
+      this.position++;
+    }
+
+    let content = folded ? foldLines(contentLines) : contentLines.join('\n');
+    const body = content.replace(/\n+$/, '');
+    if (chomping === '-') {
+      content = body;
+    } else if (chomping !== '+') {
+      content = body ? `${body}\n` : '';
+    } else {
+      content = `${content}\n`;
+    }
+    return content;
+  }
+}
+
+/**
+ * Reader for flow collections and quoted scalars on a single logical line
+ */
+class FlowReader {
+  private index = 0;
+
+  constructor(private readonly text: string, private readonly lineNumber: number) {}
+
+  read(): unknown {
+    const value = this.readValue();
+    this.skipSpaces();
+    if (this.index < this.text.length) {
+      throw yamlError(this.lineNumber, `unexpected "${this.text.substring(this.index)}"`);
+    }
+    return value;
+  }
+
+  readQuoted(): string {
+    const value = this.readQuotedString();
+    this.skipSpaces();
+    if (this.index < this.text.length) {
+      throw yamlError(this.lineNumber, `unexpected "${this.text.substring(this.index)}" after quoted string`);
+    }
+    return value;
+  }
+
+  private skipSpaces() {
+    while (this.text[this.index] === ' ') {
+      this.index++;
+    }
+  }
+
+  private readValue(): unknown {
+    this.skipSpaces();
+    const char = this.text[this.index];
+    if (char === '[') {
+      return this.readCollection(']', () => this.readValue());
+    }
+    if (char === '{') {
+      const mapping: Record<string, unknown> = {};
+      this.readCollection('}', () => {
+        const key = String(this.readScalar(true));
+        this.skipSpaces();
+        if (this.text[this.index] === ':') {
+          this.index++;
+          mapping[key] = this.readValue();
+        } else {
+          mapping[key] = null;
+        }
+        return undefined;
+      });
+      return mapping;
+    }
+    return this.readScalar(false);
+  }
+
+  private readCollection(close: string, readItem: () => unknown): unknown[] {
+    const items: unknown[] = [];
+    this.index++;
+    for (;;) {
+      this.skipSpaces();
+      if (this.text[this.index] === close) {
+        this.index++;
+        return items;
+      }
+      items.push(readItem());
+      this.skipSpaces();
+      const separator = this.text[this.index++];
+      if (separator === close) {
+        return items;
+      }
+      if (separator !== ',') {
+        throw yamlError(this.lineNumber, `expected "," or "${close}" in flow collection`);
+      }
+    }
+  }
+
+  private readScalar(isKey: boolean): unknown {
+    this.skipSpaces();
+    if (/["']/.test(this.text[this.index] || '')) {
+      return this.readQuotedString();
+    }
+    if (/[&*!]/.test(this.text[this.index] || '')) {
+      throw yamlError(this.lineNumber, 'anchors, aliases and tags are not supported');
+    }
+
+    const start = this.index;
+    while (this.index < this.text.length && !/[,\]}]/.test(this.text[this.index])) {
+      if (isKey && this.text[this.index] === ':' && /[\s,\]}]|^$/.test(this.text[this.index + 1] || '')) {
+        break;
+      }
+      this.index++;
+    }
+    const value = this.text.substring(start, this.index).trim();
+    return isKey ? value : resolvePlainScalar(value);
+  }
+
+  private readQuotedString(): string {
+    const quote = this.text[this.index++];
+    let value = '';
+    while (this.index < this.text.length) {
+      const char = this.text[this.index++];
+      if (quote === "'" && char === "'") {
+        if (this.text[this.index] !== "'") {
+          return value;
+        }
+        value += "'";
+        this.index++;
+      } else if (quote === '"' && char === '"') {
+        return value;
+      } else if (quote === '"' && char === '\\') {
+        value += this.readEscape();
+      } else {
+        value += char;
+      }
+    }
+    throw yamlError(this.lineNumber, `unterminated ${quote} string`);
+  }
+
+  private readEscape(): string {
+    const char = this.text[this.index++];
+    const escapes: Record<string, string> = {
+      n: '\n', t: '\t', r: '\r', '0': '\0', '"': '"', '\\': '\\', '/': '/', ' ': ' ', e: '\x1b',
+    };
+    if (escapes[char] !== undefined) {
+      return escapes[char];
+    }
+
+    const length = char === 'x' ? 2 : char === 'u' ? 4 : char === 'U' ? 8 : 0;
+    const digits = this.text.substring(this.index, this.index + length);
+    if (!length || !new RegExp(`^[0-9a-fA-F]{${length}}$`).test(digits)) {
+      throw yamlError(this.lineNumber, `invalid escape "\\${char}"`);
+    }
+    this.index += length;
+    return String.fromCodePoint(parseInt(digits, 16));
+  }
+}
+
+function yamlError(lineNumber: number, message: string): Error {
+  return new Error(`YAML line ${lineNumber}: ${message}`);
+}
+
+function isDocumentMarker(line: YamlLine): boolean {
+  return line.indent === 0 && (line.text === '---' || line.text === '...');
+}
+
+function isSequenceEntry(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+function readKeyText(key: string, lineNumber: number): string {
+  if (/^["']/.test(key)) {
+    return new FlowReader(key, lineNumber).readQuoted();
+  }
+  return key;
+}
+
+// Remove a comment, which starts with "#" at the line start or after a space, outside quotes
+function stripComment(text: string): string {
+  let quote: string | undefined;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      if ((char === '\\' && quote === '"') || (char === "'" && quote === "'" && text[index + 1] === "'")) {
+        index++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '#' && (index === 0 || /\s/.test(text[index - 1]))) {
+      return text.substring(0, index);
+    } else if ((char === '"' || char === "'") && (index === 0 || /[\s:[{,-]/.test(text[index - 1]))) {
+      quote = char;
+    }
+  }
+  return text;
+}
+
+// Whether brackets and quotes of a flow value or quoted string are closed
+function isComplete(text: string): boolean {
+  let depth = 0;
+  let quote: string | undefined;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      if ((char === '\\' && quote === '"') || (char === "'" && quote === "'" && text[index + 1] === "'")) {
+        index++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    }
+  }
+  return !quote && depth <= 0;
+}
+
+// Folded block scalars join lines with spaces; blank lines become breaks and more indented lines keep theirs
+function foldLines(lines: string[]): string {
+  let result = '';
+  lines.forEach((line, index) => {
+    const previous = lines[index - 1];
+    if (index === 0) {
+      result = line;
+    } else if (!line) {
+      result += '\n';
+    } else if (!previous) {
+      result += line;
+    } else if (/^\s/.test(line) || /^\s/.test(previous)) {
+      result += `\n${line}`;
+    } else {
+      result += ` ${line}`;
+    }
+  });
+  return result;
+}
+
+// YAML 1.2 core schema: null, booleans, numbers, everything else is a string
+function resolvePlainScalar(text: string): unknown {
+  if (/^(null|Null|NULL|~|)$/.test(text)) {
+    return null;
+  }
+  if (/^(true|True|TRUE)$/.test(text)) {
+    return true;
+  }
+  if (/^(false|False|FALSE)$/.test(text)) {
+    return false;
+  }
+  if (INTEGER.test(text)) {
+    return parseInt(text, 10);
+  }
+  if (/^0x[0-9a-fA-F]+$/.test(text)) {
+    return parseInt(text.substring(2), 16);
+  }
+  if (/^0o[0-7]+$/.test(text)) {
+    return parseInt(text.substring(2), 8);
+  }
+  if (FLOAT.test(text)) {
+    return parseFloat(text);
+  }
+  if (/^[-+]?\.(inf|Inf|INF)$/.test(text)) {
+    return text.startsWith('-') ? -Infinity : Infinity;
+  }
+  if (/^\.(nan|NaN|NAN)$/.test(text)) {
+    return NaN;
+  }
+  return text;
+}
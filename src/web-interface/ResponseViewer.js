@@ -46,6 +46,8 @@ class ResponseViewer {
                         </span>
                     </div>
                 </div>
+                ${this.renderSignatureVerification(response.data && response.data.verification)}
+                ${this.renderExchanges(response.data && response.data.exchanges)}
                 <div class="response-body-container">
                     <div class="response-body-header">
                         <span>Response Body</span>
@@ -107,6 +109,7 @@ class ResponseViewer {
                         </span>
                     </div>
                 </div>
+                ${this.renderExchanges(errorDetails.data && errorDetails.data.exchanges)}
                 <div class="error-details">
                     <div class="error-message">
                         <div class="error-section-header">
@@ -235,6 +238,111 @@ class ResponseViewer {
         return statusTexts[statusCode] || 'Unknown';
     }
     
+    /**
+     * Render the on-device signature verification outcome, if the response carries one
+     * @param {Object} verification - Verification result ({status, algorithm, keySize, reason})
+     * @returns {string} HTML string, empty when there is nothing to show
+     */
+    renderSignatureVerification(verification) {
+        if (!verification || !verification.status) return '';
+        
+        const labels = {
+            verified: '✅ Signature verified on device',
+            failed: '❌ Signature failed on-device verification',
+            skipped: '⏭️ On-device verification skipped'
+        };
+        const algorithm = verification.algorithm
+            ? `${verification.algorithm}${verification.keySize ? `, ${verification.keySize}-bit key` : ''}`
+            : '';
+        
+        return `
+            <div class="response-verification ${this.escapeHtml(verification.status)}">
+                <strong>${labels[verification.status] || this.escapeHtml(verification.status)}</strong>
+                ${algorithm ? `<span class="response-verification-algorithm">${this.escapeHtml(algorithm)}</span>` : ''}
+                ${verification.reason ? `<div class="response-verification-reason">${this.escapeHtml(verification.reason)}</div>` : ''}
+            </div>
+        `;
+    }
+    
+    /**
+     * Build a cURL command that replays a recorded request
+     * @param {Object} request - Recorded request ({method, url, headers, body}), credentials masked
+     * @returns {string} Command with one option per line
+     */
+    toCurlCommand(request) {
+        const quote = value => `'${String(value).replace(/'/g, `'\\''`)}'`;
+        const method = request.method.toUpperCase();
+        const hasBody = request.body !== undefined && request.body !== '';
+        
+        return [
+            `curl${method === 'GET' && !hasBody ? '' : ` -X ${method}`} ${quote(request.url)}`,
+            ...Object.entries(request.headers || {}).map(([name, value]) => `-H ${quote(`${name}: ${value}`)}`),
+            ...(hasBody ? [`--data-raw ${quote(request.body)}`] : [])
+        ].join(' \\\n  ');
+    }
+    
+    /**
+     * Render every HTTP exchange of the operation's backend calls, each one expandable
+     * @param {Array} exchanges - Recorded exchanges, credentials already masked
+     * @returns {string} HTML string, empty when no request was sent
+     */
+    renderExchanges(exchanges) {
+        if (!Array.isArray(exchanges) || exchanges.length === 0) return '';
+        
+        const formatHeaders = headers => Object.entries(headers || {})
+            .map(([name, value]) => `${name}: ${value}`)
+            .join('\n');
+        const items = exchanges.map(exchange => {
+            const { request, response, timings } = exchange;
+            const outcome = response
+                ? `${response.status} ${response.statusText || this.getStatusText(response.status)}`
+                : exchange.error || 'No response';
+            const timing = timings.dnsMs !== undefined
+                ? `${timings.totalMs} ms (DNS ${timings.dnsMs} ms)`
+                : `${timings.totalMs} ms`;
+            const requestText = [formatHeaders(request.headers), request.body].filter(Boolean).join('\n\n');
+            const responseText = response
+                ? [formatHeaders(response.headers), response.body].filter(Boolean).join('\n\n')
+                : '';
+            
+            return `
+                <details class="response-exchange ${response && response.status < 400 ? 'ok' : 'failed'}">
+                    <summary>
+                        <strong>${this.escapeHtml(request.method)}</strong> ${this.escapeHtml(request.url)}
+                        → ${this.escapeHtml(outcome)} <span class="response-exchange-timing">${this.escapeHtml(timing)}</span>
+                    </summary>
+                    <div class="response-exchange-section">Request</div>
+                    <pre class="response-exchange-content">${this.escapeHtml(requestText)}</pre>
+                    ${response ? `
+                        <div class="response-exchange-section">Response</div>
+                        <pre class="response-exchange-content">${this.escapeHtml(responseText)}</pre>
+                    ` : ''}
+                    <div class="response-exchange-curl">
+                        <div class="response-exchange-section">
+                            <span>cURL</span>
+                            <button class="copy-response-btn" onclick="responseViewer.copyToClipboard(this)" title="Copy as cURL">
+                                📋 Copy as cURL
+                            </button>
+                        </div>
+                        <pre class="response-exchange-content">${this.escapeHtml(this.toCurlCommand(request))}</pre>
+                    </div>
+                </details>
+            `;
+        }).join('');
+        
+        return `
+            <div class="response-exchanges">
+                <div class="response-body-header">
+                    <span>🌐 HTTP exchanges (${exchanges.length})</span>
+                    <a class="copy-response-btn" href="/api/exchanges.har" download title="Download recent exchanges as a HAR file">
+                        💾 Download HAR
+                    </a>
+                </div>
+                ${items}
+            </div>
+        `;
+    }
+    
     /**
      * Format byte size for display
      * @param {number} bytes - Size in bytes
@@ -253,7 +361,7 @@ class ResponseViewer {
      * @param {HTMLElement} button - The copy button that was clicked
      */
     copyToClipboard(button) {
-        const container = button.closest('.response-body-container, .error-additional, .error-stack');
+        const container = button.closest('.response-body-container, .error-additional, .error-stack, .response-exchange-curl');
         const content = container.querySelector('pre').textContent;
         
         navigator.clipboard.writeText(content).then(() => {
@@ -341,6 +449,85 @@ class ResponseViewer {
                 border: 1px solid #f5c6cb;
             }
             
+            .response-verification {
+                margin-bottom: 1rem;
+                padding: 0.75rem 1rem;
+                border-radius: 6px;
+                font-size: 0.85rem;
+                border: 1px solid #e1e5e9;
+            }
+            
+            .response-verification.verified {
+                background-color: #d4edda;
+                color: #155724;
+                border-color: #c3e6cb;
+            }
+            
+            .response-verification.failed {
+                background-color: #f8d7da;
+                color: #721c24;
+                border-color: #f5c6cb;
+            }
+            
+            .response-verification.skipped {
+                background-color: #e9ecef;
+                color: #495057;
+            }
+            
+            .response-verification-algorithm {
+                margin-left: 0.5rem;
+                font-family: 'Monaco', 'Menlo', 'Ubuntu Mono', monospace;
+                font-size: 0.75rem;
+            }
+            
+            .response-verification-reason {
+                margin-top: 0.25rem;
+            }
+            
+            .response-exchanges {
+                margin-bottom: 1rem;
+                border: 1px solid #e1e5e9;
+                border-radius: 6px;
+                font-size: 0.85rem;
+            }
+            
+            .response-exchange {
+                padding: 0.5rem 1rem;
+                border-top: 1px solid #e1e5e9;
+            }
+            
+            .response-exchange summary {
+                cursor: pointer;
+                word-break: break-all;
+            }
+            
+            .response-exchange.failed summary {
+                color: #721c24;
+            }
+            
+            .response-exchange-timing {
+                color: #666;
+            }
+            
+            .response-exchange-section {
+                display: flex;
+                justify-content: space-between;
+                align-items: center;
+                margin-top: 0.5rem;
+                font-weight: 600;
+            }
+            
+            .response-exchange-content {
+                margin: 0.25rem 0 0;
+                padding: 0.5rem;
+                background-color: #f8f9fa;
+                border-radius: 3px;
+                font-family: 'Monaco', 'Menlo', 'Ubuntu Mono', monospace;
+                font-size: 0.75rem;
+                white-space: pre-wrap;
+                word-break: break-all;
+            }
+            
             .response-content-type {
                 background-color: #e9ecef;
                 color: #495057;
@@ -151,6 +151,89 @@ describe('ResponseViewer', () => {
         });
     });
 
+    describe('renderSignatureVerification', () => {
+        test('should show verified signatures with their algorithm', () => {
+            responseViewer.displayResponse({
+                success: true,
+                data: {
+                    signature: 'abc',
+                    verification: { status: 'verified', algorithm: 'RSASSA-PKCS1-v1_5-SHA256', keySize: 2048 }
+                }
+            });
+
+            expect(mockDOMElements.responseContent.innerHTML).toContain('response-verification verified');
+            expect(mockDOMElements.responseContent.innerHTML).toContain('RSASSA-PKCS1-v1_5-SHA256, 2048-bit key');
+        });
+
+        test('should show the failure reason', () => {
+            const html = responseViewer.renderSignatureVerification({
+                status: 'failed',
+                reason: 'Signature does not match the payload for this public key'
+            });
+
+            expect(html).toContain('failed on-device verification');
+            expect(html).toContain('does not match the payload');
+        });
+
+        test('should render nothing without a verification result', () => {
+            expect(responseViewer.renderSignatureVerification(undefined)).toBe('');
+        });
+    });
+
+    describe('renderExchanges', () => {
+        const exchange = {
+            startedDateTime: '2024-01-01T00:00:00.000Z',
+            request: {
+                method: 'POST',
+                url: 'https://api.example.com/validate',
+                headers: { Authorization: 'Bearer ********' },
+                body: '{"signature":"<sig>"}'
+            },
+            response: { status: 401, statusText: 'Unauthorized', headers: { 'www-authenticate': 'Bearer' }, body: '' },
+            timings: { totalMs: 35, dnsMs: 3 }
+        };
+
+        test('should list each exchange with its request and response', () => {
+            responseViewer.displayResponse({ success: false, data: { exchanges: [exchange] } });
+
+            const html = mockDOMElements.responseContent.innerHTML;
+            expect(html).toContain('HTTP exchanges (1)');
+            expect(html).toContain('response-exchange failed');
+            expect(html).toContain('401 Unauthorized');
+            expect(html).toContain('35 ms (DNS 3 ms)');
+            expect(html).toContain('Authorization: Bearer ********');
+            expect(html).toContain('&lt;sig&gt;');
+            expect(html).toContain('href="/api/exchanges.har"');
+        });
+
+        test('should show the error of a request that got no response', () => {
+            const html = responseViewer.renderExchanges([
+                { ...exchange, response: undefined, error: 'Request timeout after 5000ms', timings: { totalMs: 5000 } }
+            ]);
+
+            expect(html).toContain('Request timeout after 5000ms');
+            expect(html).not.toContain('Response</div>');
+        });
+
+        test('should offer each request as a cURL command', () => {
+            const html = responseViewer.renderExchanges([exchange]);
+
+            expect(html).toContain('Copy as cURL');
+            expect(responseViewer.toCurlCommand(exchange.request)).toBe([
+                "curl -X POST 'https://api.example.com/validate'",
+                "-H 'Authorization: Bearer ********'",
+                `--data-raw '{"signature":"<sig>"}'`
+            ].join(' \\\n  '));
+            expect(responseViewer.toCurlCommand({ method: 'GET', url: "https://x.test/it's", headers: {} }))
+                .toBe(`curl 'https://x.test/it'\\''s'`);
+        });
+
+        test('should render nothing without exchanges', () => {
+            expect(responseViewer.renderExchanges(undefined)).toBe('');
+            expect(responseViewer.renderExchanges([])).toBe('');
+        });
+    });
+
     describe('displayError', () => {
         test('should display error with message and stack trace', () => {
             const mockError = {
@@ -18,6 +18,10 @@ class WebControlApp {
         this.actionButtons = new ActionButtons(this);
         this.logsViewer = new LogsViewer();
         this.responseViewer = new ResponseViewer();
+        this.keyDetailsViewer = new KeyDetailsViewer();
+        this.promptProfilesEditor = new PromptProfilesEditor();
+        this.variablesEditor = new VariablesEditor();
+        this.openApiImporter = new OpenApiImporter(this.endpointConfigPanel);
         
         this.init();
     }
@@ -48,6 +52,9 @@ class WebControlApp {
             this.reconnectAttempts = 0;
             this.updateConnectionStatus(true);
             this.requestInitialState();
+            this.keyDetailsViewer.refresh();
+            this.promptProfilesEditor.refresh();
+            this.variablesEditor.refresh();
         };
         
         this.websocket.onmessage = (event) => {
@@ -121,11 +128,64 @@ class WebControlApp {
         this.actionButtons.setLoading(message.data.operation, false);
         this.responseViewer.displayResponse(message.data.result);
         this.updateOperationStatus('connected');
+        this.keyDetailsViewer.refresh();
+        this.variablesEditor.refresh();
+        
+        // Biometric failures carry a classified error with a remediation hint
+        const result = message.data.result;
+        if (result && result.error && result.error.remediation) {
+            this.logsViewer.addLogEntry({
+                level: 'warn',
+                message: `${result.error.code}: ${result.error.remediation}`,
+                timestamp: new Date().toISOString(),
+                source: 'web-control'
+            });
+        }
     }
     
     handleStateSync(state) {
         // Update UI with current app state
         this.endpointConfigPanel.updateFromState(state);
+        
+        const providerSelect = document.getElementById('biometricProviderSelect');
+        if (providerSelect && state && state.biometricProvider) {
+            providerSelect.value = state.biometricProvider;
+        }
+        
+        // The device keystore holds a single key, so only the default slot can be used with it
+        const keyAliasInput = document.getElementById('keyAliasInput');
+        if (keyAliasInput && state && state.keySlotsSupported !== undefined) {
+            keyAliasInput.disabled = !state.keySlotsSupported;
+            if (!state.keySlotsSupported) {
+                keyAliasInput.value = 'default';
+            }
+            keyAliasInput.title = state.keySlotsSupported
+                ? 'Key slot used for enroll, validate and delete'
+                : 'This provider holds a single key in the "default" slot; switch to the simulated provider to use more slots';
+        }
+    }
+    
+    selectBiometricProvider(biometricProvider) {
+        fetch('/api/config', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ biometricProvider })
+        })
+            .then(response => response.json())
+            .then(result => {
+                this.logsViewer.addLogEntry({
+                    level: result.success ? 'info' : 'error',
+                    message: result.success
+                        ? `Biometric provider set to "${biometricProvider}"`
+                        : `Failed to switch biometric provider: ${result.error}`,
+                    timestamp: new Date().toISOString(),
+                    source: 'web-control'
+                });
+                this.keyDetailsViewer.refresh();
+            })
+            .catch(error => {
+                console.warn('Failed to switch biometric provider:', error);
+            });
     }
     
     handleConfigUpdate(config) {
@@ -224,6 +284,14 @@ class WebControlApp {
             });
         }
         
+        // Biometric provider selection
+        const providerSelect = document.getElementById('biometricProviderSelect');
+        if (providerSelect) {
+            providerSelect.addEventListener('change', () => {
+                this.selectBiometricProvider(providerSelect.value);
+            });
+        }
+        
         // Window resize handler for mobile detection
         window.addEventListener('resize', () => {
             this.checkDeviceType();
@@ -267,7 +335,7 @@ class WebControlApp {
 }
 
 /**
- * TabManager - Handles switching between validation and enrollment tabs
+ * TabManager - Handles switching between the endpoint configuration tabs
  */
 class TabManager {
     constructor() {
@@ -323,17 +391,57 @@ class TabManager {
 class EndpointConfigPanel {
     constructor() {
         this.validationConfig = {
+            url: '',
+            method: 'POST',
+            headers: {},
+            payload: {},
+            customPayload: '{date}',
+            payloadVariables: {}
+        };
+        
+        this.authenticationConfig = {
             url: '',
             method: 'POST',
             headers: {},
             payload: {}
         };
         
+        this.unenrollmentConfig = {
+            url: '',
+            method: 'DELETE',
+            headers: {},
+            payload: {},
+            deleteLocallyOnFailure: false
+        };
+        
+        this.previewTimer = null;
+        
+        // Endpoints that call the backend, each with a timeout and retry policy, response assertions,
+        // capture rules, credentials and request signing
+        this.backendEndpointTypes = ['validation', 'enrollment', 'authentication', 'unenrollment'];
+        
+        // Credential inputs of each endpoint, as `${type}Auth${field}`
+        this.authFields = ['Token', 'Username', 'Password', 'Name', 'Value', 'TokenUrl', 'ClientId', 'ClientSecret', 'Scope', 'Audience'];
+        
+        // Endpoints a cURL command can be imported into, with the app's name for each
+        this.curlImportTypes = { validation: 'validate', enrollment: 'enroll', unenrollment: 'unenroll' };
+        
+        // Placeholders a body template may use, per endpoint
+        this.bodyTemplatePlaceholders = {
+            validation: ['signature', 'payload', 'challenge', 'keyAlias', 'timestamp'],
+            enrollment: ['publicKey', 'publicKeyFormat', 'enrollmentPolicy', 'keyAlias', 'timestamp']
+        };
+        
         this.enrollmentConfig = {
             url: '',
             method: 'POST',
             headers: {},
-            payload: {}
+            payload: {},
+            publicKeyFormat: 'base64',
+            enrollmentPolicy: {
+                allowDeviceCredentials: false,
+                requireConfirmation: false
+            }
         };
         
         this.init();
@@ -389,9 +497,108 @@ class EndpointConfigPanel {
             });
         }
         
+        ['validationChallengeUrl', 'validationChallengeMethod', 'validationChallengePath'].forEach(id => {
+            const element = document.getElementById(id);
+            if (element) {
+                element.addEventListener(element.tagName === 'SELECT' ? 'change' : 'input', () => {
+                    this.updateChallengeConfig();
+                    this.saveConfiguration();
+                });
+            }
+        });
+        
+        const validationPayloadTemplate = document.getElementById('validationPayloadTemplate');
+        const validationPayloadVariables = document.getElementById('validationPayloadVariables');
+        
+        if (validationPayloadTemplate) {
+            validationPayloadTemplate.addEventListener('input', (e) => {
+                this.validationConfig.customPayload = e.target.value;
+                this.saveConfiguration();
+                this.schedulePayloadPreview();
+            });
+        }
+        
+        if (validationPayloadVariables) {
+            validationPayloadVariables.addEventListener('input', (e) => {
+                this.validationConfig.payloadVariables = this.parseVariables(e.target.value);
+                this.saveConfiguration();
+                this.schedulePayloadPreview();
+            });
+        }
+        
+        Object.keys(this.curlImportTypes).forEach(type => {
+            const importButton = document.getElementById(`${type}CurlImportBtn`);
+            if (importButton) {
+                importButton.addEventListener('click', () => this.importCurl(type));
+            }
+        });
+        
+        ['validation', 'enrollment'].forEach(type => {
+            const bodyTemplate = document.getElementById(`${type}BodyTemplate`);
+            if (bodyTemplate) {
+                bodyTemplate.addEventListener('input', (e) => {
+                    this.updateBodyTemplate(type, e.target.value);
+                    this.saveConfiguration();
+                });
+            }
+        });
+        
+        // Timeout and retry policy of every endpoint
+        this.backendEndpointTypes.forEach(type => {
+            ['TimeoutMs', 'MaxRetries', 'Backoff', 'BackoffDelayMs', 'RetryOnStatus'].forEach(field => {
+                const input = document.getElementById(`${type}${field}`);
+                if (input) {
+                    input.addEventListener(input.tagName === 'SELECT' ? 'change' : 'input', () => {
+                        this.updateRequestPolicy(type);
+                        this.saveConfiguration();
+                    });
+                }
+            });
+            
+            const assertions = document.getElementById(`${type}Assertions`);
+            if (assertions) {
+                assertions.addEventListener('input', (e) => {
+                    this.updateAssertions(type, e.target.value);
+                    this.saveConfiguration();
+                });
+            }
+            
+            const captures = document.getElementById(`${type}Captures`);
+            if (captures) {
+                captures.addEventListener('input', (e) => {
+                    this.updateCaptures(type, e.target.value);
+                    this.saveConfiguration();
+                });
+            }
+            
+            ['Secret', 'CanonicalTemplate', 'SignatureHeader', 'TimestampHeader'].forEach(field => {
+                const input = document.getElementById(`${type}Signing${field}`);
+                if (input) {
+                    input.addEventListener('input', () => {
+                        this.updateSigning(type);
+                        this.saveConfiguration();
+                    });
+                }
+            });
+            
+            this.authFields.concat('Type', 'Location').forEach(field => {
+                const input = document.getElementById(`${type}Auth${field}`);
+                if (input) {
+                    input.addEventListener(input.tagName === 'SELECT' ? 'change' : 'input', () => {
+                        this.updateAuth(type);
+                        this.saveConfiguration();
+                    });
+                }
+            });
+        });
+        
         // Enrollment configuration
         const enrollmentUrl = document.getElementById('enrollmentUrl');
         const enrollmentMethod = document.getElementById('enrollmentMethod');
+        const enrollmentKeyFormat = document.getElementById('enrollmentKeyFormat');
+        const enrollmentAlgorithm = document.getElementById('enrollmentAlgorithm');
+        const enrollmentDeviceCredentials = document.getElementById('enrollmentDeviceCredentials');
+        const enrollmentRequireConfirmation = document.getElementById('enrollmentRequireConfirmation');
         const enrollmentHeaders = document.getElementById('enrollmentHeaders');
         const enrollmentPayload = document.getElementById('enrollmentPayload');
         
@@ -409,6 +616,31 @@ class EndpointConfigPanel {
             });
         }
         
+        if (enrollmentKeyFormat) {
+            enrollmentKeyFormat.addEventListener('change', (e) => {
+                this.enrollmentConfig.publicKeyFormat = e.target.value;
+                this.saveConfiguration();
+            });
+        }
+        
+        if (enrollmentAlgorithm) {
+            enrollmentAlgorithm.addEventListener('change', (e) => {
+                this.updateEnrollmentPolicy({ algorithm: e.target.value || undefined });
+            });
+        }
+        
+        if (enrollmentDeviceCredentials) {
+            enrollmentDeviceCredentials.addEventListener('change', (e) => {
+                this.updateEnrollmentPolicy({ allowDeviceCredentials: e.target.value === 'true' });
+            });
+        }
+        
+        if (enrollmentRequireConfirmation) {
+            enrollmentRequireConfirmation.addEventListener('change', (e) => {
+                this.updateEnrollmentPolicy({ requireConfirmation: e.target.value === 'true' });
+            });
+        }
+        
         if (enrollmentHeaders) {
             enrollmentHeaders.addEventListener('input', (e) => {
                 try {
@@ -432,6 +664,76 @@ class EndpointConfigPanel {
                 this.saveConfiguration();
             });
         }
+        
+        // Authentication report configuration
+        const authenticationUrl = document.getElementById('authenticationUrl');
+        const authenticationMethod = document.getElementById('authenticationMethod');
+        const authenticationHeaders = document.getElementById('authenticationHeaders');
+        
+        if (authenticationUrl) {
+            authenticationUrl.addEventListener('input', (e) => {
+                this.authenticationConfig.url = e.target.value;
+                this.saveConfiguration();
+            });
+        }
+        
+        if (authenticationMethod) {
+            authenticationMethod.addEventListener('change', (e) => {
+                this.authenticationConfig.method = e.target.value;
+                this.saveConfiguration();
+            });
+        }
+        
+        if (authenticationHeaders) {
+            authenticationHeaders.addEventListener('input', (e) => {
+                try {
+                    this.authenticationConfig.headers = JSON.parse(e.target.value || '{}');
+                    e.target.style.borderColor = '#ddd';
+                } catch (error) {
+                    e.target.style.borderColor = '#e74c3c';
+                }
+                this.saveConfiguration();
+            });
+        }
+        
+        // Unenrollment configuration
+        const unenrollmentUrl = document.getElementById('unenrollmentUrl');
+        const unenrollmentMethod = document.getElementById('unenrollmentMethod');
+        const unenrollmentDeleteLocally = document.getElementById('unenrollmentDeleteLocally');
+        const unenrollmentHeaders = document.getElementById('unenrollmentHeaders');
+        
+        if (unenrollmentUrl) {
+            unenrollmentUrl.addEventListener('input', (e) => {
+                this.unenrollmentConfig.url = e.target.value;
+                this.saveConfiguration();
+            });
+        }
+        
+        if (unenrollmentMethod) {
+            unenrollmentMethod.addEventListener('change', (e) => {
+                this.unenrollmentConfig.method = e.target.value;
+                this.saveConfiguration();
+            });
+        }
+        
+        if (unenrollmentDeleteLocally) {
+            unenrollmentDeleteLocally.addEventListener('change', (e) => {
+                this.unenrollmentConfig.deleteLocallyOnFailure = e.target.value === 'true';
+                this.saveConfiguration();
+            });
+        }
+        
+        if (unenrollmentHeaders) {
+            unenrollmentHeaders.addEventListener('input', (e) => {
+                try {
+                    this.unenrollmentConfig.headers = JSON.parse(e.target.value || '{}');
+                    e.target.style.borderColor = '#ddd';
+                } catch (error) {
+                    e.target.style.borderColor = '#e74c3c';
+                }
+                this.saveConfiguration();
+            });
+        }
     }
     
     loadDefaultValues() {
@@ -443,6 +745,8 @@ class EndpointConfigPanel {
         
         const validationHeaders = document.getElementById('validationHeaders');
         const enrollmentHeaders = document.getElementById('enrollmentHeaders');
+        const authenticationHeaders = document.getElementById('authenticationHeaders');
+        const unenrollmentHeaders = document.getElementById('unenrollmentHeaders');
         
         if (validationHeaders && !validationHeaders.value) {
             validationHeaders.value = JSON.stringify(defaultHeaders, null, 2);
@@ -453,6 +757,540 @@ class EndpointConfigPanel {
             enrollmentHeaders.value = JSON.stringify(defaultHeaders, null, 2);
             this.enrollmentConfig.headers = defaultHeaders;
         }
+        
+        if (authenticationHeaders && !authenticationHeaders.value) {
+            authenticationHeaders.value = JSON.stringify(defaultHeaders, null, 2);
+            this.authenticationConfig.headers = defaultHeaders;
+        }
+        
+        if (unenrollmentHeaders && !unenrollmentHeaders.value) {
+            unenrollmentHeaders.value = JSON.stringify(defaultHeaders, null, 2);
+            this.unenrollmentConfig.headers = defaultHeaders;
+        }
+        
+        this.schedulePayloadPreview();
+    }
+    
+    updateChallengeConfig() {
+        const url = document.getElementById('validationChallengeUrl');
+        const method = document.getElementById('validationChallengeMethod');
+        const path = document.getElementById('validationChallengePath');
+        
+        if (url && url.value.trim()) {
+            this.validationConfig.challenge = {
+                url: url.value.trim(),
+                method: method ? method.value : 'GET',
+                challengePath: path ? path.value.trim() : ''
+            };
+        } else {
+            delete this.validationConfig.challenge;
+        }
+    }
+    
+    importCurl(type) {
+        // The app parses and saves the command, so both sides report the same unsupported options
+        const input = document.getElementById(`${type}CurlImport`);
+        if (!input || !input.value.trim()) return;
+        
+        fetch('/api/import/curl', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ type: this.curlImportTypes[type], command: input.value })
+        })
+            .then(response => response.json())
+            .then(result => {
+                if (!result.success) {
+                    const errors = result.data && result.data.errors;
+                    throw new Error(errors ? errors.join('\n') : result.error || 'Failed to import the cURL command');
+                }
+                // Headers and body template the command does not set are dropped, not kept
+                this.loadConfiguration({ [type]: { headers: {}, bodyTemplate: undefined, ...result.data.config } });
+                this.saveConfiguration();
+                input.value = '';
+                this.showCurlImportStatus(type, 'Imported and saved on the device.');
+            })
+            .catch(error => {
+                this.showCurlImportStatus(type, error.message, true);
+            });
+    }
+    
+    showCurlImportStatus(type, message, isError = false) {
+        const status = document.getElementById(`${type}CurlImportStatus`);
+        if (!status) return;
+        status.classList.toggle('error', isError);
+        status.style.whiteSpace = 'pre-line';
+        status.textContent = message;
+    }
+    
+    updateBodyTemplate(type, text) {
+        const config = this.getConfiguration(type);
+        if (text.trim()) {
+            config.bodyTemplate = text;
+        } else {
+            delete config.bodyTemplate;
+        }
+        this.showBodyTemplateStatus(type);
+    }
+    
+    showBodyTemplateStatus(type) {
+        const textarea = document.getElementById(`${type}BodyTemplate`);
+        const status = document.getElementById(`${type}BodyTemplateStatus`);
+        const error = this.validateBodyTemplate(type);
+        
+        if (textarea) textarea.style.borderColor = error ? '#e74c3c' : '#ddd';
+        if (status) {
+            status.classList.toggle('error', Boolean(error));
+            status.textContent = error || `JSON sent instead of the default request body. Placeholders: ${
+                this.bodyTemplatePlaceholders[type].map(name => `{{${name}}}`).join(', ')
+            }, and any captured {{variable}}`;
+        }
+    }
+    
+    validateBodyTemplate(type) {
+        // Mirrors the app's check: valid JSON that does not use the other request type's placeholders;
+        // any other name refers to a captured variable
+        const template = this.getConfiguration(type).bodyTemplate;
+        if (!template) return null;
+        
+        try {
+            JSON.parse(template);
+        } catch (error) {
+            return `Body template is not valid JSON: ${error.message}`;
+        }
+        
+        const known = this.bodyTemplatePlaceholders[type];
+        const unavailable = Object.values(this.bodyTemplatePlaceholders)
+            .flat()
+            .filter(name => !known.includes(name));
+        const unknown = [...template.matchAll(/\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g)]
+            .map(match => match[1])
+            .find(name => unavailable.includes(name));
+        return unknown ? `Unknown placeholder {{${unknown}}}` : null;
+    }
+    
+    updateRequestPolicy(type) {
+        const config = this.getConfiguration(type);
+        const value = field => {
+            const input = document.getElementById(`${type}${field}`);
+            return input ? input.value.trim() : '';
+        };
+        
+        const policy = {};
+        if (value('TimeoutMs')) policy.timeoutMs = Number(value('TimeoutMs'));
+        if (value('MaxRetries')) policy.maxRetries = Number(value('MaxRetries'));
+        if (value('Backoff')) policy.backoff = value('Backoff');
+        if (value('BackoffDelayMs')) policy.backoffDelayMs = Number(value('BackoffDelayMs'));
+        if (value('RetryOnStatus')) {
+            policy.retryOnStatus = value('RetryOnStatus')
+                .split(',')
+                .map(code => code.trim())
+                .filter(code => code)
+                .map(code => (/^\d+$/.test(code) ? parseInt(code, 10) : NaN));
+        }
+        
+        config.requestPolicy = policy;
+        this.showRequestPolicyStatus(type);
+    }
+    
+    updateRequestPolicyUI(type) {
+        const policy = this.getConfiguration(type).requestPolicy || {};
+        const setValue = (field, value) => {
+            const input = document.getElementById(`${type}${field}`);
+            if (input) input.value = value === undefined ? '' : value;
+        };
+        
+        setValue('TimeoutMs', policy.timeoutMs);
+        setValue('MaxRetries', policy.maxRetries);
+        setValue('Backoff', policy.backoff || 'linear');
+        setValue('BackoffDelayMs', policy.backoffDelayMs);
+        setValue('RetryOnStatus', (policy.retryOnStatus || []).join(', '));
+        this.showRequestPolicyStatus(type);
+    }
+    
+    showRequestPolicyStatus(type) {
+        const status = document.getElementById(`${type}RequestPolicyStatus`);
+        const error = this.validateRequestPolicy(type);
+        
+        if (status) {
+            status.classList.toggle('error', Boolean(error));
+            status.textContent = error ||
+                'Network errors and timeouts are retried; listed status codes are retried too. Empty fields use the defaults.';
+        }
+    }
+    
+    validateRequestPolicy(type) {
+        // Mirrors the app's limits for timeout and retry settings
+        const policy = this.getConfiguration(type).requestPolicy;
+        if (!policy) return null;
+        
+        const isWholeNumber = (value, min, max) => Number.isInteger(value) && value >= min && value <= max;
+        if (policy.timeoutMs !== undefined && !isWholeNumber(policy.timeoutMs, 1, 300000)) {
+            return 'Timeout must be a whole number of milliseconds between 1 and 300000';
+        }
+        if (policy.maxRetries !== undefined && !isWholeNumber(policy.maxRetries, 0, 10)) {
+            return 'Max retries must be a whole number between 0 and 10';
+        }
+        if (policy.backoffDelayMs !== undefined && !isWholeNumber(policy.backoffDelayMs, 0, 60000)) {
+            return 'Backoff delay must be a whole number of milliseconds between 0 and 60000';
+        }
+        if (policy.retryOnStatus && !policy.retryOnStatus.every(status => isWholeNumber(status, 100, 599))) {
+            return 'Retry-on status codes must be a list of HTTP status codes between 100 and 599';
+        }
+        return null;
+    }
+    
+    updateAssertions(type, text) {
+        const config = this.getConfiguration(type);
+        
+        if (!text.trim()) {
+            delete config.assertions;
+        } else {
+            try {
+                config.assertions = JSON.parse(text);
+            } catch (error) {
+                // Kept as text so validation reports it until it parses
+                config.assertions = text;
+            }
+        }
+        this.showAssertionsStatus(type);
+    }
+    
+    updateAssertionsUI(type) {
+        const assertions = this.getConfiguration(type).assertions;
+        const input = document.getElementById(`${type}Assertions`);
+        
+        if (input) {
+            input.value = assertions === undefined
+                ? ''
+                : typeof assertions === 'string' ? assertions : JSON.stringify(assertions, null, 2);
+        }
+        this.showAssertionsStatus(type);
+    }
+    
+    showAssertionsStatus(type) {
+        const status = document.getElementById(`${type}AssertionsStatus`);
+        const error = this.validateAssertions(type);
+        
+        if (status) {
+            status.classList.toggle('error', Boolean(error));
+            status.textContent = error ||
+                'Checked on every response. An expected status replaces the default 2xx check; every assertion has to pass.';
+        }
+    }
+    
+    validateAssertions(type) {
+        // Mirrors the app's checks; JSON paths and patterns are checked again by the app
+        const assertions = this.getConfiguration(type).assertions;
+        if (assertions === undefined) return null;
+        if (typeof assertions === 'string') return 'Assertions are not valid JSON';
+        if (!Array.isArray(assertions)) return 'Assertions must be a list';
+        
+        const isFilled = value => typeof value === 'string' && value.trim().length > 0;
+        const checks = {
+            status: a => Array.isArray(a.statusCodes) && a.statusCodes.length > 0 &&
+                a.statusCodes.every(code => Number.isInteger(code) && code >= 100 && code <= 599),
+            jsonPathEquals: a => isFilled(a.path) && a.value !== undefined,
+            jsonPathExists: a => isFilled(a.path),
+            jsonPathMatches: a => isFilled(a.path) && isFilled(a.pattern),
+            headerPresent: a => isFilled(a.header),
+            maxLatency: a => Number.isInteger(a.maxMs) && a.maxMs >= 1 && a.maxMs <= 300000
+        };
+        
+        for (let index = 0; index < assertions.length; index++) {
+            const assertion = assertions[index];
+            const check = assertion && checks[assertion.type];
+            if (!check) {
+                return `Assertion ${index + 1}: type must be one of: ${Object.keys(checks).join(', ')}`;
+            }
+            if (!check(assertion)) {
+                return `Assertion ${index + 1}: ${assertion.type} is missing a field or has an invalid value`;
+            }
+        }
+        return null;
+    }
+    
+    updateCaptures(type, text) {
+        const config = this.getConfiguration(type);
+        
+        if (!text.trim()) {
+            delete config.captures;
+        } else {
+            try {
+                config.captures = JSON.parse(text);
+            } catch (error) {
+                // Kept as text so validation reports it until it parses
+                config.captures = text;
+            }
+        }
+        this.showCapturesStatus(type);
+    }
+    
+    updateCapturesUI(type) {
+        const captures = this.getConfiguration(type).captures;
+        const input = document.getElementById(`${type}Captures`);
+        
+        if (input) {
+            input.value = captures === undefined
+                ? ''
+                : typeof captures === 'string' ? captures : JSON.stringify(captures, null, 2);
+        }
+        this.showCapturesStatus(type);
+    }
+    
+    showCapturesStatus(type) {
+        const status = document.getElementById(`${type}CapturesStatus`);
+        const error = this.validateCaptures(type);
+        
+        if (status) {
+            status.classList.toggle('error', Boolean(error));
+            status.textContent = error ||
+                'Values are stored after a successful response and used as {{variable}} in URLs, headers, payload templates and body templates.';
+        }
+    }
+    
+    validateCaptures(type) {
+        // Mirrors the app's checks; JSON paths are checked again by the app
+        const captures = this.getConfiguration(type).captures;
+        if (captures === undefined) return null;
+        if (typeof captures === 'string') return 'Capture rules are not valid JSON';
+        if (!Array.isArray(captures)) return 'Capture rules must be a list';
+        
+        const seen = new Set();
+        for (let index = 0; index < captures.length; index++) {
+            const capture = captures[index];
+            if (!capture || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(capture.variable)) {
+                return `Capture ${index + 1}: variable name must start with a letter or underscore and contain only letters, digits and underscores`;
+            }
+            if (!['jsonPath', 'header'].includes(capture.source)) {
+                return `Capture ${index + 1}: source must be one of: jsonPath, header`;
+            }
+            if (typeof capture.path !== 'string' || !capture.path.trim()) {
+                return `Capture ${index + 1}: ${capture.source === 'header' ? 'header name' : 'JSON path'} is required`;
+            }
+            if (seen.has(capture.variable)) {
+                return `Capture ${index + 1}: variable ${capture.variable} is already captured by an earlier rule`;
+            }
+            seen.add(capture.variable);
+        }
+        return null;
+    }
+    
+    updateAuth(type) {
+        const config = this.getConfiguration(type);
+        const value = field => {
+            const input = document.getElementById(`${type}Auth${field}`);
+            return input ? input.value : '';
+        };
+        
+        const schemes = {
+            bearer: () => ({ token: value('Token') }),
+            basic: () => ({ username: value('Username'), password: value('Password') }),
+            apiKey: () => ({ name: value('Name').trim(), value: value('Value'), location: value('Location') || 'header' }),
+            oauth2ClientCredentials: () => ({
+                tokenUrl: value('TokenUrl').trim(),
+                clientId: value('ClientId'),
+                clientSecret: value('ClientSecret'),
+                ...(value('Scope').trim() ? { scope: value('Scope').trim() } : {}),
+                ...(value('Audience').trim() ? { audience: value('Audience').trim() } : {})
+            })
+        };
+        
+        const authType = value('Type');
+        if (schemes[authType]) {
+            config.auth = { type: authType, ...schemes[authType]() };
+        } else {
+            delete config.auth;
+        }
+        this.showAuthFields(type);
+        this.showAuthStatus(type);
+    }
+    
+    updateAuthUI(type) {
+        const auth = this.getConfiguration(type).auth || {};
+        const keys = {
+            Token: 'token', Username: 'username', Password: 'password', Name: 'name', Value: 'value',
+            TokenUrl: 'tokenUrl', ClientId: 'clientId', ClientSecret: 'clientSecret', Scope: 'scope', Audience: 'audience'
+        };
+        const setValue = (field, value) => {
+            const input = document.getElementById(`${type}Auth${field}`);
+            if (input) input.value = value === undefined ? '' : value;
+        };
+        
+        setValue('Type', auth.type || '');
+        setValue('Location', auth.location || 'header');
+        this.authFields.forEach(field => setValue(field, auth[keys[field]]));
+        this.showAuthFields(type);
+        this.showAuthStatus(type);
+    }
+    
+    showAuthFields(type) {
+        const select = document.getElementById(`${type}AuthType`);
+        const section = select && select.closest('.config-section');
+        if (!section) return;
+        
+        section.querySelectorAll('.auth-fields').forEach(group => {
+            group.style.display = group.dataset.authType === select.value ? 'block' : 'none';
+        });
+    }
+    
+    showAuthStatus(type) {
+        const status = document.getElementById(`${type}AuthStatus`);
+        const error = this.validateAuth(type);
+        
+        if (status) {
+            status.classList.toggle('error', Boolean(error));
+            status.textContent = error ||
+                'Added to every request to this endpoint. Fields may use captured {{variable}} values.';
+        }
+    }
+    
+    validateAuth(type) {
+        // Mirrors the app's checks for endpoint credentials
+        const auth = this.getConfiguration(type).auth;
+        if (!auth) return null;
+        
+        const isFilled = value => typeof value === 'string' && value.trim().length > 0;
+        switch (auth.type) {
+            case 'bearer':
+                return isFilled(auth.token) ? null : 'Bearer token is required';
+            case 'basic':
+                if (!isFilled(auth.username)) return 'Basic auth username is required';
+                return auth.username.includes(':') ? 'Basic auth username cannot contain ":"' : null;
+            case 'apiKey':
+                if (!isFilled(auth.name)) return 'API key name is required';
+                return isFilled(auth.value) ? null : 'API key value is required';
+            case 'oauth2ClientCredentials':
+                if (!this.isValidUrl(auth.tokenUrl, true)) return 'OAuth2 token URL must be a valid URL';
+                if (!isFilled(auth.clientId)) return 'OAuth2 client ID is required';
+                return isFilled(auth.clientSecret) ? null : 'OAuth2 client secret is required';
+            default:
+                return 'Auth type must be one of: bearer, basic, apiKey, oauth2ClientCredentials';
+        }
+    }
+    
+    updateSigning(type) {
+        const config = this.getConfiguration(type);
+        const value = field => {
+            const input = document.getElementById(`${type}Signing${field}`);
+            return input ? input.value : '';
+        };
+        
+        const fields = ['Secret', 'CanonicalTemplate', 'SignatureHeader', 'TimestampHeader'];
+        if (fields.every(field => !value(field).trim())) {
+            delete config.signing;
+        } else {
+            config.signing = { secret: value('Secret') };
+            if (value('CanonicalTemplate').trim()) config.signing.canonicalTemplate = value('CanonicalTemplate');
+            if (value('SignatureHeader').trim()) config.signing.signatureHeader = value('SignatureHeader').trim();
+            if (value('TimestampHeader').trim()) config.signing.timestampHeader = value('TimestampHeader').trim();
+        }
+        this.showSigningStatus(type);
+    }
+    
+    updateSigningUI(type) {
+        const signing = this.getConfiguration(type).signing || {};
+        const setValue = (field, value) => {
+            const input = document.getElementById(`${type}Signing${field}`);
+            if (input) input.value = value || '';
+        };
+        
+        setValue('Secret', signing.secret);
+        setValue('CanonicalTemplate', signing.canonicalTemplate);
+        setValue('SignatureHeader', signing.signatureHeader);
+        setValue('TimestampHeader', signing.timestampHeader);
+        this.showSigningStatus(type);
+    }
+    
+    showSigningStatus(type) {
+        const status = document.getElementById(`${type}SigningStatus`);
+        const error = this.validateSigning(type);
+        
+        if (status) {
+            status.classList.toggle('error', Boolean(error));
+            status.textContent = error ||
+                'The hex signature is computed before each attempt. Available: {method}, {path}, {host}, {timestamp}, {bodySha256}';
+        }
+    }
+    
+    validateSigning(type) {
+        // Mirrors the app's checks for request signing
+        const signing = this.getConfiguration(type).signing;
+        if (!signing) return null;
+        if (!signing.secret) return 'Signing secret is required';
+        
+        const placeholders = ['method', 'path', 'host', 'timestamp', 'bodySha256'];
+        const used = (signing.canonicalTemplate || '').match(/\{([A-Za-z0-9_]+)\}/g) || [];
+        const unknownPlaceholder = used.find(placeholder => !placeholders.includes(placeholder.slice(1, -1)));
+        if (unknownPlaceholder) {
+            return `Unknown canonical string placeholder ${unknownPlaceholder}`;
+        }
+        
+        const isHeaderName = name => name === undefined || /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name);
+        if (!isHeaderName(signing.signatureHeader) || !isHeaderName(signing.timestampHeader)) {
+            return 'Signature and timestamp headers must be valid header names';
+        }
+        if ((signing.signatureHeader || 'X-Signature').toLowerCase() === (signing.timestampHeader || 'X-Timestamp').toLowerCase()) {
+            return 'Signature and timestamp headers must differ';
+        }
+        return null;
+    }
+    
+    isValidUrl(url, allowVariables = false) {
+        // {{name}} placeholders are filled with captured variables at request time
+        try {
+            return Boolean(new URL(allowVariables ? url.replace(/\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g, '$1') : url));
+        } catch (error) {
+            return false;
+        }
+    }
+    
+    parseVariables(text) {
+        // One name=value pair per line
+        return text.split('\n').reduce((variables, line) => {
+            const separator = line.indexOf('=');
+            if (separator > 0) {
+                const name = line.substring(0, separator).trim();
+                if (name) {
+                    variables[name] = line.substring(separator + 1).trim();
+                }
+            }
+            return variables;
+        }, {});
+    }
+    
+    formatVariables(variables) {
+        return Object.entries(variables || {})
+            .map(([name, value]) => `${name}=${value}`)
+            .join('\n');
+    }
+    
+    schedulePayloadPreview() {
+        // Debounce so typing does not send a request per keystroke
+        clearTimeout(this.previewTimer);
+        this.previewTimer = setTimeout(() => this.refreshPayloadPreview(), 300);
+    }
+    
+    refreshPayloadPreview() {
+        const preview = document.getElementById('validationPayloadPreview');
+        if (!preview) return;
+        
+        fetch('/api/payload-preview', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                template: this.validationConfig.customPayload || '{date}',
+                variables: this.validationConfig.payloadVariables
+            })
+        })
+            .then(response => response.json())
+            .then(result => {
+                const data = result.success ? result.data : { payload: null, error: result.error };
+                preview.classList.toggle('error', Boolean(data.error));
+                preview.textContent = data.error || data.payload;
+            })
+            .catch(error => {
+                console.warn('Failed to preview payload template:', error);
+            });
     }
     
     getConfiguration(type = null) {
@@ -460,11 +1298,17 @@ class EndpointConfigPanel {
             return this.validationConfig;
         } else if (type === 'enrollment') {
             return this.enrollmentConfig;
+        } else if (type === 'authentication') {
+            return this.authenticationConfig;
+        } else if (type === 'unenrollment') {
+            return this.unenrollmentConfig;
         }
         
         return {
             validation: this.validationConfig,
-            enrollment: this.enrollmentConfig
+            enrollment: this.enrollmentConfig,
+            authentication: this.authenticationConfig,
+            unenrollment: this.unenrollmentConfig
         };
     }
     
@@ -478,6 +1322,16 @@ class EndpointConfigPanel {
             this.enrollmentConfig = { ...this.enrollmentConfig, ...config.enrollment };
             this.updateEnrollmentUI();
         }
+        
+        if (config.authentication) {
+            this.authenticationConfig = { ...this.authenticationConfig, ...config.authentication };
+            this.updateAuthenticationUI();
+        }
+        
+        if (config.unenrollment) {
+            this.unenrollmentConfig = { ...this.unenrollmentConfig, ...config.unenrollment };
+            this.updateUnenrollmentUI();
+        }
     }
     
     updateValidationUI() {
@@ -485,23 +1339,104 @@ class EndpointConfigPanel {
         const methodSelect = document.getElementById('validationMethod');
         const headersTextarea = document.getElementById('validationHeaders');
         const payloadTextarea = document.getElementById('validationPayload');
+        const templateTextarea = document.getElementById('validationPayloadTemplate');
+        const variablesTextarea = document.getElementById('validationPayloadVariables');
+        const bodyTemplateTextarea = document.getElementById('validationBodyTemplate');
         
         if (urlInput) urlInput.value = this.validationConfig.url || '';
         if (methodSelect) methodSelect.value = this.validationConfig.method || 'POST';
         if (headersTextarea) headersTextarea.value = JSON.stringify(this.validationConfig.headers || {}, null, 2);
         if (payloadTextarea) payloadTextarea.value = JSON.stringify(this.validationConfig.payload || {}, null, 2);
+        if (templateTextarea) templateTextarea.value = this.validationConfig.customPayload || '{date}';
+        if (variablesTextarea) variablesTextarea.value = this.formatVariables(this.validationConfig.payloadVariables);
+        if (bodyTemplateTextarea) bodyTemplateTextarea.value = this.validationConfig.bodyTemplate || '';
+        this.showBodyTemplateStatus('validation');
+        this.updateRequestPolicyUI('validation');
+        this.updateAssertionsUI('validation');
+        this.updateCapturesUI('validation');
+        this.updateAuthUI('validation');
+        this.updateSigningUI('validation');
+        
+        const challenge = this.validationConfig.challenge || {};
+        const challengeUrlInput = document.getElementById('validationChallengeUrl');
+        const challengeMethodSelect = document.getElementById('validationChallengeMethod');
+        const challengePathInput = document.getElementById('validationChallengePath');
+        if (challengeUrlInput) challengeUrlInput.value = challenge.url || '';
+        if (challengeMethodSelect) challengeMethodSelect.value = challenge.method || 'GET';
+        if (challengePathInput) challengePathInput.value = challenge.challengePath || '';
+        
+        this.schedulePayloadPreview();
     }
     
     updateEnrollmentUI() {
         const urlInput = document.getElementById('enrollmentUrl');
         const methodSelect = document.getElementById('enrollmentMethod');
+        const keyFormatSelect = document.getElementById('enrollmentKeyFormat');
+        const algorithmSelect = document.getElementById('enrollmentAlgorithm');
+        const deviceCredentialsSelect = document.getElementById('enrollmentDeviceCredentials');
+        const requireConfirmationSelect = document.getElementById('enrollmentRequireConfirmation');
         const headersTextarea = document.getElementById('enrollmentHeaders');
         const payloadTextarea = document.getElementById('enrollmentPayload');
+        const bodyTemplateTextarea = document.getElementById('enrollmentBodyTemplate');
+        const policy = this.enrollmentConfig.enrollmentPolicy || {};
         
         if (urlInput) urlInput.value = this.enrollmentConfig.url || '';
         if (methodSelect) methodSelect.value = this.enrollmentConfig.method || 'POST';
+        if (keyFormatSelect) keyFormatSelect.value = this.enrollmentConfig.publicKeyFormat || 'base64';
+        if (algorithmSelect) algorithmSelect.value = policy.algorithm || '';
+        if (deviceCredentialsSelect) deviceCredentialsSelect.value = String(!!policy.allowDeviceCredentials);
+        if (requireConfirmationSelect) requireConfirmationSelect.value = String(!!policy.requireConfirmation);
         if (headersTextarea) headersTextarea.value = JSON.stringify(this.enrollmentConfig.headers || {}, null, 2);
         if (payloadTextarea) payloadTextarea.value = JSON.stringify(this.enrollmentConfig.payload || {}, null, 2);
+        if (bodyTemplateTextarea) bodyTemplateTextarea.value = this.enrollmentConfig.bodyTemplate || '';
+        this.showBodyTemplateStatus('enrollment');
+        this.updateRequestPolicyUI('enrollment');
+        this.updateAssertionsUI('enrollment');
+        this.updateCapturesUI('enrollment');
+        this.updateAuthUI('enrollment');
+        this.updateSigningUI('enrollment');
+    }
+    
+    updateAuthenticationUI() {
+        const urlInput = document.getElementById('authenticationUrl');
+        const methodSelect = document.getElementById('authenticationMethod');
+        const headersTextarea = document.getElementById('authenticationHeaders');
+        
+        if (urlInput) urlInput.value = this.authenticationConfig.url || '';
+        if (methodSelect) methodSelect.value = this.authenticationConfig.method || 'POST';
+        if (headersTextarea) headersTextarea.value = JSON.stringify(this.authenticationConfig.headers || {}, null, 2);
+        this.updateRequestPolicyUI('authentication');
+        this.updateAssertionsUI('authentication');
+        this.updateCapturesUI('authentication');
+        this.updateAuthUI('authentication');
+        this.updateSigningUI('authentication');
+    }
+    
+    updateUnenrollmentUI() {
+        const urlInput = document.getElementById('unenrollmentUrl');
+        const methodSelect = document.getElementById('unenrollmentMethod');
+        const deleteLocallySelect = document.getElementById('unenrollmentDeleteLocally');
+        const headersTextarea = document.getElementById('unenrollmentHeaders');
+        
+        if (urlInput) urlInput.value = this.unenrollmentConfig.url || '';
+        if (methodSelect) methodSelect.value = this.unenrollmentConfig.method || 'DELETE';
+        if (deleteLocallySelect) deleteLocallySelect.value = String(!!this.unenrollmentConfig.deleteLocallyOnFailure);
+        if (headersTextarea) headersTextarea.value = JSON.stringify(this.unenrollmentConfig.headers || {}, null, 2);
+        this.updateRequestPolicyUI('unenrollment');
+        this.updateAssertionsUI('unenrollment');
+        this.updateCapturesUI('unenrollment');
+        this.updateAuthUI('unenrollment');
+        this.updateSigningUI('unenrollment');
+    }
+    
+    updateEnrollmentPolicy(changes) {
+        this.enrollmentConfig.enrollmentPolicy = {
+            allowDeviceCredentials: false,
+            requireConfirmation: false,
+            ...this.enrollmentConfig.enrollmentPolicy,
+            ...changes
+        };
+        this.saveConfiguration();
     }
     
     updateFromState(state) {
@@ -530,9 +1465,7 @@ class EndpointConfigPanel {
             throw new Error(`${type} URL is required`);
         }
         
-        try {
-            new URL(config.url);
-        } catch (error) {
+        if (!this.isValidUrl(config.url, true)) {
             throw new Error(`Invalid ${type} URL format`);
         }
         
@@ -544,6 +1477,48 @@ class EndpointConfigPanel {
             throw new Error(`Invalid ${type} payload format`);
         }
         
+        if (this.bodyTemplatePlaceholders[type]) {
+            const bodyTemplateError = this.validateBodyTemplate(type);
+            if (bodyTemplateError) {
+                throw new Error(`Invalid ${type} body template: ${bodyTemplateError}`);
+            }
+        }
+        
+        const requestPolicyError = this.validateRequestPolicy(type);
+        if (requestPolicyError) {
+            throw new Error(`Invalid ${type} timeout and retry settings: ${requestPolicyError}`);
+        }
+        
+        const assertionsError = this.validateAssertions(type);
+        if (assertionsError) {
+            throw new Error(`Invalid ${type} response assertions: ${assertionsError}`);
+        }
+        
+        const capturesError = this.validateCaptures(type);
+        if (capturesError) {
+            throw new Error(`Invalid ${type} capture rules: ${capturesError}`);
+        }
+        
+        const authError = this.validateAuth(type);
+        if (authError) {
+            throw new Error(`Invalid ${type} authentication: ${authError}`);
+        }
+        
+        const signingError = this.validateSigning(type);
+        if (signingError) {
+            throw new Error(`Invalid ${type} request signing: ${signingError}`);
+        }
+        
+        if (config.challenge) {
+            if (!this.isValidUrl(config.challenge.url)) {
+                throw new Error(`Invalid ${type} challenge URL format`);
+            }
+            
+            if (!config.challenge.challengePath) {
+                throw new Error(`${type} challenge JSON path is required`);
+            }
+        }
+        
         return true;
     }
 }
@@ -557,7 +1532,9 @@ class ActionButtons {
         this.loadingStates = {
             enroll: false,
             validate: false,
-            deleteKeys: false
+            authenticate: false,
+            deleteKeys: false,
+            benchmark: false
         };
         
         this.init();
@@ -570,7 +1547,9 @@ class ActionButtons {
     setupButtonHandlers() {
         const enrollBtn = document.getElementById('enrollBtn');
         const validateBtn = document.getElementById('validateBtn');
+        const authenticateBtn = document.getElementById('authenticateBtn');
         const deleteKeysBtn = document.getElementById('deleteKeysBtn');
+        const benchmarkBtn = document.getElementById('benchmarkBtn');
         
         if (enrollBtn) {
             enrollBtn.addEventListener('click', () => {
@@ -584,11 +1563,23 @@ class ActionButtons {
             });
         }
         
+        if (authenticateBtn) {
+            authenticateBtn.addEventListener('click', () => {
+                this.executeOperation('authenticate');
+            });
+        }
+        
         if (deleteKeysBtn) {
             deleteKeysBtn.addEventListener('click', () => {
                 this.executeOperation('deleteKeys');
             });
         }
+        
+        if (benchmarkBtn) {
+            benchmarkBtn.addEventListener('click', () => {
+                this.runBenchmark();
+            });
+        }
     }
     
     async executeOperation(operation) {
@@ -611,13 +1602,31 @@ class ActionButtons {
             } else if (operation === 'validate') {
                 this.app.endpointConfigPanel.validateConfiguration('validation');
                 config = this.app.endpointConfigPanel.getConfiguration('validation');
+            } else if (operation === 'authenticate') {
+                // The report endpoint is optional; without it the check stays on the device
+                const authenticationConfig = this.app.endpointConfigPanel.getConfiguration('authentication');
+                if (authenticationConfig.url) {
+                    this.app.endpointConfigPanel.validateConfiguration('authentication');
+                    config = authenticationConfig;
+                }
+            } else if (operation === 'deleteKeys') {
+                // Without an unenrollment endpoint the keys are only deleted on the device
+                const unenrollmentConfig = this.app.endpointConfigPanel.getConfiguration('unenrollment');
+                if (unenrollmentConfig.url) {
+                    this.app.endpointConfigPanel.validateConfiguration('unenrollment');
+                    config = unenrollmentConfig;
+                }
             }
             
+            const keyAliasInput = document.getElementById('keyAliasInput');
+            const keyAlias = keyAliasInput && keyAliasInput.value.trim() ? keyAliasInput.value.trim() : undefined;
+            
             const message = {
                 type: 'execute-operation',
                 data: {
                     operation: operation,
                     config: config,
+                    keyAlias: keyAlias,
                     timestamp: new Date().toISOString()
                 }
             };
@@ -626,7 +1635,68 @@ class ActionButtons {
             this.setLoading(operation, true);
             
         } catch (error) {
-            this.showError(error.message);
+            this.showError(error.message);
+        }
+    }
+    
+    /**
+     * Run the signature latency benchmark and show its report in the response viewer
+     */
+    async runBenchmark() {
+        if (!this.app.isConnected) {
+            this.showError('Not connected to mobile app');
+            return;
+        }
+        
+        if (this.app.currentOperation || this.isOperationInProgress()) {
+            this.showError('Another operation is already in progress');
+            return;
+        }
+        
+        const iterationsInput = document.getElementById('benchmarkIterations');
+        const payloadSizesInput = document.getElementById('benchmarkPayloadSizes');
+        const keyAliasInput = document.getElementById('keyAliasInput');
+        
+        const request = {
+            iterations: iterationsInput ? parseInt(iterationsInput.value, 10) : undefined,
+            payloadSizes: payloadSizesInput
+                ? payloadSizesInput.value.split(',').map(size => parseInt(size.trim(), 10))
+                : undefined,
+            keyAlias: keyAliasInput && keyAliasInput.value.trim() ? keyAliasInput.value.trim() : undefined
+        };
+        
+        const startTime = Date.now();
+        this.setLoading('benchmark', true);
+        this.app.responseViewer.showLoading('benchmark');
+        
+        try {
+            const response = await fetch('/api/benchmark', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(request)
+            });
+            const result = await response.json();
+            
+            if (result.success) {
+                this.app.responseViewer.displayResponse({
+                    success: true,
+                    data: result.data,
+                    statusCode: response.status,
+                    startTime,
+                    endTime: Date.now(),
+                    timestamp: result.timestamp
+                });
+            } else {
+                this.app.responseViewer.displayError(result, {
+                    statusCode: response.status,
+                    duration: Date.now() - startTime,
+                    timestamp: result.timestamp
+                });
+            }
+        } catch (error) {
+            this.showError(`Benchmark failed: ${error.message}`);
+        } finally {
+            this.setLoading('benchmark', false);
         }
     }
     
@@ -636,13 +1706,17 @@ class ActionButtons {
         const buttonMap = {
             enroll: 'enrollBtn',
             validate: 'validateBtn',
-            deleteKeys: 'deleteKeysBtn'
+            authenticate: 'authenticateBtn',
+            deleteKeys: 'deleteKeysBtn',
+            benchmark: 'benchmarkBtn'
         };
         
         const spinnerMap = {
             enroll: 'enrollSpinner',
             validate: 'validateSpinner',
-            deleteKeys: 'deleteSpinner'
+            authenticate: 'authenticateSpinner',
+            deleteKeys: 'deleteSpinner',
+            benchmark: 'benchmarkSpinner'
         };
         
         const button = document.getElementById(buttonMap[operation]);
@@ -1097,6 +2171,338 @@ class LogsViewer {
     }
 }
 
+/**
+ * KeyDetailsViewer - Shows algorithm, size and fingerprint of each enrolled public key
+ */
+class KeyDetailsViewer {
+    constructor() {
+        this.content = document.getElementById('keyDetailsContent');
+    }
+    
+    refresh() {
+        fetch('/api/keys')
+            .then(response => response.json())
+            .then(result => {
+                if (result.success && result.data) {
+                    this.render(result.data.keys, result.data.activeKeyAlias);
+                }
+            })
+            .catch(error => {
+                console.warn('Failed to load enrolled keys:', error);
+            });
+    }
+    
+    render(keys, activeKeyAlias) {
+        if (!this.content) return;
+        
+        if (!keys || keys.length === 0) {
+            this.content.innerHTML = '<div class="key-details-empty">No enrolled keys yet.</div>';
+            return;
+        }
+        
+        this.content.innerHTML = keys.map(key => {
+            const details = [`${this.escapeHtml(key.algorithm)}${key.algorithmOid ? ` (${this.escapeHtml(key.algorithmOid)})` : ''}`];
+            if (key.algorithm === 'RSA') {
+                details.push(`${key.keySize} bits`, `e=${this.escapeHtml(key.publicExponent || '?')}`);
+            } else if (key.curve) {
+                details.push(this.escapeHtml(key.curve));
+            }
+            const fingerprint = (key.fingerprint || '').match(/.{2}/g) || [];
+            
+            return `
+                <div class="key-details-item${key.alias === activeKeyAlias ? ' active' : ''}">
+                    <div class="key-details-alias">${this.escapeHtml(key.alias)}</div>
+                    <div>${details.join(' · ')}</div>
+                    <div class="key-details-fingerprint">SHA-256 ${fingerprint.join(':')}</div>
+                </div>
+            `;
+        }).join('');
+    }
+    
+    escapeHtml(text) {
+        const div = document.createElement('div');
+        div.textContent = text;
+        return div.innerHTML;
+    }
+}
+
+// Operations whose prompt shows a fallback button, matching FALLBACK_PROMPT_OPERATIONS in the app
+const FALLBACK_PROMPT_OPERATIONS = ['enroll', 'authenticate'];
+
+/**
+ * PromptProfilesEditor - Edits the biometric prompt texts used for each operation
+ */
+class PromptProfilesEditor {
+    constructor() {
+        this.profiles = null;
+        this.operationSelect = document.getElementById('promptOperation');
+        this.messageInput = document.getElementById('promptMessage');
+        this.cancelInput = document.getElementById('promptCancelButtonText');
+        this.fallbackInput = document.getElementById('promptFallbackMessage');
+        this.fallbackGroup = document.getElementById('promptFallbackGroup');
+        this.status = document.getElementById('promptProfilesStatus');
+        this.init();
+    }
+    
+    init() {
+        if (!this.operationSelect) return;
+        
+        this.operationSelect.addEventListener('change', () => this.render());
+        document.getElementById('savePromptBtn').addEventListener('click', () => this.save());
+        document.getElementById('resetPromptsBtn').addEventListener('click', () => this.update({ reset: true }));
+    }
+    
+    refresh() {
+        fetch('/api/prompts')
+            .then(response => response.json())
+            .then(result => {
+                if (result.success && result.data) {
+                    this.profiles = result.data.profiles;
+                    this.render();
+                }
+            })
+            .catch(error => {
+                console.warn('Failed to load prompt profiles:', error);
+            });
+    }
+    
+    render() {
+        if (!this.profiles || !this.operationSelect) return;
+        
+        const operation = this.operationSelect.value;
+        const profile = this.profiles[operation];
+        this.messageInput.value = profile.promptMessage;
+        this.cancelInput.value = profile.cancelButtonText;
+        this.fallbackInput.value = profile.fallbackPromptMessage || '';
+        this.fallbackGroup.style.display = FALLBACK_PROMPT_OPERATIONS.includes(operation) ? 'block' : 'none';
+    }
+    
+    save() {
+        const operation = this.operationSelect.value;
+        const profile = {
+            promptMessage: this.messageInput.value.trim(),
+            cancelButtonText: this.cancelInput.value.trim(),
+        };
+        const fallbackPromptMessage = this.fallbackInput.value.trim();
+        if (FALLBACK_PROMPT_OPERATIONS.includes(operation) && fallbackPromptMessage) {
+            profile.fallbackPromptMessage = fallbackPromptMessage;
+        }
+        
+        if (!profile.promptMessage || !profile.cancelButtonText) {
+            this.showStatus('Prompt message and cancel button text are required.', true);
+            return;
+        }
+        
+        this.update({ profiles: { [operation]: profile } });
+    }
+    
+    update(body) {
+        fetch('/api/prompts', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        })
+            .then(response => response.json())
+            .then(result => {
+                if (!result.success) {
+                    throw new Error(result.error || 'Failed to save prompt texts');
+                }
+                this.profiles = result.data.profiles;
+                this.render();
+                this.showStatus(body.reset ? 'Prompt texts reset to defaults.' : 'Prompt texts saved.');
+            })
+            .catch(error => {
+                this.showStatus(error.message, true);
+            });
+    }
+    
+    showStatus(message, isError = false) {
+        if (!this.status) return;
+        this.status.textContent = message;
+        this.status.style.color = isError ? '#e74c3c' : '';
+    }
+}
+
+/**
+ * VariablesEditor - Shows and edits the variables captured from backend responses
+ */
+class VariablesEditor {
+    constructor() {
+        this.input = document.getElementById('variablesJson');
+        this.status = document.getElementById('variablesStatus');
+        this.init();
+    }
+    
+    init() {
+        if (!this.input) return;
+        
+        document.getElementById('saveVariablesBtn').addEventListener('click', () => this.save());
+        document.getElementById('clearVariablesBtn').addEventListener('click', () => this.update({ clear: true }));
+    }
+    
+    refresh() {
+        fetch('/api/variables')
+            .then(response => response.json())
+            .then(result => {
+                if (result.success && result.data) {
+                    this.render(result.data.variables);
+                }
+            })
+            .catch(error => {
+                console.warn('Failed to load captured variables:', error);
+            });
+    }
+    
+    render(variables) {
+        if (!this.input) return;
+        // Keep edits the user is still typing
+        if (document.activeElement === this.input) return;
+        
+        this.input.value = Object.keys(variables).length > 0 ? JSON.stringify(variables, null, 2) : '';
+    }
+    
+    save() {
+        let variables;
+        try {
+            variables = this.input.value.trim() ? JSON.parse(this.input.value) : {};
+        } catch (error) {
+            this.showStatus(`Variables are not valid JSON: ${error.message}`, true);
+            return;
+        }
+        
+        this.update({ variables });
+    }
+    
+    update(body) {
+        fetch('/api/variables', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+        })
+            .then(response => response.json())
+            .then(result => {
+                if (!result.success) {
+                    throw new Error(result.error || 'Failed to save captured variables');
+                }
+                this.render(result.data.variables);
+                this.showStatus(body.clear ? 'Captured variables cleared.' : 'Captured variables saved.');
+            })
+            .catch(error => {
+                this.showStatus(error.message, true);
+            });
+    }
+    
+    showStatus(message, isError = false) {
+        if (!this.status) return;
+        this.status.textContent = message;
+        this.status.style.color = isError ? '#e74c3c' : '';
+    }
+}
+
+/**
+ * OpenApiImporter - Generates the enroll, validate and challenge endpoints from OpenAPI operations
+ * The app reads the document, so a URL is fetched by the device, not by the browser.
+ */
+class OpenApiImporter {
+    constructor(endpointConfigPanel) {
+        this.endpointConfigPanel = endpointConfigPanel;
+        this.urlInput = document.getElementById('openApiUrl');
+        this.documentInput = document.getElementById('openApiDocument');
+        this.importButton = document.getElementById('openApiImportBtn');
+        this.status = document.getElementById('openApiStatus');
+        this.operationSelects = {
+            enroll: document.getElementById('openApiEnrollOperation'),
+            validate: document.getElementById('openApiValidateOperation'),
+            challenge: document.getElementById('openApiChallengeOperation')
+        };
+        this.init();
+    }
+    
+    init() {
+        if (!this.importButton) return;
+        
+        document.getElementById('openApiLoadBtn').addEventListener('click', () => this.loadOperations());
+        this.importButton.addEventListener('click', () => this.importOperations());
+        this.renderOperations([]);
+    }
+    
+    getSource() {
+        const text = this.documentInput.value.trim();
+        return text ? { document: text } : { url: this.urlInput.value.trim() };
+    }
+    
+    loadOperations() {
+        this.post('/api/openapi/operations', this.getSource(), 'Failed to load the OpenAPI document')
+            .then(data => {
+                this.renderOperations(data.operations);
+                this.showStatus(`Found ${data.operations.length} operation(s). Pick one for each endpoint to import.`);
+            })
+            .catch(error => {
+                this.renderOperations([]);
+                this.showStatus(error.message, true);
+            });
+    }
+    
+    renderOperations(operations) {
+        Object.values(this.operationSelects).forEach(select => {
+            select.innerHTML = '';
+            [{ key: '' }, ...operations].forEach(operation => {
+                const option = document.createElement('option');
+                const label = operation.summary || operation.operationId;
+                option.value = operation.key;
+                option.textContent = !operation.key ? 'Keep current' : label ? `${operation.key} - ${label}` : operation.key;
+                select.appendChild(option);
+            });
+        });
+        this.importButton.disabled = operations.length === 0;
+    }
+    
+    importOperations() {
+        const selection = {};
+        Object.entries(this.operationSelects).forEach(([type, select]) => {
+            if (select.value) selection[type] = select.value;
+        });
+        
+        this.post('/api/import/openapi', { ...this.getSource(), ...selection }, 'Failed to import the OpenAPI operations')
+            .then(data => {
+                // Fields the operations do not describe are cleared rather than kept from before
+                const cleared = { headers: {}, bodyTemplate: undefined, assertions: undefined };
+                const config = {};
+                if (data.configs.enroll) config.enrollment = { ...cleared, ...data.configs.enroll };
+                if (data.configs.validate) config.validation = { ...cleared, ...data.configs.validate };
+                this.endpointConfigPanel.loadConfiguration(config);
+                this.endpointConfigPanel.saveConfiguration();
+                this.showStatus('Imported and saved on the device.');
+            })
+            .catch(error => {
+                this.showStatus(error.message, true);
+            });
+    }
+    
+    post(url, body, failureMessage) {
+        return fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        })
+            .then(response => response.json())
+            .then(result => {
+                if (!result.success) {
+                    const errors = result.data && result.data.errors;
+                    throw new Error(errors ? errors.join('\n') : result.error || failureMessage);
+                }
+                return result.data;
+            });
+    }
+    
+    showStatus(message, isError = false) {
+        if (!this.status) return;
+        this.status.classList.toggle('error', isError);
+        this.status.style.whiteSpace = 'pre-line';
+        this.status.textContent = message;
+    }
+}
+
 /**
  * ResponseViewer - Enhanced API response display with JSON formatting and syntax highlighting
  * Handles formatted API output, response timing, status information, and error details
@@ -1145,6 +2551,10 @@ class ResponseViewer {
                         </span>
                     </div>
                 </div>
+                ${this.renderSignatureVerification(response.data && response.data.verification)}
+                ${this.renderAssertions(response.data && response.data.assertions)}
+                ${this.renderExchanges(response.data && response.data.exchanges)}
+                ${this.renderBenchmarkReport(response.data)}
                 <div class="response-body-container">
                     <div class="response-body-header">
                         <span>Response Body</span>
@@ -1206,6 +2616,8 @@ class ResponseViewer {
                         </span>
                     </div>
                 </div>
+                ${this.renderAssertions(errorDetails.data && errorDetails.data.assertions)}
+                ${this.renderExchanges(errorDetails.data && errorDetails.data.exchanges)}
                 <div class="error-details">
                     <div class="error-message">
                         <div class="error-section-header">
@@ -1334,6 +2746,196 @@ class ResponseViewer {
         return statusTexts[statusCode] || 'Unknown';
     }
     
+    /**
+     * Render the on-device signature verification outcome, if the response carries one
+     * @param {Object} verification - Verification result ({status, algorithm, keySize, reason})
+     * @returns {string} HTML string, empty when there is nothing to show
+     */
+    renderSignatureVerification(verification) {
+        if (!verification || !verification.status) return '';
+        
+        const labels = {
+            verified: '✅ Signature verified on device',
+            failed: '❌ Signature failed on-device verification',
+            skipped: '⏭️ On-device verification skipped'
+        };
+        const algorithm = verification.algorithm
+            ? `${verification.algorithm}${verification.keySize ? `, ${verification.keySize}-bit key` : ''}`
+            : '';
+        
+        return `
+            <div class="response-verification ${this.escapeHtml(verification.status)}">
+                <strong>${labels[verification.status] || this.escapeHtml(verification.status)}</strong>
+                ${algorithm ? `<span class="response-verification-algorithm">${this.escapeHtml(algorithm)}</span>` : ''}
+                ${verification.reason ? `<div class="response-verification-reason">${this.escapeHtml(verification.reason)}</div>` : ''}
+            </div>
+        `;
+    }
+    
+    /**
+     * Render the pass/fail verdict of each response assertion
+     * @param {Array} assertions - Assertion results of the backend call
+     * @returns {string} HTML string, empty when the endpoint has no assertions
+     */
+    renderAssertions(assertions) {
+        if (!Array.isArray(assertions) || assertions.length === 0) return '';
+        
+        const passed = assertions.filter(result => result.passed).length;
+        const items = assertions.map(result => `
+            <li class="response-assertion ${result.passed ? 'passed' : 'failed'}">
+                ${result.passed ? '✅' : '❌'} ${this.escapeHtml(result.message)}
+            </li>
+        `).join('');
+        
+        return `
+            <div class="response-assertions ${passed === assertions.length ? 'passed' : 'failed'}">
+                <strong>Assertions: ${passed} of ${assertions.length} passed</strong>
+                <ul class="response-assertion-list">${items}</ul>
+            </div>
+        `;
+    }
+    
+    /**
+     * Build a cURL command that replays a recorded request
+     * @param {Object} request - Recorded request ({method, url, headers, body}), credentials masked
+     * @returns {string} Command with one option per line
+     */
+    toCurlCommand(request) {
+        const quote = value => `'${String(value).replace(/'/g, `'\\''`)}'`;
+        const method = request.method.toUpperCase();
+        const hasBody = request.body !== undefined && request.body !== '';
+        
+        return [
+            `curl${method === 'GET' && !hasBody ? '' : ` -X ${method}`} ${quote(request.url)}`,
+            ...Object.entries(request.headers || {}).map(([name, value]) => `-H ${quote(`${name}: ${value}`)}`),
+            ...(hasBody ? [`--data-raw ${quote(request.body)}`] : [])
+        ].join(' \\\n  ');
+    }
+    
+    /**
+     * Render every HTTP exchange of the operation's backend calls, each one expandable
+     * @param {Array} exchanges - Recorded exchanges, credentials already masked
+     * @returns {string} HTML string, empty when no request was sent
+     */
+    renderExchanges(exchanges) {
+        if (!Array.isArray(exchanges) || exchanges.length === 0) return '';
+        
+        const formatHeaders = headers => Object.entries(headers || {})
+            .map(([name, value]) => `${name}: ${value}`)
+            .join('\n');
+        const items = exchanges.map(exchange => {
+            const { request, response, timings } = exchange;
+            const outcome = response
+                ? `${response.status} ${response.statusText || this.getStatusText(response.status)}`
+                : exchange.error || 'No response';
+            const timing = timings.dnsMs !== undefined
+                ? `${timings.totalMs} ms (DNS ${timings.dnsMs} ms)`
+                : `${timings.totalMs} ms`;
+            const requestText = [formatHeaders(request.headers), request.body].filter(Boolean).join('\n\n');
+            const responseText = response
+                ? [formatHeaders(response.headers), response.body].filter(Boolean).join('\n\n')
+                : '';
+            
+            return `
+                <details class="response-exchange ${response && response.status < 400 ? 'ok' : 'failed'}">
+                    <summary>
+                        <strong>${this.escapeHtml(request.method)}</strong> ${this.escapeHtml(request.url)}
+                        → ${this.escapeHtml(outcome)} <span class="response-exchange-timing">${this.escapeHtml(timing)}</span>
+                    </summary>
+                    <div class="response-exchange-section">Request</div>
+                    <pre class="response-exchange-content">${this.escapeHtml(requestText)}</pre>
+                    ${response ? `
+                        <div class="response-exchange-section">Response</div>
+                        <pre class="response-exchange-content">${this.escapeHtml(responseText)}</pre>
+                    ` : ''}
+                    <div class="response-exchange-curl">
+                        <div class="response-exchange-section">
+                            <span>cURL</span>
+                            <button class="copy-response-btn" onclick="responseViewer.copyToClipboard(this)" title="Copy as cURL">
+                                📋 Copy as cURL
+                            </button>
+                        </div>
+                        <pre class="response-exchange-content">${this.escapeHtml(this.toCurlCommand(request))}</pre>
+                    </div>
+                </details>
+            `;
+        }).join('');
+        
+        return `
+            <div class="response-exchanges">
+                <div class="response-body-header">
+                    <span>🌐 HTTP exchanges (${exchanges.length})</span>
+                    <a class="copy-response-btn" href="/api/exchanges.har" download title="Download recent exchanges as a HAR file">
+                        💾 Download HAR
+                    </a>
+                </div>
+                ${items}
+            </div>
+        `;
+    }
+    
+    /**
+     * Render per-phase latency stats for a benchmark report
+     * @param {Object} report - Benchmark report returned by /api/benchmark
+     * @returns {string} HTML string, empty when the data is not a benchmark report
+     */
+    renderBenchmarkReport(report) {
+        if (!report || !Array.isArray(report.results) || !Array.isArray(report.samples)) return '';
+        
+        this.benchmarkReport = report;
+        const phases = ['payload', 'signature', 'verification', 'total'];
+        const formatMs = value => (value === undefined || value === null ? '–' : `${value} ms`);
+        
+        const rows = report.results.map(result => phases.map((phase, index) => {
+            const stats = result.phases[phase];
+            return `
+                <tr>
+                    ${index === 0 ? `<td rowspan="${phases.length}">${this.formatSize(result.payloadSize)}<div class="benchmark-count">${result.succeeded}/${result.succeeded + result.failed} signed</div></td>` : ''}
+                    <td>${phase}</td>
+                    <td>${formatMs(stats && stats.min)}</td>
+                    <td>${formatMs(stats && stats.median)}</td>
+                    <td>${formatMs(stats && stats.p95)}</td>
+                    <td>${formatMs(stats && stats.max)}</td>
+                </tr>
+            `;
+        }).join('')).join('');
+        
+        return `
+            <div class="response-benchmark">
+                <div class="response-body-header">
+                    <span>⏱️ Signature latency (${this.escapeHtml(report.biometricProvider)} provider, slot "${this.escapeHtml(report.keyAlias)}")</span>
+                    <button class="copy-response-btn" onclick="responseViewer.downloadBenchmarkReport()" title="Download the full report as JSON">
+                        💾 Download JSON
+                    </button>
+                </div>
+                ${report.abortedReason ? `<div class="benchmark-aborted">${this.escapeHtml(report.abortedReason)}</div>` : ''}
+                <table class="benchmark-table">
+                    <thead>
+                        <tr><th>Payload</th><th>Phase</th><th>Min</th><th>Median</th><th>p95</th><th>Max</th></tr>
+                    </thead>
+                    <tbody>${rows}</tbody>
+                </table>
+            </div>
+        `;
+    }
+    
+    /**
+     * Save the last benchmark report as a JSON file
+     */
+    downloadBenchmarkReport() {
+        if (!this.benchmarkReport) return;
+        
+        const blob = new Blob([JSON.stringify(this.benchmarkReport, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `signature-benchmark-${this.benchmarkReport.startedAt.replace(/[:.]/g, '-')}.json`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    }
+    
     /**
      * Format byte size for display
      * @param {number} bytes - Size in bytes
@@ -1352,7 +2954,7 @@ class ResponseViewer {
      * @param {HTMLElement} button - The copy button that was clicked
      */
     copyToClipboard(button) {
-        const container = button.closest('.response-body-container, .error-additional, .error-stack');
+        const container = button.closest('.response-body-container, .error-additional, .error-stack, .response-exchange-curl');
         const content = container.querySelector('pre').textContent;
         
         navigator.clipboard.writeText(content).then(() => {
@@ -1440,6 +3042,148 @@ class ResponseViewer {
                 border: 1px solid #f5c6cb;
             }
             
+            .response-verification {
+                margin-bottom: 1rem;
+                padding: 0.75rem 1rem;
+                border-radius: 6px;
+                font-size: 0.85rem;
+                border: 1px solid #e1e5e9;
+            }
+            
+            .response-verification.verified {
+                background-color: #d4edda;
+                color: #155724;
+                border-color: #c3e6cb;
+            }
+            
+            .response-verification.failed {
+                background-color: #f8d7da;
+                color: #721c24;
+                border-color: #f5c6cb;
+            }
+            
+            .response-verification.skipped {
+                background-color: #e9ecef;
+                color: #495057;
+            }
+            
+            .response-verification-algorithm {
+                margin-left: 0.5rem;
+                font-family: 'Monaco', 'Menlo', 'Ubuntu Mono', monospace;
+                font-size: 0.75rem;
+            }
+            
+            .response-verification-reason {
+                margin-top: 0.25rem;
+            }
+            
+            .response-assertions {
+                margin-bottom: 1rem;
+                padding: 0.75rem 1rem;
+                border-radius: 6px;
+                font-size: 0.85rem;
+                border: 1px solid #c3e6cb;
+                background-color: #d4edda;
+                color: #155724;
+            }
+            
+            .response-assertions.failed {
+                background-color: #f8d7da;
+                color: #721c24;
+                border-color: #f5c6cb;
+            }
+            
+            .response-assertion-list {
+                margin: 0.5rem 0 0;
+                padding-left: 0;
+                list-style: none;
+            }
+            
+            .response-assertion {
+                margin-top: 0.25rem;
+            }
+            
+            .response-exchanges {
+                margin-bottom: 1rem;
+                border: 1px solid #e1e5e9;
+                border-radius: 6px;
+                font-size: 0.85rem;
+            }
+            
+            .response-exchange {
+                padding: 0.5rem 1rem;
+                border-top: 1px solid #e1e5e9;
+            }
+            
+            .response-exchange summary {
+                cursor: pointer;
+                word-break: break-all;
+            }
+            
+            .response-exchange.failed summary {
+                color: #721c24;
+            }
+            
+            .response-exchange-timing {
+                color: #666;
+            }
+            
+            .response-exchange-section {
+                display: flex;
+                justify-content: space-between;
+                align-items: center;
+                margin-top: 0.5rem;
+                font-weight: 600;
+            }
+            
+            .response-exchange-content {
+                margin: 0.25rem 0 0;
+                padding: 0.5rem;
+                background-color: #f8f9fa;
+                border-radius: 3px;
+                font-family: 'Monaco', 'Menlo', 'Ubuntu Mono', monospace;
+                font-size: 0.75rem;
+                white-space: pre-wrap;
+                word-break: break-all;
+            }
+            
+            .response-benchmark {
+                margin-bottom: 1rem;
+                border: 1px solid #e1e5e9;
+                border-radius: 6px;
+                font-size: 0.85rem;
+            }
+            
+            .benchmark-table {
+                width: 100%;
+                border-collapse: collapse;
+                font-family: 'Monaco', 'Menlo', 'Ubuntu Mono', monospace;
+                font-size: 0.75rem;
+            }
+            
+            .benchmark-table th,
+            .benchmark-table td {
+                padding: 0.35rem 0.75rem;
+                border-top: 1px solid #e1e5e9;
+                text-align: right;
+            }
+            
+            .benchmark-table th:nth-child(-n+2),
+            .benchmark-table td:first-child,
+            .benchmark-table td[rowspan] + td {
+                text-align: left;
+            }
+            
+            .benchmark-count {
+                color: #666;
+            }
+            
+            .benchmark-aborted {
+                padding: 0.5rem 1rem;
+                background-color: #fff3cd;
+                color: #856404;
+            }
+            
             .response-content-type {
                 background-color: #e9ecef;
                 color: #495057;